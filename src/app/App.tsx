@@ -35,6 +35,13 @@ const ImportReviewPage = lazy(() => import('./routes/ImportReviewPage'))
 const AmbiguityBundleImportPage = lazy(() => import('./routes/AmbiguityBundleImportPage'))
 const RegistryPage = lazy(() => import('./routes/RegistryPage'))
 const AuditTrailPage = lazy(() => import('./routes/AuditTrailPage'))
+const ToolCarryOverPage = lazy(() => import('./routes/ToolCarryOverPage'))
+const GunForceVerificationPage = lazy(() => import('./routes/GunForceVerificationPage'))
+const CrossRefRulesPage = lazy(() => import('./routes/CrossRefRulesPage'))
+const ContextMappingPage = lazy(() => import('./routes/ContextMappingPage'))
+const ToolListSchemasPage = lazy(() => import('./routes/ToolListSchemasPage'))
+const LLMMappingReviewPage = lazy(() => import('./routes/LLMMappingReviewPage'))
+const ChecklistTemplatesPage = lazy(() => import('./routes/ChecklistTemplatesPage'))
 const VersionHistoryPage = lazy(() => import('./routes/VersionHistoryPage'))
 const AreaOverviewPage = lazy(() => import('./routes/AreaOverviewPage'))
 
@@ -89,6 +96,13 @@ function App() {
                                             <Route path="ambiguity-bundle-import" element={<AmbiguityBundleImportPage />} />
                                             <Route path="registry" element={<RegistryPage />} />
                                             <Route path="audit-trail" element={<AuditTrailPage />} />
+                                            <Route path="tool-carry-over" element={<ToolCarryOverPage />} />
+                                            <Route path="gun-force-verification" element={<GunForceVerificationPage />} />
+                                            <Route path="crossref-rules" element={<CrossRefRulesPage />} />
+                                            <Route path="file-mapping" element={<ContextMappingPage />} />
+                                            <Route path="tool-list-schemas" element={<ToolListSchemasPage />} />
+                                            <Route path="llm-mapping-review" element={<LLMMappingReviewPage />} />
+                                            <Route path="checklist-templates" element={<ChecklistTemplatesPage />} />
                                             <Route path="version-history" element={<VersionHistoryPage />} />
                                             <Route path="areas/:areaKey/overview" element={<AreaOverviewPage />} />
                                         </Route>
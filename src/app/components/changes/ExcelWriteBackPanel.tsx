@@ -0,0 +1,161 @@
+import { useRef, useState } from 'react'
+import { FileSpreadsheet, Download, Loader2, X } from 'lucide-react'
+import { coreStore } from '../../../domain/coreStore'
+import {
+    buildWriteBack,
+    downloadRevisedWorkbook,
+    downloadWriteBackSummary,
+    WriteBackItem,
+    WriteBackOutcome,
+    WriteBackResult,
+    WRITE_BACK_FIELD_LABELS
+} from '../../../excel/writeBack'
+import { log } from '../../../lib/log'
+
+const OUTCOME_CLASSES: Record<WriteBackOutcome, string> = {
+    updated: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+    unchanged: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+    skipped: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+}
+
+/**
+ * Upload the original Simulation Status workbook, patch it with the
+ * change log and download the revised copy plus a change summary.
+ */
+export function ExcelWriteBackPanel({ disabled }: { disabled?: boolean }) {
+    const inputRef = useRef<HTMLInputElement>(null)
+    const [fileName, setFileName] = useState<string | null>(null)
+    const [result, setResult] = useState<WriteBackResult | null>(null)
+    const [isWorking, setIsWorking] = useState(false)
+
+    const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0]
+        event.target.value = ''
+        if (!file) return
+
+        setIsWorking(true)
+        setFileName(file.name)
+        try {
+            const buffer = await file.arrayBuffer()
+            const { cells, assets, stationRecords, changeLog } = coreStore.getState()
+            setResult(buildWriteBack(buffer, file.name, { cells, assets, stationRecords, changeLog }))
+        } catch (error) {
+            log.error('[ExcelWriteBack] Failed to process workbook', error)
+            setResult({ success: false, errorMessage: `Failed to read ${file.name}` })
+        } finally {
+            setIsWorking(false)
+        }
+    }
+
+    const reset = () => {
+        setResult(null)
+        setFileName(null)
+    }
+
+    const renderItem = (item: WriteBackItem, index: number) => (
+        <tr key={`${item.changeId}-${item.address ?? index}`} className="border-t border-gray-100 dark:border-gray-700">
+            <td className="py-1 pr-3">
+                <span className={`text-xs px-2 py-0.5 rounded ${OUTCOME_CLASSES[item.outcome]}`}>{item.outcome}</span>
+            </td>
+            <td className="py-1 pr-3">{item.cellLabel}</td>
+            <td className="py-1 pr-3">{WRITE_BACK_FIELD_LABELS[item.field]}</td>
+            <td className="py-1 pr-3 text-gray-500">{item.address ? `${item.sheetName}!${item.address}` : '—'}</td>
+            <td className="py-1 pr-3">{item.previousValue || '—'} → {item.newValue || '—'}</td>
+            <td className="py-1 text-gray-500">{item.reason ?? ''}</td>
+        </tr>
+    )
+
+    return (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 space-y-3" data-testid="changes-write-back">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">Write Back to Excel</h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Select the original Simulation Status workbook to get a revised copy with engineer, status and
+                        date edits applied. Formatting is kept; only changed cells are touched.
+                    </p>
+                </div>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept=".xlsx,.xlsm"
+                    onChange={handleFileSelect}
+                    className="hidden"
+                />
+                <button
+                    onClick={() => inputRef.current?.click()}
+                    disabled={disabled || isWorking}
+                    className="flex items-center px-4 py-2 bg-gray-800 text-white text-sm rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isWorking ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    )}
+                    Select Workbook...
+                </button>
+            </div>
+
+            {result && !result.success && (
+                <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded p-3 text-sm text-red-800 dark:text-red-200">
+                    {result.errorMessage}
+                </div>
+            )}
+
+            {result?.success && fileName && (
+                <div className="space-y-3">
+                    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                        <span className="font-medium">{fileName}:</span>
+                        <span>{result.updatedCount} cell(s) updated</span>
+                        <span>{result.items.filter(i => i.outcome === 'skipped').length} skipped</span>
+                        {result.otherWorkbookCount > 0 && (
+                            <span className="text-gray-500">
+                                {result.otherWorkbookCount} edit(s) belong to other workbooks
+                            </span>
+                        )}
+                        <div className="flex-1" />
+                        <button
+                            onClick={() => downloadRevisedWorkbook(result.output, fileName)}
+                            disabled={result.updatedCount === 0}
+                            className="flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Download className="h-4 w-4 mr-2" />
+                            Revised Workbook
+                        </button>
+                        <button
+                            onClick={() => downloadWriteBackSummary(result.items, fileName)}
+                            disabled={result.items.length === 0}
+                            className="flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Download className="h-4 w-4 mr-2" />
+                            Change Summary
+                        </button>
+                        <button onClick={reset} className="text-gray-500 hover:text-gray-700" aria-label="Dismiss">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    {result.items.length === 0 ? (
+                        <p className="text-sm text-gray-500">No engineer, status or date edits apply to this workbook.</p>
+                    ) : (
+                        <div className="max-h-80 overflow-y-auto">
+                            <table className="min-w-full text-sm text-gray-900 dark:text-gray-100">
+                                <thead>
+                                    <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                                        <th className="py-1 pr-3">Outcome</th>
+                                        <th className="py-1 pr-3">Cell</th>
+                                        <th className="py-1 pr-3">Field</th>
+                                        <th className="py-1 pr-3">Location</th>
+                                        <th className="py-1 pr-3">Value</th>
+                                        <th className="py-1">Reason</th>
+                                    </tr>
+                                </thead>
+                                <tbody>{result.items.map(renderItem)}</tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
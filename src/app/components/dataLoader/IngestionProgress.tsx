@@ -1,10 +1,24 @@
 import { useState, useEffect } from 'react';
-import { Loader2, FileSpreadsheet, CheckCircle, Database, Link2 } from 'lucide-react';
+import { Loader2, FileSpreadsheet, CheckCircle, Database, Link2, X } from 'lucide-react';
 import { cn } from '../../../ui/lib/utils';
+import type { WorkbookParseProgress } from '../../../ingestion/performance/workbookParser';
 
 interface IngestionProgressProps {
   isIngesting: boolean;
   fileCount: number;
+  /** Latest per-sheet progress reported by the workbook parser */
+  parseProgress?: WorkbookParseProgress | null;
+  onCancel?: () => void;
+}
+
+function describeParseProgress(progress: WorkbookParseProgress): string {
+  if (progress.phase === 'reading') {
+    return `Reading ${progress.fileName}...`;
+  }
+  if (progress.phase === 'sheet' && progress.sheetIndex !== undefined && progress.sheetCount) {
+    return `${progress.fileName}: parsed sheet ${progress.sheetIndex + 1} of ${progress.sheetCount} (${progress.sheetName})`;
+  }
+  return `Parsed ${progress.fileName}`;
 }
 
 type IngestionStage = 'reading' | 'parsing' | 'processing' | 'linking' | 'saving';
@@ -24,7 +38,7 @@ const stages: StageInfo[] = [
   { id: 'saving', label: 'Saving snapshot', icon: <Database className="w-4 h-4" />, duration: 500 },
 ];
 
-export function IngestionProgress({ isIngesting, fileCount }: IngestionProgressProps) {
+export function IngestionProgress({ isIngesting, fileCount, parseProgress, onCancel }: IngestionProgressProps) {
   const [currentStageIndex, setCurrentStageIndex] = useState(0);
   const [progress, setProgress] = useState(0);
 
@@ -71,14 +85,25 @@ export function IngestionProgress({ isIngesting, fileCount }: IngestionProgressP
         <div className="relative">
           <Loader2 className="w-6 h-6 text-gray-600 dark:text-gray-400 animate-spin" />
         </div>
-        <div>
+        <div className="flex-1 min-w-0">
           <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">
             Processing {fileCount} file{fileCount !== 1 ? 's' : ''}
           </h4>
-          <p className="text-xs text-gray-500 dark:text-gray-400">
-            Please wait while we import your data...
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate" data-testid="parse-progress">
+            {parseProgress ? describeParseProgress(parseProgress) : 'Please wait while we import your data...'}
           </p>
         </div>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            data-testid="cancel-ingest-button"
+            title="Stops before the next sheet; the sheet being read finishes first"
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            <X className="w-3.5 h-3.5" />
+            Cancel
+          </button>
+        )}
       </div>
 
       {/* Progress Bar */}
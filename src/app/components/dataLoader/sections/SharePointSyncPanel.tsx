@@ -0,0 +1,131 @@
+import { FolderSync, RotateCcw } from 'lucide-react';
+import { cn } from '../../../../ui/lib/utils';
+import {
+  summarizeSyncReport,
+  type SharePointSyncReport,
+  type SyncItemStatus
+} from '../../../../integrations/ms/sharePointSync';
+
+interface SharePointSyncPanelProps {
+  report: SharePointSyncReport | null;
+  lastSyncAt?: string;
+  isSyncing: boolean;
+  onSync: () => void;
+  onReset: () => void;
+}
+
+const STATUS_LABELS: Record<SyncItemStatus, string> = {
+  new: 'New',
+  modified: 'Modified',
+  unchanged: 'Unchanged',
+  'content-unchanged': 'Same content',
+  failed: 'Failed'
+};
+
+const STATUS_CLASSES: Record<SyncItemStatus, string> = {
+  new: 'text-emerald-600 dark:text-emerald-400',
+  modified: 'text-blue-600 dark:text-blue-400',
+  unchanged: 'text-gray-500 dark:text-gray-400',
+  'content-unchanged': 'text-gray-500 dark:text-gray-400',
+  failed: 'text-red-600 dark:text-red-400'
+};
+
+export function SharePointSyncPanel({
+  report,
+  lastSyncAt,
+  isSyncing,
+  onSync,
+  onReset
+}: SharePointSyncPanelProps) {
+  const counts = report ? summarizeSyncReport(report) : null;
+  // Unchanged files are the bulk of a typical sync; list only what moved
+  const changedItems = report?.items.filter(item => item.status !== 'unchanged') ?? [];
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4" data-testid="sharepoint-sync-panel">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <div className="typography-body-strong text-gray-900 dark:text-gray-100">Folder Sync</div>
+          <p className="typography-caption text-gray-500 dark:text-gray-400">
+            Scans the folder and its subfolders and re-ingests the folder when a workbook changed since the last sync.
+            {lastSyncAt && ` Last sync: ${new Date(lastSyncAt).toLocaleString()}.`}
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={onReset}
+            disabled={isSyncing || !lastSyncAt}
+            title="Forget what was synced so the next sync re-ingests every workbook"
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm typography-caption rounded text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-600"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reset
+          </button>
+          <button
+            onClick={onSync}
+            disabled={isSyncing}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent shadow-sm typography-caption rounded text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FolderSync className={cn('w-4 h-4 mr-1', isSyncing && 'animate-pulse')} />
+            {isSyncing ? 'Syncing...' : 'Sync Folder'}
+          </button>
+        </div>
+      </div>
+
+      {report?.errorMessage && (
+        <div className="rounded-md bg-red-50 dark:bg-red-900/30 p-3">
+          <p className="typography-body text-red-700 dark:text-red-300">{report.errorMessage}</p>
+        </div>
+      )}
+
+      {report && counts && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-4 typography-caption">
+            {(Object.keys(STATUS_LABELS) as SyncItemStatus[]).map(status => (
+              <span key={status} className={STATUS_CLASSES[status]}>
+                {STATUS_LABELS[status]}: <strong>{counts[status]}</strong>
+              </span>
+            ))}
+            {report.removedPaths.length > 0 && (
+              <span className="text-amber-600 dark:text-amber-400">
+                Removed from folder: <strong>{report.removedPaths.length}</strong>
+              </span>
+            )}
+          </div>
+
+          {report.ingestResult && (
+            <p className="typography-caption text-gray-600 dark:text-gray-300">
+              Ingested changes from {report.ingestedFiles.length} workbook{report.ingestedFiles.length !== 1 ? 's' : ''}:{' '}
+              {report.ingestResult.cellsCount} cells, {report.ingestResult.robotsCount} robots,{' '}
+              {report.ingestResult.toolsCount} tools, {report.ingestResult.warnings.length} warnings.
+            </p>
+          )}
+
+          {(changedItems.length > 0 || report.removedPaths.length > 0) && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 typography-caption">
+              {changedItems.map(item => (
+                <li key={item.itemId} className="py-1.5 flex justify-between gap-4">
+                  <span className="text-gray-800 dark:text-gray-200 truncate" title={item.path}>
+                    {item.path}
+                  </span>
+                  <span className={STATUS_CLASSES[item.status]}>
+                    {STATUS_LABELS[item.status]}
+                    {item.error && ` (${item.error})`}
+                  </span>
+                </li>
+              ))}
+              {report.removedPaths.map(path => (
+                <li key={`removed:${path}`} className="py-1.5 flex justify-between gap-4">
+                  <span className="text-gray-800 dark:text-gray-200 truncate" title={path}>
+                    {path}
+                  </span>
+                  <span className="text-amber-600 dark:text-amber-400">Removed</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { cn } from '../../../../ui/lib/utils';
 import { detectFileType, getFileTypeColor, getFileTypeLabel } from '../utils/fileTypeDetection';
 import { ErrorDisplay } from '../ErrorDisplay';
 import { IngestionProgress } from '../IngestionProgress';
+import type { WorkbookParseProgress } from '../../../../ingestion/performance/workbookParser';
 
 interface LocalFilesTabProps {
   simulationFiles: File[];
@@ -18,7 +19,9 @@ interface LocalFilesTabProps {
   onAssembliesFilesAdded: (files: File[]) => void;
   error: string | null;
   isIngesting: boolean;
+  parseProgress?: WorkbookParseProgress | null;
   onIngest: () => void;
+  onCancel?: () => void;
 }
 
 interface FileCategory {
@@ -164,7 +167,9 @@ export function LocalFilesTab({
   onAssembliesFilesAdded,
   error,
   isIngesting,
-  onIngest
+  parseProgress,
+  onIngest,
+  onCancel
 }: LocalFilesTabProps) {
   // Track which sections are expanded - default to expanding sections without files
   const [expandedSections, setExpandedSections] = useState<Set<string>>(() => {
@@ -285,7 +290,12 @@ export function LocalFilesTab({
 
       {/* Ingestion Progress */}
       {isIngesting && (
-        <IngestionProgress isIngesting={isIngesting} fileCount={totalFiles} />
+        <IngestionProgress
+          isIngesting={isIngesting}
+          fileCount={totalFiles}
+          parseProgress={parseProgress}
+          onCancel={onCancel}
+        />
       )}
 
       {/* Error display with actionable suggestions */}
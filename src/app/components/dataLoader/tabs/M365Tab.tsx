@@ -1,6 +1,7 @@
 import { RefreshCw } from 'lucide-react';
 import { cn } from '../../../../ui/lib/utils';
 import { MsExcelFileItem } from '../../../../integrations/ms/msGraphClient';
+import type { ReactNode } from 'react';
 
 interface M365TabProps {
   isSignedIn: boolean;
@@ -15,6 +16,8 @@ interface M365TabProps {
   onRefreshFiles: () => void;
   onToggleSelection: (id: string, type: 'sim' | 'eq') => void;
   onIngest: () => void;
+  /** Folder sync panel, rendered above the manual file picker */
+  syncPanel?: ReactNode;
 }
 
 export function M365Tab({
@@ -29,7 +32,8 @@ export function M365Tab({
   onLogin,
   onRefreshFiles,
   onToggleSelection,
-  onIngest
+  onIngest,
+  syncPanel
 }: M365TabProps) {
   if (!isSignedIn) {
     return (
@@ -54,6 +58,8 @@ export function M365Tab({
 
   return (
     <div className="space-y-6">
+      {syncPanel}
+
       {importedFiles.length > 0 && (
         <div className="border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-800/60 p-3">
           <div className="typography-caption text-gray-600 dark:text-gray-300 mb-2">Last imported files</div>
@@ -1,23 +1,107 @@
-import { Radio, AlertTriangle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Radio, AlertTriangle, CheckCircle2, Link2 } from 'lucide-react';
 import { cn } from '../../../../ui/lib/utils';
 import { SimBridgeStatus } from '../../../../integrations/simbridge/SimBridgeClient';
+import type { SimBridgeStudyState } from '../../../../integrations/simbridge/simBridgeTypes';
+import type { StudyCellCandidate } from '../../../../integrations/simbridge/simBridgeDomainAdapter';
 
 interface SimBridgeTabProps {
   sbStatus: SimBridgeStatus;
   sbStudyPath: string;
   sbError: string | null;
+  sbStudy?: SimBridgeStudyState;
   onConnect: () => void;
   onStudyPathChange: (path: string) => void;
   onLoadStudy: () => void;
+  onConfirmStudyLink: (candidate: StudyCellCandidate) => void;
+}
+
+function StudyLinkPanel({
+  study,
+  onConfirm
+}: {
+  study: SimBridgeStudyState;
+  onConfirm: (candidate: StudyCellCandidate) => void;
+}) {
+  const candidates = study.linkCandidates ?? [];
+
+  return (
+    <div className="rounded-md border border-gray-200 dark:border-gray-700 p-4 space-y-3" data-testid="simbridge-study-link">
+      <div className="flex items-center justify-between">
+        <h4 className="typography-body-strong text-gray-900 dark:text-gray-100 flex items-center">
+          <Link2 className="w-4 h-4 mr-2 text-gray-400" />
+          Linked Cell
+        </h4>
+        <span className="text-xs text-gray-500 dark:text-gray-400 truncate ml-4" title={study.studyPath}>
+          {study.studyPath}
+        </span>
+      </div>
+
+      {candidates.length === 0 ? (
+        <p className="typography-body text-gray-500 dark:text-gray-400">
+          No cell in the current data matches this study. Load the Simulation Status workbook that
+          references it, or check the study path.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {candidates.map(candidate => {
+            const isLinked = study.cellId === candidate.cellId;
+            return (
+              <li key={candidate.cellId} className="py-2 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <Link
+                    to={`/cells/${encodeURIComponent(candidate.cellId)}`}
+                    className="typography-body-strong text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {candidate.cellLabel}
+                  </Link>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{candidate.reasons.join(' · ')}</div>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <div className="w-24 h-2 bg-gray-200 dark:bg-gray-700 rounded" title={`${Math.round(candidate.confidence * 100)}% confidence`}>
+                    <div
+                      className={cn(
+                        'h-2 rounded',
+                        candidate.confidence >= 0.85 ? 'bg-green-500' : candidate.confidence >= 0.6 ? 'bg-amber-500' : 'bg-gray-400'
+                      )}
+                      style={{ width: `${Math.round(candidate.confidence * 100)}%` }}
+                    />
+                  </div>
+                  <span className="text-xs w-10 text-right text-gray-600 dark:text-gray-300">
+                    {Math.round(candidate.confidence * 100)}%
+                  </span>
+                  {isLinked && candidate.isConfirmed ? (
+                    <span className="inline-flex items-center text-xs text-green-700 dark:text-green-300">
+                      <CheckCircle2 className="w-4 h-4 mr-1" />
+                      Confirmed
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => onConfirm(candidate)}
+                      className="px-3 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      {isLinked ? 'Confirm' : 'Link'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
 }
 
 export function SimBridgeTab({
   sbStatus,
   sbStudyPath,
   sbError,
+  sbStudy,
   onConnect,
   onStudyPathChange,
-  onLoadStudy
+  onLoadStudy,
+  onConfirmStudyLink
 }: SimBridgeTabProps) {
   return (
     <div className="space-y-6 p-6">
@@ -75,6 +159,8 @@ export function SimBridgeTab({
               </button>
             </div>
           </div>
+
+          {sbStudy && <StudyLinkPanel study={sbStudy} onConfirm={onConfirmStudyLink} />}
         </div>
       )}
 
@@ -0,0 +1,186 @@
+/**
+ * Restore Snapshot Dialog Component
+ *
+ * Previews what restoring a snapshot will change in the current data and
+ * asks for confirmation before the store is replaced.
+ */
+
+import { AlertTriangle, Bookmark, Loader2, RotateCcw, X } from 'lucide-react';
+import type { RestorePreview } from '../../../storage/snapshotRestore';
+import { hasChanges, type DiffEntityType, type ItemChange } from '../../../storage/diffCalculator';
+
+export interface RestoreSnapshotDialogProps {
+  preview: RestorePreview;
+  isRestoring: boolean;
+  error?: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ENTITY_TYPE_LABELS: Record<DiffEntityType, string> = {
+  tools: 'Tools',
+  robots: 'Robots',
+  cells: 'Cells',
+  projects: 'Projects',
+  areas: 'Areas'
+};
+
+const MAX_LISTED_ITEMS = 25;
+
+/**
+ * Format timestamp for display
+ */
+function formatTimestamp(ts: string): string {
+  const date = new Date(ts);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit'
+  })}`;
+}
+
+function ItemList({ title, items, className }: { title: string; items: ItemChange[]; className: string }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div>
+      <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {title} ({items.length})
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {items.slice(0, MAX_LISTED_ITEMS).map(item => (
+          <span key={`${item.entityType}:${item.id}`} className={`text-xs px-2 py-0.5 rounded ${className}`}>
+            {item.displayName}
+          </span>
+        ))}
+        {items.length > MAX_LISTED_ITEMS && (
+          <span className="text-xs text-gray-500 dark:text-gray-400 px-2 py-0.5">
+            +{items.length - MAX_LISTED_ITEMS} more
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function RestoreSnapshotDialog({
+  preview,
+  isRestoring,
+  error,
+  onConfirm,
+  onCancel
+}: RestoreSnapshotDialogProps) {
+  const { snapshot, diff } = preview;
+  const entityTypes = Object.keys(ENTITY_TYPE_LABELS) as DiffEntityType[];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+      {/* Header */}
+      <div className="bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 p-4">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Restore Snapshot
+          </h3>
+          <button
+            onClick={onCancel}
+            disabled={isRestoring}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="text-sm text-gray-600 dark:text-gray-400 flex items-center space-x-2">
+          <span>
+            <span className="font-medium">Snapshot:</span> {formatTimestamp(snapshot.timestamp)}
+          </span>
+          {snapshot.metadata.baselineName && (
+            <span className="flex items-center space-x-1 px-2 py-0.5 text-xs rounded bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+              <Bookmark className="w-3 h-3" />
+              <span>{snapshot.metadata.baselineName}</span>
+            </span>
+          )}
+        </div>
+        <div className="mt-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+          Changes to current data: {diff.summary}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4 max-h-[60vh] overflow-y-auto">
+        {/* Counts per entity type */}
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+              <th className="py-1 pr-4">Entity</th>
+              <th className="py-1 pr-4">Added</th>
+              <th className="py-1 pr-4">Removed</th>
+              <th className="py-1 pr-4">Modified</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-900 dark:text-gray-100">
+            {entityTypes.map(type => (
+              <tr key={type}>
+                <td className="py-1 pr-4">{ENTITY_TYPE_LABELS[type]}</td>
+                <td className="py-1 pr-4 text-green-600 dark:text-green-400">{diff.added[type]}</td>
+                <td className="py-1 pr-4 text-red-600 dark:text-red-400">{diff.removed[type]}</td>
+                <td className="py-1 pr-4 text-yellow-600 dark:text-yellow-400">{diff.modified[type]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <ItemList
+          title="Will be added"
+          items={diff.addedItems}
+          className="bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-200"
+        />
+        <ItemList
+          title="Will be removed"
+          items={diff.removedItems}
+          className="bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-200"
+        />
+        <ItemList
+          title="Will be changed"
+          items={diff.modifiedItems}
+          className="bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200"
+        />
+
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 flex items-start space-x-2 text-sm text-blue-800 dark:text-blue-200">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            The current data is saved as a new snapshot before restoring, so this can be undone
+            from the timeline.
+            {!hasChanges(diff) && ' The entity data is identical; user work such as checklists and waivers is still replaced.'}
+          </span>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm text-red-800 dark:text-red-200">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="border-t border-gray-200 dark:border-gray-700 p-4 flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          disabled={isRestoring}
+          className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 rounded-lg disabled:opacity-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isRestoring}
+          className="flex items-center space-x-2 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRestoring ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <RotateCcw className="w-4 h-4" />
+          )}
+          <span>{isRestoring ? 'Restoring...' : 'Restore This Version'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
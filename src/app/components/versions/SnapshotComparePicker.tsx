@@ -0,0 +1,107 @@
+/**
+ * Snapshot Compare Picker Component
+ *
+ * Lets users pick any two snapshots (including named baselines) to compare.
+ */
+
+import { useState, useEffect } from 'react';
+import { GitCompare } from 'lucide-react';
+import { getAllSnapshots, type SnapshotSummary } from '../../../storage/indexedDBStore';
+import { log } from '../../../lib/log';
+
+export interface SnapshotComparePickerProps {
+  /** Preselected "from" snapshot, e.g. from a timeline Compare button */
+  fromTimestamp?: string | null;
+  onCompare: (from: string, to: string) => void;
+}
+
+/**
+ * Label a snapshot for the picker, baseline name first
+ */
+function formatSnapshotLabel(snapshot: SnapshotSummary): string {
+  const date = new Date(snapshot.timestamp);
+  const when = `${date.toLocaleDateString()} ${date.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit'
+  })}`;
+
+  return snapshot.metadata.baselineName ? `★ ${snapshot.metadata.baselineName} (${when})` : when;
+}
+
+export function SnapshotComparePicker({ fromTimestamp, onCompare }: SnapshotComparePickerProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    loadSnapshots();
+  }, []);
+
+  useEffect(() => {
+    if (fromTimestamp) {
+      setFrom(fromTimestamp);
+    }
+  }, [fromTimestamp]);
+
+  const loadSnapshots = async () => {
+    try {
+      const allSnapshots = await getAllSnapshots();
+      setSnapshots(allSnapshots);
+
+      // Default: previous snapshot against the newest one
+      if (allSnapshots.length >= 2) {
+        setTo(prev => prev || allSnapshots[0].timestamp);
+        setFrom(prev => prev || allSnapshots[1].timestamp);
+      }
+    } catch (err) {
+      log.error('Snapshot Compare Picker: Failed to load snapshots', err);
+    }
+  };
+
+  if (snapshots.length < 2) {
+    return null;
+  }
+
+  const selectClass =
+    'flex-1 min-w-[12rem] px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+  const renderOptions = () =>
+    snapshots.map(snapshot => (
+      <option key={snapshot.timestamp} value={snapshot.timestamp}>
+        {formatSnapshotLabel(snapshot)}
+      </option>
+    ));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+      <h3 className="font-medium text-gray-900 dark:text-gray-100 mb-3">Compare Snapshots</h3>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={from}
+          onChange={e => setFrom(e.target.value)}
+          className={selectClass}
+          aria-label="Compare from"
+        >
+          {renderOptions()}
+        </select>
+        <span className="text-gray-500">→</span>
+        <select
+          value={to}
+          onChange={e => setTo(e.target.value)}
+          className={selectClass}
+          aria-label="Compare to"
+        >
+          {renderOptions()}
+        </select>
+        <button
+          onClick={() => onCompare(from, to)}
+          disabled={!from || !to || from === to}
+          className="flex items-center space-x-1 px-4 py-2 text-sm bg-gray-600 hover:bg-gray-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <GitCompare className="w-4 h-4" />
+          <span>Compare</span>
+        </button>
+      </div>
+    </div>
+  );
+}
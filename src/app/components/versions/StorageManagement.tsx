@@ -1,17 +1,24 @@
 /**
  * Storage Management Component
  *
- * Displays storage statistics and provides actions for managing snapshots.
+ * Displays storage statistics and provides actions for managing snapshots
+ * and the workbook parse cache.
  */
 
 import { useState, useEffect } from 'react';
-import { Database, Trash2, Archive, Loader2, AlertTriangle } from 'lucide-react';
+import { Database, Trash2, Archive, Loader2, AlertTriangle, FileSpreadsheet } from 'lucide-react';
 import {
   getStorageStats,
   deleteAllSnapshots,
   pruneOldSnapshots,
   type StorageStats
 } from '../../../storage/indexedDBStore';
+import {
+  clearParseCache,
+  getParseCacheStats,
+  savePersistentCacheConfig,
+  type ParseCacheStats
+} from '../../../ingestion/performance/persistentWorkbookCache';
 import { log } from '../../../lib/log';
 
 export interface StorageManagementProps {
@@ -29,17 +36,56 @@ function formatTimestamp(ts: string): string {
   })}`;
 }
 
+/**
+ * Format a byte count as MB
+ */
+function formatMB(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export function StorageManagement({ onStorageChange }: StorageManagementProps) {
   const [stats, setStats] = useState<StorageStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isPruning, setIsPruning] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
+  const [parseCache, setParseCache] = useState<ParseCacheStats | null>(null);
+  const [isClearingParseCache, setIsClearingParseCache] = useState(false);
 
   useEffect(() => {
     loadStats();
+    loadParseCacheStats();
   }, []);
 
+  const loadParseCacheStats = async () => {
+    try {
+      setParseCache(await getParseCacheStats());
+    } catch (err) {
+      log.error('Storage Management: Failed to load parse cache stats', err);
+    }
+  };
+
+  const handleToggleParseCache = async (enabled: boolean) => {
+    if (!parseCache) return;
+    savePersistentCacheConfig({ ...parseCache.config, enabled });
+    await loadParseCacheStats();
+  };
+
+  const handleClearParseCache = async () => {
+    setIsClearingParseCache(true);
+
+    try {
+      await clearParseCache();
+      log.info('Storage Management: Cleared parse cache');
+      await loadParseCacheStats();
+    } catch (err) {
+      log.error('Storage Management: Failed to clear parse cache', err);
+      alert('Failed to clear the parse cache. Please try again.');
+    } finally {
+      setIsClearingParseCache(false);
+    }
+  };
+
   const loadStats = async () => {
     setIsLoading(true);
     setError(null);
@@ -58,7 +104,7 @@ export function StorageManagement({ onStorageChange }: StorageManagementProps) {
 
   const handlePrune = async (keepCount: number) => {
     const confirmed = confirm(
-      `This will delete all snapshots except the ${keepCount} most recent ones. Continue?`
+      `This will delete all snapshots except the ${keepCount} most recent ones. Named baselines are kept. Continue?`
     );
 
     if (!confirmed) return;
@@ -157,6 +203,7 @@ export function StorageManagement({ onStorageChange }: StorageManagementProps) {
   }
 
   const isDisabled = isPruning || isClearing;
+  const prunableCount = stats.snapshotCount - stats.baselineCount;
 
   return (
     <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
@@ -179,6 +226,12 @@ export function StorageManagement({ onStorageChange }: StorageManagementProps) {
             <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
               {stats.snapshotCount}
             </div>
+            {stats.baselineCount > 0 && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {stats.baselineCount} named baseline{stats.baselineCount !== 1 ? 's' : ''} (never
+                pruned)
+              </div>
+            )}
           </div>
 
           {/* Storage Size */}
@@ -210,6 +263,60 @@ export function StorageManagement({ onStorageChange }: StorageManagementProps) {
           )}
         </div>
 
+        {/* Parse Cache */}
+        {parseCache && (
+          <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4" data-testid="parse-cache-stats">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center space-x-2">
+                <FileSpreadsheet className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                <div className="text-sm text-gray-600 dark:text-gray-400">Parse Cache</div>
+              </div>
+              <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={parseCache.config.enabled}
+                  onChange={(e) => handleToggleParseCache(e.target.checked)}
+                />
+                <span>Keep parsed workbooks between sessions</span>
+              </label>
+            </div>
+
+            {parseCache.persistent ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                <div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Workbooks</div>
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {parseCache.persistent.entryCount}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Size / Budget</div>
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {formatMB(parseCache.persistent.totalSizeBytes)} / {formatMB(parseCache.persistent.budgetBytes)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Hits / Misses</div>
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {parseCache.persistent.hitCount} / {parseCache.persistent.missCount}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Evicted</div>
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {parseCache.persistent.evictionCount} ({formatMB(parseCache.persistent.evictedBytes)})
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                Only this session's {parseCache.memory.entryCount} parsed workbook
+                {parseCache.memory.entryCount !== 1 ? 's are' : ' is'} cached in memory.
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Storage Warning */}
         {stats.estimatedSizeMB > 250 && (
           <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 flex items-start space-x-3">
@@ -237,7 +344,7 @@ export function StorageManagement({ onStorageChange }: StorageManagementProps) {
               {/* Prune to 50 */}
               <button
                 onClick={() => handlePrune(50)}
-                disabled={isDisabled || stats.snapshotCount <= 50}
+                disabled={isDisabled || prunableCount <= 50}
                 className="w-full flex items-center justify-between p-3 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 <div className="flex items-center space-x-3">
@@ -259,7 +366,7 @@ export function StorageManagement({ onStorageChange }: StorageManagementProps) {
               {/* Prune to 20 */}
               <button
                 onClick={() => handlePrune(20)}
-                disabled={isDisabled || stats.snapshotCount <= 20}
+                disabled={isDisabled || prunableCount <= 20}
                 className="w-full flex items-center justify-between p-3 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 <div className="flex items-center space-x-3">
@@ -278,6 +385,28 @@ export function StorageManagement({ onStorageChange }: StorageManagementProps) {
                 )}
               </button>
 
+              {/* Clear Parse Cache */}
+              <button
+                onClick={handleClearParseCache}
+                disabled={isDisabled || isClearingParseCache}
+                className="w-full flex items-center justify-between p-3 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <div className="flex items-center space-x-3">
+                  <FileSpreadsheet className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+                  <div className="text-left">
+                    <div className="font-medium text-gray-900 dark:text-gray-100">
+                      Clear Parse Cache
+                    </div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">
+                      Re-parse every workbook on its next import; snapshots are kept
+                    </div>
+                  </div>
+                </div>
+                {isClearingParseCache && (
+                  <Loader2 className="w-5 h-5 animate-spin text-gray-600 dark:text-gray-400" />
+                )}
+              </button>
+
               {/* Clear All */}
               <button
                 onClick={handleClearAll}
@@ -307,6 +436,7 @@ export function StorageManagement({ onStorageChange }: StorageManagementProps) {
         <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
           <p>• Snapshots are automatically saved after each import</p>
           <p>• Storage sizes are estimates based on typical data</p>
+          <p>• Parsed workbooks are cached by file content, so unchanged files re-import quickly</p>
           <p>• All data is stored locally in your browser</p>
           <p>• Clearing browser data will remove all snapshots</p>
         </div>
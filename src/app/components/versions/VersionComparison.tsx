@@ -2,7 +2,8 @@
  * Version Comparison Component
  *
  * Displays a detailed diff between two snapshots showing added, removed,
- * and modified items.
+ * and modified items, filterable by entity type and area, with a
+ * downloadable CSV report.
  */
 
 import { useState, useEffect } from 'react';
@@ -14,12 +15,28 @@ import {
   ChevronRight,
   Loader2,
   X,
-  Search
+  Search,
+  FileDown
 } from 'lucide-react';
 import { getSnapshot } from '../../../storage/indexedDBStore';
-import { calculateDiff, type DiffResult } from '../../../storage/diffCalculator';
+import {
+  calculateDiff,
+  downloadDiffReport,
+  filterDiff,
+  getTotalChanges,
+  type DiffEntityType,
+  type DiffResult
+} from '../../../storage/diffCalculator';
 import { log } from '../../../lib/log';
 
+const ENTITY_TYPE_OPTIONS: Array<{ value: DiffEntityType; label: string }> = [
+  { value: 'tools', label: 'Tools' },
+  { value: 'robots', label: 'Robots' },
+  { value: 'cells', label: 'Cells' },
+  { value: 'areas', label: 'Areas' },
+  { value: 'projects', label: 'Projects' }
+];
+
 export interface VersionComparisonProps {
   fromTimestamp: string;
   toTimestamp: string;
@@ -63,6 +80,9 @@ export function VersionComparison({ fromTimestamp, toTimestamp, onClose }: Versi
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [entityTypeFilter, setEntityTypeFilter] = useState<DiffEntityType | ''>('');
+  const [areaFilter, setAreaFilter] = useState('');
+  const [areaNames, setAreaNames] = useState<Record<string, string>>({});
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     added: true,
     removed: true,
@@ -95,6 +115,13 @@ export function VersionComparison({ fromTimestamp, toTimestamp, onClose }: Versi
         toTimestamp
       );
 
+      // Areas from both sides, so removed areas can still be filtered on
+      const names: Record<string, string> = {};
+      for (const area of [...fromSnapshot.data.areas, ...toSnapshot.data.areas]) {
+        names[area.id] = area.name;
+      }
+
+      setAreaNames(names);
       setDiff(diffResult);
       log.info('Version Comparison: Diff calculated', {
         addedCount: diffResult.addedItems.length,
@@ -156,9 +183,27 @@ export function VersionComparison({ fromTimestamp, toTimestamp, onClose }: Versi
     );
   }
 
-  const filteredAdded = filterItems(diff.addedItems);
-  const filteredRemoved = filterItems(diff.removedItems);
-  const filteredModified = filterItems(diff.modifiedItems);
+  const scopedDiff = filterDiff(diff, {
+    entityTypes: entityTypeFilter ? [entityTypeFilter] : undefined,
+    areaIds: areaFilter ? [areaFilter] : undefined
+  });
+
+  const filteredAdded = filterItems(scopedDiff.addedItems);
+  const filteredRemoved = filterItems(scopedDiff.removedItems);
+  const filteredModified = filterItems(scopedDiff.modifiedItems);
+
+  // The report covers exactly what is on screen
+  const reportDiff: DiffResult = {
+    ...scopedDiff,
+    addedItems: filteredAdded,
+    removedItems: filteredRemoved,
+    modifiedItems: filteredModified
+  };
+
+  const areaOptions = Object.entries(areaNames).sort((a, b) => a[1].localeCompare(b[1]));
+
+  const selectClass =
+    'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
 
   const hasNoChanges =
     diff.addedItems.length === 0 &&
@@ -173,14 +218,25 @@ export function VersionComparison({ fromTimestamp, toTimestamp, onClose }: Versi
           <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
             Comparing Versions
           </h3>
-          {onClose && (
+          <div className="flex items-center space-x-3">
             <button
-              onClick={onClose}
-              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              onClick={() => downloadDiffReport(reportDiff, areaNames)}
+              disabled={getTotalChanges(reportDiff) === 0}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Download the filtered changes as CSV"
             >
-              <X className="w-5 h-5" />
+              <FileDown className="w-4 h-4" />
+              <span>Download Report</span>
             </button>
-          )}
+            {onClose && (
+              <button
+                onClick={onClose}
+                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            )}
+          </div>
         </div>
 
         <div className="flex flex-col space-y-1 text-sm">
@@ -207,6 +263,36 @@ export function VersionComparison({ fromTimestamp, toTimestamp, onClose }: Versi
             className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
         </div>
+
+        {/* Filters */}
+        <div className="mt-3 flex flex-wrap gap-2">
+          <select
+            value={entityTypeFilter}
+            onChange={e => setEntityTypeFilter(e.target.value as DiffEntityType | '')}
+            className={selectClass}
+            aria-label="Entity type"
+          >
+            <option value="">All entity types</option>
+            {ENTITY_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={areaFilter}
+            onChange={e => setAreaFilter(e.target.value)}
+            className={selectClass}
+            aria-label="Area"
+          >
+            <option value="">All areas</option>
+            {areaOptions.map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* No changes */}
@@ -219,7 +305,7 @@ export function VersionComparison({ fromTimestamp, toTimestamp, onClose }: Versi
       {/* Content */}
       <div className="max-h-[600px] overflow-y-auto">
         {/* Added Items */}
-        {diff.addedItems.length > 0 && (
+        {scopedDiff.addedItems.length > 0 && (
           <div className="border-b border-gray-200 dark:border-gray-700">
             <button
               onClick={() => toggleSection('added')}
@@ -260,7 +346,7 @@ export function VersionComparison({ fromTimestamp, toTimestamp, onClose }: Versi
         )}
 
         {/* Removed Items */}
-        {diff.removedItems.length > 0 && (
+        {scopedDiff.removedItems.length > 0 && (
           <div className="border-b border-gray-200 dark:border-gray-700">
             <button
               onClick={() => toggleSection('removed')}
@@ -301,7 +387,7 @@ export function VersionComparison({ fromTimestamp, toTimestamp, onClose }: Versi
         )}
 
         {/* Modified Items */}
-        {diff.modifiedItems.length > 0 && (
+        {scopedDiff.modifiedItems.length > 0 && (
           <div className="border-b border-gray-200 dark:border-gray-700">
             <button
               onClick={() => toggleSection('modified')}
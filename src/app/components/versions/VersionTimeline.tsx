@@ -2,16 +2,23 @@
  * Version Timeline Component
  *
  * Displays a chronological list of all saved snapshots with metadata.
- * Allows users to load, compare, and delete snapshots.
+ * Allows users to restore, compare, delete, and tag snapshots as baselines.
  */
 
 import { useState, useEffect } from 'react';
-import { Clock, Download, GitCompare, Trash2, Loader2, FileText } from 'lucide-react';
-import { getAllSnapshots, deleteSnapshot, getSnapshot, type SnapshotSummary } from '../../../storage/indexedDBStore';
-import { coreStore } from '../../../domain/coreStore';
+import { Clock, RotateCcw, GitCompare, Trash2, Loader2, FileText, Bookmark } from 'lucide-react';
+import {
+  getAllSnapshots,
+  deleteSnapshot,
+  setSnapshotBaseline,
+  type SnapshotSummary
+} from '../../../storage/indexedDBStore';
 import { log } from '../../../lib/log';
 
 export interface VersionTimelineProps {
+  onRestore?: (timestamp: string) => void;
+  /** Snapshot whose restore preview is loading */
+  restoringTimestamp?: string | null;
   onCompare?: (timestamp: string) => void;
   onRefresh?: () => void;
 }
@@ -45,11 +52,15 @@ function formatShortTimestamp(ts: string): string {
   return date.toLocaleDateString();
 }
 
-export function VersionTimeline({ onCompare, onRefresh }: VersionTimelineProps) {
+export function VersionTimeline({
+  onRestore,
+  restoringTimestamp,
+  onCompare,
+  onRefresh
+}: VersionTimelineProps) {
   const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [loadingSnapshot, setLoadingSnapshot] = useState<string | null>(null);
   const [deletingSnapshot, setDeletingSnapshot] = useState<string | null>(null);
 
   // Load snapshots on mount
@@ -73,44 +84,6 @@ export function VersionTimeline({ onCompare, onRefresh }: VersionTimelineProps)
     }
   };
 
-  const handleLoad = async (timestamp: string) => {
-    setLoadingSnapshot(timestamp);
-
-    try {
-      const snapshot = await getSnapshot(timestamp);
-
-      if (!snapshot) {
-        throw new Error('Snapshot not found');
-      }
-
-      // Load snapshot into coreStore
-      coreStore.setData(
-        {
-          projects: snapshot.data.projects,
-          areas: snapshot.data.areas,
-          cells: snapshot.data.cells,
-          robots: snapshot.data.assets.filter(a => a.kind === 'ROBOT') as any,
-          tools: snapshot.data.assets.filter(a => a.kind !== 'ROBOT') as any,
-          warnings: snapshot.data.warnings,
-          referenceData: snapshot.data.referenceData
-        },
-        snapshot.metadata.source
-      );
-
-      log.info('Version Timeline: Loaded snapshot into store', { timestamp });
-
-      // Notify parent if needed
-      if (onRefresh) {
-        onRefresh();
-      }
-    } catch (err) {
-      log.error('Version Timeline: Failed to load snapshot', err);
-      alert('Failed to load this version. Please try again.');
-    } finally {
-      setLoadingSnapshot(null);
-    }
-  };
-
   const handleDelete = async (timestamp: string) => {
     const confirmed = confirm(
       'Are you sure you want to delete this snapshot? This action cannot be undone.'
@@ -134,6 +107,36 @@ export function VersionTimeline({ onCompare, onRefresh }: VersionTimelineProps)
     }
   };
 
+  const handleToggleBaseline = async (snapshot: SnapshotSummary) => {
+    let baselineName: string | null = null;
+
+    if (!snapshot.metadata.baselineName) {
+      baselineName = prompt('Baseline name (e.g. "Gate 2 freeze"):');
+      if (!baselineName?.trim()) return;
+    } else {
+      const confirmed = confirm(
+        `Remove baseline "${snapshot.metadata.baselineName}"? The snapshot can then be pruned.`
+      );
+      if (!confirmed) return;
+    }
+
+    try {
+      await setSnapshotBaseline(snapshot.timestamp, baselineName);
+      log.info('Version Timeline: Updated baseline', {
+        timestamp: snapshot.timestamp,
+        baselineName
+      });
+
+      await loadSnapshots();
+      if (onRefresh) {
+        onRefresh();
+      }
+    } catch (err) {
+      log.error('Version Timeline: Failed to update baseline', err);
+      alert('Failed to update baseline. Please try again.');
+    }
+  };
+
   const handleCompare = (timestamp: string) => {
     if (onCompare) {
       onCompare(timestamp);
@@ -183,9 +186,9 @@ export function VersionTimeline({ onCompare, onRefresh }: VersionTimelineProps)
   return (
     <div className="space-y-3">
       {snapshots.map(snapshot => {
-        const isLoadingThis = loadingSnapshot === snapshot.timestamp;
+        const isRestoringThis = restoringTimestamp === snapshot.timestamp;
         const isDeletingThis = deletingSnapshot === snapshot.timestamp;
-        const isDisabled = isLoadingThis || isDeletingThis || loadingSnapshot !== null || deletingSnapshot !== null;
+        const isDisabled = isRestoringThis || isDeletingThis || !!restoringTimestamp || deletingSnapshot !== null;
 
         return (
           <div
@@ -207,6 +210,12 @@ export function VersionTimeline({ onCompare, onRefresh }: VersionTimelineProps)
               </div>
 
               <div className="flex items-center space-x-1">
+                {snapshot.metadata.baselineName && (
+                  <span className="flex items-center space-x-1 px-2 py-1 text-xs rounded bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+                    <Bookmark className="w-3 h-3" />
+                    <span>{snapshot.metadata.baselineName}</span>
+                  </span>
+                )}
                 <span
                   className={`px-2 py-1 text-xs rounded ${
                     snapshot.metadata.source === 'Local'
@@ -275,23 +284,26 @@ export function VersionTimeline({ onCompare, onRefresh }: VersionTimelineProps)
 
             {/* Actions */}
             <div className="flex flex-wrap gap-2">
-              <button
-                onClick={() => handleLoad(snapshot.timestamp)}
-                disabled={isDisabled}
-                className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                {isLoadingThis ? (
-                  <>
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    <span>Loading...</span>
-                  </>
-                ) : (
-                  <>
-                    <Download className="w-4 h-4" />
-                    <span>Load</span>
-                  </>
-                )}
-              </button>
+              {onRestore && (
+                <button
+                  onClick={() => onRestore(snapshot.timestamp)}
+                  disabled={isDisabled}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title="Preview and restore this version"
+                >
+                  {isRestoringThis ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      <span>Loading...</span>
+                    </>
+                  ) : (
+                    <>
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Restore</span>
+                    </>
+                  )}
+                </button>
+              )}
 
               <button
                 onClick={() => handleCompare(snapshot.timestamp)}
@@ -302,6 +314,20 @@ export function VersionTimeline({ onCompare, onRefresh }: VersionTimelineProps)
                 <span>Compare</span>
               </button>
 
+              <button
+                onClick={() => handleToggleBaseline(snapshot)}
+                disabled={isDisabled}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-amber-600 hover:bg-amber-700 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title={
+                  snapshot.metadata.baselineName
+                    ? 'Remove baseline tag'
+                    : 'Tag as named baseline (exempt from pruning)'
+                }
+              >
+                <Bookmark className="w-4 h-4" />
+                <span>{snapshot.metadata.baselineName ? 'Unmark Baseline' : 'Mark Baseline'}</span>
+              </button>
+
               <button
                 onClick={() => handleDelete(snapshot.timestamp)}
                 disabled={isDisabled}
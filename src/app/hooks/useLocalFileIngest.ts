@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { ingestFiles, IngestFilesResult, IngestFilesInput } from '../../ingestion/ingestionCoordinator';
 import { useGlobalBusy } from '../../ui/GlobalBusyContext';
 import { VersionComparisonResult } from '../../ingestion/versionComparison';
@@ -7,6 +7,7 @@ import { syncSimPilotStoreFromLocalData } from '../../domain/simPilotSnapshotBui
 import { log } from '../../lib/log';
 import { saveSnapshot } from '../../storage/indexedDBStore';
 import { coreStore } from '../../domain/coreStore';
+import type { WorkbookParseProgress } from '../../ingestion/performance/workbookParser';
 
 export function useLocalFileIngest(hasData: boolean) {
   const [simulationFiles, setSimulationFiles] = useState<File[]>([]);
@@ -18,6 +19,26 @@ export function useLocalFileIngest(hasData: boolean) {
   const [error, setError] = useState<string | null>(null);
   const { pushBusy, popBusy } = useGlobalBusy();
 
+  // Cancellation and per-sheet parse progress for the running import
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [parseProgress, setParseProgress] = useState<WorkbookParseProgress | null>(null);
+
+  const startAbortableRun = () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setParseProgress(null);
+    return controller;
+  };
+
+  const finishAbortableRun = () => {
+    abortControllerRef.current = null;
+    setParseProgress(null);
+  };
+
+  const cancelIngest = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   // Version comparison state
   const [showVersionComparison, setShowVersionComparison] = useState(false);
   const [versionComparison, setVersionComparison] = useState<VersionComparisonResult | null>(null);
@@ -66,13 +87,17 @@ export function useLocalFileIngest(hasData: boolean) {
     setError(null);
     setResult(null);
 
+    const controller = startAbortableRun();
+
     try {
       const input: IngestFilesInput = {
         simulationFiles,
         equipmentFiles: allEquipmentFiles,
         fileSources: {},
         dataSource: 'Local',
-        previewOnly: hasData && simulationFiles.length > 0
+        previewOnly: hasData && simulationFiles.length > 0,
+        signal: controller.signal,
+        onParseProgress: setParseProgress
       };
 
       simulationFiles.forEach(f => { if (input.fileSources) input.fileSources[f.name] = 'local' });
@@ -80,6 +105,11 @@ export function useLocalFileIngest(hasData: boolean) {
 
       const res = await ingestFiles(input);
 
+      if (controller.signal.aborted) {
+        setError(res.warnings[0]?.message ?? 'Import cancelled.');
+        return;
+      }
+
       // Only show version comparison modal when importing simulation files with existing data.
       // Equipment-only imports (robot lists, tool lists, assemblies) should be applied directly
       // without requiring user confirmation, since they're additive and don't replace simulation data.
@@ -112,6 +142,7 @@ export function useLocalFileIngest(hasData: boolean) {
       log.error('Local file ingestion error', err);
       setError(err instanceof Error ? err.message : "An unknown error occurred during ingestion.");
     } finally {
+      finishAbortableRun();
       setIsIngesting(false);
       popBusy();
     }
@@ -124,9 +155,17 @@ export function useLocalFileIngest(hasData: boolean) {
     pushBusy('Applying changes...');
     setShowVersionComparison(false);
 
+    const controller = startAbortableRun();
+
     try {
-      const input = { ...pendingIngestInput, previewOnly: false };
+      const input = { ...pendingIngestInput, previewOnly: false, signal: controller.signal };
       const res = await ingestFiles(input);
+
+      if (controller.signal.aborted) {
+        setError(res.warnings[0]?.message ?? 'Import cancelled.');
+        return;
+      }
+
       setResult(res);
       setPendingIngestInput(null);
       setVersionComparison(null);
@@ -149,6 +188,7 @@ export function useLocalFileIngest(hasData: boolean) {
       log.error('Local file ingestion confirmation error', err);
       setError(err instanceof Error ? err.message : "An unknown error occurred during ingestion.");
     } finally {
+      finishAbortableRun();
       setIsIngesting(false);
       popBusy();
     }
@@ -176,6 +216,7 @@ export function useLocalFileIngest(hasData: boolean) {
     toolListFiles,
     assembliesFiles,
     isIngesting,
+    parseProgress,
     result,
     error,
     showVersionComparison,
@@ -185,6 +226,7 @@ export function useLocalFileIngest(hasData: boolean) {
     addToolListFiles,
     addAssembliesFiles,
     handleIngest,
+    cancelIngest,
     confirmVersionComparison,
     cancelVersionComparison,
     clearFiles,
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { useGlobalBusy } from '../../ui/GlobalBusyContext';
+import {
+  clearSyncState,
+  loadSyncState,
+  runSharePointSync,
+  saveSyncState,
+  type SharePointSyncReport
+} from '../../integrations/ms/sharePointSync';
+import { syncDerivedStores } from '../../persistence/PersistenceManager';
+import { saveSnapshot } from '../../storage/indexedDBStore';
+import { coreStore } from '../../domain/coreStore';
+import { log } from '../../lib/log';
+
+export function useSharePointSync() {
+  const [report, setReport] = useState<SharePointSyncReport | null>(null);
+  const [lastSyncAt, setLastSyncAt] = useState<string | undefined>(() => loadSyncState().lastSyncAt);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { pushBusy, popBusy } = useGlobalBusy();
+
+  const runSync = async () => {
+    setIsSyncing(true);
+    pushBusy('Syncing SharePoint folder...');
+
+    try {
+      const { report: syncReport, state } = await runSharePointSync(loadSyncState());
+      saveSyncState(state);
+      setReport(syncReport);
+      setLastSyncAt(state.lastSyncAt);
+
+      if (syncReport.ingestedFiles.length > 0) {
+        syncDerivedStores();
+
+        // Save snapshot to IndexedDB
+        try {
+          const snapshotTimestamp = await saveSnapshot(
+            coreStore.getState(),
+            syncReport.ingestedFiles,
+            'SharePoint folder sync'
+          );
+          log.info('Snapshot saved after SharePoint sync:', snapshotTimestamp);
+        } catch (snapshotErr) {
+          log.error('Failed to save snapshot after SharePoint sync:', snapshotErr);
+        }
+      }
+    } catch (err) {
+      log.error('SharePoint sync error', err);
+      const now = new Date().toISOString();
+      setReport({
+        startedAt: now,
+        completedAt: now,
+        items: [],
+        removedPaths: [],
+        ingestedFiles: [],
+        errorMessage: err instanceof Error ? err.message : 'SharePoint sync failed.'
+      });
+    } finally {
+      setIsSyncing(false);
+      popBusy();
+    }
+  };
+
+  // Forget remembered eTags/hashes so the next sync re-ingests everything
+  const resetSync = () => {
+    clearSyncState();
+    setLastSyncAt(undefined);
+    setReport(null);
+  };
+
+  return {
+    report,
+    lastSyncAt,
+    isSyncing,
+    runSync,
+    resetSync
+  };
+}
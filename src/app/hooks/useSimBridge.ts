@@ -1,12 +1,20 @@
 import { useState, useEffect } from 'react';
 import { useGlobalBusy } from '../../ui/GlobalBusyContext';
 import { simBridgeClient, SimBridgeStatus } from '../../integrations/simbridge/SimBridgeClient';
+import { simBridgeService } from '../../integrations/simbridge/SimBridgeService';
+import type { SimBridgeStudyState } from '../../integrations/simbridge/simBridgeTypes';
+import type { StudyCellCandidate } from '../../integrations/simbridge/simBridgeDomainAdapter';
+import { useCurrentUser } from '../../hooks/useCurrentUser';
 
 export function useSimBridge(isActive: boolean) {
   const [sbStatus, setSbStatus] = useState<SimBridgeStatus>({ isConnected: false, version: '' });
   const [sbStudyPath, setSbStudyPath] = useState('');
   const [sbError, setSbError] = useState<string | null>(null);
+  const [sbStudy, setSbStudy] = useState<SimBridgeStudyState | undefined>(
+    simBridgeService.getState().currentStudy
+  );
   const { pushBusy, popBusy } = useGlobalBusy();
+  const user = useCurrentUser();
 
   useEffect(() => {
     if (isActive) {
@@ -15,19 +23,26 @@ export function useSimBridge(isActive: boolean) {
   }, [isActive]);
 
   const checkStatus = async () => {
-    const status = await simBridgeClient.getStatus();
-    setSbStatus(status);
+    try {
+      setSbStatus(await simBridgeClient.getStatus());
+    } catch (_e) {
+      setSbStatus({ isConnected: false, version: '' });
+    }
   };
 
   const handleConnect = async () => {
     pushBusy('Connecting to SimBridge...');
     try {
-      const connected = await simBridgeClient.connect();
-      if (connected) {
+      // Through the service so a lost connection is retried in the background
+      const state = await simBridgeService.connect();
+      if (state.status === 'connected') {
         await checkStatus();
         setSbError(null);
       } else {
-        setSbError('Failed to connect to SimBridge. Ensure the server is running.');
+        const retry = state.reconnect ? ' Retrying automatically.' : '';
+        setSbError(
+          `Failed to connect to SimBridge (${state.lastError?.message ?? 'server not connected'}). Ensure the server is running.${retry}`
+        );
       }
     } catch (_e) {
       setSbError('Connection error.');
@@ -40,12 +55,13 @@ export function useSimBridge(isActive: boolean) {
     if (!sbStudyPath) return;
     pushBusy('Loading study via SimBridge...');
     try {
-      const success = await simBridgeClient.loadStudy(sbStudyPath);
-      if (success) {
+      // Through the service so the study gets linked to a cell
+      const state = await simBridgeService.loadStudy(sbStudyPath);
+      if (!state.lastError && state.currentStudy?.studyPath === sbStudyPath) {
         setSbError(null);
-        alert('Study loaded successfully!');
+        setSbStudy(state.currentStudy);
       } else {
-        setSbError('Failed to load study.');
+        setSbError(state.lastError?.message ?? 'Failed to load study.');
       }
     } catch (_e) {
       setSbError('Error loading study.');
@@ -54,12 +70,19 @@ export function useSimBridge(isActive: boolean) {
     }
   };
 
+  const handleConfirmStudyLink = (candidate: StudyCellCandidate) => {
+    const state = simBridgeService.confirmStudyLink(candidate, user?.email);
+    setSbStudy(state.currentStudy);
+  };
+
   return {
     sbStatus,
     sbStudyPath,
     sbError,
+    sbStudy,
     setSbStudyPath,
     handleConnect,
-    handleLoadStudy
+    handleLoadStudy,
+    handleConfirmStudyLink
   };
 }
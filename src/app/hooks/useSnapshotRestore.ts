@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { syncDerivedStores } from '../../persistence/PersistenceManager';
+import {
+  previewSnapshotRestore,
+  restoreSnapshot,
+  type RestorePreview,
+  type RestoreResult
+} from '../../storage/snapshotRestore';
+import { useGlobalBusy } from '../../ui/GlobalBusyContext';
+import { log } from '../../lib/log';
+
+/**
+ * Preview-then-confirm flow for rolling the store back to a snapshot
+ */
+export function useSnapshotRestore(onRestored?: (result: RestoreResult) => void) {
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { pushBusy, popBusy } = useGlobalBusy();
+
+  const requestRestore = async (timestamp: string) => {
+    setIsLoadingPreview(true);
+    setError(null);
+
+    try {
+      const restorePreview = await previewSnapshotRestore(timestamp);
+      if (!restorePreview) {
+        setError('Snapshot not found. It may have been deleted.');
+        return;
+      }
+      setPreview(restorePreview);
+    } catch (err) {
+      log.error('Snapshot restore: Failed to build preview', err);
+      setError('Failed to load snapshot for restore.');
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
+  const confirmRestore = async () => {
+    if (!preview) return;
+
+    setIsRestoring(true);
+    pushBusy('Restoring snapshot...');
+
+    try {
+      const result = await restoreSnapshot(preview.snapshot);
+      if (result.success) {
+        syncDerivedStores();
+        setPreview(null);
+      } else {
+        setError(result.errorMessage);
+      }
+      onRestored?.(result);
+    } finally {
+      setIsRestoring(false);
+      popBusy();
+    }
+  };
+
+  const cancelRestore = () => {
+    setPreview(null);
+    setError(null);
+  };
+
+  return {
+    preview,
+    isLoadingPreview,
+    isRestoring,
+    error,
+    requestRestore,
+    confirmRestore,
+    cancelRestore
+  };
+}
@@ -1,13 +1,17 @@
 import { useState, useMemo } from 'react'
 import { useCoreStore } from '../../domain/coreStore'
 import { PageHeader } from '../../ui/components/PageHeader'
-import { filterAuditLog, formatAuditEntry, type AuditAction } from '../../domain/auditLog'
-import { EntityType } from '../../domain/uidTypes'
+import {
+  filterAuditLog,
+  formatAuditEntry,
+  type AuditAction,
+  type AuditEntityType,
+} from '../../domain/auditLog'
 import { formatDistanceToNow, format } from 'date-fns'
 
 export default function AuditTrailPage() {
   const { auditLog } = useCoreStore()
-  const [entityTypeFilter, setEntityTypeFilter] = useState<EntityType | 'all'>('all')
+  const [entityTypeFilter, setEntityTypeFilter] = useState<AuditEntityType | 'all'>('all')
   const [actionFilter, setActionFilter] = useState<AuditAction | 'all'>('all')
   const [searchTerm, setSearchTerm] = useState('')
   const [fromDate, setFromDate] = useState('')
@@ -79,13 +83,14 @@ export default function AuditTrailPage() {
             />
             <select
               value={entityTypeFilter}
-              onChange={(e) => setEntityTypeFilter(e.target.value as EntityType | 'all')}
+              onChange={(e) => setEntityTypeFilter(e.target.value as AuditEntityType | 'all')}
               className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
             >
               <option value="all">All Entity Types</option>
               <option value="station">Stations</option>
               <option value="tool">Tools</option>
               <option value="robot">Robots</option>
+              <option value="checklist_item">Checklist Items</option>
             </select>
             <select
               value={actionFilter}
@@ -96,10 +101,14 @@ export default function AuditTrailPage() {
               <option value="activate">Activate</option>
               <option value="deactivate">Deactivate</option>
               <option value="add_alias">Add Alias</option>
+              <option value="remove_alias">Remove Alias</option>
+              <option value="merge_entities">Merge Entities</option>
+              <option value="split_entity">Split Entity</option>
               <option value="override_label">Override Label</option>
               <option value="update_attributes">Update Attributes</option>
               <option value="create_entity">Create Entity</option>
               <option value="delete_entity">Delete Entity</option>
+              <option value="update_checklist_item">Checklist Item</option>
             </select>
           </div>
 
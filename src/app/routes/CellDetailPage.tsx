@@ -11,8 +11,14 @@ import {
   useAllEngineerMetrics,
 } from '../../ui/hooks/useDomainData'
 import { coreStore, useCoreStore } from '../../domain/coreStore'
-import { Tool } from '../../domain/core'
-import { createCellEngineerAssignmentChange } from '../../domain/changeLog'
+import { CellStatus, Tool } from '../../domain/core'
+import { ScheduleField, createCellEngineerAssignmentChange } from '../../domain/changeLog'
+import {
+  changeCellStatus,
+  getCellScheduleDate,
+  moveCellSchedule,
+  swapCellEquipment,
+} from '../../domain/changeLogStore'
 import {
   AlertTriangle,
   Check,
@@ -20,15 +26,37 @@ import {
   ArrowRight,
   Package,
   FileSpreadsheet,
+  ShieldCheck,
+  Zap,
 } from 'lucide-react'
 import { InfoPill } from '../../ui/components/InfoPill'
 import { CellChaosHint } from '../../ui/components/CellChaosHint'
-import { simBridgeClient } from '../../integrations/simbridge/SimBridgeClient'
+import { simBridgeService } from '../../integrations/simbridge/SimBridgeService'
 import { useGlobalBusy } from '../../ui/GlobalBusyContext'
 import { log } from '../../lib/log'
 import { useCrossRefData } from '../../hooks/useCrossRefData'
 import { normalizeStationId } from '../../domain/crossRef/CrossRefUtils'
-import { FlagsList } from '../../ui/components/FlagBadge'
+import { FlagsList, WaivedFlagsList } from '../../ui/components/FlagBadge'
+import { useFlagWaivers } from '../../hooks/useFlagWaivers'
+import { GunCheckList } from '../../ui/components/GunCheckList'
+import { useGunChecks } from '../../hooks/useGunChecks'
+import { SpotWeldDistribution } from '../../ui/components/SpotWeldDistribution'
+import { useSpotWelds } from '../../hooks/useSpotWelds'
+import { useCurrentUser } from '../../hooks/useCurrentUser'
+
+const CELL_STATUS_OPTIONS: { value: CellStatus; label: string }[] = [
+  { value: 'NotStarted', label: 'Not Started' },
+  { value: 'InProgress', label: 'In Progress' },
+  { value: 'Blocked', label: 'Blocked' },
+  { value: 'ReadyForReview', label: 'Ready For Review' },
+  { value: 'Approved', label: 'Approved' },
+]
+
+const SCHEDULE_FIELDS: { field: ScheduleField; label: string }[] = [
+  { field: 'plannedStart', label: 'Planned Start' },
+  { field: 'plannedFinish', label: 'Planned Finish' },
+  { field: 'dueDate', label: 'Due Date' },
+]
 
 export function CellDetailPage() {
   const { cellId } = useParams<{ cellId: string }>()
@@ -77,6 +105,7 @@ export function CellDetailPage() {
   const tools = useToolsByCell(cell?.id || '')
   const allEngineers = useAllEngineerMetrics()
   const { pushBusy, popBusy } = useGlobalBusy()
+  const user = useCurrentUser()
 
   // Get robots from CrossRef data (includes robots from simulation status)
   const { cells: crossRefCells } = useCrossRefData()
@@ -90,6 +119,17 @@ export function CellDetailPage() {
   }, [cell?.code, crossRefCells])
 
   const crossRefFlags = crossRefCell?.flags || []
+  const waivedFlags = crossRefCell?.waivedFlags || []
+  const { waiveFlag, revokeWaiver, getWaiver } = useFlagWaivers()
+
+  const { snapshots: gunCheckSnapshots, getCheck, canSignOff, recordCheck } = useGunChecks()
+  const cellGunChecks = useMemo(
+    () => (cell ? gunCheckSnapshots.filter((c) => c.cellId === cell.id) : []),
+    [gunCheckSnapshots, cell],
+  )
+  const approvedGunChecks = cellGunChecks.filter((c) => c.state === 'APPROVED').length
+
+  const { distribution: spotWelds, importFile: importSpotWelds } = useSpotWelds(cell?.id)
 
   const { assets } = useCoreStore()
 
@@ -226,17 +266,22 @@ export function CellDetailPage() {
     if (!cell.simulation?.studyPath) return
     pushBusy('Opening simulation in Tecnomatix...')
     try {
-      const connected = await simBridgeClient.connect()
-      if (!connected) {
+      const connection = await simBridgeService.connect()
+      if (connection.status !== 'connected') {
         alert(
           "We couldn't reach the simulation server right now. It's safe to continue your planning – the data in SimPilot is still valid.",
         )
         return
       }
 
-      const success = await simBridgeClient.loadStudy(cell.simulation.studyPath)
-      if (success !== true) {
+      const state = await simBridgeService.loadStudy(cell.simulation.studyPath, {
+        projectId: cell.projectId,
+        cellId: cell.id,
+      })
+      if (state.lastError?.kind === 'study_not_found') {
         alert('Failed to load the study. Please check if the file exists on the server.')
+      } else if (state.lastError) {
+        alert(`Failed to load the study: ${state.lastError.message}`)
       }
     } catch (e) {
       log.error('Failed to open simulation', e)
@@ -246,6 +291,32 @@ export function CellDetailPage() {
     }
   }
 
+  // Offer equipment of the same kind elsewhere in the area as a replacement
+  const renderSwapSelect = (assetId: string | undefined) => {
+    const current = assets.find((a) => a.id === assetId && a.cellId === cell.id)
+    if (!current) return '—'
+    const candidates = assets.filter(
+      (a) => a.kind === current.kind && a.areaId === cell.areaId && a.cellId !== cell.id,
+    )
+    return (
+      <select
+        value=""
+        onChange={(e) => swapCellEquipment(cell.id, current.id, e.target.value, user?.email)}
+        onClick={(e) => e.stopPropagation()}
+        disabled={candidates.length === 0}
+        aria-label={`Swap ${current.name}`}
+        className="border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-xs bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        <option value="">Swap for...</option>
+        {candidates.map((a) => (
+          <option key={a.id} value={a.id}>
+            {a.name}
+          </option>
+        ))}
+      </select>
+    )
+  }
+
   // Use a flexible type for robot columns since we merge CrossRef and legacy robots
   type RobotDisplay = {
     id?: string
@@ -331,6 +402,7 @@ export function CellDetailPage() {
         return comment && comment.toString().trim().length > 0 ? comment : '—'
       },
     },
+    { header: 'Swap', accessor: (r) => renderSwapSelect(r.linkAssetId) },
   ]
 
   const toolColumns: Column<Tool>[] = [
@@ -352,6 +424,7 @@ export function CellDetailPage() {
           '-'
         ),
     },
+    { header: 'Swap', accessor: (t) => renderSwapSelect(t.id) },
   ]
 
   return (
@@ -388,6 +461,18 @@ export function CellDetailPage() {
             </span>
           )}
           <StatusPill status={cell.status} />
+          <select
+            value={cell.status}
+            onChange={(e) => changeCellStatus(cell.id, e.target.value as CellStatus, user?.email)}
+            aria-label="Change station status"
+            className="border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-xs bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {CELL_STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </div>
       </div>
 
@@ -521,6 +606,21 @@ export function CellDetailPage() {
               }
             />
           </div>
+          <div className="mt-4 flex flex-wrap items-end gap-4">
+            {SCHEDULE_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex flex-col gap-1">
+                <span className="text-[10px] font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-400">
+                  {label}
+                </span>
+                <input
+                  type="date"
+                  value={getCellScheduleDate(cell, field)?.slice(0, 10) ?? ''}
+                  onChange={(e) => moveCellSchedule(cell.id, field, e.target.value, user?.email)}
+                  className="border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-xs bg-white dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            ))}
+          </div>
           <div className="mt-2">
             <CellChaosHint cell={cell} />
           </div>
@@ -577,7 +677,7 @@ export function CellDetailPage() {
               </h3>
             </div>
             <div className="p-5 max-h-[480px] overflow-y-auto custom-scrollbar">
-              <FlagsList flags={crossRefFlags} compact />
+              <FlagsList flags={crossRefFlags} compact onWaive={waiveFlag} />
               {crossRefFlags.length === 0 && (
                 <div className="flex flex-col items-center justify-center py-6 text-center">
                   <div className="h-10 w-10 flex items-center justify-center rounded-full bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 mb-3">
@@ -591,6 +691,49 @@ export function CellDetailPage() {
                   </p>
                 </div>
               )}
+              {waivedFlags.length > 0 && (
+                <div className="mt-5 pt-4 border-t border-gray-100 dark:border-gray-700/50">
+                  <h4 className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-3">
+                    Acknowledged / waived ({waivedFlags.length})
+                  </h4>
+                  <WaivedFlagsList
+                    flags={waivedFlags}
+                    getWaiver={getWaiver}
+                    onRevoke={revokeWaiver}
+                  />
+                </div>
+              )}
+            </div>
+          </section>
+
+          {/* Robot–gun check sign-off */}
+          <section className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm overflow-hidden">
+            <div className="px-5 py-4 border-b border-gray-100 dark:border-gray-700/50 flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-emerald-500" />
+              <h3 className="text-sm font-bold text-gray-900 dark:text-white uppercase tracking-tight">
+                Gun Checks ({approvedGunChecks}/{cellGunChecks.length} signed off)
+              </h3>
+            </div>
+            <div className="p-5 max-h-[480px] overflow-y-auto custom-scrollbar">
+              <GunCheckList
+                gunChecks={cellGunChecks}
+                getCheck={getCheck}
+                canSignOff={canSignOff}
+                onRecord={recordCheck}
+              />
+            </div>
+          </section>
+
+          {/* Spot weld distribution */}
+          <section className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm overflow-hidden">
+            <div className="px-5 py-4 border-b border-gray-100 dark:border-gray-700/50 flex items-center gap-2">
+              <Zap className="h-4 w-4 text-blue-500" />
+              <h3 className="text-sm font-bold text-gray-900 dark:text-white uppercase tracking-tight">
+                Spot Welds ({spotWelds.total})
+              </h3>
+            </div>
+            <div className="p-5 max-h-[480px] overflow-y-auto custom-scrollbar">
+              <SpotWeldDistribution distribution={spotWelds} onImport={importSpotWelds} />
             </div>
           </section>
 
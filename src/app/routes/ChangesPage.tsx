@@ -1,24 +1,70 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { PageHeader } from '../../ui/components/PageHeader'
 import { DataTable, Column } from '../../ui/components/DataTable'
-import { useChangeLog, coreStore } from '../../domain/coreStore'
-import { ChangeRecord, summarizeChange } from '../../domain/changeLog'
+import { useChangeLog, useCells, coreStore } from '../../domain/coreStore'
+import {
+    ChangeKind,
+    ChangeRecord,
+    CHANGE_KIND_LABELS,
+    createNoteChange,
+    filterChanges,
+    getChangeEngineers,
+    summarizeChange
+} from '../../domain/changeLog'
 import { downloadChangesAsCsv } from '../../utils/csvExport'
-import { Download, Trash2, AlertCircle } from 'lucide-react'
+import { useCurrentUser } from '../../hooks/useCurrentUser'
+import { ExcelWriteBackPanel } from '../components/changes/ExcelWriteBackPanel'
+import { Download, Trash2, AlertCircle, MessageSquarePlus } from 'lucide-react'
+
+const inputClass =
+    'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
 
 export function ChangesPage() {
     const changes = useChangeLog()
+    const cells = useCells()
+    const user = useCurrentUser()
     const [confirmClear, setConfirmClear] = useState(false)
 
+    const [cellFilter, setCellFilter] = useState('')
+    const [engineerFilter, setEngineerFilter] = useState('')
+    const [kindFilter, setKindFilter] = useState<ChangeKind | ''>('')
+    const [fromDate, setFromDate] = useState('')
+    const [toDate, setToDate] = useState('')
+
+    const [noteCellId, setNoteCellId] = useState('')
+    const [noteText, setNoteText] = useState('')
+
+    const cellLabelById = useMemo(() => new Map(cells.map(c => [c.id, `${c.code} - ${c.name}`])), [cells])
+
+    const engineers = useMemo(() => {
+        const names = new Set<string>()
+        changes.forEach(c => getChangeEngineers(c).forEach(e => names.add(e)))
+        return Array.from(names).sort()
+    }, [changes])
+
+    const filteredChanges = useMemo(
+        () =>
+            filterChanges(changes, {
+                cellId: cellFilter || undefined,
+                engineer: engineerFilter || undefined,
+                kind: kindFilter || undefined,
+                fromDate: fromDate || undefined,
+                toDate: toDate || undefined
+            }).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+        [changes, cellFilter, engineerFilter, kindFilter, fromDate, toDate]
+    )
+
     const columns: Column<ChangeRecord>[] = [
         { header: 'Date', accessor: (c) => new Date(c.createdAt).toLocaleString() },
-        { header: 'Type', accessor: (c) => c.kind },
+        { header: 'Type', accessor: (c) => CHANGE_KIND_LABELS[c.kind] },
+        { header: 'Cell', accessor: (c) => cellLabelById.get(c.cellId) || c.cellId },
         { header: 'Summary', accessor: (c) => summarizeChange(c) },
+        { header: 'Author', accessor: (c) => c.createdBy || '—' },
         { header: 'ID', accessor: (c) => <span className="text-xs text-gray-400">{c.id}</span> }
     ]
 
     const handleExport = () => {
-        downloadChangesAsCsv(changes)
+        downloadChangesAsCsv(filteredChanges)
     }
 
     const handleClear = () => {
@@ -26,11 +72,28 @@ export function ChangesPage() {
         setConfirmClear(false)
     }
 
+    const handleAddNote = (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!noteCellId || !noteText.trim()) return
+
+        const cell = cells.find(c => c.id === noteCellId)
+        coreStore.addChange(
+            createNoteChange(noteCellId, noteText.trim(), {
+                createdBy: user?.email,
+                projectId: cell?.projectId,
+                areaId: cell?.areaId
+            })
+        )
+        setNoteText('')
+    }
+
+    const hasFilters = Boolean(cellFilter || engineerFilter || kindFilter || fromDate || toDate)
+
     return (
         <div className="space-y-6" data-testid="changes-root">
             <PageHeader
-                title="Pending Changes"
-                subtitle="Review and export changes before they are synced to the master source."
+                title="Change Log"
+                subtitle="Notes and edits made in SimPilot. Filter, review and export them before they are synced to the master source."
                 actions={
                     <div className="flex space-x-3">
                         {confirmClear ? (
@@ -62,29 +125,104 @@ export function ChangesPage() {
 
                         <button
                             onClick={handleExport}
-                            disabled={changes.length === 0}
+                            disabled={filteredChanges.length === 0}
                             data-testid="changes-export-csv"
                             className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             <Download className="h-4 w-4 mr-2" />
-                            Export CSV
+                            Export CSV ({filteredChanges.length})
                         </button>
                     </div>
                 }
             />
 
+            {cells.length > 0 && (
+                <form
+                    onSubmit={handleAddNote}
+                    className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 flex flex-wrap items-center gap-3"
+                    data-testid="changes-add-note"
+                >
+                    <select value={noteCellId} onChange={e => setNoteCellId(e.target.value)} className={inputClass}>
+                        <option value="">Select cell...</option>
+                        {cells.map(c => (
+                            <option key={c.id} value={c.id}>{cellLabelById.get(c.id)}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="text"
+                        value={noteText}
+                        onChange={e => setNoteText(e.target.value)}
+                        placeholder="Add a note, e.g. 'Moved R1 base +50mm X to clear column'"
+                        className={`flex-1 min-w-[240px] ${inputClass}`}
+                    />
+                    <button
+                        type="submit"
+                        disabled={!noteCellId || !noteText.trim()}
+                        className="flex items-center px-4 py-2 bg-gray-800 text-white text-sm rounded-md hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <MessageSquarePlus className="h-4 w-4 mr-2" />
+                        Add Note
+                    </button>
+                </form>
+            )}
+
+            <ExcelWriteBackPanel disabled={changes.length === 0} />
+
             {changes.length === 0 ? (
                 <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg shadow">
                     <AlertCircle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <h3 className="text-lg font-medium text-gray-900 dark:text-white">No Pending Changes</h3>
-                    <p className="text-gray-500 mt-2">Edits you make to engineer assignments will appear here.</p>
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-white">No Changes Yet</h3>
+                    <p className="text-gray-500 mt-2">Notes and edits you make to cells will appear here.</p>
                 </div>
             ) : (
                 <div className="bg-white dark:bg-gray-800 shadow rounded-lg overflow-hidden">
+                    <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-3">
+                        <select value={cellFilter} onChange={e => setCellFilter(e.target.value)} className={inputClass}>
+                            <option value="">All Cells</option>
+                            {Array.from(new Set(changes.map(c => c.cellId))).map(id => (
+                                <option key={id} value={id}>{cellLabelById.get(id) || id}</option>
+                            ))}
+                        </select>
+                        <select value={engineerFilter} onChange={e => setEngineerFilter(e.target.value)} className={inputClass}>
+                            <option value="">All Engineers</option>
+                            {engineers.map(name => (
+                                <option key={name} value={name}>{name}</option>
+                            ))}
+                        </select>
+                        <select value={kindFilter} onChange={e => setKindFilter(e.target.value as ChangeKind | '')} className={inputClass}>
+                            <option value="">All Types</option>
+                            {(Object.keys(CHANGE_KIND_LABELS) as ChangeKind[]).map(kind => (
+                                <option key={kind} value={kind}>{CHANGE_KIND_LABELS[kind]}</option>
+                            ))}
+                        </select>
+                        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            From
+                            <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={inputClass} />
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            To
+                            <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className={inputClass} />
+                        </label>
+                        {hasFilters && (
+                            <button
+                                onClick={() => {
+                                    setCellFilter('')
+                                    setEngineerFilter('')
+                                    setKindFilter('')
+                                    setFromDate('')
+                                    setToDate('')
+                                }}
+                                className="text-sm text-blue-600 hover:text-blue-800"
+                            >
+                                Reset filters
+                            </button>
+                        )}
+                    </div>
                     <DataTable
-                        data={changes}
+                        data={filteredChanges}
                         columns={columns}
-                        emptyMessage="No changes found."
+                        keyExtractor={(c) => c.id}
+                        emptyMessage="No changes match your filters."
                     />
                 </div>
             )}
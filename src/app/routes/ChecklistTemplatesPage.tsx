@@ -0,0 +1,336 @@
+import { useMemo, useState } from 'react'
+import { useCoreStore } from '../../domain/coreStore'
+import { PageHeader } from '../../ui/components/PageHeader'
+import { ChecklistPhase, ChecklistTemplate } from '../../domain/types'
+import {
+  ChecklistTemplateDraft,
+  createChecklistTemplate,
+  saveChecklistTemplateVersion,
+  setChecklistTemplateActive,
+} from '../../domain/checklistTemplatesStore'
+
+const PHASES: ChecklistPhase[] = ['PRE_SIM', 'FULL_SIM', 'OLP_MRS']
+const CUSTOMER_SUGGESTIONS = ['STLA', 'BMW', 'V801']
+
+const inputClass =
+  'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+
+const emptyDraft = (): ChecklistTemplateDraft => ({
+  name: '',
+  description: '',
+  phase: 'PRE_SIM',
+  customer: undefined,
+  items: [{ label: '', isMandatory: true }],
+})
+
+export default function ChecklistTemplatesPage() {
+  const { checklistTemplates, checklistItemTemplates, checklists, projects } = useCoreStore()
+  const [customerFilter, setCustomerFilter] = useState('all')
+  const [showInactive, setShowInactive] = useState(false)
+  // familyId being edited, 'new' for a new template, null when the editor is closed
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState<ChecklistTemplateDraft>(emptyDraft)
+
+  const latestTemplates = useMemo(() => {
+    const latestByFamily = new Map<string, ChecklistTemplate>()
+    checklistTemplates.forEach((t) => {
+      const current = latestByFamily.get(t.familyId)
+      if (!current || t.version > current.version) latestByFamily.set(t.familyId, t)
+    })
+    return Array.from(latestByFamily.values()).sort((a, b) => a.name.localeCompare(b.name))
+  }, [checklistTemplates])
+
+  const customers = useMemo(() => {
+    const names = new Set(CUSTOMER_SUGGESTIONS)
+    projects.forEach((p) => p.customer && names.add(p.customer))
+    checklistTemplates.forEach((t) => t.customer && names.add(t.customer))
+    return Array.from(names).sort()
+  }, [projects, checklistTemplates])
+
+  const visibleTemplates = latestTemplates.filter((t) => {
+    if (!showInactive && !t.isActive) return false
+    if (customerFilter === 'all') return true
+    if (customerFilter === 'none') return !t.customer
+    return t.customer === customerFilter
+  })
+
+  // How many checklists are still pinned to a version older than the latest
+  const outdatedCountByFamily = useMemo(() => {
+    const templateById = new Map(checklistTemplates.map((t) => [t.id, t]))
+    const latestVersion = new Map(latestTemplates.map((t) => [t.familyId, t.version]))
+    const counts = new Map<string, number>()
+    checklists.forEach((cl) => {
+      const pinned = templateById.get(cl.templateId)
+      if (!pinned) return
+      if (pinned.version < (latestVersion.get(pinned.familyId) ?? 0)) {
+        counts.set(pinned.familyId, (counts.get(pinned.familyId) ?? 0) + 1)
+      }
+    })
+    return counts
+  }, [checklists, checklistTemplates, latestTemplates])
+
+  const startNew = () => {
+    setDraft(emptyDraft())
+    setEditing('new')
+  }
+
+  const startEdit = (template: ChecklistTemplate) => {
+    setDraft({
+      name: template.name,
+      description: template.description,
+      phase: template.phase,
+      customer: template.customer,
+      items: checklistItemTemplates
+        .filter((it) => it.templateId === template.id)
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map((it) => ({ itemKey: it.itemKey, label: it.label, isMandatory: it.isMandatory })),
+    })
+    setEditing(template.familyId)
+  }
+
+  const handleSave = () => {
+    if (!editing) return
+    if (editing === 'new') {
+      createChecklistTemplate(draft)
+    } else {
+      saveChecklistTemplateVersion(editing, draft)
+    }
+    setEditing(null)
+  }
+
+  const updateItem = (index: number, updates: Partial<ChecklistTemplateDraft['items'][number]>) => {
+    setDraft((d) => ({
+      ...d,
+      items: d.items.map((item, i) => (i === index ? { ...item, ...updates } : item)),
+    }))
+  }
+
+  const moveItem = (index: number, offset: -1 | 1) => {
+    setDraft((d) => {
+      const target = index + offset
+      if (target < 0 || target >= d.items.length) return d
+      const items = [...d.items]
+      ;[items[index], items[target]] = [items[target], items[index]]
+      return { ...d, items }
+    })
+  }
+
+  const removeItem = (index: number) => {
+    setDraft((d) => ({ ...d, items: d.items.filter((_, i) => i !== index) }))
+  }
+
+  return (
+    <div className="space-y-6" data-testid="checklist-templates-root">
+      <PageHeader
+        title="Checklist Templates"
+        subtitle="Create and version PRE_SIM / FULL_SIM checklist templates per customer. Saving an edit creates a new version; existing checklists stay on their version until migrated."
+        actions={
+          <button
+            onClick={startNew}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            New Template
+          </button>
+        }
+      />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          value={customerFilter}
+          onChange={(e) => setCustomerFilter(e.target.value)}
+          className={inputClass}
+        >
+          <option value="all">All Customers</option>
+          <option value="none">Generic (no customer)</option>
+          {customers.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+          />
+          Show deactivated
+        </label>
+      </div>
+
+      {editing && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            {editing === 'new' ? 'New Template' : 'Edit Template (saves a new version)'}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="text"
+              placeholder="Template name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={inputClass}
+            />
+            <select
+              value={draft.phase}
+              onChange={(e) => setDraft({ ...draft, phase: e.target.value as ChecklistPhase })}
+              className={inputClass}
+            >
+              {PHASES.map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              list="checklist-template-customers"
+              placeholder="Customer (blank = all)"
+              value={draft.customer ?? ''}
+              onChange={(e) => setDraft({ ...draft, customer: e.target.value || undefined })}
+              className={inputClass}
+            />
+            <datalist id="checklist-template-customers">
+              {customers.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </div>
+          <input
+            type="text"
+            placeholder="Description"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            className={`w-full ${inputClass}`}
+          />
+
+          <div className="space-y-2">
+            {draft.items.map((item, index) => (
+              <div key={item.itemKey ?? `new-${index}`} className="flex items-center gap-2">
+                <span className="w-6 text-xs text-gray-400">{index + 1}.</span>
+                <input
+                  type="text"
+                  placeholder="Item label"
+                  value={item.label}
+                  onChange={(e) => updateItem(index, { label: e.target.value })}
+                  className={`flex-1 ${inputClass}`}
+                />
+                <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={item.isMandatory}
+                    onChange={(e) => updateItem(index, { isMandatory: e.target.checked })}
+                  />
+                  Mandatory
+                </label>
+                <button
+                  onClick={() => moveItem(index, -1)}
+                  className="px-2 text-gray-500 hover:text-gray-800"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveItem(index, 1)}
+                  className="px-2 text-gray-500 hover:text-gray-800"
+                  title="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => removeItem(index)}
+                  className="px-2 text-red-500 hover:text-red-700"
+                  title="Remove item"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() =>
+                setDraft({ ...draft, items: [...draft.items, { label: '', isMandatory: true }] })
+              }
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add item
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!draft.name.trim() || !draft.items.some((i) => i.label.trim())}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow divide-y divide-gray-200 dark:divide-gray-700">
+        {visibleTemplates.length === 0 ? (
+          <p className="p-6 text-center text-gray-500 dark:text-gray-400">
+            No templates match your filters.
+          </p>
+        ) : (
+          visibleTemplates.map((template) => {
+            const itemCount = checklistItemTemplates.filter(
+              (it) => it.templateId === template.id,
+            ).length
+            const outdated = outdatedCountByFamily.get(template.familyId) ?? 0
+            return (
+              <div key={template.familyId} className="p-4 flex items-start justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      {template.name}
+                    </span>
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                      {template.phase}
+                    </span>
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400">
+                      {template.customer ?? 'All customers'}
+                    </span>
+                    <span className="text-xs text-gray-500">v{template.version}</span>
+                    {!template.isActive && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    {template.description || 'No description'} · {itemCount} items
+                    {outdated > 0 && ` · ${outdated} checklist(s) on older versions`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => startEdit(template)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() =>
+                      setChecklistTemplateActive(template.familyId, !template.isActive)
+                    }
+                    className="text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400"
+                  >
+                    {template.isActive ? 'Deactivate' : 'Activate'}
+                  </button>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
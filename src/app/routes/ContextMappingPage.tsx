@@ -0,0 +1,307 @@
+import { useMemo, useState } from 'react'
+import { coreStore, useCoreStore } from '../../domain/coreStore'
+import { PageHeader } from '../../ui/components/PageHeader'
+import { useCurrentUser } from '../../hooks/useCurrentUser'
+import {
+  CONTEXT_MAPPING_KIND_LABELS,
+  createDefaultContextMappingRules,
+  findContextMatches,
+  validateContextMappingRule,
+} from '../../domain/contextMapping'
+import { ContextMappingKind, ContextMappingRule } from '../../domain/uidTypes'
+
+const KINDS: ContextMappingKind[] = ['customer', 'model', 'plant']
+
+const inputClass =
+  'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+
+const thClass =
+  'px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+
+export default function ContextMappingPage() {
+  const { contextMappingRules, importRuns } = useCoreStore()
+  const user = useCurrentUser()
+  // Unsaved edits; null while the page shows the stored rules
+  const [draft, setDraft] = useState<ContextMappingRule[] | null>(null)
+  const [kindFilter, setKindFilter] = useState<ContextMappingKind | 'all'>('all')
+  const [testFileName, setTestFileName] = useState(importRuns[0]?.sourceFileName ?? '')
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const rules = draft ?? contextMappingRules
+  const errors = useMemo(
+    () => new Map(rules.map((rule) => [rule.id, validateContextMappingRule(rule)])),
+    [rules],
+  )
+  const hasErrors = Array.from(errors.values()).some(Boolean)
+
+  const preview = useMemo(
+    () =>
+      KINDS.map((kind) => ({
+        kind,
+        matches: testFileName.trim() ? findContextMatches(testFileName.trim(), rules, kind) : [],
+      })),
+    [rules, testFileName],
+  )
+
+  const visibleRules = rules.filter((rule) => kindFilter === 'all' || rule.kind === kindFilter)
+
+  const updateRule = (ruleId: string, change: Partial<ContextMappingRule>) => {
+    setMessage(null)
+    setDraft(
+      rules.map((rule) =>
+        rule.id === ruleId
+          ? { ...rule, ...change, updatedAt: new Date().toISOString(), updatedBy: user?.email }
+          : rule,
+      ),
+    )
+  }
+
+  const handleAdd = () => {
+    const kind = kindFilter === 'all' ? 'plant' : kindFilter
+    setDraft([
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        kind,
+        matchType: 'literal',
+        pattern: '',
+        value: '',
+        priority: 10,
+        enabled: true,
+        updatedAt: new Date().toISOString(),
+        updatedBy: user?.email,
+      },
+    ])
+  }
+
+  const handleDelete = (ruleId: string) => {
+    setDraft(rules.filter((rule) => rule.id !== ruleId))
+  }
+
+  const handleSave = () => {
+    if (!draft || hasErrors) return
+    coreStore.setContextMappingRules(draft)
+    setDraft(null)
+    setMessage({
+      text: `Saved ${draft.length} rule(s). They apply to the next import.`,
+      isError: false,
+    })
+  }
+
+  const handleResetDefaults = () => {
+    if (!confirm('Replace all mapping rules with the built-in defaults?')) return
+    setDraft(createDefaultContextMappingRules())
+    setMessage({ text: 'Defaults loaded. Save to keep them.', isError: false })
+  }
+
+  return (
+    <div className="space-y-6" data-testid="context-mapping-root">
+      <PageHeader
+        title="File Mapping"
+        subtitle="Derive customer, model and plant from import file names"
+        actions={
+          <div className="flex gap-2">
+            <button
+              onClick={handleResetDefaults}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Reset to defaults
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              disabled={!draft}
+              className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300 hover:underline disabled:opacity-50"
+            >
+              Discard changes
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!draft || hasErrors}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save rules
+            </button>
+          </div>
+        }
+      />
+
+      {message && (
+        <p className={`text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {/* Test against a file name */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Test a file name</h3>
+        <input
+          type="text"
+          value={testFileName}
+          onChange={(e) => setTestFileName(e.target.value)}
+          placeholder="e.g. STLA-S_REAR_UNIT_Simulation_Status_DES.xlsx"
+          className={`w-full ${inputClass}`}
+          aria-label="Test file name"
+        />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {preview.map(({ kind, matches }) => (
+            <div
+              key={kind}
+              className="p-3 rounded border border-gray-200 dark:border-gray-700"
+              data-testid={`context-preview-${kind}`}
+            >
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                {CONTEXT_MAPPING_KIND_LABELS[kind]}
+              </div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                {matches[0]?.value ?? <span className="text-gray-400">No match</span>}
+              </div>
+              {matches.map((match, i) => (
+                <div
+                  key={match.rule.id}
+                  className={`text-xs ${i === 0 ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400 line-through'}`}
+                >
+                  <code>{match.rule.pattern}</code> matched "{match.matchedText}" (priority{' '}
+                  {match.rule.priority})
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Rules */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            Rules ({visibleRules.length})
+          </h3>
+          <div className="flex gap-2">
+            <select
+              value={kindFilter}
+              onChange={(e) => setKindFilter(e.target.value as ContextMappingKind | 'all')}
+              className={inputClass}
+              aria-label="Rule kind"
+            >
+              <option value="all">All kinds</option>
+              {KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {CONTEXT_MAPPING_KIND_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Add rule
+            </button>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Literal patterns match anywhere in the file name, ignoring case. Leave the value empty to
+          use the matched text; regex values may use <code>$1</code> for capture groups. The highest
+          priority match wins.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className={thClass}>Kind</th>
+                <th className={thClass}>Match</th>
+                <th className={thClass}>Pattern</th>
+                <th className={thClass}>Value</th>
+                <th className={thClass}>Priority</th>
+                <th className={thClass}>Enabled</th>
+                <th className={thClass}>Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {visibleRules.map((rule) => (
+                <tr key={rule.id} className={rule.enabled ? '' : 'opacity-60'}>
+                  <td className="px-4 py-3 text-sm">
+                    <select
+                      value={rule.kind}
+                      onChange={(e) =>
+                        updateRule(rule.id, { kind: e.target.value as ContextMappingKind })
+                      }
+                      className={inputClass}
+                    >
+                      {KINDS.map((kind) => (
+                        <option key={kind} value={kind}>
+                          {CONTEXT_MAPPING_KIND_LABELS[kind]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <select
+                      value={rule.matchType}
+                      onChange={(e) =>
+                        updateRule(rule.id, {
+                          matchType: e.target.value as ContextMappingRule['matchType'],
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="literal">Literal</option>
+                      <option value="regex">Regex</option>
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <input
+                      type="text"
+                      value={rule.pattern}
+                      onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                      className={`font-mono ${inputClass}`}
+                      aria-label="Pattern"
+                    />
+                    {errors.get(rule.id) && (
+                      <div className="text-xs text-red-600 mt-1">{errors.get(rule.id)}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <input
+                      type="text"
+                      value={rule.value}
+                      onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                      placeholder="Matched text"
+                      className={inputClass}
+                      aria-label="Value"
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <input
+                      type="number"
+                      value={rule.priority}
+                      onChange={(e) => updateRule(rule.id, { priority: Number(e.target.value) })}
+                      className={`w-20 ${inputClass}`}
+                      aria-label="Priority"
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      aria-label={`Enable ${rule.pattern}`}
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <button
+                      onClick={() => handleDelete(rule.id)}
+                      className="text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
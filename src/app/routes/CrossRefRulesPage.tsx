@@ -0,0 +1,312 @@
+import { useMemo, useState } from 'react'
+import { coreStore, useCoreStore } from '../../domain/coreStore'
+import { PageHeader } from '../../ui/components/PageHeader'
+import { FLAG_TYPE_LABELS } from '../../ui/components/FlagBadge'
+import { useCrossRefData } from '../../hooks/useCrossRefData'
+import { refreshCrossRefFlags } from '../../hooks/useFlagWaivers'
+import {
+  ALL_PROJECTS,
+  BUILT_IN_FLAG_TYPES,
+  EXAMPLE_RULES,
+  getRuleOverride,
+  setRuleOverride,
+  validateRuleDefinitions,
+} from '../../domain/crossRef'
+import {
+  CrossRefFlagSeverity,
+  CrossRefRuleOverride,
+  CrossRefRuleSet,
+} from '../../domain/crossRef/CrossRefTypes'
+
+const inputClass =
+  'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+
+const thClass =
+  'px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+
+/**
+ * Store the rule set and re-flag the current cross-reference data with it
+ */
+function saveRuleSet(ruleSet: CrossRefRuleSet): void {
+  coreStore.setCrossRefRules(ruleSet)
+  refreshCrossRefFlags()
+}
+
+interface RuleRow {
+  key: string
+  label: string
+  description?: string
+  defaultEnabled: boolean
+  defaultSeverity?: CrossRefFlagSeverity
+}
+
+export default function CrossRefRulesPage() {
+  const { crossRefRules, projects } = useCoreStore()
+  const { cells } = useCrossRefData()
+  const [projectScope, setProjectScope] = useState(ALL_PROJECTS)
+  const [jsonDraft, setJsonDraft] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  // Current flag counts per built-in type or custom rule id
+  const flagCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const cell of cells) {
+      if (projectScope !== ALL_PROJECTS && cell.projectId !== projectScope) continue
+      for (const flag of cell.flags) {
+        const key = flag.ruleId ?? flag.type
+        counts.set(key, (counts.get(key) ?? 0) + 1)
+      }
+    }
+    return counts
+  }, [cells, projectScope])
+
+  const builtInRows: RuleRow[] = BUILT_IN_FLAG_TYPES.map((type) => ({
+    key: type,
+    label: FLAG_TYPE_LABELS[type],
+    defaultEnabled: true,
+  }))
+
+  const customRows: RuleRow[] = crossRefRules.rules.map((rule) => ({
+    key: rule.id,
+    label: rule.name,
+    description: rule.description,
+    defaultEnabled: rule.enabled,
+    defaultSeverity: rule.severity,
+  }))
+
+  const scopeProjectId = projectScope === ALL_PROJECTS ? undefined : projectScope
+
+  const updateOverride = (ruleKey: string, change: CrossRefRuleOverride) => {
+    const current = crossRefRules.projectOverrides[projectScope]?.[ruleKey] ?? {}
+    saveRuleSet(setRuleOverride(crossRefRules, projectScope, ruleKey, { ...current, ...change }))
+  }
+
+  const resetOverride = (ruleKey: string) => {
+    saveRuleSet(setRuleOverride(crossRefRules, projectScope, ruleKey, {}))
+  }
+
+  const handleSaveJson = () => {
+    if (jsonDraft === null) return
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(jsonDraft)
+    } catch (error) {
+      setMessage({ text: `Invalid JSON: ${(error as Error).message}`, isError: true })
+      return
+    }
+
+    const result = validateRuleDefinitions(parsed)
+    if (!result.success) {
+      setMessage({ text: result.errorMessage, isError: true })
+      return
+    }
+
+    saveRuleSet({ ...crossRefRules, rules: result.rules })
+    setJsonDraft(null)
+    setMessage({ text: `Saved ${result.rules.length} custom rule(s)`, isError: false })
+  }
+
+  const handleAddExamples = () => {
+    const existing = new Set(crossRefRules.rules.map((r) => r.id))
+    const added = EXAMPLE_RULES.filter((r) => !existing.has(r.id))
+    saveRuleSet({ ...crossRefRules, rules: [...crossRefRules.rules, ...added] })
+    setMessage({ text: `Added ${added.length} example rule(s)`, isError: false })
+  }
+
+  const handleDelete = (ruleId: string) => {
+    if (!confirm(`Delete rule "${ruleId}"?`)) return
+
+    const projectOverrides = Object.fromEntries(
+      Object.entries(crossRefRules.projectOverrides).map(([projectId, overrides]) => {
+        const { [ruleId]: _removed, ...rest } = overrides
+        return [projectId, rest]
+      }),
+    )
+    saveRuleSet({
+      rules: crossRefRules.rules.filter((r) => r.id !== ruleId),
+      projectOverrides,
+    })
+  }
+
+  const renderRow = (row: RuleRow, isCustom: boolean) => {
+    const effective = getRuleOverride(crossRefRules, row.key, scopeProjectId)
+    const scoped = crossRefRules.projectOverrides[projectScope]?.[row.key]
+    const enabled = effective.enabled ?? row.defaultEnabled
+
+    return (
+      <tr key={row.key} className={enabled ? '' : 'opacity-60'}>
+        <td className="px-4 py-3 text-sm">
+          <div className="font-medium text-gray-900 dark:text-gray-100">{row.label}</div>
+          <code className="text-xs text-gray-500">{row.key}</code>
+          {row.description && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">{row.description}</div>
+          )}
+        </td>
+        <td className="px-4 py-3 text-sm">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => updateOverride(row.key, { enabled: e.target.checked })}
+            aria-label={`Enable ${row.label}`}
+          />
+        </td>
+        <td className="px-4 py-3 text-sm">
+          <select
+            value={scoped?.severity ?? ''}
+            onChange={(e) =>
+              updateOverride(row.key, {
+                severity: (e.target.value || undefined) as CrossRefFlagSeverity | undefined,
+              })
+            }
+            className={inputClass}
+          >
+            <option value="">
+              {projectScope === ALL_PROJECTS
+                ? `Default${row.defaultSeverity ? ` (${row.defaultSeverity})` : ''}`
+                : `Inherit${effective.severity ? ` (${effective.severity})` : ''}`}
+            </option>
+            <option value="WARNING">WARNING</option>
+            <option value="ERROR">ERROR</option>
+          </select>
+        </td>
+        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+          {flagCounts.get(row.key) ?? 0}
+        </td>
+        <td className="px-4 py-3 text-sm whitespace-nowrap space-x-3">
+          {scoped && (
+            <button
+              onClick={() => resetOverride(row.key)}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Reset
+            </button>
+          )}
+          {isCustom && (
+            <button
+              onClick={() => handleDelete(row.key)}
+              className="text-red-600 dark:text-red-400 hover:underline"
+            >
+              Delete
+            </button>
+          )}
+        </td>
+      </tr>
+    )
+  }
+
+  const renderTable = (rows: RuleRow[], isCustom: boolean) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+        <thead className="bg-gray-50 dark:bg-gray-900">
+          <tr>
+            <th className={thClass}>Rule</th>
+            <th className={thClass}>Enabled</th>
+            <th className={thClass}>Severity</th>
+            <th className={thClass}>Flags</th>
+            <th className={thClass}>Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+          {rows.map((row) => renderRow(row, isCustom))}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6" data-testid="crossref-rules-root">
+      <PageHeader
+        title="Cross-Reference Rules"
+        subtitle="Enable, disable and re-grade flags per project, and define your own checks"
+        actions={
+          <select
+            value={projectScope}
+            onChange={(e) => setProjectScope(e.target.value)}
+            className={inputClass}
+            aria-label="Project scope"
+          >
+            <option value={ALL_PROJECTS}>All projects</option>
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        }
+      />
+
+      {message && (
+        <p className={`text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Built-in flags</h3>
+        {renderTable(builtInRows, false)}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            Custom rules ({customRows.length})
+          </h3>
+          <div className="flex gap-2">
+            <button
+              onClick={handleAddExamples}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Add examples
+            </button>
+            <button
+              onClick={() => setJsonDraft(JSON.stringify(crossRefRules.rules, null, 2))}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Edit JSON
+            </button>
+          </div>
+        </div>
+
+        {jsonDraft !== null && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Conditions read dotted fields from <code>cell</code> and the checked item (
+              <code>robot</code>, <code>tool</code>, <code>weldGun</code>, <code>gunForce</code>,{' '}
+              <code>riser</code>). Messages fill <code>{'{field.path}'}</code> placeholders.
+            </p>
+            <textarea
+              value={jsonDraft}
+              onChange={(e) => setJsonDraft(e.target.value)}
+              rows={16}
+              spellCheck={false}
+              className={`w-full font-mono text-xs ${inputClass}`}
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={handleSaveJson}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Save rules
+              </button>
+              <button
+                onClick={() => setJsonDraft(null)}
+                className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:underline"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {customRows.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No custom rules yet. Start from the examples or paste definitions as JSON.
+          </p>
+        ) : (
+          renderTable(customRows, true)
+        )}
+      </div>
+    </div>
+  )
+}
@@ -10,7 +10,8 @@
  * Part of Phase 4: Data Health Analytics
  */
 
-import { Download, FileText } from 'lucide-react';
+import { Bot, Download, FileSearch, FileText, SlidersHorizontal, Table2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { PageHeader } from '../../ui/components/PageHeader';
 import { EmptyState } from '../../ui/components/EmptyState';
 import { exportDataHealthJson, exportErrorsCsv } from '../../utils/dataHealthExport';
@@ -18,6 +19,7 @@ import { SummaryStatsGrid } from './dataHealth/SummaryStatsGrid';
 import { ReuseSummarySection } from './dataHealth/ReuseSummarySection';
 import { LinkingStatsSection } from './dataHealth/LinkingStatsSection';
 import { ErrorsSection } from './dataHealth/ErrorsSection';
+import { FlagWaiversSection } from './dataHealth/FlagWaiversSection';
 import { useDataHealth } from './dataHealth/useDataHealth';
 
 export function DataHealthPage() {
@@ -62,6 +64,34 @@ export function DataHealthPage() {
         subtitle="Monitor ingestion quality and asset statistics"
         actions={
           <div className="flex gap-2">
+            <Link
+              to="/crossref-rules"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700"
+            >
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Flag Rules
+            </Link>
+            <Link
+              to="/file-mapping"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700"
+            >
+              <FileSearch className="h-4 w-4 mr-2" />
+              File Mapping
+            </Link>
+            <Link
+              to="/tool-list-schemas"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700"
+            >
+              <Table2 className="h-4 w-4 mr-2" />
+              Tool List Schemas
+            </Link>
+            <Link
+              to="/llm-mapping-review"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700"
+            >
+              <Bot className="h-4 w-4 mr-2" />
+              LLM Mapping
+            </Link>
             <button
               onClick={handleExportJson}
               className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700"
@@ -91,6 +121,9 @@ export function DataHealthPage() {
       {/* Linking Stats (if available) */}
       {metrics.linkingStats !== null && <LinkingStatsSection linkingStats={metrics.linkingStats} />}
 
+      {/* Flag acknowledgements / waivers */}
+      <FlagWaiversSection />
+
       {/* Errors Section */}
       <ErrorsSection
         groupedErrors={groupedErrors}
@@ -24,6 +24,7 @@ import { useToast } from '../../ui/components/Toast'
 // Hooks
 import { useLocalFileIngest } from '../hooks/useLocalFileIngest'
 import { useM365Ingest } from '../hooks/useM365Ingest'
+import { useSharePointSync } from '../hooks/useSharePointSync'
 import { useSimBridge } from '../hooks/useSimBridge'
 import { useDemoScenario } from '../hooks/useDemoScenario'
 
@@ -33,6 +34,7 @@ import { IngestionResults } from '../components/dataLoader/sections/IngestionRes
 import { ClearDataDialog } from '../components/dataLoader/dialogs/ClearDataDialog'
 import { LocalFilesTab } from '../components/dataLoader/tabs/LocalFilesTab'
 import { M365Tab } from '../components/dataLoader/tabs/M365Tab'
+import { SharePointSyncPanel } from '../components/dataLoader/sections/SharePointSyncPanel'
 import { SimBridgeTab } from '../components/dataLoader/tabs/SimBridgeTab'
 import { ImportHistoryTab } from '../components/dataLoader/tabs/ImportHistoryTab'
 import { DiffResultsTab } from '../components/dataLoader/tabs/DiffResultsTab'
@@ -68,6 +70,7 @@ export function DataLoaderPage() {
   // Custom hooks
   const localIngest = useLocalFileIngest(hasData)
   const m365Ingest = useM365Ingest(hasData)
+  const sharePointSync = useSharePointSync()
   const simBridge = useSimBridge(activeTab === 'simbridge')
   const demoScenario = useDemoScenario()
   const { entries } = useImportHistory()
@@ -361,7 +364,9 @@ export function DataLoaderPage() {
               onAssembliesFilesAdded={localIngest.addAssembliesFiles}
               error={localIngest.error}
               isIngesting={localIngest.isIngesting}
+              parseProgress={localIngest.parseProgress}
               onIngest={localIngest.handleIngest}
+              onCancel={localIngest.cancelIngest}
             />
           )}
 
@@ -379,6 +384,15 @@ export function DataLoaderPage() {
               onRefreshFiles={m365Ingest.refreshM365Files}
               onToggleSelection={m365Ingest.toggleSelection}
               onIngest={m365Ingest.handleIngest}
+              syncPanel={
+                <SharePointSyncPanel
+                  report={sharePointSync.report}
+                  lastSyncAt={sharePointSync.lastSyncAt}
+                  isSyncing={sharePointSync.isSyncing}
+                  onSync={sharePointSync.runSync}
+                  onReset={sharePointSync.resetSync}
+                />
+              }
             />
           )}
 
@@ -387,9 +401,11 @@ export function DataLoaderPage() {
               sbStatus={simBridge.sbStatus}
               sbStudyPath={simBridge.sbStudyPath}
               sbError={simBridge.sbError}
+              sbStudy={simBridge.sbStudy}
               onConnect={simBridge.handleConnect}
               onStudyPathChange={simBridge.setSbStudyPath}
               onLoadStudy={simBridge.handleLoadStudy}
+              onConfirmStudyLink={simBridge.handleConfirmStudyLink}
             />
           )}
 
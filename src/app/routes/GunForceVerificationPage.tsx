@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react'
+import { Download } from 'lucide-react'
+import { useCoreStore } from '../../domain/coreStore'
+import { PageHeader } from '../../ui/components/PageHeader'
+import { useCrossRefData } from '../../hooks/useCrossRefData'
+import { useGunChecks } from '../../hooks/useGunChecks'
+import {
+  GunForceVerdict,
+  collectGunForceData,
+  summarizeGunForceVerifications,
+  verifyGunForces,
+} from '../../domain/crossRef/GunForceVerification'
+import { downloadGunForceReportAsCsv } from '../../utils/csvExport'
+import { cn } from '../../ui/lib/utils'
+
+const selectClass =
+  'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+
+const thClass =
+  'px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+
+const VERDICT_STYLES: Record<GunForceVerdict, string> = {
+  PASS: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  FAIL: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400',
+  UNKNOWN: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+}
+
+function VerdictPill({ verdict }: { verdict: GunForceVerdict }) {
+  return (
+    <span className={cn('px-2 py-0.5 text-[10px] font-semibold rounded', VERDICT_STYLES[verdict])}>
+      {verdict}
+    </span>
+  )
+}
+
+export default function GunForceVerificationPage() {
+  const { assets } = useCoreStore()
+  const { cells } = useCrossRefData()
+  const { assignments } = useGunChecks()
+  const [verdictFilter, setVerdictFilter] = useState<GunForceVerdict | 'ALL'>('ALL')
+
+  const results = useMemo(
+    () => verifyGunForces({ assignments, assets, ...collectGunForceData(cells, assets) }),
+    [assignments, assets, cells],
+  )
+
+  const summary = useMemo(() => summarizeGunForceVerifications(results), [results])
+
+  const visibleResults = useMemo(
+    () =>
+      results
+        .filter((r) => verdictFilter === 'ALL' || r.result === verdictFilter)
+        .sort(
+          (a, b) =>
+            a.stationKey.localeCompare(b.stationKey) || a.robotKey.localeCompare(b.robotKey),
+        ),
+    [results, verdictFilter],
+  )
+
+  return (
+    <div className="space-y-6" data-testid="gun-force-verification-root">
+      <PageHeader
+        title="Gun Force Verification"
+        subtitle="Zangenpool required forces against reuse gun ratings and robot payload"
+        actions={
+          <button
+            type="button"
+            onClick={() => downloadGunForceReportAsCsv(visibleResults)}
+            disabled={visibleResults.length === 0}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </button>
+        }
+      />
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(
+          [
+            ['Assignments', summary.total],
+            ['Pass', summary.pass],
+            ['Fail', summary.fail],
+            ['Unknown', summary.unknown],
+          ] as const
+        ).map(([label, value]) => (
+          <div key={label} className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+            <div className="text-xs uppercase text-gray-500 dark:text-gray-400">{label}</div>
+            <div className="text-2xl font-semibold text-gray-900 dark:text-gray-100">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Assignments</h3>
+          <select
+            value={verdictFilter}
+            onChange={(e) => setVerdictFilter(e.target.value as GunForceVerdict | 'ALL')}
+            className={selectClass}
+            aria-label="Filter by result"
+          >
+            <option value="ALL">All results</option>
+            <option value="FAIL">Fail</option>
+            <option value="UNKNOWN">Unknown</option>
+            <option value="PASS">Pass</option>
+          </select>
+        </div>
+
+        {visibleResults.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No robot–gun assignments to verify. Load robot lists and reuse weld gun lists first.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className={thClass}>Station</th>
+                  <th className={thClass}>Robot</th>
+                  <th className={thClass}>Gun</th>
+                  <th className={thClass}>Required / Max (kN)</th>
+                  <th className={thClass}>Force</th>
+                  <th className={thClass}>Robot / Gun Payload</th>
+                  <th className={thClass}>Payload</th>
+                  <th className={thClass}>Result</th>
+                  <th className={thClass}>Notes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                {visibleResults.map((r) => (
+                  <tr key={r.assignmentId} data-testid="gun-force-row">
+                    <td className="px-4 py-2 text-gray-900 dark:text-gray-100">
+                      {r.stationKey || '-'}
+                    </td>
+                    <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{r.robotKey}</td>
+                    <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{r.gunKey}</td>
+                    <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                      {r.requiredForce ?? '-'} / {r.maxForce ?? '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <VerdictPill verdict={r.forceResult} />
+                    </td>
+                    <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                      {r.robotPayload ?? '-'} / {r.gunPayload ?? '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <VerdictPill verdict={r.payloadResult} />
+                    </td>
+                    <td className="px-4 py-2">
+                      <VerdictPill verdict={r.result} />
+                    </td>
+                    <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                      {r.reasons.join('; ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
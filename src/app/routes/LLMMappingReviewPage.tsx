@@ -0,0 +1,441 @@
+import { ChangeEvent, useState } from 'react'
+import { PageHeader } from '../../ui/components/PageHeader'
+import { useMappingOverrides } from '../../hooks/useMappingOverrides'
+import { readWorkbookModel } from '../../excel/reader'
+import { getFieldDisplayName } from '../../ingestion/fieldMatcher'
+import {
+  buildMappingReviewSheets,
+  clearLLMMappingAudit,
+  clearLLMMappingCache,
+  getLLMMapperProvider,
+  getLLMMapperProviders,
+  LLMMapperConfig,
+  LLMMappingAuditEntry,
+  loadLLMMapperConfig,
+  loadLLMMappingAudit,
+  MappingReviewSheet,
+  requestSheetSuggestions,
+  SampleRedactionMode,
+  saveLLMMapperConfig,
+  SheetSuggestionResult,
+} from '../../ingestion/llmMapping'
+
+const inputClass =
+  'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+
+const thClass =
+  'px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+
+const REDACTION_LABELS: Record<SampleRedactionMode, string> = {
+  mask: 'Mask sample values (keep shape only)',
+  drop: 'Send no sample rows',
+  none: 'Send sample values unchanged',
+}
+
+interface ReviewRow {
+  columnIndex: number
+  header: string
+  currentFieldId: string | null
+  currentConfidence: number
+  suggestedFieldId: string
+  confidence: number
+  rationale: string
+}
+
+/**
+ * Suggestions that would change the current match, by column
+ */
+function buildReviewRows(sheet: MappingReviewSheet, result: SheetSuggestionResult): ReviewRow[] {
+  const matchByHeader = new Map(sheet.matches.map((match) => [match.header, match]))
+
+  return result.suggestion.columnSuggestions.flatMap((suggestion) => {
+    const match = matchByHeader.get(suggestion.header)
+    if (!match || suggestion.suggestedFieldId === 'unknown') return []
+    if (suggestion.suggestedFieldId === match.matchedField?.id) return []
+    return [
+      {
+        columnIndex: match.columnIndex,
+        header: suggestion.header,
+        currentFieldId: match.matchedField?.id ?? null,
+        currentConfidence: match.confidence,
+        suggestedFieldId: suggestion.suggestedFieldId,
+        confidence: suggestion.confidence,
+        rationale: suggestion.rationale,
+      },
+    ]
+  })
+}
+
+export default function LLMMappingReviewPage() {
+  const overrides = useMappingOverrides()
+  const [config, setConfig] = useState(() => loadLLMMapperConfig())
+  const [workbook, setWorkbook] = useState<{
+    fileName: string
+    sheets: MappingReviewSheet[]
+  } | null>(null)
+  const [results, setResults] = useState<Record<string, SheetSuggestionResult>>({})
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set())
+  const [busy, setBusy] = useState(false)
+  const [audit, setAudit] = useState<LLMMappingAuditEntry[]>(() => loadLLMMappingAudit())
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const provider = getLLMMapperProvider(config.providerId)
+
+  const updateConfig = (patch: Partial<LLMMapperConfig>) => {
+    const next = { ...config, ...patch }
+    setConfig(next)
+    saveLLMMapperConfig(next)
+  }
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setBusy(true)
+    setMessage(null)
+    try {
+      const model = readWorkbookModel(await file.arrayBuffer())
+      const sheets = await buildMappingReviewSheets(model, file.name)
+      setWorkbook({ fileName: file.name, sheets })
+      setResults({})
+      setDismissed(new Set())
+      if (sheets.length === 0) {
+        setMessage({ text: `No sheets with a header row found in ${file.name}.`, isError: true })
+      }
+    } catch (error) {
+      setMessage({
+        text: `Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+        isError: true,
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSuggest = async () => {
+    if (!workbook) return
+
+    setBusy(true)
+    setMessage(null)
+    const next: Record<string, SheetSuggestionResult> = {}
+    const failures: string[] = []
+    for (const sheet of workbook.sheets) {
+      try {
+        next[sheet.sheetName] = await requestSheetSuggestions(
+          workbook.fileName,
+          sheet.model,
+          config,
+        )
+      } catch (error) {
+        failures.push(
+          `${sheet.sheetName}: ${error instanceof Error ? error.message : String(error)}`,
+        )
+      }
+    }
+    setResults(next)
+    setAudit(loadLLMMappingAudit())
+    setBusy(false)
+    if (failures.length > 0) {
+      setMessage({ text: failures.join('\n'), isError: true })
+    }
+  }
+
+  const handleAccept = (sheetName: string, row: ReviewRow) => {
+    if (!workbook) return
+    overrides.setOverride({
+      workbookId: workbook.fileName,
+      sheetName,
+      columnIndex: row.columnIndex,
+      originalHeader: row.header,
+      fieldId: row.suggestedFieldId,
+    })
+  }
+
+  const handleDismiss = (sheetName: string, row: ReviewRow) => {
+    setDismissed((prev) => new Set(prev).add(`${sheetName}:${row.columnIndex}`))
+  }
+
+  const handleClearCache = () => {
+    clearLLMMappingCache()
+    setMessage({ text: 'Cleared cached suggestions.', isError: false })
+  }
+
+  const handleClearAudit = () => {
+    if (!confirm('Clear the LLM request history?')) return
+    clearLLMMappingAudit()
+    setAudit([])
+  }
+
+  return (
+    <div className="space-y-6" data-testid="llm-mapping-review-root">
+      <PageHeader
+        title="LLM Mapping Review"
+        subtitle="Ask a language model for column mappings and accept them as overrides"
+        actions={
+          <button
+            onClick={handleClearCache}
+            className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Clear cache
+          </button>
+        }
+      />
+
+      {message && (
+        <p
+          className={`text-sm whitespace-pre-line ${message.isError ? 'text-red-600' : 'text-green-700'}`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      {/* Provider */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Provider</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <select
+            value={config.providerId}
+            onChange={(e) => updateConfig({ providerId: e.target.value })}
+            className={inputClass}
+            aria-label="Provider"
+          >
+            {getLLMMapperProviders().map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={config.redaction}
+            onChange={(e) => updateConfig({ redaction: e.target.value as SampleRedactionMode })}
+            className={inputClass}
+            aria-label="Sample redaction"
+          >
+            {(Object.keys(REDACTION_LABELS) as SampleRedactionMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {REDACTION_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+          {provider?.usesEndpoint && (
+            <>
+              <input
+                type="text"
+                value={config.baseUrl}
+                onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+                aria-label="Base URL"
+              />
+              <input
+                type="text"
+                value={config.model}
+                onChange={(e) => updateConfig({ model: e.target.value })}
+                placeholder="Model, e.g. llama3.1"
+                className={inputClass}
+                aria-label="Model"
+              />
+              <input
+                type="password"
+                value={config.apiKey}
+                onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                placeholder="API key (optional for local servers)"
+                title="Kept for this browser tab only; not saved with the other settings"
+                className={inputClass}
+                aria-label="API key"
+              />
+            </>
+          )}
+        </div>
+        {provider && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">{provider.description}</p>
+        )}
+      </div>
+
+      {/* Workbook */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            {workbook ? workbook.fileName : 'Workbook'}
+          </h3>
+          <div className="flex gap-2">
+            <label className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer">
+              Open workbook
+              <input
+                type="file"
+                accept=".xlsx,.xlsm,.xls"
+                onChange={handleFile}
+                className="hidden"
+                aria-label="Open workbook"
+                disabled={busy}
+              />
+            </label>
+            <button
+              onClick={handleSuggest}
+              disabled={!workbook || workbook.sheets.length === 0 || busy}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {busy ? 'Working…' : 'Get suggestions'}
+            </button>
+          </div>
+        </div>
+
+        {!workbook && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Open a workbook to match its sheets, then request suggestions for the columns.
+          </p>
+        )}
+
+        {workbook?.sheets.map((sheet) => {
+          const result = results[sheet.sheetName]
+          const rows = result
+            ? buildReviewRows(sheet, result).filter(
+                (row) => !dismissed.has(`${sheet.sheetName}:${row.columnIndex}`),
+              )
+            : []
+
+          return (
+            <div
+              key={sheet.sheetName}
+              className="border-t border-gray-200 dark:border-gray-700 pt-4"
+            >
+              <div className="flex items-baseline gap-3">
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                  {sheet.sheetName}
+                </h4>
+                <span className="text-xs text-gray-500">
+                  {sheet.category} · {sheet.matches.length} columns
+                  {result?.fromCache && ' · from cache'}
+                </span>
+              </div>
+
+              {result && rows.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                  No suggestions differ from the current mapping.
+                </p>
+              )}
+
+              {rows.length > 0 && (
+                <div className="overflow-x-auto mt-2">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-900">
+                      <tr>
+                        <th className={thClass}>Column</th>
+                        <th className={thClass}>Current</th>
+                        <th className={thClass}>Suggested</th>
+                        <th className={thClass}>Rationale</th>
+                        <th className={thClass}>Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {rows.map((row) => {
+                        const override = overrides.getOverride(
+                          workbook.fileName,
+                          sheet.sheetName,
+                          row.columnIndex,
+                        )
+                        const accepted = override?.fieldId === row.suggestedFieldId
+                        return (
+                          <tr key={row.columnIndex}>
+                            <td className="px-4 py-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+                              {row.header}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300">
+                              {row.currentFieldId ? getFieldDisplayName(row.currentFieldId) : '—'}{' '}
+                              <span className="text-xs text-gray-500">
+                                {Math.round(row.currentConfidence * 100)}%
+                              </span>
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900 dark:text-gray-100">
+                              {getFieldDisplayName(row.suggestedFieldId)}{' '}
+                              <span className="text-xs text-gray-500">
+                                {Math.round(row.confidence * 100)}%
+                              </span>
+                            </td>
+                            <td className="px-4 py-2 text-xs text-gray-600 dark:text-gray-400 max-w-md">
+                              {row.rationale}
+                            </td>
+                            <td className="px-4 py-2 text-sm space-x-3 whitespace-nowrap">
+                              {accepted ? (
+                                <span className="text-green-700">Accepted</span>
+                              ) : (
+                                <>
+                                  <button
+                                    onClick={() => handleAccept(sheet.sheetName, row)}
+                                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                                  >
+                                    Accept
+                                  </button>
+                                  <button
+                                    onClick={() => handleDismiss(sheet.sheetName, row)}
+                                    className="text-gray-500 hover:underline"
+                                  >
+                                    Dismiss
+                                  </button>
+                                </>
+                              )}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Audit trail */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            Request history ({audit.length})
+          </h3>
+          {audit.length > 0 && (
+            <button
+              onClick={handleClearAudit}
+              className="text-sm text-red-600 dark:text-red-400 hover:underline"
+            >
+              Clear history
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          The exact prompt sent for each sheet and the raw answer. Cached answers sent nothing.
+        </p>
+
+        {[...audit].reverse().map((entry) => (
+          <details
+            key={entry.id}
+            className="border border-gray-200 dark:border-gray-700 rounded-md"
+          >
+            <summary className="px-3 py-2 text-sm cursor-pointer text-gray-700 dark:text-gray-300">
+              {new Date(entry.timestamp).toLocaleString()} · {entry.sheetName} ·{' '}
+              {entry.cacheHit ? 'cache' : entry.mapperName}
+              {entry.error && <span className="text-red-600"> · {entry.error}</span>}
+            </summary>
+            <div className="px-3 pb-3 space-y-2">
+              {entry.messages.map((msg, index) => (
+                <div key={index}>
+                  <div className="text-xs font-medium text-gray-500 uppercase">{msg.role}</div>
+                  <pre className="text-xs whitespace-pre-wrap bg-gray-50 dark:bg-gray-900 p-2 rounded max-h-64 overflow-auto">
+                    {msg.content}
+                  </pre>
+                </div>
+              ))}
+              <div>
+                <div className="text-xs font-medium text-gray-500 uppercase">response</div>
+                <pre className="text-xs whitespace-pre-wrap bg-gray-50 dark:bg-gray-900 p-2 rounded max-h-64 overflow-auto">
+                  {entry.responseText || '—'}
+                </pre>
+              </div>
+            </div>
+          </details>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,7 @@ import {
   ChevronRight,
   Activity,
   Target,
+  ShieldCheck,
 } from 'lucide-react'
 
 import { StatCard } from '../../ui/components/StatCard'
@@ -20,6 +21,7 @@ import { getAllCellScheduleRisks } from '../../domain/scheduleMetrics'
 import { EmptyState } from '../../ui/components/EmptyState'
 import { cn } from '../../ui/lib/utils'
 import { useAllStations, type StationContext } from '../../features/simulation/simulationStore'
+import { useGunChecks } from '../../hooks/useGunChecks'
 
 // ============================================================================
 // LABELS & TOKENS
@@ -50,6 +52,13 @@ interface StationReadinessItem {
   projectName?: string
   areaId?: string
   areaName?: string
+  gunChecks: GunCheckRollup
+}
+
+interface GunCheckRollup {
+  total: number
+  approved: number
+  failed: number
 }
 
 // ============================================================================
@@ -62,6 +71,7 @@ export function ReadinessBoard() {
   const projects = useProjects()
   const areas = useAreas()
   const cellRisks = getAllCellScheduleRisks()
+  const { snapshots: gunCheckSnapshots } = useGunChecks()
   const navigate = useNavigate()
 
   const [filterPhase, setFilterPhase] = useState<SchedulePhase | 'all'>('all')
@@ -80,6 +90,20 @@ export function ReadinessBoard() {
     return map
   }, [cellRisks])
 
+  // Roll gun check sign-offs up per cell
+  const gunChecksByCell = useMemo(() => {
+    const map = new Map<string, GunCheckRollup>()
+    for (const check of gunCheckSnapshots) {
+      if (!check.cellId) continue
+      const rollup = map.get(check.cellId) ?? { total: 0, approved: 0, failed: 0 }
+      rollup.total++
+      if (check.state === 'APPROVED') rollup.approved++
+      if (check.state === 'FAILED') rollup.failed++
+      map.set(check.cellId, rollup)
+    }
+    return map
+  }, [gunCheckSnapshots])
+
   // Enrich stations with readiness data
   const stationReadiness = useMemo<StationReadinessItem[]>(() => {
     return stations.map((station) => {
@@ -104,9 +128,10 @@ export function ReadinessBoard() {
         projectName: project?.name,
         areaId: area?.id,
         areaName: area?.name,
+        gunChecks: gunChecksByCell.get(station.cellId) ?? { total: 0, approved: 0, failed: 0 },
       }
     })
-  }, [stations, riskMap, cells, projects, areas])
+  }, [stations, riskMap, cells, projects, areas, gunChecksByCell])
 
   // Filters
   const filtered = useMemo(() => {
@@ -220,6 +245,13 @@ export function ReadinessBoard() {
               Readiness <span className="text-indigo-600 dark:text-indigo-400">Board</span>
             </h1>
           </div>
+          <Link
+            to="/gun-force-verification"
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600 dark:hover:bg-gray-700"
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Gun Force Verification
+          </Link>
         </div>
       </div>
 
@@ -515,6 +547,27 @@ function StationReadinessCard({ item }: StationReadinessCardProps) {
               </span>
             </div>
           )}
+
+          {item.gunChecks.total > 0 && (
+            <div
+              className="flex items-center gap-1.5"
+              title={`${item.gunChecks.approved} of ${item.gunChecks.total} gun checks signed off`}
+            >
+              <ShieldCheck
+                className={cn(
+                  'h-3 w-3',
+                  item.gunChecks.failed > 0
+                    ? 'text-rose-500'
+                    : item.gunChecks.approved === item.gunChecks.total
+                      ? 'text-emerald-500'
+                      : 'text-amber-500',
+                )}
+              />
+              <span className="text-[9px] font-black text-gray-900 dark:text-white tabular-nums">
+                {item.gunChecks.approved}/{item.gunChecks.total}
+              </span>
+            </div>
+          )}
         </div>
 
         <span
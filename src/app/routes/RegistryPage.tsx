@@ -1,15 +1,64 @@
-import { useState, useMemo } from 'react'
-import { useCoreStore, coreStore } from '../../domain/coreStore'
+import { useState, useMemo, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { History, Redo2, Undo2 } from 'lucide-react'
+import { useCoreStore } from '../../domain/coreStore'
+import { useCurrentUser } from '../../hooks/useCurrentUser'
 import { PageHeader } from '../../ui/components/PageHeader'
-import { StationRecord, ToolRecord, RobotRecord } from '../../domain/uidTypes'
-import { createAliasRule } from '../../ingestion/uidResolver'
+import { StationRecord, ToolRecord, RobotRecord, EntityType } from '../../domain/uidTypes'
 import { CanonicalIdDisplay } from '../../components/registry/CanonicalIdDisplay'
 import { LastSeenBadge } from '../../components/registry/LastSeenBadge'
+import { RegistryHistoryDrawer } from '../../components/registry/RegistryHistoryDrawer'
+import { MergeRecordsPanel } from '../../components/registry/MergeRecordsPanel'
 import {
-  createActivateAuditEntry,
-  createDeactivateAuditEntry,
-  createAddAliasAuditEntry,
-} from '../../domain/auditLog'
+  RegistryRecord,
+  createAddAliasCommand,
+  createOverrideLabelCommand,
+  createSetStatusCommand,
+  executeRegistryCommand,
+  redoRegistryCommand,
+  undoRegistryCommand,
+  useRegistryHistory,
+} from '../../domain/registryHistory'
+
+/**
+ * Prompt for a reason and toggle a record's status through the undo stack
+ */
+function toggleRecordStatus(entityType: EntityType, record: RegistryRecord) {
+  const deactivating = record.status === 'active'
+  const reason = prompt(`Reason for ${deactivating ? 'deactivation' : 'reactivation'} (optional):`)
+  if (reason === null) return // User cancelled
+
+  executeRegistryCommand(
+    createSetStatusCommand(
+      entityType,
+      record,
+      deactivating ? 'inactive' : 'active',
+      reason || undefined,
+    ),
+  )
+}
+
+/**
+ * Prompt for a display label override; an empty value clears the override
+ */
+function editRecordLabel(
+  entityType: EntityType,
+  record: RegistryRecord,
+  field: string,
+  currentLabel: string | undefined,
+) {
+  const label = prompt('Display label (leave empty to clear the override):', currentLabel ?? '')
+  if (label === null || label.trim() === (record.labelOverrides?.[field] ?? '')) return
+
+  executeRegistryCommand(createOverrideLabelCommand(entityType, record, field, label.trim()))
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+  )
+}
 
 export default function RegistryPage() {
   const { stationRecords, toolRecords, robotRecords, importRuns } = useCoreStore()
@@ -18,6 +67,27 @@ export default function RegistryPage() {
   const [plantFilter, setPlantFilter] = useState<string>('all')
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive'>('active')
   const [staleFilter, setStaleFilter] = useState(false)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [showMerge, setShowMerge] = useState(false)
+  const { undoStack, redoStack } = useRegistryHistory()
+  const userEmail = useCurrentUser()?.email
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes (not while typing)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTypingTarget(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undoRegistryCommand(userEmail)
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redoRegistryCommand(userEmail)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [userEmail])
 
   // Get unique plant keys
   const allPlants = useMemo(() => {
@@ -86,8 +156,39 @@ export default function RegistryPage() {
       <PageHeader
         title="Entity Registry"
         subtitle="Manage stations, tools, and robots with stable UIDs"
+        actions={
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => undoRegistryCommand(userEmail)}
+              disabled={undoStack.length === 0}
+              title="Undo (Ctrl+Z)"
+              className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Undo2 className="h-4 w-4" />
+              Undo
+            </button>
+            <button
+              onClick={() => redoRegistryCommand(userEmail)}
+              disabled={redoStack.length === 0}
+              title="Redo (Ctrl+Shift+Z)"
+              className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Redo2 className="h-4 w-4" />
+              Redo
+            </button>
+            <button
+              onClick={() => setHistoryOpen(true)}
+              className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <History className="h-4 w-4" />
+              History ({undoStack.length})
+            </button>
+          </div>
+        }
       />
 
+      <RegistryHistoryDrawer isOpen={historyOpen} onClose={() => setHistoryOpen(false)} />
+
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
         <div className="border-b border-gray-200 dark:border-gray-700">
           <nav className="flex -mb-px">
@@ -172,8 +273,41 @@ export default function RegistryPage() {
               />
               <span className="text-sm">Stale only (30+ days)</span>
             </label>
+            <button
+              onClick={() => setShowMerge(!showMerge)}
+              className={`px-4 py-2 text-sm border rounded-lg ${
+                showMerge
+                  ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              Merge / Split
+            </button>
+            {activeTab === 'tools' && (
+              <Link
+                to="/tool-carry-over"
+                className="px-4 py-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Carry-over across plants
+              </Link>
+            )}
           </div>
 
+          {showMerge && (
+            <MergeRecordsPanel
+              entityType={
+                activeTab === 'stations' ? 'station' : activeTab === 'tools' ? 'tool' : 'robot'
+              }
+              records={
+                activeTab === 'stations'
+                  ? stationRecords
+                  : activeTab === 'tools'
+                    ? toolRecords
+                    : robotRecords
+              }
+            />
+          )}
+
           {activeTab === 'stations' && (
             <StationRegistryTable stations={filteredStations} searchTerm={searchTerm} />
           )}
@@ -201,57 +335,12 @@ function StationRegistryTable({ stations, searchTerm }: StationRegistryTableProp
   const [aliasInput, setAliasInput] = useState('')
   const [reasonInput, setReasonInput] = useState('')
 
-  const handleToggleActive = (station: StationRecord) => {
-    if (station.status === 'active') {
-      const reason = prompt('Reason for deactivation (optional):')
-      if (reason === null) return // User cancelled
-
-      coreStore.deactivateStation(station.uid)
-
-      const auditEntry = createDeactivateAuditEntry(
-        station.uid,
-        'station',
-        station.key,
-        reason || undefined,
-      )
-      coreStore.addAuditEntry(auditEntry)
-    } else {
-      const reason = prompt('Reason for reactivation (optional):')
-      if (reason === null) return // User cancelled
-
-      coreStore.reactivateStation(station.uid)
-
-      const auditEntry = createActivateAuditEntry(
-        station.uid,
-        'station',
-        station.key,
-        reason || undefined,
-      )
-      coreStore.addAuditEntry(auditEntry)
-    }
-  }
-
   const handleAddAlias = (station: StationRecord) => {
     if (!aliasInput.trim()) return
 
-    const rule = createAliasRule(
-      aliasInput.trim(),
-      station.uid,
-      'station',
-      reasonInput.trim() || `Manual alias mapping via Registry UI`,
-      undefined,
-    )
-
-    coreStore.addAliasRules([rule])
-
-    const auditEntry = createAddAliasAuditEntry(
-      station.uid,
-      'station',
-      station.key,
-      aliasInput.trim(),
-      reasonInput.trim() || undefined,
+    executeRegistryCommand(
+      createAddAliasCommand('station', station, aliasInput.trim(), reasonInput.trim() || undefined),
     )
-    coreStore.addAuditEntry(auditEntry)
 
     setAliasInput('')
     setReasonInput('')
@@ -329,7 +418,10 @@ function StationRegistryTable({ stations, searchTerm }: StationRegistryTableProp
                 {station.plantKey}
               </td>
               <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
-                {station.labels.fullLabel || station.labels.area || '-'}
+                {station.labelOverrides?.fullLabel ||
+                  station.labels.fullLabel ||
+                  station.labels.area ||
+                  '-'}
               </td>
               <td className="px-4 py-3 whitespace-nowrap">
                 <LastSeenBadge
@@ -340,11 +432,24 @@ function StationRegistryTable({ stations, searchTerm }: StationRegistryTableProp
               <td className="px-4 py-3 whitespace-nowrap text-sm">
                 <div className="flex items-center gap-2">
                   <button
-                    onClick={() => handleToggleActive(station)}
+                    onClick={() => toggleRecordStatus('station', station)}
                     className="text-blue-600 dark:text-blue-400 hover:underline"
                   >
                     {station.status === 'active' ? 'Deactivate' : 'Reactivate'}
                   </button>
+                  <button
+                    onClick={() =>
+                      editRecordLabel(
+                        'station',
+                        station,
+                        'fullLabel',
+                        station.labelOverrides?.fullLabel ?? station.labels.fullLabel,
+                      )
+                    }
+                    className="text-gray-600 dark:text-gray-400 hover:underline"
+                  >
+                    Edit Label
+                  </button>
                   {editingUid === station.uid ? (
                     <div className="flex flex-col gap-1">
                       <input
@@ -408,47 +513,12 @@ function ToolRegistryTable({ tools, searchTerm }: ToolRegistryTableProps) {
   const [aliasInput, setAliasInput] = useState('')
   const [reasonInput, setReasonInput] = useState('')
 
-  const handleToggleActive = (tool: ToolRecord) => {
-    if (tool.status === 'active') {
-      const reason = prompt('Reason for deactivation (optional):')
-      if (reason === null) return
-
-      coreStore.deactivateTool(tool.uid)
-
-      const auditEntry = createDeactivateAuditEntry(tool.uid, 'tool', tool.key, reason || undefined)
-      coreStore.addAuditEntry(auditEntry)
-    } else {
-      const reason = prompt('Reason for reactivation (optional):')
-      if (reason === null) return
-
-      coreStore.reactivateTool(tool.uid)
-
-      const auditEntry = createActivateAuditEntry(tool.uid, 'tool', tool.key, reason || undefined)
-      coreStore.addAuditEntry(auditEntry)
-    }
-  }
-
   const handleAddAlias = (tool: ToolRecord) => {
     if (!aliasInput.trim()) return
 
-    const rule = createAliasRule(
-      aliasInput.trim(),
-      tool.uid,
-      'tool',
-      reasonInput.trim() || `Manual alias mapping via Registry UI`,
-      undefined,
-    )
-
-    coreStore.addAliasRules([rule])
-
-    const auditEntry = createAddAliasAuditEntry(
-      tool.uid,
-      'tool',
-      tool.key,
-      aliasInput.trim(),
-      reasonInput.trim() || undefined,
+    executeRegistryCommand(
+      createAddAliasCommand('tool', tool, aliasInput.trim(), reasonInput.trim() || undefined),
     )
-    coreStore.addAuditEntry(auditEntry)
 
     setAliasInput('')
     setReasonInput('')
@@ -522,7 +592,10 @@ function ToolRegistryTable({ tools, searchTerm }: ToolRegistryTableProps) {
                 {tool.plantKey}
               </td>
               <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
-                {tool.labels.toolName || tool.labels.toolCode || '-'}
+                {tool.labelOverrides?.toolName ||
+                  tool.labels.toolName ||
+                  tool.labels.toolCode ||
+                  '-'}
               </td>
               <td className="px-4 py-3 whitespace-nowrap">
                 <LastSeenBadge
@@ -533,11 +606,24 @@ function ToolRegistryTable({ tools, searchTerm }: ToolRegistryTableProps) {
               <td className="px-4 py-3 whitespace-nowrap text-sm">
                 <div className="flex items-center gap-2">
                   <button
-                    onClick={() => handleToggleActive(tool)}
+                    onClick={() => toggleRecordStatus('tool', tool)}
                     className="text-blue-600 dark:text-blue-400 hover:underline"
                   >
                     {tool.status === 'active' ? 'Deactivate' : 'Reactivate'}
                   </button>
+                  <button
+                    onClick={() =>
+                      editRecordLabel(
+                        'tool',
+                        tool,
+                        'toolName',
+                        tool.labelOverrides?.toolName ?? tool.labels.toolName,
+                      )
+                    }
+                    className="text-gray-600 dark:text-gray-400 hover:underline"
+                  >
+                    Edit Label
+                  </button>
                   {editingUid === tool.uid ? (
                     <div className="flex flex-col gap-1">
                       <input
@@ -632,6 +718,9 @@ function RobotRegistryTable({ robots, searchTerm }: RobotRegistryTableProps) {
             <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
               Last Seen
             </th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              Actions
+            </th>
           </tr>
         </thead>
         <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
@@ -665,7 +754,10 @@ function RobotRegistryTable({ robots, searchTerm }: RobotRegistryTableProps) {
                 {robot.plantKey}
               </td>
               <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
-                {robot.labels.robotName || robot.labels.robotCaption || '-'}
+                {robot.labelOverrides?.robotName ||
+                  robot.labels.robotName ||
+                  robot.labels.robotCaption ||
+                  '-'}
               </td>
               <td className="px-4 py-3 whitespace-nowrap">
                 <LastSeenBadge
@@ -673,6 +765,29 @@ function RobotRegistryTable({ robots, searchTerm }: RobotRegistryTableProps) {
                   status={robot.status}
                 />
               </td>
+              <td className="px-4 py-3 whitespace-nowrap text-sm">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => toggleRecordStatus('robot', robot)}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {robot.status === 'active' ? 'Deactivate' : 'Reactivate'}
+                  </button>
+                  <button
+                    onClick={() =>
+                      editRecordLabel(
+                        'robot',
+                        robot,
+                        'robotName',
+                        robot.labelOverrides?.robotName ?? robot.labels.robotName,
+                      )
+                    }
+                    className="text-gray-600 dark:text-gray-400 hover:underline"
+                  >
+                    Edit Label
+                  </button>
+                </div>
+              </td>
             </tr>
           ))}
         </tbody>
@@ -0,0 +1,229 @@
+import { useMemo, useState } from 'react'
+import { useCoreStore } from '../../domain/coreStore'
+import { PageHeader } from '../../ui/components/PageHeader'
+import { ToolLabels } from '../../domain/uidTypes'
+import { formatAuditEntry } from '../../domain/auditLog'
+import {
+  declareToolCarryOver,
+  findToolReuseCandidates,
+  getMultiPlantTools,
+  getToolPlantHistory,
+} from '../../domain/toolCarryOver'
+
+const selectClass =
+  'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+
+const thClass =
+  'px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+
+function formatToolLabels(labels: ToolLabels): string {
+  return [labels.toolCode, labels.toolName, labels.gunNumber].filter(Boolean).join(' · ') || '-'
+}
+
+export default function ToolCarryOverPage() {
+  const { toolRecords, stationRecords } = useCoreStore()
+  const [sourcePlant, setSourcePlant] = useState('')
+  const [targetPlant, setTargetPlant] = useState('')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const plants = useMemo(
+    () => Array.from(new Set(toolRecords.map((t) => t.plantKey))).sort(),
+    [toolRecords],
+  )
+
+  const candidates = useMemo(
+    () =>
+      sourcePlant && targetPlant
+        ? findToolReuseCandidates(sourcePlant, targetPlant, toolRecords)
+        : [],
+    [sourcePlant, targetPlant, toolRecords],
+  )
+
+  const multiPlantTools = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    return getMultiPlantTools(toolRecords).filter(
+      (t) =>
+        !term ||
+        t.key.toLowerCase().includes(term) ||
+        t.uid.toLowerCase().includes(term) ||
+        Object.values(t.labelsByPlant ?? {}).some((labels) =>
+          formatToolLabels(labels).toLowerCase().includes(term),
+        ),
+    )
+  }, [toolRecords, searchTerm])
+
+  const handleDeclare = (sourceUid: string, targetUid: string) => {
+    const reason = prompt('Reason (optional):')
+    if (reason === null) return
+
+    const result = declareToolCarryOver(sourceUid, targetUid, reason || undefined)
+    setMessage(
+      result.success
+        ? { text: formatAuditEntry(result.entry), isError: false }
+        : { text: result.errorMessage, isError: true },
+    )
+  }
+
+  return (
+    <div className="space-y-6" data-testid="tool-carry-over-root">
+      <PageHeader
+        title="Tool Carry-Over"
+        subtitle="Track physical tools across plants and reuse equipment between programs"
+      />
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Reuse candidates</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={sourcePlant}
+            onChange={(e) => setSourcePlant(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">Source plant...</option>
+            {plants.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-500">→</span>
+          <select
+            value={targetPlant}
+            onChange={(e) => setTargetPlant(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">Target plant (new program)...</option>
+            {plants
+              .filter((p) => p !== sourcePlant)
+              .map((p) => (
+                <option key={p} value={p}>
+                  {p}
+                </option>
+              ))}
+          </select>
+        </div>
+
+        {message && (
+          <p className={`text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`}>
+            {message.text}
+          </p>
+        )}
+
+        {!sourcePlant || !targetPlant ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Pick a source and target plant to list tools that could be carried over.
+          </p>
+        ) : candidates.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No reuse candidates between {sourcePlant} and {targetPlant}.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className={thClass}>{targetPlant} tool</th>
+                  <th className={thClass}>{sourcePlant} tool</th>
+                  <th className={thClass}>Score</th>
+                  <th className={thClass}>Reasons</th>
+                  <th className={thClass}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {candidates.map((c) => (
+                  <tr key={`${c.targetTool.uid}-${c.sourceTool.uid}`}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900 dark:text-gray-100">
+                        {c.targetTool.key}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {formatToolLabels(c.targetTool.labels)}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900 dark:text-gray-100">
+                        {c.sourceTool.key}
+                        {c.sourceTool.status === 'inactive' && (
+                          <span className="ml-2 text-xs text-gray-400">(inactive)</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {formatToolLabels(c.sourceTool.labels)}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                      {c.matchScore}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400">
+                      {c.reasons.join(', ')}
+                    </td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      <button
+                        onClick={() => handleDeclare(c.sourceTool.uid, c.targetTool.uid)}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Declare same tool
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            Tools across plants ({multiPlantTools.length})
+          </h3>
+          <input
+            type="text"
+            placeholder="Search by key, UID or label..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className={`min-w-[240px] ${selectClass}`}
+          />
+        </div>
+
+        {multiPlantTools.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No tools are known in more than one plant yet.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {multiPlantTools.map((tool) => (
+              <div key={tool.uid} className="py-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{tool.key}</span>
+                  <code className="text-xs text-gray-500">{tool.uid}</code>
+                </div>
+                <ul className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-2">
+                  {getToolPlantHistory(tool, stationRecords).map((entry) => (
+                    <li
+                      key={entry.plantKey}
+                      className="px-3 py-2 text-sm rounded border border-gray-200 dark:border-gray-700"
+                    >
+                      <div className="font-medium text-gray-800 dark:text-gray-200">
+                        {entry.plantKey}
+                        {entry.isHomePlant && (
+                          <span className="ml-2 text-xs text-blue-600">home</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">{formatToolLabels(entry.labels)}</div>
+                      <div className="text-xs text-gray-500">
+                        Station: {entry.stationKey ?? entry.stationUid ?? '-'}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+import { ChangeEvent, useMemo, useState } from 'react'
+import { PageHeader } from '../../ui/components/PageHeader'
+import {
+  downloadToolListSchemas,
+  getCustomToolListSchemas,
+  getToolListSchemas,
+  importToolListSchemas,
+  isBuiltInToolListSchema,
+  removeCustomToolListSchema,
+} from '../../ingestion/toolListSchemas/toolListSchemaRegistry'
+import { detectToolListSchema } from '../../ingestion/toolListSchemas/toolListSchemaEngine'
+import { ToolListSchemaDefinition } from '../../ingestion/toolListSchemas/toolListSchemaDefinition'
+
+const inputClass =
+  'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+
+const thClass =
+  'px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+
+function describeDetection(schema: ToolListSchemaDefinition): string[] {
+  return [...schema.detection]
+    .sort((a, b) => b.priority - a.priority)
+    .map((rule) => {
+      const parts = [
+        rule.fileNameContains?.length ? `file name has ${rule.fileNameContains.join(' / ')}` : '',
+        rule.columns?.length ? `columns ${rule.columns.join(' + ')}` : '',
+      ].filter(Boolean)
+      return `${rule.priority}: ${parts.join(' and ')}`
+    })
+}
+
+export default function ToolListSchemasPage() {
+  const [schemas, setSchemas] = useState(() => getToolListSchemas())
+  const [customIds, setCustomIds] = useState(
+    () => new Set(getCustomToolListSchemas().map((schema) => schema.id)),
+  )
+  const [testFileName, setTestFileName] = useState('')
+  const [testHeaders, setTestHeaders] = useState('')
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const refresh = () => {
+    setSchemas(getToolListSchemas())
+    setCustomIds(new Set(getCustomToolListSchemas().map((schema) => schema.id)))
+  }
+
+  const detected = useMemo(() => {
+    if (!testFileName.trim() && !testHeaders.trim()) return null
+    const headers = testHeaders
+      .split(/[,\n\t]/)
+      .map((header) => header.trim())
+      .filter(Boolean)
+    return detectToolListSchema(testFileName.trim(), headers, schemas) ?? 'UNKNOWN'
+  }, [schemas, testFileName, testHeaders])
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const result = importToolListSchemas(await file.text())
+    if (!result.success) {
+      setMessage({ text: result.errorMessage ?? 'Import failed', isError: true })
+      return
+    }
+    refresh()
+    setMessage({
+      text: `Imported ${result.importedIds.join(', ')}. Used from the next tool list import.`,
+      isError: false,
+    })
+  }
+
+  const handleRemove = (id: string) => {
+    const builtIn = isBuiltInToolListSchema(id)
+    const prompt = builtIn
+      ? `Restore the built-in schema "${id}"?`
+      : `Remove the imported schema "${id}"?`
+    if (!confirm(prompt)) return
+    removeCustomToolListSchema(id)
+    refresh()
+    setMessage({
+      text: builtIn ? `Restored the built-in ${id} schema.` : `Removed ${id}.`,
+      isError: false,
+    })
+  }
+
+  return (
+    <div className="space-y-6" data-testid="tool-list-schemas-root">
+      <PageHeader
+        title="Tool List Schemas"
+        subtitle="Column layouts used to read customer tool lists"
+        actions={
+          <div className="flex gap-2">
+            <label className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer">
+              Import JSON
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImport}
+                className="hidden"
+                aria-label="Import schema JSON"
+              />
+            </label>
+            <button
+              onClick={() => downloadToolListSchemas()}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Export all
+            </button>
+          </div>
+        }
+      />
+
+      {message && (
+        <p
+          className={`text-sm whitespace-pre-line ${message.isError ? 'text-red-600' : 'text-green-700'}`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      {/* Detection preview */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Test detection</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            type="text"
+            value={testFileName}
+            onChange={(e) => setTestFileName(e.target.value)}
+            placeholder="e.g. V801 Tool List.xlsx"
+            className={inputClass}
+            aria-label="Test file name"
+          />
+          <textarea
+            value={testHeaders}
+            onChange={(e) => setTestHeaders(e.target.value)}
+            placeholder="Header row, comma or line separated"
+            rows={2}
+            className={inputClass}
+            aria-label="Test headers"
+          />
+        </div>
+        {detected && (
+          <p className="text-sm text-gray-700 dark:text-gray-300" data-testid="detected-schema">
+            {detected === 'UNKNOWN' ? (
+              <span className="text-amber-600">
+                No schema matches; the legacy tool list parser is used.
+              </span>
+            ) : (
+              <>
+                Detected <strong>{detected.name}</strong> ({detected.id})
+              </>
+            )}
+          </p>
+        )}
+      </div>
+
+      {/* Schemas */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+          Schemas ({schemas.length})
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          The highest priority detection rule across all schemas wins. Importing a schema with the
+          id of a built-in replaces it until removed.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className={thClass}>Schema</th>
+                <th className={thClass}>Source</th>
+                <th className={thClass}>Key prefix</th>
+                <th className={thClass}>Detection</th>
+                <th className={thClass}>Row split</th>
+                <th className={thClass}>Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {schemas.map((schema) => {
+                const isCustom = customIds.has(schema.id)
+                const isBuiltIn = isBuiltInToolListSchema(schema.id)
+                return (
+                  <tr key={schema.id}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900 dark:text-gray-100">
+                        {schema.name}
+                      </div>
+                      <div className="text-xs font-mono text-gray-500">{schema.id}</div>
+                      {schema.description && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 max-w-md">
+                          {schema.description}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                      {isCustom
+                        ? isBuiltIn
+                          ? 'Imported (replaces built-in)'
+                          : 'Imported'
+                        : 'Built-in'}
+                    </td>
+                    <td className="px-4 py-3 text-sm font-mono text-gray-700 dark:text-gray-300">
+                      {schema.keyPrefix}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400">
+                      {describeDetection(schema).map((line) => (
+                        <div key={line}>{line}</div>
+                      ))}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400">
+                      {schema.entities.sides.length} side(s), {schema.entities.split},{' '}
+                      {schema.entities.fallback} fallback
+                    </td>
+                    <td className="px-4 py-3 text-sm space-x-3 whitespace-nowrap">
+                      <button
+                        onClick={() => downloadToolListSchemas([schema.id])}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Export
+                      </button>
+                      {isCustom && (
+                        <button
+                          onClick={() => handleRemove(schema.id)}
+                          className="text-red-600 dark:text-red-400 hover:underline"
+                        >
+                          {isBuiltIn ? 'Restore built-in' : 'Remove'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
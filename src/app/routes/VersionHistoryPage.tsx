@@ -10,6 +10,9 @@ import { PageHeader } from '../../ui/components/PageHeader';
 import { VersionTimeline } from '../components/versions/VersionTimeline';
 import { VersionComparison } from '../components/versions/VersionComparison';
 import { StorageManagement } from '../components/versions/StorageManagement';
+import { SnapshotComparePicker } from '../components/versions/SnapshotComparePicker';
+import { RestoreSnapshotDialog } from '../components/versions/RestoreSnapshotDialog';
+import { useSnapshotRestore } from '../hooks/useSnapshotRestore';
 import { getStorageStats } from '../../storage/indexedDBStore';
 import { log } from '../../lib/log';
 
@@ -19,9 +22,18 @@ function VersionHistoryPage() {
     from: string;
     to: string;
   } | null>(null);
+  const [compareFrom, setCompareFrom] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [snapshotCount, setSnapshotCount] = useState<number>(0);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [restoreTimestamp, setRestoreTimestamp] = useState<string | null>(null);
+  const restore = useSnapshotRestore(result => {
+    if (result.success) {
+      log.info('Version History: Restored snapshot', result);
+      // Timeline now also shows the safety snapshot
+      setRefreshKey(prev => prev + 1);
+    }
+  });
 
   useEffect(() => {
     loadStats();
@@ -36,12 +48,23 @@ function VersionHistoryPage() {
     }
   };
 
-  const handleCompare = (_timestamp: string) => {
-    // For now, compare with current state (we'd need to implement "current" snapshot)
-    // Or we could allow selecting two timestamps
-    // For simplicity, let's open a modal where user can select another timestamp
-    alert('Comparison feature: Please select another snapshot to compare with');
-    // TODO: Implement two-timestamp selection UI
+  // Timeline Compare button preselects the "from" side of the picker
+  const handleCompare = (timestamp: string) => {
+    setCompareFrom(timestamp);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleCompareSnapshots = (from: string, to: string) => {
+    // Always diff older → newer so "added" reads forward in time
+    const [older, newer] = from <= to ? [from, to] : [to, from];
+    setComparisonTimestamps({ from: older, to: newer });
+    setShowComparison(true);
+  };
+
+  const handleRestore = async (timestamp: string) => {
+    setRestoreTimestamp(timestamp);
+    await restore.requestRestore(timestamp);
+    setRestoreTimestamp(null);
   };
 
   const handleRefresh = () => {
@@ -103,8 +126,9 @@ function VersionHistoryPage() {
             </h3>
             <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
               <li>• Snapshots are automatically saved after each Excel import</li>
-              <li>• Load any previous version to restore your data</li>
-              <li>• Compare versions to see what changed</li>
+              <li>• Restore any previous version; your current data is saved as a snapshot first</li>
+              <li>• Compare any two versions to see what changed, and download the report</li>
+              <li>• Mark key versions as named baselines (e.g. "Gate 2 freeze") so they are never pruned</li>
               <li>• All data stays local on your PC (stored in browser)</li>
             </ul>
           </div>
@@ -117,6 +141,34 @@ function VersionHistoryPage() {
             />
           )}
 
+          {/* Snapshot selection for comparison */}
+          <SnapshotComparePicker
+            key={refreshKey}
+            fromTimestamp={compareFrom}
+            onCompare={handleCompareSnapshots}
+          />
+
+          {restore.error && !restore.preview && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 text-red-800 dark:text-red-200">
+              {restore.error}
+            </div>
+          )}
+
+          {/* Restore preview (modal/overlay) */}
+          {restore.preview && (
+            <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+              <div className="max-w-3xl w-full max-h-[90vh] overflow-auto">
+                <RestoreSnapshotDialog
+                  preview={restore.preview}
+                  isRestoring={restore.isRestoring}
+                  error={restore.error}
+                  onConfirm={restore.confirmRestore}
+                  onCancel={restore.cancelRestore}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Version Comparison (modal/overlay) */}
           {showComparison && comparisonTimestamps && (
             <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -140,6 +192,8 @@ function VersionHistoryPage() {
             </h2>
             <VersionTimeline
               key={refreshKey}
+              onRestore={handleRestore}
+              restoringTimestamp={restoreTimestamp}
               onCompare={handleCompare}
               onRefresh={handleRefresh}
             />
@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { useCrossRefData } from '../../../hooks/useCrossRefData';
+import { useFlagWaivers } from '../../../hooks/useFlagWaivers';
+import { isWaiverActive, summarizeFlagWaivers } from '../../../domain/crossRef/FlagWaivers';
+import { FLAG_TYPE_LABELS } from '../../../ui/components/FlagBadge';
+import { CrossRefFlagType, FlagWaiver } from '../../../domain/crossRef/CrossRefTypes';
+
+const thClass =
+  'px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider';
+
+function formatEntity(waiver: FlagWaiver): string {
+  return [waiver.stationKey, waiver.robotKey, waiver.gunKey].filter(Boolean).join(' / ') || '-';
+}
+
+export function FlagWaiversSection() {
+  const { cells, hasData } = useCrossRefData();
+  const { waivers, revokeWaiver } = useFlagWaivers();
+
+  const summary = useMemo(() => summarizeFlagWaivers(cells, waivers), [cells, waivers]);
+
+  if (!hasData && waivers.length === 0) return null;
+
+  const stats = [
+    { label: 'Active Flags', value: summary.activeFlags, accent: 'text-rose-600 dark:text-rose-400' },
+    {
+      label: 'Acknowledged',
+      value: summary.acknowledgedFlags,
+      accent: 'text-blue-600 dark:text-blue-400',
+    },
+    { label: 'Waived', value: summary.waivedFlags, accent: 'text-emerald-600 dark:text-emerald-400' },
+    {
+      label: 'Expired Waivers',
+      value: summary.expiredWaivers,
+      accent: 'text-amber-600 dark:text-amber-400',
+    },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-blue-500" />
+        Flag Acknowledgements &amp; Waivers
+      </h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="text-center">
+            <p className={`text-2xl font-bold ${stat.accent}`}>{stat.value}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {waivers.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className={thClass}>Flag</th>
+                <th className={thClass}>Entity</th>
+                <th className={thClass}>Kind</th>
+                <th className={thClass}>Reason</th>
+                <th className={thClass}>Author</th>
+                <th className={thClass}>Expires</th>
+                <th className={thClass}></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {waivers.map((waiver) => {
+                const expired = !isWaiverActive(waiver);
+                return (
+                  <tr key={waiver.id} className={expired ? 'opacity-60' : ''}>
+                    <td className="px-3 py-2 text-sm text-gray-900 dark:text-gray-100">
+                      {FLAG_TYPE_LABELS[waiver.flagKey as CrossRefFlagType] ?? waiver.flagKey}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300">
+                      {formatEntity(waiver)}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300">
+                      {waiver.kind === 'WAIVED' ? 'Waived' : 'Acknowledged'}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300">
+                      {waiver.reason}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300">
+                      {waiver.author}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300">
+                      {waiver.expiresAt ? new Date(waiver.expiresAt).toLocaleDateString() : 'Never'}
+                      {expired && <span className="ml-1 text-amber-600">(expired)</span>}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">
+                      <button
+                        onClick={() => revokeWaiver(waiver.id)}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {expired ? 'Remove' : 'Revoke'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
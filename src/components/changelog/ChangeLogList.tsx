@@ -1,5 +1,6 @@
 import { useChangeLog } from '../../hooks/useChangeLog'
 import { getUserById } from '../../domain/usersStore' // Direct import for MVP
+import { CHANGE_KIND_LABELS, summarizeChange } from '../../domain/changeLog'
 
 export default function ChangeLogList({ cellId }: { cellId: string }) {
     const { entries } = useChangeLog(cellId)
@@ -11,7 +12,7 @@ export default function ChangeLogList({ cellId }: { cellId: string }) {
     return (
         <div className="space-y-4 mt-4">
             {entries.map(entry => {
-                const user = getUserById(entry.userId)
+                const user = entry.createdBy ? getUserById(entry.createdBy) : undefined
                 return (
                     <div key={entry.id} className="flex gap-3">
                         <div className="flex-none mt-1">
@@ -21,10 +22,17 @@ export default function ChangeLogList({ cellId }: { cellId: string }) {
                         </div>
                         <div className="flex-1 bg-gray-50 p-3 rounded text-sm text-gray-800">
                             <div className="flex justify-between items-baseline mb-1">
-                                <span className="font-bold text-gray-900">{user?.name || 'Unknown'}</span>
+                                <span className="font-bold text-gray-900">{user?.name || entry.createdBy || 'Unknown'}</span>
                                 <span className="text-xs text-gray-400">{new Date(entry.createdAt).toLocaleString()}</span>
                             </div>
-                            <p>{entry.text}</p>
+                            {entry.kind === 'note' ? (
+                                <p>{entry.text}</p>
+                            ) : (
+                                <p>
+                                    <span className="text-xs font-medium text-gray-500 mr-2">{CHANGE_KIND_LABELS[entry.kind]}</span>
+                                    {summarizeChange(entry)}
+                                </p>
+                            )}
                         </div>
                     </div>
                 )
@@ -1,11 +1,13 @@
 import { useState } from 'react'
 import { useChecklists } from '../../hooks/useChecklists'
 import { useCurrentUser } from '../../hooks/useCurrentUser'
-import { checklistItemTemplates } from '../../domain/mockData' // Direct import for MVP simplicity
 import ChecklistView from './ChecklistView'
 
 export default function ChecklistList({ cellId }: { cellId: string }) {
-    const { checklists, itemsByChecklistId, templates, createChecklist, updateItem } = useChecklists(cellId)
+    const {
+        checklists, itemsByChecklistId, templates, allTemplates, itemTemplates, latestVersionByFamily,
+        createChecklist, updateItem, migrateChecklist
+    } = useChecklists(cellId)
     const user = useCurrentUser()
     const [isAdding, setIsAdding] = useState(false)
 
@@ -34,7 +36,7 @@ export default function ChecklistList({ cellId }: { cellId: string }) {
                                 }}
                                 className="block w-full text-left px-3 py-2 bg-white border border-blue-200 rounded text-sm hover:bg-blue-50 text-gray-700"
                             >
-                                {t.name} <span className="text-xs text-gray-400 ml-2">({t.phase})</span>
+                                {t.name} <span className="text-xs text-gray-400 ml-2">({t.phase}{t.customer ? ` · ${t.customer}` : ''} · v{t.version})</span>
                             </button>
                         ))}
                     </div>
@@ -46,15 +48,19 @@ export default function ChecklistList({ cellId }: { cellId: string }) {
             )}
 
             {checklists.map(cl => {
-                const template = templates.find(t => t.id === cl.templateId)
+                // Look up against all templates so checklists from deactivated templates still render
+                const template = allTemplates.find(t => t.id === cl.templateId)
+                const latestVersion = template ? latestVersionByFamily.get(template.familyId) : undefined
                 return (
                     <ChecklistView
                         key={cl.id}
                         checklist={cl}
                         template={template}
                         items={itemsByChecklistId[cl.id] || []}
-                        itemTemplates={checklistItemTemplates}
+                        itemTemplates={itemTemplates}
                         onUpdateItem={updateItem}
+                        latestTemplateVersion={latestVersion}
+                        onMigrate={() => migrateChecklist(cl.id)}
                     />
                 )
             })}
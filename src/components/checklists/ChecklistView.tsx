@@ -8,13 +8,19 @@ type Props = {
     items: ChecklistItem[]
     itemTemplates: ChecklistItemTemplate[]
     onUpdateItem: (itemId: string, status?: any, comment?: string) => void
+    latestTemplateVersion?: number
+    onMigrate?: () => void
 }
 
-export default function ChecklistView({ checklist, template, items, itemTemplates, onUpdateItem }: Props) {
+export default function ChecklistView({
+    checklist, template, items, itemTemplates, onUpdateItem, latestTemplateVersion, onMigrate
+}: Props) {
     const [expanded, setExpanded] = useState(false)
 
     if (!template) return null
 
+    const isOutdated = latestTemplateVersion !== undefined && latestTemplateVersion > template.version
+
     // Sort items based on template order
     const sortedItems = [...items].sort((a, b) => {
         const tA = itemTemplates.find(t => t.id === a.templateItemId)
@@ -31,8 +37,19 @@ export default function ChecklistView({ checklist, template, items, itemTemplate
                 <div>
                     <h4 className="font-bold text-gray-800">{template.name}</h4>
                     <div className="text-xs text-gray-500">
-                        {checklist.status} • {new Date(checklist.updatedAt).toLocaleDateString()}
+                        {checklist.status} • v{template.version} • {new Date(checklist.updatedAt).toLocaleDateString()}
                     </div>
+                    {isOutdated && onMigrate && (
+                        <button
+                            onClick={e => {
+                                e.stopPropagation()
+                                onMigrate()
+                            }}
+                            className="mt-1 text-xs text-amber-700 hover:text-amber-900 font-medium"
+                        >
+                            Template v{latestTemplateVersion} available - migrate to latest
+                        </button>
+                    )}
                 </div>
                 <div className="text-gray-400">
                     {expanded ? '▲' : '▼'}
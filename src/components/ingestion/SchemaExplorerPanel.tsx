@@ -12,7 +12,8 @@ import {
   HelpCircle,
   FileSpreadsheet,
   Columns,
-  Rows
+  Rows,
+  Network
 } from 'lucide-react'
 import { cn } from '../../ui/lib/utils'
 import {
@@ -24,6 +25,7 @@ import {
   groupColumnsByCategory
 } from '../../ingestion/schemaExplorer'
 import { getCategoryLabel, getCategoryColorClass } from '../../ingestion/ingestionTelemetry'
+import type { SemanticLayerArtifact, SemanticNode } from '../../ingestion/semanticLayer'
 
 // ============================================================================
 // MAIN COMPONENT
@@ -201,6 +203,9 @@ function SheetCard({ sheet, isExpanded, onToggle }: SheetCardProps) {
           {/* Column Roles */}
           <ColumnRolesSection columns={columns} />
 
+          {/* Semantic Graph */}
+          {sheet.semanticLayer && <SemanticGraphSection semanticLayer={sheet.semanticLayer} />}
+
           {/* Sample Data */}
           <SampleDataSection sheet={sheet} columns={columns} />
         </div>
@@ -268,6 +273,92 @@ function ColumnRoleBadge({ column }: ColumnRoleBadgeProps) {
   )
 }
 
+// ============================================================================
+// SEMANTIC GRAPH SECTION
+// ============================================================================
+
+interface SemanticGraphSectionProps {
+  semanticLayer: SemanticLayerArtifact
+}
+
+function SemanticGraphSection({ semanticLayer }: SemanticGraphSectionProps) {
+  const nodesById = new Map(semanticLayer.nodes.map(node => [node.id, node]))
+  const fileNode = semanticLayer.nodes.find(node => node.type === 'file')
+  const sheetNode = semanticLayer.nodes.find(node => node.type === 'sheet')
+  const headerNodes = semanticLayer.nodes.filter(node => node.type === 'header')
+
+  const fieldsByHeader = new Map<string, { field: SemanticNode; confidence?: number }[]>()
+  for (const edge of semanticLayer.edges) {
+    const field = nodesById.get(edge.to)
+    if (edge.type !== 'MAPS_TO' || !field) continue
+    const targets = fieldsByHeader.get(edge.from) ?? []
+    targets.push({ field, confidence: edge.confidence })
+    fieldsByHeader.set(edge.from, targets)
+  }
+
+  const missingRequired = semanticLayer.ambiguities.filter(a => a.kind === 'MISSING_REQUIRED_FIELD')
+  const { report } = semanticLayer
+
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2 flex items-center">
+        <Network className="w-3 h-3 mr-1" />
+        Semantic Graph ({semanticLayer.domain} • {report.coveragePercent}% mapped)
+      </h4>
+
+      <p className="text-xs text-gray-600 dark:text-gray-300 mb-2">
+        {fileNode?.label ?? semanticLayer.fileName}
+        <span className="mx-1 opacity-50">→</span>
+        {sheetNode?.label ?? semanticLayer.sheetName}
+        <span className="mx-1 opacity-50">→</span>
+        {report.totalHeaders} headers
+        <span className="mx-1 opacity-50">→</span>
+        {report.mappedHeaders} mapped, {report.ambiguousHeaders} ambiguous, {report.unmappedHeaders} unmapped
+      </p>
+
+      <div className="flex flex-wrap gap-1">
+        {headerNodes.map(header => {
+          const targets = fieldsByHeader.get(header.id) ?? []
+          const isAmbiguous = targets.length > 1
+          return (
+            <div
+              key={header.id}
+              className={cn(
+                'inline-flex items-center px-2 py-1 rounded text-xs',
+                targets.length === 0
+                  ? 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                  : isAmbiguous
+                    ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+                    : 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+              )}
+              title={
+                targets.length > 0 ? `Confidence ${targets[0].confidence ?? 0}` : 'No matching field'
+              }
+            >
+              <span className="font-medium">{header.label}</span>
+              <span className="mx-1 opacity-50">→</span>
+              <span>
+                {targets.length === 0 ? '—' : targets.map(t => t.field.label).join(' | ')}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      {missingRequired.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {missingRequired.map(ambiguity => (
+            <p key={ambiguity.id} className="text-xs text-red-600 dark:text-red-400 flex items-center">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {ambiguity.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // ============================================================================
 // SAMPLE DATA SECTION
 // ============================================================================
@@ -0,0 +1,178 @@
+import { useMemo, useState } from 'react'
+import { useCoreStore } from '../../domain/coreStore'
+import { EntityType, RobotRecord, StationRecord, ToolRecord } from '../../domain/uidTypes'
+import { formatAuditEntry } from '../../domain/auditLog'
+import {
+  MergeFieldSource,
+  countStationReferences,
+  getSplittableMerges,
+  mergeRegistryRecords,
+  splitRegistryRecord,
+} from '../../domain/registryMerge'
+
+interface MergeRecordsPanelProps {
+  entityType: EntityType
+  records: Array<StationRecord | ToolRecord | RobotRecord>
+}
+
+const selectClass =
+  'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+
+/**
+ * Merge two registry records that are really the same entity, or split a
+ * previous merge back apart.
+ */
+export function MergeRecordsPanel({ entityType, records }: MergeRecordsPanelProps) {
+  const { auditLog } = useCoreStore()
+  const [survivorUid, setSurvivorUid] = useState('')
+  const [retiredUid, setRetiredUid] = useState('')
+  const [labelsFrom, setLabelsFrom] = useState<MergeFieldSource>('survivor')
+  const [attributesFrom, setAttributesFrom] = useState<MergeFieldSource | 'combine'>('combine')
+  const [reason, setReason] = useState('')
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const sortedRecords = useMemo(
+    () => [...records].sort((a, b) => a.key.localeCompare(b.key)),
+    [records],
+  )
+
+  // Re-read when the audit log changes so split-off merges drop out of the list
+  const splittableMerges = useMemo(
+    () => getSplittableMerges().filter((e) => e.entityType === entityType),
+    [auditLog, entityType],
+  )
+
+  const references =
+    entityType === 'station' && retiredUid ? countStationReferences(retiredUid) : null
+
+  const handleMerge = () => {
+    const result = mergeRegistryRecords(entityType, survivorUid, retiredUid, {
+      labelsFrom,
+      attributesFrom,
+      reason: reason.trim() || undefined,
+    })
+    if (result.success) {
+      setMessage({ text: formatAuditEntry(result.entry), isError: false })
+      setRetiredUid('')
+      setReason('')
+    } else {
+      setMessage({ text: result.errorMessage, isError: true })
+    }
+  }
+
+  const handleSplit = (mergeEntryId: string) => {
+    const splitReason = prompt('Reason for split (optional):')
+    if (splitReason === null) return
+
+    const result = splitRegistryRecord(mergeEntryId, splitReason || undefined)
+    setMessage(
+      result.success
+        ? { text: formatAuditEntry(result.entry), isError: false }
+        : { text: result.errorMessage, isError: true },
+    )
+  }
+
+  const renderOptions = (excludeUid: string) =>
+    sortedRecords
+      .filter((r) => r.uid !== excludeUid)
+      .map((r) => (
+        <option key={r.uid} value={r.uid}>
+          {r.key} ({r.plantKey}
+          {r.status === 'inactive' ? ', inactive' : ''})
+        </option>
+      ))
+
+  return (
+    <div className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={retiredUid}
+          onChange={(e) => setRetiredUid(e.target.value)}
+          className={selectClass}
+        >
+          <option value="">Merge (retire)...</option>
+          {renderOptions(survivorUid)}
+        </select>
+        <span className="text-sm text-gray-500">into</span>
+        <select
+          value={survivorUid}
+          onChange={(e) => setSurvivorUid(e.target.value)}
+          className={selectClass}
+        >
+          <option value="">Surviving {entityType}...</option>
+          {renderOptions(retiredUid)}
+        </select>
+        <select
+          value={labelsFrom}
+          onChange={(e) => setLabelsFrom(e.target.value as MergeFieldSource)}
+          className={selectClass}
+        >
+          <option value="survivor">Keep survivor labels</option>
+          <option value="retired">Use retired labels</option>
+        </select>
+        <select
+          value={attributesFrom}
+          onChange={(e) => setAttributesFrom(e.target.value as MergeFieldSource | 'combine')}
+          className={selectClass}
+        >
+          <option value="combine">Combine attributes</option>
+          <option value="survivor">Keep survivor attributes</option>
+          <option value="retired">Use retired attributes</option>
+        </select>
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (optional)"
+          className={`flex-1 min-w-[160px] ${selectClass}`}
+        />
+        <button
+          onClick={handleMerge}
+          disabled={!survivorUid || !retiredUid}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Merge
+        </button>
+      </div>
+
+      {references && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {references.tools} tool(s) and {references.robots} robot(s) will be re-pointed to the
+          surviving station.
+        </p>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {splittableMerges.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-2">
+            Previous merges
+          </h4>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {[...splittableMerges].reverse().map((entry) => (
+              <li key={entry.id} className="py-2 flex items-center justify-between text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {formatAuditEntry(entry)}
+                  <span className="ml-2 text-xs text-gray-400">
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </span>
+                </span>
+                <button
+                  onClick={() => handleSplit(entry.id)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Split
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
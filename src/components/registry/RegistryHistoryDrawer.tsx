@@ -0,0 +1,102 @@
+import { Redo2, Undo2, X } from 'lucide-react'
+import { formatAuditEntry } from '../../domain/auditLog'
+import {
+  RegistryCommand,
+  redoRegistryCommand,
+  undoRegistryCommand,
+  useRegistryHistory,
+} from '../../domain/registryHistory'
+import { useCurrentUser } from '../../hooks/useCurrentUser'
+
+interface RegistryHistoryDrawerProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+function HistoryItem({ command, muted }: { command: RegistryCommand; muted?: boolean }) {
+  return (
+    <li
+      className={`py-2 text-sm ${muted ? 'text-gray-400 line-through' : 'text-gray-800 dark:text-gray-200'}`}
+    >
+      <p>{formatAuditEntry(command.entry)}</p>
+      <p className="text-xs text-gray-400">
+        {new Date(command.entry.timestamp).toLocaleTimeString()}
+      </p>
+    </li>
+  )
+}
+
+/**
+ * Slide-over listing this session's registry edits, newest first.
+ * Undone edits stay visible (struck through) until a new edit clears them.
+ */
+export function RegistryHistoryDrawer({ isOpen, onClose }: RegistryHistoryDrawerProps) {
+  const { undoStack, redoStack } = useRegistryHistory()
+  const userEmail = useCurrentUser()?.email
+
+  if (!isOpen) return null
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/30 z-40" onClick={onClose} aria-hidden="true" />
+      <div
+        className="fixed right-0 top-0 h-full w-full max-w-md bg-white dark:bg-gray-800 shadow-2xl z-50 overflow-y-auto"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="registry-history-title"
+        data-testid="registry-history-drawer"
+      >
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4 flex items-center justify-between">
+          <h2
+            id="registry-history-title"
+            className="text-lg font-semibold text-gray-900 dark:text-white"
+          >
+            Edit History
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => undoRegistryCommand(userEmail)}
+              disabled={undoStack.length === 0}
+              className="p-2 text-gray-500 hover:text-gray-800 disabled:opacity-40"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => redoRegistryCommand(userEmail)}
+              disabled={redoStack.length === 0}
+              className="p-2 text-gray-500 hover:text-gray-800 disabled:opacity-40"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600"
+              aria-label="Close history"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-4">
+          {undoStack.length === 0 && redoStack.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No registry edits in this session yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {redoStack.map((command) => (
+                <HistoryItem key={command.entry.id} command={command} muted />
+              ))}
+              {[...undoStack].reverse().map((command) => (
+                <HistoryItem key={command.entry.id} command={command} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
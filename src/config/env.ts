@@ -8,6 +8,7 @@ export interface AppEnvConfig {
     msSharePointSiteId?: string
     msSharePointDriveId?: string
     msSharePointRootPath?: string
+    msGraphBaseUrl?: string
     simBridgeUrl?: string
 }
 
@@ -38,6 +39,8 @@ export function getEnvConfig(): AppEnvConfig {
     const msSharePointSiteId = import.meta.env.VITE_MSAL_SHAREPOINT_SITE_ID
     const msSharePointDriveId = import.meta.env.VITE_MSAL_SHAREPOINT_DRIVE_ID
     const msSharePointRootPath = import.meta.env.VITE_MSAL_SHAREPOINT_ROOT_PATH
+    // Point at a local mock Graph server for offline testing
+    const msGraphBaseUrl = import.meta.env.VITE_MS_GRAPH_BASE_URL
 
     envConfigInstance = {
         appEnv,
@@ -47,6 +50,7 @@ export function getEnvConfig(): AppEnvConfig {
         msSharePointSiteId,
         msSharePointDriveId,
         msSharePointRootPath,
+        msGraphBaseUrl,
         simBridgeUrl: import.meta.env.VITE_SIMBRIDGE_URL
     }
 
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  createCellEngineerAssignmentChange,
+  createCellStatusChange,
+  createEquipmentSwapChange,
+  createNoteChange,
+  createScheduleMoveChange,
+  createStudyPathUpdateChange,
+  filterChanges,
+  summarizeChange,
+  type ChangeRecord,
+} from '../changeLog'
+import {
+  addChangeLogEntry,
+  changeCellStatus,
+  getChangeLogByCellId,
+  moveCellSchedule,
+  recordStudyPathUpdate,
+  swapCellEquipment,
+} from '../changeLogStore'
+import { Cell, Tool } from '../core'
+import { coreStore } from '../coreStore'
+import { applySnapshotToState } from '../storeSnapshot'
+import { generateChangesCsv } from '../../utils/csvExport'
+
+const at = <T extends ChangeRecord>(change: T, createdAt: string): T => ({ ...change, createdAt })
+
+describe('changeLog - typed changes', () => {
+  it('summarizes every change kind', () => {
+    expect(summarizeChange(createCellEngineerAssignmentChange('c1', undefined, 'Dale'))).toBe(
+      'Cell c1: engineer Unassigned -> Dale',
+    )
+    expect(summarizeChange(createNoteChange('c1', 'Moved R1 base'))).toBe('Cell c1: Moved R1 base')
+    expect(summarizeChange(createCellStatusChange('c1', 'InProgress', 'Blocked'))).toBe(
+      'Cell c1: status InProgress -> Blocked',
+    )
+    expect(
+      summarizeChange(createScheduleMoveChange('c1', 'plannedFinish', '2026-03-01', '2026-03-15')),
+    ).toBe('Cell c1: plannedFinish 2026-03-01 -> 2026-03-15')
+    expect(
+      summarizeChange(createEquipmentSwapChange('c1', { name: 'GUN 10' }, { name: 'GUN 12' })),
+    ).toBe('Cell c1: equipment GUN 10 -> GUN 12')
+    expect(
+      summarizeChange(createStudyPathUpdateChange('c1', undefined, 'C:\\Studies\\ST010.psz')),
+    ).toBe('Cell c1: study path unset -> C:\\Studies\\ST010.psz')
+  })
+})
+
+describe('changeLog - filterChanges', () => {
+  const changes: ChangeRecord[] = [
+    at(
+      createNoteChange('c1', 'Clamp C4 collision', { createdBy: 'sarah@simpilot.com' }),
+      '2026-02-01T09:00:00.000Z',
+    ),
+    at(createCellEngineerAssignmentChange('c2', 'Mike', 'Dale'), '2026-02-03T12:00:00.000Z'),
+    at(
+      createCellStatusChange('c1', 'InProgress', 'Blocked', { createdBy: 'mike@simpilot.com' }),
+      '2026-02-05T16:30:00.000Z',
+    ),
+  ]
+
+  it('filters by cell', () => {
+    expect(filterChanges(changes, { cellId: 'c1' })).toHaveLength(2)
+  })
+
+  it('filters by engineer across author and assignment fields', () => {
+    expect(filterChanges(changes, { engineer: 'dale' }).map((c) => c.cellId)).toEqual(['c2'])
+    expect(filterChanges(changes, { engineer: 'mike' })).toHaveLength(2)
+  })
+
+  it('filters by kind', () => {
+    expect(filterChanges(changes, { kind: 'statusChange' })).toHaveLength(1)
+  })
+
+  it('treats a bare toDate as inclusive of the whole day', () => {
+    expect(filterChanges(changes, { fromDate: '2026-02-03', toDate: '2026-02-05' })).toHaveLength(2)
+  })
+})
+
+describe('changeLogStore', () => {
+  beforeEach(() => {
+    coreStore.clear()
+  })
+
+  it('stores notes in the core store change log', () => {
+    addChangeLogEntry({ cellId: 'c1', userId: 'u2', text: 'Gun 2 tight on weld 45' })
+
+    const entries = getChangeLogByCellId('c1')
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({
+      kind: 'note',
+      createdBy: 'u2',
+      text: 'Gun 2 tight on weld 45',
+    })
+    expect(coreStore.getState().changeLog).toHaveLength(1)
+  })
+
+  it('keeps the change log across Excel reloads and snapshots', () => {
+    addChangeLogEntry({ cellId: 'c1', userId: 'u2', text: 'Reach OK' })
+    coreStore.setData(
+      { projects: [], areas: [], cells: [], robots: [], tools: [], warnings: [] },
+      'Local',
+    )
+
+    const restored = applySnapshotToState(coreStore.getSnapshot())
+    expect(restored.changeLog).toHaveLength(1)
+  })
+
+  describe('cell edits', () => {
+    const cell: Cell = {
+      id: 'c1',
+      projectId: 'p1',
+      areaId: 'a1',
+      name: 'Underbody - 010',
+      code: '010',
+      status: 'InProgress',
+      plannedFinish: '2026-03-01',
+    }
+
+    beforeEach(() => {
+      coreStore.setData(
+        { projects: [], areas: [], cells: [cell], robots: [], tools: [], warnings: [] },
+        'Local',
+      )
+    })
+
+    it('records a status change and updates the cell', () => {
+      const change = changeCellStatus('c1', 'Blocked', 'u2')
+
+      expect(change).toMatchObject({
+        kind: 'statusChange',
+        previousStatus: 'InProgress',
+        newStatus: 'Blocked',
+        createdBy: 'u2',
+        projectId: 'p1',
+        areaId: 'a1',
+      })
+      expect(coreStore.getState().cells[0].status).toBe('Blocked')
+      expect(changeCellStatus('c1', 'Blocked')).toBeUndefined()
+      expect(coreStore.getState().changeLog).toHaveLength(1)
+    })
+
+    it('records a schedule move and keeps cell and schedule dates in step', () => {
+      const change = moveCellSchedule('c1', 'plannedFinish', '2026-03-15')
+
+      expect(change).toMatchObject({
+        kind: 'scheduleMove',
+        field: 'plannedFinish',
+        previousDate: '2026-03-01',
+        newDate: '2026-03-15',
+      })
+      const [updated] = coreStore.getState().cells
+      expect(updated.plannedFinish).toBe('2026-03-15')
+      expect(updated.schedule).toMatchObject({ plannedEnd: '2026-03-15', phase: 'unspecified' })
+    })
+
+    it('records an equipment swap and moves the guns', () => {
+      const gun = (id: string, name: string, cellId: string | null): Tool => ({
+        id,
+        name,
+        kind: 'GUN',
+        sourcing: 'REUSE',
+        metadata: {},
+        cellId,
+        areaId: cellId ? 'a1' : 'a2',
+        toolType: 'SPOT_WELD',
+        mountType: 'ROBOT_MOUNTED',
+        sourceFile: 'tools.xlsx',
+        sheetName: 'Guns',
+        rowIndex: 1,
+      })
+      coreStore.setData(
+        {
+          projects: [],
+          areas: [],
+          cells: [cell],
+          robots: [],
+          tools: [gun('g10', 'GUN 10', 'c1'), gun('g12', 'GUN 12', null)],
+          warnings: [],
+        },
+        'Local',
+      )
+
+      expect(swapCellEquipment('c1', 'g10', 'g12', 'u2')).toMatchObject({
+        kind: 'equipmentSwap',
+        previousAssetName: 'GUN 10',
+        newAssetId: 'g12',
+        createdBy: 'u2',
+      })
+      const [g10, g12] = coreStore.getState().assets
+      expect(g10.cellId).toBeNull()
+      expect(g12).toMatchObject({ cellId: 'c1', areaId: 'a1', stationNumber: '010' })
+      expect(swapCellEquipment('c1', 'g10', 'missing')).toBeUndefined()
+    })
+
+    it('records a study path update against the previous study link', () => {
+      coreStore.upsertStudyLink({
+        id: 'l1',
+        studyPath: 'C:\\Studies\\ST010_v1.psz',
+        cellId: 'c1',
+        projectId: 'p1',
+        confidence: 1,
+        confirmedAt: '2026-02-01T09:00:00.000Z',
+      })
+
+      expect(recordStudyPathUpdate('c1', 'C:\\Studies\\ST010_v1.psz')).toBeUndefined()
+      expect(recordStudyPathUpdate('c1', 'C:\\Studies\\ST010_v2.psz')).toMatchObject({
+        kind: 'studyPathUpdate',
+        previousPath: 'C:\\Studies\\ST010_v1.psz',
+        newPath: 'C:\\Studies\\ST010_v2.psz',
+      })
+    })
+  })
+})
+
+describe('generateChangesCsv', () => {
+  it('quotes fields containing commas and quotes', () => {
+    const csv = generateChangesCsv([
+      at(
+        createNoteChange('c1', 'Moved R1, then "R2"', { createdBy: 'u2' }),
+        '2026-02-01T09:00:00.000Z',
+      ),
+    ])
+
+    const [header, row] = csv.split('\n')
+    expect(header).toBe('Date,Change ID,Kind,Cell ID,Author,Previous Value,New Value,Summary')
+    expect(row).toContain('2026-02-01T09:00:00.000Z')
+    expect(row).toContain(',note,c1,u2,,"Moved R1, then ""R2""",')
+  })
+
+  it('returns an empty string for no changes', () => {
+    expect(generateChangesCsv([])).toBe('')
+  })
+})
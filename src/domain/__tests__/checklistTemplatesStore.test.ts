@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { coreStore } from '../coreStore'
+import {
+  createChecklistFromTemplate,
+  getChecklistItemsByChecklistId,
+  getChecklistTemplatesByPhase,
+  updateChecklistItem,
+} from '../checklistsStore'
+import {
+  createChecklistTemplate,
+  getItemTemplatesForTemplate,
+  getLatestChecklistTemplate,
+  isChecklistTemplateOutdated,
+  migrateChecklistToLatestTemplate,
+  saveChecklistTemplateVersion,
+  setChecklistTemplateActive,
+} from '../checklistTemplatesStore'
+
+describe('checklistTemplatesStore', () => {
+  beforeEach(() => {
+    coreStore.clear()
+  })
+
+  it('creates a customer-specific template family at version 1', () => {
+    const template = createChecklistTemplate({
+      name: 'BMW PRE_SIM',
+      description: 'BMW reach checks',
+      phase: 'PRE_SIM',
+      customer: 'BMW',
+      items: [
+        { label: 'Reach', isMandatory: true },
+        { label: '  ', isMandatory: false },
+      ],
+    })!
+
+    expect(template.version).toBe(1)
+    expect(getItemTemplatesForTemplate(template.id)).toHaveLength(1)
+    expect(getChecklistTemplatesByPhase('PRE_SIM', 'BMW').map((t) => t.name)).toContain(
+      'BMW PRE_SIM',
+    )
+    expect(getChecklistTemplatesByPhase('PRE_SIM', 'STLA').map((t) => t.name)).not.toContain(
+      'BMW PRE_SIM',
+    )
+  })
+
+  it('saves edits as a new version and keeps checklists pinned to the old one', () => {
+    const checklist = createChecklistFromTemplate({
+      cellId: 'cell-1',
+      templateId: 't1',
+      ownerUserId: 'u1',
+    })!
+    const v1Items = getItemTemplatesForTemplate('t1')
+
+    const v2 = saveChecklistTemplateVersion('t1', {
+      name: 'PRE_SIM Feasibility',
+      description: 'Initial reach and access checks',
+      phase: 'PRE_SIM',
+      items: [
+        ...v1Items.map((it) => ({
+          itemKey: it.itemKey,
+          label: it.label,
+          isMandatory: it.isMandatory,
+        })),
+        { label: 'Dress pack interference', isMandatory: true },
+      ],
+    })!
+
+    expect(v2.version).toBe(2)
+    expect(v2.familyId).toBe('t1')
+    expect(getLatestChecklistTemplate('t1')?.id).toBe(v2.id)
+    // Only the latest version is offered for new checklists
+    expect(getChecklistTemplatesByPhase('PRE_SIM').map((t) => t.id)).toEqual([v2.id])
+
+    expect(coreStore.getState().checklists[0].templateId).toBe('t1')
+    expect(isChecklistTemplateOutdated(checklist)).toBe(true)
+  })
+
+  it('migrates to the latest version without losing answered items', () => {
+    const checklist = createChecklistFromTemplate({
+      cellId: 'cell-1',
+      templateId: 't1',
+      ownerUserId: 'u1',
+    })!
+    const items = getChecklistItemsByChecklistId(checklist.id)
+    const v1Items = getItemTemplatesForTemplate('t1')
+    const answered = items.find((i) => i.templateItemId === 'it1')!
+    const droppedAnswered = items.find((i) => i.templateItemId === 'it3')!
+    updateChecklistItem({ itemId: answered.id, status: 'DONE', comment: 'All robots reach' })
+    updateChecklistItem({ itemId: droppedAnswered.id, status: 'NA' })
+
+    // v2 drops it2 (unanswered) and it3 (answered), and adds a new item
+    const v2 = saveChecklistTemplateVersion('t1', {
+      name: 'PRE_SIM Feasibility',
+      description: '',
+      phase: 'PRE_SIM',
+      items: [
+        {
+          itemKey: v1Items[0].itemKey,
+          label: 'Robot Reach Check (all variants)',
+          isMandatory: true,
+        },
+        { label: 'Dress pack interference', isMandatory: true },
+      ],
+    })!
+
+    const result = migrateChecklistToLatestTemplate(checklist.id)!
+
+    expect(result).toMatchObject({ carriedOver: 1, added: 1, kept: 1, removed: 1 })
+    expect(result.checklist.templateId).toBe(v2.id)
+    expect(result.checklist.templateVersion).toBe(2)
+
+    const migratedItems = getChecklistItemsByChecklistId(checklist.id)
+    expect(migratedItems).toHaveLength(3)
+    const carried = migratedItems.find((i) => i.id === answered.id)!
+    expect(carried.status).toBe('DONE')
+    expect(carried.comment).toBe('All robots reach')
+    expect(migratedItems.find((i) => i.id === droppedAnswered.id)?.status).toBe('NA')
+    expect(isChecklistTemplateOutdated(result.checklist)).toBe(false)
+  })
+
+  it('is a no-op when the checklist is already on the latest version', () => {
+    const checklist = createChecklistFromTemplate({
+      cellId: 'cell-1',
+      templateId: 't2',
+      ownerUserId: 'u1',
+    })!
+
+    expect(migrateChecklistToLatestTemplate(checklist.id)).toBeUndefined()
+  })
+
+  it('deactivates and reactivates a template family', () => {
+    setChecklistTemplateActive('t2', false)
+    expect(getChecklistTemplatesByPhase('FULL_SIM')).toHaveLength(0)
+
+    setChecklistTemplateActive('t2', true)
+    expect(getChecklistTemplatesByPhase('FULL_SIM')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Tests for checklist persistence in coreStore
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { coreStore } from '../coreStore'
+import {
+  createChecklistFromTemplate,
+  updateChecklistItem,
+  getChecklistsByCellId,
+  getChecklistItemsByChecklistId,
+  deriveChecklistStatus,
+} from '../checklistsStore'
+import { applySnapshotToState } from '../storeSnapshot'
+
+describe('checklistsStore', () => {
+  beforeEach(() => {
+    coreStore.clear()
+  })
+
+  it('seeds default templates into the store', () => {
+    const state = coreStore.getState()
+    expect(state.checklistTemplates.map((t) => t.phase)).toEqual(['PRE_SIM', 'FULL_SIM'])
+    expect(state.checklists).toHaveLength(0)
+  })
+
+  it('creates a checklist with one pending item per template item', () => {
+    const checklist = createChecklistFromTemplate({
+      cellId: 'cell-1',
+      templateId: 't1',
+      ownerUserId: 'u1',
+    })
+
+    expect(checklist).toBeDefined()
+    expect(getChecklistsByCellId('cell-1')).toHaveLength(1)
+
+    const items = getChecklistItemsByChecklistId(checklist!.id)
+    expect(items).toHaveLength(3)
+    expect(items.every((i) => i.status === 'PENDING')).toBe(true)
+  })
+
+  it('returns undefined for unknown templates', () => {
+    expect(
+      createChecklistFromTemplate({ cellId: 'cell-1', templateId: 'missing', ownerUserId: 'u1' }),
+    ).toBeUndefined()
+    expect(coreStore.getState().checklists).toHaveLength(0)
+  })
+
+  it('records an audit entry when an item status changes', () => {
+    const checklist = createChecklistFromTemplate({
+      cellId: 'cell-1',
+      templateId: 't1',
+      ownerUserId: 'u1',
+    })!
+    const [item] = getChecklistItemsByChecklistId(checklist.id)
+
+    updateChecklistItem({ itemId: item.id, status: 'DONE', userId: 'alex@simpilot.com' })
+
+    const auditLog = coreStore.getAuditLog()
+    expect(auditLog).toHaveLength(1)
+    expect(auditLog[0]).toMatchObject({
+      entityType: 'checklist_item',
+      entityUid: item.id,
+      action: 'update_checklist_item',
+      oldValue: 'PENDING',
+      newValue: 'DONE',
+      user: 'alex@simpilot.com',
+      metadata: { checklistId: checklist.id, cellId: 'cell-1' },
+    })
+    expect(getChecklistsByCellId('cell-1')[0].status).toBe('IN_PROGRESS')
+  })
+
+  it('does not record an audit entry for comment-only edits', () => {
+    const checklist = createChecklistFromTemplate({
+      cellId: 'cell-1',
+      templateId: 't1',
+      ownerUserId: 'u1',
+    })!
+    const [item] = getChecklistItemsByChecklistId(checklist.id)
+
+    const updated = updateChecklistItem({ itemId: item.id, comment: 'Reach OK at +50mm' })
+
+    expect(updated?.comment).toBe('Reach OK at +50mm')
+    expect(coreStore.getAuditLog()).toHaveLength(0)
+  })
+
+  it('completes the checklist once every item is DONE or NA', () => {
+    const checklist = createChecklistFromTemplate({
+      cellId: 'cell-1',
+      templateId: 't1',
+      ownerUserId: 'u1',
+    })!
+    const items = getChecklistItemsByChecklistId(checklist.id)
+
+    updateChecklistItem({ itemId: items[0].id, status: 'DONE' })
+    updateChecklistItem({ itemId: items[1].id, status: 'NA' })
+    updateChecklistItem({ itemId: items[2].id, status: 'DONE' })
+
+    expect(getChecklistsByCellId('cell-1')[0].status).toBe('COMPLETED')
+  })
+
+  it('keeps checklists when new Excel data is loaded', () => {
+    createChecklistFromTemplate({ cellId: 'cell-1', templateId: 't2', ownerUserId: 'u1' })
+
+    coreStore.setData(
+      { projects: [], areas: [], cells: [], robots: [], tools: [], warnings: [] },
+      'Local',
+    )
+
+    expect(getChecklistsByCellId('cell-1')).toHaveLength(1)
+  })
+
+  it('round-trips checklists through a snapshot', () => {
+    const checklist = createChecklistFromTemplate({
+      cellId: 'cell-1',
+      templateId: 't1',
+      ownerUserId: 'u1',
+    })!
+
+    const restored = applySnapshotToState(coreStore.getSnapshot())
+
+    expect(restored.checklists).toEqual([checklist])
+    expect(restored.checklistItems).toHaveLength(3)
+    expect(restored.checklistTemplates).toHaveLength(2)
+  })
+
+  it('seeds default templates when restoring a pre-v5 snapshot', () => {
+    const snapshot = coreStore.getSnapshot()
+    delete snapshot.checklistTemplates
+    delete snapshot.checklistItemTemplates
+    delete snapshot.checklists
+    delete snapshot.checklistItems
+
+    const restored = applySnapshotToState(snapshot)
+
+    expect(restored.checklistTemplates).toHaveLength(2)
+    expect(restored.checklistItemTemplates).toHaveLength(6)
+    expect(restored.checklists).toEqual([])
+  })
+})
+
+describe('deriveChecklistStatus', () => {
+  const item = (status: 'PENDING' | 'IN_PROGRESS' | 'DONE' | 'NA') => ({
+    id: status,
+    checklistId: 'cl',
+    templateItemId: 'it',
+    status,
+    comment: '',
+    updatedAt: '',
+  })
+
+  it('keeps BLOCKED until everything is resolved', () => {
+    expect(deriveChecklistStatus('BLOCKED', [item('IN_PROGRESS'), item('PENDING')])).toBe('BLOCKED')
+    expect(deriveChecklistStatus('BLOCKED', [item('DONE'), item('NA')])).toBe('COMPLETED')
+  })
+
+  it('reopens a completed checklist when an item goes back to pending', () => {
+    expect(deriveChecklistStatus('COMPLETED', [item('PENDING'), item('PENDING')])).toBe(
+      'NOT_STARTED',
+    )
+  })
+})
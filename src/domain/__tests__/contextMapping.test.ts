@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDefaultContextMappingRules,
+  findContextMatches,
+  resolveImportContext,
+  validateContextMappingRule,
+} from '../contextMapping'
+import { ContextMappingRule } from '../uidTypes'
+import {
+  inferModelKeyFromFilename,
+  inferPlantKeyFromFilename,
+} from '../../ingestion/modelContextDetector'
+
+const rule = (overrides: Partial<ContextMappingRule>): ContextMappingRule => ({
+  id: 'r1',
+  kind: 'plant',
+  matchType: 'literal',
+  pattern: 'ZAR',
+  value: '',
+  priority: 10,
+  enabled: true,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+describe('contextMapping', () => {
+  it('reproduces the former hard-coded customer and model mappings', () => {
+    const rules = createDefaultContextMappingRules()
+    const context = resolveImportContext('STLA-S_REAR_UNIT_Simulation_Status_DES.xlsx', rules)
+
+    expect(context.customer?.value).toBe('TMS')
+    expect(context.model?.value).toBe('STLA_S')
+    expect(context.plant).toBeUndefined()
+    expect(inferModelKeyFromFilename('GLC X254 Tool List.xlsx', rules)).toBe('GLC_X254')
+    expect(inferModelKeyFromFilename('ToolList.xlsx', rules)).toBeUndefined()
+  })
+
+  it('lets the highest priority rule win', () => {
+    const rules = createDefaultContextMappingRules()
+    const matches = findContextMatches('STLA_SMALL_Robot_List.xlsx', rules, 'model')
+
+    expect(matches.map((m) => m.value)).toEqual(['STLA_SMALL', 'STLA_S'])
+  })
+
+  it('fills regex values from capture groups and skips disabled or broken rules', () => {
+    const rules = [
+      rule({ id: 'off', pattern: 'Sterling', value: 'SHAP', priority: 99, enabled: false }),
+      rule({ id: 'bad', matchType: 'regex', pattern: '([', priority: 50 }),
+      rule({ id: 'plant', matchType: 'regex', pattern: '^(\\w+?)_Heights', value: 'PLANT_$1' }),
+    ]
+
+    expect(inferPlantKeyFromFilename('Sterling_Heights_Robot_List.xlsx', rules)).toBe(
+      'PLANT_Sterling',
+    )
+    expect(validateContextMappingRule(rules[1])).toMatch(/^Invalid regex/)
+  })
+
+  it('uses the normalized matched text when a rule has no value', () => {
+    const rules = [rule({ pattern: 'zar-2' })]
+
+    expect(inferPlantKeyFromFilename('Tool List ZAR-2 rev4.xlsx', rules)).toBe('ZAR_2')
+    expect(validateContextMappingRule(rule({ pattern: '  ' }))).toBe('Pattern is required')
+  })
+})
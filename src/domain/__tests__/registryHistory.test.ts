@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { coreStore } from '../coreStore'
+import {
+  clearRegistryHistory,
+  createAddAliasCommand,
+  createOverrideLabelCommand,
+  createSetStatusCommand,
+  createUpdateAttributesCommand,
+  executeRegistryCommand,
+  getRegistryHistory,
+  redoRegistryCommand,
+  undoRegistryCommand,
+} from '../registryHistory'
+import { createAliasRule } from '../../ingestion/uidResolver'
+import { StationRecord, RobotRecord } from '../uidTypes'
+
+const station: StationRecord = {
+  uid: 'st_1',
+  key: 'AL_010',
+  plantKey: 'PLANT_A',
+  labels: { fullLabel: 'AL010' },
+  attributes: { robotCount: 2 },
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+}
+
+const robot: RobotRecord = {
+  uid: 'rb_1',
+  key: 'AL_010_R01',
+  plantKey: 'PLANT_A',
+  stationUid: 'st_1',
+  labels: { robotCaption: 'R01' },
+  attributes: {},
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+}
+
+const getStation = () => coreStore.getState().stationRecords.find((s) => s.uid === 'st_1')!
+
+describe('registryHistory', () => {
+  beforeEach(() => {
+    coreStore.clear()
+    clearRegistryHistory()
+    coreStore.upsertStationRecords([station])
+    coreStore.upsertRobotRecords([robot])
+  })
+
+  it('undoes and redoes a deactivation, auditing each step', () => {
+    executeRegistryCommand(createSetStatusCommand('robot', robot, 'inactive', 'Mis-click'))
+    expect(coreStore.getState().robotRecords[0].status).toBe('inactive')
+
+    undoRegistryCommand()
+    expect(coreStore.getState().robotRecords[0].status).toBe('active')
+
+    redoRegistryCommand()
+    expect(coreStore.getState().robotRecords[0].status).toBe('inactive')
+
+    const actions = coreStore.getAuditLog().map((e) => e.action)
+    expect(actions).toEqual(['deactivate', 'activate', 'deactivate'])
+    expect(coreStore.getAuditLog()[1].metadata?.undoOf).toBe(coreStore.getAuditLog()[0].id)
+  })
+
+  it('removes the alias rule on undo and restores the rule it replaced', () => {
+    const previous = createAliasRule('AL_009', 'st_other', 'station', 'Earlier mapping')
+    coreStore.addAliasRules([previous])
+
+    executeRegistryCommand(createAddAliasCommand('station', station, 'AL_009'))
+    expect(coreStore.getState().aliasRules.map((r) => r.toUid)).toEqual(['st_1'])
+
+    undoRegistryCommand()
+    expect(coreStore.getState().aliasRules).toEqual([previous])
+    expect(coreStore.getAuditLog()[1].action).toBe('remove_alias')
+  })
+
+  it('reverts label overrides and attribute updates', () => {
+    executeRegistryCommand(createOverrideLabelCommand('station', station, 'fullLabel', 'AL010A'))
+    executeRegistryCommand(
+      createUpdateAttributesCommand('station', getStation(), { robotCount: 3, line: 'AL' }),
+    )
+    expect(getStation().labelOverrides).toEqual({ fullLabel: 'AL010A' })
+    expect(getStation().attributes).toEqual({ robotCount: 3, line: 'AL' })
+
+    undoRegistryCommand()
+    expect(getStation().attributes).toEqual({ robotCount: 2 })
+
+    undoRegistryCommand()
+    expect(getStation().labelOverrides).toEqual({})
+  })
+
+  it('clears the redo stack when a new command is executed', () => {
+    executeRegistryCommand(createSetStatusCommand('station', station, 'inactive'))
+    undoRegistryCommand()
+    expect(getRegistryHistory().redoStack).toHaveLength(1)
+
+    executeRegistryCommand(createOverrideLabelCommand('station', station, 'fullLabel', 'X'))
+    expect(getRegistryHistory().redoStack).toHaveLength(0)
+    expect(redoRegistryCommand()).toBeUndefined()
+  })
+
+  it('forgets the history when the store data is replaced', () => {
+    executeRegistryCommand(createSetStatusCommand('station', station, 'inactive'))
+    const snapshot = coreStore.getSnapshot()
+
+    coreStore.setData(
+      { projects: [], areas: [], cells: [], robots: [], tools: [], warnings: [] },
+      'Local',
+    )
+    expect(getRegistryHistory().undoStack).toHaveLength(0)
+
+    executeRegistryCommand(createSetStatusCommand('robot', robot, 'inactive'))
+    coreStore.loadSnapshot(snapshot)
+    expect(getRegistryHistory().undoStack).toHaveLength(0)
+    expect(undoRegistryCommand()).toBeUndefined()
+  })
+
+  it('records the given user on undo and redo', () => {
+    executeRegistryCommand(createSetStatusCommand('robot', robot, 'inactive', undefined, 'a@x'))
+
+    undoRegistryCommand('b@x')
+    redoRegistryCommand('c@x')
+    expect(coreStore.getAuditLog().map((e) => e.user)).toEqual(['a@x', 'b@x', 'c@x'])
+  })
+})
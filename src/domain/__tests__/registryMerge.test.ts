@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { coreStore } from '../coreStore'
+import { getSplittableMerges, mergeRegistryRecords, splitRegistryRecord } from '../registryMerge'
+import { createAliasRule } from '../../ingestion/uidResolver'
+import { RobotRecord, StationRecord, ToolRecord } from '../uidTypes'
+
+const base = {
+  plantKey: 'PLANT_A',
+  status: 'active' as const,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+}
+
+const oldStation: StationRecord = {
+  ...base,
+  uid: 'st_old',
+  key: 'AL_010',
+  labels: { fullLabel: 'AL010' },
+  attributes: { robotCount: 2, line: 'AL' },
+}
+
+// Same station after renumbering, wrongly resolved to a fresh UID
+const newStation: StationRecord = {
+  ...base,
+  uid: 'st_new',
+  key: 'AL_020',
+  labels: { fullLabel: 'AL020' },
+  attributes: { robotCount: 3 },
+}
+
+const tool: ToolRecord = {
+  ...base,
+  uid: 'tl_1',
+  key: 'GUN_10',
+  stationUid: 'st_new',
+  stationUidByPlant: { PLANT_A: 'st_new', PLANT_B: 'st_b' },
+  labels: { toolCode: 'GUN 10' },
+  attributes: {},
+}
+
+const robot: RobotRecord = {
+  ...base,
+  uid: 'rb_1',
+  key: 'AL_020_R01',
+  stationUid: 'st_new',
+  labels: { robotCaption: 'R01' },
+  attributes: {},
+}
+
+const state = () => coreStore.getState()
+
+describe('registryMerge', () => {
+  beforeEach(() => {
+    coreStore.clear()
+    coreStore.upsertStationRecords([oldStation, newStation])
+    coreStore.upsertToolRecords([tool])
+    coreStore.upsertRobotRecords([robot])
+  })
+
+  it('merges a station, re-pointing foreign keys and aliasing the retired key', () => {
+    const result = mergeRegistryRecords('station', 'st_old', 'st_new', {
+      labelsFrom: 'retired',
+      attributesFrom: 'combine',
+      reason: 'Renumbered AL010 -> AL020',
+    })
+
+    expect(result.success).toBe(true)
+    expect(state().stationRecords.map((s) => s.uid)).toEqual(['st_old'])
+    expect(state().stationRecords[0].labels.fullLabel).toBe('AL020')
+    expect(state().stationRecords[0].attributes).toEqual({ robotCount: 2, line: 'AL' })
+
+    expect(state().toolRecords[0].stationUid).toBe('st_old')
+    expect(state().toolRecords[0].stationUidByPlant).toEqual({ PLANT_A: 'st_old', PLANT_B: 'st_b' })
+    expect(state().robotRecords[0].stationUid).toBe('st_old')
+
+    expect(state().aliasRules).toMatchObject([
+      { fromKey: 'AL_020', toUid: 'st_old', entityType: 'station', plantKey: 'PLANT_A' },
+    ])
+    expect(coreStore.getAuditLog()[0]).toMatchObject({
+      action: 'merge_entities',
+      entityUid: 'st_old',
+      oldValue: 'AL_020',
+    })
+  })
+
+  it('re-targets aliases that pointed at the retired record', () => {
+    coreStore.addAliasRules([createAliasRule('AL_015', 'st_new', 'station', 'Earlier rename')])
+
+    mergeRegistryRecords('station', 'st_old', 'st_new')
+
+    const rule = state().aliasRules.find((r) => r.fromKey === 'AL_015')
+    expect(rule?.toUid).toBe('st_old')
+  })
+
+  it('splits a merge back to the original records', () => {
+    const previous = createAliasRule('AL_015', 'st_new', 'station', 'Earlier rename')
+    coreStore.addAliasRules([previous])
+    const merge = mergeRegistryRecords('station', 'st_old', 'st_new', { labelsFrom: 'retired' })
+    if (!merge.success) throw new Error(merge.errorMessage)
+
+    const split = splitRegistryRecord(merge.entry.id, 'Not the same station')
+
+    expect(split.success).toBe(true)
+    const stations = state().stationRecords
+    expect(stations.find((s) => s.uid === 'st_new')?.key).toBe('AL_020')
+    expect(stations.find((s) => s.uid === 'st_old')?.labels.fullLabel).toBe('AL010')
+    expect(state().toolRecords[0].stationUid).toBe('st_new')
+    expect(state().toolRecords[0].stationUidByPlant?.PLANT_A).toBe('st_new')
+    expect(state().robotRecords[0].stationUid).toBe('st_new')
+    expect(state().aliasRules).toEqual([previous])
+
+    expect(getSplittableMerges()).toHaveLength(0)
+    expect(splitRegistryRecord(merge.entry.id).success).toBe(false)
+  })
+
+  it('rejects merging a record into itself or a missing record', () => {
+    expect(mergeRegistryRecords('station', 'st_old', 'st_old').success).toBe(false)
+    expect(mergeRegistryRecords('robot', 'rb_1', 'rb_missing').success).toBe(false)
+    expect(coreStore.getAuditLog()).toHaveLength(0)
+  })
+})
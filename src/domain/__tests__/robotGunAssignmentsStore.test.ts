@@ -0,0 +1,162 @@
+/**
+ * Tests for robot–weld gun assignments and gun check sign-off
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { coreStore } from '../coreStore'
+import { Robot, Tool, UnifiedAsset } from '../core'
+import {
+  deriveRobotGunAssignments,
+  getAssignmentsByCellId,
+  getGunCheckSnapshots,
+  getGunCheckState,
+  getGunCheckStatusByAssignmentId,
+  getRobotGunAssignmentId,
+  recordGunCheck,
+} from '../robotGunAssignmentsStore'
+import { applySnapshotToState, createSnapshotFromState } from '../storeSnapshot'
+
+const source = { sourceFile: 'test.xlsx', sheetName: 'Sheet1', rowIndex: 0 }
+
+const makeRobot = (partial: Partial<Robot> & { id: string; name: string }): Robot => ({
+  kind: 'ROBOT',
+  sourcing: 'UNKNOWN',
+  metadata: {},
+  toolIds: [],
+  ...source,
+  ...partial,
+})
+
+const makeGun = (partial: Partial<Tool> & { id: string; name: string }): Tool => ({
+  kind: 'GUN',
+  sourcing: 'REUSE',
+  metadata: {},
+  toolType: 'SPOT_WELD',
+  mountType: 'ROBOT_MOUNTED',
+  ...source,
+  ...partial,
+})
+
+const passing = { geometryOk: true, payloadOk: true, forceOk: true, comments: '' }
+
+describe('deriveRobotGunAssignments', () => {
+  it('pairs guns with robots by robot link', () => {
+    const assets: UnifiedAsset[] = [
+      makeRobot({ id: 'r1', name: 'R01', cellId: 'c1', areaId: 'a1', stationNumber: '010' }),
+      makeGun({ id: 'g1', name: 'G01', robotId: 'r1' }),
+    ]
+
+    expect(deriveRobotGunAssignments(assets)).toEqual([
+      {
+        id: getRobotGunAssignmentId('r1', 'g1'),
+        robotId: 'r1',
+        weldGunId: 'g1',
+        areaId: 'a1',
+        cellId: 'c1',
+        stationNumber: '010',
+        fromDate: null,
+        toDate: null,
+        isActive: true,
+      },
+    ])
+  })
+
+  it('matches reuse list application robots by robot number', () => {
+    const assets: UnifiedAsset[] = [
+      makeRobot({ id: 'r1', name: '8Y-020-01', stationNumber: '020' }),
+      makeGun({ id: 'g1', name: 'G01', metadata: { associatedRobot: '8Y 020 01' } }),
+    ]
+
+    expect(deriveRobotGunAssignments(assets).map((a) => a.robotId)).toEqual(['r1'])
+  })
+
+  it('uses the station to pick between robots sharing a number', () => {
+    const assets: UnifiedAsset[] = [
+      makeRobot({ id: 'r1', name: 'R01', stationNumber: '010' }),
+      makeRobot({ id: 'r2', name: 'R01', stationNumber: '020' }),
+      makeGun({ id: 'g1', name: 'G01', stationNumber: '20', metadata: { associatedRobot: 'R01' } }),
+      makeGun({ id: 'g2', name: 'G02', metadata: { associatedRobot: 'R01' } }),
+    ]
+
+    const assignments = deriveRobotGunAssignments(assets)
+
+    expect(assignments).toHaveLength(1)
+    expect(assignments[0]).toMatchObject({ robotId: 'r2', weldGunId: 'g1' })
+  })
+
+  it('marks assignments with an inactive robot or gun as inactive', () => {
+    const assets: UnifiedAsset[] = [
+      makeRobot({ id: 'r1', name: 'R01' }),
+      makeGun({ id: 'g1', name: 'G01', robotId: 'r1', isActive: false }),
+    ]
+
+    expect(deriveRobotGunAssignments(assets)[0].isActive).toBe(false)
+  })
+})
+
+describe('gun checks', () => {
+  const assignmentId = getRobotGunAssignmentId('r1', 'g1')
+
+  const importAssets = () =>
+    coreStore.setData({
+      projects: [],
+      areas: [],
+      cells: [],
+      robots: [makeRobot({ id: 'r1', name: 'R01', cellId: 'c1', stationNumber: '010' })],
+      tools: [makeGun({ id: 'g1', name: 'G01', gunNumber: 'WG-01', robotId: 'r1' })],
+      warnings: [],
+    })
+
+  beforeEach(() => {
+    coreStore.clear()
+    importAssets()
+  })
+
+  it('derives assignments from the store assets', () => {
+    expect(getAssignmentsByCellId('c1').map((a) => a.id)).toEqual([assignmentId])
+  })
+
+  it('moves from not checked through failed to approved', () => {
+    expect(getGunCheckState(getGunCheckStatusByAssignmentId(assignmentId))).toBe('NOT_CHECKED')
+
+    recordGunCheck(assignmentId, { ...passing, payloadOk: false, comments: 'Payload over limit' })
+    expect(getGunCheckState(getGunCheckStatusByAssignmentId(assignmentId))).toBe('FAILED')
+
+    recordGunCheck(assignmentId, passing)
+    expect(getGunCheckState(getGunCheckStatusByAssignmentId(assignmentId))).toBe(
+      'AWAITING_SIGN_OFF',
+    )
+
+    const approved = recordGunCheck(assignmentId, passing, 'u1')
+    expect(approved).toMatchObject({ approvedByUserId: 'u1' })
+    expect(getGunCheckState(approved)).toBe('APPROVED')
+    expect(coreStore.getState().gunChecks).toHaveLength(1)
+  })
+
+  it('refuses to sign off failing checks', () => {
+    expect(() => recordGunCheck(assignmentId, { ...passing, forceOk: false }, 'u1')).toThrow(
+      /signed off/,
+    )
+    expect(getGunCheckStatusByAssignmentId(assignmentId)).toBeUndefined()
+  })
+
+  it('keeps sign-offs across re-imports and snapshot restores', () => {
+    recordGunCheck(assignmentId, passing, 'u1')
+    importAssets()
+
+    const snapshot = createSnapshotFromState(coreStore.getState(), { sourceKind: 'local' })
+    const restored = applySnapshotToState(snapshot)
+
+    expect(restored.gunChecks).toEqual(coreStore.getState().gunChecks)
+    expect(getGunCheckSnapshots()).toEqual([
+      {
+        assignmentId,
+        stationKey: '10',
+        cellId: 'c1',
+        robotKey: 'R01',
+        gunKey: 'WG-01',
+        state: 'APPROVED',
+      },
+    ])
+  })
+})
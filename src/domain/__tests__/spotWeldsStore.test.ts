@@ -0,0 +1,95 @@
+/**
+ * Tests for spot weld distribution per robot and gun
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { coreStore } from '../coreStore'
+import { Robot, Tool, UnifiedAsset } from '../core'
+import { SpotWeldRef } from '../types'
+import { getSpotWeldRefsByCellId, summarizeSpotWelds } from '../spotWeldsStore'
+
+const source = { sourceFile: 'test.xlsx', sheetName: 'Sheet1', rowIndex: 0 }
+
+const robot = (id: string, isActive?: boolean): Robot => ({
+  id,
+  name: id.toUpperCase(),
+  kind: 'ROBOT',
+  sourcing: 'UNKNOWN',
+  metadata: {},
+  toolIds: [],
+  isActive,
+  ...source,
+})
+
+const gun: Tool = {
+  id: 'g1',
+  name: 'G01',
+  gunNumber: 'WG-01',
+  kind: 'GUN',
+  sourcing: 'REUSE',
+  metadata: {},
+  toolType: 'SPOT_WELD',
+  mountType: 'ROBOT_MOUNTED',
+  ...source,
+}
+
+const weld = (
+  weldId: string,
+  robotId: string | null,
+  weldGunId: string | null = null,
+): SpotWeldRef => ({
+  id: `sw:10:${weldId}`,
+  weldId,
+  areaId: 'a1',
+  stationNumber: '010',
+  robotId,
+  weldGunId,
+  cellId: 'c1',
+  notes: '',
+})
+
+describe('summarizeSpotWelds', () => {
+  const assets: UnifiedAsset[] = [robot('r1'), robot('r2', false), gun]
+
+  it('counts welds per robot and gun', () => {
+    const summary = summarizeSpotWelds(
+      [weld('W1', 'r1', 'g1'), weld('W2', 'r1', 'g1'), weld('W3', 'r2')],
+      assets,
+    )
+
+    expect(summary.total).toBe(3)
+    expect(summary.byRobot).toEqual([
+      { assetId: 'r1', name: 'R1', count: 2, isActive: true },
+      { assetId: 'r2', name: 'R2', count: 1, isActive: false },
+    ])
+    expect(summary.byGun).toEqual([{ assetId: 'g1', name: 'WG-01', count: 2, isActive: true }])
+  })
+
+  it('flags unassigned welds and welds on inactive or missing robots', () => {
+    const summary = summarizeSpotWelds(
+      [weld('W1', null), weld('W2', 'r2'), weld('W3', 'gone'), weld('W4', 'r1')],
+      assets,
+    )
+
+    expect(summary.unassigned.map((w) => w.weldId)).toEqual(['W1'])
+    expect(summary.onInactiveRobots.map((w) => w.weldId)).toEqual(['W2', 'W3'])
+  })
+})
+
+describe('spot weld store', () => {
+  beforeEach(() => coreStore.clear())
+
+  it('keeps imported welds across workbook reloads', () => {
+    coreStore.upsertSpotWeldRefs([weld('W1', 'r1'), weld('W1', 'r2')])
+    coreStore.setData({
+      projects: [],
+      areas: [],
+      cells: [],
+      robots: [],
+      tools: [],
+      warnings: [],
+    })
+
+    expect(getSpotWeldRefsByCellId('c1').map((w) => w.robotId)).toEqual(['r2'])
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import { createSnapshotFromState, applySnapshotToState, StoreSnapshot } from '../storeSnapshot'
-import { ImportRun } from '../uidTypes'
+import { ContextMappingRule, ImportRun } from '../uidTypes'
+import { createDefaultContextMappingRules } from '../contextMapping'
 
 describe('storeSnapshot - ImportRun persistence', () => {
   it('should persist ImportRun with modelKey', () => {
@@ -37,7 +38,17 @@ describe('storeSnapshot - ImportRun persistence', () => {
       aliasRules: [],
       importRuns: [mockImportRun],
       diffResults: [],
-      auditLog: []
+      auditLog: [],
+      checklistTemplates: [],
+      checklistItemTemplates: [],
+      checklists: [],
+      checklistItems: [],
+      crossRefRules: { rules: [], projectOverrides: {} },
+      flagWaivers: [],
+      studyLinks: [],
+      contextMappingRules: [],
+      gunChecks: [],
+      spotWeldRefs: []
     }
 
     const snapshot = createSnapshotFromState(state, { sourceKind: 'local' })
@@ -82,7 +93,17 @@ describe('storeSnapshot - ImportRun persistence', () => {
       aliasRules: [],
       importRuns: [mockImportRun],
       diffResults: [],
-      auditLog: []
+      auditLog: [],
+      checklistTemplates: [],
+      checklistItemTemplates: [],
+      checklists: [],
+      checklistItems: [],
+      crossRefRules: { rules: [], projectOverrides: {} },
+      flagWaivers: [],
+      studyLinks: [],
+      contextMappingRules: [],
+      gunChecks: [],
+      spotWeldRefs: []
     }
 
     const snapshot = createSnapshotFromState(state, { sourceKind: 'local' })
@@ -265,7 +286,17 @@ describe('storeSnapshot - ImportRun persistence', () => {
       aliasRules: [],
       importRuns: [originalImportRun],
       diffResults: [],
-      auditLog: []
+      auditLog: [],
+      checklistTemplates: [],
+      checklistItemTemplates: [],
+      checklists: [],
+      checklistItems: [],
+      crossRefRules: { rules: [], projectOverrides: {} },
+      flagWaivers: [],
+      studyLinks: [],
+      contextMappingRules: [],
+      gunChecks: [],
+      spotWeldRefs: []
     }
 
     // Create snapshot
@@ -291,3 +322,43 @@ describe('storeSnapshot - ImportRun persistence', () => {
     })
   })
 })
+
+describe('storeSnapshot - context mapping registry', () => {
+  const legacySnapshot: StoreSnapshot = {
+    meta: { lastSavedAt: '2026-01-07T12:00:00Z', sourceKind: 'local', schemaVersion: 9 },
+    projects: [],
+    areas: [],
+    cells: [],
+    assets: [],
+    warnings: [],
+    changeLog: []
+  }
+
+  it('seeds the default mapping rules when restoring a pre-v10 snapshot', () => {
+    const restored = applySnapshotToState(legacySnapshot)
+
+    expect(restored.contextMappingRules).toEqual(createDefaultContextMappingRules())
+  })
+
+  it('round-trips edited mapping rules', () => {
+    const rules: ContextMappingRule[] = [
+      { ...createDefaultContextMappingRules()[0], enabled: false },
+      {
+        id: 'plant-zar',
+        kind: 'plant',
+        matchType: 'literal',
+        pattern: 'ZAR_',
+        value: 'ZAR',
+        priority: 10,
+        enabled: true,
+        updatedAt: '2026-02-01T00:00:00Z'
+      }
+    ]
+    const state = { ...applySnapshotToState(legacySnapshot), contextMappingRules: rules }
+
+    const snapshot = createSnapshotFromState(state, { sourceKind: 'local' })
+
+    expect(snapshot.meta.schemaVersion).toBe(12)
+    expect(applySnapshotToState(snapshot).contextMappingRules).toEqual(rules)
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { coreStore } from '../coreStore'
+import {
+  declareToolCarryOver,
+  findToolReuseCandidates,
+  getMultiPlantTools,
+  getToolPlantHistory,
+} from '../toolCarryOver'
+import { splitRegistryRecord } from '../registryMerge'
+import { resolveToolUid } from '../../ingestion/uidResolver'
+import { StationRecord, ToolRecord } from '../uidTypes'
+
+const base = {
+  status: 'active' as const,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  attributes: {},
+}
+
+const stations: StationRecord[] = [
+  { ...base, uid: 'st_a', key: 'AL_010', plantKey: 'PLANT_A', labels: {} },
+  { ...base, uid: 'st_b', key: 'BN_020', plantKey: 'PLANT_B', labels: {} },
+]
+
+const gunA: ToolRecord = {
+  ...base,
+  uid: 'tl_a',
+  key: 'GUN_10',
+  plantKey: 'PLANT_A',
+  stationUid: 'st_a',
+  labels: { toolCode: 'GJR 10', gunNumber: 'GUN 10' },
+}
+
+const gunB: ToolRecord = {
+  ...base,
+  uid: 'tl_b',
+  key: 'GUN_10',
+  plantKey: 'PLANT_B',
+  stationUid: 'st_b',
+  labels: { toolCode: 'GJR 10', toolName: 'Spot gun' },
+}
+
+const gripperB: ToolRecord = {
+  ...base,
+  uid: 'tl_grip',
+  key: 'GRIP_01',
+  plantKey: 'PLANT_B',
+  labels: { toolCode: 'GRIP 01' },
+}
+
+const tools = () => coreStore.getState().toolRecords
+
+describe('toolCarryOver', () => {
+  beforeEach(() => {
+    coreStore.clear()
+    coreStore.upsertStationRecords(stations)
+    coreStore.upsertToolRecords([gunA, gunB, gripperB])
+  })
+
+  it('lists reuse candidates between plants', () => {
+    const candidates = findToolReuseCandidates('PLANT_A', 'PLANT_B', tools())
+
+    expect(candidates).toHaveLength(1)
+    expect(candidates[0]).toMatchObject({
+      targetTool: { uid: 'tl_b' },
+      sourceTool: { uid: 'tl_a' },
+      matchScore: 50,
+    })
+    expect(findToolReuseCandidates('PLANT_A', 'PLANT_A', tools())).toEqual([])
+  })
+
+  it('declares a carry-over, keeping per-plant labels and a global alias', () => {
+    const result = declareToolCarryOver('tl_a', 'tl_b')
+    expect(result.success).toBe(true)
+
+    expect(tools().map((t) => t.uid)).toEqual(['tl_a', 'tl_grip'])
+    const gun = tools().find((t) => t.uid === 'tl_a')!
+    expect(gun.stationUidByPlant).toEqual({ PLANT_A: 'st_a', PLANT_B: 'st_b' })
+    expect(getMultiPlantTools(tools()).map((t) => t.uid)).toEqual(['tl_a'])
+
+    const history = getToolPlantHistory(gun, stations)
+    expect(history.map((h) => [h.plantKey, h.stationKey, h.isHomePlant])).toEqual([
+      ['PLANT_A', 'AL_010', true],
+      ['PLANT_B', 'BN_020', false],
+    ])
+    expect(history[1].labels.toolName).toBe('Spot gun')
+
+    const [rule] = coreStore.getState().aliasRules
+    expect(rule).toMatchObject({ fromKey: 'GUN_10', toUid: 'tl_a', isGlobal: true })
+
+    // The next PLANT_B import resolves the gun to the carried-over UID
+    const resolution = resolveToolUid(
+      'GUN_10',
+      gunB.labels,
+      'st_b',
+      {},
+      { ...coreStore.getState(), plantKey: 'PLANT_C' },
+      { sourceFile: 'tools.xlsx' },
+    )
+    expect(resolution.uid).toBe('tl_a')
+
+    // Already carried over, so no longer a candidate
+    expect(findToolReuseCandidates('PLANT_A', 'PLANT_B', tools())).toEqual([])
+  })
+
+  it('can be split back like any other merge', () => {
+    const result = declareToolCarryOver('tl_a', 'tl_b')
+    if (!result.success) throw new Error(result.errorMessage)
+
+    expect(splitRegistryRecord(result.entry.id).success).toBe(true)
+    expect(tools().find((t) => t.uid === 'tl_a')?.stationUidByPlant).toBeUndefined()
+    expect(tools().find((t) => t.uid === 'tl_b')?.plantKey).toBe('PLANT_B')
+  })
+
+  it('rejects carry-over within a single plant', () => {
+    const result = declareToolCarryOver('tl_b', 'tl_grip')
+    expect(result.success).toBe(false)
+  })
+})
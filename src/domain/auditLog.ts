@@ -2,6 +2,7 @@
 // Tracks all registry changes with timestamp, user, action, and reason
 
 import { EntityUid, EntityType } from './uidTypes'
+import type { ChecklistItemStatus } from './types'
 
 // ============================================================================
 // AUDIT ENTRY TYPES
@@ -11,10 +12,20 @@ export type AuditAction =
   | 'activate'
   | 'deactivate'
   | 'add_alias'
+  | 'remove_alias'
   | 'override_label'
   | 'update_attributes'
   | 'create_entity'
   | 'delete_entity'
+  | 'merge_entities'
+  | 'split_entity'
+  | 'update_checklist_item'
+
+/**
+ * Entities that can appear in the audit log.
+ * Registry entities plus user-maintained records such as checklist items.
+ */
+export type AuditEntityType = EntityType | 'checklist_item'
 
 /**
  * AuditEntry: Single record of a registry change
@@ -23,7 +34,7 @@ export interface AuditEntry {
   id: string // Unique ID
   timestamp: string // ISO timestamp
   user?: string // User ID/email if available
-  entityType: EntityType
+  entityType: AuditEntityType
   entityUid: EntityUid
   entityKey: string // Canonical key at time of action (for readability)
   action: AuditAction
@@ -217,12 +228,37 @@ export function createEntityDeletionAuditEntry(
   }
 }
 
+/**
+ * Create an audit entry for a checklist item status change
+ */
+export function createChecklistItemStatusAuditEntry(
+  itemId: string,
+  itemLabel: string,
+  oldStatus: ChecklistItemStatus,
+  newStatus: ChecklistItemStatus,
+  context: { checklistId: string; cellId: string },
+  user?: string,
+): AuditEntry {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    user,
+    entityType: 'checklist_item',
+    entityUid: itemId,
+    entityKey: itemLabel,
+    action: 'update_checklist_item',
+    oldValue: oldStatus,
+    newValue: newStatus,
+    metadata: { checklistId: context.checklistId, cellId: context.cellId },
+  }
+}
+
 // ============================================================================
 // AUDIT LOG FILTERING
 // ============================================================================
 
 export interface AuditLogFilter {
-  entityType?: EntityType
+  entityType?: AuditEntityType
   entityUid?: EntityUid
   action?: AuditAction
   user?: string
@@ -278,6 +314,9 @@ export function formatAuditEntry(entry: AuditEntry): string {
     case 'add_alias':
       return `Added alias ${entry.newValue} → ${entry.entityKey}${user}${reason}`
 
+    case 'remove_alias':
+      return `Removed alias ${entry.oldValue} → ${entry.entityKey}${user}${reason}`
+
     case 'override_label':
       return `Changed ${entry.metadata?.field || 'label'} from "${entry.oldValue}" to "${entry.newValue}"${user}${reason}`
 
@@ -292,6 +331,15 @@ export function formatAuditEntry(entry: AuditEntry): string {
     case 'delete_entity':
       return `Deleted ${entry.entityType} ${entry.entityKey}${user}${reason}`
 
+    case 'merge_entities':
+      return `Merged ${entry.entityType} ${entry.oldValue} into ${entry.entityKey}${user}${reason}`
+
+    case 'split_entity':
+      return `Split ${entry.entityType} ${entry.newValue} back out of ${entry.entityKey}${user}${reason}`
+
+    case 'update_checklist_item':
+      return `Checklist item ${entry.entityKey}: ${entry.oldValue} → ${entry.newValue}${user}${reason}`
+
     default:
       return `${entry.action} on ${entry.entityKey}${user}${reason}`
   }
@@ -1,4 +1,21 @@
-export type ChangeKind = 'cellEngineerAssignment'
+import type { CellStatus } from './core'
+
+export type ChangeKind =
+    | 'cellEngineerAssignment'
+    | 'note'
+    | 'statusChange'
+    | 'scheduleMove'
+    | 'equipmentSwap'
+    | 'studyPathUpdate'
+
+export const CHANGE_KIND_LABELS: Record<ChangeKind, string> = {
+    cellEngineerAssignment: 'Engineer Assignment',
+    note: 'Note',
+    statusChange: 'Status Change',
+    scheduleMove: 'Schedule Move',
+    equipmentSwap: 'Equipment Swap',
+    studyPathUpdate: 'Study Path Update'
+}
 
 export interface BaseChange {
     id: string
@@ -6,23 +23,73 @@ export interface BaseChange {
     createdAt: string
     createdBy?: string
     sourceSessionId?: string
+    // Every change is scoped to a cell (station row)
+    cellId: string
+    projectId?: string
+    areaId?: string
 }
 
 export interface CellEngineerAssignmentChange extends BaseChange {
     kind: 'cellEngineerAssignment'
-    cellId: string
     previousEngineer?: string
     newEngineer?: string
-    projectId?: string
-    areaId?: string
 }
 
-export type ChangeRecord = CellEngineerAssignmentChange
+export interface NoteChange extends BaseChange {
+    kind: 'note'
+    text: string
+}
+
+export interface CellStatusChange extends BaseChange {
+    kind: 'statusChange'
+    previousStatus?: CellStatus
+    newStatus: CellStatus
+}
+
+export type ScheduleField = 'plannedStart' | 'plannedFinish' | 'dueDate'
+
+export interface ScheduleMoveChange extends BaseChange {
+    kind: 'scheduleMove'
+    field: ScheduleField
+    previousDate?: string
+    newDate?: string
+}
+
+export interface EquipmentSwapChange extends BaseChange {
+    kind: 'equipmentSwap'
+    previousAssetId?: string
+    previousAssetName?: string
+    newAssetId?: string
+    newAssetName?: string
+}
+
+export interface StudyPathUpdateChange extends BaseChange {
+    kind: 'studyPathUpdate'
+    previousPath?: string
+    newPath?: string
+}
+
+export type ChangeRecord =
+    | CellEngineerAssignmentChange
+    | NoteChange
+    | CellStatusChange
+    | ScheduleMoveChange
+    | EquipmentSwapChange
+    | StudyPathUpdateChange
 
 export interface ChangeLogState {
     changes: ChangeRecord[]
 }
 
+/**
+ * Optional context shared by all change factories
+ */
+export interface ChangeContext {
+    projectId?: string
+    areaId?: string
+    createdBy?: string
+}
+
 /**
  * Generate a unique ID for a change record
  */
@@ -30,6 +97,15 @@ export function generateChangeId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2, 5)
 }
 
+function baseChange(cellId: string, context: ChangeContext = {}) {
+    return {
+        id: generateChangeId(),
+        createdAt: new Date().toISOString(),
+        cellId,
+        ...context
+    }
+}
+
 /**
  * Create a new cell engineer assignment change record
  */
@@ -41,14 +117,97 @@ export function createCellEngineerAssignmentChange(
     areaId?: string
 ): CellEngineerAssignmentChange {
     return {
-        id: generateChangeId(),
+        ...baseChange(cellId, { projectId, areaId }),
         kind: 'cellEngineerAssignment',
-        createdAt: new Date().toISOString(),
-        cellId,
         previousEngineer,
-        newEngineer,
-        projectId,
-        areaId
+        newEngineer
+    }
+}
+
+/**
+ * Create a free-text note against a cell
+ */
+export function createNoteChange(cellId: string, text: string, context?: ChangeContext): NoteChange {
+    return { ...baseChange(cellId, context), kind: 'note', text }
+}
+
+/**
+ * Create a cell status change record
+ */
+export function createCellStatusChange(
+    cellId: string,
+    previousStatus: CellStatus | undefined,
+    newStatus: CellStatus,
+    context?: ChangeContext
+): CellStatusChange {
+    return { ...baseChange(cellId, context), kind: 'statusChange', previousStatus, newStatus }
+}
+
+/**
+ * Create a schedule move record (one date field per record)
+ */
+export function createScheduleMoveChange(
+    cellId: string,
+    field: ScheduleField,
+    previousDate: string | undefined,
+    newDate: string | undefined,
+    context?: ChangeContext
+): ScheduleMoveChange {
+    return { ...baseChange(cellId, context), kind: 'scheduleMove', field, previousDate, newDate }
+}
+
+/**
+ * Create an equipment swap record (e.g. gun or robot replaced at a station)
+ */
+export function createEquipmentSwapChange(
+    cellId: string,
+    previous: { id?: string; name?: string },
+    next: { id?: string; name?: string },
+    context?: ChangeContext
+): EquipmentSwapChange {
+    return {
+        ...baseChange(cellId, context),
+        kind: 'equipmentSwap',
+        previousAssetId: previous.id,
+        previousAssetName: previous.name,
+        newAssetId: next.id,
+        newAssetName: next.name
+    }
+}
+
+/**
+ * Create a study path update record
+ */
+export function createStudyPathUpdateChange(
+    cellId: string,
+    previousPath: string | undefined,
+    newPath: string | undefined,
+    context?: ChangeContext
+): StudyPathUpdateChange {
+    return { ...baseChange(cellId, context), kind: 'studyPathUpdate', previousPath, newPath }
+}
+
+/**
+ * Get the before/after values of a change as display strings.
+ * Notes have no previous value; the note text is the new value.
+ */
+export function getChangeValues(change: ChangeRecord): { previous: string; next: string } {
+    switch (change.kind) {
+        case 'cellEngineerAssignment':
+            return { previous: change.previousEngineer || '', next: change.newEngineer || '' }
+        case 'note':
+            return { previous: '', next: change.text }
+        case 'statusChange':
+            return { previous: change.previousStatus || '', next: change.newStatus }
+        case 'scheduleMove':
+            return { previous: change.previousDate || '', next: change.newDate || '' }
+        case 'equipmentSwap':
+            return {
+                previous: change.previousAssetName || change.previousAssetId || '',
+                next: change.newAssetName || change.newAssetId || ''
+            }
+        case 'studyPathUpdate':
+            return { previous: change.previousPath || '', next: change.newPath || '' }
     }
 }
 
@@ -56,10 +215,65 @@ export function createCellEngineerAssignmentChange(
  * Generate a human-readable summary of a change
  */
 export function summarizeChange(change: ChangeRecord): string {
+    const { previous, next } = getChangeValues(change)
+
+    switch (change.kind) {
+        case 'cellEngineerAssignment':
+            return `Cell ${change.cellId}: engineer ${previous || 'Unassigned'} -> ${next || 'Unassigned'}`
+        case 'note':
+            return `Cell ${change.cellId}: ${change.text}`
+        case 'statusChange':
+            return `Cell ${change.cellId}: status ${previous || 'Unknown'} -> ${next}`
+        case 'scheduleMove':
+            return `Cell ${change.cellId}: ${change.field} ${previous || 'unset'} -> ${next || 'unset'}`
+        case 'equipmentSwap':
+            return `Cell ${change.cellId}: equipment ${previous || 'none'} -> ${next || 'none'}`
+        case 'studyPathUpdate':
+            return `Cell ${change.cellId}: study path ${previous || 'unset'} -> ${next || 'unset'}`
+        default:
+            return 'Unknown change'
+    }
+}
+
+// ============================================================================
+// FILTERING
+// ============================================================================
+
+export interface ChangeLogFilter {
+    cellId?: string
+    engineer?: string
+    kind?: ChangeKind
+    fromDate?: string // ISO date or timestamp, inclusive
+    toDate?: string   // ISO date or timestamp, inclusive
+}
+
+/**
+ * Engineers involved in a change: the author plus any engineer it assigns or unassigns
+ */
+export function getChangeEngineers(change: ChangeRecord): string[] {
+    const engineers = [change.createdBy]
     if (change.kind === 'cellEngineerAssignment') {
-        const prev = change.previousEngineer || 'Unassigned'
-        const next = change.newEngineer || 'Unassigned'
-        return `Cell ${change.cellId}: engineer ${prev} -> ${next}`
+        engineers.push(change.previousEngineer, change.newEngineer)
     }
-    return 'Unknown change'
+    return engineers.filter((e): e is string => Boolean(e))
+}
+
+/**
+ * Filter change records by cell, engineer, kind and date range
+ */
+export function filterChanges(changes: ChangeRecord[], filter: ChangeLogFilter): ChangeRecord[] {
+    const engineer = filter.engineer?.trim().toLowerCase()
+    // A bare date (YYYY-MM-DD) as upper bound should include the whole day
+    const toDate = filter.toDate && filter.toDate.length === 10 ? `${filter.toDate}T23:59:59.999Z` : filter.toDate
+
+    return changes.filter(change => {
+        if (filter.cellId && change.cellId !== filter.cellId) return false
+        if (filter.kind && change.kind !== filter.kind) return false
+        if (filter.fromDate && change.createdAt < filter.fromDate) return false
+        if (toDate && change.createdAt > toDate) return false
+        if (engineer && !getChangeEngineers(change).some(e => e.toLowerCase().includes(engineer))) {
+            return false
+        }
+        return true
+    })
 }
@@ -1,28 +1,156 @@
-import { ChangeLogEntry } from './types'
-import { changeLogEntries } from './mockData'
+import {
+    ChangeContext,
+    ChangeRecord,
+    CellStatusChange,
+    EquipmentSwapChange,
+    NoteChange,
+    ScheduleField,
+    ScheduleMoveChange,
+    StudyPathUpdateChange,
+    createCellStatusChange,
+    createEquipmentSwapChange,
+    createNoteChange,
+    createScheduleMoveChange,
+    createStudyPathUpdateChange
+} from './changeLog'
+import { Cell, CellStatus } from './core'
+import { coreStore } from './coreStore'
 
-export function getChangeLogByCellId(cellId: string): ChangeLogEntry[] {
+export function getChangeLogByCellId(cellId: string): ChangeRecord[] {
     if (!cellId) return []
-    return changeLogEntries
+    return coreStore.getState().changeLog
         .filter(e => e.cellId === cellId)
         .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
 }
 
+function getChangeContext(cell: Cell | undefined, userId?: string): ChangeContext {
+    return { createdBy: userId, projectId: cell?.projectId, areaId: cell?.areaId }
+}
+
+function findCell(cellId: string): Cell | undefined {
+    return coreStore.getState().cells.find(c => c.id === cellId)
+}
+
 export function addChangeLogEntry(params: {
     cellId: string;
     userId: string;
     text: string
-}): ChangeLogEntry | undefined {
+}): NoteChange | undefined {
     if (!params.cellId || !params.userId || !params.text) return
 
-    const newEntry: ChangeLogEntry = {
-        id: `le-${Date.now()}`,
-        cellId: params.cellId,
-        userId: params.userId,
-        createdAt: new Date().toISOString(),
-        text: params.text
-    }
+    const newEntry = createNoteChange(
+        params.cellId,
+        params.text,
+        getChangeContext(findCell(params.cellId), params.userId)
+    )
 
-    changeLogEntries.push(newEntry)
+    coreStore.addChange(newEntry)
     return newEntry
 }
+
+/**
+ * Current value of a schedule date, as edited through moveCellSchedule
+ */
+export function getCellScheduleDate(cell: Cell, field: ScheduleField): string | undefined {
+    switch (field) {
+        case 'plannedStart':
+            return cell.schedule?.plannedStart ?? cell.plannedStart
+        case 'plannedFinish':
+            return cell.schedule?.plannedEnd ?? cell.plannedFinish
+        case 'dueDate':
+            return cell.schedule?.dueDate
+    }
+}
+
+/**
+ * Set a cell's status and record the change. Does nothing when the status is unchanged.
+ */
+export function changeCellStatus(
+    cellId: string,
+    newStatus: CellStatus,
+    userId?: string
+): CellStatusChange | undefined {
+    const cell = findCell(cellId)
+    if (!cell || cell.status === newStatus) return
+
+    const context = getChangeContext(cell, userId)
+    const change = createCellStatusChange(cellId, cell.status, newStatus, context)
+    coreStore.addChange(change)
+    coreStore.updateCellStatus(cellId, newStatus)
+    return change
+}
+
+/**
+ * Move one schedule date of a cell and record the move. Does nothing when the date is unchanged.
+ */
+export function moveCellSchedule(
+    cellId: string,
+    field: ScheduleField,
+    newDate: string | undefined,
+    userId?: string
+): ScheduleMoveChange | undefined {
+    const cell = findCell(cellId)
+    const date = newDate || undefined
+    if (!cell || getCellScheduleDate(cell, field) === date) return
+
+    const change = createScheduleMoveChange(
+        cellId,
+        field,
+        getCellScheduleDate(cell, field),
+        date,
+        getChangeContext(cell, userId)
+    )
+    coreStore.addChange(change)
+    coreStore.updateCellSchedule(cellId, field, date)
+    return change
+}
+
+/**
+ * Replace a piece of equipment at a cell and record the swap. The previous asset is
+ * detached from the cell; either side may be missing to record an addition or removal.
+ */
+export function swapCellEquipment(
+    cellId: string,
+    previousAssetId: string | undefined,
+    newAssetId: string | undefined,
+    userId?: string
+): EquipmentSwapChange | undefined {
+    const cell = findCell(cellId)
+    if (!cell || previousAssetId === newAssetId) return
+
+    const { assets } = coreStore.getState()
+    const previous = assets.find(a => a.id === previousAssetId)
+    const next = assets.find(a => a.id === newAssetId)
+    if ((previousAssetId && !previous) || (newAssetId && !next)) return
+
+    const change = createEquipmentSwapChange(
+        cellId,
+        { id: previous?.id, name: previous?.name },
+        { id: next?.id, name: next?.name },
+        getChangeContext(cell, userId)
+    )
+    coreStore.addChange(change)
+    if (previous) coreStore.updateAssetCell(previous.id, null)
+    if (next) coreStore.updateAssetCell(next.id, cellId)
+    return change
+}
+
+/**
+ * Record that a cell's study now lives at a new path. The previous path is the
+ * cell's latest confirmed study link, or its simulation row's study path.
+ */
+export function recordStudyPathUpdate(
+    cellId: string,
+    newPath: string,
+    userId?: string
+): StudyPathUpdateChange | undefined {
+    const cell = findCell(cellId)
+    const links = coreStore.getState().studyLinks.filter(l => l.cellId === cellId)
+    const previousPath = links[links.length - 1]?.studyPath ?? cell?.simulation?.studyPath
+    if (previousPath === newPath) return
+
+    const context = getChangeContext(cell, userId)
+    const change = createStudyPathUpdateChange(cellId, previousPath, newPath, context)
+    coreStore.addChange(change)
+    return change
+}
@@ -0,0 +1,227 @@
+import {
+  Checklist,
+  ChecklistItem,
+  ChecklistItemTemplate,
+  ChecklistPhase,
+  ChecklistTemplate,
+} from './types'
+import { coreStore } from './coreStore'
+import { deriveChecklistStatus } from './checklistsStore'
+
+/**
+ * Editable shape of a template, used by the template editor.
+ * Items keep their itemKey across versions; new items get a fresh key.
+ */
+export interface ChecklistTemplateDraft {
+  name: string
+  description: string
+  phase: ChecklistPhase
+  customer?: string
+  items: Array<{ itemKey?: string; label: string; isMandatory: boolean }>
+}
+
+export interface ChecklistMigrationResult {
+  checklist: Checklist
+  carriedOver: number
+  added: number
+  kept: number
+  removed: number
+}
+
+/**
+ * Latest version of every template family.
+ * Deactivated families are included so the editor can re-activate them.
+ */
+export function getLatestChecklistTemplates(): ChecklistTemplate[] {
+  const latestByFamily = new Map<string, ChecklistTemplate>()
+  for (const template of coreStore.getState().checklistTemplates) {
+    const current = latestByFamily.get(template.familyId)
+    if (!current || template.version > current.version) {
+      latestByFamily.set(template.familyId, template)
+    }
+  }
+  return Array.from(latestByFamily.values())
+}
+
+export function getLatestChecklistTemplate(familyId: string): ChecklistTemplate | undefined {
+  return getLatestChecklistTemplates().find((t) => t.familyId === familyId)
+}
+
+export function getChecklistTemplateVersions(familyId: string): ChecklistTemplate[] {
+  return coreStore
+    .getState()
+    .checklistTemplates.filter((t) => t.familyId === familyId)
+    .sort((a, b) => b.version - a.version)
+}
+
+export function getItemTemplatesForTemplate(templateId: string): ChecklistItemTemplate[] {
+  return coreStore
+    .getState()
+    .checklistItemTemplates.filter((it) => it.templateId === templateId)
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+}
+
+function buildTemplateVersion(
+  familyId: string,
+  version: number,
+  draft: ChecklistTemplateDraft,
+): { template: ChecklistTemplate; items: ChecklistItemTemplate[] } {
+  const template: ChecklistTemplate = {
+    id: `tpl-${crypto.randomUUID()}`,
+    familyId,
+    version,
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    phase: draft.phase,
+    customer: draft.customer?.trim() || undefined,
+    isActive: true,
+    createdAt: new Date().toISOString(),
+  }
+
+  const items: ChecklistItemTemplate[] = draft.items
+    .filter((item) => item.label.trim())
+    .map((item, index) => ({
+      id: `it-${crypto.randomUUID()}`,
+      templateId: template.id,
+      itemKey: item.itemKey || `key-${crypto.randomUUID()}`,
+      label: item.label.trim(),
+      isMandatory: item.isMandatory,
+      sortOrder: (index + 1) * 10,
+    }))
+
+  return { template, items }
+}
+
+/**
+ * Create a brand new template family (version 1)
+ */
+export function createChecklistTemplate(
+  draft: ChecklistTemplateDraft,
+): ChecklistTemplate | undefined {
+  if (!draft.name.trim()) return
+
+  const { template, items } = buildTemplateVersion(`tf-${crypto.randomUUID()}`, 1, draft)
+  coreStore.upsertChecklistTemplates([template], items)
+  return template
+}
+
+/**
+ * Save an edit as a new version of an existing family.
+ * Older versions are kept (inactive) so existing checklists stay pinned to them.
+ */
+export function saveChecklistTemplateVersion(
+  familyId: string,
+  draft: ChecklistTemplateDraft,
+): ChecklistTemplate | undefined {
+  if (!draft.name.trim()) return
+
+  const versions = getChecklistTemplateVersions(familyId)
+  const latest = versions[0]
+  if (!latest) return
+
+  const { template, items } = buildTemplateVersion(familyId, latest.version + 1, draft)
+  template.isActive = latest.isActive
+
+  const superseded = versions.filter((v) => v.isActive).map((v) => ({ ...v, isActive: false }))
+  coreStore.upsertChecklistTemplates([...superseded, template], items)
+  return template
+}
+
+/**
+ * Activate or deactivate a template family (only its latest version is ever active)
+ */
+export function setChecklistTemplateActive(familyId: string, isActive: boolean): void {
+  const latest = getLatestChecklistTemplate(familyId)
+  if (!latest || latest.isActive === isActive) return
+
+  coreStore.upsertChecklistTemplates([{ ...latest, isActive }])
+}
+
+/**
+ * True when a newer version of the checklist's template family exists
+ */
+export function isChecklistTemplateOutdated(checklist: Checklist): boolean {
+  const pinned = coreStore.getState().checklistTemplates.find((t) => t.id === checklist.templateId)
+  if (!pinned) return false
+
+  const latest = getLatestChecklistTemplate(pinned.familyId)
+  return !!latest && latest.version > pinned.version
+}
+
+/**
+ * Move a checklist onto the latest version of its template.
+ * - Items whose itemKey still exists are carried over with their status and comment
+ * - Items new in the latest version are added as PENDING
+ * - Items dropped from the template are kept if answered, removed otherwise
+ */
+export function migrateChecklistToLatestTemplate(
+  checklistId: string,
+): ChecklistMigrationResult | undefined {
+  const state = coreStore.getState()
+  const checklist = state.checklists.find((c) => c.id === checklistId)
+  if (!checklist) return
+
+  const pinned = state.checklistTemplates.find((t) => t.id === checklist.templateId)
+  if (!pinned) return
+
+  const latest = getLatestChecklistTemplate(pinned.familyId)
+  if (!latest || latest.id === pinned.id) return
+
+  const itemTemplatesById = new Map(state.checklistItemTemplates.map((it) => [it.id, it]))
+  const existingItems = state.checklistItems.filter((i) => i.checklistId === checklist.id)
+  const existingByKey = new Map(
+    existingItems.map((i) => [
+      itemTemplatesById.get(i.templateItemId)?.itemKey ?? i.templateItemId,
+      i,
+    ]),
+  )
+
+  const now = new Date().toISOString()
+  const nextItems: ChecklistItem[] = []
+  let carriedOver = 0
+  let added = 0
+
+  for (const itemTemplate of getItemTemplatesForTemplate(latest.id)) {
+    const existing = existingByKey.get(itemTemplate.itemKey)
+    if (existing) {
+      existingByKey.delete(itemTemplate.itemKey)
+      nextItems.push({ ...existing, templateItemId: itemTemplate.id })
+      carriedOver++
+    } else {
+      nextItems.push({
+        id: `ci-${crypto.randomUUID()}`,
+        checklistId: checklist.id,
+        templateItemId: itemTemplate.id,
+        status: 'PENDING',
+        comment: '',
+        updatedAt: now,
+      })
+      added++
+    }
+  }
+
+  // Whatever is left was dropped from the template
+  const leftovers = Array.from(existingByKey.values())
+  const keptItems = leftovers.filter((i) => i.status !== 'PENDING' || i.comment.trim() !== '')
+  const removedIds = leftovers.filter((i) => !keptItems.includes(i)).map((i) => i.id)
+
+  const migrated: Checklist = {
+    ...checklist,
+    templateId: latest.id,
+    templateVersion: latest.version,
+    status: deriveChecklistStatus(checklist.status, [...nextItems, ...keptItems]),
+    updatedAt: now,
+  }
+
+  if (removedIds.length > 0) coreStore.removeChecklistItems(removedIds)
+  coreStore.upsertChecklistItems(nextItems)
+  coreStore.upsertChecklists([migrated])
+
+  return {
+    checklist: migrated,
+    carriedOver,
+    added,
+    kept: keptItems.length,
+    removed: removedIds.length,
+  }
+}
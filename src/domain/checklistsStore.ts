@@ -1,27 +1,42 @@
 import {
-    Checklist, ChecklistItem, ChecklistItemStatus, ChecklistPhase, ChecklistTemplate
+    Checklist, ChecklistItem, ChecklistItemStatus, ChecklistItemTemplate, ChecklistPhase,
+    ChecklistStatus, ChecklistTemplate
 } from './types'
-import {
-    checklistItems, checklists, checklistTemplates, checklistItemTemplates
-} from './mockData'
+import { coreStore } from './coreStore'
+import { createChecklistItemStatusAuditEntry } from './auditLog'
 
 export function getChecklistTemplates(): ChecklistTemplate[] {
-    return checklistTemplates
+    return coreStore.getState().checklistTemplates
 }
 
-export function getChecklistTemplatesByPhase(phase: ChecklistPhase): ChecklistTemplate[] {
+/**
+ * Active templates for a phase. When a customer is given, customer-specific templates
+ * for other customers are excluded; templates without a customer apply to everyone.
+ */
+export function getChecklistTemplatesByPhase(phase: ChecklistPhase, customer?: string): ChecklistTemplate[] {
     if (!phase) return []
-    return checklistTemplates.filter(t => t.phase === phase && t.isActive)
+    return getChecklistTemplates().filter(t =>
+        t.phase === phase && t.isActive && isTemplateForCustomer(t, customer)
+    )
+}
+
+export function isTemplateForCustomer(template: ChecklistTemplate, customer?: string): boolean {
+    if (!template.customer || !customer) return true
+    return template.customer.toUpperCase() === customer.toUpperCase()
+}
+
+export function getChecklistItemTemplates(): ChecklistItemTemplate[] {
+    return coreStore.getState().checklistItemTemplates
 }
 
 export function getChecklistsByCellId(cellId: string): Checklist[] {
     if (!cellId) return []
-    return checklists.filter(c => c.cellId === cellId)
+    return coreStore.getState().checklists.filter(c => c.cellId === cellId)
 }
 
 export function getChecklistItemsByChecklistId(checklistId: string): ChecklistItem[] {
     if (!checklistId) return []
-    return checklistItems.filter(i => i.checklistId === checklistId)
+    return coreStore.getState().checklistItems.filter(i => i.checklistId === checklistId)
 }
 
 export function createChecklistFromTemplate(params: {
@@ -31,77 +46,98 @@ export function createChecklistFromTemplate(params: {
 }): Checklist | undefined {
     if (!params.cellId || !params.templateId || !params.ownerUserId) return
 
-    const template = checklistTemplates.find(t => t.id === params.templateId)
+    const template = getChecklistTemplates().find(t => t.id === params.templateId)
     if (!template) return
 
+    const now = new Date().toISOString()
     const newChecklist: Checklist = {
-        id: `cl-${Date.now()}`,
+        id: `cl-${crypto.randomUUID()}`,
         cellId: params.cellId,
         templateId: params.templateId,
+        templateVersion: template.version,
         status: 'NOT_STARTED',
         ownerUserId: params.ownerUserId,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
+        createdAt: now,
+        updatedAt: now
     }
 
-    checklists.push(newChecklist)
-
-    // Create items
-    const items = checklistItemTemplates.filter(it => it.templateId === params.templateId)
-    items.forEach(it => {
-        const newItem: ChecklistItem = {
-            id: `ci-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    const newItems: ChecklistItem[] = getChecklistItemTemplates()
+        .filter(it => it.templateId === params.templateId)
+        .map(it => ({
+            id: `ci-${crypto.randomUUID()}`,
             checklistId: newChecklist.id,
             templateItemId: it.id,
             status: 'PENDING',
             comment: '',
-            updatedAt: new Date().toISOString()
-        }
-        checklistItems.push(newItem)
-    })
+            updatedAt: now
+        }))
+
+    coreStore.upsertChecklists([newChecklist])
+    coreStore.upsertChecklistItems(newItems)
 
     return newChecklist
 }
 
+/**
+ * Update a checklist item's status and/or comment.
+ * Status changes are written to the audit log and roll up into the parent checklist status.
+ */
 export function updateChecklistItem(params: {
     itemId: string;
     status?: ChecklistItemStatus;
-    comment?: string
+    comment?: string;
+    userId?: string
 }): ChecklistItem | undefined {
     if (!params.itemId) return
 
-    const item = checklistItems.find(i => i.id === params.itemId)
+    const state = coreStore.getState()
+    const item = state.checklistItems.find(i => i.id === params.itemId)
     if (!item) return
 
-    if (params.status) item.status = params.status
-    if (params.comment !== undefined) item.comment = params.comment
-    item.updatedAt = new Date().toISOString()
+    const updatedItem: ChecklistItem = {
+        ...item,
+        status: params.status ?? item.status,
+        comment: params.comment !== undefined ? params.comment : item.comment,
+        updatedAt: new Date().toISOString()
+    }
 
-    // Update parent checklist status logic could go here (simplified for MVP)
-    updateChecklistStatus(item.checklistId)
+    coreStore.upsertChecklistItems([updatedItem])
+
+    const checklist = state.checklists.find(c => c.id === item.checklistId)
+    if (!checklist) return updatedItem
+
+    if (updatedItem.status !== item.status) {
+        const itemTemplate = state.checklistItemTemplates.find(t => t.id === item.templateItemId)
+        coreStore.addAuditEntry(createChecklistItemStatusAuditEntry(
+            item.id,
+            itemTemplate?.label ?? item.templateItemId,
+            item.status,
+            updatedItem.status,
+            { checklistId: checklist.id, cellId: checklist.cellId },
+            params.userId
+        ))
+    }
 
-    return item
-}
+    const nextStatus = deriveChecklistStatus(checklist.status, getChecklistItemsByChecklistId(checklist.id))
+    if (nextStatus !== checklist.status) {
+        coreStore.upsertChecklists([{ ...checklist, status: nextStatus, updatedAt: updatedItem.updatedAt }])
+    }
 
-function updateChecklistStatus(checklistId: string) {
-    const checklist = checklists.find(c => c.id === checklistId)
-    if (!checklist) return
+    return updatedItem
+}
 
-    const items = checklistItems.filter(i => i.checklistId === checklistId)
-    if (items.length === 0) return
+/**
+ * Derive a checklist's status from its items.
+ * BLOCKED is only ever set manually, so it is kept until every item is resolved.
+ */
+export function deriveChecklistStatus(current: ChecklistStatus, items: ChecklistItem[]): ChecklistStatus {
+    if (items.length === 0) return current
 
     const allDone = items.every(i => i.status === 'DONE' || i.status === 'NA')
-    const anyInProgress = items.some(i => i.status === 'IN_PROGRESS')
-
-    if (allDone) {
-        checklist.status = 'COMPLETED'
-    } else if (anyInProgress) {
-        checklist.status = 'IN_PROGRESS'
-    } else {
-        // Keep existing or set to IN_PROGRESS if started
-        if (items.some(i => i.status !== 'PENDING')) {
-            checklist.status = 'IN_PROGRESS'
-        }
-    }
-    checklist.updatedAt = new Date().toISOString()
+    if (allDone) return 'COMPLETED'
+    if (current === 'BLOCKED') return current
+
+    if (items.some(i => i.status !== 'PENDING')) return 'IN_PROGRESS'
+
+    return current === 'COMPLETED' ? 'NOT_STARTED' : current
 }
@@ -0,0 +1,157 @@
+// Context Mapping
+// Admin-maintained rules that derive customer, ModelKey and PlantKey from
+// import file names. Rules live in the store (schema v10) so every
+// ingestion path and the settings preview use the same registry.
+
+import { ContextMappingKind, ContextMappingRule } from './uidTypes'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ContextMappingMatch {
+  rule: ContextMappingRule
+  value: string
+  matchedText: string
+}
+
+export type ImportContext = Partial<Record<ContextMappingKind, ContextMappingMatch>>
+
+export const CONTEXT_MAPPING_KIND_LABELS: Record<ContextMappingKind, string> = {
+  customer: 'Customer',
+  model: 'Model',
+  plant: 'Plant',
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+const defaultRule = (
+  id: string,
+  kind: ContextMappingKind,
+  matchType: ContextMappingRule['matchType'],
+  pattern: string,
+  value: string,
+  priority: number,
+): ContextMappingRule => ({
+  id,
+  kind,
+  matchType,
+  pattern,
+  value,
+  priority,
+  enabled: true,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+})
+
+/**
+ * Rules that used to be hard-coded in customerMapping and
+ * modelContextDetector. The STLA platform sizes outrank STLA-S so
+ * "STLA_SMALL" is not read as "STLA_S".
+ */
+export const DEFAULT_CONTEXT_MAPPING_RULES: ContextMappingRule[] = [
+  defaultRule('default-customer-stla-s', 'customer', 'literal', 'STLA-S', 'TMS', 30),
+  defaultRule('default-customer-stlas', 'customer', 'literal', 'STLAS', 'TMS', 30),
+  defaultRule('default-customer-stla', 'customer', 'literal', 'STLA', 'TMS', 10),
+  defaultRule('default-model-stla-large', 'model', 'regex', 'STLA[-_]LARGE', '', 60),
+  defaultRule('default-model-stla-medium', 'model', 'regex', 'STLA[-_]MEDIUM', '', 60),
+  defaultRule('default-model-stla-small', 'model', 'regex', 'STLA[-_]SMALL', '', 60),
+  defaultRule('default-model-stla-s', 'model', 'regex', 'STLA[-_]S', '', 50),
+  defaultRule('default-model-glc-x254', 'model', 'regex', 'GLC[-_\\s]?X?254', '', 40),
+  defaultRule('default-model-ranger-p703', 'model', 'regex', 'RANGER[-_\\s]?P?703', '', 40),
+]
+
+export function createDefaultContextMappingRules(): ContextMappingRule[] {
+  return DEFAULT_CONTEXT_MAPPING_RULES.map((rule) => ({ ...rule }))
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Problem with a rule, or undefined when it can be used
+ */
+export function validateContextMappingRule(rule: ContextMappingRule): string | undefined {
+  if (!rule.pattern.trim()) return 'Pattern is required'
+  if (rule.matchType === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'i')
+    } catch (error) {
+      return `Invalid regex: ${(error as Error).message}`
+    }
+  }
+  if (!Number.isFinite(rule.priority)) return 'Priority must be a number'
+  return undefined
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Matched text as a key: uppercase, spaces and hyphens become underscores
+ */
+export function normalizeContextKey(text: string): string {
+  return text
+    .trim()
+    .toUpperCase()
+    .replace(/[-\s]+/g, '_')
+}
+
+function matchRule(fileName: string, rule: ContextMappingRule): ContextMappingMatch | undefined {
+  if (validateContextMappingRule(rule)) return undefined
+
+  if (rule.matchType === 'literal') {
+    const index = fileName.toUpperCase().indexOf(rule.pattern.trim().toUpperCase())
+    if (index < 0) return undefined
+    const matchedText = fileName.slice(index, index + rule.pattern.trim().length)
+    return { rule, matchedText, value: rule.value.trim() || normalizeContextKey(matchedText) }
+  }
+
+  const match = fileName.match(new RegExp(rule.pattern, 'i'))
+  if (!match) return undefined
+  const value = rule.value.trim()
+    ? rule.value.trim().replace(/\$(\d)/g, (_, group: string) => match[Number(group)] ?? '')
+    : normalizeContextKey(match[0])
+  return { rule, matchedText: match[0], value }
+}
+
+/**
+ * Every enabled rule of a kind that matches, winning rule first
+ * (highest priority; earlier rules win ties)
+ */
+export function findContextMatches(
+  fileName: string,
+  rules: ContextMappingRule[],
+  kind: ContextMappingKind,
+): ContextMappingMatch[] {
+  const matches: ContextMappingMatch[] = []
+  for (const rule of rules) {
+    if (!rule.enabled || rule.kind !== kind) continue
+    const match = matchRule(fileName, rule)
+    if (match) matches.push(match)
+  }
+  return matches.sort((a, b) => b.rule.priority - a.rule.priority)
+}
+
+export function resolveContextValue(
+  fileName: string,
+  rules: ContextMappingRule[],
+  kind: ContextMappingKind,
+): ContextMappingMatch | undefined {
+  return findContextMatches(fileName, rules, kind)[0]
+}
+
+/**
+ * Customer, model and plant for an import file
+ */
+export function resolveImportContext(fileName: string, rules: ContextMappingRule[]): ImportContext {
+  const context: ImportContext = {}
+  for (const kind of ['customer', 'model', 'plant'] as const) {
+    const match = resolveContextValue(fileName, rules, kind)
+    if (match) context[kind] = match
+  }
+  return context
+}
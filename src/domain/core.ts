@@ -142,6 +142,18 @@ export interface SimulationStatus {
   application?: string // Robot application from status sheet (e.g., "SW", "MH/SW")
 }
 
+// Confirmed link between a Process Simulate study (.psz) and a cell,
+// so SimBridge can tell which cell an opened study belongs to
+export interface StudyCellLink {
+  id: string
+  studyPath: string   // as reported by SimBridge
+  cellId: string
+  projectId: string
+  confidence: number  // candidate confidence at the time it was confirmed (0-1)
+  confirmedBy?: string
+  confirmedAt: string // ISO timestamp
+}
+
 // NOTE: In STLA domain, this represents a station-level simulation row.
 // Cell = Station in manufacturing terminology
 export interface Cell {
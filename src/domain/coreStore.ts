@@ -6,12 +6,15 @@ import {
   Project,
   Area,
   Cell,
+  CellStatus,
   Robot,
+  ScheduleInfo,
   Tool,
   UnifiedAsset,
   EmployeeRecord,
   SupplierRecord,
   OverviewScheduleMetrics,
+  StudyCellLink,
 } from './core'
 import { clearFileTrackingHistory } from '../ingestion/fileTracker'
 import {
@@ -26,7 +29,7 @@ import {
 } from './derivedMetrics'
 import { getDemoScenarioData, DemoScenarioId, DEMO_SCENARIOS } from './demoData'
 import { StoreSnapshot, createSnapshotFromState, applySnapshotToState } from './storeSnapshot'
-import { ChangeRecord } from './changeLog'
+import { ChangeRecord, ScheduleField } from './changeLog'
 import {
   StationRecord,
   ToolRecord,
@@ -34,9 +37,23 @@ import {
   AliasRule,
   ImportRun,
   DiffResult,
+  ContextMappingRule,
 } from './uidTypes'
 import { AuditEntry } from './auditLog'
-import type { CrossRefResult } from './crossRef/CrossRefTypes'
+import type { CrossRefResult, CrossRefRuleSet, FlagWaiver } from './crossRef/CrossRefTypes'
+import type {
+  Checklist,
+  ChecklistItem,
+  ChecklistTemplate,
+  ChecklistItemTemplate,
+  GunCheckStatus,
+  SpotWeldRef,
+} from './types'
+import {
+  checklistTemplates as defaultChecklistTemplates,
+  checklistItemTemplates as defaultChecklistItemTemplates,
+} from './mockData'
+import { createDefaultContextMappingRules } from './contextMapping'
 
 export { DEMO_SCENARIOS }
 export type { DemoScenarioId, DemoScenarioSummary } from './demoData'
@@ -72,6 +89,23 @@ export interface CoreStoreState {
   importRuns: ImportRun[]
   diffResults: DiffResult[] // Store diff results from imports for UI display
   auditLog: AuditEntry[] // Phase 1: Registry change audit trail
+  // Schema v5: Checklists persisted with the snapshot
+  checklistTemplates: ChecklistTemplate[]
+  checklistItemTemplates: ChecklistItemTemplate[]
+  checklists: Checklist[]
+  checklistItems: ChecklistItem[]
+  // Schema v7: Cross-reference rule definitions and per-project overrides
+  crossRefRules: CrossRefRuleSet
+  // Schema v8: Flag acknowledgements / waivers
+  flagWaivers: FlagWaiver[]
+  // Schema v9: Confirmed SimBridge study ↔ cell links
+  studyLinks: StudyCellLink[]
+  // Schema v10: Customer / model / plant file name mapping registry
+  contextMappingRules: ContextMappingRule[]
+  // Schema v11: Robot–weld gun check sign-offs
+  gunChecks: GunCheckStatus[]
+  // Schema v12: Spot weld points from weld point lists
+  spotWeldRefs: SpotWeldRef[]
 }
 
 let storeState: CoreStoreState = {
@@ -95,6 +129,16 @@ let storeState: CoreStoreState = {
   importRuns: [],
   diffResults: [],
   auditLog: [],
+  checklistTemplates: [...defaultChecklistTemplates],
+  checklistItemTemplates: [...defaultChecklistItemTemplates],
+  checklists: [],
+  checklistItems: [],
+  crossRefRules: { rules: [], projectOverrides: {} },
+  flagWaivers: [],
+  studyLinks: [],
+  contextMappingRules: createDefaultContextMappingRules(),
+  gunChecks: [],
+  spotWeldRefs: [],
 }
 
 // Subscribers for reactive updates
@@ -104,6 +148,13 @@ function notifySubscribers() {
   subscribers.forEach((callback) => callback())
 }
 
+// Subscribers told when the data is replaced wholesale rather than edited
+const replaceSubscribers = new Set<() => void>()
+
+function notifyDataReplaced() {
+  replaceSubscribers.forEach((callback) => callback())
+}
+
 // ============================================================================
 // VALIDATION HELPERS
 // ============================================================================
@@ -179,7 +230,7 @@ export const coreStore = {
       cells: [...data.cells],
       assets: [...data.robots, ...data.tools], // Merge into Unified Assets
       warnings: [...data.warnings],
-      changeLog: [], // Reset change log on new data load
+      changeLog: storeState.changeLog, // Change history outlives Excel reloads
       lastUpdated: new Date().toISOString(),
       dataSource: source || null,
       referenceData: data.referenceData || { employees: [], suppliers: [] },
@@ -192,7 +243,19 @@ export const coreStore = {
       importRuns: storeState.importRuns,
       diffResults: storeState.diffResults,
       auditLog: storeState.auditLog,
+      // Checklists are user work, not Excel data - keep them across loads
+      checklistTemplates: storeState.checklistTemplates,
+      checklistItemTemplates: storeState.checklistItemTemplates,
+      checklists: storeState.checklists,
+      checklistItems: storeState.checklistItems,
+      crossRefRules: storeState.crossRefRules,
+      flagWaivers: storeState.flagWaivers, // Waivers must survive re-imports
+      studyLinks: storeState.studyLinks,
+      contextMappingRules: storeState.contextMappingRules, // Admin settings, not Excel data
+      gunChecks: storeState.gunChecks, // Sign-offs are keyed by robot/gun so they outlive reloads
+      spotWeldRefs: storeState.spotWeldRefs, // Weld point lists are imported separately
     }
+    notifyDataReplaced()
     notifySubscribers()
   },
 
@@ -221,9 +284,20 @@ export const coreStore = {
       importRuns: [],
       diffResults: [],
       auditLog: [],
+      checklistTemplates: [...defaultChecklistTemplates],
+      checklistItemTemplates: [...defaultChecklistItemTemplates],
+      checklists: [],
+      checklistItems: [],
+      crossRefRules: { rules: [], projectOverrides: {} },
+      flagWaivers: [],
+      studyLinks: [],
+      contextMappingRules: createDefaultContextMappingRules(),
+      gunChecks: [],
+      spotWeldRefs: [],
     }
     // Clear file tracking history when data is cleared
     clearFileTrackingHistory()
+    notifyDataReplaced()
     notifySubscribers()
   },
 
@@ -265,6 +339,70 @@ export const coreStore = {
     notifySubscribers()
   },
 
+  /**
+   * Update a cell's status
+   */
+  updateCellStatus(cellId: string, newStatus: CellStatus): void {
+    storeState = {
+      ...storeState,
+      cells: storeState.cells.map((c) => (c.id === cellId ? { ...c, status: newStatus } : c)),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Move one schedule date of a cell. Planned start and finish are kept on the
+   * cell as well as in its schedule; a cell without a schedule gets one.
+   */
+  updateCellSchedule(cellId: string, field: ScheduleField, newDate: string | undefined): void {
+    const moveDate = (cell: Cell): Cell => {
+      const schedule: ScheduleInfo = cell.schedule ?? { phase: 'unspecified', status: 'unknown' }
+      switch (field) {
+        case 'plannedStart':
+          return {
+            ...cell,
+            plannedStart: newDate,
+            schedule: { ...schedule, plannedStart: newDate },
+          }
+        case 'plannedFinish':
+          return {
+            ...cell,
+            plannedFinish: newDate,
+            schedule: { ...schedule, plannedEnd: newDate },
+          }
+        case 'dueDate':
+          return { ...cell, schedule: { ...schedule, dueDate: newDate } }
+      }
+    }
+
+    storeState = {
+      ...storeState,
+      cells: storeState.cells.map((c) => (c.id === cellId ? moveDate(c) : c)),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Move an asset to another cell, taking over its area, project and station
+   * number, or detach it from any cell when cellId is null
+   */
+  updateAssetCell(assetId: string, cellId: string | null): void {
+    const cell = cellId ? storeState.cells.find((c) => c.id === cellId) : undefined
+    if (cellId && !cell) return
+
+    const placement: Partial<UnifiedAsset> = cell
+      ? { cellId, areaId: cell.areaId, projectId: cell.projectId, stationNumber: cell.code }
+      : { cellId: null }
+    storeState = {
+      ...storeState,
+      assets: storeState.assets.map((a) => (a.id === assetId ? { ...a, ...placement } : a)),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
   /**
    * Subscribe to store changes
    */
@@ -273,6 +411,15 @@ export const coreStore = {
     return () => subscribers.delete(callback)
   },
 
+  /**
+   * Subscribe to setData, clear and loadSnapshot, for state kept outside the
+   * store that only holds for the data it was built on
+   */
+  subscribeToDataReplaced(callback: () => void): () => void {
+    replaceSubscribers.add(callback)
+    return () => replaceSubscribers.delete(callback)
+  },
+
   /**
    * Get a snapshot of the current state
    */
@@ -291,6 +438,7 @@ export const coreStore = {
    */
   loadSnapshot(snapshot: StoreSnapshot): void {
     storeState = applySnapshotToState(snapshot)
+    notifyDataReplaced()
     notifySubscribers()
   },
 
@@ -359,6 +507,45 @@ export const coreStore = {
     notifySubscribers()
   },
 
+  /**
+   * Remove StationRecords by UID
+   */
+  removeStationRecords(uids: string[]): void {
+    const toRemove = new Set(uids)
+    storeState = {
+      ...storeState,
+      stationRecords: storeState.stationRecords.filter((r) => !toRemove.has(r.uid)),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Remove ToolRecords by UID
+   */
+  removeToolRecords(uids: string[]): void {
+    const toRemove = new Set(uids)
+    storeState = {
+      ...storeState,
+      toolRecords: storeState.toolRecords.filter((r) => !toRemove.has(r.uid)),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Remove RobotRecords by UID
+   */
+  removeRobotRecords(uids: string[]): void {
+    const toRemove = new Set(uids)
+    storeState = {
+      ...storeState,
+      robotRecords: storeState.robotRecords.filter((r) => !toRemove.has(r.uid)),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
   /**
    * Add alias rules (deduplicated by fromKey + entityType)
    */
@@ -377,6 +564,19 @@ export const coreStore = {
     notifySubscribers()
   },
 
+  /**
+   * Remove alias rules by ID
+   */
+  removeAliasRules(ruleIds: string[]): void {
+    const toRemove = new Set(ruleIds)
+    storeState = {
+      ...storeState,
+      aliasRules: storeState.aliasRules.filter((r) => !toRemove.has(r.id)),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
   /**
    * Add an import run record
    */
@@ -491,6 +691,22 @@ export const coreStore = {
     notifySubscribers()
   },
 
+  /**
+   * Soft-delete a robot
+   */
+  deactivateRobot(uid: string): void {
+    storeState = {
+      ...storeState,
+      robotRecords: storeState.robotRecords.map((r) =>
+        r.uid === uid
+          ? { ...r, status: 'inactive' as const, updatedAt: new Date().toISOString() }
+          : r,
+      ),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
   /**
    * Reactivate a robot
    */
@@ -548,6 +764,205 @@ export const coreStore = {
   getEntityAuditLog(entityUid: string): AuditEntry[] {
     return storeState.auditLog.filter((entry) => entry.entityUid === entityUid)
   },
+
+  // ============================================================================
+  // CHECKLIST METHODS
+  // ============================================================================
+
+  /**
+   * Add or update checklists
+   */
+  upsertChecklists(checklists: Checklist[]): void {
+    const byId = new Map(storeState.checklists.map((c) => [c.id, c]))
+
+    for (const checklist of checklists) {
+      byId.set(checklist.id, checklist)
+    }
+
+    storeState = {
+      ...storeState,
+      checklists: Array.from(byId.values()),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Replace the cross-reference rule set
+   */
+  setCrossRefRules(crossRefRules: CrossRefRuleSet): void {
+    storeState = {
+      ...storeState,
+      crossRefRules,
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Replace the customer / model / plant mapping registry
+   */
+  setContextMappingRules(contextMappingRules: ContextMappingRule[]): void {
+    storeState = {
+      ...storeState,
+      contextMappingRules,
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Add flag waivers, replacing any existing waiver for the same flag and entity
+   */
+  addFlagWaivers(waivers: FlagWaiver[]): void {
+    const keyOf = (w: FlagWaiver) => [w.flagKey, w.stationKey, w.robotKey, w.gunKey].join('|')
+    const newKeys = new Set(waivers.map(keyOf))
+
+    storeState = {
+      ...storeState,
+      flagWaivers: [...storeState.flagWaivers.filter((w) => !newKeys.has(keyOf(w))), ...waivers],
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Remove flag waivers by ID
+   */
+  removeFlagWaivers(waiverIds: string[]): void {
+    const toRemove = new Set(waiverIds)
+
+    storeState = {
+      ...storeState,
+      flagWaivers: storeState.flagWaivers.filter((w) => !toRemove.has(w.id)),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Add or update gun checks, keeping one check per robot–gun assignment
+   */
+  upsertGunChecks(checks: GunCheckStatus[]): void {
+    const byAssignment = new Map(storeState.gunChecks.map((c) => [c.robotGunAssignmentId, c]))
+
+    for (const check of checks) {
+      byAssignment.set(check.robotGunAssignmentId, check)
+    }
+
+    storeState = {
+      ...storeState,
+      gunChecks: Array.from(byAssignment.values()),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Add or update spot weld points, keeping one entry per weld ID
+   */
+  upsertSpotWeldRefs(welds: SpotWeldRef[]): void {
+    const byId = new Map(storeState.spotWeldRefs.map((w) => [w.id, w]))
+
+    for (const weld of welds) {
+      byId.set(weld.id, weld)
+    }
+
+    storeState = {
+      ...storeState,
+      spotWeldRefs: Array.from(byId.values()),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Confirm a study ↔ cell link, replacing any earlier link for the same study
+   */
+  upsertStudyLink(link: StudyCellLink): void {
+    const normalize = (path: string) => path.trim().replace(/\\/g, '/').toLowerCase()
+    const path = normalize(link.studyPath)
+
+    storeState = {
+      ...storeState,
+      studyLinks: [
+        ...storeState.studyLinks.filter((l) => normalize(l.studyPath) !== path),
+        link,
+      ],
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Remove a confirmed study link by ID
+   */
+  removeStudyLink(linkId: string): void {
+    storeState = {
+      ...storeState,
+      studyLinks: storeState.studyLinks.filter((l) => l.id !== linkId),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Add or update checklist templates and their item templates
+   */
+  upsertChecklistTemplates(
+    templates: ChecklistTemplate[],
+    itemTemplates: ChecklistItemTemplate[] = [],
+  ): void {
+    const templatesById = new Map(storeState.checklistTemplates.map((t) => [t.id, t]))
+    for (const template of templates) {
+      templatesById.set(template.id, template)
+    }
+
+    const itemsById = new Map(storeState.checklistItemTemplates.map((it) => [it.id, it]))
+    for (const item of itemTemplates) {
+      itemsById.set(item.id, item)
+    }
+
+    storeState = {
+      ...storeState,
+      checklistTemplates: Array.from(templatesById.values()),
+      checklistItemTemplates: Array.from(itemsById.values()),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Remove checklist items by ID
+   */
+  removeChecklistItems(itemIds: string[]): void {
+    const toRemove = new Set(itemIds)
+
+    storeState = {
+      ...storeState,
+      checklistItems: storeState.checklistItems.filter((i) => !toRemove.has(i.id)),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
+
+  /**
+   * Add or update checklist items
+   */
+  upsertChecklistItems(items: ChecklistItem[]): void {
+    const byId = new Map(storeState.checklistItems.map((i) => [i.id, i]))
+
+    for (const item of items) {
+      byId.set(item.id, item)
+    }
+
+    storeState = {
+      ...storeState,
+      checklistItems: Array.from(byId.values()),
+      lastUpdated: new Date().toISOString(),
+    }
+    notifySubscribers()
+  },
 }
 
 // ============================================================================
@@ -670,7 +1085,8 @@ export function useOverviewSchedule(): OverviewScheduleMetrics | undefined {
  */
 export function useHasUnsyncedChanges(): boolean {
   const state = useCoreStore()
-  return state.changeLog.length > 0
+  // Notes are informational only; everything else is an edit not yet in the source workbook
+  return state.changeLog.some((c) => c.kind !== 'note')
 }
 
 /**
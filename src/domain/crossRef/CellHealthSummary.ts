@@ -5,7 +5,8 @@ import {
   CellSnapshot,
   CellHealthSummary,
   CellRiskLevel,
-  CrossRefFlag
+  CrossRefFlag,
+  GunCheckSnapshot
 } from './CrossRefTypes'
 
 // ============================================================================
@@ -57,6 +58,23 @@ const getBaseRiskLevel = (flags: CrossRefFlag[]): RiskResult => {
   return { riskLevel, criticalReasons, warningReasons }
 }
 
+/**
+ * Failed gun checks raise an OK cell to AT_RISK; they never make it CRITICAL
+ */
+const applyGunCheckRisk = (risk: RiskResult, gunChecks: GunCheckSnapshot[]): RiskResult => {
+  const failed = gunChecks.filter(c => c.state === 'FAILED')
+  if (failed.length === 0) return risk
+
+  return {
+    riskLevel: risk.riskLevel === 'OK' ? 'AT_RISK' : risk.riskLevel,
+    criticalReasons: risk.criticalReasons,
+    warningReasons: [
+      ...risk.warningReasons,
+      ...failed.map(c => `Gun check failed for ${c.gunKey} on robot ${c.robotKey}`)
+    ]
+  }
+}
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -101,7 +119,15 @@ export const summarizeCellHealth = (cell: CellSnapshot): CellHealthSummary => {
   const gunForceCount = cell.gunForces ? cell.gunForces.length : 0
   const riserCount = cell.risers ? cell.risers.length : 0
 
-  const { riskLevel, criticalReasons, warningReasons } = getBaseRiskLevel(flags)
+  const gunChecks = cell.gunChecks || []
+  const gunCheckCount = gunChecks.length
+  const approvedGunCheckCount = gunChecks.filter(c => c.state === 'APPROVED').length
+  const failedGunCheckCount = gunChecks.filter(c => c.state === 'FAILED').length
+
+  const { riskLevel, criticalReasons, warningReasons } = applyGunCheckRisk(
+    getBaseRiskLevel(flags),
+    gunChecks
+  )
 
   return {
     stationKey: cell.stationKey,
@@ -120,6 +146,10 @@ export const summarizeCellHealth = (cell: CellSnapshot): CellHealthSummary => {
     gunForceCount,
     riserCount,
 
+    gunCheckCount,
+    approvedGunCheckCount,
+    failedGunCheckCount,
+
     riskLevel,
     flags,
     criticalReasons,
@@ -15,9 +15,13 @@ import {
   RobotSnapshot,
   WeldGunSnapshot,
   RiserSnapshot,
+  CrossRefOptions,
+  GunCheckSnapshot,
 } from './CrossRefTypes'
 import { normalizeStationId, normalizeGunKey } from './CrossRefUtils'
 import { buildCellHealthSummaries } from './CellHealthSummary'
+import { applyRuleSetToCell } from './CrossRefRules'
+import { partitionWaivedFlags } from './FlagWaivers'
 
 const READINESS_KEYS = [
   'ROBOT SIMULATION',
@@ -55,11 +59,13 @@ interface Indices {
  * 1. Indexes all stations from all input sources
  * 2. Populates each station with its related data
  * 3. Validates and flags discrepancies
+ * 4. Applies rule overrides, custom rules, waivers and gun checks, when options are given
  *
  * @param input - The ingested data from all Excel files
+ * @param options - Optional user-defined rules, overrides, flag waivers and gun checks
  * @returns CrossRefResult with unified cells and validation flags
  */
-export const buildCrossRef = (input: CrossRefInput): CrossRefResult => {
+export const buildCrossRef = (input: CrossRefInput, options?: CrossRefOptions): CrossRefResult => {
   const indices = buildIndices(input)
 
   populateCells(input, indices)
@@ -67,6 +73,13 @@ export const buildCrossRef = (input: CrossRefInput): CrossRefResult => {
   const cells = Array.from(indices.stations.values())
   const globalFlags = validateCells(cells)
 
+  if (options) {
+    const gunChecksByStation = groupGunChecksByStation(options.gunChecks)
+    for (const cell of cells) {
+      Object.assign(cell, applyOptionsToCell(cell, cell.flags, options, gunChecksByStation))
+    }
+  }
+
   const stats = calculateStats(cells, globalFlags)
   const cellHealthSummaries = buildCellHealthSummaries(cells)
   const areaMetrics = aggregateAreaMetrics(cells)
@@ -74,6 +87,64 @@ export const buildCrossRef = (input: CrossRefInput): CrossRefResult => {
   return { cells, globalFlags, stats, cellHealthSummaries, areaMetrics }
 }
 
+/**
+ * Re-apply rules, waivers and gun checks to an existing result without re-ingesting.
+ * Built-in flags come from baseFlags; results built without options
+ * fall back to their current non-custom flags.
+ */
+export const applyRulesToCrossRef = (
+  result: CrossRefResult,
+  options: CrossRefOptions,
+): CrossRefResult => {
+  const gunChecksByStation = groupGunChecksByStation(options.gunChecks)
+  const cells = result.cells.map((cell) => {
+    const baseFlags = cell.baseFlags ?? cell.flags.filter((flag) => flag.type !== 'CUSTOM_RULE')
+    return { ...cell, ...applyOptionsToCell(cell, baseFlags, options, gunChecksByStation) }
+  })
+
+  return {
+    ...result,
+    cells,
+    stats: calculateStats(cells, result.globalFlags),
+    cellHealthSummaries: buildCellHealthSummaries(cells),
+  }
+}
+
+const applyOptionsToCell = (
+  cell: CellSnapshot,
+  baseFlags: CrossRefFlag[],
+  options: CrossRefOptions,
+  gunChecksByStation?: Map<StationKey, GunCheckSnapshot[]>,
+): Pick<CellSnapshot, 'baseFlags' | 'flags' | 'waivedFlags' | 'gunChecks'> => {
+  const flags = options.ruleSet ? applyRuleSetToCell(cell, baseFlags, options.ruleSet) : baseFlags
+  const gunChecks = gunChecksByStation
+    ? (gunChecksByStation.get(cell.stationKey) ?? [])
+    : cell.gunChecks
+  return {
+    baseFlags,
+    ...partitionWaivedFlags(flags, options.waivers ?? [], options.now),
+    gunChecks,
+  }
+}
+
+/**
+ * Index gun checks by station; undefined when no gun checks were given,
+ * so cells keep whatever checks they already carry
+ */
+const groupGunChecksByStation = (
+  gunChecks: GunCheckSnapshot[] | undefined,
+): Map<StationKey, GunCheckSnapshot[]> | undefined => {
+  if (!gunChecks) return undefined
+
+  const byStation = new Map<StationKey, GunCheckSnapshot[]>()
+  for (const check of gunChecks) {
+    const existing = byStation.get(check.stationKey) ?? []
+    existing.push(check)
+    byStation.set(check.stationKey, existing)
+  }
+  return byStation
+}
+
 // ============================================================================
 // PHASE 1: INDEXING & SEEDING
 // ============================================================================
@@ -537,9 +608,11 @@ const calculateStats = (
   let toolCount = 0
   let weldGunCount = 0
   let riserCount = 0
+  let waivedFlags = 0
 
   for (const cell of cells) {
     totalFlags += cell.flags.length
+    waivedFlags += cell.waivedFlags?.length ?? 0
 
     if (cell.flags.length > 0) {
       cellsWithRisks++
@@ -559,5 +632,6 @@ const calculateStats = (
     toolCount,
     weldGunCount,
     riserCount,
+    waivedFlags,
   }
 }
@@ -0,0 +1,447 @@
+// Cross-Reference Rules
+// Declarative, user-defined checks evaluated against CellSnapshots.
+// Also applies per-project enable/disable and severity overrides to the
+// built-in flags produced by the engine.
+
+import {
+  CellSnapshot,
+  CrossRefFlag,
+  CrossRefFlagSeverity,
+  CrossRefFlagType,
+  CrossRefRuleCollection,
+  CrossRefRuleCondition,
+  CrossRefRuleDefinition,
+  CrossRefRuleOverride,
+  CrossRefRuleSet,
+} from './CrossRefTypes'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Flag types produced by the engine itself; overrides are keyed by these
+ */
+export const BUILT_IN_FLAG_TYPES: Exclude<CrossRefFlagType, 'CUSTOM_RULE'>[] = [
+  'MISSING_GUN_FORCE_FOR_WELD_GUN',
+  'ROBOT_MISSING_DRESS_PACK_INFO',
+  'STATION_WITHOUT_SIMULATION_STATUS',
+  'TOOL_WITHOUT_OWNER',
+  'RISER_NOT_ALLOCATED_TO_NEW_STATION',
+  'AMBIGUOUS_GUN_MATCH',
+  'AMBIGUOUS_ROBOT_MATCH',
+  'DUPLICATE_STATION_DEFINITION',
+]
+
+/** Override key that applies to every project */
+export const ALL_PROJECTS = '*'
+
+/** Context name for each item of a collection, e.g. robots -> robot */
+const ITEM_NAMES: Record<CrossRefRuleCollection, string> = {
+  robots: 'robot',
+  tools: 'tool',
+  weldGuns: 'weldGun',
+  gunForces: 'gunForce',
+  risers: 'riser',
+}
+
+/** Own keys only, so prototype names like "constructor" are not collections */
+const isRuleCollection = (value: unknown): value is CrossRefRuleCollection =>
+  Object.prototype.hasOwnProperty.call(ITEM_NAMES, String(value))
+
+const OPERATORS = [
+  'exists',
+  'missing',
+  'eq',
+  'neq',
+  'lt',
+  'lte',
+  'gt',
+  'gte',
+  'contains',
+  'matches',
+]
+
+/**
+ * Starting points for the rule editor
+ */
+export const EXAMPLE_RULES: CrossRefRuleDefinition[] = [
+  {
+    id: 'robot-payload-below-gripper-weight',
+    name: 'Robot payload below gripper weight',
+    description:
+      'Compares robot payload class with the "Weight" column of grippers in the same cell',
+    scope: 'robots',
+    when: {
+      count: 'tools',
+      where: {
+        all: [
+          { field: 'tool.toolType', op: 'eq', value: 'GRIPPER' },
+          { field: 'robot.raw.payloadClass', op: 'lt', valueField: 'tool.raw.metadata.Weight' },
+        ],
+      },
+      op: 'gt',
+      value: 0,
+    },
+    message:
+      'Robot {robot.robotKey} payload class {robot.raw.payloadClass} is below a gripper weight',
+    severity: 'ERROR',
+    enabled: true,
+  },
+  {
+    id: 'sealer-tool-without-sealer-milestones',
+    name: 'Sealer tool without sealer milestones',
+    description: 'Station has a sealer tool but no SEALER panel milestones in Simulation Status',
+    scope: 'cell',
+    when: {
+      all: [
+        {
+          count: 'tools',
+          where: { field: 'tool.toolType', op: 'eq', value: 'SEALER' },
+          op: 'gt',
+          value: 0,
+        },
+        { field: 'cell.simulationStatus.panelMilestones.sealer.milestones', op: 'missing' },
+      ],
+    },
+    message: 'Station {cell.displayCode} has a sealer tool but no SEALER panel milestones',
+    severity: 'WARNING',
+    enabled: true,
+  },
+]
+
+// ============================================================================
+// RULE SET HELPERS
+// ============================================================================
+
+export const createEmptyRuleSet = (): CrossRefRuleSet => ({
+  rules: [],
+  projectOverrides: {},
+})
+
+/**
+ * Override for a flag type or rule id, project-specific entries winning over '*'
+ */
+export const getRuleOverride = (
+  ruleSet: CrossRefRuleSet,
+  ruleKey: string,
+  projectId?: string,
+): CrossRefRuleOverride => ({
+  ...ruleSet.projectOverrides[ALL_PROJECTS]?.[ruleKey],
+  ...(projectId ? ruleSet.projectOverrides[projectId]?.[ruleKey] : undefined),
+})
+
+/**
+ * Return a copy of the rule set with one override changed.
+ * Passing an empty override removes the entry.
+ */
+export const setRuleOverride = (
+  ruleSet: CrossRefRuleSet,
+  projectId: string,
+  ruleKey: string,
+  override: CrossRefRuleOverride,
+): CrossRefRuleSet => {
+  const projectEntries = { ...ruleSet.projectOverrides[projectId] }
+  const cleaned: CrossRefRuleOverride = {}
+  if (override.enabled !== undefined) cleaned.enabled = override.enabled
+  if (override.severity !== undefined) cleaned.severity = override.severity
+
+  if (Object.keys(cleaned).length === 0) {
+    delete projectEntries[ruleKey]
+  } else {
+    projectEntries[ruleKey] = cleaned
+  }
+
+  const projectOverrides = { ...ruleSet.projectOverrides }
+  if (Object.keys(projectEntries).length === 0) {
+    delete projectOverrides[projectId]
+  } else {
+    projectOverrides[projectId] = projectEntries
+  }
+
+  return { ...ruleSet, projectOverrides }
+}
+
+// ============================================================================
+// CONDITION EVALUATION
+// ============================================================================
+
+type RuleContext = Record<string, unknown>
+
+/**
+ * Resolve a dotted path such as `robot.raw.payloadClass` against the context
+ */
+export const resolveField = (context: RuleContext, path: string): unknown => {
+  let current: unknown = context
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined
+    current = (current as Record<string, unknown>)[part]
+  }
+  return current
+}
+
+const isMissing = (value: unknown): boolean => {
+  if (value === undefined || value === null) return true
+  if (typeof value === 'string') return value.trim() === ''
+  if (Array.isArray(value)) return value.length === 0
+  if (typeof value === 'object') return Object.keys(value).length === 0
+  return false
+}
+
+/**
+ * Numbers, or strings that start with one ("210kg", "165 KG") so payload
+ * classes and weights from Excel compare numerically
+ */
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+  if (typeof value !== 'string') return undefined
+  const match = value.trim().match(/^-?\d+(?:[.,]\d+)?/)
+  return match ? Number(match[0].replace(',', '.')) : undefined
+}
+
+const toStrictNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+  if (typeof value !== 'string' || value.trim() === '') return undefined
+  const num = Number(value.trim())
+  return Number.isFinite(num) ? num : undefined
+}
+
+const compare = (actual: unknown, op: string, expected: unknown): boolean => {
+  switch (op) {
+    case 'exists':
+      return !isMissing(actual)
+    case 'missing':
+      return isMissing(actual)
+    case 'eq':
+    case 'neq': {
+      // Only plain numbers compare numerically here, so "12A" and "12B" differ
+      const a = toStrictNumber(actual)
+      const b = toStrictNumber(expected)
+      const equal =
+        a !== undefined && b !== undefined
+          ? a === b
+          : String(actual ?? '').toLowerCase() === String(expected ?? '').toLowerCase()
+      return op === 'eq' ? equal : !equal
+    }
+    case 'lt':
+    case 'lte':
+    case 'gt':
+    case 'gte': {
+      const a = toNumber(actual)
+      const b = toNumber(expected)
+      if (a === undefined || b === undefined) return false
+      if (op === 'lt') return a < b
+      if (op === 'lte') return a <= b
+      if (op === 'gt') return a > b
+      return a >= b
+    }
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some((item) => compare(item, 'eq', expected))
+      return String(actual ?? '')
+        .toLowerCase()
+        .includes(String(expected ?? '').toLowerCase())
+    case 'matches':
+      try {
+        return new RegExp(String(expected ?? ''), 'i').test(String(actual ?? ''))
+      } catch {
+        return false
+      }
+    default:
+      return false
+  }
+}
+
+/**
+ * Evaluate a condition. Counts iterate the current cell's collection with
+ * each item added to the context under its singular name.
+ */
+export const evaluateCondition = (
+  condition: CrossRefRuleCondition,
+  context: RuleContext,
+): boolean => {
+  if ('all' in condition) return condition.all.every((c) => evaluateCondition(c, context))
+  if ('any' in condition) return condition.any.some((c) => evaluateCondition(c, context))
+  if ('not' in condition) return !evaluateCondition(condition.not, context)
+
+  if ('count' in condition) {
+    const cell = context.cell as CellSnapshot
+    const items: unknown[] = cell[condition.count] ?? []
+    const itemName = ITEM_NAMES[condition.count]
+    const matched = condition.where
+      ? items.filter((item) =>
+          evaluateCondition(condition.where!, { ...context, [itemName]: item }),
+        ).length
+      : items.length
+    return compare(matched, condition.op, condition.value)
+  }
+
+  const expected =
+    condition.valueField !== undefined
+      ? resolveField(context, condition.valueField)
+      : condition.value
+  return compare(resolveField(context, condition.field), condition.op, expected)
+}
+
+const formatMessage = (template: string, context: RuleContext): string =>
+  template.replace(/\{([^{}]+)\}/g, (_, path: string) => {
+    const value = resolveField(context, path.trim())
+    return value === undefined || value === null ? '?' : String(value)
+  })
+
+// ============================================================================
+// RULE EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate one custom rule against a cell, one flag per matching item
+ */
+export const evaluateRule = (
+  rule: CrossRefRuleDefinition,
+  cell: CellSnapshot,
+  severity: CrossRefFlagSeverity = rule.severity,
+): CrossRefFlag[] => {
+  const contexts: RuleContext[] =
+    rule.scope === 'cell'
+      ? [{ cell }]
+      : (cell[rule.scope] as unknown[]).map((item) => ({
+          cell,
+          [ITEM_NAMES[rule.scope as CrossRefRuleCollection]]: item,
+        }))
+
+  const flags: CrossRefFlag[] = []
+  for (const context of contexts) {
+    if (!evaluateCondition(rule.when, context)) continue
+
+    const item = (rule.scope === 'cell' ? {} : context[ITEM_NAMES[rule.scope]]) as {
+      robotKey?: string
+      gunKey?: string
+    }
+    flags.push({
+      type: 'CUSTOM_RULE',
+      stationKey: cell.stationKey,
+      robotKey: item.robotKey,
+      gunKey: item.gunKey,
+      message: formatMessage(rule.message, context),
+      severity,
+      ruleId: rule.id,
+      ruleName: rule.name,
+    })
+  }
+  return flags
+}
+
+/**
+ * Apply overrides to a cell's built-in flags and append custom rule flags
+ */
+export const applyRuleSetToCell = (
+  cell: CellSnapshot,
+  baseFlags: CrossRefFlag[],
+  ruleSet: CrossRefRuleSet,
+): CrossRefFlag[] => {
+  const flags: CrossRefFlag[] = []
+
+  for (const flag of baseFlags) {
+    const override = getRuleOverride(ruleSet, flag.type, cell.projectId)
+    if (override.enabled === false) continue
+    flags.push(override.severity ? { ...flag, severity: override.severity } : flag)
+  }
+
+  for (const rule of ruleSet.rules) {
+    const override = getRuleOverride(ruleSet, rule.id, cell.projectId)
+    if (!(override.enabled ?? rule.enabled)) continue
+    flags.push(...evaluateRule(rule, cell, override.severity ?? rule.severity))
+  }
+
+  return flags
+}
+
+// ============================================================================
+// VALIDATION (for JSON-imported definitions)
+// ============================================================================
+
+const validateCondition = (condition: unknown, path: string): string | null => {
+  if (!condition || typeof condition !== 'object') return `${path} must be an object`
+  const c = condition as Record<string, unknown>
+
+  if ('all' in c || 'any' in c) {
+    const list = c.all ?? c.any
+    if (!Array.isArray(list)) return `${path} all/any must be an array`
+    for (let i = 0; i < list.length; i++) {
+      const error = validateCondition(list[i], `${path}[${i}]`)
+      if (error) return error
+    }
+    return null
+  }
+  if ('not' in c) return validateCondition(c.not, `${path}.not`)
+  if ('count' in c) {
+    if (!isRuleCollection(c.count))
+      return `${path}.count must be one of ${Object.keys(ITEM_NAMES).join(', ')}`
+    if (typeof c.value !== 'number') return `${path}.value must be a number`
+    if (!['eq', 'neq', 'lt', 'lte', 'gt', 'gte'].includes(String(c.op)))
+      return `${path}.op is not a numeric comparison`
+    return c.where === undefined ? null : validateCondition(c.where, `${path}.where`)
+  }
+  if (typeof c.field !== 'string' || !c.field) return `${path}.field is required`
+  if (!OPERATORS.includes(String(c.op))) return `${path}.op must be one of ${OPERATORS.join(', ')}`
+  return null
+}
+
+/**
+ * Check rule definitions parsed from JSON before they are stored
+ */
+export const validateRuleDefinitions = (
+  input: unknown,
+):
+  | { success: true; rules: CrossRefRuleDefinition[] }
+  | { success: false; errorMessage: string } => {
+  if (!Array.isArray(input)) {
+    return { success: false, errorMessage: 'Rules must be a JSON array' }
+  }
+
+  const ids = new Set<string>()
+  const rules: CrossRefRuleDefinition[] = []
+
+  for (let i = 0; i < input.length; i++) {
+    const rule = input[i] as Partial<CrossRefRuleDefinition>
+    const label = `Rule ${i + 1}`
+    if (!rule || typeof rule !== 'object') {
+      return { success: false, errorMessage: `${label} must be an object` }
+    }
+    if (typeof rule.id !== 'string' || !rule.id.trim()) {
+      return { success: false, errorMessage: `${label} needs an id` }
+    }
+    if (ids.has(rule.id)) {
+      return { success: false, errorMessage: `${label} duplicates id "${rule.id}"` }
+    }
+    if ((BUILT_IN_FLAG_TYPES as string[]).includes(rule.id)) {
+      return { success: false, errorMessage: `${label} id "${rule.id}" is a built-in flag type` }
+    }
+    if (rule.scope !== 'cell' && !isRuleCollection(rule.scope)) {
+      return { success: false, errorMessage: `${label} has an unknown scope "${rule.scope}"` }
+    }
+    if (rule.severity !== 'WARNING' && rule.severity !== 'ERROR') {
+      return { success: false, errorMessage: `${label} severity must be WARNING or ERROR` }
+    }
+    if (typeof rule.message !== 'string' || !rule.message.trim()) {
+      return { success: false, errorMessage: `${label} needs a message` }
+    }
+    const conditionError = validateCondition(rule.when, `${label} when`)
+    if (conditionError) {
+      return { success: false, errorMessage: conditionError }
+    }
+
+    ids.add(rule.id)
+    rules.push({
+      id: rule.id,
+      name: typeof rule.name === 'string' && rule.name.trim() ? rule.name : rule.id,
+      description: rule.description,
+      scope: rule.scope as CrossRefRuleDefinition['scope'],
+      when: rule.when as CrossRefRuleCondition,
+      message: rule.message,
+      severity: rule.severity,
+      enabled: rule.enabled !== false,
+    })
+  }
+
+  return { success: true, rules }
+}
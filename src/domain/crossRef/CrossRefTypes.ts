@@ -108,6 +108,25 @@ export interface RiserSnapshot {
   raw: Tool | Record<string, unknown>
 }
 
+/**
+ * Where a robot–weld gun assignment stands in its gun check sign-off.
+ * FAILED: a geometry, payload or force check did not pass.
+ * AWAITING_SIGN_OFF: all checks pass but nobody has approved them yet.
+ */
+export type GunCheckState = 'NOT_CHECKED' | 'FAILED' | 'AWAITING_SIGN_OFF' | 'APPROVED'
+
+/**
+ * Gun check result for one robot–weld gun assignment
+ */
+export interface GunCheckSnapshot {
+  assignmentId: string
+  stationKey: StationKey
+  cellId: string | null
+  robotKey: RobotKey
+  gunKey: GunKey
+  state: GunCheckState
+}
+
 // ============================================================================
 // FLAG TYPES
 // ============================================================================
@@ -124,6 +143,9 @@ export type CrossRefFlagType =
   | 'AMBIGUOUS_GUN_MATCH'
   | 'AMBIGUOUS_ROBOT_MATCH'
   | 'DUPLICATE_STATION_DEFINITION'
+  | 'CUSTOM_RULE'
+
+export type CrossRefFlagSeverity = 'WARNING' | 'ERROR'
 
 /**
  * A cross-reference validation flag
@@ -134,7 +156,126 @@ export interface CrossRefFlag {
   robotKey?: RobotKey
   gunKey?: GunKey
   message: string
-  severity: 'WARNING' | 'ERROR'
+  severity: CrossRefFlagSeverity
+  /** Set for CUSTOM_RULE flags */
+  ruleId?: string
+  ruleName?: string
+  /** Set on flags moved to CellSnapshot.waivedFlags */
+  waiverId?: string
+}
+
+// ============================================================================
+// WAIVER TYPES
+// ============================================================================
+
+/**
+ * ACKNOWLEDGED: known and being worked on. WAIVED: accepted as-is.
+ * Both keep the flag out of risk levels until the waiver expires.
+ */
+export type FlagWaiverKind = 'ACKNOWLEDGED' | 'WAIVED'
+
+/**
+ * A user decision about a flag. Matches on flag type (rule id for custom
+ * rules) plus station/robot/gun keys, so it survives re-imports.
+ */
+export interface FlagWaiver {
+  id: string
+  kind: FlagWaiverKind
+  /** Built-in flag type or custom rule id */
+  flagKey: string
+  stationKey?: StationKey
+  robotKey?: RobotKey
+  gunKey?: GunKey
+  reason: string
+  author: string
+  createdAt: string
+  /** ISO date; the flag comes back after this */
+  expiresAt?: string
+}
+
+// ============================================================================
+// RULE TYPES (user-defined flags)
+// ============================================================================
+
+/**
+ * Comparison operators for rule conditions.
+ * exists/missing treat null, '' and empty arrays/objects as missing.
+ */
+export type CrossRefRuleOperator =
+  | 'exists'
+  | 'missing'
+  | 'eq'
+  | 'neq'
+  | 'lt'
+  | 'lte'
+  | 'gt'
+  | 'gte'
+  | 'contains'
+  | 'matches'
+
+/**
+ * Collections of a CellSnapshot a rule can iterate over
+ */
+export type CrossRefRuleCollection = 'robots' | 'tools' | 'weldGuns' | 'gunForces' | 'risers'
+
+/**
+ * Declarative condition evaluated against a context of named values:
+ * `cell` always, plus `robot` / `tool` / `weldGun` / `gunForce` / `riser`
+ * for the item being checked. Field paths are dotted, e.g. `robot.raw.payloadClass`.
+ */
+export type CrossRefRuleCondition =
+  | { all: CrossRefRuleCondition[] }
+  | { any: CrossRefRuleCondition[] }
+  | { not: CrossRefRuleCondition }
+  | {
+      field: string
+      op: CrossRefRuleOperator
+      value?: string | number | boolean
+      /** Compare against another field instead of a literal */
+      valueField?: string
+    }
+  | {
+      /** Count items of a collection matching `where` and compare the count */
+      count: CrossRefRuleCollection
+      where?: CrossRefRuleCondition
+      op: 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte'
+      value: number
+    }
+
+/**
+ * A user-defined cross-reference rule.
+ * Scope 'cell' checks each cell once; other scopes check each item of that
+ * collection and raise one flag per matching item.
+ */
+export interface CrossRefRuleDefinition {
+  id: string
+  name: string
+  description?: string
+  scope: 'cell' | CrossRefRuleCollection
+  /** Flag is raised when this condition holds */
+  when: CrossRefRuleCondition
+  /** Message template; {path} placeholders are filled from the context, e.g. {robot.robotKey} */
+  message: string
+  severity: CrossRefFlagSeverity
+  enabled: boolean
+}
+
+/**
+ * Per-project override for a built-in flag type or a custom rule id
+ */
+export interface CrossRefRuleOverride {
+  enabled?: boolean
+  severity?: CrossRefFlagSeverity
+}
+
+/**
+ * Rule configuration persisted with the store.
+ * projectOverrides is keyed by projectId ('*' applies to every project),
+ * then by built-in flag type or custom rule id.
+ */
+export interface CrossRefRuleSet {
+  rules: CrossRefRuleDefinition[]
+  projectOverrides: Record<string, Record<string, CrossRefRuleOverride>>
 }
 
 // ============================================================================
@@ -156,6 +297,12 @@ export interface CellSnapshot {
   gunForces: GunForceSnapshot[]
   risers: RiserSnapshot[]
   flags: CrossRefFlag[]
+  /** Built-in flags before rule overrides; flags is derived from these plus custom rules */
+  baseFlags?: CrossRefFlag[]
+  /** Flags covered by an active waiver, kept out of flags */
+  waivedFlags?: CrossRefFlag[]
+  /** Gun check sign-offs for the robot–gun assignments at this station */
+  gunChecks?: GunCheckSnapshot[]
   projectId?: string
 }
 
@@ -175,6 +322,18 @@ export interface CrossRefInput {
   riserRows: RiserSnapshot[]
 }
 
+/**
+ * User configuration applied on top of the engine's own checks
+ */
+export interface CrossRefOptions {
+  ruleSet?: CrossRefRuleSet
+  waivers?: FlagWaiver[]
+  /** Gun check results, attached to cells by stationKey */
+  gunChecks?: GunCheckSnapshot[]
+  /** Reference time for waiver expiry (defaults to now) */
+  now?: Date
+}
+
 /**
  * Result of cross-reference processing
  */
@@ -189,6 +348,8 @@ export interface CrossRefResult {
     toolCount: number
     weldGunCount: number
     riserCount: number
+    /** Flags hidden by an active acknowledgement or waiver */
+    waivedFlags?: number
   }
   /** Ready-made summaries for UI consumption */
   cellHealthSummaries: CellHealthSummary[]
@@ -227,6 +388,11 @@ export interface CellHealthSummary {
   gunForceCount: number
   riserCount: number
 
+  // Gun check sign-offs
+  gunCheckCount: number
+  approvedGunCheckCount: number
+  failedGunCheckCount: number
+
   // Risk / flags
   riskLevel: CellRiskLevel
   flags: CrossRefFlag[]
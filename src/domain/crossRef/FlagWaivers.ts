@@ -0,0 +1,101 @@
+// Flag Waivers
+// Acknowledge or waive cross-reference flags so known issues stop counting
+// as risks. Waivers match on flag key + entity keys, not on flag instances,
+// so they keep applying after every re-import until they expire.
+
+import { CellSnapshot, CrossRefFlag, FlagWaiver, FlagWaiverKind } from './CrossRefTypes'
+
+export interface FlagWaiverSummary {
+  activeFlags: number
+  acknowledgedFlags: number
+  waivedFlags: number
+  /** Waivers past their expiry date; their flags count as active again */
+  expiredWaivers: number
+}
+
+export interface FlagWaiverInput {
+  kind: FlagWaiverKind
+  reason: string
+  author: string
+  expiresAt?: string
+}
+
+/**
+ * Key a waiver matches on: the custom rule id, or the built-in flag type
+ */
+export const getFlagKey = (flag: CrossRefFlag): string => flag.ruleId ?? flag.type
+
+export const createFlagWaiver = (flag: CrossRefFlag, input: FlagWaiverInput): FlagWaiver => ({
+  id: crypto.randomUUID(),
+  kind: input.kind,
+  flagKey: getFlagKey(flag),
+  stationKey: flag.stationKey,
+  robotKey: flag.robotKey,
+  gunKey: flag.gunKey,
+  reason: input.reason,
+  author: input.author,
+  createdAt: new Date().toISOString(),
+  expiresAt: input.expiresAt,
+})
+
+export const isWaiverActive = (waiver: FlagWaiver, now: Date = new Date()): boolean =>
+  !waiver.expiresAt || new Date(waiver.expiresAt).getTime() > now.getTime()
+
+export const waiverMatchesFlag = (waiver: FlagWaiver, flag: CrossRefFlag): boolean =>
+  waiver.flagKey === getFlagKey(flag) &&
+  waiver.stationKey === flag.stationKey &&
+  waiver.robotKey === flag.robotKey &&
+  waiver.gunKey === flag.gunKey
+
+/**
+ * Split flags into those still active and those covered by an active waiver
+ */
+export const partitionWaivedFlags = (
+  flags: CrossRefFlag[],
+  waivers: FlagWaiver[],
+  now: Date = new Date(),
+): { flags: CrossRefFlag[]; waivedFlags: CrossRefFlag[] } => {
+  const activeWaivers = waivers.filter((w) => isWaiverActive(w, now))
+  const result = { flags: [] as CrossRefFlag[], waivedFlags: [] as CrossRefFlag[] }
+
+  for (const flag of flags) {
+    const waiver = activeWaivers.find((w) => waiverMatchesFlag(w, flag))
+    if (waiver) {
+      result.waivedFlags.push({ ...flag, waiverId: waiver.id })
+    } else {
+      result.flags.push(flag)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Flag counts split by waiver state, for data health reporting
+ */
+export const summarizeFlagWaivers = (
+  cells: CellSnapshot[],
+  waivers: FlagWaiver[],
+  now: Date = new Date(),
+): FlagWaiverSummary => {
+  const kindById = new Map(waivers.map((w) => [w.id, w.kind]))
+  const summary: FlagWaiverSummary = {
+    activeFlags: 0,
+    acknowledgedFlags: 0,
+    waivedFlags: 0,
+    expiredWaivers: waivers.filter((w) => !isWaiverActive(w, now)).length,
+  }
+
+  for (const cell of cells) {
+    summary.activeFlags += cell.flags.length
+    for (const flag of cell.waivedFlags ?? []) {
+      if (kindById.get(flag.waiverId ?? '') === 'ACKNOWLEDGED') {
+        summary.acknowledgedFlags++
+      } else {
+        summary.waivedFlags++
+      }
+    }
+  }
+
+  return summary
+}
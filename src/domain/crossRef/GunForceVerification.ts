@@ -0,0 +1,286 @@
+// Gun Force Verification
+// Checks robot–weld gun assignments against Zangenpool required forces,
+// the reuse gun's rated force and the robot's payload class
+
+import { UnifiedAsset } from '../core'
+import { RobotGunAssignment } from '../types'
+import { CellSnapshot, GunForceSnapshot, WeldGunSnapshot } from './CrossRefTypes'
+import { normalizeGunKey, normalizeStationId } from './CrossRefUtils'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GunForceVerdict = 'PASS' | 'FAIL' | 'UNKNOWN'
+
+/**
+ * Verification result for one robot–weld gun assignment.
+ * Forces are compared as given; Zangenpool and the reuse lists both use kN.
+ */
+export interface GunForceVerification {
+  assignmentId: string
+  stationKey: string
+  robotKey: string
+  gunKey: string
+  /** Highest required force among the matching Zangenpool records */
+  requiredForce?: number
+  /** Rated force of the candidate reuse gun */
+  maxForce?: number
+  forceResult: GunForceVerdict
+  robotPayload?: string
+  gunPayload?: string
+  payloadResult: GunForceVerdict
+  /** FAIL if either check fails, UNKNOWN if either is unknown, else PASS */
+  result: GunForceVerdict
+  reasons: string[]
+}
+
+export interface GunForceVerificationInput {
+  assignments: RobotGunAssignment[]
+  assets: UnifiedAsset[]
+  /** Zangenpool records */
+  gunForces: GunForceSnapshot[]
+  /** Reuse weld gun rows, used to reach force records through their application robot */
+  weldGuns: WeldGunSnapshot[]
+}
+
+export interface GunForceVerificationSummary {
+  total: number
+  pass: number
+  fail: number
+  unknown: number
+}
+
+// ============================================================================
+// FIELD EXTRACTION
+// ============================================================================
+
+const normalizeLabel = (value: unknown): string =>
+  value === null || value === undefined
+    ? ''
+    : String(value)
+        .toLowerCase()
+        .replace(/[\s_-]+/g, '')
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+  if (typeof value !== 'string') return undefined
+  const match = value.replace(',', '.').match(/-?\d+(\.\d+)?/)
+  return match ? parseFloat(match[0]) : undefined
+}
+
+const firstMetadataValue = (asset: UnifiedAsset, keys: string[]): unknown =>
+  keys.map((key) => asset.metadata?.[key]).find((v) => v !== null && v !== undefined && v !== '')
+
+const getMaxForce = (gun: UnifiedAsset): number | undefined =>
+  toNumber(gun.maxForce ?? firstMetadataValue(gun, ['Max Force (kN)', 'Max Force', 'maxForce']))
+
+const getRobotPayload = (robot: UnifiedAsset): string | undefined => {
+  const value =
+    robot.payloadClass ?? firstMetadataValue(robot, ['Payload (kg)', 'Payload', 'payloadClass'])
+  return value === undefined ? undefined : String(value)
+}
+
+const getGunPayload = (gun: UnifiedAsset): string | undefined => {
+  const value = gun.payloadClass ?? firstMetadataValue(gun, ['Weight (kg)', 'Gun Weight', 'Weight'])
+  return value === undefined ? undefined : String(value)
+}
+
+/** Zangenpool force columns, compared with spaces, units and punctuation removed */
+const FORCE_KEYS = [
+  'gunforce',
+  'gunforcekn',
+  'requiredforce',
+  'requiredforcekn',
+  'force',
+  'forcekn',
+]
+
+const getRequiredForceValue = (asset: UnifiedAsset): unknown =>
+  Object.entries(asset.metadata ?? {}).find(
+    ([key, value]) =>
+      FORCE_KEYS.includes(key.toLowerCase().replace(/[^a-z0-9]/g, '')) &&
+      value !== null &&
+      value !== undefined &&
+      value !== '',
+  )?.[1]
+
+const getGunKeys = (gun: UnifiedAsset): string[] =>
+  [gun.gunNumber, gun.name, gun.metadata?.['Gun No'], gun.metadata?.['Gun Number']]
+    .map((v) => normalizeGunKey(v))
+    .filter(Boolean)
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Payload classes ("Class 3") are compared with classes and kilograms with
+ * kilograms; a class on one side and a weight on the other cannot be judged.
+ */
+export const comparePayload = (
+  robotPayload: string | undefined,
+  gunPayload: string | undefined,
+): GunForceVerdict => {
+  if (!robotPayload || !gunPayload) return 'UNKNOWN'
+
+  const classPattern = /class\s*(\d+)/i
+  const robotClass = robotPayload.match(classPattern)
+  const gunClass = gunPayload.match(classPattern)
+
+  if (robotClass && gunClass) {
+    return parseInt(robotClass[1], 10) >= parseInt(gunClass[1], 10) ? 'PASS' : 'FAIL'
+  }
+  if (robotClass || gunClass) return 'UNKNOWN'
+
+  const robotKg = toNumber(robotPayload)
+  const gunKg = toNumber(gunPayload)
+  if (robotKg === undefined || gunKg === undefined) return 'UNKNOWN'
+  return gunKg <= robotKg ? 'PASS' : 'FAIL'
+}
+
+export const compareForce = (
+  requiredForce: number | undefined,
+  maxForce: number | undefined,
+): GunForceVerdict => {
+  if (requiredForce === undefined || maxForce === undefined) return 'UNKNOWN'
+  return requiredForce <= maxForce ? 'PASS' : 'FAIL'
+}
+
+const combineVerdicts = (verdicts: GunForceVerdict[]): GunForceVerdict => {
+  if (verdicts.includes('FAIL')) return 'FAIL'
+  if (verdicts.includes('UNKNOWN')) return 'UNKNOWN'
+  return 'PASS'
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Verify every active assignment. Force records are found by the gun's
+ * number, by reuse weld guns listed for the same robot, or by the robot number
+ * on the force record itself.
+ */
+export const verifyGunForces = (input: GunForceVerificationInput): GunForceVerification[] => {
+  const assetsById = new Map(input.assets.map((a) => [a.id, a]))
+
+  const forcesByGun = new Map<string, GunForceSnapshot[]>()
+  for (const force of input.gunForces) {
+    const key = normalizeGunKey(force.gunKey)
+    if (!key) continue
+    forcesByGun.set(key, [...(forcesByGun.get(key) ?? []), force])
+  }
+
+  return input.assignments
+    .filter((a) => a.isActive)
+    .map((assignment) => {
+      const robot = assetsById.get(assignment.robotId)
+      const gun = assetsById.get(assignment.weldGunId)
+      const stationKey = normalizeStationId(assignment.stationNumber)
+      const robotLabel = normalizeLabel(robot?.name)
+
+      const gunKeys = new Set(gun ? getGunKeys(gun) : [])
+      for (const weldGun of input.weldGuns) {
+        if (!robotLabel || normalizeLabel(weldGun.applicationRobot) !== robotLabel) continue
+        if (stationKey && normalizeStationId(weldGun.stationKey) !== stationKey) continue
+        gunKeys.add(normalizeGunKey(weldGun.gunKey))
+      }
+
+      const forces = new Set<GunForceSnapshot>()
+      for (const key of gunKeys) {
+        for (const force of forcesByGun.get(key) ?? []) forces.add(force)
+      }
+      if (forces.size === 0 && robotLabel) {
+        for (const force of input.gunForces) {
+          if (normalizeLabel(force.robotNumber) === robotLabel) forces.add(force)
+        }
+      }
+
+      const requiredForces = [...forces]
+        .map((f) => f.requiredForce)
+        .filter((f): f is number => typeof f === 'number' && Number.isFinite(f))
+      const requiredForce = requiredForces.length > 0 ? Math.max(...requiredForces) : undefined
+      const maxForce = gun ? getMaxForce(gun) : undefined
+      const robotPayload = robot ? getRobotPayload(robot) : undefined
+      const gunPayload = gun ? getGunPayload(gun) : undefined
+
+      const forceResult = compareForce(requiredForce, maxForce)
+      const payloadResult = comparePayload(robotPayload, gunPayload)
+
+      const gunKey = gun?.gunNumber ?? gun?.name ?? assignment.weldGunId
+      const reasons: string[] = []
+      if (requiredForce === undefined) reasons.push('No Zangenpool force record for this gun')
+      if (maxForce === undefined) reasons.push('Gun has no rated max force')
+      if (forceResult === 'FAIL') {
+        reasons.push(`Required force ${requiredForce} kN exceeds gun max force ${maxForce} kN`)
+      }
+      if (payloadResult === 'UNKNOWN')
+        reasons.push('Robot payload and gun weight are not comparable')
+      if (payloadResult === 'FAIL') {
+        reasons.push(`Gun ${gunPayload} exceeds robot payload ${robotPayload}`)
+      }
+
+      return {
+        assignmentId: assignment.id,
+        stationKey,
+        robotKey: robot?.name ?? assignment.robotId,
+        gunKey,
+        requiredForce,
+        maxForce,
+        forceResult,
+        robotPayload,
+        gunPayload,
+        payloadResult,
+        result: combineVerdicts([forceResult, payloadResult]),
+        reasons,
+      }
+    })
+}
+
+/**
+ * Build Zangenpool force records from imported tool assets. Only assets whose
+ * metadata carries a required force column are taken.
+ */
+export const buildGunForceSnapshots = (assets: UnifiedAsset[]): GunForceSnapshot[] =>
+  assets.flatMap((asset) => {
+    const requiredForce = toNumber(getRequiredForceValue(asset))
+    if (requiredForce === undefined) return []
+
+    const gunKey = firstMetadataValue(asset, ['Gun Number', 'Gun ID', 'Gun']) ?? asset.gunNumber
+    const robotNumber = firstMetadataValue(asset, ['Robot Number', 'Robot'])
+    const area = asset.areaName ?? firstMetadataValue(asset, ['Area'])
+
+    return [
+      {
+        gunKey: normalizeGunKey(gunKey ?? asset.name),
+        requiredForce,
+        area: area === undefined ? undefined : String(area),
+        robotNumber: robotNumber === undefined ? undefined : String(robotNumber),
+        quantity: toNumber(firstMetadataValue(asset, ['Quantity', 'Qty'])),
+        raw: { ...asset.metadata },
+      },
+    ]
+  })
+
+/**
+ * Collect Zangenpool records from the imported assets and reuse weld gun rows
+ * from cross-reference cells. Cells only carry force records once they are
+ * matched to weld gun rows, so assets are the source for forces.
+ */
+export const collectGunForceData = (
+  cells: CellSnapshot[],
+  assets: UnifiedAsset[],
+): Pick<GunForceVerificationInput, 'gunForces' | 'weldGuns'> => ({
+  gunForces: buildGunForceSnapshots(assets),
+  weldGuns: cells.flatMap((c) => c.weldGuns),
+})
+
+export const summarizeGunForceVerifications = (
+  results: GunForceVerification[],
+): GunForceVerificationSummary => ({
+  total: results.length,
+  pass: results.filter((r) => r.result === 'PASS').length,
+  fail: results.filter((r) => r.result === 'FAIL').length,
+  unknown: results.filter((r) => r.result === 'UNKNOWN').length,
+})
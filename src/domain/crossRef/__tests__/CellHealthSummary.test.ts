@@ -3,7 +3,12 @@
 
 import { describe, it, expect } from 'vitest'
 import { summarizeCellHealth, buildCellHealthSummaries } from '../CellHealthSummary'
-import { CellSnapshot, CrossRefFlag, SimulationStatusSnapshot } from '../CrossRefTypes'
+import {
+  CellSnapshot,
+  CrossRefFlag,
+  GunCheckSnapshot,
+  SimulationStatusSnapshot,
+} from '../CrossRefTypes'
 
 // ============================================================================
 // TEST HELPERS
@@ -20,6 +25,7 @@ const makeCell = (partial: Partial<CellSnapshot>): CellSnapshot => ({
   gunForces: partial.gunForces || [],
   risers: partial.risers || [],
   flags: partial.flags || [],
+  gunChecks: partial.gunChecks,
 })
 
 const makeSimStatus = (partial: Partial<SimulationStatusSnapshot>): SimulationStatusSnapshot => ({
@@ -248,6 +254,33 @@ describe('CellHealthSummary', () => {
       expect(summary.gunForceCount).toBe(0)
       expect(summary.riserCount).toBe(0)
     })
+
+    it('counts gun check sign-offs and raises failed checks as warnings', () => {
+      const makeCheck = (state: GunCheckSnapshot['state'], gunKey: string): GunCheckSnapshot => ({
+        assignmentId: `rga:${gunKey}`,
+        stationKey: '080',
+        cellId: 'c1',
+        robotKey: 'R01',
+        gunKey,
+        state,
+      })
+      const cell = makeCell({
+        stationKey: '080',
+        gunChecks: [
+          makeCheck('APPROVED', 'G01'),
+          makeCheck('FAILED', 'G02'),
+          makeCheck('NOT_CHECKED', 'G03'),
+        ],
+      })
+
+      const summary = summarizeCellHealth(cell)
+
+      expect(summary.gunCheckCount).toBe(3)
+      expect(summary.approvedGunCheckCount).toBe(1)
+      expect(summary.failedGunCheckCount).toBe(1)
+      expect(summary.riskLevel).toBe('AT_RISK')
+      expect(summary.warningReasons).toEqual(['Gun check failed for G02 on robot R01'])
+    })
   })
 
   describe('buildCellHealthSummaries', () => {
@@ -0,0 +1,132 @@
+// Cross-Reference Rules Tests
+// User-defined rules and per-project overrides of built-in flags
+
+import { describe, it, expect } from 'vitest'
+import { buildCrossRef, applyRulesToCrossRef } from '../CrossRefEngine'
+import {
+  EXAMPLE_RULES,
+  createEmptyRuleSet,
+  setRuleOverride,
+  validateRuleDefinitions,
+} from '../CrossRefRules'
+import { CrossRefInput, CrossRefRuleSet } from '../CrossRefTypes'
+import { createEmptyPanelMilestones } from '../../../ingestion/simulationStatus/simulationStatusTypes'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const input: CrossRefInput = {
+  simulationStatusRows: [
+    { stationKey: '010', projectId: 'P1', raw: {}, panelMilestones: createEmptyPanelMilestones() },
+    { stationKey: '020', projectId: 'P2', raw: {} },
+  ],
+  toolingRows: [
+    {
+      stationKey: '010',
+      toolType: 'GRIPPER',
+      simLeader: 'Werner',
+      raw: { metadata: { Weight: '180 kg' } },
+    },
+    { stationKey: '020', toolType: 'SEALER', simLeader: 'Werner', raw: {} },
+  ],
+  robotSpecsRows: [
+    { stationKey: '010', robotKey: 'R01', hasDressPackInfo: true, raw: { payloadClass: '165kg' } },
+    { stationKey: '010', robotKey: 'R02', hasDressPackInfo: true, raw: { payloadClass: '210kg' } },
+    { stationKey: '020', robotKey: 'R03', hasDressPackInfo: false, raw: {} },
+  ],
+  weldGunRows: [],
+  gunForceRows: [],
+  riserRows: [],
+}
+
+const examples: CrossRefRuleSet = { rules: EXAMPLE_RULES, projectOverrides: {} }
+
+const cellFlags = (result: ReturnType<typeof buildCrossRef>, stationKey: string) =>
+  result.cells.find((c) => c.stationKey === stationKey)?.flags ?? []
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('CrossRefRules', () => {
+  it('raises custom flags alongside built-in flags', () => {
+    const result = buildCrossRef(input, { ruleSet: examples })
+
+    const payloadFlags = cellFlags(result, '10').filter((f) => f.type === 'CUSTOM_RULE')
+    expect(payloadFlags).toEqual([
+      expect.objectContaining({
+        ruleId: 'robot-payload-below-gripper-weight',
+        robotKey: 'R01',
+        severity: 'ERROR',
+        message: 'Robot R01 payload class 165kg is below a gripper weight',
+      }),
+    ])
+
+    const station20 = cellFlags(result, '20')
+    expect(station20.map((f) => f.ruleId ?? f.type)).toEqual([
+      'ROBOT_MISSING_DRESS_PACK_INFO',
+      'sealer-tool-without-sealer-milestones',
+    ])
+    expect(result.stats.totalFlags).toBe(3)
+  })
+
+  it('applies project overrides over the all-projects default', () => {
+    let ruleSet = setRuleOverride(examples, '*', 'ROBOT_MISSING_DRESS_PACK_INFO', {
+      severity: 'ERROR',
+    })
+    ruleSet = setRuleOverride(ruleSet, 'P2', 'sealer-tool-without-sealer-milestones', {
+      enabled: false,
+    })
+    ruleSet = setRuleOverride(ruleSet, 'P1', 'ROBOT_MISSING_DRESS_PACK_INFO', { enabled: false })
+
+    const station20 = cellFlags(buildCrossRef(input, { ruleSet }), '20')
+
+    expect(station20).toHaveLength(1)
+    expect(station20[0]).toMatchObject({ type: 'ROBOT_MISSING_DRESS_PACK_INFO', severity: 'ERROR' })
+  })
+
+  it('re-applies a changed rule set to an existing result', () => {
+    const built = buildCrossRef(input)
+    expect(built.stats.totalFlags).toBe(1)
+
+    const withRules = applyRulesToCrossRef(built, { ruleSet: examples })
+    expect(withRules.stats.totalFlags).toBe(3)
+
+    const disabled = setRuleOverride(examples, '*', 'ROBOT_MISSING_DRESS_PACK_INFO', {
+      enabled: false,
+    })
+    const reapplied = applyRulesToCrossRef(withRules, { ruleSet: disabled })
+    expect(reapplied.stats.totalFlags).toBe(2)
+
+    // Built-in flags come back once the override is removed
+    const restored = applyRulesToCrossRef(reapplied, { ruleSet: createEmptyRuleSet() })
+    expect(restored.stats.totalFlags).toBe(1)
+    expect(restored.cellHealthSummaries.find((s) => s.stationKey === '20')?.flags).toHaveLength(1)
+  })
+
+  it('validates rule definitions imported as JSON', () => {
+    expect(validateRuleDefinitions(JSON.parse(JSON.stringify(EXAMPLE_RULES))).success).toBe(true)
+    expect(validateRuleDefinitions({}).success).toBe(false)
+
+    const badOperator = validateRuleDefinitions([
+      { ...EXAMPLE_RULES[1], when: { field: 'cell.areaKey', op: 'like' } },
+    ])
+    expect(badOperator).toMatchObject({ success: false })
+
+    const builtInId = validateRuleDefinitions([{ ...EXAMPLE_RULES[1], id: 'TOOL_WITHOUT_OWNER' }])
+    expect(builtInId).toMatchObject({ success: false })
+  })
+
+  it('rejects prototype property names as scope or count collection', () => {
+    for (const name of ['constructor', 'toString']) {
+      const badScope = validateRuleDefinitions([{ ...EXAMPLE_RULES[1], scope: name }])
+      expect(badScope).toMatchObject({ success: false })
+
+      const badCount = validateRuleDefinitions([
+        { ...EXAMPLE_RULES[1], when: { count: name, op: 'gt', value: 0 } },
+      ])
+      expect(badCount).toMatchObject({ success: false })
+    }
+  })
+})
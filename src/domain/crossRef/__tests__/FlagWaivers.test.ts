@@ -0,0 +1,90 @@
+// Flag Waivers Tests
+// Acknowledged / waived flags stay out of risk levels across re-imports
+
+import { describe, it, expect } from 'vitest'
+import { buildCrossRef, applyRulesToCrossRef } from '../CrossRefEngine'
+import { createFlagWaiver, summarizeFlagWaivers } from '../FlagWaivers'
+import { CrossRefInput, FlagWaiver } from '../CrossRefTypes'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const input: CrossRefInput = {
+  simulationStatusRows: [{ stationKey: '010', raw: {} }],
+  toolingRows: [],
+  robotSpecsRows: [
+    { stationKey: '010', robotKey: 'R01', hasDressPackInfo: false, raw: {} },
+    { stationKey: '010', robotKey: 'R02', hasDressPackInfo: false, raw: {} },
+  ],
+  weldGunRows: [],
+  gunForceRows: [],
+  riserRows: [],
+}
+
+const now = new Date('2026-06-01T00:00:00Z')
+
+const waiveDressPack = (robotKey: string, overrides: Partial<FlagWaiver> = {}): FlagWaiver => ({
+  ...createFlagWaiver(
+    {
+      type: 'ROBOT_MISSING_DRESS_PACK_INFO',
+      stationKey: '10',
+      robotKey,
+      message: '',
+      severity: 'WARNING',
+    },
+    { kind: 'WAIVED', reason: 'Dress pack reused from old line', author: 'Dale' },
+  ),
+  ...overrides,
+})
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('FlagWaivers', () => {
+  it('moves waived flags out of the cell flags on every rebuild', () => {
+    const waivers = [waiveDressPack('R01')]
+
+    // Each import rebuilds flags from scratch; the waiver still matches by key
+    for (let i = 0; i < 2; i++) {
+      const result = buildCrossRef(input, { waivers, now })
+      const cell = result.cells[0]
+
+      expect(cell.flags.map((f) => f.robotKey)).toEqual(['R02'])
+      expect(cell.waivedFlags).toEqual([
+        expect.objectContaining({ robotKey: 'R01', waiverId: waivers[0].id }),
+      ])
+      expect(result.stats).toMatchObject({ totalFlags: 1, waivedFlags: 1 })
+    }
+  })
+
+  it('lets flags come back once the waiver expires or is revoked', () => {
+    const waivers = [waiveDressPack('R01', { expiresAt: '2026-05-31T23:59:59Z' })]
+
+    const expired = buildCrossRef(input, { waivers, now })
+    expect(expired.cells[0].flags).toHaveLength(2)
+
+    const waived = applyRulesToCrossRef(expired, { waivers: [waiveDressPack('R01')], now })
+    expect(waived.cells[0].flags).toHaveLength(1)
+
+    const revoked = applyRulesToCrossRef(waived, { waivers: [], now })
+    expect(revoked.cells[0].flags).toHaveLength(2)
+    expect(revoked.cellHealthSummaries[0].flags).toHaveLength(2)
+  })
+
+  it('summarizes acknowledged, waived and expired counts separately', () => {
+    const waivers = [
+      waiveDressPack('R01', { kind: 'ACKNOWLEDGED' }),
+      waiveDressPack('R02', { id: 'old', expiresAt: '2026-01-01T00:00:00Z' }),
+    ]
+    const result = buildCrossRef(input, { waivers, now })
+
+    expect(summarizeFlagWaivers(result.cells, waivers, now)).toEqual({
+      activeFlags: 1,
+      acknowledgedFlags: 1,
+      waivedFlags: 0,
+      expiredWaivers: 1,
+    })
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * Tests for gun force verification against Zangenpool data
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { Robot, Tool, UnifiedAsset } from '../../core'
+import { RobotGunAssignment } from '../../types'
+import { GunForceSnapshot, WeldGunSnapshot } from '../CrossRefTypes'
+import {
+  buildGunForceSnapshots,
+  collectGunForceData,
+  comparePayload,
+  summarizeGunForceVerifications,
+  verifyGunForces,
+} from '../GunForceVerification'
+import { generateGunForceReportCsv } from '../../../utils/csvExport'
+import { parseToolList } from '../../../ingestion/toolListParser'
+
+const source = { sourceFile: 'test.xlsx', sheetName: 'Sheet1', rowIndex: 0 }
+
+const robot: Robot = {
+  id: 'r1',
+  name: 'R01',
+  kind: 'ROBOT',
+  sourcing: 'UNKNOWN',
+  metadata: {},
+  toolIds: [],
+  payloadClass: 'Class 4',
+  ...source,
+}
+
+const makeGun = (partial: Partial<Tool> = {}): Tool => ({
+  id: 'g1',
+  name: 'G01',
+  gunNumber: 'G01_X_300',
+  kind: 'GUN',
+  sourcing: 'REUSE',
+  metadata: {},
+  toolType: 'SPOT_WELD',
+  mountType: 'ROBOT_MOUNTED',
+  maxForce: 3.5,
+  payloadClass: 'Class 3',
+  ...source,
+  ...partial,
+})
+
+const assignment: RobotGunAssignment = {
+  id: 'rga:r1:g1',
+  robotId: 'r1',
+  weldGunId: 'g1',
+  areaId: 'a1',
+  cellId: 'c1',
+  stationNumber: '010',
+  fromDate: null,
+  toDate: null,
+  isActive: true,
+}
+
+const force = (gunKey: string, requiredForce?: number, robotNumber?: string): GunForceSnapshot => ({
+  gunKey,
+  requiredForce,
+  robotNumber,
+  raw: {},
+})
+
+const verify = (
+  assets: UnifiedAsset[],
+  gunForces: GunForceSnapshot[],
+  weldGuns: WeldGunSnapshot[] = [],
+) => verifyGunForces({ assignments: [assignment], assets, gunForces, weldGuns })
+
+describe('verifyGunForces', () => {
+  it('passes when the gun covers the required force and fits the robot payload', () => {
+    const [result] = verify([robot, makeGun()], [force('G01-X-300', 3.2)])
+
+    expect(result).toMatchObject({
+      stationKey: '10',
+      robotKey: 'R01',
+      gunKey: 'G01_X_300',
+      requiredForce: 3.2,
+      maxForce: 3.5,
+      forceResult: 'PASS',
+      payloadResult: 'PASS',
+      result: 'PASS',
+      reasons: [],
+    })
+  })
+
+  it('fails on the highest required force of all matching records', () => {
+    const [result] = verify([robot, makeGun()], [force('G01_X_300', 3.0), force('G01_X_300', 4.2)])
+
+    expect(result.requiredForce).toBe(4.2)
+    expect(result.result).toBe('FAIL')
+    expect(result.reasons).toContain('Required force 4.2 kN exceeds gun max force 3.5 kN')
+  })
+
+  it('fails when the gun needs a larger payload class than the robot', () => {
+    const [result] = verify([robot, makeGun({ payloadClass: 'Class 5' })], [force('G01_X_300', 3)])
+
+    expect(result.forceResult).toBe('PASS')
+    expect(result.payloadResult).toBe('FAIL')
+    expect(result.result).toBe('FAIL')
+  })
+
+  it('reaches force records through reuse guns listed for the robot', () => {
+    const weldGun: WeldGunSnapshot = {
+      stationKey: '10',
+      gunKey: 'ZG-7',
+      applicationRobot: 'R 01',
+      raw: {},
+    }
+
+    const [result] = verify([robot, makeGun()], [force('ZG_7', 2.8)], [weldGun])
+
+    expect(result.requiredForce).toBe(2.8)
+    expect(result.forceResult).toBe('PASS')
+  })
+
+  it('falls back to the robot number on the force record', () => {
+    const [result] = verify([robot, makeGun()], [force('OTHER', 3.6, 'R01')])
+
+    expect(result.forceResult).toBe('FAIL')
+  })
+
+  it('reports unknown when force data is missing', () => {
+    const [result] = verify([robot, makeGun({ maxForce: null })], [])
+
+    expect(result.forceResult).toBe('UNKNOWN')
+    expect(result.result).toBe('UNKNOWN')
+    expect(result.reasons).toEqual([
+      'No Zangenpool force record for this gun',
+      'Gun has no rated max force',
+    ])
+  })
+
+  it('skips inactive assignments', () => {
+    const results = verifyGunForces({
+      assignments: [{ ...assignment, isActive: false }],
+      assets: [robot, makeGun()],
+      gunForces: [],
+      weldGuns: [],
+    })
+
+    expect(results).toEqual([])
+  })
+})
+
+describe('gun force verification from a Zangenpool import', () => {
+  const makeZangenpool = (): XLSX.WorkBook => {
+    const workbook = XLSX.utils.book_new()
+    const sheet = XLSX.utils.aoa_to_sheet([
+      [
+        'Gun Number',
+        'Gun Force',
+        'Quantity',
+        'Reserve',
+        'Old Line',
+        'Robot Number',
+        'Area',
+        'Station',
+      ],
+      ['G01_X_300', 3.2, 1, 0, 'L1', 'R01', 'Underbody', '010'],
+      ['G02_C_450', 4.8, 1, 0, 'L1', 'R02', 'Underbody', '020'],
+    ])
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Zaragoza Allocation')
+    return workbook
+  }
+
+  it('reads required forces from the imported tools', async () => {
+    const { tools } = await parseToolList(makeZangenpool(), 'Zangenpool_TMS.xlsx')
+
+    expect(buildGunForceSnapshots(tools)).toEqual([
+      expect.objectContaining({ gunKey: 'G01_X_300', requiredForce: 3.2, robotNumber: 'R01' }),
+      expect.objectContaining({ gunKey: 'G02_C_450', requiredForce: 4.8, robotNumber: 'R02' }),
+    ])
+  })
+
+  it('reaches PASS and FAIL verdicts from the import', async () => {
+    const { tools } = await parseToolList(makeZangenpool(), 'Zangenpool_TMS.xlsx')
+    const robot2: Robot = { ...robot, id: 'r2', name: 'R02' }
+    const assets: UnifiedAsset[] = [
+      robot,
+      robot2,
+      makeGun(),
+      makeGun({ id: 'g2', name: 'G02', gunNumber: 'G02_C_450', maxForce: 4.0 }),
+      ...tools,
+    ]
+
+    const results = verifyGunForces({
+      assignments: [assignment, { ...assignment, id: 'rga:r2:g2', robotId: 'r2', weldGunId: 'g2' }],
+      assets,
+      ...collectGunForceData([], assets),
+    })
+
+    expect(results.map((r) => [r.gunKey, r.requiredForce, r.result])).toEqual([
+      ['G01_X_300', 3.2, 'PASS'],
+      ['G02_C_450', 4.8, 'FAIL'],
+    ])
+  })
+})
+
+describe('comparePayload', () => {
+  it('compares kilograms with kilograms', () => {
+    expect(comparePayload('210', '95 kg')).toBe('PASS')
+    expect(comparePayload('80', '95 kg')).toBe('FAIL')
+  })
+
+  it('cannot compare a class with a weight', () => {
+    expect(comparePayload('Class 4', '95 kg')).toBe('UNKNOWN')
+    expect(comparePayload(undefined, 'Class 3')).toBe('UNKNOWN')
+  })
+})
+
+describe('gun force report', () => {
+  it('summarizes and exports results', () => {
+    const results = verify([robot, makeGun()], [force('G01_X_300', 4.2)])
+
+    expect(summarizeGunForceVerifications(results)).toEqual({
+      total: 1,
+      pass: 0,
+      fail: 1,
+      unknown: 0,
+    })
+
+    const [header, row] = generateGunForceReportCsv(results).split('\n')
+    expect(header).toContain('Required Force (kN)')
+    expect(row).toBe(
+      '10,R01,G01_X_300,4.2,3.5,FAIL,Class 4,Class 3,PASS,FAIL,Required force 4.2 kN exceeds gun max force 3.5 kN',
+    )
+  })
+})
@@ -3,5 +3,8 @@
 
 export * from './CrossRefTypes'
 export * from './CrossRefUtils'
-export { buildCrossRef } from './CrossRefEngine'
+export { buildCrossRef, applyRulesToCrossRef } from './CrossRefEngine'
+export * from './CrossRefRules'
+export * from './FlagWaivers'
+export * from './GunForceVerification'
 export { summarizeCellHealth, buildCellHealthSummaries } from './CellHealthSummary'
@@ -1,7 +1,7 @@
 import {
     Project, Area, Cell, User, ChecklistTemplate, ChecklistItemTemplate,
-    Checklist, ChecklistItem, ChangeLogEntry, Robot, WeldGun,
-    RobotGunAssignment, GunCheckStatus, Stand, SpotWeldRef
+    Robot, WeldGun,
+    Stand
 } from './types'
 
 // --- USERS ---
@@ -73,40 +73,21 @@ export const cells: Cell[] = [
 ]
 
 // --- CHECKLIST TEMPLATES ---
+// Default templates seeded into coreStore; checklists themselves live in the store
 export const checklistTemplates: ChecklistTemplate[] = [
-    { id: 't1', name: 'PRE_SIM Feasibility', description: 'Initial reach and access checks', phase: 'PRE_SIM', isActive: true },
-    { id: 't2', name: 'FULL_SIM Validation', description: 'Final path and cycle time validation', phase: 'FULL_SIM', isActive: true }
+    { id: 't1', familyId: 't1', version: 1, name: 'PRE_SIM Feasibility', description: 'Initial reach and access checks', phase: 'PRE_SIM', isActive: true },
+    { id: 't2', familyId: 't2', version: 1, name: 'FULL_SIM Validation', description: 'Final path and cycle time validation', phase: 'FULL_SIM', isActive: true }
 ]
 
 export const checklistItemTemplates: ChecklistItemTemplate[] = [
     // PRE_SIM
-    { id: 'it1', templateId: 't1', label: 'Robot Reach Check', isMandatory: true, sortOrder: 10 },
-    { id: 'it2', templateId: 't1', label: 'Gun Access Check', isMandatory: true, sortOrder: 20 },
-    { id: 'it3', templateId: 't1', label: 'Payload Verification', isMandatory: true, sortOrder: 30 },
+    { id: 'it1', templateId: 't1', itemKey: 'it1', label: 'Robot Reach Check', isMandatory: true, sortOrder: 10 },
+    { id: 'it2', templateId: 't1', itemKey: 'it2', label: 'Gun Access Check', isMandatory: true, sortOrder: 20 },
+    { id: 'it3', templateId: 't1', itemKey: 'it3', label: 'Payload Verification', isMandatory: true, sortOrder: 30 },
     // FULL_SIM
-    { id: 'it4', templateId: 't2', label: 'Collision Free Paths', isMandatory: true, sortOrder: 10 },
-    { id: 'it5', templateId: 't2', label: 'Cycle Time < Target', isMandatory: true, sortOrder: 20 },
-    { id: 'it6', templateId: 't2', label: 'Cables Dress Pack Check', isMandatory: false, sortOrder: 30 }
-]
-
-// --- CHECKLISTS ---
-export const checklists: Checklist[] = [
-    {
-        id: 'cl1', cellId: 'c1', templateId: 't1', status: 'IN_PROGRESS',
-        ownerUserId: 'u2', createdAt: '2025-11-20T10:00:00Z', updatedAt: '2025-11-28T10:00:00Z'
-    }
-]
-
-export const checklistItems: ChecklistItem[] = [
-    { id: 'ci1', checklistId: 'cl1', templateItemId: 'it1', status: 'DONE', comment: 'All robots reach', updatedAt: '2025-11-25T10:00:00Z' },
-    { id: 'ci2', checklistId: 'cl1', templateItemId: 'it2', status: 'IN_PROGRESS', comment: 'Gun 2 tight on weld 45', updatedAt: '2025-11-28T10:00:00Z' },
-    { id: 'ci3', checklistId: 'cl1', templateItemId: 'it3', status: 'PENDING', comment: '', updatedAt: '2025-11-20T10:00:00Z' }
-]
-
-// --- CHANGE LOG ---
-export const changeLogEntries: ChangeLogEntry[] = [
-    { id: 'le1', cellId: 'c1', userId: 'u2', createdAt: '2025-11-28T09:00:00Z', text: 'Moved R1 base +50mm X to clear column' },
-    { id: 'le2', cellId: 'c3', userId: 'u2', createdAt: '2025-11-29T08:30:00Z', text: 'Flagged collision on Clamp C4' }
+    { id: 'it4', templateId: 't2', itemKey: 'it4', label: 'Collision Free Paths', isMandatory: true, sortOrder: 10 },
+    { id: 'it5', templateId: 't2', itemKey: 'it5', label: 'Cycle Time < Target', isMandatory: true, sortOrder: 20 },
+    { id: 'it6', templateId: 't2', itemKey: 'it6', label: 'Cables Dress Pack Check', isMandatory: false, sortOrder: 30 }
 ]
 
 // --- PHASE 2: EQUIPMENT ---
@@ -137,28 +118,6 @@ export const weldGuns: WeldGun[] = [
     }
 ]
 
-export const robotGunAssignments: RobotGunAssignment[] = [
-    {
-        id: 'rga1', robotId: 'r2', weldGunId: 'wg1', areaId: 'a1', cellId: 'c1', stationNumber: 'ST-10',
-        fromDate: '2025-01-01', toDate: null, isActive: true
-    },
-    {
-        id: 'rga2', robotId: 'r3', weldGunId: 'wg2', areaId: 'a2', cellId: 'c3', stationNumber: 'ST-20',
-        fromDate: '2025-02-01', toDate: null, isActive: true
-    }
-]
-
-export const gunCheckStatuses: GunCheckStatus[] = [
-    {
-        id: 'gcs1', robotGunAssignmentId: 'rga1', geometryOk: true, payloadOk: true, forceOk: true,
-        approvedAt: '2025-11-10T10:00:00Z', approvedByUserId: 'u1', comments: 'All good'
-    },
-    {
-        id: 'gcs2', robotGunAssignmentId: 'rga2', geometryOk: true, payloadOk: false, forceOk: true,
-        approvedAt: null, approvedByUserId: null, comments: 'Payload exceeds robot limit by 5kg'
-    }
-]
-
 export const stands: Stand[] = [
     {
         id: 's1', kind: 'OTHER', name: 'STD-01', standNumber: 'STD-01', areaId: 'a1', stationNumber: 'ST-10', type: 'TIP_DRESSER', referenceNumber: 'TD-K-01', notes: 'Kyokutoh Dresser',
@@ -169,8 +128,3 @@ export const stands: Stand[] = [
         sourcing: 'NEW_BUY', metadata: {}, sourceFile: 'mock', sheetName: 'mock', rowIndex: 1
     }
 ]
-
-export const spotWeldRefs: SpotWeldRef[] = [
-    { id: 'sw1', weldId: 'W1001', areaId: 'a1', stationNumber: 'ST-10', robotId: 'r2', weldGunId: 'wg1', cellId: 'c1', notes: '' },
-    { id: 'sw2', weldId: 'W1002', areaId: 'a1', stationNumber: 'ST-10', robotId: 'r2', weldGunId: 'wg1', cellId: 'c1', notes: '' }
-]
@@ -0,0 +1,365 @@
+// Registry Undo/Redo History
+// Command stack over registry edits. Every command is described by the
+// AuditEntry it writes, so undo/redo replay the audit trail in reverse.
+
+import { useEffect, useState } from 'react'
+import { coreStore } from './coreStore'
+import {
+  AuditAction,
+  AuditEntry,
+  createActivateAuditEntry,
+  createAddAliasAuditEntry,
+  createDeactivateAuditEntry,
+  createOverrideLabelAuditEntry,
+  createUpdateAttributesAuditEntry,
+} from './auditLog'
+import {
+  AliasRule,
+  EntityStatus,
+  EntityType,
+  RobotRecord,
+  StationRecord,
+  ToolRecord,
+} from './uidTypes'
+import { createAliasRule } from '../ingestion/uidResolver'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RegistryRecord = StationRecord | ToolRecord | RobotRecord
+
+/**
+ * RegistryCommand: A reversible registry edit
+ */
+export interface RegistryCommand {
+  entry: AuditEntry // Forward action as written to the audit log
+  aliasRule?: AliasRule // Rule created by an add_alias command
+  replacedAliasRule?: AliasRule // Rule with the same fromKey that the alias overwrote
+}
+
+export interface RegistryHistoryState {
+  undoStack: RegistryCommand[] // Oldest first
+  redoStack: RegistryCommand[] // Most recently undone last
+}
+
+const MAX_HISTORY = 100
+
+const INVERSE_ACTIONS: Partial<Record<AuditAction, AuditAction>> = {
+  activate: 'deactivate',
+  deactivate: 'activate',
+  add_alias: 'remove_alias',
+  remove_alias: 'add_alias',
+  override_label: 'override_label',
+  update_attributes: 'update_attributes',
+}
+
+let historyState: RegistryHistoryState = { undoStack: [], redoStack: [] }
+
+const listeners = new Set<() => void>()
+
+function setHistoryState(next: RegistryHistoryState) {
+  historyState = next
+  listeners.forEach((callback) => callback())
+}
+
+// ============================================================================
+// COMMAND CREATION
+// ============================================================================
+
+/**
+ * Activate or deactivate a station/tool/robot
+ */
+export function createSetStatusCommand(
+  entityType: EntityType,
+  record: RegistryRecord,
+  status: EntityStatus,
+  reason?: string,
+  user?: string,
+): RegistryCommand {
+  const createEntry = status === 'active' ? createActivateAuditEntry : createDeactivateAuditEntry
+  return { entry: createEntry(record.uid, entityType, record.key, reason, user) }
+}
+
+/**
+ * Map an old key onto a record
+ */
+export function createAddAliasCommand(
+  entityType: EntityType,
+  record: RegistryRecord,
+  fromKey: string,
+  reason?: string,
+  user?: string,
+): RegistryCommand {
+  const aliasRule = createAliasRule(
+    fromKey,
+    record.uid,
+    entityType,
+    reason || 'Manual alias mapping via Registry UI',
+    user,
+  )
+  const replacedAliasRule = coreStore
+    .getState()
+    .aliasRules.find((r) => r.entityType === entityType && r.fromKey === fromKey)
+
+  return {
+    entry: createAddAliasAuditEntry(record.uid, entityType, record.key, fromKey, reason, user),
+    aliasRule,
+    replacedAliasRule,
+  }
+}
+
+/**
+ * Override a single label field. An empty label clears the override.
+ */
+export function createOverrideLabelCommand(
+  entityType: EntityType,
+  record: RegistryRecord,
+  field: string,
+  newLabel: string,
+  reason?: string,
+  user?: string,
+): RegistryCommand {
+  const entry = createOverrideLabelAuditEntry(
+    record.uid,
+    entityType,
+    record.key,
+    field,
+    record.labelOverrides?.[field],
+    newLabel,
+    reason,
+    user,
+  )
+  return { entry: { ...entry, newValue: newLabel || undefined } }
+}
+
+/**
+ * Update record attributes. Undefined values remove the attribute.
+ */
+export function createUpdateAttributesCommand(
+  entityType: EntityType,
+  record: RegistryRecord,
+  updates: Record<string, any>,
+  reason?: string,
+  user?: string,
+): RegistryCommand {
+  const changedFields = Object.keys(updates).filter((f) => record.attributes[f] !== updates[f])
+  const oldAttributes = Object.fromEntries(changedFields.map((f) => [f, record.attributes[f]]))
+  const newAttributes = Object.fromEntries(changedFields.map((f) => [f, updates[f]]))
+
+  return {
+    entry: createUpdateAttributesAuditEntry(
+      record.uid,
+      entityType,
+      record.key,
+      changedFields,
+      oldAttributes,
+      newAttributes,
+      reason,
+      user,
+    ),
+  }
+}
+
+// ============================================================================
+// APPLYING ENTRIES
+// ============================================================================
+
+function updateRecord(
+  entityType: EntityType,
+  uid: string,
+  update: (
+    record: RegistryRecord,
+  ) => Pick<RegistryRecord, 'labelOverrides'> | Pick<RegistryRecord, 'attributes'>,
+) {
+  const state = coreStore.getState()
+  const updatedAt = new Date().toISOString()
+
+  if (entityType === 'station') {
+    const record = state.stationRecords.find((r) => r.uid === uid)
+    if (record) coreStore.upsertStationRecords([{ ...record, ...update(record), updatedAt }])
+  } else if (entityType === 'tool') {
+    const record = state.toolRecords.find((r) => r.uid === uid)
+    if (record) coreStore.upsertToolRecords([{ ...record, ...update(record), updatedAt }])
+  } else {
+    const record = state.robotRecords.find((r) => r.uid === uid)
+    if (record) coreStore.upsertRobotRecords([{ ...record, ...update(record), updatedAt }])
+  }
+}
+
+function setStatus(entityType: EntityType, uid: string, status: EntityStatus) {
+  const active = status === 'active'
+  if (entityType === 'station') {
+    if (active) coreStore.reactivateStation(uid)
+    else coreStore.deactivateStation(uid)
+  } else if (entityType === 'tool') {
+    if (active) coreStore.reactivateTool(uid)
+    else coreStore.deactivateTool(uid)
+  } else {
+    if (active) coreStore.reactivateRobot(uid)
+    else coreStore.deactivateRobot(uid)
+  }
+}
+
+/**
+ * Apply the store change described by an audit entry
+ */
+function applyEntry(entry: AuditEntry, command: RegistryCommand) {
+  if (entry.entityType === 'checklist_item') return
+  const entityType = entry.entityType
+
+  switch (entry.action) {
+    case 'activate':
+    case 'deactivate':
+      setStatus(entityType, entry.entityUid, entry.action === 'activate' ? 'active' : 'inactive')
+      break
+
+    case 'add_alias':
+      if (command.aliasRule) coreStore.addAliasRules([command.aliasRule])
+      break
+
+    case 'remove_alias':
+      if (command.aliasRule) coreStore.removeAliasRules([command.aliasRule.id])
+      if (command.replacedAliasRule) coreStore.addAliasRules([command.replacedAliasRule])
+      break
+
+    case 'override_label': {
+      const field = entry.metadata?.field as string
+      updateRecord(entityType, entry.entityUid, (record) => {
+        const labelOverrides = { ...record.labelOverrides }
+        if (entry.newValue) labelOverrides[field] = entry.newValue
+        else delete labelOverrides[field]
+        return { labelOverrides }
+      })
+      break
+    }
+
+    case 'update_attributes':
+      updateRecord(entityType, entry.entityUid, (record) => {
+        const attributes = { ...record.attributes }
+        for (const [field, value] of Object.entries(entry.newValue ?? {})) {
+          if (value === undefined) delete attributes[field]
+          else attributes[field] = value
+        }
+        return { attributes }
+      })
+      break
+  }
+}
+
+/**
+ * Build the audit entry that reverses another one
+ */
+export function invertAuditEntry(entry: AuditEntry, user?: string): AuditEntry {
+  const action = INVERSE_ACTIONS[entry.action]
+  if (!action) {
+    throw new Error(`Audit action "${entry.action}" cannot be undone`)
+  }
+
+  return {
+    ...entry,
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    user,
+    action,
+    oldValue: entry.newValue,
+    newValue: entry.oldValue,
+    reason: `Undo: ${entry.reason ?? entry.action.replace('_', ' ')}`,
+    metadata: { ...entry.metadata, undoOf: entry.id },
+  }
+}
+
+// ============================================================================
+// HISTORY OPERATIONS
+// ============================================================================
+
+/**
+ * Apply a command, record it in the audit log and push it on the undo stack
+ */
+export function executeRegistryCommand(command: RegistryCommand): void {
+  applyEntry(command.entry, command)
+  coreStore.addAuditEntry(command.entry)
+
+  setHistoryState({
+    undoStack: [...historyState.undoStack, command].slice(-MAX_HISTORY),
+    redoStack: [],
+  })
+}
+
+/**
+ * Revert the most recent command. The revert is itself audited.
+ */
+export function undoRegistryCommand(user?: string): RegistryCommand | undefined {
+  const command = historyState.undoStack[historyState.undoStack.length - 1]
+  if (!command) return
+
+  const inverse = invertAuditEntry(command.entry, user)
+  applyEntry(inverse, command)
+  coreStore.addAuditEntry(inverse)
+
+  setHistoryState({
+    undoStack: historyState.undoStack.slice(0, -1),
+    redoStack: [...historyState.redoStack, command],
+  })
+  return command
+}
+
+/**
+ * Re-apply the most recently undone command
+ */
+export function redoRegistryCommand(user?: string): RegistryCommand | undefined {
+  const command = historyState.redoStack[historyState.redoStack.length - 1]
+  if (!command) return
+
+  const replayed: RegistryCommand = {
+    ...command,
+    entry: {
+      ...command.entry,
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      user: user ?? command.entry.user,
+      metadata: { ...command.entry.metadata, redoOf: command.entry.id },
+    },
+  }
+  applyEntry(replayed.entry, replayed)
+  coreStore.addAuditEntry(replayed.entry)
+
+  setHistoryState({
+    undoStack: [...historyState.undoStack, replayed],
+    redoStack: historyState.redoStack.slice(0, -1),
+  })
+  return replayed
+}
+
+export function getRegistryHistory(): RegistryHistoryState {
+  return historyState
+}
+
+export function clearRegistryHistory(): void {
+  setHistoryState({ undoStack: [], redoStack: [] })
+}
+
+// Commands replay against the records they were recorded on; once the data is
+// replaced (re-import, clear, snapshot restore) they may no longer apply
+coreStore.subscribeToDataReplaced(clearRegistryHistory)
+
+// ============================================================================
+// REACT HOOKS
+// ============================================================================
+
+/**
+ * Hook to access the undo/redo stacks
+ */
+export function useRegistryHistory(): RegistryHistoryState {
+  const [state, setState] = useState(historyState)
+
+  useEffect(() => {
+    const listener = () => setState(historyState)
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }, [])
+
+  return state
+}
@@ -0,0 +1,368 @@
+// Registry Merge / Split
+// Manual correction for records the UID resolver failed to match (e.g. a
+// renumbered station that got a fresh UID). A merge folds the retired record
+// into a survivor; a split reverses a recorded merge using its audit entry.
+
+import { coreStore } from './coreStore'
+import { AuditEntry } from './auditLog'
+import {
+  AliasRule,
+  EntityType,
+  EntityUid,
+  RobotRecord,
+  StationRecord,
+  ToolRecord,
+} from './uidTypes'
+import { createAliasRule } from '../ingestion/uidResolver'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type RegistryRecord = StationRecord | ToolRecord | RobotRecord
+
+export type MergeFieldSource = 'survivor' | 'retired'
+
+export interface MergeOptions {
+  labelsFrom?: MergeFieldSource // Default: survivor
+  attributesFrom?: MergeFieldSource | 'combine' // combine = retired values overlaid by survivor
+  globalAlias?: boolean // Alias the retired key in every plant (cross-plant carry-over)
+  reason?: string
+  user?: string
+}
+
+export type RegistryOperationResult =
+  | { success: true; entry: AuditEntry }
+  | { success: false; errorMessage: string }
+
+/**
+ * Everything a split needs to undo a merge, stored in the audit entry metadata
+ */
+interface MergeMetadata {
+  retiredUid: EntityUid
+  retiredRecord: RegistryRecord
+  survivorBefore: Record<string, unknown> // Fields the merge overwrote on the survivor
+  rewrittenToolUids: string[] // Tools whose stationUid pointed at the retired station
+  rewrittenToolPlantRefs: Array<{ toolUid: string; plantKey: string }> // stationUidByPlant entries
+  rewrittenRobotUids: string[]
+  aliasRuleId: string
+  replacedAliasRule?: AliasRule
+  retargetedAliasRuleIds: string[]
+}
+
+// ============================================================================
+// RECORD ACCESS
+// ============================================================================
+
+function getRecords(entityType: EntityType): RegistryRecord[] {
+  const state = coreStore.getState()
+  if (entityType === 'station') return state.stationRecords
+  if (entityType === 'tool') return state.toolRecords
+  return state.robotRecords
+}
+
+function upsertRecord(entityType: EntityType, record: RegistryRecord) {
+  if (entityType === 'station') coreStore.upsertStationRecords([record as StationRecord])
+  else if (entityType === 'tool') coreStore.upsertToolRecords([record as ToolRecord])
+  else coreStore.upsertRobotRecords([record as RobotRecord])
+}
+
+function removeRecord(entityType: EntityType, uid: string) {
+  if (entityType === 'station') coreStore.removeStationRecords([uid])
+  else if (entityType === 'tool') coreStore.removeToolRecords([uid])
+  else coreStore.removeRobotRecords([uid])
+}
+
+/**
+ * Point every tool/robot station reference at a different station UID.
+ * Only the listed references are touched when `only` is given.
+ */
+function rewriteStationRefs(
+  fromUid: string,
+  toUid: string,
+  only?: Pick<MergeMetadata, 'rewrittenToolUids' | 'rewrittenToolPlantRefs' | 'rewrittenRobotUids'>,
+): Pick<MergeMetadata, 'rewrittenToolUids' | 'rewrittenToolPlantRefs' | 'rewrittenRobotUids'> {
+  const state = coreStore.getState()
+  const now = new Date().toISOString()
+  const rewrittenToolUids: string[] = []
+  const rewrittenToolPlantRefs: MergeMetadata['rewrittenToolPlantRefs'] = []
+  const rewrittenRobotUids: string[] = []
+
+  const updatedTools: ToolRecord[] = []
+  for (const tool of state.toolRecords) {
+    let changed = false
+    let stationUid = tool.stationUid
+    if (stationUid === fromUid && (!only || only.rewrittenToolUids.includes(tool.uid))) {
+      stationUid = toUid
+      rewrittenToolUids.push(tool.uid)
+      changed = true
+    }
+
+    let stationUidByPlant = tool.stationUidByPlant
+    for (const [plantKey, uid] of Object.entries(tool.stationUidByPlant ?? {})) {
+      const listed =
+        !only ||
+        only.rewrittenToolPlantRefs.some((r) => r.toolUid === tool.uid && r.plantKey === plantKey)
+      if (uid === fromUid && listed) {
+        stationUidByPlant = { ...stationUidByPlant, [plantKey]: toUid }
+        rewrittenToolPlantRefs.push({ toolUid: tool.uid, plantKey })
+        changed = true
+      }
+    }
+
+    if (changed) updatedTools.push({ ...tool, stationUid, stationUidByPlant, updatedAt: now })
+  }
+
+  const updatedRobots = state.robotRecords
+    .filter((r) => r.stationUid === fromUid && (!only || only.rewrittenRobotUids.includes(r.uid)))
+    .map((r) => {
+      rewrittenRobotUids.push(r.uid)
+      return { ...r, stationUid: toUid, updatedAt: now }
+    })
+
+  if (updatedTools.length > 0) coreStore.upsertToolRecords(updatedTools)
+  if (updatedRobots.length > 0) coreStore.upsertRobotRecords(updatedRobots)
+
+  return { rewrittenToolUids, rewrittenToolPlantRefs, rewrittenRobotUids }
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/**
+ * Count the tools and robots a station merge would re-point
+ */
+export function countStationReferences(stationUid: string): { tools: number; robots: number } {
+  const state = coreStore.getState()
+  return {
+    tools: state.toolRecords.filter(
+      (t) =>
+        t.stationUid === stationUid ||
+        Object.values(t.stationUidByPlant ?? {}).includes(stationUid),
+    ).length,
+    robots: state.robotRecords.filter((r) => r.stationUid === stationUid).length,
+  }
+}
+
+/**
+ * Merge the retired record into the survivor.
+ * - Survivor keeps its UID and takes the chosen labels/attributes
+ * - Tool/robot stationUid foreign keys are re-pointed (station merges)
+ * - An AliasRule maps the retired key onto the survivor for future imports
+ * - Alias rules that targeted the retired UID are re-targeted
+ * - The retired record is removed; the audit entry keeps a copy for splitting
+ */
+export function mergeRegistryRecords(
+  entityType: EntityType,
+  survivorUid: string,
+  retiredUid: string,
+  options: MergeOptions = {},
+): RegistryOperationResult {
+  if (survivorUid === retiredUid) {
+    return { success: false, errorMessage: 'Cannot merge a record into itself' }
+  }
+
+  const records = getRecords(entityType)
+  const survivor = records.find((r) => r.uid === survivorUid)
+  const retired = records.find((r) => r.uid === retiredUid)
+  if (!survivor || !retired) {
+    return { success: false, errorMessage: `Both ${entityType} records must exist to merge` }
+  }
+
+  const {
+    labelsFrom = 'survivor',
+    attributesFrom = 'survivor',
+    globalAlias = false,
+    reason,
+    user,
+  } = options
+  const now = new Date().toISOString()
+
+  const attributes =
+    attributesFrom === 'combine'
+      ? { ...retired.attributes, ...survivor.attributes }
+      : attributesFrom === 'retired'
+        ? retired.attributes
+        : survivor.attributes
+  const [primary, secondary] = labelsFrom === 'retired' ? [retired, survivor] : [survivor, retired]
+
+  const survivorBefore: Record<string, unknown> = {
+    labels: survivor.labels,
+    attributes: survivor.attributes,
+    labelOverrides: survivor.labelOverrides,
+  }
+  const merged = {
+    ...survivor,
+    labels: primary.labels,
+    attributes,
+    labelOverrides: { ...secondary.labelOverrides, ...primary.labelOverrides },
+    lastSeenImportRunId: survivor.lastSeenImportRunId ?? retired.lastSeenImportRunId,
+    updatedAt: now,
+  } as RegistryRecord
+
+  if (entityType === 'tool') {
+    const survivorTool = survivor as ToolRecord
+    const retiredTool = retired as ToolRecord
+    survivorBefore.labelsByPlant = survivorTool.labelsByPlant
+    survivorBefore.stationUidByPlant = survivorTool.stationUidByPlant
+    // A tool merged across plants keeps each plant's labels and station
+    const homePlants = (tool: ToolRecord) =>
+      retired.plantKey === survivor.plantKey
+        ? { labels: {}, stations: {} }
+        : {
+            labels: { [tool.plantKey]: tool.labels },
+            stations: tool.stationUid ? { [tool.plantKey]: tool.stationUid } : {},
+          }
+    const retiredHome = homePlants(retiredTool)
+    const survivorHome = homePlants(survivorTool)
+    Object.assign(merged, {
+      labelsByPlant: {
+        ...retiredHome.labels,
+        ...retiredTool.labelsByPlant,
+        ...survivorHome.labels,
+        ...survivorTool.labelsByPlant,
+      },
+      stationUidByPlant: {
+        ...retiredHome.stations,
+        ...retiredTool.stationUidByPlant,
+        ...survivorHome.stations,
+        ...survivorTool.stationUidByPlant,
+      },
+    })
+  }
+
+  upsertRecord(entityType, merged)
+  removeRecord(entityType, retired.uid)
+
+  const refs =
+    entityType === 'station'
+      ? rewriteStationRefs(retired.uid, survivor.uid)
+      : { rewrittenToolUids: [], rewrittenToolPlantRefs: [], rewrittenRobotUids: [] }
+
+  // Re-target older aliases of the retired record, then alias its key
+  const retargeted = coreStore
+    .getState()
+    .aliasRules.filter((r) => r.entityType === entityType && r.toUid === retired.uid)
+  const replacedAliasRule = coreStore
+    .getState()
+    .aliasRules.find((r) => r.entityType === entityType && r.fromKey === retired.key)
+  const aliasRule: AliasRule = {
+    ...createAliasRule(
+      retired.key,
+      survivor.uid,
+      entityType,
+      reason || `Merged into ${survivor.key}`,
+      user,
+    ),
+    plantKey: retired.plantKey,
+    isGlobal: globalAlias || undefined,
+  }
+  coreStore.addAliasRules([...retargeted.map((r) => ({ ...r, toUid: survivor.uid })), aliasRule])
+
+  const metadata: MergeMetadata = {
+    retiredUid: retired.uid,
+    retiredRecord: retired,
+    survivorBefore,
+    ...refs,
+    aliasRuleId: aliasRule.id,
+    replacedAliasRule,
+    retargetedAliasRuleIds: retargeted.filter((r) => r.fromKey !== retired.key).map((r) => r.id),
+  }
+
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: now,
+    user,
+    entityType,
+    entityUid: survivor.uid,
+    entityKey: survivor.key,
+    action: 'merge_entities',
+    oldValue: retired.key,
+    newValue: survivor.key,
+    reason,
+    metadata: { ...metadata },
+  }
+  coreStore.addAuditEntry(entry)
+
+  return { success: true, entry }
+}
+
+// ============================================================================
+// SPLIT
+// ============================================================================
+
+/**
+ * Merges that can still be split (not split already)
+ */
+export function getSplittableMerges(): AuditEntry[] {
+  const auditLog = coreStore.getAuditLog()
+  const splitIds = new Set(
+    auditLog.filter((e) => e.action === 'split_entity').map((e) => e.metadata?.mergeEntryId),
+  )
+  return auditLog.filter((e) => e.action === 'merge_entities' && !splitIds.has(e.id))
+}
+
+/**
+ * Split a merged record back out, restoring the retired UID, its foreign
+ * keys and the survivor's pre-merge labels/attributes.
+ */
+export function splitRegistryRecord(
+  mergeEntryId: string,
+  reason?: string,
+  user?: string,
+): RegistryOperationResult {
+  const mergeEntry = getSplittableMerges().find((e) => e.id === mergeEntryId)
+  if (!mergeEntry || mergeEntry.entityType === 'checklist_item') {
+    return { success: false, errorMessage: 'Merge not found or already split' }
+  }
+
+  const entityType = mergeEntry.entityType
+  const metadata = mergeEntry.metadata as MergeMetadata
+  const records = getRecords(entityType)
+  const survivor = records.find((r) => r.uid === mergeEntry.entityUid)
+  if (!survivor) {
+    return { success: false, errorMessage: `Surviving ${entityType} no longer exists` }
+  }
+  if (records.some((r) => r.uid === metadata.retiredUid)) {
+    return { success: false, errorMessage: `${entityType} ${metadata.retiredUid} already exists` }
+  }
+
+  const now = new Date().toISOString()
+  upsertRecord(entityType, {
+    ...survivor,
+    ...metadata.survivorBefore,
+    updatedAt: now,
+  } as RegistryRecord)
+  upsertRecord(entityType, { ...metadata.retiredRecord, updatedAt: now })
+
+  if (entityType === 'station') {
+    rewriteStationRefs(survivor.uid, metadata.retiredUid, metadata)
+  }
+
+  // Undo the alias changes
+  coreStore.removeAliasRules([metadata.aliasRuleId])
+  const restoredRules = coreStore
+    .getState()
+    .aliasRules.filter((r) => metadata.retargetedAliasRuleIds.includes(r.id))
+    .map((r) => ({ ...r, toUid: metadata.retiredUid }))
+  if (metadata.replacedAliasRule) restoredRules.push(metadata.replacedAliasRule)
+  if (restoredRules.length > 0) coreStore.addAliasRules(restoredRules)
+
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: now,
+    user,
+    entityType,
+    entityUid: survivor.uid,
+    entityKey: survivor.key,
+    action: 'split_entity',
+    oldValue: survivor.key,
+    newValue: metadata.retiredRecord.key,
+    reason,
+    metadata: { mergeEntryId, retiredUid: metadata.retiredUid },
+  }
+  coreStore.addAuditEntry(entry)
+
+  return { success: true, entry }
+}
@@ -1,28 +1,246 @@
 import { GunCheckStatus, RobotGunAssignment } from './types'
-import { gunCheckStatuses, robotGunAssignments } from './mockData'
+import { Cell, UnifiedAsset } from './core'
+import { coreStore } from './coreStore'
+import { GunCheckSnapshot, GunCheckState } from './crossRef/CrossRefTypes'
+import { normalizeStationId } from './crossRef/CrossRefUtils'
+
+// ============================================================================
+// ASSIGNMENT DERIVATION
+// ============================================================================
+
+const normalizeRobotLabel = (value: unknown): string =>
+    value === null || value === undefined || typeof value === 'boolean'
+        ? ''
+        : String(value).toLowerCase().replace(/[\s_-]+/g, '')
+
+const readField = (asset: UnifiedAsset, field: string): unknown =>
+    (asset as unknown as Record<string, unknown>)[field]
+
+/**
+ * Labels a robot is known by across robot lists and simulation status
+ */
+function getRobotLabels(robot: UnifiedAsset): string[] {
+    const candidates = [
+        robot.name,
+        robot.metadata?.robotNumber,
+        robot.metadata?.['Robo No. New'],
+        robot.metadata?.['ROBO NO. NEW']
+    ]
+    return [...new Set(candidates.map(normalizeRobotLabel).filter(Boolean))]
+}
+
+/**
+ * Robot label a gun row points at: the reuse list's application robot,
+ * or the robot number column of a tool list
+ */
+function getGunRobotLabel(gun: UnifiedAsset): string {
+    return normalizeRobotLabel(
+        gun.metadata?.associatedRobot ??
+        gun.metadata?.applicationRobot ??
+        readField(gun, 'robotNumber')
+    )
+}
+
+function getStationKey(asset: UnifiedAsset): string {
+    return normalizeStationId(asset.stationNumber ?? readField(asset, 'station') ?? readField(asset, 'stationCode'))
+}
+
+function findRobotForGun(
+    gun: UnifiedAsset,
+    robotsById: Map<string, UnifiedAsset>,
+    robotsByLabel: Map<string, UnifiedAsset[]>
+): UnifiedAsset | undefined {
+    const linkedId = readField(gun, 'robotId')
+    if (typeof linkedId === 'string' && robotsById.has(linkedId)) {
+        return robotsById.get(linkedId)
+    }
+
+    const label = getGunRobotLabel(gun)
+    if (!label) return
+
+    const candidates = robotsByLabel.get(label) ?? []
+    if (candidates.length <= 1) return candidates[0]
+
+    // Robot numbers repeat across stations; only a station match settles it
+    const stationKey = getStationKey(gun)
+    if (!stationKey) return
+    const atStation = candidates.filter(r => getStationKey(r) === stationKey)
+    return atStation.length === 1 ? atStation[0] : undefined
+}
+
+/**
+ * Stable ID so gun checks stay attached to the same robot and gun across re-imports
+ */
+export function getRobotGunAssignmentId(robotId: string, weldGunId: string): string {
+    return `rga:${robotId}:${weldGunId}`
+}
+
+/**
+ * Pair weld guns with the robots that carry them. Guns are matched by their
+ * robot link first, then by robot number; guns without a unique robot are left out.
+ */
+export function deriveRobotGunAssignments(assets: UnifiedAsset[]): RobotGunAssignment[] {
+    const robots = assets.filter(a => a.kind === 'ROBOT')
+    const robotsById = new Map<string, UnifiedAsset>()
+    const robotsByLabel = new Map<string, UnifiedAsset[]>()
+
+    for (const robot of robots) {
+        robotsById.set(robot.id, robot)
+        if (robot.robotId) robotsById.set(robot.robotId, robot)
+
+        for (const label of getRobotLabels(robot)) {
+            const existing = robotsByLabel.get(label) ?? []
+            existing.push(robot)
+            robotsByLabel.set(label, existing)
+        }
+    }
+
+    const assignments: RobotGunAssignment[] = []
+    const seen = new Set<string>()
+
+    for (const gun of assets.filter(a => a.kind === 'GUN')) {
+        const robot = findRobotForGun(gun, robotsById, robotsByLabel)
+        if (!robot) continue
+
+        const id = getRobotGunAssignmentId(robot.id, gun.id)
+        if (seen.has(id)) continue
+        seen.add(id)
+
+        assignments.push({
+            id,
+            robotId: robot.id,
+            weldGunId: gun.id,
+            areaId: robot.areaId ?? gun.areaId ?? '',
+            cellId: robot.cellId ?? gun.cellId ?? null,
+            stationNumber: robot.stationNumber ?? gun.stationNumber ?? '',
+            fromDate: null,
+            toDate: null,
+            isActive: robot.isActive !== false && gun.isActive !== false
+        })
+    }
+
+    return assignments
+}
+
+// Assignments are re-derived only when the asset list changes
+let cachedAssets: UnifiedAsset[] | null = null
+let cachedAssignments: RobotGunAssignment[] = []
 
 export function getRobotGunAssignments(): RobotGunAssignment[] {
-    return robotGunAssignments
+    const { assets } = coreStore.getState()
+    if (assets !== cachedAssets) {
+        cachedAssets = assets
+        cachedAssignments = deriveRobotGunAssignments(assets)
+    }
+    return cachedAssignments
 }
 
 export function getAssignmentsByRobotId(robotId: string): RobotGunAssignment[] {
     if (!robotId) return []
-    return robotGunAssignments.filter(a => a.robotId === robotId && a.isActive)
+    return getRobotGunAssignments().filter(a => a.robotId === robotId && a.isActive)
 }
 
 export function getAssignmentsByCellId(cellId: string): RobotGunAssignment[] {
     if (!cellId) return []
-    return robotGunAssignments.filter(a => a.cellId === cellId && a.isActive)
+    return getRobotGunAssignments().filter(a => a.cellId === cellId && a.isActive)
 }
 
 export function getAssignmentsByAreaId(areaId: string): RobotGunAssignment[] {
     if (!areaId) return []
-    return robotGunAssignments.filter(a => a.areaId === areaId && a.isActive)
+    return getRobotGunAssignments().filter(a => a.areaId === areaId && a.isActive)
 }
 
+// ============================================================================
+// GUN CHECKS
+// ============================================================================
+
 export function getGunCheckStatusByAssignmentId(
     robotGunAssignmentId: string
 ): GunCheckStatus | undefined {
     if (!robotGunAssignmentId) return
-    return gunCheckStatuses.find(s => s.robotGunAssignmentId === robotGunAssignmentId)
+    return coreStore.getState().gunChecks.find(s => s.robotGunAssignmentId === robotGunAssignmentId)
+}
+
+export function isGunCheckPassing(check: Pick<GunCheckStatus, 'geometryOk' | 'payloadOk' | 'forceOk'>): boolean {
+    return check.geometryOk && check.payloadOk && check.forceOk
+}
+
+export function getGunCheckState(check: GunCheckStatus | undefined): GunCheckState {
+    if (!check) return 'NOT_CHECKED'
+    if (!isGunCheckPassing(check)) return 'FAILED'
+    return check.approvedAt ? 'APPROVED' : 'AWAITING_SIGN_OFF'
+}
+
+export type GunCheckInput = Pick<GunCheckStatus, 'geometryOk' | 'payloadOk' | 'forceOk' | 'comments'>
+
+/**
+ * Record the geometry / payload / force checks for an assignment.
+ * Passing an approver signs the checks off; re-recording without one clears
+ * an earlier sign-off, since the approved results no longer apply.
+ * @throws {Error} If sign-off is requested while a check is failing
+ */
+export function recordGunCheck(
+    robotGunAssignmentId: string,
+    input: GunCheckInput,
+    approvedByUserId?: string
+): GunCheckStatus | undefined {
+    if (!robotGunAssignmentId) return
+
+    if (approvedByUserId && !isGunCheckPassing(input)) {
+        throw new Error('Gun checks can only be signed off when geometry, payload and force all pass')
+    }
+
+    const existing = getGunCheckStatusByAssignmentId(robotGunAssignmentId)
+    const check: GunCheckStatus = {
+        id: existing?.id ?? `gcs-${crypto.randomUUID()}`,
+        robotGunAssignmentId,
+        geometryOk: input.geometryOk,
+        payloadOk: input.payloadOk,
+        forceOk: input.forceOk,
+        approvedAt: approvedByUserId ? new Date().toISOString() : null,
+        approvedByUserId: approvedByUserId ?? null,
+        comments: input.comments.trim()
+    }
+
+    coreStore.upsertGunChecks([check])
+    return check
+}
+
+// ============================================================================
+// CROSS-REFERENCE ROLL-UP
+// ============================================================================
+
+/**
+ * Gun check results for every active assignment, keyed the way the
+ * cross-reference engine keys stations
+ */
+export function buildGunCheckSnapshots(
+    assignments: RobotGunAssignment[],
+    checks: GunCheckStatus[],
+    assets: UnifiedAsset[],
+    cells: Cell[]
+): GunCheckSnapshot[] {
+    const assetsById = new Map(assets.map(a => [a.id, a]))
+    const cellsById = new Map(cells.map(c => [c.id, c]))
+    const checksByAssignment = new Map(checks.map(c => [c.robotGunAssignmentId, c]))
+
+    return assignments
+        .filter(a => a.isActive)
+        .map(a => {
+            const cell = a.cellId ? cellsById.get(a.cellId) : undefined
+            const gun = assetsById.get(a.weldGunId)
+            return {
+                assignmentId: a.id,
+                stationKey: normalizeStationId(cell?.code ?? a.stationNumber),
+                cellId: a.cellId,
+                robotKey: assetsById.get(a.robotId)?.name ?? a.robotId,
+                gunKey: gun?.gunNumber ?? gun?.name ?? a.weldGunId,
+                state: getGunCheckState(checksByAssignment.get(a.id))
+            }
+        })
+}
+
+export function getGunCheckSnapshots(): GunCheckSnapshot[] {
+    const { gunChecks, assets, cells } = coreStore.getState()
+    return buildGunCheckSnapshots(getRobotGunAssignments(), gunChecks, assets, cells)
 }
@@ -1,16 +1,77 @@
 import { SpotWeldRef } from './types'
-import { spotWeldRefs } from './mockData'
+import { UnifiedAsset } from './core'
+import { coreStore } from './coreStore'
 
 export function getSpotWeldRefs(): SpotWeldRef[] {
-    return spotWeldRefs
+    return coreStore.getState().spotWeldRefs
 }
 
 export function getSpotWeldRefsByCellId(cellId: string): SpotWeldRef[] {
     if (!cellId) return []
-    return spotWeldRefs.filter(w => w.cellId === cellId)
+    return getSpotWeldRefs().filter(w => w.cellId === cellId)
 }
 
 export function getSpotWeldRefsByRobotId(robotId: string): SpotWeldRef[] {
     if (!robotId) return []
-    return spotWeldRefs.filter(w => w.robotId === robotId)
+    return getSpotWeldRefs().filter(w => w.robotId === robotId)
+}
+
+// ============================================================================
+// WELD DISTRIBUTION
+// ============================================================================
+
+export type SpotWeldCount = {
+    assetId: string
+    name: string
+    count: number
+    isActive: boolean
+}
+
+export type SpotWeldDistribution = {
+    total: number
+    byRobot: SpotWeldCount[]
+    byGun: SpotWeldCount[]
+    /** Welds without a robot */
+    unassigned: SpotWeldRef[]
+    /** Welds whose robot is inactive or no longer loaded */
+    onInactiveRobots: SpotWeldRef[]
+}
+
+function countBy(
+    welds: SpotWeldRef[],
+    getId: (weld: SpotWeldRef) => string | null,
+    assetsById: Map<string, UnifiedAsset>
+): SpotWeldCount[] {
+    const counts = new Map<string, number>()
+    for (const weld of welds) {
+        const id = getId(weld)
+        if (id) counts.set(id, (counts.get(id) ?? 0) + 1)
+    }
+
+    return Array.from(counts, ([assetId, count]) => {
+        const asset = assetsById.get(assetId)
+        return {
+            assetId,
+            name: asset?.gunNumber ?? asset?.name ?? assetId,
+            count,
+            isActive: asset !== undefined && asset.isActive !== false
+        }
+    }).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+}
+
+/**
+ * Weld counts per robot and gun, with the welds that need attention
+ */
+export function summarizeSpotWelds(welds: SpotWeldRef[], assets: UnifiedAsset[]): SpotWeldDistribution {
+    const assetsById = new Map(assets.map(a => [a.id, a]))
+    const byRobot = countBy(welds, w => w.robotId, assetsById)
+    const inactiveRobotIds = new Set(byRobot.filter(r => !r.isActive).map(r => r.assetId))
+
+    return {
+        total: welds.length,
+        byRobot,
+        byGun: countBy(welds, w => w.weldGunId, assetsById),
+        unassigned: welds.filter(w => !w.robotId),
+        onInactiveRobots: welds.filter(w => w.robotId !== null && inactiveRobotIds.has(w.robotId))
+    }
 }
@@ -1,11 +1,17 @@
-import { Project, Area, Cell, Robot, Tool, UnifiedAsset } from './core'
+import { Project, Area, Cell, Robot, Tool, UnifiedAsset, StudyCellLink } from './core'
 import { CoreStoreState } from './coreStore'
 import { ChangeRecord } from './changeLog'
-import { StationRecord, ToolRecord, RobotRecord, AliasRule, ImportRun, DiffResult } from './uidTypes'
+import { StationRecord, ToolRecord, RobotRecord, AliasRule, ImportRun, DiffResult, ContextMappingRule } from './uidTypes'
 import { AuditEntry } from './auditLog'
-import { CrossRefResult } from './crossRef/CrossRefTypes'
+import { CrossRefResult, CrossRefRuleSet, FlagWaiver } from './crossRef/CrossRefTypes'
+import { Checklist, ChecklistItem, ChecklistTemplate, ChecklistItemTemplate, GunCheckStatus, SpotWeldRef } from './types'
+import {
+    checklistTemplates as defaultChecklistTemplates,
+    checklistItemTemplates as defaultChecklistItemTemplates
+} from './mockData'
+import { createDefaultContextMappingRules } from './contextMapping'
 
-export const CURRENT_SNAPSHOT_SCHEMA_VERSION = 4
+export const CURRENT_SNAPSHOT_SCHEMA_VERSION = 12
 
 export interface StoreSnapshotMeta {
     lastSavedAt: string // ISO string
@@ -40,6 +46,23 @@ export interface StoreSnapshot {
     importRuns?: ImportRun[]
     diffResults?: DiffResult[]
     auditLog?: AuditEntry[]  // Phase 1: Registry audit trail
+    // Schema v5: Checklists (v6: versioned templates)
+    checklistTemplates?: ChecklistTemplate[]
+    checklistItemTemplates?: ChecklistItemTemplate[]
+    checklists?: Checklist[]
+    checklistItems?: ChecklistItem[]
+    // Schema v7: Cross-reference rules
+    crossRefRules?: CrossRefRuleSet
+    // Schema v8: Flag acknowledgements / waivers
+    flagWaivers?: FlagWaiver[]
+    // Schema v9: Confirmed SimBridge study ↔ cell links
+    studyLinks?: StudyCellLink[]
+    // Schema v10: Customer / model / plant mapping registry
+    contextMappingRules?: ContextMappingRule[]
+    // Schema v11: Robot–weld gun check sign-offs
+    gunChecks?: GunCheckStatus[]
+    // Schema v12: Spot weld points from weld point lists
+    spotWeldRefs?: SpotWeldRef[]
     /** Optional persisted cross-reference snapshot for fast restore */
     crossRef?: CrossRefResult
 }
@@ -75,13 +98,23 @@ export function createSnapshotFromState(
         importRuns: state.importRuns,
         diffResults: state.diffResults,
         auditLog: state.auditLog,
+        checklistTemplates: state.checklistTemplates,
+        checklistItemTemplates: state.checklistItemTemplates,
+        checklists: state.checklists,
+        checklistItems: state.checklistItems,
+        crossRefRules: state.crossRefRules,
+        flagWaivers: state.flagWaivers,
+        studyLinks: state.studyLinks,
+        contextMappingRules: state.contextMappingRules,
+        gunChecks: state.gunChecks,
+        spotWeldRefs: state.spotWeldRefs,
         crossRef
     }
 }
 
 /**
  * Converts a snapshot back into a store state object.
- * Handles migration from v2 -> v3 by initializing new collections as empty.
+ * Handles migration from older schemas by initializing new collections as empty.
  */
 export function applySnapshotToState(snapshot: StoreSnapshot): CoreStoreState {
     // Map sourceKind to dataSource format
@@ -106,6 +139,28 @@ export function applySnapshotToState(snapshot: StoreSnapshot): CoreStoreState {
     const diffResults = snapshot.diffResults || []
     const auditLog = snapshot.auditLog || []  // Phase 1 migration
 
+    // Schema v4 -> v5 migration: seed default templates, no checklists yet
+    // Schema v5 -> v6 migration: unversioned templates become version 1 of their own family
+    const checklistTemplates = (snapshot.checklistTemplates || [...defaultChecklistTemplates])
+        .map(t => ({ ...t, familyId: t.familyId ?? t.id, version: t.version ?? 1 }))
+    const checklistItemTemplates = (snapshot.checklistItemTemplates || [...defaultChecklistItemTemplates])
+        .map(it => ({ ...it, itemKey: it.itemKey ?? it.id }))
+    const checklists = snapshot.checklists || []
+    const checklistItems = snapshot.checklistItems || []
+
+    // Schema v6 -> v7 migration: no custom rules, built-in flags unchanged
+    const crossRefRules = snapshot.crossRefRules || { rules: [], projectOverrides: {} }
+    // Schema v7 -> v8 migration: nothing waived yet
+    const flagWaivers = snapshot.flagWaivers || []
+    // Schema v8 -> v9 migration: no confirmed study links yet
+    const studyLinks = snapshot.studyLinks || []
+    // Schema v9 -> v10 migration: start from the formerly hard-coded mappings
+    const contextMappingRules = snapshot.contextMappingRules || createDefaultContextMappingRules()
+    // Schema v10 -> v11 migration: no gun checks recorded yet
+    const gunChecks = snapshot.gunChecks || []
+    // Schema v11 -> v12 migration: no weld point lists imported yet
+    const spotWeldRefs = snapshot.spotWeldRefs || []
+
     return {
         projects: snapshot.projects,
         areas: snapshot.areas,
@@ -123,6 +178,16 @@ export function applySnapshotToState(snapshot: StoreSnapshot): CoreStoreState {
         aliasRules,
         importRuns,
         diffResults,
-        auditLog
+        auditLog,
+        checklistTemplates,
+        checklistItemTemplates,
+        checklists,
+        checklistItems,
+        crossRefRules,
+        flagWaivers,
+        studyLinks,
+        contextMappingRules,
+        gunChecks,
+        spotWeldRefs
     }
 }
@@ -0,0 +1,155 @@
+// Tool Carry-Over
+// Cross-plant view of physical tools. A ToolRecord's UID is the physical
+// gun/gripper; labelsByPlant and stationUidByPlant record where it has lived.
+
+import { coreStore } from './coreStore'
+import { PlantKey, StationRecord, ToolLabels, ToolRecord } from './uidTypes'
+import { RegistryOperationResult, mergeRegistryRecords } from './registryMerge'
+import { findToolCandidates } from '../ingestion/fuzzyMatcher'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ToolPlantEntry {
+  plantKey: PlantKey
+  labels: ToolLabels
+  stationUid?: string
+  stationKey?: string
+  isHomePlant: boolean // The plant the record's key belongs to
+}
+
+export interface ToolReuseCandidate {
+  targetTool: ToolRecord // Tool listed for the new program
+  sourceTool: ToolRecord // Tool already registered at the source plant
+  matchScore: number
+  reasons: string[]
+}
+
+// ============================================================================
+// PLANT HISTORY
+// ============================================================================
+
+/**
+ * Every plant a tool is known in, home plant first
+ */
+export function getToolPlantHistory(
+  tool: ToolRecord,
+  stationRecords: StationRecord[],
+): ToolPlantEntry[] {
+  const stationKeyByUid = new Map(stationRecords.map((s) => [s.uid, s.key]))
+  const plants = new Set<PlantKey>([
+    tool.plantKey,
+    ...Object.keys(tool.labelsByPlant ?? {}),
+    ...Object.keys(tool.stationUidByPlant ?? {}),
+  ])
+
+  return Array.from(plants).map((plantKey) => {
+    const isHomePlant = plantKey === tool.plantKey
+    const stationUid =
+      tool.stationUidByPlant?.[plantKey] ?? (isHomePlant ? tool.stationUid : undefined) ?? undefined
+    return {
+      plantKey,
+      labels: tool.labelsByPlant?.[plantKey] ?? (isHomePlant ? tool.labels : {}),
+      stationUid,
+      stationKey: stationUid ? stationKeyByUid.get(stationUid) : undefined,
+      isHomePlant,
+    }
+  })
+}
+
+/**
+ * Tools known in more than one plant
+ */
+export function getMultiPlantTools(toolRecords: ToolRecord[]): ToolRecord[] {
+  return toolRecords.filter(
+    (tool) =>
+      new Set([
+        tool.plantKey,
+        ...Object.keys(tool.labelsByPlant ?? {}),
+        ...Object.keys(tool.stationUidByPlant ?? {}),
+      ]).size > 1,
+  )
+}
+
+// ============================================================================
+// REUSE CANDIDATES
+// ============================================================================
+
+/**
+ * Match tools registered for the target plant against tools at the source
+ * plant, so a new program can reuse equipment instead of ordering new.
+ * Tools already carried over to the target plant are skipped.
+ */
+export function findToolReuseCandidates(
+  sourcePlant: PlantKey,
+  targetPlant: PlantKey,
+  toolRecords: ToolRecord[],
+): ToolReuseCandidate[] {
+  if (sourcePlant === targetPlant) return []
+
+  const sourceTools = toolRecords.filter(
+    (t) => t.plantKey === sourcePlant && !t.labelsByPlant?.[targetPlant],
+  )
+  const sourceByUid = new Map(sourceTools.map((t) => [t.uid, t]))
+  const results: ToolReuseCandidate[] = []
+
+  for (const targetTool of toolRecords.filter((t) => t.plantKey === targetPlant)) {
+    // The fuzzy matcher skips identical keys; across plants they are the strongest signal
+    const sameKey = sourceTools
+      .filter((t) => t.key === targetTool.key)
+      .map((t) => ({ uid: t.uid, matchScore: 50, reasons: ['Same canonical key'] }))
+    const fuzzy = findToolCandidates(targetTool.key, targetTool.labels, sourcePlant, sourceTools)
+
+    for (const candidate of [...sameKey, ...fuzzy]) {
+      const sourceTool = sourceByUid.get(candidate.uid)
+      if (!sourceTool) continue
+      results.push({
+        targetTool,
+        sourceTool,
+        matchScore: candidate.matchScore,
+        reasons: candidate.reasons,
+      })
+    }
+  }
+
+  return results.sort((a, b) => b.matchScore - a.matchScore)
+}
+
+// ============================================================================
+// CARRY-OVER
+// ============================================================================
+
+/**
+ * Declare that a tool registered at another plant is the same physical tool.
+ * The source UID survives; the target plant's labels and station move into
+ * labelsByPlant/stationUidByPlant and a global AliasRule maps the target key
+ * onto the source UID. Recorded as a merge, so it can be split again.
+ */
+export function declareToolCarryOver(
+  sourceUid: string,
+  targetUid: string,
+  reason?: string,
+  user?: string,
+): RegistryOperationResult {
+  const { toolRecords } = coreStore.getState()
+  const source = toolRecords.find((t) => t.uid === sourceUid)
+  const target = toolRecords.find((t) => t.uid === targetUid)
+  if (!source || !target) {
+    return { success: false, errorMessage: 'Both tools must exist to declare a carry-over' }
+  }
+  if (source.plantKey === target.plantKey) {
+    return {
+      success: false,
+      errorMessage: 'Carry-over needs tools from two different plants; use merge instead',
+    }
+  }
+
+  return mergeRegistryRecords('tool', sourceUid, targetUid, {
+    labelsFrom: 'survivor',
+    attributesFrom: 'combine',
+    globalAlias: true,
+    reason: reason || `Carry-over from ${source.plantKey} to ${target.plantKey}`,
+    user,
+  })
+}
@@ -56,17 +56,24 @@ export type ChecklistPhase =
     | 'FULL_SIM'
     | 'OLP_MRS'
 
+// Each saved edit of a template is a new record with the same familyId and a higher version.
+// Checklists point at a specific version via templateId, so they stay pinned until migrated.
 export type ChecklistTemplate = {
     id: string
+    familyId: string
+    version: number
     name: string
     description: string
     phase: ChecklistPhase
     isActive: boolean
+    customer?: string // e.g. "STLA", "BMW", "V801"; undefined = all customers
+    createdAt?: string
 }
 
 export type ChecklistItemTemplate = {
     id: string
     templateId: string
+    itemKey: string // Stable across template versions; used to carry answers over on migration
     label: string
     isMandatory: boolean
     sortOrder: number
@@ -88,6 +95,7 @@ export type Checklist = {
     id: string
     cellId: string
     templateId: string
+    templateVersion?: number
     status: ChecklistStatus
     ownerUserId: string
     createdAt: string
@@ -103,14 +111,6 @@ export type ChecklistItem = {
     updatedAt: string
 }
 
-export type ChangeLogEntry = {
-    id: string
-    cellId: string
-    userId: string
-    createdAt: string
-    text: string
-}
-
 // --- PHASE 2: EQUIPMENT & WELD MANAGEMENT ---
 
 export * from './UnifiedModel'
@@ -229,6 +229,28 @@ export interface ImportRun {
   }
 }
 
+// ============================================================================
+// CONTEXT MAPPING
+// ============================================================================
+
+export type ContextMappingKind = 'customer' | 'model' | 'plant'
+
+/**
+ * ContextMappingRule: Admin-maintained pattern that derives customer,
+ * ModelKey or PlantKey from an import file name
+ */
+export interface ContextMappingRule {
+  id: string
+  kind: ContextMappingKind
+  matchType: 'literal' | 'regex' // literal = case-insensitive substring
+  pattern: string
+  value: string            // Result; empty uses the matched text, regex may use $1..$9
+  priority: number         // Higher wins when several rules match
+  enabled: boolean
+  updatedAt: string
+  updatedBy?: string
+}
+
 // ============================================================================
 // DIFF RESULT
 // ============================================================================
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { buildCellXml, patchSheetXml, patchWorkbook } from '../workbookPatcher'
+
+function buildWorkbook(): Uint8Array {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ['STATION', 'ROBOT', 'PERS. RESPONSIBLE', 'DUE DATE'],
+    ['010', 'R01', 'Alice', 45658],
+    ['020', 'R01', 'Bob', 45689],
+  ])
+  sheet['D2'].z = 'yyyy-mm-dd'
+  sheet['D3'].z = 'yyyy-mm-dd'
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, 'SIMULATION')
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['untouched']]), 'OTHER')
+  return new Uint8Array(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }))
+}
+
+function readEntry(bytes: Uint8Array, path: string): string {
+  const container = XLSX.CFB.read(bytes, { type: 'array' })
+  const root = container.FullPaths[0]
+  const index = container.FullPaths.findIndex((p: string) => p.slice(root.length) === path)
+  return new TextDecoder().decode(Uint8Array.from(container.FileIndex[index].content))
+}
+
+describe('workbookPatcher', () => {
+  describe('buildCellXml', () => {
+    it('writes strings inline and escapes them', () => {
+      expect(buildCellXml('A1', 'R&D <Team>', '3')).toBe(
+        '<c r="A1" s="3" t="inlineStr"><is><t xml:space="preserve">R&amp;D &lt;Team&gt;</t></is></c>',
+      )
+    })
+
+    it('writes numbers and empty cells', () => {
+      expect(buildCellXml('B2', 45658)).toBe('<c r="B2"><v>45658</v></c>')
+      expect(buildCellXml('B2', null, '1')).toBe('<c r="B2" s="1"/>')
+    })
+  })
+
+  describe('patchSheetXml', () => {
+    const xml =
+      '<worksheet><sheetData>' +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" s="2" t="s"><v>1</v></c></row>' +
+      '<row r="3"><c r="A3"><v>1</v></c></row>' +
+      '</sheetData></worksheet>'
+
+    it('replaces an existing cell and keeps its style', () => {
+      const result = patchSheetXml(xml, [{ sheetName: 'S', address: 'C1', value: 'New' }])
+      expect(result).toContain(
+        '<c r="C1" s="2" t="inlineStr"><is><t xml:space="preserve">New</t></is></c>',
+      )
+      expect(result).toContain('<c r="A1" t="s"><v>0</v></c>')
+    })
+
+    it('inserts missing cells and rows in order', () => {
+      const result = patchSheetXml(xml, [
+        { sheetName: 'S', address: 'B1', value: 7 },
+        { sheetName: 'S', address: 'A2', value: 'x' },
+      ])
+      expect(result).toContain('<c r="A1" t="s"><v>0</v></c><c r="B1"><v>7</v></c><c r="C1"')
+      expect(result.indexOf('<row r="2">')).toBeGreaterThan(result.indexOf('<row r="1">'))
+      expect(result.indexOf('<row r="2">')).toBeLessThan(result.indexOf('<row r="3">'))
+    })
+
+    it('fills an empty sheetData element', () => {
+      const result = patchSheetXml('<worksheet><sheetData/></worksheet>', [
+        { sheetName: 'S', address: 'A1', value: 1 },
+      ])
+      expect(result).toBe(
+        '<worksheet><sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData></worksheet>',
+      )
+    })
+  })
+
+  describe('patchWorkbook', () => {
+    it('patches only the requested cells and keeps number formats', () => {
+      const original = buildWorkbook()
+      const patched = patchWorkbook(original, [
+        { sheetName: 'SIMULATION', address: 'C2', value: 'Carol' },
+        { sheetName: 'SIMULATION', address: 'D3', value: 45700 },
+      ])
+
+      const workbook = XLSX.read(patched, { type: 'array', cellNF: true })
+      const sheet = workbook.Sheets['SIMULATION']
+      expect(sheet['C2'].v).toBe('Carol')
+      expect(sheet['C3'].v).toBe('Bob')
+      expect(sheet['D3'].v).toBe(45700)
+      expect(sheet['D3'].z).toBe('yyyy-mm-dd')
+      expect(XLSX.utils.sheet_to_json(workbook.Sheets['OTHER'], { header: 1 })).toEqual([
+        ['untouched'],
+      ])
+
+      expect(readEntry(patched, 'xl/styles.xml')).toBe(readEntry(original, 'xl/styles.xml'))
+      expect(readEntry(patched, 'xl/worksheets/sheet2.xml')).toBe(
+        readEntry(original, 'xl/worksheets/sheet2.xml'),
+      )
+    })
+
+    it('throws for an unknown sheet', () => {
+      expect(() =>
+        patchWorkbook(buildWorkbook(), [{ sheetName: 'MISSING', address: 'A1', value: 1 }]),
+      ).toThrow('Sheet "MISSING" not found')
+    })
+  })
+})
@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import type { Cell, UnifiedAsset } from '../../domain/core'
+import type { ChangeRecord } from '../../domain/changeLog'
+import { changeCellStatus, moveCellSchedule } from '../../domain/changeLogStore'
+import { coreStore } from '../../domain/coreStore'
+import {
+  buildWriteBack,
+  collectPendingEdits,
+  generateWriteBackSummaryCsv,
+  getRevisedFileName,
+  WriteBackSource,
+} from '../writeBack'
+
+const FILE_NAME = 'STLA_Simulation_Status.xlsx'
+
+function buildWorkbook(): Uint8Array {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ['Simulation Status'],
+    [],
+    ['STATION', 'ROBOT', 'PERS. RESPONSIBLE', 'DUE DATE', 'TOTAL'],
+    ['010', 'R01', 'Alice', 45658, 1],
+    ['010', 'R02', 'Alice', 45658, 2],
+    ['020', 'R01', 'Bob', '', 3],
+  ])
+  sheet['E4'] = { t: 'n', v: 1, f: 'A4*1' }
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, 'SIMULATION')
+  return new Uint8Array(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }))
+}
+
+function makeCell(id: string, code: string, rowIndex: number, sourceFile = FILE_NAME): Cell {
+  return {
+    id,
+    projectId: 'p1',
+    areaId: 'a1',
+    name: `Station ${code}`,
+    code,
+    status: 'InProgress',
+    simulation: {
+      percentComplete: 50,
+      hasIssues: false,
+      metrics: {},
+      sourceFile,
+      sheetName: 'SIMULATION',
+      rowIndex,
+    },
+  }
+}
+
+function makeRobot(cellId: string, rowIndex: number): UnifiedAsset {
+  return {
+    id: `robot-${rowIndex}`,
+    name: `R${rowIndex}`,
+    kind: 'ROBOT',
+    sourcing: 'UNKNOWN',
+    metadata: {},
+    cellId,
+    sourceFile: FILE_NAME,
+    sheetName: 'SIMULATION',
+    rowIndex,
+  } as UnifiedAsset
+}
+
+function engineerChange(
+  id: string,
+  cellId: string,
+  newEngineer: string,
+  createdAt: string,
+): ChangeRecord {
+  return { id, kind: 'cellEngineerAssignment', cellId, createdAt, newEngineer }
+}
+
+function makeSource(changeLog: ChangeRecord[], extraCells: Cell[] = []): WriteBackSource {
+  return {
+    cells: [makeCell('c010', '010', 3), makeCell('c020', '020', 5), ...extraCells],
+    assets: [makeRobot('c010', 3), makeRobot('c010', 4)],
+    stationRecords: [],
+    changeLog,
+  }
+}
+
+function readBack(output: Uint8Array): XLSX.WorkSheet {
+  return XLSX.read(output, { type: 'array' }).Sheets['SIMULATION']
+}
+
+describe('writeBack', () => {
+  it('keeps only the latest edit per cell and field', () => {
+    const edits = collectPendingEdits([
+      engineerChange('1', 'c010', 'Carol', '2026-01-02T00:00:00Z'),
+      engineerChange('2', 'c010', 'Dave', '2026-01-01T00:00:00Z'),
+      { id: '3', kind: 'note', cellId: 'c010', createdAt: '2026-01-03T00:00:00Z', text: 'hi' },
+    ])
+
+    expect(edits).toEqual([
+      { changeId: '1', cellId: 'c010', field: 'assignedEngineer', value: 'Carol' },
+    ])
+  })
+
+  it('writes the engineer to the cell row and its robot rows', () => {
+    const result = buildWriteBack(
+      buildWorkbook(),
+      FILE_NAME,
+      makeSource([engineerChange('1', 'c010', 'Carol', '2026-01-02T00:00:00Z')]),
+    )
+
+    expect(result.success).toBe(true)
+    if (!result.success) return
+
+    const sheet = readBack(result.output)
+    expect(sheet['C4'].v).toBe('Carol')
+    expect(sheet['C5'].v).toBe('Carol')
+    expect(sheet['C6'].v).toBe('Bob')
+    expect(result.updatedCount).toBe(2)
+    expect(result.items.map((i) => [i.address, i.previousValue, i.newValue, i.outcome])).toEqual([
+      ['C4', 'Alice', 'Carol', 'updated'],
+      ['C5', 'Alice', 'Carol', 'updated'],
+    ])
+  })
+
+  it('writes dates as serials into numeric cells and skips unchanged values', () => {
+    const result = buildWriteBack(
+      buildWorkbook(),
+      FILE_NAME,
+      makeSource([
+        {
+          id: '1',
+          kind: 'scheduleMove',
+          cellId: 'c010',
+          field: 'dueDate',
+          newDate: '2025-02-01',
+          createdAt: '2026-01-01T00:00:00Z',
+        },
+        engineerChange('2', 'c020', 'Bob', '2026-01-01T00:00:00Z'),
+      ]),
+    )
+
+    if (!result.success) throw new Error(result.errorMessage)
+    const sheet = readBack(result.output)
+    expect(sheet['D4'].v).toBe(45689)
+    expect(result.items.find((i) => i.cellId === 'c020')?.outcome).toBe('unchanged')
+  })
+
+  it('writes status and schedule edits made through the cell edit actions', () => {
+    const cell = makeCell('c010', '010', 3)
+    coreStore.setData(
+      { projects: [], areas: [], cells: [cell], robots: [], tools: [], warnings: [] },
+      'Local',
+    )
+    changeCellStatus('c010', 'Blocked')
+    moveCellSchedule('c010', 'dueDate', '2025-02-01')
+
+    const { changeLog } = coreStore.getState()
+    expect(collectPendingEdits(changeLog).map((e) => [e.field, e.value])).toEqual([
+      ['status', 'Blocked'],
+      ['dueDate', '2025-02-01'],
+    ])
+
+    const result = buildWriteBack(buildWorkbook(), FILE_NAME, makeSource(changeLog))
+    if (!result.success) throw new Error(result.errorMessage)
+    expect(readBack(result.output)['D4'].v).toBe(45689)
+    coreStore.clear()
+  })
+
+  it('reports edits it cannot write', () => {
+    const result = buildWriteBack(
+      buildWorkbook(),
+      FILE_NAME,
+      makeSource(
+        [
+          { id: '1', kind: 'statusChange', cellId: 'c010', newStatus: 'Approved', createdAt: 'x' },
+          engineerChange('2', 'c999', 'Carol', 'x'),
+          engineerChange('3', 'c030', 'Carol', 'x'),
+        ],
+        [makeCell('c030', '030', 3, 'Other.xlsx')],
+      ),
+    )
+
+    if (!result.success) throw new Error(result.errorMessage)
+    expect(result.updatedCount).toBe(0)
+    expect(result.otherWorkbookCount).toBe(1)
+    expect(result.items.map((i) => i.reason)).toEqual([
+      'No Status column',
+      'No Status column',
+      'Cell no longer exists',
+    ])
+  })
+
+  it('does not overwrite formula cells', () => {
+    const source = makeSource([])
+    source.changeLog = [engineerChange('1', 'c010', 'Carol', 'x')]
+    const workbook = buildWorkbook()
+
+    // Point the engineer header at the formula column
+    const original = XLSX.read(workbook, { type: 'array', cellFormula: true })
+    original.Sheets['SIMULATION']['E3'] = { t: 's', v: 'ENGINEER' }
+    original.Sheets['SIMULATION']['C3'] = { t: 's', v: 'NOTES' }
+    const withFormulaColumn = new Uint8Array(
+      XLSX.write(original, { bookType: 'xlsx', type: 'array' }),
+    )
+
+    const result = buildWriteBack(withFormulaColumn, FILE_NAME, source)
+    if (!result.success) throw new Error(result.errorMessage)
+    expect(result.items[0]).toMatchObject({ address: 'E4', outcome: 'skipped' })
+    expect(result.items[0].reason).toBe('Cell contains a formula')
+  })
+
+  it('builds a summary CSV and a revised file name', () => {
+    const csv = generateWriteBackSummaryCsv([
+      {
+        changeId: '1',
+        cellId: 'c010',
+        cellLabel: '010 - Station, 010',
+        field: 'assignedEngineer',
+        sheetName: 'SIMULATION',
+        address: 'C4',
+        previousValue: 'Alice',
+        newValue: 'Carol',
+        outcome: 'updated',
+      },
+    ])
+
+    expect(csv.split('\n')).toEqual([
+      'Outcome,Cell ID,Cell,Field,Sheet,Address,Previous Value,New Value,Reason,Change ID',
+      'updated,c010,"010 - Station, 010",Engineer,SIMULATION,C4,Alice,Carol,,1',
+    ])
+    expect(getRevisedFileName('Status.xlsm', new Date('2026-03-04T10:00:00Z'))).toBe(
+      'Status_simpilot_2026-03-04.xlsm',
+    )
+  })
+})
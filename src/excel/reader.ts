@@ -37,29 +37,30 @@ export function readWorkbookFile(
   return XLSX.readFile(filePath, options)
 }
 
-export function readWorkbook(arrayBuffer: ArrayBuffer): ReadResult {
-  const workbook = readWorkbookModel(arrayBuffer)
-
-  const sheets: ReadSheet[] = workbook.SheetNames.map((sheetName) => {
-    const sheet = workbook.Sheets[sheetName]
+/**
+ * Formatted cell text of one sheet, row by row
+ */
+export function readSheetRows(sheet: XLSX.WorkSheet | undefined): string[][] {
+  if (!sheet) {
+    return []
+  }
 
-    if (!sheet) {
-      return { name: sheetName, rows: [] }
-    }
+  const rawRows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    defval: '',
+    raw: false,
+  })
 
-    const rawRows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
-      header: 1,
-      defval: '',
-      raw: false,
-    })
+  return rawRows.map((row) => (row as unknown[]).map((cell) => String(cell ?? '')))
+}
 
-    const rows = rawRows.map((row) => (row as unknown[]).map((cell) => String(cell ?? '')))
+export function readWorkbook(arrayBuffer: ArrayBuffer): ReadResult {
+  const workbook = readWorkbookModel(arrayBuffer)
 
-    return {
-      name: sheetName,
-      rows,
-    }
-  })
+  const sheets: ReadSheet[] = workbook.SheetNames.map((sheetName) => ({
+    name: sheetName,
+    rows: readSheetRows(workbook.Sheets[sheetName]),
+  }))
 
   return { sheets }
 }
@@ -0,0 +1,240 @@
+// Workbook Patcher
+// Rewrites individual cells of an existing .xlsx/.xlsm in place.
+// SheetJS CE drops styles when it writes a workbook, so instead of a
+// read → modify → write round-trip this edits the sheet XML inside the zip
+// package directly. Every other part (styles, formatting, column widths,
+// other sheets, macros) is copied through byte for byte.
+
+import * as XLSX from 'xlsx'
+
+export type CellPatchValue = string | number | null
+
+export interface CellPatch {
+  sheetName: string
+  address: string // A1-style, e.g. "D12"
+  value: CellPatchValue // null clears the value but keeps the cell's style
+}
+
+interface CfbEntry {
+  content: Uint8Array | number[]
+  size: number
+}
+
+interface CfbContainer {
+  FullPaths: string[]
+  FileIndex: CfbEntry[]
+}
+
+const CELL_RE = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+const ROW_RE = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g
+
+// ============================================================================
+// XML HELPERS
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+function readAttr(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))
+  return match ? unescapeXml(match[1]) : undefined
+}
+
+/**
+ * Serialize a cell, keeping its style index so formatting survives.
+ * Strings are written inline so the shared string table is left untouched.
+ */
+export function buildCellXml(address: string, value: CellPatchValue, styleIndex?: string): string {
+  const style = styleIndex !== undefined ? ` s="${styleIndex}"` : ''
+  if (value === null || value === '') {
+    return `<c r="${address}"${style}/>`
+  }
+  if (typeof value === 'number') {
+    return `<c r="${address}"${style}><v>${value}</v></c>`
+  }
+  return `<c r="${address}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+// ============================================================================
+// SHEET XML PATCHING
+// ============================================================================
+
+function patchRowContent(content: string, patches: CellPatch[]): string {
+  const pending = new Map<number, CellPatch>()
+  for (const patch of patches) {
+    pending.set(XLSX.utils.decode_cell(patch.address).c, patch)
+  }
+
+  let result = content.replace(CELL_RE, (match, attrs: string) => {
+    const ref = readAttr(attrs, 'r')
+    if (!ref) return match
+
+    const col = XLSX.utils.decode_cell(ref).c
+    const patch = pending.get(col)
+    if (!patch) return match
+
+    pending.delete(col)
+    return buildCellXml(ref, patch.value, readAttr(attrs, 's'))
+  })
+
+  // Cells that did not exist yet are inserted in column order
+  const missing = Array.from(pending.entries()).sort((a, b) => a[0] - b[0])
+  for (const [col, patch] of missing) {
+    const cellXml = buildCellXml(patch.address, patch.value)
+    let insertAt = result.length
+
+    for (const match of result.matchAll(CELL_RE)) {
+      const ref = readAttr(match[1], 'r')
+      if (ref && XLSX.utils.decode_cell(ref).c > col) {
+        insertAt = match.index!
+        break
+      }
+    }
+
+    result = result.slice(0, insertAt) + cellXml + result.slice(insertAt)
+  }
+
+  return result
+}
+
+/**
+ * Apply patches to a single worksheet XML document
+ */
+export function patchSheetXml(xml: string, patches: CellPatch[]): string {
+  const byRow = new Map<number, CellPatch[]>()
+  for (const patch of patches) {
+    const row = XLSX.utils.decode_cell(patch.address).r + 1
+    byRow.set(row, [...(byRow.get(row) ?? []), patch])
+  }
+
+  let result = xml.replace(ROW_RE, (match, attrs: string, content: string | undefined) => {
+    const rowNumber = Number(readAttr(attrs, 'r'))
+    const rowPatches = byRow.get(rowNumber)
+    if (!rowPatches) return match
+
+    byRow.delete(rowNumber)
+    return `<row${attrs}>${patchRowContent(content ?? '', rowPatches)}</row>`
+  })
+
+  if (byRow.size === 0) return result
+
+  // Rows that did not exist yet are inserted in row order
+  if (/<sheetData\s*\/>/.test(result)) {
+    result = result.replace(/<sheetData\s*\/>/, '<sheetData></sheetData>')
+  }
+
+  const missing = Array.from(byRow.entries()).sort((a, b) => a[0] - b[0])
+  for (const [rowNumber, rowPatches] of missing) {
+    const rowXml = `<row r="${rowNumber}">${patchRowContent('', rowPatches)}</row>`
+    let insertAt = result.indexOf('</sheetData>')
+
+    for (const match of result.matchAll(ROW_RE)) {
+      if (Number(readAttr(match[1], 'r')) > rowNumber) {
+        insertAt = match.index!
+        break
+      }
+    }
+
+    if (insertAt < 0) {
+      throw new Error('Worksheet XML has no <sheetData> element')
+    }
+    result = result.slice(0, insertAt) + rowXml + result.slice(insertAt)
+  }
+
+  return result
+}
+
+// ============================================================================
+// PACKAGE HANDLING
+// ============================================================================
+
+function toUint8Array(input: ArrayBuffer | Uint8Array): Uint8Array {
+  return input instanceof Uint8Array ? input : new Uint8Array(input)
+}
+
+function findEntry(container: CfbContainer, path: string): CfbEntry | undefined {
+  const root = container.FullPaths[0]
+  const index = container.FullPaths.findIndex((p) => p.slice(root.length) === path)
+  return index >= 0 ? container.FileIndex[index] : undefined
+}
+
+function readEntryText(container: CfbContainer, path: string): string | undefined {
+  const entry = findEntry(container, path)
+  if (!entry?.content) return undefined
+  return new TextDecoder().decode(Uint8Array.from(entry.content))
+}
+
+/**
+ * Resolve worksheet names to their XML part paths via workbook.xml and its rels
+ */
+function getSheetPaths(container: CfbContainer): Map<string, string> {
+  const workbookXml = readEntryText(container, 'xl/workbook.xml')
+  const relsXml = readEntryText(container, 'xl/_rels/workbook.xml.rels')
+  if (!workbookXml || !relsXml) {
+    throw new Error('File is not an Excel workbook (.xlsx / .xlsm)')
+  }
+
+  const targets = new Map<string, string>()
+  for (const match of relsXml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const id = readAttr(match[1], 'Id')
+    const target = readAttr(match[1], 'Target')
+    if (!id || !target) continue
+    targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+  }
+
+  const paths = new Map<string, string>()
+  for (const match of workbookXml.matchAll(/<sheet\b([^>]*)\/?>/g)) {
+    const name = readAttr(match[1], 'name')
+    const relId = readAttr(match[1], 'r:id')
+    const target = relId ? targets.get(relId) : undefined
+    if (name && target) paths.set(name, target)
+  }
+
+  return paths
+}
+
+/**
+ * Return a copy of the workbook with the given cells rewritten
+ *
+ * @throws {Error} If the file is not an xlsx package or a patch names a
+ * sheet that does not exist
+ */
+export function patchWorkbook(input: ArrayBuffer | Uint8Array, patches: CellPatch[]): Uint8Array {
+  const container: CfbContainer = XLSX.CFB.read(toUint8Array(input), { type: 'array' })
+  const sheetPaths = getSheetPaths(container)
+
+  const bySheet = new Map<string, CellPatch[]>()
+  for (const patch of patches) {
+    bySheet.set(patch.sheetName, [...(bySheet.get(patch.sheetName) ?? []), patch])
+  }
+
+  for (const [sheetName, sheetPatches] of bySheet) {
+    const path = sheetPaths.get(sheetName)
+    const entry = path ? findEntry(container, path) : undefined
+    const xml = path ? readEntryText(container, path) : undefined
+    if (!entry || xml === undefined) {
+      throw new Error(`Sheet "${sheetName}" not found in workbook`)
+    }
+
+    const content = new TextEncoder().encode(patchSheetXml(xml, sheetPatches))
+    entry.content = content
+    entry.size = content.length
+  }
+
+  const output = XLSX.CFB.write(container, { fileType: 'zip', type: 'array', compression: true })
+  return toUint8Array(output)
+}
@@ -0,0 +1,471 @@
+// Excel Write-Back
+// Pushes edits made in SimPilot (engineer assignment, status, schedule dates)
+// back into the source Simulation Status workbook. Edits come from the change
+// log; each cell's source location (sourceFile / sheetName / rowIndex) says
+// where to write. Only cells whose workbook value actually differs are
+// patched, and every edit ends up in a summary, including the ones that
+// could not be written.
+
+import * as XLSX from 'xlsx'
+import type { Cell, CellStatus, UnifiedAsset } from '../domain/core'
+import type { ChangeRecord, ScheduleField } from '../domain/changeLog'
+import type { StationRecord } from '../domain/uidTypes'
+import { COLUMN_ALIASES, REQUIRED_HEADERS } from '../ingestion/simulationStatus/headerMapping'
+import { findHeaderRow } from '../ingestion/excelUtils'
+import { escapeCsvField } from '../utils/csvExport'
+import { CellPatch, CellPatchValue, patchWorkbook } from './workbookPatcher'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WriteBackField = 'assignedEngineer' | 'status' | ScheduleField
+
+export type WriteBackOutcome = 'updated' | 'unchanged' | 'skipped'
+
+/**
+ * One edit applied (or not) to one workbook row
+ */
+export interface WriteBackItem {
+  changeId: string
+  cellId: string
+  cellLabel: string
+  field: WriteBackField
+  sheetName?: string
+  address?: string
+  previousValue: string // as found in the workbook
+  newValue: string
+  outcome: WriteBackOutcome
+  reason?: string // why an edit was skipped
+}
+
+export interface WriteBackSource {
+  cells: Cell[]
+  assets: UnifiedAsset[]
+  stationRecords: StationRecord[]
+  changeLog: ChangeRecord[]
+}
+
+export type WriteBackResult =
+  | {
+      success: true
+      output: Uint8Array
+      items: WriteBackItem[]
+      updatedCount: number
+      /** Edits whose cells come from a different workbook */
+      otherWorkbookCount: number
+    }
+  | { success: false; errorMessage: string }
+
+interface PendingEdit {
+  changeId: string
+  cellId: string
+  field: WriteBackField
+  value: string | undefined
+}
+
+interface RowLocation {
+  sheetName: string
+  rowIndex: number // index into sheet_to_json(header: 1) rows
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const WRITE_BACK_FIELD_LABELS: Record<WriteBackField, string> = {
+  assignedEngineer: 'Engineer',
+  status: 'Status',
+  plannedStart: 'Planned Start',
+  plannedFinish: 'Planned Finish',
+  dueDate: 'Due Date',
+}
+
+const FIELD_HEADER_ALIASES: Record<WriteBackField, string[]> = {
+  assignedEngineer: COLUMN_ALIASES['PERSONS RESPONSIBLE'],
+  status: ['STATUS', 'CELL STATUS', 'SIM STATUS', 'SIMULATION STATUS'],
+  plannedStart: ['PLANNED START', 'START DATE', 'START'],
+  plannedFinish: ['PLANNED FINISH', 'PLANNED END', 'FINISH DATE', 'END DATE', 'FINISH'],
+  dueDate: ['DUE DATE', 'DUE', 'DEADLINE'],
+}
+
+const CELL_STATUS_LABELS: Record<CellStatus, string> = {
+  NotStarted: 'Not Started',
+  InProgress: 'In Progress',
+  Blocked: 'Blocked',
+  ReadyForReview: 'Ready For Review',
+  Approved: 'Approved',
+}
+
+const SCHEDULE_FIELDS: WriteBackField[] = ['plannedStart', 'plannedFinish', 'dueDate']
+
+// Excel serial day 0 is 1899-12-30 in the 1900 date system
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30)
+const MS_PER_DAY = 86400000
+
+// ============================================================================
+// EDIT COLLECTION
+// ============================================================================
+
+/**
+ * Reduce the change log to the latest value per cell and field
+ */
+export function collectPendingEdits(changes: ChangeRecord[]): PendingEdit[] {
+  const latest = new Map<string, PendingEdit & { createdAt: string }>()
+
+  const consider = (
+    change: ChangeRecord,
+    field: WriteBackField,
+    value: string | undefined,
+  ): void => {
+    const key = `${change.cellId}::${field}`
+    const existing = latest.get(key)
+    if (existing && existing.createdAt > change.createdAt) return
+    latest.set(key, {
+      changeId: change.id,
+      cellId: change.cellId,
+      field,
+      value,
+      createdAt: change.createdAt,
+    })
+  }
+
+  for (const change of changes) {
+    switch (change.kind) {
+      case 'cellEngineerAssignment':
+        consider(change, 'assignedEngineer', change.newEngineer)
+        break
+      case 'statusChange':
+        consider(change, 'status', change.newStatus)
+        break
+      case 'scheduleMove':
+        consider(change, change.field, change.newDate)
+        break
+    }
+  }
+
+  return Array.from(latest.values()).map(({ createdAt: _createdAt, ...edit }) => edit)
+}
+
+// ============================================================================
+// LOCATION HELPERS
+// ============================================================================
+
+function getBaseName(path: string): string {
+  return (path.split(/[\\/]/).pop() ?? path).trim().toLowerCase()
+}
+
+function isSameWorkbook(sourceFile: string | undefined, fileName: string): boolean {
+  return !!sourceFile && getBaseName(sourceFile) === getBaseName(fileName)
+}
+
+/**
+ * The workbook rows that hold a cell: the cell's own simulation row plus
+ * the rows of robots linked to it from the same file. Falls back to the
+ * registry station record when the cell has no simulation source.
+ */
+function getCellRows(cell: Cell, source: WriteBackSource, fileName: string): RowLocation[] {
+  const rows: RowLocation[] = []
+  const seen = new Set<string>()
+  const add = (sheetName: string, rowIndex: number) => {
+    const key = `${sheetName}::${rowIndex}`
+    if (seen.has(key)) return
+    seen.add(key)
+    rows.push({ sheetName, rowIndex })
+  }
+
+  if (cell.simulation && isSameWorkbook(cell.simulation.sourceFile, fileName)) {
+    add(cell.simulation.sheetName, cell.simulation.rowIndex)
+
+    for (const asset of source.assets) {
+      if (asset.cellId !== cell.id || asset.kind !== 'ROBOT') continue
+      if (!isSameWorkbook(asset.sourceFile, fileName)) continue
+      if (asset.sheetName !== cell.simulation.sheetName) continue
+      add(asset.sheetName, asset.rowIndex)
+    }
+    return rows
+  }
+
+  if (!cell.simulation && cell.stationId) {
+    const record = source.stationRecords.find((r) => r.key === cell.stationId)
+    if (
+      record?.sheetName &&
+      record.rowIndex !== undefined &&
+      isSameWorkbook(record.sourceFile, fileName)
+    ) {
+      add(record.sheetName, record.rowIndex)
+    }
+  }
+
+  return rows
+}
+
+function getCellSourceFile(cell: Cell, source: WriteBackSource): string | undefined {
+  if (cell.simulation) return cell.simulation.sourceFile
+  return source.stationRecords.find((r) => r.key === cell.stationId)?.sourceFile
+}
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? '')
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+}
+
+function findFieldColumn(headerRow: unknown[], field: WriteBackField): number | undefined {
+  const headers = headerRow.map(normalizeHeader)
+  for (const alias of FIELD_HEADER_ALIASES[field]) {
+    const index = headers.indexOf(alias)
+    if (index >= 0) return index
+  }
+  return undefined
+}
+
+// ============================================================================
+// VALUE HELPERS
+// ============================================================================
+
+function isoDateToSerial(iso: string): number | undefined {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) return undefined
+  const utc = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return Math.round((utc - EXCEL_EPOCH_MS) / MS_PER_DAY)
+}
+
+function serialToIsoDate(serial: number): string {
+  return new Date(EXCEL_EPOCH_MS + Math.round(serial) * MS_PER_DAY).toISOString().slice(0, 10)
+}
+
+/**
+ * Convert an edit to the value written into the sheet. Dates stay Excel
+ * serial numbers when the existing cell is numeric, so date formats apply.
+ */
+function toPatchValue(edit: PendingEdit, existing: XLSX.CellObject | undefined): CellPatchValue {
+  if (!edit.value) return null
+
+  if (edit.field === 'status') {
+    return CELL_STATUS_LABELS[edit.value as CellStatus] ?? edit.value
+  }
+
+  if (SCHEDULE_FIELDS.includes(edit.field)) {
+    const serial = isoDateToSerial(edit.value)
+    if (serial !== undefined && (existing?.t === 'n' || existing?.t === 'd')) return serial
+    return serial !== undefined ? serialToIsoDate(serial) : edit.value
+  }
+
+  return edit.value
+}
+
+function describeExisting(existing: XLSX.CellObject | undefined, field: WriteBackField): string {
+  if (!existing || existing.v === undefined || existing.v === null) return ''
+  if (SCHEDULE_FIELDS.includes(field) && typeof existing.v === 'number') {
+    return serialToIsoDate(existing.v)
+  }
+  return String(existing.v).trim()
+}
+
+function describePatchValue(value: CellPatchValue, field: WriteBackField): string {
+  if (value === null) return ''
+  if (SCHEDULE_FIELDS.includes(field) && typeof value === 'number') {
+    return serialToIsoDate(value)
+  }
+  return String(value)
+}
+
+// ============================================================================
+// WRITE-BACK
+// ============================================================================
+
+/**
+ * Apply pending change-log edits to the original workbook
+ *
+ * @param input - Bytes of the original workbook as uploaded by the user
+ * @param fileName - Its file name, matched against each cell's sourceFile
+ * @param source - Store collections (cells, robots, registry, change log)
+ */
+export function buildWriteBack(
+  input: ArrayBuffer | Uint8Array,
+  fileName: string,
+  source: WriteBackSource,
+): WriteBackResult {
+  let workbook: XLSX.WorkBook
+  try {
+    workbook = XLSX.read(input, { type: 'array', cellFormula: true, cellDates: false })
+  } catch (error) {
+    return {
+      success: false,
+      errorMessage: `Could not read ${fileName}: ${error instanceof Error ? error.message : String(error)}`,
+    }
+  }
+
+  const cellsById = new Map(source.cells.map((c) => [c.id, c]))
+  const items: WriteBackItem[] = []
+  const patches = new Map<string, CellPatch>()
+  let otherWorkbookCount = 0
+
+  for (const edit of collectPendingEdits(source.changeLog)) {
+    const cell = cellsById.get(edit.cellId)
+    const base = {
+      changeId: edit.changeId,
+      cellId: edit.cellId,
+      cellLabel: cell ? `${cell.code} - ${cell.name}` : edit.cellId,
+      field: edit.field,
+      previousValue: '',
+      newValue: edit.value ?? '',
+    }
+
+    if (!cell) {
+      items.push({ ...base, outcome: 'skipped', reason: 'Cell no longer exists' })
+      continue
+    }
+
+    const rows = getCellRows(cell, source, fileName)
+    if (rows.length === 0) {
+      if (getCellSourceFile(cell, source)) {
+        otherWorkbookCount++
+      } else {
+        items.push({ ...base, outcome: 'skipped', reason: 'Cell has no source row' })
+      }
+      continue
+    }
+
+    for (const { sheetName, rowIndex } of rows) {
+      const sheet = workbook.Sheets[sheetName]
+      if (!sheet || !sheet['!ref']) {
+        items.push({ ...base, sheetName, outcome: 'skipped', reason: 'Sheet not found' })
+        continue
+      }
+
+      const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '' })
+      const headerIndex = findHeaderRow(
+        matrix.slice(0, rowIndex) as Parameters<typeof findHeaderRow>[0],
+        REQUIRED_HEADERS,
+      )
+      const column =
+        headerIndex === null ? undefined : findFieldColumn(matrix[headerIndex], edit.field)
+      if (column === undefined) {
+        items.push({
+          ...base,
+          sheetName,
+          outcome: 'skipped',
+          reason: `No ${WRITE_BACK_FIELD_LABELS[edit.field]} column`,
+        })
+        continue
+      }
+
+      const start = XLSX.utils.decode_range(sheet['!ref']).s
+      const address = XLSX.utils.encode_cell({ r: start.r + rowIndex, c: start.c + column })
+      const existing: XLSX.CellObject | undefined = sheet[address]
+      const value = toPatchValue(edit, existing)
+      const item = {
+        ...base,
+        sheetName,
+        address,
+        previousValue: describeExisting(existing, edit.field),
+        newValue: describePatchValue(value, edit.field),
+      }
+
+      if (existing?.f) {
+        items.push({ ...item, outcome: 'skipped', reason: 'Cell contains a formula' })
+        continue
+      }
+      if (item.previousValue === item.newValue) {
+        items.push({ ...item, outcome: 'unchanged' })
+        continue
+      }
+
+      patches.set(`${sheetName}!${address}`, { sheetName, address, value })
+      items.push({ ...item, outcome: 'updated' })
+    }
+  }
+
+  try {
+    const output = patchWorkbook(input, Array.from(patches.values()))
+    return {
+      success: true,
+      output,
+      items,
+      updatedCount: items.filter((i) => i.outcome === 'updated').length,
+      otherWorkbookCount,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Failed to write workbook',
+    }
+  }
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Change summary as CSV, one line per edit and workbook row
+ */
+export function generateWriteBackSummaryCsv(items: WriteBackItem[]): string {
+  const header =
+    'Outcome,Cell ID,Cell,Field,Sheet,Address,Previous Value,New Value,Reason,Change ID\n'
+
+  const rows = items.map((item) =>
+    [
+      item.outcome,
+      item.cellId,
+      item.cellLabel,
+      WRITE_BACK_FIELD_LABELS[item.field],
+      item.sheetName ?? '',
+      item.address ?? '',
+      item.previousValue,
+      item.newValue,
+      item.reason ?? '',
+      item.changeId,
+    ]
+      .map(escapeCsvField)
+      .join(','),
+  )
+
+  return header + rows.join('\n')
+}
+
+/**
+ * Name for the revised workbook, keeping the original extension
+ */
+export function getRevisedFileName(fileName: string, date = new Date()): string {
+  const dot = fileName.lastIndexOf('.')
+  const stem = dot > 0 ? fileName.slice(0, dot) : fileName
+  const ext = dot > 0 ? fileName.slice(dot) : '.xlsx'
+  return `${stem}_simpilot_${date.toISOString().slice(0, 10)}${ext}`
+}
+
+function triggerDownload(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.setAttribute('href', url)
+  link.setAttribute('download', fileName)
+  link.style.visibility = 'hidden'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Trigger browser download of the revised workbook
+ */
+export function downloadRevisedWorkbook(output: Uint8Array, originalFileName: string): void {
+  const blob = new Blob([output as BlobPart], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  })
+  triggerDownload(blob, getRevisedFileName(originalFileName))
+}
+
+/**
+ * Trigger browser download of the change summary CSV
+ */
+export function downloadWriteBackSummary(items: WriteBackItem[], originalFileName: string): void {
+  const csv = generateWriteBackSummaryCsv(items)
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
+  const stem = getRevisedFileName(originalFileName).replace(/\.[^.]+$/, '')
+  triggerDownload(blob, `${stem}_changes.csv`)
+}
@@ -1,6 +1,6 @@
 // Simulation Detail Drawer
 // Side panel showing full station context and related assets
-// Provides action to view assets in Assets tab
+// Provides action to view assets in Assets tab and a live SimBridge signal watch
 
 import { useState } from 'react';
 import { AlertTriangle, ChevronRight } from 'lucide-react';
@@ -10,6 +10,7 @@ import { DrawerHeader } from './drawer/DrawerHeader';
 import { TabNavigation, type TabView } from './drawer/TabNavigation';
 import { OverviewTab } from './drawer/OverviewTab';
 import { AssetsTab } from './drawer/AssetsTab';
+import { SignalsTab } from './drawer/SignalsTab';
 
 interface SimulationDetailDrawerProps {
   station: StationContext | null;
@@ -94,6 +95,7 @@ export function SimulationDetailDrawer({
             {/* Tab Content */}
             {activeTab === 'overview' && <OverviewTab station={station} />}
             {activeTab === 'assets' && <AssetsTab station={station} />}
+            {activeTab === 'signals' && <SignalsTab key={station.contextKey} station={station} />}
 
             {/* Actions */}
             {hasToolingBottlenecks && (
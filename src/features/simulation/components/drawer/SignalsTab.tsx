@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { Activity, Circle, Download, Play, RotateCcw, Square, Trash2 } from 'lucide-react';
+import { cn } from '../../../../ui/lib/utils';
+import type { StationContext } from '../../simulationStore';
+import {
+  parseSignalList,
+  toNumericValue,
+  type SignalFrame,
+  type SignalValue
+} from '../../../../integrations/simbridge/signalMonitor';
+import { useSignalMonitor } from './useSignalMonitor';
+
+const CHART_WIDTH = 360;
+const CHART_HEIGHT = 120;
+const SERIES_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+const INTERVAL_OPTIONS = [250, 500, 1000, 2000, 5000];
+
+interface SignalsTabProps {
+  station: StationContext;
+}
+
+function formatValue(value: SignalValue | undefined): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(3);
+  return String(value);
+}
+
+/**
+ * Line chart with each signal scaled to its own range, so signals with
+ * very different magnitudes stay readable side by side
+ */
+function SignalChart({ frames, signals }: { frames: SignalFrame[]; signals: string[] }) {
+  if (frames.length < 2) {
+    return (
+      <div className="h-[120px] flex items-center justify-center text-[10px] text-gray-500 bg-gray-50 dark:bg-gray-700/50 rounded border border-gray-200 dark:border-gray-600">
+        Waiting for data…
+      </div>
+    );
+  }
+
+  const stepX = CHART_WIDTH / (frames.length - 1);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-[120px] bg-gray-50 dark:bg-gray-700/50 rounded border border-gray-200 dark:border-gray-600"
+      preserveAspectRatio="none"
+      data-testid="signal-chart"
+    >
+      {signals.map((name, i) => {
+        const values = frames.map(f => toNumericValue(f.values[name] ?? null));
+        const numeric = values.filter((v): v is number => v !== null);
+        if (numeric.length === 0) return null;
+
+        const min = Math.min(...numeric);
+        const range = Math.max(...numeric) - min || 1;
+        const points = values
+          .map((v, idx) =>
+            v === null
+              ? null
+              : `${(idx * stepX).toFixed(1)},${(CHART_HEIGHT - 4 - ((v - min) / range) * (CHART_HEIGHT - 8)).toFixed(1)}`
+          )
+          .filter(Boolean)
+          .join(' ');
+
+        return (
+          <polyline
+            key={name}
+            points={points}
+            fill="none"
+            stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+export function SignalsTab({ station }: SignalsTabProps) {
+  const monitor = useSignalMonitor(station.contextKey);
+  const [signalText, setSignalText] = useState(() => monitor.signals.join('\n'));
+  const [replayPosition, setReplayPosition] = useState<{ id: string; index: number } | null>(null);
+
+  // A newly opened replay starts at its last frame
+  const replay = monitor.replay;
+  const replayIndex =
+    replay && replayPosition?.id === replay.id ? replayPosition.index : (replay?.frames.length ?? 1) - 1;
+
+  const signals = replay ? replay.signals : monitor.signals;
+  const frames = replay ? replay.frames.slice(0, replayIndex + 1) : monitor.frames;
+  const current = frames[frames.length - 1];
+  const isDirty = parseSignalList(signalText).join('\n') !== monitor.signals.join('\n');
+
+  return (
+    <div className="space-y-3" data-testid="signals-tab">
+      {/* Signal Configuration */}
+      <div className="space-y-1.5">
+        <h3 className="text-xs font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-1.5">
+          <Activity className="h-3.5 w-3.5" />
+          Watched Signals
+        </h3>
+        <textarea
+          value={signalText}
+          onChange={e => setSignalText(e.target.value)}
+          rows={3}
+          placeholder="One signal per line, e.g. Robot1.TCP_Speed"
+          className="w-full px-2 py-1 text-xs font-mono rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+          disabled={monitor.isRunning}
+        />
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => monitor.updateSignals(parseSignalList(signalText))}
+            disabled={!isDirty || monitor.isRunning}
+            className="px-2 py-1 text-[11px] font-medium rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Apply
+          </button>
+          <label className="flex items-center gap-1 text-[11px] text-gray-600 dark:text-gray-400">
+            Every
+            <select
+              value={monitor.intervalMs}
+              onChange={e => monitor.updateInterval(Number(e.target.value))}
+              className="px-1 py-0.5 text-[11px] rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+            >
+              {INTERVAL_OPTIONS.map(ms => (
+                <option key={ms} value={ms}>
+                  {ms < 1000 ? `${ms} ms` : `${ms / 1000} s`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {/* Controls */}
+      {!replay && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={monitor.isRunning ? monitor.stop : monitor.start}
+            disabled={monitor.signals.length === 0 || monitor.isRecording}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 text-[11px] font-medium rounded border disabled:opacity-50',
+              monitor.isRunning
+                ? 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                : 'border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/20'
+            )}
+          >
+            {monitor.isRunning ? <Square className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+            {monitor.isRunning ? 'Stop' : 'Watch'}
+          </button>
+          <button
+            onClick={() =>
+              monitor.isRecording
+                ? void monitor.stopRecording()
+                : monitor.startRecording(`${station.station} ${new Date().toLocaleTimeString()}`)
+            }
+            disabled={monitor.signals.length === 0}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 text-[11px] font-medium rounded border disabled:opacity-50',
+              monitor.isRecording
+                ? 'border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20'
+                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+            )}
+            data-testid="signal-record-button"
+          >
+            <Circle className={cn('h-3 w-3', monitor.isRecording && 'fill-current animate-pulse')} />
+            {monitor.isRecording ? 'Stop Recording' : 'Record'}
+          </button>
+        </div>
+      )}
+
+      {replay && (
+        <div className="flex items-center gap-2 text-[11px] text-gray-700 dark:text-gray-300">
+          <span className="font-medium truncate">Replay: {replay.name}</span>
+          <button
+            onClick={monitor.closeReplay}
+            className="ml-auto text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Back to live
+          </button>
+        </div>
+      )}
+
+      {/* Chart */}
+      <SignalChart frames={frames} signals={signals} />
+
+      {replay && replay.frames.length > 1 && (
+        <input
+          type="range"
+          min={0}
+          max={replay.frames.length - 1}
+          value={replayIndex}
+          onChange={e => setReplayPosition({ id: replay.id, index: Number(e.target.value) })}
+          className="w-full"
+          aria-label="Replay position"
+        />
+      )}
+
+      {/* Current Values */}
+      {signals.length > 0 && (
+        <div className="space-y-1">
+          {signals.map((name, i) => (
+            <div key={name} className="flex items-center gap-2 text-[11px]">
+              <span
+                className="h-2 w-2 rounded-full flex-shrink-0"
+                style={{ backgroundColor: SERIES_COLORS[i % SERIES_COLORS.length] }}
+              />
+              <span className="font-mono text-gray-700 dark:text-gray-300 truncate flex-1">{name}</span>
+              <span className="font-mono font-medium text-gray-900 dark:text-white">
+                {formatValue(current?.values[name])}
+              </span>
+            </div>
+          ))}
+          {current && (
+            <p className="text-[10px] text-gray-500">
+              {new Date(current.at).toLocaleTimeString()}
+            </p>
+          )}
+        </div>
+      )}
+
+      {monitor.error && <p className="text-[11px] text-red-600 dark:text-red-400">{monitor.error}</p>}
+
+      {/* Saved Recordings */}
+      <div className="pt-2 border-t border-gray-200 dark:border-gray-700 space-y-1.5">
+        <h3 className="text-xs font-semibold text-gray-700 dark:text-gray-300">
+          Recordings ({monitor.recordings.length})
+        </h3>
+        {monitor.recordings.length === 0 && (
+          <p className="text-[11px] text-gray-500">No recordings for this station yet</p>
+        )}
+        {monitor.recordings.map(recording => (
+          <div
+            key={recording.id}
+            className={cn(
+              'flex items-center gap-2 p-1.5 rounded border text-[11px]',
+              replay?.id === recording.id
+                ? 'border-blue-300 dark:border-blue-700 bg-blue-50/50 dark:bg-blue-900/10'
+                : 'border-gray-200 dark:border-gray-600'
+            )}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-gray-900 dark:text-white truncate">{recording.name}</div>
+              <div className="text-[10px] text-gray-500">
+                {recording.frameCount} samples · {recording.signals.length} signals
+              </div>
+            </div>
+            <button
+              onClick={() => void monitor.openReplay(recording.id)}
+              title="Replay"
+              className="p-1 text-gray-500 hover:text-blue-600"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => void monitor.exportRecording(recording.id)}
+              title="Export CSV"
+              className="p-1 text-gray-500 hover:text-blue-600"
+            >
+              <Download className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => void monitor.removeRecording(recording.id)}
+              title="Delete"
+              className="p-1 text-gray-500 hover:text-red-600"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
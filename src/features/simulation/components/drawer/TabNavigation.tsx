@@ -1,7 +1,7 @@
-import { BarChart3, Package } from 'lucide-react';
+import { Activity, BarChart3, Package } from 'lucide-react';
 import { cn } from '../../../../ui/lib/utils';
 
-export type TabView = 'overview' | 'assets';
+export type TabView = 'overview' | 'assets' | 'signals';
 
 interface TabNavigationProps {
   activeTab: TabView;
@@ -40,6 +40,20 @@ export function TabNavigation({ activeTab, assetCount, onTabChange }: TabNavigat
           Assets ({assetCount})
         </div>
       </button>
+      <button
+        onClick={() => onTabChange('signals')}
+        className={cn(
+          'flex-1 px-3 py-2 text-xs font-medium transition-colors border-b-2',
+          activeTab === 'signals'
+            ? 'border-blue-500 text-blue-600 dark:text-blue-400 bg-blue-50/50 dark:bg-blue-900/10'
+            : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+        )}
+      >
+        <div className="flex items-center justify-center gap-1.5">
+          <Activity className="h-3.5 w-3.5" />
+          Signals
+        </div>
+      </button>
     </div>
   );
 }
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  SignalMonitor,
+  downloadRecordingCsv,
+  loadWatchedSignals,
+  saveWatchedSignals,
+  type SignalRecording,
+} from '../../../../integrations/simbridge/signalMonitor';
+import {
+  deleteSignalRecording,
+  getSignalRecording,
+  listSignalRecordings,
+  saveSignalRecording,
+  type SignalRecordingSummary,
+} from '../../../../integrations/simbridge/signalRecordingStore';
+
+/**
+ * Live signal polling, recording and saved-session access for one station
+ */
+export function useSignalMonitor(stationKey: string) {
+  const [signals, setSignals] = useState<string[]>(() => loadWatchedSignals());
+  const [intervalMs, setIntervalMs] = useState(DEFAULT_POLL_INTERVAL_MS);
+  const [recordings, setRecordings] = useState<SignalRecordingSummary[]>([]);
+  const [replay, setReplay] = useState<SignalRecording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [, setVersion] = useState(0);
+
+  const [monitor] = useState(() => new SignalMonitor({ signals, intervalMs }));
+
+  useEffect(() => monitor.subscribe(() => setVersion(v => v + 1)), [monitor]);
+
+  // Stop polling when the tab closes; keep any recording in progress
+  useEffect(
+    () => () => {
+      const recording = monitor.stopRecording();
+      monitor.stop();
+      if (recording && recording.frames.length > 0) {
+        void saveSignalRecording(recording);
+      }
+    },
+    [monitor]
+  );
+
+  const refreshRecordings = useCallback(async () => {
+    try {
+      setRecordings(await listSignalRecordings(stationKey));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load recordings');
+    }
+  }, [stationKey]);
+
+  useEffect(() => {
+    void refreshRecordings();
+  }, [refreshRecordings]);
+
+  const updateSignals = useCallback(
+    (next: string[]) => {
+      setSignals(next);
+      saveWatchedSignals(next);
+      monitor.setSignals(next);
+      monitor.clearFrames();
+    },
+    [monitor]
+  );
+
+  const updateInterval = useCallback(
+    (next: number) => {
+      setIntervalMs(next);
+      monitor.setIntervalMs(next);
+    },
+    [monitor]
+  );
+
+  const start = useCallback(() => {
+    setReplay(null);
+    monitor.start();
+  }, [monitor]);
+
+  const stop = useCallback(() => monitor.stop(), [monitor]);
+
+  const startRecording = useCallback(
+    (name: string) => {
+      setReplay(null);
+      monitor.startRecording({ name, stationKey });
+      monitor.start();
+    },
+    [monitor, stationKey]
+  );
+
+  const stopRecording = useCallback(async () => {
+    const recording = monitor.stopRecording();
+    if (!recording || recording.frames.length === 0) return;
+    try {
+      await saveSignalRecording(recording);
+      await refreshRecordings();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save recording');
+    }
+  }, [monitor, refreshRecordings]);
+
+  const openReplay = useCallback(
+    async (id: string) => {
+      monitor.stop();
+      const recording = await getSignalRecording(id);
+      setReplay(recording ?? null);
+    },
+    [monitor]
+  );
+
+  const exportRecording = useCallback(async (id: string) => {
+    const recording = await getSignalRecording(id);
+    if (recording) downloadRecordingCsv(recording);
+  }, []);
+
+  const removeRecording = useCallback(
+    async (id: string) => {
+      await deleteSignalRecording(id);
+      setReplay(current => (current?.id === id ? null : current));
+      await refreshRecordings();
+    },
+    [refreshRecordings]
+  );
+
+  return {
+    signals,
+    intervalMs,
+    frames: monitor.getFrames(),
+    isRunning: monitor.isRunning(),
+    isRecording: monitor.isRecording(),
+    recordings,
+    replay,
+    error,
+    updateSignals,
+    updateInterval,
+    start,
+    stop,
+    startRecording,
+    stopRecording,
+    openReplay,
+    closeReplay: () => setReplay(null),
+    exportRecording,
+    removeRecording
+  };
+}
@@ -1,23 +1,20 @@
-import { useState, useEffect, useCallback } from 'react'
-import { ChangeLogEntry } from '../domain/types'
-import { getChangeLogByCellId, addChangeLogEntry as storeAddEntry } from '../domain/changeLogStore'
+import { useMemo } from 'react'
+import { useChangeLog as useStoreChangeLog } from '../domain/coreStore'
+import { addChangeLogEntry as storeAddEntry } from '../domain/changeLogStore'
 
 export function useChangeLog(cellId: string | undefined) {
-    const [entries, setEntries] = useState<ChangeLogEntry[]>([])
+    const changes = useStoreChangeLog()
 
-    const refresh = useCallback(() => {
-        if (!cellId) return
-        setEntries(getChangeLogByCellId(cellId))
-    }, [cellId])
-
-    useEffect(() => {
-        refresh()
-    }, [cellId, refresh])
+    const entries = useMemo(() => {
+        if (!cellId) return []
+        return changes
+            .filter(e => e.cellId === cellId)
+            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    }, [changes, cellId])
 
     const addEntry = (userId: string, text: string) => {
         if (!cellId) return
         storeAddEntry({ cellId, userId, text })
-        refresh()
     }
 
     return { entries, addEntry }
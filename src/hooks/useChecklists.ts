@@ -1,54 +1,76 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Checklist, ChecklistItem, ChecklistItemStatus, ChecklistTemplate } from '../domain/types'
+import { useMemo } from 'react'
+import { ChecklistItem, ChecklistItemStatus } from '../domain/types'
+import { useCoreStore } from '../domain/coreStore'
 import {
-    getChecklistsByCellId,
-    getChecklistItemsByChecklistId,
-    getChecklistTemplatesByPhase,
     createChecklistFromTemplate as storeCreateChecklist,
-    updateChecklistItem as storeUpdateItem
+    updateChecklistItem as storeUpdateItem,
+    isTemplateForCustomer
 } from '../domain/checklistsStore'
+import { migrateChecklistToLatestTemplate } from '../domain/checklistTemplatesStore'
+import { useCurrentUser } from './useCurrentUser'
 
 export function useChecklists(cellId: string | undefined) {
-    const [checklists, setChecklists] = useState<Checklist[]>([])
-    const [itemsByChecklistId, setItemsByChecklistId] = useState<Record<string, ChecklistItem[]>>({})
-    const [templates, setTemplates] = useState<ChecklistTemplate[]>([]) // For creating new ones
+    const state = useCoreStore()
+    const user = useCurrentUser()
 
-    const refresh = useCallback(() => {
-        if (!cellId) return
-        const lists = getChecklistsByCellId(cellId)
-        setChecklists([...lists]) // Copy to trigger render
+    const checklists = useMemo(
+        () => (cellId ? state.checklists.filter(c => c.cellId === cellId) : []),
+        [state.checklists, cellId]
+    )
 
+    const itemsByChecklistId = useMemo(() => {
         const itemsMap: Record<string, ChecklistItem[]> = {}
-        lists.forEach(l => {
-            itemsMap[l.id] = getChecklistItemsByChecklistId(l.id)
+        checklists.forEach(l => {
+            itemsMap[l.id] = state.checklistItems.filter(i => i.checklistId === l.id)
         })
-        setItemsByChecklistId(itemsMap)
-    }, [cellId])
+        return itemsMap
+    }, [checklists, state.checklistItems])
+
+    // Customer of the cell's project decides which customer-specific templates are offered
+    const customer = useMemo(() => {
+        const cell = state.cells.find(c => c.id === cellId)
+        return state.projects.find(p => p.id === cell?.projectId)?.customer
+    }, [state.cells, state.projects, cellId])
 
-    useEffect(() => {
-        refresh()
-        // Load templates (simplified: load all active)
-        // In a real app we might filter by cell phase if cell had a phase
-        setTemplates([...getChecklistTemplatesByPhase('PRE_SIM'), ...getChecklistTemplatesByPhase('FULL_SIM')])
-    }, [cellId, refresh])
+    // Templates offered when creating new checklists (active PRE_SIM / FULL_SIM only)
+    const templates = useMemo(
+        () => state.checklistTemplates.filter(t =>
+            t.isActive &&
+            (t.phase === 'PRE_SIM' || t.phase === 'FULL_SIM') &&
+            isTemplateForCustomer(t, customer)
+        ),
+        [state.checklistTemplates, customer]
+    )
+
+    // Latest version per template family, to flag checklists pinned to an older version
+    const latestVersionByFamily = useMemo(() => {
+        const latest = new Map<string, number>()
+        state.checklistTemplates.forEach(t => {
+            latest.set(t.familyId, Math.max(latest.get(t.familyId) ?? 0, t.version))
+        })
+        return latest
+    }, [state.checklistTemplates])
 
     const createChecklist = (templateId: string, ownerUserId: string) => {
         if (!cellId) return
         storeCreateChecklist({ cellId, templateId, ownerUserId })
-        refresh()
     }
 
     const updateItem = (itemId: string, status?: ChecklistItemStatus, comment?: string) => {
-        storeUpdateItem({ itemId, status, comment })
-        refresh()
+        storeUpdateItem({ itemId, status, comment, userId: user?.email })
     }
 
+    const migrateChecklist = (checklistId: string) => migrateChecklistToLatestTemplate(checklistId)
+
     return {
         checklists,
         itemsByChecklistId,
         templates,
+        allTemplates: state.checklistTemplates,
+        itemTemplates: state.checklistItemTemplates,
+        latestVersionByFamily,
         createChecklist,
         updateItem,
-        refresh
+        migrateChecklist
     }
 }
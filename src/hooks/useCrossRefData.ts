@@ -24,6 +24,7 @@ export interface CrossRefStats {
   toolCount: number
   weldGunCount: number
   riserCount: number
+  waivedFlags?: number
 }
 
 export interface AreaSummary {
@@ -1,13 +1,10 @@
-import { useState, useEffect } from 'react'
+import { useMemo } from 'react'
 import {
-    Robot, WeldGun, RobotGunAssignment, GunCheckStatus, Stand, SpotWeldRef
+    Robot, WeldGun, RobotGunAssignment, GunCheckStatus, Stand, SpotWeldRef, UnifiedAsset
 } from '../domain/types'
-import { getRobotsByCellId } from '../domain/robotsStore'
-import { getAssignmentsByCellId, getGunCheckStatusByAssignmentId } from '../domain/robotGunAssignmentsStore'
-import { getWeldGunById } from '../domain/weldGunsStore'
+import { deriveRobotGunAssignments } from '../domain/robotGunAssignmentsStore'
+import { useCoreStore } from '../domain/coreStore'
 import { getStandsByAreaId } from '../domain/standsStore'
-import { getSpotWeldRefsByCellId } from '../domain/spotWeldsStore'
-import { getCellById } from '../domain/cellsStore'
 
 export type CellEquipment = {
     robots: Robot[]
@@ -18,57 +15,55 @@ export type CellEquipment = {
     spotWeldRefs: SpotWeldRef[]
 }
 
+/**
+ * Robot view of an asset; its tools are the guns assigned to it
+ */
+function toRobot(asset: UnifiedAsset, assignments: RobotGunAssignment[]): Robot {
+    return {
+        ...asset,
+        kind: 'ROBOT',
+        toolIds: assignments.filter(a => a.robotId === asset.id).map(a => a.weldGunId)
+    }
+}
+
+function toWeldGun(asset: UnifiedAsset | undefined): WeldGun | undefined {
+    if (asset?.kind !== 'GUN') return
+    return { ...asset, kind: 'GUN' }
+}
+
 export function useEquipmentByCellId(cellId: string | undefined): CellEquipment {
-    const [data, setData] = useState<CellEquipment>({
-        robots: [],
-        robotGunAssignments: [],
-        weldGuns: [],
-        gunStatuses: [],
-        stands: [],
-        spotWeldRefs: []
-    })
+    const { assets, cells, gunChecks, spotWeldRefs } = useCoreStore()
 
-    useEffect(() => {
-        if (!cellId) {
-            setData({
+    // Derived from the full asset list so guns at another station still find their robot
+    const allAssignments = useMemo(() => deriveRobotGunAssignments(assets), [assets])
+
+    return useMemo(() => {
+        const cell = cellId ? cells.find(c => c.id === cellId) : undefined
+        if (!cell) {
+            return {
                 robots: [], robotGunAssignments: [], weldGuns: [],
                 gunStatuses: [], stands: [], spotWeldRefs: []
-            })
-            return
+            }
         }
 
-        const cell = getCellById(cellId)
-        if (!cell) return
-
-        const robots = getRobotsByCellId(cellId)
-        const assignments = getAssignmentsByCellId(cellId)
-
-        // Resolve guns from assignments
-        const guns: WeldGun[] = []
-        const statuses: GunCheckStatus[] = []
+        const assignments = allAssignments.filter(a => a.cellId === cell.id && a.isActive)
+        const assetsById = new Map(assets.map(a => [a.id, a]))
+        const checksByAssignment = new Map(gunChecks.map(c => [c.robotGunAssignmentId, c]))
 
-        assignments.forEach(a => {
-            const gun = getWeldGunById(a.weldGunId)
-            if (gun) guns.push(gun)
-
-            const status = getGunCheckStatusByAssignmentId(a.id)
-            if (status) statuses.push(status)
-        })
-
-        // Stands are by Area
-        const stands = getStandsByAreaId(cell.areaId)
-
-        const spotWeldRefs = getSpotWeldRefsByCellId(cellId)
-
-        setData({
-            robots,
+        return {
+            robots: assets
+                .filter(a => a.kind === 'ROBOT' && a.cellId === cell.id)
+                .map(a => toRobot(a, assignments)),
             robotGunAssignments: assignments,
-            weldGuns: guns,
-            gunStatuses: statuses,
-            stands,
-            spotWeldRefs
-        })
-    }, [cellId])
-
-    return data
+            weldGuns: assignments
+                .map(a => toWeldGun(assetsById.get(a.weldGunId)))
+                .filter((g): g is WeldGun => g !== undefined),
+            gunStatuses: assignments
+                .map(a => checksByAssignment.get(a.id))
+                .filter((s): s is GunCheckStatus => s !== undefined),
+            // Stands are by Area
+            stands: getStandsByAreaId(cell.areaId),
+            spotWeldRefs: spotWeldRefs.filter(w => w.cellId === cell.id)
+        }
+    }, [cellId, cells, assets, allAssignments, gunChecks, spotWeldRefs])
 }
@@ -0,0 +1,62 @@
+import { useMemo } from 'react'
+import { coreStore, useCoreStore } from '../domain/coreStore'
+import { CrossRefFlag, FlagWaiver } from '../domain/crossRef/CrossRefTypes'
+import {
+    FlagWaiverInput,
+    applyRulesToCrossRef,
+    createFlagWaiver,
+    isWaiverActive
+} from '../domain/crossRef'
+import { getCrossRefData, setCrossRefData } from './useCrossRefData'
+import { useCurrentUser } from './useCurrentUser'
+import { getGunCheckSnapshots } from '../domain/robotGunAssignmentsStore'
+
+/**
+ * Re-flag the current cross-reference data with the stored rules, waivers and gun checks
+ */
+export function refreshCrossRefFlags(): void {
+    const current = getCrossRefData()
+    if (!current) return
+
+    const { crossRefRules, flagWaivers } = coreStore.getState()
+    setCrossRefData(applyRulesToCrossRef(current, {
+        ruleSet: crossRefRules,
+        waivers: flagWaivers,
+        gunChecks: getGunCheckSnapshots()
+    }))
+}
+
+export function useFlagWaivers() {
+    const { flagWaivers } = useCoreStore()
+    const user = useCurrentUser()
+
+    const waiversById = useMemo(
+        () => new Map(flagWaivers.map(w => [w.id, w])),
+        [flagWaivers]
+    )
+
+    const activeWaivers = useMemo(
+        () => flagWaivers.filter(w => isWaiverActive(w)),
+        [flagWaivers]
+    )
+
+    const waiveFlag = (flag: CrossRefFlag, input: Omit<FlagWaiverInput, 'author'>): FlagWaiver => {
+        const waiver = createFlagWaiver(flag, { ...input, author: user?.name ?? 'Unknown' })
+        coreStore.addFlagWaivers([waiver])
+        refreshCrossRefFlags()
+        return waiver
+    }
+
+    const revokeWaiver = (waiverId: string) => {
+        coreStore.removeFlagWaivers([waiverId])
+        refreshCrossRefFlags()
+    }
+
+    return {
+        waivers: flagWaivers,
+        activeWaivers,
+        getWaiver: (waiverId: string | undefined) => (waiverId ? waiversById.get(waiverId) : undefined),
+        waiveFlag,
+        revokeWaiver
+    }
+}
@@ -0,0 +1,51 @@
+import { useMemo } from 'react'
+import { useCoreStore } from '../domain/coreStore'
+import { GunCheckStatus } from '../domain/types'
+import {
+    GunCheckInput,
+    buildGunCheckSnapshots,
+    deriveRobotGunAssignments,
+    recordGunCheck
+} from '../domain/robotGunAssignmentsStore'
+import { refreshCrossRefFlags } from './useFlagWaivers'
+import { useCurrentUser } from './useCurrentUser'
+
+export function useGunChecks() {
+    const { assets, cells, gunChecks } = useCoreStore()
+    const user = useCurrentUser()
+
+    const assignments = useMemo(() => deriveRobotGunAssignments(assets), [assets])
+
+    const snapshots = useMemo(
+        () => buildGunCheckSnapshots(assignments, gunChecks, assets, cells),
+        [assignments, gunChecks, assets, cells]
+    )
+
+    const checksByAssignment = useMemo(
+        () => new Map(gunChecks.map(c => [c.robotGunAssignmentId, c])),
+        [gunChecks]
+    )
+
+    /**
+     * Record checks for an assignment; signOff approves them as the current user.
+     * Nothing is recorded when signing off without a current user.
+     */
+    const recordCheck = (
+        robotGunAssignmentId: string,
+        input: GunCheckInput,
+        signOff: boolean
+    ): GunCheckStatus | undefined => {
+        if (signOff && !user) return
+        const check = recordGunCheck(robotGunAssignmentId, input, signOff ? user?.id : undefined)
+        refreshCrossRefFlags()
+        return check
+    }
+
+    return {
+        assignments,
+        snapshots,
+        getCheck: (robotGunAssignmentId: string) => checksByAssignment.get(robotGunAssignmentId),
+        canSignOff: user !== undefined,
+        recordCheck
+    }
+}
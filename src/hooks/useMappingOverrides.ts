@@ -3,25 +3,20 @@
 // Allows Dale to manually fix column→field mappings
 
 import { useState, useCallback, useMemo } from 'react'
-import { FieldId, FieldMatchResult, DEFAULT_FIELD_REGISTRY } from '../ingestion/fieldMatcher'
-import { log } from '../lib/log'
+import {
+  FieldMatchResult,
+  DEFAULT_FIELD_REGISTRY,
+  MappingOverride,
+  loadMappingOverrides,
+  saveMappingOverrides
+} from '../ingestion/fieldMatcher'
+
+export type { MappingOverride } from '../ingestion/fieldMatcher'
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-/**
- * A single mapping override
- */
-export interface MappingOverride {
-  workbookId: string
-  sheetName: string
-  columnIndex: number
-  originalHeader: string
-  fieldId: FieldId
-  createdAt: number
-}
-
 /**
  * Override state and actions
  */
@@ -76,39 +71,6 @@ export interface MappingOverridesState {
   hasOverride: (workbookId: string, sheetName: string, columnIndex: number) => boolean
 }
 
-// ============================================================================
-// STORAGE
-// ============================================================================
-
-const STORAGE_KEY = 'simpilot.mappingOverrides'
-
-/**
- * Load overrides from localStorage
- */
-function loadOverrides(): MappingOverride[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (stored === null) {
-      return []
-    }
-    return JSON.parse(stored) as MappingOverride[]
-  } catch {
-    log.warn('[MappingOverrides] Failed to load from localStorage')
-    return []
-  }
-}
-
-/**
- * Save overrides to localStorage
- */
-function saveOverrides(overrides: MappingOverride[]): void {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides))
-  } catch {
-    log.warn('[MappingOverrides] Failed to save to localStorage')
-  }
-}
-
 // ============================================================================
 // HOOK
 // ============================================================================
@@ -119,10 +81,7 @@ function saveOverrides(overrides: MappingOverride[]): void {
 export function useMappingOverrides(): MappingOverridesState {
   // Initialize from storage
   const [overrides, setOverrides] = useState<MappingOverride[]>(() => {
-    if (typeof window === 'undefined') {
-      return []
-    }
-    return loadOverrides()
+    return loadMappingOverrides()
   })
   
   // Set or update an override
@@ -150,7 +109,7 @@ export function useMappingOverrides(): MappingOverridesState {
         updated = [...prev, newOverride]
       }
       
-      saveOverrides(updated)
+      saveMappingOverrides(updated)
       return updated
     })
   }, [])
@@ -167,7 +126,7 @@ export function useMappingOverrides(): MappingOverridesState {
           o.sheetName === sheetName &&
           o.columnIndex === columnIndex)
       )
-      saveOverrides(updated)
+      saveMappingOverrides(updated)
       return updated
     })
   }, [])
@@ -178,7 +137,7 @@ export function useMappingOverrides(): MappingOverridesState {
       const updated = prev.filter(o =>
         !(o.workbookId === workbookId && o.sheetName === sheetName)
       )
-      saveOverrides(updated)
+      saveMappingOverrides(updated)
       return updated
     })
   }, [])
@@ -186,7 +145,7 @@ export function useMappingOverrides(): MappingOverridesState {
   // Clear all overrides
   const clearAllOverrides = useCallback(() => {
     setOverrides([])
-    saveOverrides([])
+    saveMappingOverrides([])
   }, [])
   
   // Get override for a column
@@ -0,0 +1,26 @@
+import { useMemo } from 'react'
+import { useCoreStore } from '../domain/coreStore'
+import { summarizeSpotWelds } from '../domain/spotWeldsStore'
+import { SpotWeldImportResult, importSpotWeldList } from '../ingestion/spotWeldImport'
+
+export function useSpotWelds(cellId: string | undefined) {
+    const { spotWeldRefs, assets } = useCoreStore()
+
+    const welds = useMemo(
+        () => (cellId ? spotWeldRefs.filter(w => w.cellId === cellId) : []),
+        [spotWeldRefs, cellId]
+    )
+
+    const distribution = useMemo(() => summarizeSpotWelds(welds, assets), [welds, assets])
+
+    /**
+     * Import a weld point list; welds for every station in the file are stored
+     */
+    const importFile = (file: File): Promise<SpotWeldImportResult> => importSpotWeldList(file)
+
+    return {
+        welds,
+        distribution,
+        importFile
+    }
+}
@@ -83,6 +83,26 @@ describe('ingestionCoordinator - Header Sniffing', () => {
     })
   })
 
+  describe('Cancellation', () => {
+    it('reports a cancelled import and leaves the store untouched', async () => {
+      const workbook = createWorkbookFromArray(MESSY_SIMULATION_SHEET, 'SIMULATION')
+      const file = await createFileFromWorkbook(workbook, 'sim-cancelled.xlsx')
+      const controller = new AbortController()
+
+      const result = await ingestFiles({
+        simulationFiles: [file],
+        equipmentFiles: [],
+        signal: controller.signal,
+        onParseProgress: (progress) => {
+          if (progress.phase === 'sheet') controller.abort()
+        },
+      })
+
+      expect(result.warnings.map((w) => w.id)).toEqual(['ingestion-cancelled'])
+      expect(coreStore.getState().cells).toHaveLength(0)
+    })
+  })
+
   describe('File Classification: Ignore Filename, Use Headers', () => {
     it('should detect ToolList from headers even if file is named "Budget_V1.xlsx"', async () => {
       // Arrange: Create a file with gun data but misleading name
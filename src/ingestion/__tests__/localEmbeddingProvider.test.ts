@@ -0,0 +1,127 @@
+// Local Embedding Provider Tests
+// Tests for the n-gram embedding provider and the matcher evaluation harness
+
+import { describe, it, expect } from 'vitest'
+import {
+  LocalEmbeddingProvider,
+  matchFieldWithEmbeddings,
+  buildGoldenEvaluationCases,
+  evaluateFieldMatchers,
+  formatMatcherEvaluationReport,
+  DEFAULT_FIELD_REGISTRY,
+  type ColumnProfile,
+  type GoldenExpectations
+} from '../fieldMatcher'
+import { buildColumnDescription, cosineSimilarity, createEmbeddingProvider } from '../embeddingTypes'
+import goldenExpectations from '../__fixtures__/golden/expectations.json'
+
+function makeColumn(header: string): ColumnProfile {
+  return {
+    columnIndex: 0,
+    header,
+    normalizedHeader: header.toLowerCase(),
+    detectedTypes: ['string'],
+    sampleValues: [],
+    emptyRatio: 0,
+    uniqueRatio: 1
+  }
+}
+
+describe('LocalEmbeddingProvider', () => {
+  it('returns L2-normalized vectors of the configured dimension', async () => {
+    const provider = new LocalEmbeddingProvider({ dimension: 128 })
+    const vector = await provider.embedText('Robot Number')
+
+    expect(provider.getDimension()).toBe(128)
+    expect(vector).toHaveLength(128)
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+    expect(norm).toBeCloseTo(1.0)
+  })
+
+  it('is deterministic', async () => {
+    const a = await new LocalEmbeddingProvider().embedText('Gun Force')
+    const b = await new LocalEmbeddingProvider().embedText('Gun Force')
+    expect(a).toEqual(b)
+  })
+
+  it('embeds only the header of a column description', async () => {
+    const provider = new LocalEmbeddingProvider()
+    const description = buildColumnDescription({
+      header: 'Robot Number',
+      types: ['string'],
+      samples: ['R01', 'R02'],
+      sheetCategory: 'ROBOT_LIST'
+    })
+
+    expect(await provider.embedText(description)).toEqual(await provider.embedText('Robot Number'))
+  })
+
+  it('places similar headers closer than unrelated ones', async () => {
+    const provider = new LocalEmbeddingProvider()
+    const robot = await provider.embedText('Robot ID')
+    const robotTypo = await provider.embedText('Robotnumber')
+    const dueDate = await provider.embedText('Due Date')
+
+    expect(cosineSimilarity(robot, robotTypo)).toBeGreaterThan(cosineSimilarity(robot, dueDate))
+  })
+
+  it('matches a field by its aliases', async () => {
+    const provider = new LocalEmbeddingProvider()
+    const result = await matchFieldWithEmbeddings(makeColumn('Gun Number'), DEFAULT_FIELD_REGISTRY, provider)
+
+    expect(result.matchedField?.id).toBe('gun_number')
+  })
+
+  it('learns headers from confirmed mappings', async () => {
+    const header = 'Zangenkennung'
+    const untrained = new LocalEmbeddingProvider()
+    const trained = new LocalEmbeddingProvider({
+      confirmedMappings: [{ header, fieldId: 'gun_number' }]
+    })
+
+    const before = await matchFieldWithEmbeddings(makeColumn(header), DEFAULT_FIELD_REGISTRY, untrained)
+    const after = await matchFieldWithEmbeddings(makeColumn(header), DEFAULT_FIELD_REGISTRY, trained)
+
+    expect(before.matchedField?.id).not.toBe('gun_number')
+    expect(after.matchedField?.id).toBe('gun_number')
+  })
+
+  it('is created by createEmbeddingProvider for the local type', () => {
+    const provider = createEmbeddingProvider('local', { dimension: 64 })
+
+    expect(provider).toBeInstanceOf(LocalEmbeddingProvider)
+    expect(provider.getDimension()).toBe(64)
+  })
+})
+
+describe('matcher evaluation', () => {
+  const expectations = goldenExpectations as GoldenExpectations
+
+  it('builds cases from golden expectations using registry field ids', () => {
+    const { cases, skippedFieldIds } = buildGoldenEvaluationCases(expectations)
+    const registryIds = new Set(DEFAULT_FIELD_REGISTRY.map(field => field.id))
+
+    expect(cases.length).toBeGreaterThan(0)
+    expect(cases.every(c => registryIds.has(c.expectedFieldId))).toBe(true)
+    expect(cases.some(c => c.expectedFieldId === 'station')).toBe(true)
+    expect(skippedFieldIds).toContain('technician')
+  })
+
+  it('reports accuracy of both matchers over the golden headers', async () => {
+    const { cases, skippedFieldIds } = buildGoldenEvaluationCases(expectations)
+    const report = await evaluateFieldMatchers(
+      cases,
+      new LocalEmbeddingProvider(),
+      DEFAULT_FIELD_REGISTRY,
+      skippedFieldIds
+    )
+
+    expect(report.total).toBe(cases.length)
+    expect(report.results).toHaveLength(cases.length)
+    expect(report.embedding.accuracy).toBeGreaterThanOrEqual(report.pattern.accuracy)
+
+    const text = formatMatcherEvaluationReport(report)
+    expect(text).toContain('Pattern matcher')
+    expect(text).toContain('LocalNgramProvider')
+  })
+})
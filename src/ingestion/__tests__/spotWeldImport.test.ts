@@ -0,0 +1,158 @@
+/**
+ * Tests for weld point list parsing and linking
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { Cell, Robot, Tool, UnifiedAsset } from '../../domain/core'
+import { parseSpotWeldList } from '../spotWeldListParser'
+import { getSpotWeldRefId, linkSpotWelds } from '../spotWeldImport'
+
+const source = { sourceFile: 'test.xlsx', sheetName: 'Sheet1', rowIndex: 0 }
+
+const makeWorkbook = (rows: unknown[][]): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Weld Points')
+  return workbook
+}
+
+const makeCell = (id: string, code: string): Cell => ({
+  id,
+  projectId: 'p1',
+  areaId: 'a1',
+  name: `Underbody - ${code}`,
+  code,
+  status: 'InProgress',
+})
+
+const makeRobot = (partial: Partial<Robot> & { id: string; name: string }): Robot => ({
+  kind: 'ROBOT',
+  sourcing: 'UNKNOWN',
+  metadata: {},
+  toolIds: [],
+  ...source,
+  ...partial,
+})
+
+const makeGun = (partial: Partial<Tool> & { id: string; name: string }): Tool => ({
+  kind: 'GUN',
+  sourcing: 'REUSE',
+  metadata: {},
+  toolType: 'SPOT_WELD',
+  mountType: 'ROBOT_MOUNTED',
+  ...source,
+  ...partial,
+})
+
+describe('parseSpotWeldList', () => {
+  it('reads Process Simulate columns below a title row', () => {
+    const workbook = makeWorkbook([
+      ['Weld point export'],
+      ['Name', 'Station', 'Robot', 'Gun', 'Thickness'],
+      ['SW-001', '010', 'R01', 'G01', '1.2'],
+      [null, '010', 'R01', 'G01', '1.2'],
+      ['SW-002', '010', '', '', '0.8'],
+    ])
+
+    const { rows, warnings } = parseSpotWeldList(workbook, 'welds.xlsx')
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        weldId: 'SW-001',
+        stationCode: '010',
+        robotName: 'R01',
+        gunName: 'G01',
+      }),
+      expect.objectContaining({ weldId: 'SW-002', robotName: '', gunName: '' }),
+    ])
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0].kind).toBe('ROW_SKIPPED')
+  })
+
+  it('keeps the robot name column apart from the weld name', () => {
+    const workbook = makeWorkbook([
+      ['Robot Name', 'Weld Gun', 'Weld Point', 'Station'],
+      ['R01', 'G01', 'SW-001', '010'],
+    ])
+
+    const { rows } = parseSpotWeldList(workbook, 'welds.csv')
+
+    expect(rows[0]).toMatchObject({ weldId: 'SW-001', robotName: 'R01', gunName: 'G01' })
+  })
+
+  it('warns when no sheet looks like a weld list', () => {
+    const { rows, warnings } = parseSpotWeldList(makeWorkbook([['Foo'], ['Bar']]), 'x.xlsx')
+
+    expect(rows).toEqual([])
+    expect(warnings[0].kind).toBe('PARSER_ERROR')
+  })
+})
+
+describe('linkSpotWelds', () => {
+  const cells = [makeCell('c1', '010'), makeCell('c2', '020')]
+  const assets: UnifiedAsset[] = [
+    makeRobot({ id: 'r1', name: 'R01', cellId: 'c1', areaId: 'a1' }),
+    makeRobot({ id: 'r2', name: 'R01', cellId: 'c2', areaId: 'a1' }),
+    makeGun({ id: 'g1', name: 'G01', gunNumber: 'WG-01', robotId: 'r1', cellId: 'c1' }),
+  ]
+
+  const row = (partial: Partial<Parameters<typeof linkSpotWelds>[0][number]>) => ({
+    weldId: 'SW-001',
+    stationCode: '010',
+    areaName: '',
+    robotName: '',
+    gunName: '',
+    sourceFile: 'welds.xlsx',
+    sheetName: 'Weld Points',
+    rowIndex: 1,
+    ...partial,
+  })
+
+  it('links welds to the station cell, the robot in that cell and its gun', () => {
+    const { welds, stats } = linkSpotWelds([row({ robotName: 'R 01', gunName: 'WG-01' })], {
+      cells,
+      assets,
+    })
+
+    expect(welds).toEqual([
+      {
+        id: getSpotWeldRefId('010', 'SW-001'),
+        weldId: 'SW-001',
+        areaId: 'a1',
+        stationNumber: '010',
+        robotId: 'r1',
+        weldGunId: 'g1',
+        cellId: 'c1',
+        notes: '',
+      },
+    ])
+    expect(stats).toEqual({ total: 1, linkedToCell: 1, linkedToRobot: 1, linkedToGun: 1 })
+  })
+
+  it("uses the robot's only gun when the list has no gun", () => {
+    const { welds } = linkSpotWelds([row({ robotName: 'R01' })], { cells, assets })
+
+    expect(welds[0].weldGunId).toBe('g1')
+  })
+
+  it('leaves unknown robots unassigned and notes them', () => {
+    const { welds, stats } = linkSpotWelds([row({ robotName: 'R99' }), row({ weldId: 'SW-002' })], {
+      cells,
+      assets,
+    })
+
+    expect(welds.map((w) => w.robotId)).toEqual([null, null])
+    expect(welds[0].notes).toBe('Robot R99 not found')
+    expect(stats.linkedToCell).toBe(2)
+  })
+
+  it('keeps one weld per station and weld ID', () => {
+    const { welds } = linkSpotWelds([row({}), row({ stationCode: '10', robotName: 'R01' })], {
+      cells,
+      assets,
+    })
+
+    expect(welds).toHaveLength(1)
+    expect(welds[0].robotId).toBe('r1')
+  })
+})
@@ -128,8 +128,8 @@ describeFn('V801 (Ford) E2E Ingestion', () => {
       }
     }
 
-    // This test verifies the 73 new lines of code in v801ToolListSchema.ts
-    // that create separate entities for RH and LH tooling numbers
+    // This test verifies that the V801 schema definition (split: whenAllPresent)
+    // creates separate entities for RH and LH tooling numbers
     // If no RH/LH split is found, the test still passes (maybe the data doesn't have such rows)
     // but we log for visibility
     if (!foundRH_LH_Split) {
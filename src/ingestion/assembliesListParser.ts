@@ -25,6 +25,11 @@ import {
   inferAssembliesAreaName,
   extractRawStationCodeFromAssembliesLabel
 } from './normalizers'
+import {
+  buildSemanticLayerArtifact,
+  headerRowToLabels,
+  type SemanticLayerArtifact
+} from './semanticLayer'
 
 // ============================================================================
 // TYPES
@@ -42,6 +47,7 @@ export interface AssembliesMetric {
 export interface AssembliesListResult {
   tools: Tool[]
   warnings: IngestionWarning[]
+  semanticLayer?: SemanticLayerArtifact
 }
 
 // ============================================================================
@@ -239,6 +245,12 @@ export async function parseAssembliesList(
 
   const headerRowIndex = headerRowIndexRelative + 8
   const headerRow = rows[headerRowIndex]
+  const semanticLayer = buildSemanticLayerArtifact({
+    domain: 'assembliesList',
+    fileName,
+    sheetName,
+    headers: headerRowToLabels(headerRow)
+  })
 
   // Build core field indices
   const coreIndices: Record<string, number> = {}
@@ -418,6 +430,7 @@ export async function parseAssembliesList(
 
   return {
     tools,
-    warnings
+    warnings,
+    semanticLayer
   }
 }
@@ -20,6 +20,7 @@ import {
   PanelMilestones,
 } from './simulationStatus/simulationStatusTypes'
 import { normalizeStationId } from '../domain/crossRef/CrossRefUtils'
+import { buildGunForceSnapshots } from '../domain/crossRef/GunForceVerification'
 
 /**
  * Convert ApplyResult to CrossRefInput format for dashboard consumption.
@@ -381,9 +382,11 @@ export function buildCrossRefInputFromApplyResult(
 
   // Empty arrays for data types not available in ApplyResult
   const weldGunRows: any[] = []
-  const gunForceRows: any[] = []
   const riserRows: any[] = []
 
+  // Zangenpool force records travel on the imported tool assets
+  const gunForceRows = buildGunForceSnapshots(allTools)
+
   return {
     simulationStatusRows,
     toolingRows,
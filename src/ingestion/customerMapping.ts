@@ -2,18 +2,16 @@
 // Maps project codes/identifiers to customer names
 // This ensures consistent customer assignment across all file types
 
+import { coreStore } from '../domain/coreStore'
+import { resolveContextValue } from '../domain/contextMapping'
+import type { ContextMappingRule } from '../domain/uidTypes'
+
 /**
- * Customer mapping configuration
- * Maps project identifiers (from filenames) to customer names
+ * Customer rules from the mapping registry (maintained on the
+ * File Mapping settings page)
  */
-const CUSTOMER_MAP: Record<string, string> = {
-  // STLA-S projects map to TMS customer
-  'STLA-S': 'TMS',
-  'STLAS': 'TMS',
-  'STLA': 'TMS',
-  
-  // Add more mappings as needed
-  // 'PROJECT-CODE': 'Customer Name',
+function getCustomerRules(): ContextMappingRule[] {
+  return coreStore.getState().contextMappingRules.filter(rule => rule.kind === 'customer')
 }
 
 /**
@@ -29,16 +27,10 @@ export function getCustomerFromIdentifier(identifier: string): string {
   // Normalize identifier (uppercase, trim)
   const normalized = identifier.trim().toUpperCase()
   
-  // Check mapping first
-  if (CUSTOMER_MAP[normalized]) {
-    return CUSTOMER_MAP[normalized]
-  }
-  
-  // Check partial matches (e.g., "STLA-S_REAR" should match "STLA-S")
-  for (const [key, value] of Object.entries(CUSTOMER_MAP)) {
-    if (normalized.startsWith(key) || normalized.includes(key)) {
-      return value
-    }
+  // Highest-priority matching rule wins (e.g., "STLA-S_REAR" matches "STLA-S")
+  const match = resolveContextValue(normalized, getCustomerRules(), 'customer')
+  if (match) {
+    return match.value
   }
   
   // No mapping found, return identifier as-is
@@ -69,8 +61,12 @@ export function extractProjectIdentifier(fileName: string): string {
  * @returns Customer name
  */
 export function deriveCustomerFromFileName(fileName: string): string {
-  const identifier = extractProjectIdentifier(fileName)
-  return getCustomerFromIdentifier(identifier)
+  const match = resolveContextValue(fileName, getCustomerRules(), 'customer')
+  if (match) {
+    return match.value
+  }
+
+  return getCustomerFromIdentifier(extractProjectIdentifier(fileName))
 }
 
 /**
@@ -78,8 +74,8 @@ export function deriveCustomerFromFileName(fileName: string): string {
  * Useful for UI dropdowns, etc.
  */
 export function getAllCustomers(): string[] {
-  return Array.from(new Set(Object.values(CUSTOMER_MAP)))
+  const customers = getCustomerRules()
+    .filter(rule => rule.enabled && rule.value.trim())
+    .map(rule => rule.value.trim())
+  return Array.from(new Set(customers))
 }
-
-
-
@@ -3,6 +3,10 @@
 // Provides abstraction layer for different embedding providers
 
 import { log } from '../lib/log'
+import {
+  LocalEmbeddingProvider,
+  type LocalEmbeddingProviderOptions
+} from './fieldMatcher/localEmbeddingProvider'
 
 // ============================================================================
 // CORE TYPES
@@ -281,13 +285,13 @@ export type EmbeddingProviderType = 'mock' | 'openai' | 'local'
 
 /**
  * Create an embedding provider by type.
- * For now, only mock is implemented.
- * 
- * TODO: Implement OpenAI and local model providers
+ * 'local' options are LocalEmbeddingProviderOptions.
+ *
+ * TODO: Implement OpenAI provider
  */
 export function createEmbeddingProvider(
   type: EmbeddingProviderType,
-  _options?: Record<string, unknown>
+  options?: Record<string, unknown>
 ): EmbeddingProvider {
   switch (type) {
     case 'mock':
@@ -297,9 +301,7 @@ export function createEmbeddingProvider(
       log.warn('[EmbeddingProvider] OpenAI provider not yet implemented, using mock')
       return new MockEmbeddingProvider()
     case 'local':
-      // TODO: Implement local model embedding provider
-      log.warn('[EmbeddingProvider] Local provider not yet implemented, using mock')
-      return new MockEmbeddingProvider()
+      return new LocalEmbeddingProvider(options as LocalEmbeddingProviderOptions | undefined)
     default:
       return new MockEmbeddingProvider()
   }
@@ -2,7 +2,12 @@
 // Low-level helpers for reading and parsing Excel files using SheetJS
 
 import * as XLSX from 'xlsx'
-import { readWorkbookModel } from '../excel/reader'
+import {
+  createWorkbookParser,
+  WorkbookParseCancelledError,
+  WorkerWorkbookParser,
+  type WorkbookParseOptions,
+} from './performance/workbookParser'
 
 export type CellValue = string | number | boolean | null
 
@@ -26,6 +31,7 @@ type ExcelInput = File | Blob
 async function readWorkbookFromExcelInput(
   input: ExcelInput,
   fileName?: string,
+  options: WorkbookParseOptions = {},
 ): Promise<XLSX.WorkBook> {
   if (!input) {
     throw new Error('Excel input is required')
@@ -46,9 +52,22 @@ async function readWorkbookFromExcelInput(
       throw new Error('File is empty or could not be read')
     }
 
-    const workbook = readWorkbookModel(arrayBuffer, {
-      cellStyles: true, // Enable style parsing for strike-through detection
-    })
+    // Large files are parsed in a worker when available
+    const parser = createWorkbookParser({}, arrayBuffer.byteLength)
+    let workbook: XLSX.WorkBook
+    try {
+      workbook = await parser.readWorkbookModel(arrayBuffer, name, {
+        ...options,
+        readOptions: {
+          cellStyles: true, // Enable style parsing for strike-through detection
+        },
+      })
+    } finally {
+      // The worker holds a full copy of the workbook; release it once read
+      if (parser instanceof WorkerWorkbookParser) {
+        parser.terminate()
+      }
+    }
 
     if (!workbook || !workbook.SheetNames || workbook.SheetNames.length === 0) {
       throw new Error('Workbook is empty or invalid')
@@ -58,10 +77,11 @@ async function readWorkbookFromExcelInput(
   } catch (error) {
     // Re-throw our own errors as-is
     if (
-      error instanceof Error &&
-      (error.message.includes('empty') ||
-        error.message.includes('invalid') ||
-        error.message.includes('File is empty'))
+      error instanceof WorkbookParseCancelledError ||
+      (error instanceof Error &&
+        (error.message.includes('empty') ||
+          error.message.includes('invalid') ||
+          error.message.includes('File is empty')))
     ) {
       throw error
     }
@@ -81,11 +101,16 @@ async function readWorkbookFromExcelInput(
  * The function is intentionally storage- and auth-agnostic.
  *
  * @param file - File object containing Excel data
+ * @param options - Per-sheet progress callback and cancellation signal
  * @returns Parsed Excel workbook
  * @throws {Error} If file is invalid or cannot be parsed
+ * @throws {WorkbookParseCancelledError} If options.signal is aborted
  */
-export async function readWorkbook(file: File): Promise<XLSX.WorkBook> {
-  return readWorkbookFromExcelInput(file)
+export async function readWorkbook(
+  file: File,
+  options: WorkbookParseOptions = {},
+): Promise<XLSX.WorkBook> {
+  return readWorkbookFromExcelInput(file, undefined, options)
 }
 
 /**
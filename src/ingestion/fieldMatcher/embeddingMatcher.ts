@@ -12,8 +12,17 @@ import {
 import type { FieldDescriptor, FieldId, ColumnProfile, FieldMatchResult } from './types'
 import { matchFieldByPattern, scoreToConfidence } from './patternMatcher'
 
-// Cache for field embeddings
-const fieldEmbeddingCache: EmbeddingCache = new InMemoryEmbeddingCache(500)
+// Field embeddings per provider; vectors from different providers are not comparable
+const fieldEmbeddingCaches = new WeakMap<EmbeddingProvider, EmbeddingCache>()
+
+function getFieldEmbeddingCache(embeddings: EmbeddingProvider): EmbeddingCache {
+  let cache = fieldEmbeddingCaches.get(embeddings)
+  if (cache === undefined) {
+    cache = new InMemoryEmbeddingCache(500)
+    fieldEmbeddingCaches.set(embeddings, cache)
+  }
+  return cache
+}
 
 /**
  * Match a column to a field using both pattern and embedding-based matching.
@@ -42,6 +51,7 @@ export async function matchFieldWithEmbeddings(
   let bestEmbeddingMatch: FieldDescriptor | null = null
   let bestEmbeddingScore = 0
   const embeddingScores: Map<FieldId, number> = new Map()
+  const fieldEmbeddingCache = getFieldEmbeddingCache(embeddings)
 
   for (const field of registry) {
     // Get or compute field embedding
@@ -21,6 +21,31 @@ export {
 
 // Embedding matching
 export { matchFieldWithEmbeddings } from './embeddingMatcher'
+export {
+  LocalEmbeddingProvider,
+  createLocalEmbeddingProvider
+} from './localEmbeddingProvider'
+export type {
+  ConfirmedFieldMapping,
+  LocalEmbeddingProviderOptions
+} from './localEmbeddingProvider'
+
+// Matcher evaluation
+export {
+  buildGoldenEvaluationCases,
+  evaluateFieldMatchers,
+  formatMatcherEvaluationReport
+} from './matcherEvaluation'
+export type {
+  GoldenExpectations,
+  MatcherEvaluationCase,
+  MatcherEvaluationCaseResult,
+  MatcherEvaluationReport
+} from './matcherEvaluation'
+
+// Mapping overrides
+export { loadMappingOverrides, saveMappingOverrides } from './mappingOverrideStorage'
+export type { MappingOverride } from './mappingOverrideStorage'
 
 // Column profiles
 export { buildColumnProfiles } from './columnProfiles'
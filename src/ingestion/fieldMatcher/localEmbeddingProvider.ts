@@ -0,0 +1,199 @@
+// Field Matcher - Local Embedding Provider
+// Offline embeddings: hashed character n-grams weighted by TF-IDF, trained on
+// the field registry and on headers the user confirmed through mapping overrides
+
+import type { EmbeddingProvider, EmbeddingVector } from '../embeddingTypes'
+import type { FieldDescriptor, FieldId } from './types'
+import { DEFAULT_FIELD_REGISTRY } from './fieldRegistry'
+import { loadMappingOverrides } from './mappingOverrideStorage'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A header the user confirmed for a field
+ */
+export interface ConfirmedFieldMapping {
+  header: string
+  fieldId: FieldId
+}
+
+export interface LocalEmbeddingProviderOptions {
+  registry?: FieldDescriptor[]
+  confirmedMappings?: ConfirmedFieldMapping[]
+  /** Number of hash buckets (default 512) */
+  dimension?: number
+  /** Character n-gram sizes (default 3 and 4) */
+  ngramSizes?: number[]
+}
+
+// ============================================================================
+// FEATURES
+// ============================================================================
+
+const DEFAULT_DIMENSION = 512
+const DEFAULT_NGRAM_SIZES = [3, 4]
+
+// buildColumnDescription output starts with the header; samples are too varied
+// to share n-grams with field vocabulary, so only the header is embedded
+const COLUMN_DESCRIPTION_HEADER = /^Header: '(.*?)'(?:\. |$)/
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Whole words plus character n-grams of each word padded with spaces,
+ * so "Robotnumber" still shares "rob", "num", ... with "robot number"
+ */
+function extractFeatures(text: string, ngramSizes: number[]): string[] {
+  const features: string[] = []
+
+  for (const word of normalizeText(text).split(' ')) {
+    if (word === '') continue
+    features.push(`w:${word}`)
+
+    const padded = ` ${word} `
+    for (const size of ngramSizes) {
+      for (let i = 0; i + size <= padded.length; i++) {
+        features.push(`g:${padded.slice(i, i + size)}`)
+      }
+    }
+  }
+
+  return features
+}
+
+/**
+ * FNV-1a hash of a feature into a bucket
+ */
+function hashFeature(feature: string, dimension: number): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) % dimension
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Embedding provider that runs entirely in the browser.
+ *
+ * Each field becomes one training document (name, aliases, description and
+ * confirmed headers). Embedding a field's semanticDescription returns the
+ * vector of that document, so fields are compared by everything known about
+ * them. A header the user already confirmed embeds as its field's document,
+ * so it matches that field outright. Buckets never seen in training carry no
+ * weight.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'LocalNgramProvider'
+  private readonly dimension: number
+  private readonly ngramSizes: number[]
+  private readonly idf: number[]
+  private readonly fieldDocuments: Map<string, string> = new Map()
+  private readonly confirmedDocuments: Map<string, string> = new Map()
+
+  constructor(options: LocalEmbeddingProviderOptions = {}) {
+    const registry = options.registry ?? DEFAULT_FIELD_REGISTRY
+    this.dimension = options.dimension ?? DEFAULT_DIMENSION
+    this.ngramSizes = options.ngramSizes ?? DEFAULT_NGRAM_SIZES
+
+    const confirmedHeaders = new Map<FieldId, string[]>()
+    for (const mapping of options.confirmedMappings ?? []) {
+      const headers = confirmedHeaders.get(mapping.fieldId) ?? []
+      headers.push(mapping.header)
+      confirmedHeaders.set(mapping.fieldId, headers)
+    }
+
+    for (const field of registry) {
+      const document = [
+        field.name,
+        ...field.aliases,
+        ...(confirmedHeaders.get(field.id) ?? []),
+        field.semanticDescription
+      ].join(' | ')
+      this.fieldDocuments.set(field.semanticDescription, document)
+
+      for (const header of confirmedHeaders.get(field.id) ?? []) {
+        this.confirmedDocuments.set(normalizeText(header), document)
+      }
+    }
+
+    // Document frequency per bucket across field documents
+    const documentFrequency = new Array<number>(this.dimension).fill(0)
+    for (const document of this.fieldDocuments.values()) {
+      const buckets = new Set(
+        extractFeatures(document, this.ngramSizes).map(f => hashFeature(f, this.dimension))
+      )
+      for (const bucket of buckets) {
+        documentFrequency[bucket] += 1
+      }
+    }
+
+    const documentCount = this.fieldDocuments.size
+    this.idf = documentFrequency.map(df =>
+      df === 0 ? 0 : Math.log((documentCount + 1) / (df + 1)) + 1
+    )
+  }
+
+  async embedText(text: string): Promise<EmbeddingVector> {
+    const fieldDocument = this.fieldDocuments.get(text)
+    if (fieldDocument !== undefined) {
+      return this.vectorize(fieldDocument)
+    }
+
+    const header = text.match(COLUMN_DESCRIPTION_HEADER)?.[1] ?? text
+    return this.vectorize(this.confirmedDocuments.get(normalizeText(header)) ?? header)
+  }
+
+  async embedBatch(texts: string[]): Promise<EmbeddingVector[]> {
+    return Promise.all(texts.map(text => this.embedText(text)))
+  }
+
+  getDimension(): number {
+    return this.dimension
+  }
+
+  /**
+   * Sublinear term frequency times IDF, L2-normalized
+   */
+  private vectorize(text: string): EmbeddingVector {
+    const counts = new Array<number>(this.dimension).fill(0)
+    for (const feature of extractFeatures(text, this.ngramSizes)) {
+      counts[hashFeature(feature, this.dimension)] += 1
+    }
+
+    const vector = counts.map((count, bucket) =>
+      count === 0 ? 0 : (1 + Math.log(count)) * this.idf[bucket]
+    )
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+    return norm === 0 ? vector : vector.map(v => v / norm)
+  }
+}
+
+/**
+ * Local provider trained on the given registry and the stored mapping overrides
+ */
+export function createLocalEmbeddingProvider(
+  options: LocalEmbeddingProviderOptions = {}
+): LocalEmbeddingProvider {
+  return new LocalEmbeddingProvider({
+    ...options,
+    confirmedMappings:
+      options.confirmedMappings ??
+      loadMappingOverrides().map(override => ({
+        header: override.originalHeader,
+        fieldId: override.fieldId
+      }))
+  })
+}
@@ -0,0 +1,50 @@
+// Field Matcher - Mapping Override Storage
+// Persisted column→field corrections confirmed by the user
+
+import { log } from '../../lib/log'
+import type { FieldId } from './types'
+
+/**
+ * A single mapping override
+ */
+export interface MappingOverride {
+  workbookId: string
+  sheetName: string
+  columnIndex: number
+  originalHeader: string
+  fieldId: FieldId
+  createdAt: number
+}
+
+const STORAGE_KEY = 'simpilot.mappingOverrides'
+
+/**
+ * Load overrides from localStorage
+ */
+export function loadMappingOverrides(): MappingOverride[] {
+  if (typeof window === 'undefined') {
+    return []
+  }
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored === null) {
+      return []
+    }
+    return JSON.parse(stored) as MappingOverride[]
+  } catch {
+    log.warn('[MappingOverrides] Failed to load from localStorage')
+    return []
+  }
+}
+
+/**
+ * Save overrides to localStorage
+ */
+export function saveMappingOverrides(overrides: MappingOverride[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides))
+  } catch {
+    log.warn('[MappingOverrides] Failed to save to localStorage')
+  }
+}
@@ -7,24 +7,28 @@ import type { FieldDescriptor, ColumnProfile, FieldMatchResult } from './types'
 import { DEFAULT_FIELD_REGISTRY } from './fieldRegistry'
 import { matchFieldByPattern } from './patternMatcher'
 import { matchFieldWithEmbeddings } from './embeddingMatcher'
+import { createLocalEmbeddingProvider } from './localEmbeddingProvider'
 
 /**
- * Match columns to fields, using embeddings if available and enabled.
+ * Match columns to fields, using embeddings when enabled.
+ * Without an explicit provider the local n-gram provider is used.
  */
 export async function matchColumnsToFields(
   columns: ColumnProfile[],
   registry: FieldDescriptor[] = DEFAULT_FIELD_REGISTRY,
   embeddingProvider?: EmbeddingProvider
 ): Promise<FieldMatchResult[]> {
-  const useEmbeddings = getFeatureFlag('useSemanticEmbeddings') && embeddingProvider !== undefined
+  const provider = getFeatureFlag('useSemanticEmbeddings')
+    ? embeddingProvider ?? createLocalEmbeddingProvider({ registry })
+    : undefined
 
   const results: FieldMatchResult[] = []
 
   for (const column of columns) {
     let result: FieldMatchResult
 
-    if (useEmbeddings && embeddingProvider !== undefined) {
-      result = await matchFieldWithEmbeddings(column, registry, embeddingProvider)
+    if (provider !== undefined) {
+      result = await matchFieldWithEmbeddings(column, registry, provider)
     } else {
       result = matchFieldByPattern(column, registry)
     }
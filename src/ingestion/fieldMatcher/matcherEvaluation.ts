@@ -0,0 +1,189 @@
+// Field Matcher - Evaluation
+// Scores the pattern matcher against an embedding provider on labelled headers
+// (the golden ingestion expectations) so providers can be compared offline
+
+import type { EmbeddingProvider } from '../embeddingTypes'
+import type { FieldDescriptor, FieldId, ColumnProfile } from './types'
+import { DEFAULT_FIELD_REGISTRY } from './fieldRegistry'
+import { matchFieldByPattern } from './patternMatcher'
+import { matchFieldWithEmbeddings } from './embeddingMatcher'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MatcherEvaluationCase {
+  header: string
+  expectedFieldId: FieldId
+  sheetCategory?: string
+  /** Where the case came from, e.g. the golden test id */
+  source: string
+}
+
+export interface MatcherEvaluationCaseResult extends MatcherEvaluationCase {
+  patternFieldId: FieldId | null
+  embeddingFieldId: FieldId | null
+}
+
+export interface MatcherAccuracy {
+  correct: number
+  accuracy: number
+}
+
+export interface MatcherEvaluationReport {
+  provider: string
+  total: number
+  pattern: MatcherAccuracy
+  embedding: MatcherAccuracy
+  results: MatcherEvaluationCaseResult[]
+  /** Golden field ids with no registry field, left out of the cases */
+  skippedFieldIds: string[]
+}
+
+/**
+ * Shape of src/ingestion/__fixtures__/golden/expectations.json (the parts used here)
+ */
+export interface GoldenExpectations {
+  testCases: Array<{
+    testId: string
+    expectations: {
+      sheets: Array<{
+        sheetCategory: string
+        requiredFields: Array<{ fieldId: string; expectedHeaders: string[] }>
+      }>
+    }
+  }>
+}
+
+// ============================================================================
+// GOLDEN CASES
+// ============================================================================
+
+/**
+ * Golden fixture field ids that are named differently in the registry
+ */
+const GOLDEN_FIELD_ALIASES: Record<string, FieldId> = {
+  station_code: 'station',
+  assembly_line: 'line_code',
+  gun_id: 'gun_number'
+}
+
+/**
+ * One case per expected header of every golden required field that maps to the registry
+ */
+export function buildGoldenEvaluationCases(
+  expectations: GoldenExpectations,
+  registry: FieldDescriptor[] = DEFAULT_FIELD_REGISTRY
+): { cases: MatcherEvaluationCase[]; skippedFieldIds: string[] } {
+  const registryIds = new Set(registry.map(field => field.id))
+  const cases: MatcherEvaluationCase[] = []
+  const skipped = new Set<string>()
+
+  for (const testCase of expectations.testCases) {
+    for (const sheet of testCase.expectations.sheets) {
+      for (const required of sheet.requiredFields) {
+        const fieldId = GOLDEN_FIELD_ALIASES[required.fieldId] ?? required.fieldId
+        if (registryIds.has(fieldId) === false) {
+          skipped.add(required.fieldId)
+          continue
+        }
+
+        for (const header of required.expectedHeaders) {
+          cases.push({
+            header,
+            expectedFieldId: fieldId,
+            sheetCategory: sheet.sheetCategory,
+            source: testCase.testId
+          })
+        }
+      }
+    }
+  }
+
+  return { cases, skippedFieldIds: Array.from(skipped) }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function toColumnProfile(evaluationCase: MatcherEvaluationCase, columnIndex: number): ColumnProfile {
+  return {
+    columnIndex,
+    header: evaluationCase.header,
+    normalizedHeader: evaluationCase.header.toLowerCase().trim(),
+    detectedTypes: ['string'],
+    sampleValues: [],
+    emptyRatio: 0,
+    uniqueRatio: 1,
+    sheetCategory: evaluationCase.sheetCategory
+  }
+}
+
+function toAccuracy(correct: number, total: number): MatcherAccuracy {
+  return { correct, accuracy: total === 0 ? 0 : correct / total }
+}
+
+/**
+ * Match every case with the pattern matcher and with the embedding matcher
+ */
+export async function evaluateFieldMatchers(
+  cases: MatcherEvaluationCase[],
+  provider: EmbeddingProvider,
+  registry: FieldDescriptor[] = DEFAULT_FIELD_REGISTRY,
+  skippedFieldIds: string[] = []
+): Promise<MatcherEvaluationReport> {
+  const results: MatcherEvaluationCaseResult[] = []
+
+  for (const [index, evaluationCase] of cases.entries()) {
+    const column = toColumnProfile(evaluationCase, index)
+    const patternResult = matchFieldByPattern(column, registry)
+    const embeddingResult = await matchFieldWithEmbeddings(column, registry, provider)
+
+    results.push({
+      ...evaluationCase,
+      patternFieldId: patternResult.matchedField?.id ?? null,
+      embeddingFieldId: embeddingResult.matchedField?.id ?? null
+    })
+  }
+
+  const patternCorrect = results.filter(r => r.patternFieldId === r.expectedFieldId).length
+  const embeddingCorrect = results.filter(r => r.embeddingFieldId === r.expectedFieldId).length
+
+  return {
+    provider: provider.name,
+    total: results.length,
+    pattern: toAccuracy(patternCorrect, results.length),
+    embedding: toAccuracy(embeddingCorrect, results.length),
+    results,
+    skippedFieldIds
+  }
+}
+
+/**
+ * Plain-text summary with the cases where the two matchers disagree
+ */
+export function formatMatcherEvaluationReport(report: MatcherEvaluationReport): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+  const lines = [
+    `Field matcher evaluation (${report.total} headers)`,
+    `  Pattern matcher:   ${report.pattern.correct}/${report.total} (${percent(report.pattern.accuracy)})`,
+    `  ${report.provider}: ${report.embedding.correct}/${report.total} (${percent(report.embedding.accuracy)})`
+  ]
+
+  const disagreements = report.results.filter(r => r.patternFieldId !== r.embeddingFieldId)
+  if (disagreements.length > 0) {
+    lines.push('', 'Disagreements (header: expected | pattern | embedding):')
+    for (const r of disagreements) {
+      lines.push(
+        `  [${r.source}] ${r.header}: ${r.expectedFieldId} | ${r.patternFieldId ?? '-'} | ${r.embeddingFieldId ?? '-'}`
+      )
+    }
+  }
+
+  if (report.skippedFieldIds.length > 0) {
+    lines.push('', `Skipped golden fields without a registry field: ${report.skippedFieldIds.join(', ')}`)
+  }
+
+  return lines.join('\n')
+}
@@ -4,6 +4,7 @@
 import { IngestionWarning, UnifiedAsset } from '../domain/core'
 import { coreStore } from '../domain/coreStore'
 import { readWorkbook, sheetToMatrix } from './excelUtils'
+import { WorkbookParseCancelledError } from './performance/workbookParser'
 import { parseSimulationStatus } from './simulationStatusParser'
 import { parseRobotList } from './robotListParser'
 import { parseToolList } from './toolListParser'
@@ -16,6 +17,7 @@ import { validateReferentialIntegrity, logIntegrityErrors, findOrphanedAssets }
 import { diagnoseOrphanedAssets, logLinkingReport } from './linkingDiagnostics'
 import { compareVersions, VersionComparisonResult } from './versionComparison'
 import { buildCrossRef } from '../domain/crossRef/CrossRefEngine'
+import { getGunCheckSnapshots } from '../domain/robotGunAssignmentsStore'
 import { setCrossRefData } from '../hooks/useCrossRefData'
 import { syncSimulationStore } from '../features/simulation'
 import { log } from '../lib/log'
@@ -24,7 +26,7 @@ import { ImportSourceType, DiffResult } from '../domain/uidTypes'
 // Import from extracted modules
 import { IngestFilesInput, IngestFilesResult } from './ingestionTypes'
 import { detectFileTypeAndSheet } from './fileClassifier'
-import { inferModelKeyFromFilename } from './modelContextDetector'
+import { inferModelKeyFromFilename, inferPlantKeyFromFilename } from './modelContextDetector'
 import { buildDiffResultFromVersionComparison } from './diffResultAdapter'
 import { updateLastSeenForEntities } from './lastSeenTracker'
 import { buildCrossRefInputFromApplyResult } from './crossRefTransformer'
@@ -93,6 +95,26 @@ export async function ingestFiles(
     return await ingestFilesInternal(input)
   })
 
+  // Cancelled by the user: the transaction rolled back, report it as such
+  if (!txResult.success && txResult.error instanceof WorkbookParseCancelledError) {
+    const cancelWarning: IngestionWarning = {
+      id: 'ingestion-cancelled',
+      kind: 'PARSER_ERROR',
+      fileName: '',
+      message: 'Import cancelled; no data was changed.',
+      createdAt: new Date().toISOString()
+    }
+
+    return {
+      projectsCount: 0,
+      areasCount: 0,
+      cellsCount: 0,
+      robotsCount: 0,
+      toolsCount: 0,
+      warnings: [cancelWarning]
+    }
+  }
+
   // If transaction failed (rolled back), return error as warning
   if (!txResult.success) {
     const errorWarning: IngestionWarning = {
@@ -135,6 +157,10 @@ async function ingestFilesInternal(
 
   // Process each file
   for (const file of allFiles) {
+    if (input.signal?.aborted) {
+      throw new WorkbookParseCancelledError(file.name)
+    }
+
     try {
       // Check for duplicate file upload
       const uploadInfo = await getUploadInfo(file)
@@ -148,7 +174,10 @@ async function ingestFilesInternal(
       }
 
       // Read workbook first
-      const workbook = await readWorkbook(file)
+      const workbook = await readWorkbook(file, {
+        signal: input.signal,
+        onProgress: input.onParseProgress
+      })
 
       // Generate file hash for tracking
       const fileHash = await generateFileHash(file)
@@ -256,6 +285,10 @@ async function ingestFilesInternal(
         log.info(`[Ingestion] Detected Metadata file: ${file.name} (sheet: ${sheetName}). Skipping for now.`)
       }
     } catch (error) {
+      // Cancellation aborts the whole import rather than becoming a file warning
+      if (error instanceof WorkbookParseCancelledError) {
+        throw error
+      }
       log.error(`[Ingestion] Error processing file ${file.name}:`, error)
       allWarnings.push(createParserErrorWarning({
         fileName: file.name,
@@ -420,6 +453,7 @@ async function ingestFilesInternal(
     ? crypto.randomUUID()
     : `${Math.random().toString(16).slice(2)}-${Date.now()}`
   const modelKey = inferModelKeyFromFilename(sourceFileName)
+  const plantKey = inferPlantKeyFromFilename(sourceFileName)
   const diffResult: DiffResult = buildDiffResultFromVersionComparison(
     importRunId,
     sourceFileName,
@@ -448,8 +482,8 @@ async function ingestFilesInternal(
     id: importRunId,
     sourceFileName,
     sourceType: importSourceType,
-    plantKey: 'PLANT_UNKNOWN', // TODO: Derive from filename/metadata when plant detection is implemented
-    plantKeySource: 'unknown',
+    plantKey: plantKey ?? 'PLANT_UNKNOWN', // From the plant rules of the mapping registry
+    plantKeySource: plantKey ? 'filename' : 'unknown',
     modelKey, // Vehicle program inferred from filename (optional)
     importedAt: new Date().toISOString(),
     counts: {
@@ -495,7 +529,11 @@ async function ingestFilesInternal(
     // Pass vacuum rows for panel milestone extraction
     const vacuumRows = ingestedData.simulation?.vacuumRows
     const crossRefInput = buildCrossRefInputFromApplyResult(applyResult, simulationRobots, vacuumRows)
-    const crossRefResult = buildCrossRef(crossRefInput)
+    const crossRefResult = buildCrossRef(crossRefInput, {
+      ruleSet: coreStore.getState().crossRefRules,
+      waivers: coreStore.getState().flagWaivers,
+      gunChecks: getGunCheckSnapshots(),
+    })
     setCrossRefData(crossRefResult)
     log.debug('[Ingestion] CrossRef data populated for dashboard:', {
       cells: crossRefResult.cells.length,
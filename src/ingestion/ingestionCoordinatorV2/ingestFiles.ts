@@ -14,6 +14,7 @@ import { telemetryToLegacyWarning, legacyToTelemetryWarning } from './warningCon
 import { buildDiffResultFromVersionComparison, deriveSourceType, buildVersionComparison } from './diffBuilder'
 import { processFileWithTelemetry } from './fileProcessor'
 import { determineDataSource, findFileForWarning } from './helpers'
+import { inferModelKeyFromFilename, inferPlantKeyFromFilename } from '../modelContextDetector'
 
 /**
  * Enhanced ingestion entry point with full telemetry support.
@@ -96,13 +97,14 @@ export async function ingestFilesV2(
     coreStore.addDiffResult(diffResult)
 
     // Create ImportRun record for tracking
+    const plantKey = inferPlantKeyFromFilename(sourceFileName)
     const importRun: ImportRun = {
       id: runId,
       sourceFileName,
       sourceType,
-      plantKey: 'PLANT_UNKNOWN',
-      plantKeySource: 'unknown',
-      modelKey: undefined,
+      plantKey: plantKey ?? 'PLANT_UNKNOWN',
+      plantKeySource: plantKey ? 'filename' : 'unknown',
+      modelKey: inferModelKeyFromFilename(sourceFileName),
       importedAt: new Date().toISOString(),
       counts: {
         created: diffResult.summary.created,
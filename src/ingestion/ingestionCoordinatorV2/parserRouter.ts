@@ -9,7 +9,7 @@ import type { IngestedData } from '../applyIngestedData'
 import { parseSimulationStatus } from '../simulationStatusParser'
 import { parseRobotList } from '../robotListParser'
 import { parseToolList } from '../toolListParser'
-import type { SemanticLayerArtifact } from '../semanticLayer'
+import { resolveCategorySemanticLayer, type SemanticLayerArtifact } from '../semanticLayer'
 
 /**
  * Result from a parser
@@ -34,6 +34,8 @@ export async function routeToParser(
 ): Promise<ParserResult> {
   const fileKind = scanSummary.fileKind
   const sheetName = scanSummary.sheetName
+  const semanticLayerFor = (parsed?: SemanticLayerArtifact) =>
+    resolveCategorySemanticLayer(workbook, fileName, sheetName, scanSummary.category, parsed)
 
   if (fileKind === 'SimulationStatus') {
     const result = await parseSimulationStatus(workbook, fileName, sheetName)
@@ -42,7 +44,7 @@ export async function routeToParser(
       areas: result.areas,
       cells: result.cells,
       warnings: result.warnings,
-      semanticLayer: result.semanticLayer,
+      semanticLayer: semanticLayerFor(result.semanticLayer),
     }
   }
 
@@ -51,6 +53,7 @@ export async function routeToParser(
     return {
       robots: result.robots,
       warnings: result.warnings,
+      semanticLayer: semanticLayerFor(result.semanticLayer),
     }
   }
 
@@ -59,12 +62,12 @@ export async function routeToParser(
     return {
       tools: result.tools,
       warnings: result.warnings,
-      semanticLayer: result.semanticLayer,
+      semanticLayer: semanticLayerFor(result.semanticLayer),
     }
   }
 
-  // Metadata and Unknown don't have parsers yet
-  return { warnings: [] }
+  // Other kinds aren't parsed here yet; their headers still get a semantic layer (except Unknown)
+  return { warnings: [], semanticLayer: semanticLayerFor() }
 }
 
 /**
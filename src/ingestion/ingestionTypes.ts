@@ -6,6 +6,7 @@
 import { IngestionWarning } from '../domain/core'
 import { VersionComparisonResult } from './versionComparison'
 import { DiffResult } from '../domain/uidTypes'
+import type { WorkbookParseProgress } from './performance/workbookParser'
 
 // Re-export IngestionWarning for convenience
 export type { IngestionWarning } from '../domain/core'
@@ -19,6 +20,8 @@ export interface IngestFilesInput {
     fileSources?: Record<string, 'local' | 'remote'>
     dataSource?: 'Local' | 'MS365'
     previewOnly?: boolean  // If true, only return version comparison without applying data
+    signal?: AbortSignal  // Aborting cancels the import; nothing is applied
+    onParseProgress?: (progress: WorkbookParseProgress) => void
 }
 
 /**
@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SheetSemanticModel } from '../../llmMappingHelper'
+import {
+  computeHeaderSignature,
+  createLLMMapper,
+  DEFAULT_LLM_MAPPER_CONFIG,
+  getLLMMapperProviders,
+  loadLLMMapperConfig,
+  loadLLMMappingAudit,
+  MockLLMMapper,
+  OpenAICompatibleMapper,
+  parseLLMMappingResponse,
+  redactSemanticModel,
+  registerLLMMapperProvider,
+  requestSheetSuggestions,
+  saveLLMMapperConfig,
+} from '..'
+
+function makeModel(overrides: Partial<SheetSemanticModel> = {}): SheetSemanticModel {
+  return {
+    sheetName: 'Robots',
+    sheetCategory: 'ROBOT_SPECS',
+    headers: ['Robot', 'Zangen Nr', 'Bemerkung'],
+    sampleRows: [{ Robot: 'R01', 'Zangen Nr': 'WG-1234', Bemerkung: 'Check Mr. Smith' }],
+    existingMatches: [
+      { header: 'Robot', fieldId: 'robot_id', confidence: 0.9 },
+      { header: 'Zangen Nr', fieldId: null, confidence: 0 },
+      { header: 'Bemerkung', fieldId: null, confidence: 0 },
+    ],
+    ...overrides,
+  }
+}
+
+function chatResponse(content: string): Response {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 })
+}
+
+describe('redaction', () => {
+  it('masks sample values to their shape', () => {
+    const redacted = redactSemanticModel(makeModel(), 'mask')
+    expect(redacted.sampleRows[0]).toEqual({
+      Robot: 'X99',
+      'Zangen Nr': 'XX-9999',
+      Bemerkung: 'Xxxxx Xx. Xxxxx',
+    })
+  })
+
+  it('drops sample rows or keeps them unchanged', () => {
+    expect(redactSemanticModel(makeModel(), 'drop').sampleRows).toEqual([])
+    expect(redactSemanticModel(makeModel(), 'none').sampleRows[0].Robot).toBe('R01')
+  })
+})
+
+describe('computeHeaderSignature', () => {
+  it('ignores column order, case and spacing', () => {
+    const a = computeHeaderSignature(makeModel())
+    const b = computeHeaderSignature(makeModel({ headers: ['bemerkung', '  Zangen  Nr', 'ROBOT'] }))
+    expect(a).toBe(b)
+  })
+
+  it('differs by category and headers', () => {
+    const base = computeHeaderSignature(makeModel())
+    expect(computeHeaderSignature(makeModel({ sheetCategory: 'REUSE_ROBOTS' }))).not.toBe(base)
+    expect(computeHeaderSignature(makeModel({ headers: ['Robot'] }))).not.toBe(base)
+  })
+})
+
+describe('parseLLMMappingResponse', () => {
+  it('validates field ids and headers against the sheet', () => {
+    const suggestion = parseLLMMappingResponse(
+      '```json\n' +
+        JSON.stringify({
+          columns: [
+            {
+              header: 'Zangen Nr',
+              fieldId: 'gun_number',
+              confidence: 1.4,
+              rationale: 'Zange = gun',
+            },
+            { header: 'Bemerkung', fieldId: 'not_a_field', confidence: 0.8 },
+            { header: 'Invented', fieldId: 'robot_id', confidence: 0.9 },
+          ],
+          rationale: 'German headers',
+        }) +
+        '\n```',
+      makeModel(),
+    )
+
+    expect(suggestion.columnSuggestions).toEqual([
+      {
+        header: 'Zangen Nr',
+        suggestedFieldId: 'gun_number',
+        confidence: 1,
+        rationale: 'Zange = gun',
+      },
+      { header: 'Bemerkung', suggestedFieldId: 'unknown', confidence: 0, rationale: '' },
+    ])
+    expect(suggestion.overallRationale).toBe('German headers')
+  })
+
+  it('rejects answers that are not the expected JSON', () => {
+    expect(() => parseLLMMappingResponse('I think column 2 is a gun', makeModel())).toThrow(
+      'not valid JSON',
+    )
+    expect(() => parseLLMMappingResponse('{"mappings":[]}', makeModel())).toThrow('columns')
+  })
+})
+
+describe('OpenAICompatibleMapper', () => {
+  it('posts a chat completion and records the exchange', async () => {
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValue(
+        chatResponse(
+          JSON.stringify({
+            columns: [{ header: 'Zangen Nr', fieldId: 'gun_number', confidence: 0.8 }],
+          }),
+        ),
+      )
+    const mapper = new OpenAICompatibleMapper({
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'llama3.1',
+      apiKey: 'secret',
+      fetchFn,
+    })
+
+    const [suggestion] = await mapper.suggestMappings([makeModel()])
+
+    const [url, init] = fetchFn.mock.calls[0]
+    expect(url).toBe('http://localhost:11434/v1/chat/completions')
+    expect(init.headers.Authorization).toBe('Bearer secret')
+    expect(JSON.parse(init.body).model).toBe('llama3.1')
+    expect(suggestion.columnSuggestions[0].suggestedFieldId).toBe('gun_number')
+    expect(mapper.getLastExchange()?.messages[1].content).toContain('Zangen Nr')
+    expect(mapper.getLastExchange()?.responseText).toContain('gun_number')
+  })
+
+  it('reports HTTP errors and missing configuration', async () => {
+    const failing = new OpenAICompatibleMapper({
+      baseUrl: 'http://localhost:1/v1',
+      model: 'm',
+      fetchFn: vi.fn().mockResolvedValue(new Response('nope', { status: 500 })),
+    })
+    await expect(failing.suggestMappings([makeModel()])).rejects.toThrow('returned 500')
+
+    const unconfigured = new OpenAICompatibleMapper({ baseUrl: '', model: '' })
+    expect(unconfigured.isAvailable()).toBe(false)
+    await expect(unconfigured.suggestMappings([makeModel()])).rejects.toThrow('not configured')
+  })
+})
+
+describe('MockLLMMapper', () => {
+  it('is deterministic and suggests registry fields', async () => {
+    const first = await new MockLLMMapper().suggestMappings([makeModel()])
+    const second = await new MockLLMMapper().suggestMappings([makeModel()])
+
+    expect(first).toEqual(second)
+    expect(first[0].columnSuggestions.map((s) => s.header)).toEqual(makeModel().headers)
+    expect(first[0].columnSuggestions[0].suggestedFieldId).toBe('robot_id')
+  })
+})
+
+describe('registry', () => {
+  it('includes the mock and OpenAI-compatible providers', () => {
+    const ids = getLLMMapperProviders().map((provider) => provider.id)
+    expect(ids).toEqual(expect.arrayContaining(['mock', 'openai-compatible']))
+  })
+
+  it('falls back to the mock for unknown providers', () => {
+    const mapper = createLLMMapper({ ...DEFAULT_LLM_MAPPER_CONFIG, providerId: 'missing' })
+    expect(mapper).toBeInstanceOf(MockLLMMapper)
+  })
+
+  it('keeps the API key out of localStorage', () => {
+    localStorage.clear()
+    sessionStorage.clear()
+    saveLLMMapperConfig({ ...DEFAULT_LLM_MAPPER_CONFIG, model: 'llama3.1', apiKey: 'secret' })
+
+    expect(JSON.stringify({ ...localStorage })).not.toContain('secret')
+    expect(loadLLMMapperConfig()).toMatchObject({ model: 'llama3.1', apiKey: 'secret' })
+
+    sessionStorage.clear()
+    expect(loadLLMMapperConfig()).toMatchObject({ model: 'llama3.1', apiKey: '' })
+  })
+})
+
+describe('requestSheetSuggestions', () => {
+  const suggestMappings = vi.fn()
+
+  beforeEach(() => {
+    localStorage.clear()
+    suggestMappings.mockReset()
+    suggestMappings.mockImplementation(async (input: SheetSemanticModel[]) =>
+      input.map((model) => ({
+        sheetName: model.sheetName,
+        sheetCategory: model.sheetCategory,
+        columnSuggestions: [
+          { header: 'Zangen Nr', suggestedFieldId: 'gun_number', confidence: 0.8, rationale: '' },
+        ],
+        overallRationale: '',
+      })),
+    )
+    registerLLMMapperProvider({
+      id: 'test-spy',
+      name: 'Spy',
+      description: '',
+      usesEndpoint: false,
+      create: () => ({ name: 'SpyMapper', isAvailable: () => true, suggestMappings }),
+    })
+  })
+
+  const config = { ...DEFAULT_LLM_MAPPER_CONFIG, providerId: 'test-spy' }
+
+  it('sends redacted samples and audits the prompt', async () => {
+    const result = await requestSheetSuggestions('wb.xlsx', makeModel(), config)
+
+    expect(result.fromCache).toBe(false)
+    expect(suggestMappings.mock.calls[0][0][0].sampleRows[0].Robot).toBe('X99')
+
+    const [entry] = loadLLMMappingAudit()
+    expect(entry.mapperName).toBe('SpyMapper')
+    expect(entry.cacheHit).toBe(false)
+    expect(entry.messages[1].content).toContain('X99')
+    expect(entry.messages[1].content).not.toContain('Smith')
+  })
+
+  it('answers a known header signature from the cache', async () => {
+    await requestSheetSuggestions('wb.xlsx', makeModel(), config)
+    const second = await requestSheetSuggestions(
+      'other.xlsx',
+      makeModel({ sheetName: 'Robots (2)', headers: ['Bemerkung', 'Robot', 'Zangen Nr'] }),
+      config,
+    )
+
+    expect(suggestMappings).toHaveBeenCalledTimes(1)
+    expect(second.fromCache).toBe(true)
+    expect(second.suggestion.sheetName).toBe('Robots (2)')
+    expect(loadLLMMappingAudit().map((entry) => entry.cacheHit)).toEqual([false, true])
+  })
+
+  it('does not share cache entries across redaction modes', async () => {
+    await requestSheetSuggestions('wb.xlsx', makeModel(), config)
+    await requestSheetSuggestions('wb.xlsx', makeModel(), { ...config, redaction: 'drop' })
+
+    expect(suggestMappings).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not share cache entries across endpoints', async () => {
+    await requestSheetSuggestions('wb.xlsx', makeModel(), config)
+    await requestSheetSuggestions('wb.xlsx', makeModel(), {
+      ...config,
+      baseUrl: 'https://api.example.com/v1',
+    })
+
+    expect(suggestMappings).toHaveBeenCalledTimes(2)
+  })
+
+  it('audits and rethrows provider errors', async () => {
+    suggestMappings.mockRejectedValueOnce(new Error('boom'))
+
+    await expect(requestSheetSuggestions('wb.xlsx', makeModel(), config)).rejects.toThrow('boom')
+    expect(loadLLMMappingAudit()[0].error).toBe('boom')
+  })
+})
@@ -0,0 +1,33 @@
+export {
+  createLLMMapper,
+  DEFAULT_LLM_MAPPER_CONFIG,
+  getLLMMapperProvider,
+  getLLMMapperProviders,
+  loadLLMMapperConfig,
+  registerLLMMapperProvider,
+  saveLLMMapperConfig,
+} from './llmMapperRegistry'
+export type { LLMMapperConfig, LLMMapperProvider } from './llmMapperRegistry'
+export { MockLLMMapper } from './mockLLMMapper'
+export { OpenAICompatibleMapper } from './openAICompatibleMapper'
+export type { OpenAICompatibleMapperConfig } from './openAICompatibleMapper'
+export {
+  buildLLMMappingMessages,
+  parseLLMMappingResponse,
+  redactSampleValue,
+  redactSemanticModel,
+} from './llmMappingPrompt'
+export type { SampleRedactionMode } from './llmMappingPrompt'
+export {
+  buildLLMMappingCacheKey,
+  clearLLMMappingCache,
+  computeHeaderSignature,
+  getCachedLLMSuggestion,
+  loadLLMMappingCache,
+  putCachedLLMSuggestion,
+} from './llmMappingCache'
+export type { LLMMappingCacheEntry } from './llmMappingCache'
+export { clearLLMMappingAudit, loadLLMMappingAudit, recordLLMMappingAudit } from './llmMappingAudit'
+export type { LLMMappingAuditEntry } from './llmMappingAudit'
+export { buildMappingReviewSheets, requestSheetSuggestions } from './llmMappingService'
+export type { MappingReviewSheet, SheetSuggestionResult } from './llmMappingService'
@@ -0,0 +1,132 @@
+/**
+ * LLM Mapper Registry
+ *
+ * Providers that can back LLM mapping suggestions, and the user's choice of
+ * provider and endpoint settings (kept in localStorage, except the API key
+ * which only lives in sessionStorage for the current tab).
+ */
+
+import type { LLMMapper } from '../llmMappingHelper'
+import type { SampleRedactionMode } from './llmMappingPrompt'
+import { MockLLMMapper } from './mockLLMMapper'
+import { OpenAICompatibleMapper } from './openAICompatibleMapper'
+import { log } from '../../lib/log'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LLMMapperConfig {
+  providerId: string
+  baseUrl: string
+  model: string
+  apiKey: string
+  redaction: SampleRedactionMode
+}
+
+export interface LLMMapperProvider {
+  id: string
+  name: string
+  description: string
+  /** Whether baseUrl/model/apiKey apply */
+  usesEndpoint: boolean
+  create(config: LLMMapperConfig): LLMMapper
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+const providers = new Map<string, LLMMapperProvider>()
+
+export function registerLLMMapperProvider(provider: LLMMapperProvider): void {
+  providers.set(provider.id, provider)
+}
+
+export function getLLMMapperProviders(): LLMMapperProvider[] {
+  return Array.from(providers.values())
+}
+
+export function getLLMMapperProvider(id: string): LLMMapperProvider | undefined {
+  return providers.get(id)
+}
+
+registerLLMMapperProvider({
+  id: 'mock',
+  name: 'Mock (offline)',
+  description: 'Deterministic suggestions from the local matcher; nothing leaves the browser.',
+  usesEndpoint: false,
+  create: () => new MockLLMMapper(),
+})
+
+registerLLMMapperProvider({
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible endpoint',
+  description:
+    'Any /chat/completions API: OpenAI, or a local Ollama, llama.cpp or LM Studio server.',
+  usesEndpoint: true,
+  create: (config) =>
+    new OpenAICompatibleMapper({
+      baseUrl: config.baseUrl,
+      model: config.model,
+      apiKey: config.apiKey,
+    }),
+})
+
+/**
+ * Create the mapper for a config; an unknown provider id falls back to the mock
+ */
+export function createLLMMapper(config: LLMMapperConfig): LLMMapper {
+  const provider = providers.get(config.providerId)
+  if (!provider) {
+    log.warn(`[LLMMapper] Unknown provider "${config.providerId}", using mock`)
+    return new MockLLMMapper()
+  }
+  return provider.create(config)
+}
+
+// ============================================================================
+// CONFIG STORAGE
+// ============================================================================
+
+const STORAGE_KEY = 'simpilot.llmMapper.v1'
+const API_KEY_SESSION_KEY = 'simpilot.llmMapper.apiKey'
+
+export const DEFAULT_LLM_MAPPER_CONFIG: LLMMapperConfig = {
+  providerId: 'mock',
+  baseUrl: 'http://localhost:11434/v1',
+  model: '',
+  apiKey: '',
+  redaction: 'mask',
+}
+
+export function loadLLMMapperConfig(): LLMMapperConfig {
+  if (typeof window === 'undefined') return { ...DEFAULT_LLM_MAPPER_CONFIG }
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const settings = stored === null ? {} : (JSON.parse(stored) as Partial<LLMMapperConfig>)
+    return {
+      ...DEFAULT_LLM_MAPPER_CONFIG,
+      ...settings,
+      apiKey: sessionStorage.getItem(API_KEY_SESSION_KEY) ?? '',
+    }
+  } catch {
+    log.warn('[LLMMapper] Failed to load config from localStorage')
+    return { ...DEFAULT_LLM_MAPPER_CONFIG }
+  }
+}
+
+/**
+ * Persist the settings. The API key is a secret, so it is kept out of
+ * localStorage and has to be entered again in a new tab.
+ */
+export function saveLLMMapperConfig(config: LLMMapperConfig): void {
+  const { apiKey, ...settings } = config
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+    if (apiKey) sessionStorage.setItem(API_KEY_SESSION_KEY, apiKey)
+    else sessionStorage.removeItem(API_KEY_SESSION_KEY)
+  } catch {
+    log.warn('[LLMMapper] Failed to save config to localStorage')
+  }
+}
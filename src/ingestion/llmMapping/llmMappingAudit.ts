@@ -0,0 +1,66 @@
+/**
+ * LLM Mapping Audit Trail
+ *
+ * Every suggestion request with the exact prompt sent and the raw answer,
+ * so users can check what left the browser.
+ */
+
+import type { LLMChatMessage } from '../llmMappingHelper'
+import { log } from '../../lib/log'
+
+export interface LLMMappingAuditEntry {
+  id: string
+  timestamp: number
+  providerId: string
+  mapperName: string
+  workbookId: string
+  sheetName: string
+  headerSignature: string
+  /** Answered from the cache; nothing was sent */
+  cacheHit: boolean
+  messages: LLMChatMessage[]
+  responseText: string
+  error?: string
+}
+
+const STORAGE_KEY = 'simpilot.llmMappingAudit.v1'
+const MAX_ENTRIES = 50
+
+export function loadLLMMappingAudit(): LLMMappingAuditEntry[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const parsed: unknown = stored ? JSON.parse(stored) : []
+    return Array.isArray(parsed) ? (parsed as LLMMappingAuditEntry[]) : []
+  } catch {
+    log.warn('[LLMMappingAudit] Failed to load from localStorage')
+    return []
+  }
+}
+
+function saveLLMMappingAudit(entries: LLMMappingAuditEntry[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  } catch {
+    log.warn('[LLMMappingAudit] Failed to save to localStorage')
+  }
+}
+
+/**
+ * Append an entry; only the most recent entries are kept
+ */
+export function recordLLMMappingAudit(
+  entry: Omit<LLMMappingAuditEntry, 'id' | 'timestamp'>,
+): LLMMappingAuditEntry {
+  const recorded: LLMMappingAuditEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+  }
+  saveLLMMappingAudit([...loadLLMMappingAudit(), recorded].slice(-MAX_ENTRIES))
+  return recorded
+}
+
+export function clearLLMMappingAudit(): void {
+  saveLLMMappingAudit([])
+}
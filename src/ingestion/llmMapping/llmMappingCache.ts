@@ -0,0 +1,85 @@
+/**
+ * LLM Mapping Cache
+ *
+ * Suggestions keyed by the sheet's header signature, so re-importing a
+ * workbook with the same layout does not call the provider again.
+ */
+
+import type { LLMSheetSuggestion, SheetSemanticModel } from '../llmMappingHelper'
+import { log } from '../../lib/log'
+
+export interface LLMMappingCacheEntry {
+  key: string
+  headerSignature: string
+  createdAt: number
+  suggestion: LLMSheetSuggestion
+}
+
+const STORAGE_KEY = 'simpilot.llmMappingCache.v1'
+const MAX_ENTRIES = 100
+
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Category plus a hash of the normalized, sorted headers. Column order and
+ * header case do not change the signature.
+ */
+export function computeHeaderSignature(model: SheetSemanticModel): string {
+  const headers = model.headers
+    .map((header) => header.toLowerCase().replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .sort()
+  return `${model.sheetCategory}:${headers.length}:${fnv1a(headers.join('␟'))}`
+}
+
+/**
+ * Cache key: the same headers answered by another provider, model or
+ * redaction mode are cached separately
+ */
+export function buildLLMMappingCacheKey(headerSignature: string, providerKey: string): string {
+  return `${providerKey}|${headerSignature}`
+}
+
+export function loadLLMMappingCache(): LLMMappingCacheEntry[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const parsed: unknown = stored ? JSON.parse(stored) : []
+    return Array.isArray(parsed) ? (parsed as LLMMappingCacheEntry[]) : []
+  } catch {
+    log.warn('[LLMMappingCache] Failed to load from localStorage')
+    return []
+  }
+}
+
+function saveLLMMappingCache(entries: LLMMappingCacheEntry[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  } catch {
+    log.warn('[LLMMappingCache] Failed to save to localStorage')
+  }
+}
+
+export function getCachedLLMSuggestion(key: string): LLMMappingCacheEntry | undefined {
+  return loadLLMMappingCache().find((entry) => entry.key === key)
+}
+
+/**
+ * Store a suggestion; the oldest entries are dropped past the size limit
+ */
+export function putCachedLLMSuggestion(entry: LLMMappingCacheEntry): void {
+  const entries = loadLLMMappingCache().filter((existing) => existing.key !== entry.key)
+  entries.push(entry)
+  saveLLMMappingCache(entries.slice(-MAX_ENTRIES))
+}
+
+export function clearLLMMappingCache(): void {
+  saveLLMMappingCache([])
+}
@@ -0,0 +1,162 @@
+/**
+ * LLM Mapping Prompt
+ *
+ * Turns a sheet's semantic model into chat messages, redacts sample row
+ * values before they leave the browser, and validates the JSON the model
+ * answers with against the field registry.
+ */
+
+import { DEFAULT_FIELD_REGISTRY, FieldDescriptor, FieldId } from '../fieldMatcher'
+import type {
+  LLMChatMessage,
+  LLMColumnSuggestion,
+  LLMSheetSuggestion,
+  SheetSemanticModel,
+} from '../llmMappingHelper'
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+/**
+ * How sample row values are treated before being sent to a provider:
+ * - mask: keep the shape (letters → x/X, digits → 9, punctuation kept)
+ * - drop: send no sample rows
+ * - none: send values as they are
+ */
+export type SampleRedactionMode = 'mask' | 'drop' | 'none'
+
+const MAX_SAMPLE_LENGTH = 24
+
+export function redactSampleValue(value: string): string {
+  return value
+    .slice(0, MAX_SAMPLE_LENGTH)
+    .replace(/[a-z]/g, 'x')
+    .replace(/[A-Z]/g, 'X')
+    .replace(/[0-9]/g, '9')
+}
+
+export function redactSemanticModel(
+  model: SheetSemanticModel,
+  mode: SampleRedactionMode,
+): SheetSemanticModel {
+  if (mode === 'none') return model
+  if (mode === 'drop') return { ...model, sampleRows: [] }
+
+  return {
+    ...model,
+    sampleRows: model.sampleRows.map((row) =>
+      Object.fromEntries(
+        Object.entries(row).map(([header, value]) => [header, redactSampleValue(value)]),
+      ),
+    ),
+  }
+}
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+const SYSTEM_PROMPT = [
+  'You map spreadsheet columns from automotive body-shop simulation workbooks to known fields.',
+  'Answer with JSON only, shaped as',
+  '{"columns":[{"header":string,"fieldId":string,"confidence":number,"rationale":string}],"rationale":string}.',
+  'Use one entry per header, a fieldId from the list or "unknown", and a confidence between 0 and 1.',
+].join(' ')
+
+function describeFields(registry: FieldDescriptor[]): string {
+  return registry.map((field) => `- ${field.id}: ${field.semanticDescription}`).join('\n')
+}
+
+export function buildLLMMappingMessages(
+  model: SheetSemanticModel,
+  registry: FieldDescriptor[] = DEFAULT_FIELD_REGISTRY,
+): LLMChatMessage[] {
+  const sheet = {
+    sheetName: model.sheetName,
+    sheetCategory: model.sheetCategory,
+    headers: model.headers,
+    sampleRows: model.sampleRows,
+    currentMatches: model.existingMatches.map((match) => ({
+      header: match.header,
+      fieldId: match.fieldId,
+      confidence: Number(match.confidence.toFixed(2)),
+    })),
+  }
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `Known fields:\n${describeFields(registry)}\n\nSheet:\n${JSON.stringify(sheet, null, 2)}`,
+    },
+  ]
+}
+
+// ============================================================================
+// RESPONSE
+// ============================================================================
+
+interface RawColumnSuggestion {
+  header?: unknown
+  fieldId?: unknown
+  confidence?: unknown
+  rationale?: unknown
+}
+
+function clampConfidence(value: unknown): number {
+  const confidence = typeof value === 'number' ? value : Number(value)
+  if (Number.isFinite(confidence) === false) return 0
+  return Math.min(1, Math.max(0, confidence))
+}
+
+/**
+ * Parse a model answer; unknown field ids become 'unknown' and headers not in
+ * the sheet are dropped. Throws when the answer is not the expected JSON.
+ */
+export function parseLLMMappingResponse(
+  content: string,
+  model: SheetSemanticModel,
+  registry: FieldDescriptor[] = DEFAULT_FIELD_REGISTRY,
+): LLMSheetSuggestion {
+  // Some local models wrap JSON in a markdown fence
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/```$/, '')
+
+  let parsed: { columns?: unknown; rationale?: unknown }
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('LLM response is not valid JSON')
+  }
+  if (!Array.isArray(parsed.columns)) {
+    throw new Error('LLM response has no "columns" array')
+  }
+
+  const fieldIds = new Set(registry.map((field) => field.id))
+  const headers = new Set(model.headers)
+  const columnSuggestions: LLMColumnSuggestion[] = []
+
+  for (const raw of parsed.columns as RawColumnSuggestion[]) {
+    const header = typeof raw.header === 'string' ? raw.header : ''
+    if (!headers.has(header) || columnSuggestions.some((s) => s.header === header)) continue
+
+    const fieldId: FieldId | null =
+      typeof raw.fieldId === 'string' && fieldIds.has(raw.fieldId) ? raw.fieldId : null
+    columnSuggestions.push({
+      header,
+      suggestedFieldId: fieldId ?? 'unknown',
+      confidence: fieldId === null ? 0 : clampConfidence(raw.confidence),
+      rationale: typeof raw.rationale === 'string' ? raw.rationale : '',
+    })
+  }
+
+  return {
+    sheetName: model.sheetName,
+    sheetCategory: model.sheetCategory,
+    columnSuggestions,
+    overallRationale: typeof parsed.rationale === 'string' ? parsed.rationale : '',
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * LLM Mapping Service
+ *
+ * Prepares a workbook's sheets for review and asks the configured provider
+ * for column suggestions: redact samples, answer from the cache when the
+ * header signature is known, otherwise call the provider, and record every
+ * request in the audit trail.
+ */
+
+import type * as XLSX from 'xlsx'
+import { buildColumnProfiles, FieldMatchResult, matchColumnsToFields } from '../fieldMatcher'
+import { buildSemanticModel, LLMSheetSuggestion, SheetSemanticModel } from '../llmMappingHelper'
+import { exploreWorkbook } from '../schemaExplorer'
+import type { SheetCategory } from '../sheetSnifferTypes'
+import { recordLLMMappingAudit } from './llmMappingAudit'
+import {
+  buildLLMMappingCacheKey,
+  computeHeaderSignature,
+  getCachedLLMSuggestion,
+  putCachedLLMSuggestion,
+} from './llmMappingCache'
+import { buildLLMMappingMessages, redactSemanticModel } from './llmMappingPrompt'
+import { createLLMMapper, LLMMapperConfig } from './llmMapperRegistry'
+
+// ============================================================================
+// WORKBOOK PREPARATION
+// ============================================================================
+
+export interface MappingReviewSheet {
+  sheetName: string
+  category: SheetCategory
+  matches: FieldMatchResult[]
+  model: SheetSemanticModel
+}
+
+/**
+ * Match every analysable sheet of a workbook and build its semantic model
+ */
+export async function buildMappingReviewSheets(
+  workbook: XLSX.WorkBook,
+  fileName: string,
+): Promise<MappingReviewSheet[]> {
+  const exploration = exploreWorkbook(workbook, fileName)
+  const sheets: MappingReviewSheet[] = []
+
+  for (const sheet of exploration.sheets) {
+    const headers = sheet.schema.headers
+    const sampleRows = sheet.sampleRows.map((row) => row.rawValues)
+    const matches = await matchColumnsToFields(
+      buildColumnProfiles(headers, sampleRows, sheet.category),
+    )
+    if (matches.length === 0) continue
+
+    sheets.push({
+      sheetName: sheet.sheetName,
+      category: sheet.category,
+      matches,
+      model: buildSemanticModel(sheet.sheetName, sheet.category, headers, sampleRows, matches),
+    })
+  }
+
+  return sheets
+}
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+export interface SheetSuggestionResult {
+  suggestion: LLMSheetSuggestion
+  fromCache: boolean
+}
+
+function providerCacheKey(config: LLMMapperConfig): string {
+  return [config.providerId, config.baseUrl, config.model, config.redaction].join(':')
+}
+
+/**
+ * Suggestions for one sheet through the configured provider. Errors are
+ * recorded in the audit trail and rethrown.
+ */
+export async function requestSheetSuggestions(
+  workbookId: string,
+  model: SheetSemanticModel,
+  config: LLMMapperConfig,
+): Promise<SheetSuggestionResult> {
+  const headerSignature = computeHeaderSignature(model)
+  const key = buildLLMMappingCacheKey(headerSignature, providerCacheKey(config))
+  const auditBase = {
+    providerId: config.providerId,
+    workbookId,
+    sheetName: model.sheetName,
+    headerSignature,
+  }
+
+  const cached = getCachedLLMSuggestion(key)
+  if (cached) {
+    recordLLMMappingAudit({
+      ...auditBase,
+      mapperName: 'cache',
+      cacheHit: true,
+      messages: [],
+      responseText: JSON.stringify(cached.suggestion, null, 2),
+    })
+    return { suggestion: { ...cached.suggestion, sheetName: model.sheetName }, fromCache: true }
+  }
+
+  const mapper = createLLMMapper(config)
+  const redacted = redactSemanticModel(model, config.redaction)
+
+  try {
+    const [suggestion] = await mapper.suggestMappings([redacted])
+    if (!suggestion) {
+      throw new Error(`${mapper.name} returned no suggestion for ${model.sheetName}`)
+    }
+
+    const exchange = mapper.getLastExchange?.()
+    recordLLMMappingAudit({
+      ...auditBase,
+      mapperName: mapper.name,
+      cacheHit: false,
+      messages: exchange?.messages ?? buildLLMMappingMessages(redacted),
+      responseText: exchange?.responseText ?? JSON.stringify(suggestion, null, 2),
+    })
+    putCachedLLMSuggestion({ key, headerSignature, createdAt: Date.now(), suggestion })
+
+    return { suggestion, fromCache: false }
+  } catch (error) {
+    const exchange = mapper.getLastExchange?.()
+    recordLLMMappingAudit({
+      ...auditBase,
+      mapperName: mapper.name,
+      cacheHit: false,
+      messages: exchange?.messages ?? buildLLMMappingMessages(redacted),
+      responseText: exchange?.responseText ?? '',
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Mock LLM Mapper
+ *
+ * Deterministic stand-in for a real model: suggests the field the local
+ * n-gram matcher picks for each header. Used for demos, tests and offline
+ * review without an endpoint.
+ */
+
+import {
+  DEFAULT_FIELD_REGISTRY,
+  LocalEmbeddingProvider,
+  matchFieldWithEmbeddings,
+  type ColumnProfile,
+} from '../fieldMatcher'
+import type {
+  LLMColumnSuggestion,
+  LLMExchange,
+  LLMMapper,
+  LLMSheetSuggestion,
+  SheetSemanticModel,
+} from '../llmMappingHelper'
+import { buildLLMMappingMessages } from './llmMappingPrompt'
+
+export class MockLLMMapper implements LLMMapper {
+  readonly name = 'MockLLMMapper'
+  private readonly embeddings = new LocalEmbeddingProvider()
+  private lastExchange: LLMExchange | null = null
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  getLastExchange(): LLMExchange | null {
+    return this.lastExchange
+  }
+
+  async suggestMappings(input: SheetSemanticModel[]): Promise<LLMSheetSuggestion[]> {
+    const suggestions: LLMSheetSuggestion[] = []
+
+    for (const model of input) {
+      const columnSuggestions: LLMColumnSuggestion[] = []
+
+      for (const [columnIndex, header] of model.headers.entries()) {
+        const column: ColumnProfile = {
+          columnIndex,
+          header,
+          normalizedHeader: header.toLowerCase().trim(),
+          detectedTypes: [],
+          sampleValues: model.sampleRows.map((row) => row[header] ?? '').filter(Boolean),
+          emptyRatio: 0,
+          uniqueRatio: 0,
+          sheetCategory: model.sheetCategory,
+        }
+        const match = await matchFieldWithEmbeddings(
+          column,
+          DEFAULT_FIELD_REGISTRY,
+          this.embeddings,
+        )
+
+        columnSuggestions.push({
+          header,
+          suggestedFieldId: match.matchedField?.id ?? 'unknown',
+          confidence: match.matchedField ? Number(match.confidence.toFixed(2)) : 0,
+          rationale: `[MOCK] ${match.explanation}`,
+        })
+      }
+
+      const suggestion: LLMSheetSuggestion = {
+        sheetName: model.sheetName,
+        sheetCategory: model.sheetCategory,
+        columnSuggestions,
+        overallRationale: '[MOCK] Suggestions from the local n-gram matcher.',
+      }
+      suggestions.push(suggestion)
+      this.lastExchange = {
+        messages: buildLLMMappingMessages(model),
+        responseText: JSON.stringify(suggestion, null, 2),
+      }
+    }
+
+    return suggestions
+  }
+}
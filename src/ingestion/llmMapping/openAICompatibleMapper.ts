@@ -0,0 +1,113 @@
+/**
+ * OpenAI-Compatible LLM Mapper
+ *
+ * Calls a /chat/completions endpoint in the OpenAI format. Works against the
+ * OpenAI API as well as local servers exposing the same API (Ollama,
+ * llama.cpp server, LM Studio, vLLM).
+ */
+
+import type {
+  LLMExchange,
+  LLMMapper,
+  LLMSheetSuggestion,
+  SheetSemanticModel,
+} from '../llmMappingHelper'
+import { buildLLMMappingMessages, parseLLMMappingResponse } from './llmMappingPrompt'
+
+export interface OpenAICompatibleMapperConfig {
+  /** API root, e.g. http://localhost:11434/v1 */
+  baseUrl: string
+  model: string
+  /** Sent as a bearer token when set; local servers usually need none */
+  apiKey?: string
+  timeoutMs?: number
+  /** Injected in tests */
+  fetchFn?: typeof fetch
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>
+}
+
+export class OpenAICompatibleMapper implements LLMMapper {
+  readonly name = 'OpenAICompatibleMapper'
+  private lastExchange: LLMExchange | null = null
+
+  constructor(private readonly config: OpenAICompatibleMapperConfig) {}
+
+  isAvailable(): boolean {
+    return this.config.baseUrl.trim() !== '' && this.config.model.trim() !== ''
+  }
+
+  getLastExchange(): LLMExchange | null {
+    return this.lastExchange
+  }
+
+  async suggestMappings(input: SheetSemanticModel[]): Promise<LLMSheetSuggestion[]> {
+    if (!this.isAvailable()) {
+      throw new Error('LLM endpoint is not configured: set a base URL and a model')
+    }
+
+    const suggestions: LLMSheetSuggestion[] = []
+    for (const model of input) {
+      suggestions.push(await this.suggestSheet(model))
+    }
+    return suggestions
+  }
+
+  private async suggestSheet(model: SheetSemanticModel): Promise<LLMSheetSuggestion> {
+    const messages = buildLLMMappingMessages(model)
+    this.lastExchange = { messages, responseText: '' }
+
+    const content = await this.complete(messages)
+    this.lastExchange = { messages, responseText: content }
+
+    return parseLLMMappingResponse(content, model)
+  }
+
+  private async complete(messages: LLMExchange['messages']): Promise<string> {
+    const fetchFn = this.config.fetchFn ?? fetch
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+
+    try {
+      const response = await fetchFn(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.config.model,
+          messages,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+        }),
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        throw new Error(`LLM endpoint returned ${response.status} ${response.statusText}`)
+      }
+
+      const body = (await response.json()) as ChatCompletionResponse
+      const content = body.choices?.[0]?.message?.content
+      if (typeof content !== 'string') {
+        throw new Error('LLM endpoint returned no message content')
+      }
+      return content
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error('LLM endpoint timed out')
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
@@ -5,7 +5,6 @@
 import { FieldId, FieldMatchResult, DEFAULT_FIELD_REGISTRY } from './fieldMatcher'
 import { SheetCategory } from './sheetSniffer'
 import { getFeatureFlag } from '../config/featureFlags'
-import { log } from '../lib/log'
 
 // ============================================================================
 // TYPES
@@ -46,6 +45,22 @@ export interface SheetSemanticModel {
   }>
 }
 
+/**
+ * Chat message sent to an LLM
+ */
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/**
+ * What a mapper sent and received on its last call
+ */
+export interface LLMExchange {
+  messages: LLMChatMessage[]
+  responseText: string
+}
+
 /**
  * Interface for LLM mapper implementations
  */
@@ -64,6 +79,11 @@ export interface LLMMapper {
    * Check if the mapper is available/configured
    */
   isAvailable(): boolean
+
+  /**
+   * Prompt and raw response of the most recent call, for the audit trail
+   */
+  getLastExchange?(): LLMExchange | null
 }
 
 // ============================================================================
@@ -73,12 +93,6 @@ export interface LLMMapper {
 /**
  * Stub LLM mapper that echoes current best matches.
  * Used when no real LLM provider is configured.
- * 
- * Future implementation would:
- * 1. Serialize sheet/column info into a structured prompt
- * 2. Call an LLM API (OpenAI, Anthropic, etc.)
- * 3. Parse the LLM response into LLMSheetSuggestion objects
- * 4. Validate field IDs against registry
  */
 export class StubLLMMapper implements LLMMapper {
   readonly name = 'StubLLMMapper'
@@ -120,83 +134,11 @@ export class StubLLMMapper implements LLMMapper {
 }
 
 // ============================================================================
-// FUTURE: OPENAI IMPLEMENTATION SKELETON
-// ============================================================================
-
-/**
- * OpenAI LLM mapper (skeleton for future implementation)
- * 
- * Implementation would:
- * 1. Format input as structured JSON for the prompt
- * 2. Include field registry as context
- * 3. Call OpenAI API with GPT-4 or similar
- * 4. Parse JSON response
- * 5. Validate against registry
- */
-export class OpenAILLMMapper implements LLMMapper {
-  readonly name = 'OpenAILLMMapper'
-  private apiKey: string | null
-
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey ?? null
-  }
-
-  async suggestMappings(input: SheetSemanticModel[]): Promise<LLMSheetSuggestion[]> {
-    if (this.isAvailable() === false) {
-      log.warn('[OpenAILLMMapper] API key not configured, falling back to stub')
-      const stub = new StubLLMMapper()
-      return stub.suggestMappings(input)
-    }
-
-    // TODO: Implement actual OpenAI API call
-    // 
-    // const prompt = this.buildPrompt(input)
-    // const response = await openai.chat.completions.create({
-    //   model: 'gpt-4',
-    //   messages: [
-    //     { role: 'system', content: this.getSystemPrompt() },
-    //     { role: 'user', content: prompt }
-    //   ],
-    //   response_format: { type: 'json_object' }
-    // })
-    // 
-    // return this.parseResponse(response)
-
-    // For now, use stub
-    const stub = new StubLLMMapper()
-    return stub.suggestMappings(input)
-  }
-
-  isAvailable(): boolean {
-    return this.apiKey !== null && this.apiKey.length > 0
-  }
-
-  // NOTE: _getSystemPrompt() and _buildPrompt() methods removed
-  // They were placeholders for future OpenAI implementation
-  // See git history if needed for restoration
-}
-
-// ============================================================================
-// MAPPER FACTORY
+// DEFAULT MAPPER
 // ============================================================================
 
-export type LLMMapperType = 'stub' | 'openai'
-
-/**
- * Create an LLM mapper by type
- */
-export function createLLMMapper(
-  type: LLMMapperType,
-  options?: { apiKey?: string }
-): LLMMapper {
-  switch (type) {
-    case 'openai':
-      return new OpenAILLMMapper(options?.apiKey)
-    case 'stub':
-    default:
-      return new StubLLMMapper()
-  }
-}
+// Concrete providers (OpenAI-compatible endpoint, deterministic mock) are
+// registered in ./llmMapping/llmMapperRegistry
 
 // Default mapper instance
 let defaultMapper: LLMMapper = new StubLLMMapper()
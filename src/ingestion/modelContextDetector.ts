@@ -3,56 +3,48 @@
  * Infers ModelKey/PlantKey from filename or metadata
  */
 
+import { coreStore } from '../domain/coreStore'
+import { resolveContextValue } from '../domain/contextMapping'
+import type { ContextMappingRule, ModelKey, PlantKey } from '../domain/uidTypes'
+
 /**
  * Infer ModelKey from filename or metadata (best-effort).
  *
  * Strategy:
- * 1. Scan filename for known Model patterns (e.g., "STLA-S", "GLC_X254")
+ * 1. Match filename against the model rules of the mapping registry
+ *    (e.g., "STLA-S", "GLC_X254"), highest priority first
  * 2. Normalize to consistent format (uppercase, underscore-separated)
+ *    unless the rule names the model explicitly
  * 3. Return undefined if no Model detected
  *
- * Examples:
- * - "STLA-S_ToolList_2026-01.xlsx" → "STLA-S"
+ * Examples (default rules):
+ * - "STLA-S_ToolList_2026-01.xlsx" → "STLA_S"
  * - "GLC X254 Tool List.xlsx" → "GLC_X254"
  * - "ToolList.xlsx" → undefined
  *
  * Note: This is heuristic-based and may miss some Models.
- * Future: Allow user selection if filename ambiguous.
+ * Admins extend the rules on the File Mapping settings page.
  */
-export function inferModelKeyFromFilename(filename: string): string | undefined {
-    // Known Model patterns (extend as needed)
-    const modelPatterns = [
-        /STLA[-_]S/i,
-        /GLC[-_]?X?254/i,
-        /RANGER[-_]?P?703/i,
-        /STLA[-_]LARGE/i,
-        /STLA[-_]MEDIUM/i,
-        /STLA[-_]SMALL/i
-    ]
-
-    for (const pattern of modelPatterns) {
-        const match = filename.match(pattern)
-        if (match) {
-            // Normalize matched model (uppercase, replace spaces/hyphens with underscores)
-            return match[0].toUpperCase().replace(/[-\s]+/g, '_')
-        }
-    }
-
-    return undefined
+export function inferModelKeyFromFilename(
+    filename: string,
+    rules: ContextMappingRule[] = coreStore.getState().contextMappingRules
+): ModelKey | undefined {
+    return resolveContextValue(filename, rules, 'model')?.value
 }
 
 /**
  * Infer PlantKey from filename or metadata (best-effort).
  *
- * Examples:
+ * Examples (with matching plant rules):
  * - "ZAR_ToolList.xlsx" → "ZAR"
  * - "Sterling_Heights_Robot_List.xlsx" → "STERLING_HEIGHTS"
  *
- * Note: Currently returns undefined - plant detection not yet implemented.
- * Future: Add plant pattern matching similar to model detection.
+ * Note: No plant rules ship by default; admins add them on the
+ * File Mapping settings page.
  */
-export function inferPlantKeyFromFilename(_filename: string): string | undefined {
-    // TODO: Implement plant key detection
-    // Known plant patterns could include: ZAR, SHAP, etc.
-    return undefined
+export function inferPlantKeyFromFilename(
+    filename: string,
+    rules: ContextMappingRule[] = coreStore.getState().contextMappingRules
+): PlantKey | undefined {
+    return resolveContextValue(filename, rules, 'plant')?.value
 }
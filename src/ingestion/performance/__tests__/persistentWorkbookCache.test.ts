@@ -0,0 +1,184 @@
+/**
+ * Tests for Persistent Workbook Cache
+ *
+ * Validates:
+ * - LRU eviction within a byte budget
+ * - Cache keys and size estimates
+ * - Parsers reading through the persistent tier
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as XLSX from 'xlsx'
+import {
+  estimatePayloadBytes,
+  loadPersistentCacheConfig,
+  persistentCacheKey,
+  resetPersistentWorkbookCache,
+  savePersistentCacheConfig,
+  selectEntriesToEvict,
+  setPersistentWorkbookCache,
+  type PersistentCacheEntry,
+  type PersistentCacheStats,
+  type PersistentWorkbookCache,
+} from '../persistentWorkbookCache'
+import { resetGlobalWorkbookCache } from '../workbookCache'
+import { MainThreadWorkbookParser } from '../workbookParser'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+/**
+ * Map-backed stand-in for the IndexedDB tier.
+ */
+class MapWorkbookCache implements PersistentWorkbookCache {
+  entries = new Map<string, PersistentCacheEntry>()
+  hitCount = 0
+
+  async get(key: string): Promise<PersistentCacheEntry | undefined> {
+    const entry = this.entries.get(key)
+    if (entry) this.hitCount++
+    return entry
+  }
+
+  async set(entry: PersistentCacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+
+  async getStats(): Promise<PersistentCacheStats> {
+    return {
+      entryCount: this.entries.size,
+      totalSizeBytes: 0,
+      budgetBytes: 0,
+      hitCount: this.hitCount,
+      missCount: 0,
+      evictionCount: 0,
+      evictedBytes: 0,
+    }
+  }
+}
+
+function createTestBuffer(): ArrayBuffer {
+  const wb = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ['Robot', 'Gun'],
+      ['R01', 'WG-1'],
+    ]),
+    'Robots',
+  )
+  return XLSX.write(wb, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer
+}
+
+// ============================================================================
+// EVICTION, KEYS AND SIZES
+// ============================================================================
+
+describe('selectEntriesToEvict', () => {
+  const entries = [
+    { key: 'new', sizeBytes: 40, lastAccessedAt: 300 },
+    { key: 'old', sizeBytes: 40, lastAccessedAt: 100 },
+    { key: 'mid', sizeBytes: 40, lastAccessedAt: 200 },
+  ]
+
+  it('evicts least recently used entries until the new entry fits', () => {
+    expect(selectEntriesToEvict(entries, 100, 30)).toEqual(['old', 'mid'])
+    expect(selectEntriesToEvict(entries, 140, 30)).toEqual(['old'])
+  })
+
+  it('evicts nothing while within budget', () => {
+    expect(selectEntriesToEvict(entries, 200, 30)).toEqual([])
+  })
+})
+
+describe('persistentCacheKey', () => {
+  it('keys models by read options', () => {
+    expect(persistentCacheKey('10-abc', 'normalized')).toBe('10-abc')
+    expect(persistentCacheKey('10-abc', 'model', { cellStyles: true })).not.toBe(
+      persistentCacheKey('10-abc', 'model'),
+    )
+  })
+})
+
+describe('estimatePayloadBytes', () => {
+  it('grows with the content of a workbook', () => {
+    const small = { fileName: 'a.xlsx', sheets: [{ sheetName: 'S', rows: [['x', 1]] }] }
+    const large = {
+      fileName: 'a.xlsx',
+      sheets: [{ sheetName: 'S', rows: Array.from({ length: 100 }, () => ['robot', 1]) }],
+    }
+    expect(estimatePayloadBytes(large)).toBeGreaterThan(estimatePayloadBytes(small) * 10)
+  })
+})
+
+describe('persistent cache config', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('defaults to enabled and round-trips settings', () => {
+    expect(loadPersistentCacheConfig().enabled).toBe(true)
+
+    savePersistentCacheConfig({ enabled: false, budgetMB: 50 })
+    expect(loadPersistentCacheConfig()).toEqual({ enabled: false, budgetMB: 50 })
+  })
+})
+
+// ============================================================================
+// PARSER INTEGRATION
+// ============================================================================
+
+describe('parsing through the persistent tier', () => {
+  let persistent: MapWorkbookCache
+
+  beforeEach(() => {
+    resetGlobalWorkbookCache()
+    persistent = new MapWorkbookCache()
+    setPersistentWorkbookCache(persistent)
+  })
+
+  afterEach(() => {
+    resetPersistentWorkbookCache()
+    resetGlobalWorkbookCache()
+  })
+
+  it('serves a normalized workbook after the memory cache is gone', async () => {
+    const buffer = createTestBuffer()
+    const first = await new MainThreadWorkbookParser().parse(buffer, 'wb.xlsx')
+    expect(first.cached).toBe(false)
+
+    // Simulates a page reload
+    resetGlobalWorkbookCache()
+
+    const second = await new MainThreadWorkbookParser().parse(buffer, 'wb.xlsx')
+    expect(second.cached).toBe(true)
+    expect(second.workbook).toEqual(first.workbook)
+    expect(persistent.entries.has(first.hash)).toBe(true)
+  })
+
+  it('caches SheetJS models per read options', async () => {
+    const buffer = createTestBuffer()
+    const parser = new MainThreadWorkbookParser()
+    const options = { readOptions: { cellStyles: true } }
+
+    const first = await parser.readWorkbookModel(buffer, 'wb.xlsx', options)
+    const second = await parser.readWorkbookModel(buffer, 'wb.xlsx', options)
+    await parser.readWorkbookModel(buffer, 'wb.xlsx')
+
+    expect(second).toBe(first)
+    expect(persistent.hitCount).toBe(1)
+    expect(persistent.entries.size).toBe(2)
+  })
+
+  it('bypasses the cache when caching is disabled', async () => {
+    const parser = new MainThreadWorkbookParser({
+      cache: { enabled: false, maxAgeMs: 0, maxEntries: 0, forceReparse: false },
+    })
+
+    await parser.parse(createTestBuffer(), 'wb.xlsx')
+    expect(persistent.entries.size).toBe(0)
+  })
+})
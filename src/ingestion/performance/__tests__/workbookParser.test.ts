@@ -0,0 +1,284 @@
+/**
+ * Tests for Workbook Parser
+ *
+ * Validates:
+ * - Per-sheet progress reporting
+ * - Cancellation through AbortSignal
+ * - Worker message protocol (with a fake Worker)
+ * - Main-thread fallback when workers are unavailable or crash
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as XLSX from 'xlsx'
+import {
+  MainThreadWorkbookParser,
+  WorkbookParseCancelledError,
+  WorkerWorkbookParser,
+  type WorkbookParseProgress,
+  type WorkerCancelRequest,
+  type WorkerParseRequest,
+  type WorkerParseResponse,
+} from '../workbookParser'
+import { resetGlobalWorkbookCache } from '../workbookCache'
+import { loadWorkbookFromBuffer } from '../../workbookLoader'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+let bufferCounter = 0
+
+/**
+ * Two-sheet workbook; a counter keeps each buffer unique for the cache.
+ */
+function createTestBuffer(): ArrayBuffer {
+  const wb = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ['Robot', 'Gun'],
+      ['R01', `WG-${bufferCounter++}`],
+    ]),
+    'Robots',
+  )
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['Station'], ['ST010']]), 'Stations')
+  return XLSX.write(wb, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer
+}
+
+/**
+ * Stand-in for the browser Worker; tests drive its responses.
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = []
+
+  onmessage: ((event: MessageEvent<WorkerParseResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  requests: WorkerParseRequest[] = []
+  cancelledIds: string[] = []
+  terminated = false
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  postMessage(request: WorkerParseRequest | WorkerCancelRequest): void {
+    if (request.type === 'cancel') {
+      this.cancelledIds.push(request.id)
+      return
+    }
+    this.requests.push(request)
+  }
+
+  terminate(): void {
+    this.terminated = true
+  }
+
+  respond(response: WorkerParseResponse): void {
+    this.onmessage?.({ data: response } as MessageEvent<WorkerParseResponse>)
+  }
+
+  /** Answer a 'normalized' request the way excelParser.worker.ts does */
+  completeNormalized(request: WorkerParseRequest): void {
+    const { sheets } = loadWorkbookFromBuffer(request.buffer, request.fileName)
+    this.respond({ type: 'reading', id: request.id })
+    sheets.forEach((sheet, sheetIndex) => {
+      this.respond({
+        type: 'sheet',
+        id: request.id,
+        sheetName: sheet.sheetName,
+        sheetIndex,
+        sheetCount: sheets.length,
+        sheet,
+      })
+    })
+    this.respond({
+      type: 'parsed',
+      id: request.id,
+      parseTimeMs: 1,
+      book: { SheetNames: sheets.map((sheet) => sheet.sheetName), Sheets: {} },
+    })
+  }
+}
+
+async function waitForRequest(worker: () => FakeWorker | undefined): Promise<FakeWorker> {
+  await vi.waitFor(() => expect(worker()?.requests.length).toBeGreaterThan(0))
+  return worker()!
+}
+
+beforeEach(() => {
+  resetGlobalWorkbookCache()
+  FakeWorker.instances = []
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+// ============================================================================
+// MAIN THREAD PARSER
+// ============================================================================
+
+describe('MainThreadWorkbookParser', () => {
+  it('reports progress for each sheet', async () => {
+    const progress: WorkbookParseProgress[] = []
+    const result = await new MainThreadWorkbookParser().parse(createTestBuffer(), 'wb.xlsx', {
+      onProgress: (p) => progress.push(p),
+    })
+
+    expect(result.workbook.sheets.map((s) => s.sheetName)).toEqual(['Robots', 'Stations'])
+    expect(progress.map((p) => p.phase)).toEqual(['reading', 'sheet', 'sheet', 'done'])
+    expect(progress[2]).toMatchObject({ sheetName: 'Stations', sheetIndex: 1, sheetCount: 2 })
+  })
+
+  it('reads the SheetJS model with read options', async () => {
+    const workbook = await new MainThreadWorkbookParser().readWorkbookModel(
+      createTestBuffer(),
+      'wb.xlsx',
+      { readOptions: { cellStyles: true } },
+    )
+
+    expect(workbook.SheetNames).toEqual(['Robots', 'Stations'])
+    expect(workbook.Sheets.Robots.A2.v).toBe('R01')
+  })
+
+  it('rejects an aborted parse with WorkbookParseCancelledError', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      new MainThreadWorkbookParser().readWorkbookModel(createTestBuffer(), 'wb.xlsx', {
+        signal: controller.signal,
+      }),
+    ).rejects.toBeInstanceOf(WorkbookParseCancelledError)
+  })
+})
+
+// ============================================================================
+// WORKER PARSER
+// ============================================================================
+
+describe('WorkerWorkbookParser', () => {
+  it('parses on the main thread when Worker is unavailable', async () => {
+    vi.stubGlobal('Worker', undefined)
+    const parser = new WorkerWorkbookParser()
+
+    const result = await parser.parse(createTestBuffer(), 'wb.xlsx')
+
+    expect(parser.isSupported()).toBe(false)
+    expect(result.workbook.sheets).toHaveLength(2)
+  })
+
+  it('collects sheets and progress from worker messages', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const parser = new WorkerWorkbookParser()
+    const progress: WorkbookParseProgress[] = []
+
+    const pending = parser.parse(createTestBuffer(), 'wb.xlsx', {
+      onProgress: (p) => progress.push(p),
+    })
+    const worker = await waitForRequest(() => FakeWorker.instances[0])
+    expect(worker.requests[0].output).toBe('normalized')
+    worker.completeNormalized(worker.requests[0])
+
+    const result = await pending
+    expect(result.workbook.sheets.map((s) => s.sheetName)).toEqual(['Robots', 'Stations'])
+    expect(progress.map((p) => p.phase)).toEqual(['reading', 'sheet', 'sheet', 'done'])
+  })
+
+  it('reassembles the workbook model from worksheet messages', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const parser = new WorkerWorkbookParser()
+
+    const pending = parser.readWorkbookModel(createTestBuffer(), 'wb.xlsx', {
+      readOptions: { cellStyles: true },
+    })
+    const worker = await waitForRequest(() => FakeWorker.instances[0])
+    const request = worker.requests[0]
+    expect(request).toMatchObject({ output: 'model', readOptions: { cellStyles: true } })
+
+    const worksheet = XLSX.utils.aoa_to_sheet([['R01']])
+    worker.respond({
+      type: 'worksheet',
+      id: request.id,
+      sheetName: 'Robots',
+      sheetIndex: 0,
+      sheetCount: 1,
+      worksheet,
+    })
+    worker.respond({
+      type: 'parsed',
+      id: request.id,
+      parseTimeMs: 1,
+      book: { SheetNames: ['Robots'], Sheets: {} },
+    })
+
+    const workbook = await pending
+    expect(workbook.Sheets.Robots).toBe(worksheet)
+  })
+
+  it('falls back to the main thread when the worker crashes', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const parser = new WorkerWorkbookParser()
+
+    const pending = parser.parse(createTestBuffer(), 'wb.xlsx')
+    const worker = await waitForRequest(() => FakeWorker.instances[0])
+    worker.onerror?.({ message: 'boom' } as ErrorEvent)
+
+    const result = await pending
+    expect(result.workbook.sheets).toHaveLength(2)
+    expect(worker.terminated).toBe(true)
+
+    // Later parses skip the worker entirely
+    await parser.parse(createTestBuffer(), 'wb2.xlsx')
+    expect(FakeWorker.instances).toHaveLength(1)
+  })
+
+  it('terminates the worker and rejects when cancelled', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const parser = new WorkerWorkbookParser()
+    const controller = new AbortController()
+
+    const pending = parser.parse(createTestBuffer(), 'wb.xlsx', { signal: controller.signal })
+    const worker = await waitForRequest(() => FakeWorker.instances[0])
+    controller.abort()
+
+    await expect(pending).rejects.toBeInstanceOf(WorkbookParseCancelledError)
+    expect(worker.terminated).toBe(true)
+  })
+
+  it('asks the worker to stop a cancelled parse while others are pending', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const parser = new WorkerWorkbookParser()
+    const controller = new AbortController()
+
+    const cancelled = parser.parse(createTestBuffer(), 'wb.xlsx', { signal: controller.signal })
+    const other = parser.readWorkbookModel(createTestBuffer(), 'other.xlsx')
+    const worker = await waitForRequest(() => FakeWorker.instances[0])
+    await vi.waitFor(() => expect(worker.requests).toHaveLength(2))
+    const byName = (name: string) => worker.requests.find((r) => r.fileName === name)!
+    controller.abort()
+
+    await expect(cancelled).rejects.toBeInstanceOf(WorkbookParseCancelledError)
+    expect(worker.cancelledIds).toEqual([byName('wb.xlsx').id])
+    expect(worker.terminated).toBe(false)
+
+    worker.respond({
+      type: 'parsed',
+      id: byName('other.xlsx').id,
+      parseTimeMs: 1,
+      book: { SheetNames: [], Sheets: {} },
+    })
+    await expect(other).resolves.toMatchObject({ SheetNames: [] })
+  })
+
+  it('rejects with the worker error message for unreadable files', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const parser = new WorkerWorkbookParser()
+
+    const pending = parser.parse(createTestBuffer(), 'wb.xlsx')
+    const worker = await waitForRequest(() => FakeWorker.instances[0])
+    worker.respond({ type: 'error', id: worker.requests[0].id, error: 'Unsupported file' })
+
+    await expect(pending).rejects.toThrow('Unsupported file')
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Excel Parser Worker
+ *
+ * Parses workbooks off the main thread for WorkerWorkbookParser. Bundled by
+ * Vite as a module worker, so it uses the same SheetJS build and cell
+ * normalization as main-thread parsing.
+ *
+ * Protocol: one 'reading' message, one message per sheet, then 'parsed'
+ * (or 'error'). See WorkerParseRequest / WorkerParseResponse.
+ *
+ * Sheets are read one at a time and posted as they finish, so progress follows
+ * the parse. A 'cancel' request takes effect before the next sheet; the sheet
+ * being read always completes.
+ */
+
+import type { WorkBook } from 'xlsx'
+import { readSheetRows, readWorkbookModel } from '../../excel/reader'
+import { normalizeSheet } from '../workbookLoader'
+import type { WorkerCancelRequest, WorkerParseRequest, WorkerParseResponse } from './workbookParser'
+
+/** IDs of parses still running; cancelling removes the ID */
+const activeParses = new Set<string>()
+
+function post(response: WorkerParseResponse): void {
+  self.postMessage(response)
+}
+
+/**
+ * Give queued messages (cancellations) a chance to run before the next sheet.
+ */
+function yieldToMessages(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+async function parse(request: WorkerParseRequest): Promise<void> {
+  const startTime = performance.now()
+  const { id, buffer, readOptions } = request
+
+  post({ type: 'reading', id })
+
+  // Sheet names only; each sheet is then read on its own
+  const { SheetNames: sheetNames } = readWorkbookModel(buffer, { ...readOptions, bookSheets: true })
+  const sheetCount = sheetNames.length
+  let book: WorkBook | null = null
+
+  for (const [sheetIndex, sheetName] of sheetNames.entries()) {
+    await yieldToMessages()
+    if (!activeParses.has(id)) {
+      return
+    }
+
+    // Formats that ignore the sheets option (.xls) return every sheet at once
+    if (book === null || book.Sheets[sheetName] === undefined) {
+      book = readWorkbookModel(buffer, { ...readOptions, sheets: sheetName })
+    }
+    const worksheet = book.Sheets[sheetName]
+
+    if (request.output === 'model') {
+      post({ type: 'worksheet', id, sheetName, sheetIndex, sheetCount, worksheet })
+      continue
+    }
+
+    post({
+      type: 'sheet',
+      id,
+      sheetName,
+      sheetIndex,
+      sheetCount,
+      sheet: normalizeSheet(sheetName, readSheetRows(worksheet)),
+    })
+  }
+
+  post({
+    type: 'parsed',
+    id,
+    parseTimeMs: performance.now() - startTime,
+    book: { ...book, SheetNames: sheetNames, Sheets: {} },
+  })
+}
+
+self.onmessage = (event: MessageEvent<WorkerParseRequest | WorkerCancelRequest>) => {
+  const request = event.data
+
+  if (request.type === 'cancel') {
+    activeParses.delete(request.id)
+    return
+  }
+  if (request.type !== 'parse') {
+    return
+  }
+
+  activeParses.add(request.id)
+  parse(request)
+    .catch((error: unknown) => {
+      post({
+        type: 'error',
+        id: request.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+    .finally(() => activeParses.delete(request.id))
+}
@@ -43,6 +43,41 @@ export {
   resetGlobalWorkbookCache
 } from './workbookCache'
 
+// ============================================================================
+// PERSISTENT WORKBOOK CACHE
+// ============================================================================
+
+export {
+  // Types
+  type PersistentCacheKind,
+  type PersistentCacheEntry,
+  type PersistentCacheMeta,
+  type PersistentCacheStats,
+  type PersistentCacheConfig,
+  type PersistentWorkbookCache,
+  type ParseCacheStats,
+  
+  // Configuration
+  DEFAULT_PERSISTENT_CACHE_CONFIG,
+  loadPersistentCacheConfig,
+  savePersistentCacheConfig,
+  
+  // Keys and eviction
+  persistentCacheKey,
+  estimatePayloadBytes,
+  selectEntriesToEvict,
+  
+  // Implementation
+  IndexedDBWorkbookCache,
+  
+  // Global instance and management
+  getPersistentWorkbookCache,
+  setPersistentWorkbookCache,
+  resetPersistentWorkbookCache,
+  getParseCacheStats,
+  clearParseCache
+} from './persistentWorkbookCache'
+
 // ============================================================================
 // CONCURRENCY CONTROL
 // ============================================================================
@@ -103,13 +138,20 @@ export {
   type ParseResult,
   type WorkbookParser,
   type WorkbookParserConfig,
+  type WorkerCancelRequest,
   type WorkerParseRequest,
   type WorkerParseResponse,
   type ParserEnvironment,
+  type WorkbookParseProgress,
+  type WorkbookParseOptions,
+  type WorkbookModelReadOptions,
   
   // Configuration
   DEFAULT_PARSER_CONFIG,
   
+  // Errors
+  WorkbookParseCancelledError,
+  
   // Implementations
   MainThreadWorkbookParser,
   WorkerWorkbookParser,
@@ -0,0 +1,424 @@
+/**
+ * Persistent Workbook Cache
+ *
+ * IndexedDB-backed second tier behind the in-memory workbook cache, so parsed
+ * workbooks survive page reloads. Entries are keyed by content hash (the same
+ * value computeFileHash returns), so re-importing an unchanged file from disk
+ * or SharePoint skips parsing entirely.
+ *
+ * Entries are evicted least-recently-used first to stay within a byte budget.
+ * Every operation swallows IndexedDB errors: the cache must never break parsing.
+ *
+ * Part of the Performance Engine for Excel ingestion.
+ */
+
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb'
+import type { ParsingOptions, WorkBook } from 'xlsx'
+import type { NormalizedWorkbook } from '../workbookLoader'
+import { getGlobalWorkbookCache, type CacheStats } from './workbookCache'
+import { log } from '../../lib/log'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What was cached: the normalized workbook or the raw SheetJS model.
+ */
+export type PersistentCacheKind = 'normalized' | 'model'
+
+type PersistentCacheEntryBase = {
+  key: string
+  hash: string
+  workbookId: string
+  fileSizeBytes: number
+}
+
+/**
+ * Entry written to the persistent cache.
+ */
+export type PersistentCacheEntry =
+  | (PersistentCacheEntryBase & { kind: 'normalized'; payload: NormalizedWorkbook })
+  | (PersistentCacheEntryBase & { kind: 'model'; payload: WorkBook })
+
+/**
+ * Bookkeeping kept apart from payloads so eviction never loads workbooks.
+ */
+export type PersistentCacheMeta = PersistentCacheEntryBase & {
+  kind: PersistentCacheKind
+  /** Estimated in-database size of the payload */
+  sizeBytes: number
+  storedAt: number
+  lastAccessedAt: number
+}
+
+/**
+ * Persistent cache statistics for the storage management view.
+ * Hit, miss and eviction counters cover the current session.
+ */
+export type PersistentCacheStats = {
+  entryCount: number
+  totalSizeBytes: number
+  budgetBytes: number
+  hitCount: number
+  missCount: number
+  evictionCount: number
+  evictedBytes: number
+}
+
+/**
+ * Persistent cache interface.
+ */
+export interface PersistentWorkbookCache {
+  get(key: string): Promise<PersistentCacheEntry | undefined>
+  set(entry: PersistentCacheEntry): Promise<void>
+  clear(): Promise<void>
+  getStats(): Promise<PersistentCacheStats>
+}
+
+/**
+ * User settings for the persistent tier.
+ */
+export type PersistentCacheConfig = {
+  enabled: boolean
+  budgetMB: number
+}
+
+export const DEFAULT_PERSISTENT_CACHE_CONFIG: PersistentCacheConfig = {
+  enabled: true,
+  budgetMB: 200,
+}
+
+// ============================================================================
+// KEYS, SIZES AND EVICTION
+// ============================================================================
+
+/**
+ * Cache key for a workbook hash. Models are keyed by read options too,
+ * since e.g. cellStyles changes what the model contains.
+ */
+export function persistentCacheKey(
+  hash: string,
+  kind: PersistentCacheKind,
+  readOptions: ParsingOptions = {},
+): string {
+  return kind === 'normalized' ? hash : `${hash}:model:${JSON.stringify(readOptions)}`
+}
+
+/**
+ * Rough in-memory size of a structured-cloneable value.
+ * Walks the value once; cheaper than serializing a large workbook.
+ */
+export function estimatePayloadBytes(value: unknown): number {
+  if (value === null || value === undefined) return 0
+  if (typeof value === 'string') return value.length * 2
+  if (typeof value === 'number') return 8
+  if (typeof value === 'boolean') return 4
+  if (value instanceof Date) return 8
+  if (ArrayBuffer.isView(value)) return value.byteLength
+  if (Array.isArray(value)) {
+    return value.reduce<number>((sum, item) => sum + estimatePayloadBytes(item), 16)
+  }
+  if (typeof value === 'object') {
+    let total = 32
+    for (const [key, item] of Object.entries(value)) {
+      total += key.length * 2 + estimatePayloadBytes(item)
+    }
+    return total
+  }
+  return 0
+}
+
+/**
+ * Choose entries to evict so that `incomingBytes` fits within the budget,
+ * least recently used first.
+ */
+export function selectEntriesToEvict(
+  entries: Pick<PersistentCacheMeta, 'key' | 'sizeBytes' | 'lastAccessedAt'>[],
+  budgetBytes: number,
+  incomingBytes: number,
+): string[] {
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0) + incomingBytes
+  const byAge = [...entries].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)
+
+  const toEvict: string[] = []
+  for (const entry of byAge) {
+    if (totalBytes <= budgetBytes) break
+    toEvict.push(entry.key)
+    totalBytes -= entry.sizeBytes
+  }
+  return toEvict
+}
+
+// ============================================================================
+// INDEXEDDB IMPLEMENTATION
+// ============================================================================
+
+interface ParseCacheDB extends DBSchema {
+  entries: {
+    key: string
+    value: { key: string; payload: NormalizedWorkbook | WorkBook }
+  }
+  meta: {
+    key: string
+    value: PersistentCacheMeta
+  }
+}
+
+const DB_NAME = 'SimPilotParseCache'
+const DB_VERSION = 1
+
+/**
+ * IndexedDB implementation of PersistentWorkbookCache.
+ */
+export class IndexedDBWorkbookCache implements PersistentWorkbookCache {
+  private dbPromise: Promise<IDBPDatabase<ParseCacheDB>> | null = null
+  private hitCount = 0
+  private missCount = 0
+  private evictionCount = 0
+  private evictedBytes = 0
+
+  constructor(private readonly budgetBytes: number) {}
+
+  async get(key: string): Promise<PersistentCacheEntry | undefined> {
+    try {
+      const db = await this.getDB()
+      const tx = db.transaction(['entries', 'meta'], 'readwrite')
+      const meta = await tx.objectStore('meta').get(key)
+      const stored = meta ? await tx.objectStore('entries').get(key) : undefined
+
+      if (!meta || !stored) {
+        await tx.done
+        this.missCount++
+        return undefined
+      }
+
+      await tx.objectStore('meta').put({ ...meta, lastAccessedAt: Date.now() })
+      await tx.done
+      this.hitCount++
+
+      return {
+        key: meta.key,
+        hash: meta.hash,
+        kind: meta.kind,
+        workbookId: meta.workbookId,
+        fileSizeBytes: meta.fileSizeBytes,
+        payload: stored.payload,
+      } as PersistentCacheEntry
+    } catch (error) {
+      log.warn('[ParseCache] Failed to read from IndexedDB', error)
+      this.missCount++
+      return undefined
+    }
+  }
+
+  async set(entry: PersistentCacheEntry): Promise<void> {
+    const sizeBytes = estimatePayloadBytes(entry.payload)
+    if (sizeBytes > this.budgetBytes) {
+      log.debug(`[ParseCache] ${entry.workbookId} exceeds the cache budget, not stored`)
+      return
+    }
+
+    try {
+      const db = await this.getDB()
+      const tx = db.transaction(['entries', 'meta'], 'readwrite')
+      const metas = await tx.objectStore('meta').getAll()
+      const others = metas.filter((meta) => meta.key !== entry.key)
+
+      const toEvict = selectEntriesToEvict(others, this.budgetBytes, sizeBytes)
+      for (const key of toEvict) {
+        this.evictedBytes += others.find((meta) => meta.key === key)?.sizeBytes ?? 0
+        await tx.objectStore('entries').delete(key)
+        await tx.objectStore('meta').delete(key)
+      }
+      this.evictionCount += toEvict.length
+
+      const now = Date.now()
+      await tx.objectStore('entries').put({ key: entry.key, payload: entry.payload })
+      await tx.objectStore('meta').put({
+        key: entry.key,
+        hash: entry.hash,
+        kind: entry.kind,
+        workbookId: entry.workbookId,
+        fileSizeBytes: entry.fileSizeBytes,
+        sizeBytes,
+        storedAt: now,
+        lastAccessedAt: now,
+      })
+      await tx.done
+    } catch (error) {
+      log.warn('[ParseCache] Failed to write to IndexedDB', error)
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      const db = await this.getDB()
+      const tx = db.transaction(['entries', 'meta'], 'readwrite')
+      await tx.objectStore('entries').clear()
+      await tx.objectStore('meta').clear()
+      await tx.done
+    } catch (error) {
+      log.warn('[ParseCache] Failed to clear IndexedDB', error)
+    }
+    this.hitCount = 0
+    this.missCount = 0
+    this.evictionCount = 0
+    this.evictedBytes = 0
+  }
+
+  async getStats(): Promise<PersistentCacheStats> {
+    let metas: PersistentCacheMeta[] = []
+    try {
+      metas = await (await this.getDB()).getAll('meta')
+    } catch (error) {
+      log.warn('[ParseCache] Failed to read stats from IndexedDB', error)
+    }
+
+    return {
+      entryCount: metas.length,
+      totalSizeBytes: metas.reduce((sum, meta) => sum + meta.sizeBytes, 0),
+      budgetBytes: this.budgetBytes,
+      hitCount: this.hitCount,
+      missCount: this.missCount,
+      evictionCount: this.evictionCount,
+      evictedBytes: this.evictedBytes,
+    }
+  }
+
+  /**
+   * Close the database connection.
+   */
+  async close(): Promise<void> {
+    if (this.dbPromise !== null) {
+      const db = await this.dbPromise
+      db.close()
+      this.dbPromise = null
+    }
+  }
+
+  private getDB(): Promise<IDBPDatabase<ParseCacheDB>> {
+    if (this.dbPromise === null) {
+      this.dbPromise = openDB<ParseCacheDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          db.createObjectStore('entries', { keyPath: 'key' })
+          db.createObjectStore('meta', { keyPath: 'key' })
+        },
+      })
+      // Allow a retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null
+      })
+    }
+    return this.dbPromise
+  }
+}
+
+// ============================================================================
+// CONFIG STORAGE
+// ============================================================================
+
+const STORAGE_KEY = 'simpilot.parseCache.v1'
+
+export function loadPersistentCacheConfig(): PersistentCacheConfig {
+  if (typeof window === 'undefined') return { ...DEFAULT_PERSISTENT_CACHE_CONFIG }
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored === null) return { ...DEFAULT_PERSISTENT_CACHE_CONFIG }
+    return {
+      ...DEFAULT_PERSISTENT_CACHE_CONFIG,
+      ...(JSON.parse(stored) as Partial<PersistentCacheConfig>),
+    }
+  } catch {
+    log.warn('[ParseCache] Failed to load config from localStorage')
+    return { ...DEFAULT_PERSISTENT_CACHE_CONFIG }
+  }
+}
+
+/**
+ * Save settings; the global cache picks them up on next use.
+ */
+export function savePersistentCacheConfig(config: PersistentCacheConfig): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config))
+  } catch {
+    log.warn('[ParseCache] Failed to save config to localStorage')
+  }
+  resetPersistentWorkbookCache()
+}
+
+// ============================================================================
+// SINGLETON CACHE INSTANCE
+// ============================================================================
+
+let globalPersistentCache: PersistentWorkbookCache | null | undefined
+
+/**
+ * Get the persistent cache, or null when it is disabled or IndexedDB is
+ * unavailable (Node, tests).
+ */
+export function getPersistentWorkbookCache(): PersistentWorkbookCache | null {
+  if (globalPersistentCache === undefined) {
+    const config = loadPersistentCacheConfig()
+    const available = typeof indexedDB !== 'undefined'
+    globalPersistentCache =
+      config.enabled && available ? new IndexedDBWorkbookCache(config.budgetMB * 1024 * 1024) : null
+  }
+  return globalPersistentCache
+}
+
+/**
+ * Replace the persistent cache (useful for testing).
+ */
+export function setPersistentWorkbookCache(cache: PersistentWorkbookCache | null): void {
+  globalPersistentCache = cache
+}
+
+/**
+ * Drop the persistent cache instance; the next call re-reads the settings.
+ */
+export function resetPersistentWorkbookCache(): void {
+  if (globalPersistentCache instanceof IndexedDBWorkbookCache) {
+    void globalPersistentCache.close()
+  }
+  globalPersistentCache = undefined
+}
+
+// ============================================================================
+// PARSE CACHE MANAGEMENT
+// ============================================================================
+
+/**
+ * Statistics for both cache tiers.
+ */
+export type ParseCacheStats = {
+  config: PersistentCacheConfig
+  memory: CacheStats
+  /** Null when the persistent tier is disabled or unavailable */
+  persistent: PersistentCacheStats | null
+}
+
+export async function getParseCacheStats(): Promise<ParseCacheStats> {
+  const cache = getPersistentWorkbookCache()
+  return {
+    config: loadPersistentCacheConfig(),
+    memory: getGlobalWorkbookCache().getStats(),
+    persistent: cache !== null ? await cache.getStats() : null,
+  }
+}
+
+/**
+ * Clear the parse cache: both the in-memory tier and the persistent tier.
+ * Clearing IndexedDB works even when the persistent tier is disabled.
+ */
+export async function clearParseCache(): Promise<void> {
+  getGlobalWorkbookCache().clear()
+  const cache = getPersistentWorkbookCache()
+  if (cache !== null) {
+    await cache.clear()
+  } else if (typeof indexedDB !== 'undefined') {
+    const fallback = new IndexedDBWorkbookCache(0)
+    await fallback.clear()
+    await fallback.close()
+  }
+}
@@ -3,14 +3,18 @@
  *
  * Provides a unified interface for parsing Excel files with support for:
  * - Main thread parsing (default, synchronous)
- * - Web Worker parsing (for large files, non-blocking)
+ * - Web Worker parsing (for large files, non-blocking, see excelParser.worker.ts)
+ * - Per-sheet progress and cancellation through WorkbookParseOptions
  *
  * Part of the Performance Engine for Excel ingestion.
  */
 
-import type { NormalizedWorkbook } from '../workbookLoader'
+import type { ParsingOptions, WorkBook, WorkSheet } from 'xlsx'
+import { readWorkbookModel } from '../../excel/reader'
+import type { NormalizedSheet, NormalizedWorkbook } from '../workbookLoader'
 import { loadWorkbookFromBuffer } from '../workbookLoader'
 import type { WorkbookCacheConfig } from './workbookCache'
+import { getPersistentWorkbookCache, persistentCacheKey } from './persistentWorkbookCache'
 import {
   computeBufferHash,
   getGlobalWorkbookCache,
@@ -34,6 +38,49 @@ export type ParseResult = {
   hash: string
 }
 
+/**
+ * Progress reported while a workbook is parsed.
+ * 'sheet' is reported once per sheet, in workbook order.
+ */
+export type WorkbookParseProgress = {
+  fileName: string
+  phase: 'reading' | 'sheet' | 'done'
+  sheetName?: string
+  /** Zero-based index of the sheet just parsed */
+  sheetIndex?: number
+  sheetCount?: number
+}
+
+/**
+ * Per-call parse options.
+ */
+export type WorkbookParseOptions = {
+  /**
+   * Aborting rejects the parse with WorkbookParseCancelledError. Parsing stops
+   * between files, and in the worker between sheets; a sheet being read finishes.
+   */
+  signal?: AbortSignal
+  onProgress?: (progress: WorkbookParseProgress) => void
+}
+
+/**
+ * Options for reading the raw SheetJS workbook model.
+ */
+export type WorkbookModelReadOptions = WorkbookParseOptions & {
+  /** Passed through to XLSX.read (e.g. cellStyles) */
+  readOptions?: ParsingOptions
+}
+
+/**
+ * Thrown when a parse is aborted through its AbortSignal.
+ */
+export class WorkbookParseCancelledError extends Error {
+  constructor(fileName: string) {
+    super(`Parsing ${fileName} was cancelled`)
+    this.name = 'WorkbookParseCancelledError'
+  }
+}
+
 /**
  * Workbook parser interface.
  * Abstracts the parsing implementation (main thread vs worker).
@@ -42,7 +89,21 @@ export interface WorkbookParser {
   /**
    * Parse a file and return a normalized workbook.
    */
-  parse(file: File | ArrayBuffer, fileName?: string): Promise<ParseResult>
+  parse(
+    file: File | ArrayBuffer,
+    fileName?: string,
+    options?: WorkbookParseOptions,
+  ): Promise<ParseResult>
+
+  /**
+   * Parse a file into the SheetJS workbook model used by the ingestion pipeline.
+   * Not cached: the model is much larger than the normalized workbook.
+   */
+  readWorkbookModel(
+    file: File | ArrayBuffer,
+    fileName?: string,
+    options?: WorkbookModelReadOptions,
+  ): Promise<WorkBook>
 
   /**
    * Check if this parser supports the current environment.
@@ -76,6 +137,201 @@ export const DEFAULT_PARSER_CONFIG: WorkbookParserConfig = {
   preferWorker: true,
 }
 
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+type ParseInput = {
+  buffer: ArrayBuffer
+  name: string
+  fileSizeBytes: number
+}
+
+async function readParseInput(file: File | ArrayBuffer, fileName?: string): Promise<ParseInput> {
+  const buffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer()
+  const name = fileName ?? (file instanceof File ? file.name : 'workbook.xlsx')
+  return { buffer, name, fileSizeBytes: buffer.byteLength }
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined, fileName: string): void {
+  if (signal?.aborted) {
+    throw new WorkbookParseCancelledError(fileName)
+  }
+}
+
+async function getCachedWorkbook(
+  config: WorkbookParserConfig,
+  hash: string,
+): Promise<NormalizedWorkbook | undefined> {
+  if (!config.cache.enabled || config.cache.forceReparse) {
+    return undefined
+  }
+
+  const memoryHit = getGlobalWorkbookCache().getByHash(hash)
+  if (memoryHit !== undefined) {
+    return memoryHit.rawWorkbook
+  }
+
+  const persisted = await getPersistentWorkbookCache()?.get(persistentCacheKey(hash, 'normalized'))
+  if (persisted?.kind !== 'normalized') {
+    return undefined
+  }
+
+  // Promote to the memory tier
+  getGlobalWorkbookCache().set({
+    workbookId: persisted.workbookId,
+    hash,
+    parsedAt: Date.now(),
+    rawWorkbook: persisted.payload,
+    fileSizeBytes: persisted.fileSizeBytes,
+  })
+  return persisted.payload
+}
+
+async function cacheWorkbook(
+  config: WorkbookParserConfig,
+  workbook: NormalizedWorkbook,
+  hash: string,
+  fileSizeBytes: number,
+): Promise<void> {
+  if (!config.cache.enabled) {
+    return
+  }
+  const entry: WorkbookCacheEntry = {
+    workbookId: workbook.fileName,
+    hash,
+    parsedAt: Date.now(),
+    rawWorkbook: workbook,
+    fileSizeBytes,
+  }
+  getGlobalWorkbookCache().set(entry)
+
+  await getPersistentWorkbookCache()?.set({
+    key: persistentCacheKey(hash, 'normalized'),
+    hash,
+    kind: 'normalized',
+    workbookId: workbook.fileName,
+    fileSizeBytes,
+    payload: workbook,
+  })
+}
+
+/**
+ * Serve a normalized workbook from the cache tiers, or parse and cache it.
+ */
+async function parseThroughCache(
+  config: WorkbookParserConfig,
+  file: File | ArrayBuffer,
+  fileName: string | undefined,
+  options: WorkbookParseOptions,
+  parseInput: (input: ParseInput) => Promise<NormalizedWorkbook>,
+): Promise<ParseResult> {
+  const startTime = performance.now()
+  const input = await readParseInput(file, fileName)
+  throwIfCancelled(options.signal, input.name)
+
+  // Compute hash for caching
+  const hash = computeBufferHash(input.buffer)
+  const cached = await getCachedWorkbook(config, hash)
+
+  const workbook = cached ?? (await parseInput(input))
+  throwIfCancelled(options.signal, input.name)
+
+  if (cached === undefined) {
+    await cacheWorkbook(config, workbook, hash, input.fileSizeBytes)
+  }
+  options.onProgress?.({ fileName: input.name, phase: 'done' })
+
+  return {
+    workbook,
+    cached: cached !== undefined,
+    parseTimeMs: performance.now() - startTime,
+    fileSizeBytes: input.fileSizeBytes,
+    hash,
+  }
+}
+
+/**
+ * Serve a SheetJS model from the persistent tier, or read and cache it.
+ * Models skip the memory tier: they are large and callers may mutate them.
+ */
+async function readModelThroughCache(
+  config: WorkbookParserConfig,
+  file: File | ArrayBuffer,
+  fileName: string | undefined,
+  options: WorkbookModelReadOptions,
+  readInput: (input: ParseInput) => Promise<WorkBook>,
+): Promise<WorkBook> {
+  const input = await readParseInput(file, fileName)
+  throwIfCancelled(options.signal, input.name)
+
+  const persistent = config.cache.enabled ? getPersistentWorkbookCache() : null
+  const hash = persistent !== null ? computeBufferHash(input.buffer) : ''
+  const key = persistentCacheKey(hash, 'model', options.readOptions)
+
+  const cached =
+    persistent !== null && !config.cache.forceReparse ? await persistent.get(key) : undefined
+  if (cached?.kind === 'model') {
+    options.onProgress?.({ fileName: input.name, phase: 'done' })
+    return cached.payload
+  }
+
+  const workbook = await readInput(input)
+  throwIfCancelled(options.signal, input.name)
+
+  await persistent?.set({
+    key,
+    hash,
+    kind: 'model',
+    workbookId: input.name,
+    fileSizeBytes: input.fileSizeBytes,
+    payload: workbook,
+  })
+  options.onProgress?.({ fileName: input.name, phase: 'done' })
+
+  return workbook
+}
+
+/**
+ * Parse on the main thread. Sheets are parsed in one synchronous step,
+ * so per-sheet progress is reported once parsing has finished.
+ */
+function parseOnMainThread(input: ParseInput, options: WorkbookParseOptions): NormalizedWorkbook {
+  options.onProgress?.({ fileName: input.name, phase: 'reading' })
+  const workbook = loadWorkbookFromBuffer(input.buffer, input.name)
+
+  const sheetCount = workbook.sheets.length
+  workbook.sheets.forEach((sheet, sheetIndex) => {
+    options.onProgress?.({
+      fileName: input.name,
+      phase: 'sheet',
+      sheetName: sheet.sheetName,
+      sheetIndex,
+      sheetCount,
+    })
+  })
+
+  return workbook
+}
+
+function readModelOnMainThread(input: ParseInput, options: WorkbookModelReadOptions): WorkBook {
+  options.onProgress?.({ fileName: input.name, phase: 'reading' })
+  const workbook = readWorkbookModel(input.buffer, options.readOptions)
+
+  const sheetCount = workbook.SheetNames.length
+  workbook.SheetNames.forEach((sheetName, sheetIndex) => {
+    options.onProgress?.({
+      fileName: input.name,
+      phase: 'sheet',
+      sheetName,
+      sheetIndex,
+      sheetCount,
+    })
+  })
+
+  return workbook
+}
+
 // ============================================================================
 // MAIN THREAD PARSER
 // ============================================================================
@@ -92,59 +348,24 @@ export class MainThreadWorkbookParser implements WorkbookParser {
     this.config = { ...DEFAULT_PARSER_CONFIG, ...config }
   }
 
-  async parse(file: File | ArrayBuffer, fileName?: string): Promise<ParseResult> {
-    const startTime = performance.now()
-
-    // Get buffer and file info
-    const buffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer()
-    const name = fileName ?? (file instanceof File ? file.name : 'workbook.xlsx')
-    const fileSizeBytes = buffer.byteLength
-
-    // Compute hash for caching
-    const hash = computeBufferHash(buffer)
-
-    // Check cache if enabled
-    if (this.config.cache.enabled && !this.config.cache.forceReparse) {
-      const cache = getGlobalWorkbookCache()
-      const cached = cache.getByHash(hash)
-
-      if (cached !== undefined) {
-        const parseTimeMs = performance.now() - startTime
-        return {
-          workbook: cached.rawWorkbook,
-          cached: true,
-          parseTimeMs,
-          fileSizeBytes,
-          hash,
-        }
-      }
-    }
-
-    // Parse the workbook
-    const workbook = loadWorkbookFromBuffer(buffer, name)
-
-    // Store in cache
-    if (this.config.cache.enabled) {
-      const cache = getGlobalWorkbookCache()
-      const entry: WorkbookCacheEntry = {
-        workbookId: name,
-        hash,
-        parsedAt: Date.now(),
-        rawWorkbook: workbook,
-        fileSizeBytes,
-      }
-      cache.set(entry)
-    }
-
-    const parseTimeMs = performance.now() - startTime
+  async parse(
+    file: File | ArrayBuffer,
+    fileName?: string,
+    options: WorkbookParseOptions = {},
+  ): Promise<ParseResult> {
+    return parseThroughCache(this.config, file, fileName, options, async (input) =>
+      parseOnMainThread(input, options),
+    )
+  }
 
-    return {
-      workbook,
-      cached: false,
-      parseTimeMs,
-      fileSizeBytes,
-      hash,
-    }
+  async readWorkbookModel(
+    file: File | ArrayBuffer,
+    fileName?: string,
+    options: WorkbookModelReadOptions = {},
+  ): Promise<WorkBook> {
+    return readModelThroughCache(this.config, file, fileName, options, async (input) =>
+      readModelOnMainThread(input, options),
+    )
   }
 
   isSupported(): boolean {
@@ -168,17 +389,49 @@ export type WorkerParseRequest = {
   id: string
   buffer: ArrayBuffer
   fileName: string
+  /** 'normalized' posts NormalizedSheets, 'model' posts SheetJS worksheets */
+  output: 'normalized' | 'model'
+  readOptions?: ParsingOptions
+}
+
+/**
+ * Sent to the worker to stop a running parse before its next sheet.
+ */
+export type WorkerCancelRequest = {
+  type: 'cancel'
+  id: string
 }
 
 /**
  * Message received from the worker.
+ * Sheets are posted one at a time, so 'parsed' carries the workbook without them.
  */
 export type WorkerParseResponse =
+  | {
+      type: 'reading'
+      id: string
+    }
+  | {
+      type: 'sheet'
+      id: string
+      sheetName: string
+      sheetIndex: number
+      sheetCount: number
+      sheet: NormalizedSheet
+    }
+  | {
+      type: 'worksheet'
+      id: string
+      sheetName: string
+      sheetIndex: number
+      sheetCount: number
+      worksheet: WorkSheet
+    }
   | {
       type: 'parsed'
       id: string
-      workbook: NormalizedWorkbook
       parseTimeMs: number
+      book: WorkBook
     }
   | {
       type: 'error'
@@ -186,90 +439,76 @@ export type WorkerParseResponse =
       error: string
     }
 
+/**
+ * Raised internally when the worker cannot be started or crashes;
+ * the affected parse is retried on the main thread.
+ */
+class WorkerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WorkerUnavailableError'
+  }
+}
+
+type PendingWorkerRequest = {
+  fileName: string
+  sheets: NormalizedSheet[]
+  worksheets: Record<string, WorkSheet>
+  onProgress?: (progress: WorkbookParseProgress) => void
+  resolve: (result: { book: WorkBook; sheets: NormalizedSheet[] }) => void
+  reject: (error: Error) => void
+}
+
 /**
  * Web Worker-based workbook parser.
- * Offloads parsing to a background thread to avoid blocking the UI.
+ * Offloads parsing to excelParser.worker.ts to avoid blocking the UI.
  *
- * NOTE: Requires excelParser.worker.ts to be bundled separately.
+ * Falls back to main-thread parsing when workers are unavailable
+ * (Node, tests) or the worker fails to start or crashes.
  */
 export class WorkerWorkbookParser implements WorkbookParser {
   private config: WorkbookParserConfig
   private worker: Worker | null = null
-  private pendingRequests: Map<
-    string,
-    {
-      resolve: (result: ParseResult) => void
-      reject: (error: Error) => void
-      startTime: number
-      fileSizeBytes: number
-      hash: string
-    }
-  > = new Map()
+  private workerFailed = false
+  private pendingRequests: Map<string, PendingWorkerRequest> = new Map()
   private requestId = 0
 
   constructor(config: Partial<WorkbookParserConfig> = {}) {
     this.config = { ...DEFAULT_PARSER_CONFIG, ...config }
   }
 
-  async parse(file: File | ArrayBuffer, fileName?: string): Promise<ParseResult> {
-    const startTime = performance.now()
-
-    // Get buffer and file info
-    const buffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer()
-    const name = fileName ?? (file instanceof File ? file.name : 'workbook.xlsx')
-    const fileSizeBytes = buffer.byteLength
-
-    // Compute hash for caching
-    const hash = computeBufferHash(buffer)
-
-    // Check cache first (cache is on main thread)
-    if (this.config.cache.enabled && !this.config.cache.forceReparse) {
-      const cache = getGlobalWorkbookCache()
-      const cached = cache.getByHash(hash)
-
-      if (cached !== undefined) {
-        const parseTimeMs = performance.now() - startTime
-        return {
-          workbook: cached.rawWorkbook,
-          cached: true,
-          parseTimeMs,
-          fileSizeBytes,
-          hash,
+  async parse(
+    file: File | ArrayBuffer,
+    fileName?: string,
+    options: WorkbookParseOptions = {},
+  ): Promise<ParseResult> {
+    return parseThroughCache(this.config, file, fileName, options, async (input) => {
+      try {
+        const { sheets } = await this.runInWorker(input, 'normalized', options)
+        return { fileName: input.name, sheets }
+      } catch (error) {
+        if (!(error instanceof WorkerUnavailableError)) {
+          throw error
         }
+        return parseOnMainThread(input, options)
       }
-    }
-
-    // Guard: worker not supported
-    if (!this.isSupported()) {
-      // Fall back to main thread parsing
-      const fallback = new MainThreadWorkbookParser(this.config)
-      return fallback.parse(buffer, name)
-    }
-
-    // Initialize worker if needed
-    this.ensureWorker()
-
-    // Send to worker
-    const id = `parse-${this.requestId++}`
-
-    return new Promise<ParseResult>((resolve, reject) => {
-      this.pendingRequests.set(id, {
-        resolve,
-        reject,
-        startTime,
-        fileSizeBytes,
-        hash,
-      })
+    })
+  }
 
-      // Transfer buffer to worker (no copy)
-      const message: WorkerParseRequest = {
-        type: 'parse',
-        id,
-        buffer,
-        fileName: name,
+  async readWorkbookModel(
+    file: File | ArrayBuffer,
+    fileName?: string,
+    options: WorkbookModelReadOptions = {},
+  ): Promise<WorkBook> {
+    return readModelThroughCache(this.config, file, fileName, options, async (input) => {
+      try {
+        return (await this.runInWorker(input, 'model', options)).book
+      } catch (error) {
+        if (!(error instanceof WorkerUnavailableError)) {
+          throw error
+        }
+        return readModelOnMainThread(input, options)
       }
-
-      this.worker!.postMessage(message, [buffer])
     })
   }
 
@@ -298,176 +537,149 @@ export class WorkerWorkbookParser implements WorkbookParser {
     this.pendingRequests.clear()
   }
 
-  private ensureWorker(): void {
-    if (this.worker !== null) {
-      return
+  /**
+   * Post one parse to the worker. The buffer is copied rather than
+   * transferred so it is still available for a main-thread retry.
+   * Throws WorkerUnavailableError when there is no usable worker.
+   */
+  private runInWorker(
+    { buffer, name: fileName }: ParseInput,
+    output: WorkerParseRequest['output'],
+    options: WorkbookModelReadOptions,
+  ): Promise<{ book: WorkBook; sheets: NormalizedSheet[] }> {
+    if (!this.isSupported() || this.workerFailed) {
+      throw new WorkerUnavailableError('Web Workers are not available')
     }
+    const worker = this.ensureWorker()
+    const id = `parse-${this.requestId++}`
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pendingRequests.delete(id)) {
+          return
+        }
+        // Drop the worker if nothing else is waiting; otherwise let it stop
+        // this parse before its next sheet
+        if (this.pendingRequests.size === 0) {
+          this.terminate()
+        } else {
+          const cancel: WorkerCancelRequest = { type: 'cancel', id }
+          this.worker?.postMessage(cancel)
+        }
+        reject(new WorkbookParseCancelledError(fileName))
+      }
+      const cleanup = () => options.signal?.removeEventListener('abort', onAbort)
+
+      this.pendingRequests.set(id, {
+        fileName,
+        sheets: [],
+        worksheets: {},
+        onProgress: options.onProgress,
+        resolve: (result) => {
+          cleanup()
+          resolve(result)
+        },
+        reject: (error) => {
+          cleanup()
+          reject(error)
+        },
+      })
+      options.signal?.addEventListener('abort', onAbort)
+
+      const message: WorkerParseRequest = {
+        type: 'parse',
+        id,
+        buffer,
+        fileName,
+        output,
+        readOptions: options.readOptions,
+      }
+      worker.postMessage(message)
+    })
+  }
 
-    // Create worker from inline script
-    // In production, this would import a bundled worker script
-    const workerCode = createWorkerCode()
-    const blob = new Blob([workerCode], { type: 'application/javascript' })
-    const workerUrl = URL.createObjectURL(blob)
+  private ensureWorker(): Worker {
+    if (this.worker !== null) {
+      return this.worker
+    }
 
-    this.worker = new Worker(workerUrl)
+    let worker: Worker
+    try {
+      worker = new Worker(new URL('./excelParser.worker.ts', import.meta.url), {
+        type: 'module',
+      })
+    } catch (error) {
+      log.warn('[WorkerParser] Could not start worker, parsing on main thread:', error)
+      this.workerFailed = true
+      throw new WorkerUnavailableError('Worker could not be started')
+    }
 
-    this.worker.onmessage = (event: MessageEvent<WorkerParseResponse>) => {
+    worker.onmessage = (event: MessageEvent<WorkerParseResponse>) => {
       this.handleWorkerMessage(event.data)
     }
 
-    this.worker.onerror = (error) => {
-      log.error('[WorkerParser] Worker error:', error)
-      // Reject all pending requests
+    worker.onerror = (error) => {
+      log.warn('[WorkerParser] Worker error, parsing on main thread:', error.message)
+      this.workerFailed = true
+      this.worker = null
+      worker.terminate()
+
+      // Pending requests are retried on the main thread by their callers
       for (const [, request] of this.pendingRequests) {
-        request.reject(new Error(`Worker error: ${error.message}`))
+        request.reject(new WorkerUnavailableError(`Worker error: ${error.message}`))
       }
       this.pendingRequests.clear()
     }
 
-    // Clean up blob URL
-    URL.revokeObjectURL(workerUrl)
+    this.worker = worker
+    return worker
   }
 
   private handleWorkerMessage(response: WorkerParseResponse): void {
     const request = this.pendingRequests.get(response.id)
 
     if (request === undefined) {
-      log.warn('[WorkerParser] Received response for unknown request:', response.id)
+      // Late messages for cancelled requests end up here
       return
     }
 
-    this.pendingRequests.delete(response.id)
-
-    if (response.type === 'error') {
-      request.reject(new Error(response.error))
-      return
-    }
-
-    const parseTimeMs = performance.now() - request.startTime
-
-    // Cache the result
-    if (this.config.cache.enabled) {
-      const cache = getGlobalWorkbookCache()
-      const entry: WorkbookCacheEntry = {
-        workbookId: response.workbook.fileName,
-        hash: request.hash,
-        parsedAt: Date.now(),
-        rawWorkbook: response.workbook,
-        fileSizeBytes: request.fileSizeBytes,
+    const fileName = request.fileName
+
+    switch (response.type) {
+      case 'reading':
+        request.onProgress?.({ fileName, phase: 'reading' })
+        return
+      case 'sheet':
+      case 'worksheet': {
+        if (response.type === 'sheet') {
+          request.sheets.push(response.sheet)
+        } else {
+          request.worksheets[response.sheetName] = response.worksheet
+        }
+        request.onProgress?.({
+          fileName,
+          phase: 'sheet',
+          sheetName: response.sheetName,
+          sheetIndex: response.sheetIndex,
+          sheetCount: response.sheetCount,
+        })
+        return
       }
-      cache.set(entry)
+      case 'parsed':
+        this.pendingRequests.delete(response.id)
+        request.resolve({
+          book: { ...response.book, Sheets: request.worksheets },
+          sheets: request.sheets,
+        })
+        return
+      case 'error':
+        this.pendingRequests.delete(response.id)
+        request.reject(new Error(response.error))
+        return
     }
-
-    request.resolve({
-      workbook: response.workbook,
-      cached: false,
-      parseTimeMs,
-      fileSizeBytes: request.fileSizeBytes,
-      hash: request.hash,
-    })
   }
 }
 
-// ============================================================================
-// WORKER CODE GENERATION
-// ============================================================================
-
-/**
- * Generate inline worker code.
- *
- * NOTE: In a production build, this would be a separate bundled file.
- * This inline approach works for development and small deployments.
- */
-function createWorkerCode(): string {
-  // This is a minimal worker that imports xlsx and parses workbooks
-  // In production, you'd bundle this properly with the xlsx library
-  return `
-    // Excel Parser Worker
-    // Parses workbooks in a background thread
-    
-    importScripts('https://cdn.sheetjs.com/xlsx-0.20.2/package/dist/xlsx.full.min.js');
-    
-    self.onmessage = async function(event) {
-      const { type, id, buffer, fileName } = event.data;
-      
-      if (type !== 'parse') {
-        return;
-      }
-      
-      const startTime = performance.now();
-      
-      try {
-        const workbook = XLSX.read(buffer, {
-          type: 'array',
-          cellDates: false,
-          cellNF: false,
-          cellText: false
-        });
-        
-        if (!workbook || !workbook.SheetNames || workbook.SheetNames.length === 0) {
-          throw new Error('Workbook is empty or invalid');
-        }
-        
-        // Normalize sheets
-        const sheets = [];
-        for (const sheetName of workbook.SheetNames) {
-          const sheet = workbook.Sheets[sheetName];
-          if (!sheet) continue;
-          
-          const rows = XLSX.utils.sheet_to_json(sheet, {
-            header: 1,
-            defval: null,
-            raw: false
-          });
-          
-          // Normalize values
-          const normalizedRows = rows.map(row => 
-            row.map(cell => {
-              if (cell === null || cell === undefined) return null;
-              if (typeof cell === 'number') return isNaN(cell) ? null : cell;
-              if (typeof cell === 'boolean') return cell ? 1 : 0;
-              if (typeof cell === 'string') {
-                const trimmed = cell.trim();
-                if (trimmed === '') return null;
-                if (/^-?\\d+(\\.\\d+)?$/.test(trimmed)) {
-                  const num = parseFloat(trimmed);
-                  if (!isNaN(num)) return num;
-                }
-                return trimmed;
-              }
-              return String(cell).trim() || null;
-            })
-          );
-          
-          // Remove trailing empty rows
-          while (normalizedRows.length > 0 && 
-                 normalizedRows[normalizedRows.length - 1].every(c => c === null)) {
-            normalizedRows.pop();
-          }
-          
-          sheets.push({ sheetName, rows: normalizedRows });
-        }
-        
-        const parseTimeMs = performance.now() - startTime;
-        
-        self.postMessage({
-          type: 'parsed',
-          id,
-          workbook: { fileName, sheets },
-          parseTimeMs
-        });
-        
-      } catch (error) {
-        self.postMessage({
-          type: 'error',
-          id,
-          error: error.message || String(error)
-        });
-      }
-    };
-  `
-}
-
 // ============================================================================
 // PARSER FACTORY
 // ============================================================================
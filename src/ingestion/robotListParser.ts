@@ -19,6 +19,11 @@ import {
   inferAssembliesAreaName,
   normalizeStationCode,
 } from './normalizers'
+import {
+  buildSemanticLayerArtifact,
+  headerRowToLabels,
+  type SemanticLayerArtifact,
+} from './semanticLayer'
 
 // ============================================================================
 // TYPES
@@ -27,6 +32,7 @@ import {
 export interface RobotListResult {
   robots: Robot[]
   warnings: IngestionWarning[]
+  semanticLayer?: SemanticLayerArtifact
 }
 
 // ============================================================================
@@ -139,6 +145,13 @@ export async function parseRobotList(
     }
   }
 
+  const semanticLayer = buildSemanticLayerArtifact({
+    domain: 'robotList',
+    fileName,
+    sheetName,
+    headers: headerRowToLabels(mergedHeaderRow),
+  })
+
   const columnMap = buildColumnMap(mergedHeaderRow, [
     'ROBOT',
     'ROBOT ID',
@@ -418,5 +431,6 @@ export async function parseRobotList(
   return {
     robots,
     warnings,
+    semanticLayer,
   }
 }
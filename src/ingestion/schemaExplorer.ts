@@ -16,6 +16,11 @@ import {
   MatchConfidence
 } from './columnRoleDetector'
 import { scanWorkbook, SheetCategory, SheetDetection } from './sheetSniffer'
+import {
+  buildSemanticLayerArtifact,
+  getSemanticDomainForCategory,
+  SemanticLayerArtifact
+} from './semanticLayer'
 
 // ============================================================================
 // TYPES
@@ -33,6 +38,8 @@ export interface SheetExploration {
   sampleRows: RowInterpretation[]
   rowCount: number
   isRecommended: boolean
+  /** File → sheet → header → field graph for the detected category (none for UNKNOWN) */
+  semanticLayer?: SemanticLayerArtifact
 }
 
 /**
@@ -203,6 +210,16 @@ export function exploreWorkbook(
       continue
     }
 
+    const semanticDomain = getSemanticDomainForCategory(exploration.category)
+    if (semanticDomain) {
+      exploration.semanticLayer = buildSemanticLayerArtifact({
+        domain: semanticDomain,
+        fileName,
+        sheetName,
+        headers: exploration.schema.headers
+      })
+    }
+
     // Mark recommended sheet
     if (scanResult.bestOverall && scanResult.bestOverall.sheetName === sheetName) {
       exploration.isRecommended = true
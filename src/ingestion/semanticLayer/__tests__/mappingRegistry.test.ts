@@ -1,6 +1,62 @@
 import { describe, expect, it } from 'vitest'
-import { resolveHeaderMappings } from '../mappingRegistry'
-import type { SemanticFieldDefinition } from '../types'
+import {
+  SEMANTIC_DOMAIN_BY_CATEGORY,
+  getSemanticDomainForCategory,
+  resolveHeaderMappings,
+} from '../mappingRegistry'
+import type { SemanticDomain, SemanticFieldDefinition } from '../types'
+
+const TYPICAL_HEADERS: Record<SemanticDomain, string[]> = {
+  toolList: ['Area Name', 'Station', 'Equipment No Shown', 'Tooling Number RH'],
+  simulationStatus: ['Area', 'Assembly Line', 'Station', 'Robot', 'Application'],
+  robotList: [
+    'Robotnumber',
+    'Robot caption',
+    'Assembly line',
+    'Station Number',
+    'Robot Type',
+    'Install status',
+  ],
+  assembliesList: ['Station', 'Tool Number', 'Description', '1st Stage', 'Detailing', 'Issued'],
+  reuseWeldGuns: [
+    'Plant',
+    'Area',
+    'Zone/Subzone',
+    'Station',
+    'Device Name',
+    'Application robot',
+    'Model',
+    'Serial Number Complete WG',
+    'STLA/P1H/O1H/LPM',
+    'Line',
+    'Station3',
+  ],
+  reuseRisers: [
+    'Proyect',
+    'Area',
+    'Location',
+    'Brand',
+    'Height',
+    'Project\r\nSTLA/P1H/O1H/LPM',
+    'New Line',
+    'New station',
+    'Coments',
+  ],
+  reuseTipDressers: [
+    'Plant',
+    'Area',
+    'Project',
+    'ROBOT',
+    'WELDING GUNS',
+    'TIP DRESSER',
+    'New Sector',
+    'New station',
+    'Robot Standard (Confirm)',
+  ],
+  reuseRobots: ['Robot Number', 'Robot Type', 'Old Line', 'Old Station', 'New Line', 'New Station'],
+  gunForce: ['Gun Number', 'Gun Force', 'Quantity', 'Reserve', 'Old Line', 'Robot Number', 'Area'],
+  metadata: ['Employee ID', 'Name', 'BranchName', 'Contact Info'],
+}
 
 describe('mappingRegistry', () => {
   it('maps known tool-list headers to semantic fields', () => {
@@ -46,4 +102,26 @@ describe('mappingRegistry', () => {
     expect(resolution.mappings[0].status).toBe('ambiguous')
     expect(resolution.mappings[0].candidates).toEqual(['field.one', 'field.two'])
   })
+
+  it.each(Object.entries(TYPICAL_HEADERS) as Array<[SemanticDomain, string[]]>)(
+    'maps typical %s headers without ambiguity or missing required fields',
+    (domain, headers) => {
+      const resolution = resolveHeaderMappings(headers, domain)
+      const mappedFields = resolution.mappings.map((mapping) => mapping.matchedField)
+
+      expect(resolution.mappings.filter((mapping) => mapping.status !== 'mapped')).toEqual([])
+      for (const field of resolution.requiredFields) {
+        expect(mappedFields).toContain(field)
+      }
+    },
+  )
+
+  it('assigns a semantic domain to every sheet category except UNKNOWN', () => {
+    expect(getSemanticDomainForCategory('ROBOT_SPECS')).toBe('robotList')
+    expect(getSemanticDomainForCategory('REUSE_TIP_DRESSERS')).toBe('reuseTipDressers')
+    expect(getSemanticDomainForCategory('UNKNOWN')).toBeUndefined()
+    expect(new Set(Object.values(SEMANTIC_DOMAIN_BY_CATEGORY))).toEqual(
+      new Set(Object.keys(TYPICAL_HEADERS)),
+    )
+  })
 })
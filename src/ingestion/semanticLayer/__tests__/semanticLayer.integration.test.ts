@@ -2,7 +2,10 @@ import { describe, expect, it } from 'vitest'
 import * as XLSX from 'xlsx'
 import { parseSimulationStatus } from '../../simulationStatusParser'
 import { parseToolList } from '../../toolListParser'
+import { parseRobotList } from '../../robotListParser'
 import { applyIngestedData } from '../../applyIngestedData'
+import { resolveCategorySemanticLayer } from '../sheetSemanticLayer'
+import { semanticLayersToWarnings } from '../warningAdapter'
 import { MESSY_GUN_SHEET, MESSY_SIMULATION_SHEET } from '../../__tests__/fixtures/realWorldMock'
 import type { SemanticLayerArtifact } from '../types'
 
@@ -49,4 +52,45 @@ describe('semanticLayer integration', () => {
     expect(semanticWarnings.length).toBeGreaterThan(0)
     expect(semanticWarnings.every((warning) => warning.kind === 'HEADER_MISMATCH')).toBe(true)
   })
+
+  it('builds robot list artifacts and re-resolves shared parsers under the sheet category', async () => {
+    const robotWorkbook = createWorkbookFromArray(
+      [
+        ['Robotnumber', 'Assembly line', 'Station Number', 'Robot Type', 'Dress Pack'],
+        ['R01', 'BN', '010', 'R-2000iC', 'DP-1'],
+      ],
+      'STLA-S',
+    )
+    const robots = await parseRobotList(robotWorkbook, 'Robotlist_ZA.xlsx', 'STLA-S')
+
+    expect(robots.semanticLayer?.domain).toBe('robotList')
+    expect(robots.semanticLayer?.report.mappedHeaders).toBe(4)
+
+    const gunWorkbook = createWorkbookFromArray(MESSY_GUN_SHEET, 'Welding guns')
+    const tools = await parseToolList(
+      gunWorkbook,
+      'GLOBAL_ZA_REUSE_LIST_TMS_WG.xlsx',
+      'Welding guns',
+    )
+    const reuseLayer = resolveCategorySemanticLayer(
+      gunWorkbook,
+      'GLOBAL_ZA_REUSE_LIST_TMS_WG.xlsx',
+      'Welding guns',
+      'REUSE_WELD_GUNS',
+      tools.semanticLayer,
+    )
+
+    expect(tools.semanticLayer?.domain).toBe('toolList')
+    expect(reuseLayer?.domain).toBe('reuseWeldGuns')
+    expect(reuseLayer?.nodes.every((node) => node.domain === 'reuseWeldGuns')).toBe(true)
+    expect(
+      resolveCategorySemanticLayer(gunWorkbook, 'x.xlsx', 'Welding guns', 'UNKNOWN', undefined),
+    ).toBeUndefined()
+
+    const warnings = semanticLayersToWarnings([reuseLayer as SemanticLayerArtifact])
+    expect(warnings.length).toBeGreaterThan(0)
+    expect(warnings.every((warning) => warning.details?.semanticDomain === 'reuseWeldGuns')).toBe(
+      true,
+    )
+  })
 })
@@ -1,10 +1,18 @@
 export {
+  SEMANTIC_DOMAIN_BY_CATEGORY,
   SEMANTIC_MAPPING_REGISTRY,
+  getSemanticDomainForCategory,
   normalizeHeaderLabel,
   resolveHeaderMappings,
 } from './mappingRegistry'
 export { validateSemanticMappings } from './semanticValidator'
 export { buildSemanticLayerArtifact, mergeSemanticLayerArtifacts } from './artifactBuilder'
+export {
+  buildWorkbookSemanticLayer,
+  findDensestHeaderRow,
+  headerRowToLabels,
+  resolveCategorySemanticLayer,
+} from './sheetSemanticLayer'
 export { semanticLayersToWarnings } from './warningAdapter'
 export type {
   SemanticAmbiguity,
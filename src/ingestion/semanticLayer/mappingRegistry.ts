@@ -1,3 +1,4 @@
+import type { SheetCategory } from '../sheetSnifferTypes'
 import type {
   SemanticDomain,
   SemanticFieldDefinition,
@@ -95,6 +96,536 @@ export const SEMANTIC_MAPPING_REGISTRY: Record<SemanticDomain, SemanticFieldDefi
       required: false,
     },
   ],
+  robotList: [
+    {
+      domain: 'robotList',
+      key: 'robot.id',
+      aliases: [
+        'ROBOT',
+        'ROBOT ID',
+        'ROBOT NAME',
+        'ROBOTNUMBER',
+        'ROBOTNUMBER (E-NUMBER)',
+        'ROBOT CAPTION',
+        'ROBOTS TOTAL',
+        'ROBO NO. NEW',
+      ],
+      required: true,
+    },
+    {
+      domain: 'robotList',
+      key: 'robot.station',
+      aliases: [
+        'STATION',
+        'STATION CODE',
+        'STATION NUMBER',
+        'STATION NO. NEW',
+        'STATION NO.',
+        'CELL',
+      ],
+      required: true,
+    },
+    {
+      domain: 'robotList',
+      key: 'robot.area',
+      aliases: ['AREA', 'AREA NAME', 'INDEX'],
+      required: false,
+    },
+    {
+      domain: 'robotList',
+      key: 'robot.line',
+      aliases: ['LINE', 'LINE CODE', 'ASSEMBLY LINE'],
+      required: false,
+    },
+    {
+      domain: 'robotList',
+      key: 'robot.model',
+      aliases: ['MODEL', 'OEM MODEL', 'ROBOT TYPE', 'ROBOT TYPE CONFIRMED'],
+      required: false,
+    },
+    {
+      domain: 'robotList',
+      key: 'robot.application',
+      aliases: ['APPLICATION', 'APP'],
+      required: false,
+    },
+    {
+      domain: 'robotList',
+      key: 'robot.installStatus',
+      aliases: ['INSTALL STATUS'],
+      required: false,
+    },
+    {
+      domain: 'robotList',
+      key: 'robot.previousNumber',
+      aliases: ['ROBO NO. OLD', 'STATION NO. OLD'],
+      required: false,
+    },
+  ],
+  assembliesList: [
+    {
+      domain: 'assembliesList',
+      key: 'assembly.station',
+      aliases: ['STATION', 'STATION NUMBER', 'STATION CODE', 'STN', 'STAND'],
+      required: true,
+    },
+    {
+      domain: 'assembliesList',
+      key: 'assembly.toolNumber',
+      aliases: [
+        'TOOL NUMBER',
+        'TOOL',
+        'TOOL ID',
+        'EQUIPMENT',
+        'EQUIPMENT ID',
+        'DEVICE',
+        'DEVICE ID',
+        'PART NUMBER',
+        'ITEM NUMBER',
+      ],
+      required: true,
+    },
+    {
+      domain: 'assembliesList',
+      key: 'assembly.description',
+      aliases: ['DESCRIPTION', 'DESC', 'NAME', 'TOOL NAME', 'ITEM DESC', 'PART NAME'],
+      required: false,
+    },
+    {
+      domain: 'assembliesList',
+      key: 'assembly.area',
+      aliases: ['AREA', 'AREA NAME', 'UNIT', 'LOCATION'],
+      required: false,
+    },
+    {
+      domain: 'assembliesList',
+      key: 'assembly.progressStage',
+      aliases: [
+        'NOT STARTED',
+        '1ST STAGE',
+        '2ND STAGE',
+        'DETAILING',
+        'CHECKING',
+        'ISSUED',
+        'COMPLETE',
+      ],
+      required: false,
+    },
+  ],
+  reuseWeldGuns: [
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.deviceName',
+      aliases: ['DEVICE NAME', 'DEVICE'],
+      required: true,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.serialNumber',
+      aliases: ['SERIAL NUMBER COMPLETE WG', 'SERIAL NUMBER'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.applicationRobot',
+      aliases: ['APPLICATION ROBOT'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.model',
+      aliases: ['MODEL'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.supplier',
+      aliases: ['SUPPLIER'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.standard',
+      aliases: ['STANDARD'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.oldPlant',
+      aliases: ['PLANT'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.oldArea',
+      aliases: ['AREA'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.oldZone',
+      aliases: ['ZONE/SUBZONE', 'ZONE'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.oldStation',
+      aliases: ['STATION'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.newProject',
+      aliases: ['STLA/P1H/O1H/LPM'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.newSector',
+      aliases: ['SECTOR'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.newLine',
+      aliases: ['LINE'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.newStation',
+      aliases: ['STATION3'],
+      required: false,
+    },
+    {
+      domain: 'reuseWeldGuns',
+      key: 'weldGun.comment',
+      aliases: ['COMENT', 'COMMENT'],
+      required: false,
+    },
+  ],
+  reuseRisers: [
+    {
+      domain: 'reuseRisers',
+      key: 'riser.brand',
+      aliases: ['BRAND'],
+      required: true,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.height',
+      aliases: ['HEIGHT'],
+      required: false,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.standard',
+      aliases: ['STANDARD'],
+      required: false,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.type',
+      aliases: ['TYPE'],
+      required: false,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.oldProject',
+      aliases: ['PROYECT'],
+      required: false,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.oldArea',
+      aliases: ['AREA'],
+      required: false,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.oldLocation',
+      aliases: ['LOCATION'],
+      required: false,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.newProject',
+      aliases: ['PROJECT STLA/P1H/O1H/LPM', 'STLA/P1H/O1H/LPM'],
+      required: false,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.newLine',
+      aliases: ['NEW LINE'],
+      required: false,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.newStation',
+      aliases: ['NEW STATION'],
+      required: false,
+    },
+    {
+      domain: 'reuseRisers',
+      key: 'riser.comment',
+      aliases: ['COMENTS', 'COMMENTS'],
+      required: false,
+    },
+  ],
+  reuseTipDressers: [
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.id',
+      aliases: ['TIP DRESSER', 'TIP DRESSER ID', 'TIPDRESSER'],
+      required: true,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.robot',
+      aliases: ['ROBOT'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.weldingGuns',
+      aliases: ['WELDING GUNS'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.standard',
+      aliases: ['STANDARD'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.oldPlant',
+      aliases: ['PLANT'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.oldArea',
+      aliases: ['AREA'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.oldProject',
+      aliases: ['PROJECT', 'OLD PROJECT'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.oldZone',
+      aliases: ['ZONE/SUBZONE', 'ZONE'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.oldLine',
+      aliases: ['OLD LINE'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.newProject',
+      aliases: ['PROJECT STLA/P1H/O1H/LPM', 'NEW PROJECT'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.newSector',
+      aliases: ['NEW SECTOR'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.newLine',
+      aliases: ['NEW LINE'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.newStation',
+      aliases: ['NEW STATION'],
+      required: false,
+    },
+    {
+      domain: 'reuseTipDressers',
+      key: 'tipDresser.robotStandardConfirmed',
+      aliases: ['ROBOT STANDARD (CONFIRM)'],
+      required: false,
+    },
+  ],
+  reuseRobots: [
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.robotNumber',
+      aliases: ['ROBOT NUMBER', 'ROBOT', 'ROBOTNUMBER'],
+      required: true,
+    },
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.robotType',
+      aliases: ['ROBOT TYPE', 'TYPE'],
+      required: false,
+    },
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.area',
+      aliases: ['AREA'],
+      required: false,
+    },
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.oldProject',
+      aliases: ['OLD PROJECT'],
+      required: false,
+    },
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.oldLine',
+      aliases: ['OLD LINE'],
+      required: false,
+    },
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.oldStation',
+      aliases: ['OLD STATION'],
+      required: false,
+    },
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.newProject',
+      aliases: ['NEW PROJECT'],
+      required: false,
+    },
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.newLine',
+      aliases: ['NEW LINE'],
+      required: false,
+    },
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.newStation',
+      aliases: ['NEW STATION'],
+      required: false,
+    },
+    {
+      domain: 'reuseRobots',
+      key: 'reuseRobot.status',
+      aliases: ['STATUS', 'REUSE STATUS'],
+      required: false,
+    },
+  ],
+  gunForce: [
+    {
+      domain: 'gunForce',
+      key: 'gun.number',
+      aliases: ['GUN NUMBER', 'GUN ID', 'GUN'],
+      required: true,
+    },
+    {
+      domain: 'gunForce',
+      key: 'gun.force',
+      aliases: ['GUN FORCE', 'REQUIRED FORCE', 'FORCE'],
+      required: true,
+    },
+    {
+      domain: 'gunForce',
+      key: 'gun.type',
+      aliases: ['GUN TYPE', 'TYPE'],
+      required: false,
+    },
+    {
+      domain: 'gunForce',
+      key: 'gun.quantity',
+      aliases: ['QUANTITY', 'QTY'],
+      required: false,
+    },
+    {
+      domain: 'gunForce',
+      key: 'gun.reserve',
+      aliases: ['RESERVE'],
+      required: false,
+    },
+    {
+      domain: 'gunForce',
+      key: 'gun.oldLine',
+      aliases: ['OLD LINE'],
+      required: false,
+    },
+    {
+      domain: 'gunForce',
+      key: 'gun.robotNumber',
+      aliases: ['ROBOT NUMBER', 'ROBOT'],
+      required: false,
+    },
+    {
+      domain: 'gunForce',
+      key: 'gun.area',
+      aliases: ['AREA'],
+      required: false,
+    },
+    {
+      domain: 'gunForce',
+      key: 'gun.station',
+      aliases: ['STATION'],
+      required: false,
+    },
+  ],
+  metadata: [
+    {
+      domain: 'metadata',
+      key: 'metadata.id',
+      aliases: ['ID', 'EMPLOYEE ID', 'SUPPLIER ID'],
+      required: false,
+    },
+    {
+      domain: 'metadata',
+      key: 'metadata.name',
+      aliases: ['NAME', 'EMPLOYEE', 'EMPLOYEE NAME', 'SUPPLIER', 'SUPPLIER NAME', 'SUPPLIERNAME'],
+      required: true,
+    },
+    {
+      domain: 'metadata',
+      key: 'metadata.branch',
+      aliases: ['BRANCH', 'BRANCH NAME', 'BRANCHNAME'],
+      required: false,
+    },
+    {
+      domain: 'metadata',
+      key: 'metadata.contact',
+      aliases: ['CONTACT INFO', 'CONTACT', 'EMAIL', 'PHONE'],
+      required: false,
+    },
+  ],
+}
+
+/**
+ * Registry domain used for each detected sheet category. UNKNOWN sheets have no
+ * fields to map against.
+ */
+export const SEMANTIC_DOMAIN_BY_CATEGORY: Record<
+  Exclude<SheetCategory, 'UNKNOWN'>,
+  SemanticDomain
+> = {
+  SIMULATION_STATUS: 'simulationStatus',
+  IN_HOUSE_TOOLING: 'toolList',
+  ASSEMBLIES_LIST: 'assembliesList',
+  ROBOT_SPECS: 'robotList',
+  REUSE_WELD_GUNS: 'reuseWeldGuns',
+  REUSE_RISERS: 'reuseRisers',
+  REUSE_TIP_DRESSERS: 'reuseTipDressers',
+  REUSE_ROBOTS: 'reuseRobots',
+  GUN_FORCE: 'gunForce',
+  METADATA: 'metadata',
+}
+
+export function getSemanticDomainForCategory(category: SheetCategory): SemanticDomain | undefined {
+  return category === 'UNKNOWN' ? undefined : SEMANTIC_DOMAIN_BY_CATEGORY[category]
 }
 
 export interface ResolveHeaderMappingsOptions {
@@ -0,0 +1,76 @@
+import type * as XLSX from 'xlsx'
+import { sheetToMatrix } from '../excelUtils'
+import type { SheetCategory } from '../sheetSnifferTypes'
+import { buildSemanticLayerArtifact } from './artifactBuilder'
+import { getSemanticDomainForCategory } from './mappingRegistry'
+import type { SemanticDomain, SemanticLayerArtifact } from './types'
+
+const HEADER_SCAN_ROWS = 20
+
+/**
+ * Header row for sheets whose parser does not report one: the fullest of the first rows
+ */
+export function findDensestHeaderRow(rows: unknown[][]): number {
+  const maxRowsToScan = Math.min(HEADER_SCAN_ROWS, rows.length)
+  let headerRowIndex = 0
+  let headerRowScore = 0
+
+  for (let i = 0; i < maxRowsToScan; i++) {
+    const nonEmpty = rows[i].filter((value) => String(value ?? '').trim() !== '').length
+    if (nonEmpty <= headerRowScore) {
+      continue
+    }
+    headerRowIndex = i
+    headerRowScore = nonEmpty
+  }
+
+  return headerRowIndex
+}
+
+export function headerRowToLabels(headerRow: unknown[]): string[] {
+  return headerRow.map((cell, index) => String(cell ?? `Column_${index}`).trim())
+}
+
+export function buildWorkbookSemanticLayer(
+  workbook: XLSX.WorkBook,
+  fileName: string,
+  sheetName: string,
+  domain: SemanticDomain,
+): SemanticLayerArtifact | undefined {
+  const rows = sheetToMatrix(workbook, sheetName)
+  if (rows.length === 0) {
+    return undefined
+  }
+
+  const headers = headerRowToLabels(rows[findDensestHeaderRow(rows)] ?? [])
+  if (headers.length === 0) {
+    return undefined
+  }
+
+  return buildSemanticLayerArtifact({ domain, fileName, sheetName, headers })
+}
+
+/**
+ * Semantic layer for a sheet under its detected category. Parsers shared by
+ * several categories (the tool list parser also reads reuse and gun force
+ * sheets, the robot list parser reads reuse robot sheets) describe the sheet
+ * in their own domain, so it is rebuilt against the category's fields.
+ */
+export function resolveCategorySemanticLayer(
+  workbook: XLSX.WorkBook,
+  fileName: string,
+  sheetName: string,
+  category: SheetCategory,
+  parsed?: SemanticLayerArtifact,
+): SemanticLayerArtifact | undefined {
+  const domain = getSemanticDomainForCategory(category)
+  if (!domain || parsed?.domain === domain) {
+    return parsed
+  }
+
+  if (!workbook.SheetNames.includes(sheetName)) {
+    return parsed
+  }
+
+  return buildWorkbookSemanticLayer(workbook, fileName, sheetName, domain) ?? parsed
+}
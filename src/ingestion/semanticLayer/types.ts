@@ -1,4 +1,14 @@
-export type SemanticDomain = 'toolList' | 'simulationStatus'
+export type SemanticDomain =
+  | 'toolList'
+  | 'simulationStatus'
+  | 'robotList'
+  | 'assembliesList'
+  | 'reuseWeldGuns'
+  | 'reuseRisers'
+  | 'reuseTipDressers'
+  | 'reuseRobots'
+  | 'gunForce'
+  | 'metadata'
 
 export type SemanticNodeType = 'file' | 'sheet' | 'header' | 'field'
 export type SemanticEdgeType = 'CONTAINS' | 'MAPS_TO'
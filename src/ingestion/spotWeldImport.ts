@@ -0,0 +1,164 @@
+// Spot Weld Import
+// Links parsed weld point rows to cells, robots and weld guns through the
+// linking indexes and stores them as SpotWeldRefs
+
+import * as XLSX from 'xlsx'
+import { Cell, IngestionWarning, Robot, UnifiedAsset } from '../domain/core'
+import { SpotWeldRef } from '../domain/types'
+import { coreStore } from '../domain/coreStore'
+import { deriveRobotGunAssignments } from '../domain/robotGunAssignmentsStore'
+import { readWorkbook } from './excelUtils'
+import { buildCellIndex, buildRobotIndex } from './linking/indexes'
+import { findCellForAsset } from './linking/matching'
+import { normalizeAssetName, normalizeStation } from './linking/normalizers'
+import { SpotWeldRow, parseSpotWeldList } from './spotWeldListParser'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SpotWeldLinkStats {
+  total: number
+  linkedToCell: number
+  linkedToRobot: number
+  linkedToGun: number
+}
+
+export interface SpotWeldImportResult {
+  welds: SpotWeldRef[]
+  stats: SpotWeldLinkStats
+  warnings: IngestionWarning[]
+}
+
+// ============================================================================
+// LINKING
+// ============================================================================
+
+/**
+ * Stable ID so re-importing a weld list updates welds instead of duplicating them
+ */
+export function getSpotWeldRefId(stationNumber: string, weldId: string): string {
+  return `sw:${normalizeStation(stationNumber)}:${weldId.trim().toUpperCase()}`
+}
+
+const getGunLabels = (gun: UnifiedAsset): string[] =>
+  [gun.gunNumber, gun.name, gun.metadata?.['Gun No']]
+    .map((v) => normalizeAssetName(v === null || v === undefined ? undefined : String(v)))
+    .filter(Boolean)
+
+/**
+ * Prefer the candidate in the weld's cell; otherwise only a unique candidate counts
+ */
+function pickInCell<T extends UnifiedAsset>(candidates: T[], cellId: string | null): T | null {
+  if (candidates.length === 1) return candidates[0]
+  const inCell = cellId ? candidates.filter((c) => c.cellId === cellId) : []
+  return inCell.length === 1 ? inCell[0] : null
+}
+
+/**
+ * Resolve each weld row to a cell by station/area, a robot by name and a gun
+ * by number. A weld without a gun column takes the robot's gun when the robot
+ * carries exactly one. Labels that cannot be resolved are kept in notes.
+ */
+export function linkSpotWelds(
+  rows: SpotWeldRow[],
+  data: { cells: Cell[]; assets: UnifiedAsset[] },
+): { welds: SpotWeldRef[]; stats: SpotWeldLinkStats } {
+  const cellIndex = buildCellIndex(data.cells)
+  const robotIndex = buildRobotIndex(data.assets.filter((a) => a.kind === 'ROBOT') as Robot[])
+  const guns = data.assets.filter((a) => a.kind === 'GUN')
+
+  const gunsByRobot = new Map<string, string[]>()
+  for (const assignment of deriveRobotGunAssignments(data.assets)) {
+    if (!assignment.isActive) continue
+    gunsByRobot.set(assignment.robotId, [
+      ...(gunsByRobot.get(assignment.robotId) ?? []),
+      assignment.weldGunId,
+    ])
+  }
+
+  const stats: SpotWeldLinkStats = { total: 0, linkedToCell: 0, linkedToRobot: 0, linkedToGun: 0 }
+  const welds = new Map<string, SpotWeldRef>()
+
+  for (const row of rows) {
+    const cell = findCellForAsset(
+      { stationCode: row.stationCode, areaName: row.areaName || undefined },
+      cellIndex,
+    ).match
+    const notes: string[] = []
+
+    let robot: Robot | null = null
+    if (row.robotName) {
+      const robotKey = normalizeAssetName(row.robotName)
+      robot = pickInCell(
+        robotIndex.all.filter((r) => normalizeAssetName(r.name) === robotKey),
+        cell?.id ?? null,
+      )
+      if (!robot) notes.push(`Robot ${row.robotName} not found`)
+    }
+
+    let gunId: string | null = null
+    if (row.gunName) {
+      const gunKey = normalizeAssetName(row.gunName)
+      const candidates = guns.filter((g) => getGunLabels(g).includes(gunKey))
+      gunId = pickInCell(candidates, cell?.id ?? robot?.cellId ?? null)?.id ?? null
+      if (!gunId) notes.push(`Gun ${row.gunName} not found`)
+    } else if (robot) {
+      const robotGuns = gunsByRobot.get(robot.id) ?? []
+      if (robotGuns.length === 1) gunId = robotGuns[0]
+    }
+
+    const stationNumber = row.stationCode || cell?.code || robot?.stationNumber || ''
+    const weld: SpotWeldRef = {
+      id: getSpotWeldRefId(stationNumber, row.weldId),
+      weldId: row.weldId,
+      areaId: cell?.areaId ?? robot?.areaId ?? '',
+      stationNumber,
+      robotId: robot?.id ?? null,
+      weldGunId: gunId,
+      cellId: cell?.id ?? robot?.cellId ?? null,
+      notes: notes.join('; '),
+    }
+
+    welds.set(weld.id, weld)
+  }
+
+  for (const weld of welds.values()) {
+    stats.total++
+    if (weld.cellId) stats.linkedToCell++
+    if (weld.robotId) stats.linkedToRobot++
+    if (weld.weldGunId) stats.linkedToGun++
+  }
+
+  return { welds: Array.from(welds.values()), stats }
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+async function readSpotWeldWorkbook(file: File): Promise<XLSX.WorkBook> {
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    return XLSX.read(await file.text(), { type: 'string' })
+  }
+  return readWorkbook(file)
+}
+
+/**
+ * Import a Process Simulate weld point list (CSV or Excel), linking welds
+ * against the loaded stations and equipment
+ * @throws {Error} If the file cannot be read
+ */
+export async function importSpotWeldList(file: File): Promise<SpotWeldImportResult> {
+  const workbook = await readSpotWeldWorkbook(file)
+  const { rows, warnings } = parseSpotWeldList(workbook, file.name)
+
+  const { cells, assets } = coreStore.getState()
+  const { welds, stats } = linkSpotWelds(rows, { cells, assets })
+
+  if (welds.length > 0) {
+    coreStore.upsertSpotWeldRefs(welds)
+  }
+
+  return { welds, stats, warnings }
+}
@@ -0,0 +1,150 @@
+// Spot Weld List Parser
+// Parses weld point lists exported from Process Simulate (CSV or Excel)
+// into rows of weld ID, station, robot and gun labels
+
+import * as XLSX from 'xlsx'
+import { IngestionWarning } from '../domain/core'
+import {
+  sheetToMatrix,
+  findBestHeaderRow,
+  isEmptyRow,
+  isTotalRow,
+  getCellString,
+  CellValue,
+} from './excelUtils'
+import { createParserErrorWarning, createRowSkippedWarning } from './warningUtils'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SpotWeldRow {
+  weldId: string
+  stationCode: string
+  areaName: string
+  robotName: string
+  gunName: string
+  sourceFile: string
+  sheetName: string
+  rowIndex: number
+}
+
+export interface SpotWeldListResult {
+  rows: SpotWeldRow[]
+  warnings: IngestionWarning[]
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STRONG_KEYWORDS = ['weld', 'spot']
+
+const WEAK_KEYWORDS = ['name', 'station', 'robot', 'gun', 'area', 'thickness']
+
+type SpotWeldColumn = 'WELD_ID' | 'STATION' | 'AREA' | 'ROBOT' | 'GUN'
+
+/**
+ * Header aliases per column. Exact matches win over partial ones, so a bare
+ * "Name" column is the weld ID while "Robot Name" stays the robot.
+ */
+const COLUMN_ALIASES: Record<SpotWeldColumn, string[]> = {
+  WELD_ID: ['WELD ID', 'WELD POINT', 'WELDPOINT', 'WELD NAME', 'WELD POINT NAME', 'SPOT', 'NAME'],
+  STATION: ['STATION', 'STATION NUMBER', 'STATION NO', 'STN'],
+  AREA: ['AREA', 'AREA NAME'],
+  ROBOT: ['ROBOT', 'ROBOT NAME', 'ROBOT NUMBER', 'ASSIGNED ROBOT'],
+  GUN: ['GUN', 'WELD GUN', 'GUN NUMBER', 'GUN NO', 'GUN ID'],
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Resolve column indices for a header row; exact alias matches are
+ * tried across all columns before partial ones
+ */
+function buildSpotWeldColumnMap(headerRow: CellValue[]): Record<string, number | null> {
+  const headers = headerRow.map((cell) =>
+    String(cell ?? '')
+      .toUpperCase()
+      .replace(/[_\s]+/g, ' ')
+      .trim(),
+  )
+  const used = new Set<number>()
+  const map: Record<string, number | null> = {}
+
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES)) {
+    let index = headers.findIndex((h, i) => !used.has(i) && aliases.includes(h))
+    if (index === -1) {
+      index = headers.findIndex(
+        (h, i) => !used.has(i) && h !== '' && aliases.some((alias) => h.includes(alias)),
+      )
+    }
+    map[column] = index === -1 ? null : index
+    if (index !== -1) used.add(index)
+  }
+
+  return map
+}
+
+// ============================================================================
+// MAIN PARSER
+// ============================================================================
+
+/**
+ * Parse every sheet of a weld point list. Sheets without a recognisable
+ * weld header are skipped; rows without a weld ID are reported and skipped.
+ */
+export function parseSpotWeldList(workbook: XLSX.WorkBook, fileName: string): SpotWeldListResult {
+  const rows: SpotWeldRow[] = []
+  const warnings: IngestionWarning[] = []
+
+  for (const sheetName of workbook.SheetNames) {
+    const matrix = sheetToMatrix(workbook, sheetName)
+    const headerRowIndex = findBestHeaderRow(matrix, STRONG_KEYWORDS, WEAK_KEYWORDS, 3)
+    if (headerRowIndex === null) continue
+
+    const columnMap = buildSpotWeldColumnMap(matrix[headerRowIndex])
+    if (columnMap.WELD_ID === null) {
+      warnings.push(
+        createParserErrorWarning({
+          fileName,
+          sheetName,
+          error: 'No weld ID column found',
+        }),
+      )
+      continue
+    }
+
+    for (let i = headerRowIndex + 1; i < matrix.length; i++) {
+      const row = matrix[i]
+      if (isEmptyRow(row) || isTotalRow(row)) continue
+
+      const weldId = getCellString(row, columnMap, 'WELD_ID')
+      if (!weldId) {
+        warnings.push(
+          createRowSkippedWarning({ fileName, sheetName, rowIndex: i, reason: 'Missing weld ID' }),
+        )
+        continue
+      }
+
+      rows.push({
+        weldId,
+        stationCode: getCellString(row, columnMap, 'STATION'),
+        areaName: getCellString(row, columnMap, 'AREA'),
+        robotName: getCellString(row, columnMap, 'ROBOT'),
+        gunName: getCellString(row, columnMap, 'GUN'),
+        sourceFile: fileName,
+        sheetName,
+        rowIndex: i,
+      })
+    }
+  }
+
+  if (rows.length === 0 && warnings.length === 0) {
+    warnings.push(createParserErrorWarning({ fileName, error: 'No weld point list found' }))
+  }
+
+  return { rows, warnings }
+}
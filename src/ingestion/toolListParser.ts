@@ -26,7 +26,7 @@ import {
 } from './excelUtils'
 import { createRowSkippedWarning, createParserErrorWarning } from './warningUtils'
 import { buildStationId, buildToolId, inferAssembliesAreaName } from './normalizers'
-import { buildSemanticLayerArtifact, type SemanticLayerArtifact } from './semanticLayer'
+import { buildWorkbookSemanticLayer, type SemanticLayerArtifact } from './semanticLayer'
 
 // ============================================================================
 // TYPES
@@ -174,6 +174,10 @@ export async function parseToolListLegacy(
   const columnMap = buildColumnMap(headerRow, [
     'EQUIPMENT NO SHOWN',
     'EQUIPMENT NO',
+    // Claim Zangenpool force columns before 'GUN' can partially match them;
+    // they are not consumed, so they stay in metadata
+    'GUN FORCE',
+    'REQUIRED FORCE',
     'GUN',
     'GUN ID',
     'GUN NUMBER',
@@ -609,44 +613,6 @@ function isCancelledTool(notes: string): boolean {
   return cancelPatterns.some((pattern) => notesUpper.includes(pattern))
 }
 
-function buildToolListSemanticLayer(
-  workbook: XLSX.WorkBook,
-  fileName: string,
-  sheetName: string,
-): SemanticLayerArtifact | undefined {
-  const rows = sheetToMatrix(workbook, sheetName)
-  if (rows.length === 0) {
-    return undefined
-  }
-
-  const maxRowsToScan = Math.min(20, rows.length)
-  let headerRowIndex = 0
-  let headerRowScore = 0
-
-  for (let i = 0; i < maxRowsToScan; i++) {
-    const candidate = rows[i]
-    const nonEmpty = candidate.filter((value) => String(value ?? '').trim() !== '').length
-    if (nonEmpty <= headerRowScore) {
-      continue
-    }
-    headerRowIndex = i
-    headerRowScore = nonEmpty
-  }
-
-  const headerRow = rows[headerRowIndex] ?? []
-  const headers = headerRow.map((cell, index) => String(cell ?? `Column_${index}`).trim())
-  if (headers.length === 0) {
-    return undefined
-  }
-
-  return buildSemanticLayerArtifact({
-    domain: 'toolList',
-    fileName,
-    sheetName,
-    headers,
-  })
-}
-
 // ============================================================================
 // SCHEMA-AWARE PARSER (NEW)
 // ============================================================================
@@ -657,7 +623,8 @@ import { toolEntityToTool } from './toolListSchemas/toolEntityToTool'
 /**
  * Parse tool list using schema adapters (BMW/Ford/STLA aware)
  *
- * This is the new parser that supports:
+ * This is the new parser that supports the declarative schema definitions
+ * in toolListSchemas/definitions plus any imported at runtime:
  * - BMW J10735 (atomic station names)
  * - Ford V801 (station groups + tooling-derived atomic stations)
  * - STLA (SUB Area Name + opposite tooling)
@@ -688,7 +655,12 @@ export async function parseToolListWithSchemas(
     )
   }
 
-  const fallbackSemanticLayer = buildToolListSemanticLayer(workbook, fileName, sheetName)
+  const fallbackSemanticLayer = buildWorkbookSemanticLayer(
+    workbook,
+    fileName,
+    sheetName,
+    'toolList',
+  )
 
   try {
     const result = await parseToolListWithSchema(workbook, fileName, sheetName, debug)
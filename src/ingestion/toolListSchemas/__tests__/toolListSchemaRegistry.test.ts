@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import * as XLSX from 'xlsx'
+import {
+  exportToolListSchemas,
+  getToolListSchemas,
+  importToolListSchemas,
+  removeCustomToolListSchema,
+} from '../toolListSchemaRegistry'
+import { detectProjectHint, parseToolListWithSchema } from '../toolListSchemaAdapter'
+import { ToolListSchemaDefinition } from '../toolListSchemaDefinition'
+import fordV801 from '../definitions/ford_v801.json'
+
+const customerSchema: ToolListSchemaDefinition = {
+  ...(fordV801 as ToolListSchemaDefinition),
+  id: 'ACME_K42',
+  name: 'ACME K42',
+  keyPrefix: 'ACME',
+  detection: [{ priority: 95, fileNameContains: ['k42'] }],
+  columns: ['Zone', 'Cell', 'Mech No', 'Elec RH', 'Elec LH', 'Type'],
+  fields: {
+    areaName: ['Zone'],
+    station: ['Cell'],
+    equipmentType: ['Type'],
+    equipmentNoShown: ['Mech No'],
+    toolingNumberRH: ['Elec RH'],
+    toolingNumberLH: ['Elec LH'],
+  },
+  rows: {},
+  deletion: { strikeThroughColumns: ['Mech No'], shapeRedactionColumns: ['Mech No'] },
+}
+
+describe('toolListSchemaRegistry', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('imports a new customer layout and parses its tool lists without code changes', async () => {
+    const result = importToolListSchemas(JSON.stringify(customerSchema))
+    expect(result).toEqual({ success: true, importedIds: ['ACME_K42'] })
+    expect(getToolListSchemas().map((s) => s.id)).toEqual([
+      'BMW_J10735',
+      'FORD_V801',
+      'STLA_S_ZAR',
+      'ACME_K42',
+    ])
+
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['Zone', 'Cell', 'Mech No', 'Elec RH', 'Elec LH', 'Type'],
+      ['K1 - Framing', 'K1-010', 'M-100', 'K1-010R-G', 'K1-010L-G', 'Gripper'],
+      [null, 'K1-020', 'M-200', null, null, 'Stand'],
+    ])
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Tools')
+
+    const parsed = await parseToolListWithSchema(workbook, 'K42 Tooling.xlsx', 'Tools')
+
+    expect(parsed.projectHint).toBe('ACME_K42')
+    expect(parsed.entities.map((e) => e.canonicalKey)).toEqual([
+      'ACME|K1-010R-G',
+      'ACME|K1-010L-G',
+      'ACME|FIDES|M-200',
+    ])
+  })
+
+  it('rejects invalid definitions without storing anything', () => {
+    const result = importToolListSchemas(
+      JSON.stringify([customerSchema, { ...customerSchema, id: 'BROKEN', entities: {} }]),
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toContain('BROKEN: entities.sides needs at least one side')
+    expect(getToolListSchemas()).toHaveLength(3)
+    expect(importToolListSchemas('{ nope').errorMessage).toMatch(/^Invalid JSON/)
+  })
+
+  it('lets an imported definition replace a built-in until it is removed', () => {
+    const exported = JSON.parse(exportToolListSchemas(['FORD_V801'])) as ToolListSchemaDefinition
+    const replacement = {
+      ...exported,
+      detection: [{ priority: 90, fileNameContains: ['v801', 'ford', 'oakville'] }],
+    }
+
+    importToolListSchemas(JSON.stringify(replacement))
+    expect(detectProjectHint('Oakville Tools.xlsx', [])).toBe('FORD_V801')
+    expect(getToolListSchemas()).toHaveLength(3)
+
+    removeCustomToolListSchema('FORD_V801')
+    expect(detectProjectHint('Oakville Tools.xlsx', [])).toBe('UNKNOWN')
+  })
+})
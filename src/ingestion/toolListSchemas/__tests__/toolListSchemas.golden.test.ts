@@ -0,0 +1,69 @@
+/**
+ * Golden tests for the declarative tool list schemas
+ *
+ * Expected outputs were captured from the hand-written BMW, V801 and STLA
+ * adapters that the JSON definitions replace.
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { parseToolListWithSchema, detectProjectHint } from '../toolListSchemaAdapter'
+import { BUILT_IN_TOOL_LIST_SCHEMAS } from '../toolListSchemaRegistry'
+import { validateToolListSchemaDefinition } from '../toolListSchemaDefinition'
+import bmwInput from '../__fixtures__/golden/bmw.input.json'
+import bmwExpected from '../__fixtures__/golden/bmw.expected.json'
+import v801Input from '../__fixtures__/golden/v801.input.json'
+import v801Expected from '../__fixtures__/golden/v801.expected.json'
+import stlaInput from '../__fixtures__/golden/stla.input.json'
+import stlaExpected from '../__fixtures__/golden/stla.expected.json'
+import detectionExpected from '../__fixtures__/golden/detection.expected.json'
+
+interface GoldenInput {
+  fileName: string
+  sheetName: string
+  debug: boolean
+  rows: unknown[][]
+  struck: string[]
+}
+
+function buildWorkbook(input: GoldenInput): XLSX.WorkBook {
+  const sheet = XLSX.utils.aoa_to_sheet(input.rows)
+  for (const address of input.struck) {
+    sheet[address].s = { font: { strike: true } }
+  }
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, input.sheetName)
+  return workbook
+}
+
+describe('tool list schema golden files', () => {
+  it('ships valid built-in definitions', () => {
+    for (const schema of BUILT_IN_TOOL_LIST_SCHEMAS) {
+      expect(validateToolListSchemaDefinition(schema)).toEqual([])
+    }
+  })
+
+  it.each([
+    ['BMW J10735', bmwInput, bmwExpected],
+    ['Ford V801', v801Input, v801Expected],
+    ['STLA-S ZAR', stlaInput, stlaExpected],
+  ])('reproduces the %s adapter output', async (_name, input, expected) => {
+    const golden = input as GoldenInput
+    const result = await parseToolListWithSchema(
+      buildWorkbook(golden),
+      golden.fileName,
+      golden.sheetName,
+      golden.debug,
+    )
+
+    expect(result.projectHint).toBe(expected.projectHint)
+    expect(result.entities).toEqual(expected.entities)
+    expect(result.validation).toEqual(expected.validation)
+  })
+
+  it('detects the same project for each file name and column set', () => {
+    for (const { fileName, columns, projectHint } of detectionExpected) {
+      expect(detectProjectHint(fileName, columns)).toBe(projectHint)
+    }
+  })
+})
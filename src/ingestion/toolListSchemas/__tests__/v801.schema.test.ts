@@ -1,17 +1,24 @@
 /**
- * V801 Schema Adapter Tests
+ * V801 Schema Definition Tests
  */
 
 import { describe, it, expect } from 'vitest'
-import {
-  normalizeV801Rows,
-  v801RowToToolEntities,
-  validateV801Entities,
-} from '../v801ToolListSchema'
+import { normalizeToolRows, toolRowToEntities, validateToolEntities } from '../toolListSchemaEngine'
 import { ValidationAnomaly } from '../normalizeToolListRow'
+import { ToolListSchemaDefinition } from '../toolListSchemaDefinition'
+import fordV801 from '../definitions/ford_v801.json'
 
-describe('V801 Schema Adapter', () => {
-  describe('normalizeV801Rows', () => {
+const v801 = fordV801 as ToolListSchemaDefinition
+
+const normalizeV801Rows = (rawRows: Record<string, unknown>[], sourceFile: string) =>
+  normalizeToolRows(
+    v801,
+    rawRows.map((raw, rowIndex) => ({ raw, rowIndex })),
+    sourceFile,
+  )
+
+describe('V801 Schema Definition', () => {
+  describe('normalizeToolRows', () => {
     it('should propagate area name from section header rows', () => {
       const rawRows = [
         { 'Area Name': '7F - Final Assembly', Station: '' },
@@ -23,7 +30,7 @@ describe('V801 Schema Adapter', () => {
         },
       ]
 
-      const result = normalizeV801Rows(rawRows, 'test.xlsx', 0)
+      const result = normalizeV801Rows(rawRows, 'test.xlsx')
 
       expect(result).toHaveLength(1)
       expect(result[0].areaName).toBe('7F - Final Assembly')
@@ -33,13 +40,13 @@ describe('V801 Schema Adapter', () => {
     it('should derive atomic station from tooling number', () => {
       const rawRows = [{ 'Area Name': '7F', Station: '7F-010', 'Tooling Number RH': '7F-010R-H' }]
 
-      const result = normalizeV801Rows(rawRows, 'test.xlsx', 0)
+      const result = normalizeV801Rows(rawRows, 'test.xlsx')
 
       expect(result[0].stationAtomic).toBe('7F-010R')
     })
   })
 
-  describe('v801RowToToolEntities', () => {
+  describe('toolRowToEntities', () => {
     it('should create RH and LH entities from tooling numbers', () => {
       const normalized = {
         sourceFile: 'test.xlsx',
@@ -62,7 +69,7 @@ describe('V801 Schema Adapter', () => {
       }
 
       const anomalies: ValidationAnomaly[] = []
-      const entities = v801RowToToolEntities(normalized, 'ToolList', anomalies, false)
+      const entities = toolRowToEntities(v801, normalized, 'ToolList', anomalies, false)
 
       expect(entities).toHaveLength(2)
       expect(entities[0].canonicalKey).toBe('FORD|7F-010R-H')
@@ -93,7 +100,7 @@ describe('V801 Schema Adapter', () => {
       }
 
       const anomalies: ValidationAnomaly[] = []
-      const entities = v801RowToToolEntities(normalized, 'ToolList', anomalies, false)
+      const entities = toolRowToEntities(v801, normalized, 'ToolList', anomalies, false)
 
       expect(entities).toHaveLength(1)
       expect(entities[0].canonicalKey).toBe('FORD|FIDES|016ZF-001-010-H')
@@ -123,14 +130,14 @@ describe('V801 Schema Adapter', () => {
       }
 
       const anomalies: ValidationAnomaly[] = []
-      const entities = v801RowToToolEntities(normalized, 'ToolList', anomalies, false)
+      const entities = toolRowToEntities(v801, normalized, 'ToolList', anomalies, false)
 
       expect(entities).toHaveLength(1)
       expect(anomalies.some((a) => a.type === 'TOOLING_PREFIX_MISMATCH')).toBe(true)
     })
   })
 
-  describe('validateV801Entities', () => {
+  describe('validateToolEntities', () => {
     it('should detect duplicate canonical keys', () => {
       const entities = [
         {
@@ -156,7 +163,7 @@ describe('V801 Schema Adapter', () => {
       ]
 
       const anomalies: ValidationAnomaly[] = []
-      const report = validateV801Entities(entities, 2, anomalies)
+      const report = validateToolEntities(entities, 2, anomalies)
 
       expect(report.totalEntitiesProduced).toBe(2)
       expect(anomalies.some((a) => a.type === 'DUPLICATE_CANONICAL_KEY')).toBe(true)
@@ -10,12 +10,13 @@
 // ============================================================================
 
 /**
- * Project hint for schema selection
+ * Project hint for schema selection: the id of the matching schema definition
+ * ('BMW_J10735', 'FORD_V801', 'STLA_S_ZAR' or an imported schema), else 'UNKNOWN'
  */
-export type ProjectHint = 'BMW_J10735' | 'FORD_V801' | 'STLA_S_ZAR' | 'UNKNOWN'
+export type ProjectHint = string
 
 /**
- * Normalized tool list row - unified across all 3 project types
+ * Normalized tool list row - unified across all tool list schemas
  *
  * BMW: stationGroup === stationAtomic (no group concept)
  * Ford/STLA: stationGroup from "Station" column, stationAtomic derived from tooling number
@@ -203,42 +204,37 @@ export function extractAreaPrefix(areaName: string): string {
 }
 
 /**
- * Build canonical key for BMW
+ * Build canonical key for a row without tooling numbers from its location (BMW style)
  *
  * Priority:
- * 1. If tooling number exists: BMW|{tooling}
- * 2. If equipment no exists: BMW|{area}|{station}|{equipNo}
- * 3. Else: BMW|{area}|{station}|{equipType}|row:{rowIndex}
+ * 1. If equipment no exists: {prefix}|{area}|{station}|{equipNo}
+ * 2. Else: {prefix}|{area}|{station}|{equipType}|row:{rowIndex}
  */
-export function buildBMWCanonicalKey(
+export function buildLocationCanonicalKey(
+  projectPrefix: string,
   area: string,
   station: string,
   equipNo: string,
-  toolingNumber: string,
   equipType: string,
   rowIndex: number
 ): string {
-  if (toolingNumber) {
-    return `BMW|${normalizeCode(toolingNumber)}`
-  }
-
   if (equipNo) {
-    return `BMW|${normalizeCode(area)}|${normalizeCode(station)}|${normalizeCode(equipNo)}`
+    return `${projectPrefix}|${normalizeCode(area)}|${normalizeCode(station)}|${normalizeCode(equipNo)}`
   }
 
-  return `BMW|${normalizeCode(area)}|${normalizeCode(station)}|${normalizeCode(equipType)}|row:${rowIndex}`
+  return `${projectPrefix}|${normalizeCode(area)}|${normalizeCode(station)}|${normalizeCode(equipType)}|row:${rowIndex}`
 }
 
 /**
- * Build canonical key for Ford/STLA
+ * Build canonical key for Ford/STLA style lists (also used for BMW tooling numbers)
  *
  * Priority:
- * 1. If tooling number exists: FORD|{tooling} or STLA|{tooling}
- * 2. If equipment no exists: FORD|FIDES|{equipNo} or STLA|FIDES|{equipNo}
+ * 1. If tooling number exists: {prefix}|{tooling}, e.g. FORD|7F-010R-H
+ * 2. If equipment no exists: {prefix}|FIDES|{equipNo}
  * 3. Else: drop row (unresolvable)
  */
 export function buildFordStyleCanonicalKey(
-  projectPrefix: 'FORD' | 'STLA',
+  projectPrefix: string,
   toolingNumber: string,
   equipNo: string
 ): string | null {
@@ -0,0 +1,271 @@
+/**
+ * Declarative Tool List Schema Definitions
+ *
+ * A tool list layout (which columns identify it, which columns feed which
+ * field, how a row splits into RH/LH/opposite tools, which cells mark a
+ * deleted row) described as JSON. Built-in layouts live in ./definitions;
+ * further layouts are imported at runtime through the registry.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const TOOL_LIST_SCHEMA_FORMAT_VERSION = 1
+
+export type ToolingField =
+  | 'toolingNumberRH'
+  | 'toolingNumberLH'
+  | 'toolingNumberOppositeRH'
+  | 'toolingNumberOppositeLH'
+
+export type EquipmentNoField = 'equipmentNoShown' | 'equipmentNoOpposite'
+
+export type ToolRowField =
+  | 'areaName'
+  | 'station'
+  | 'equipmentType'
+  | EquipmentNoField
+  | ToolingField
+
+/**
+ * Alias parts, in the order they are added to each tool:
+ * - equipmentNo: equipment number of the tool's side
+ * - tooling: tooling number(s) the tool was built from
+ * - stationGroup / stationAtomic: normalized station
+ * - areaStation: "{area}|{atomic station}"
+ * - areaPrefix: leading code of the area name ("7F - Final" => "7F")
+ */
+export type ToolAliasPart =
+  | 'equipmentNo'
+  | 'tooling'
+  | 'stationGroup'
+  | 'stationAtomic'
+  | 'areaStation'
+  | 'areaPrefix'
+
+/**
+ * Matches when any file name fragment is contained in the file name (case-insensitive)
+ * and every listed column is present. The highest priority match across all schemas wins.
+ */
+export interface ToolListDetectionRule {
+  priority: number
+  fileNameContains?: string[]
+  columns?: string[]
+}
+
+/**
+ * Raw row column. A string reads the header of the same name; an object reads
+ * the first non-empty of several headers into one key.
+ */
+export type ToolListColumnDefinition = string | { key: string; headers: string[] }
+
+export interface ToolListSideDefinition {
+  tooling: ToolingField
+  equipmentNo: EquipmentNoField
+}
+
+export interface ToolListSchemaDefinition {
+  formatVersion: number
+  /** Project hint reported for files using this layout */
+  id: string
+  name: string
+  description?: string
+  /** First segment of every canonical key, e.g. "FORD" in "FORD|7F-010R-H" */
+  keyPrefix: string
+  detection: ToolListDetectionRule[]
+  columns: ToolListColumnDefinition[]
+  /** Raw row keys per field; the first non-empty value wins */
+  fields: Partial<Record<ToolRowField, string[]>>
+  rows?: {
+    /** Skip rows whose column contains any of the terms (case-insensitive) */
+    skipWhen?: Array<{ column: string; contains: string[] }>
+    /**
+     * Rows with an area but no station set the area for the rows below them.
+     * Deletion checks then run before rows without a station are dropped.
+     */
+    sectionHeaders?: boolean
+    /**
+     * sheet: tools point at their sheet row.
+     * sequential: data start row plus the position among kept rows (V801 numbering).
+     */
+    numbering?: 'sheet' | 'sequential'
+  }
+  /** station: the station column is atomic; tooling: derive it from the first tooling number */
+  stationAtomic: 'station' | 'tooling'
+  deletion: {
+    /** A struck-through cell in any of these columns marks the row as deleted */
+    strikeThroughColumns: string[]
+    /** Raw row keys checked for underscore/dash runs left by drawn shapes */
+    shapeRedactionColumns: string[]
+    shapeRedactionHint?: string
+  }
+  entities: {
+    sides: ToolListSideDefinition[]
+    /**
+     * perTooling: one tool per non-empty tooling number.
+     * whenAllPresent: one tool per side only when every side has tooling,
+     * otherwise a single tool keyed by the first tooling number.
+     */
+    split: 'perTooling' | 'whenAllPresent'
+    /** Rows without an equipment number produce no tools */
+    requireEquipmentNo?: boolean
+    /**
+     * Rows without tooling numbers.
+     * fides: one tool per equipment number, keyed {prefix}|FIDES|{equipNo}.
+     * location: one tool keyed by area, station and equipment number (or row).
+     */
+    fallback: 'fides' | 'location'
+    aliases: ToolAliasPart[]
+    /** Flag tooling numbers whose prefix or station disagrees with the row */
+    checkToolingConsistency?: boolean
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const TOOLING_FIELDS: ToolingField[] = [
+  'toolingNumberRH',
+  'toolingNumberLH',
+  'toolingNumberOppositeRH',
+  'toolingNumberOppositeLH',
+]
+const EQUIPMENT_NO_FIELDS: EquipmentNoField[] = ['equipmentNoShown', 'equipmentNoOpposite']
+const ROW_FIELDS: ToolRowField[] = [
+  'areaName',
+  'station',
+  'equipmentType',
+  ...EQUIPMENT_NO_FIELDS,
+  ...TOOLING_FIELDS,
+]
+const ALIAS_PARTS: ToolAliasPart[] = [
+  'equipmentNo',
+  'tooling',
+  'stationGroup',
+  'stationAtomic',
+  'areaStation',
+  'areaPrefix',
+]
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Problems with a schema definition; empty when it can be used
+ */
+export function validateToolListSchemaDefinition(value: unknown): string[] {
+  if (!isRecord(value)) return ['Schema must be a JSON object']
+
+  const errors: string[] = []
+  const label = typeof value.id === 'string' && value.id ? value.id : 'schema'
+
+  if (value.formatVersion !== TOOL_LIST_SCHEMA_FORMAT_VERSION) {
+    errors.push(`${label}: formatVersion must be ${TOOL_LIST_SCHEMA_FORMAT_VERSION}`)
+  }
+  if (typeof value.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(value.id)) {
+    errors.push(`${label}: id must use letters, digits, "_" or "-"`)
+  } else if (value.id === 'UNKNOWN') {
+    errors.push(`${label}: id "UNKNOWN" is reserved`)
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    errors.push(`${label}: name is required`)
+  }
+  if (typeof value.keyPrefix !== 'string' || !value.keyPrefix.trim()) {
+    errors.push(`${label}: keyPrefix is required`)
+  }
+
+  if (!Array.isArray(value.detection) || value.detection.length === 0) {
+    errors.push(`${label}: at least one detection rule is required`)
+  } else {
+    value.detection.forEach((rule, index) => {
+      if (!isRecord(rule) || typeof rule.priority !== 'number') {
+        errors.push(`${label}: detection[${index}] needs a numeric priority`)
+        return
+      }
+      const hasFileName = isStringArray(rule.fileNameContains) && rule.fileNameContains.length > 0
+      const hasColumns = isStringArray(rule.columns) && rule.columns.length > 0
+      if (!hasFileName && !hasColumns) {
+        errors.push(`${label}: detection[${index}] needs fileNameContains or columns`)
+      }
+    })
+  }
+
+  if (!Array.isArray(value.columns) || value.columns.length === 0) {
+    errors.push(`${label}: columns are required`)
+  } else {
+    value.columns.forEach((column, index) => {
+      const valid =
+        (typeof column === 'string' && column.trim()) ||
+        (isRecord(column) &&
+          typeof column.key === 'string' &&
+          isStringArray(column.headers) &&
+          column.headers.length > 0)
+      if (!valid) errors.push(`${label}: columns[${index}] must be a header or {key, headers}`)
+    })
+  }
+
+  if (!isRecord(value.fields)) {
+    errors.push(`${label}: fields are required`)
+  } else {
+    for (const [field, keys] of Object.entries(value.fields)) {
+      if (!ROW_FIELDS.includes(field as ToolRowField)) {
+        errors.push(`${label}: unknown field "${field}"`)
+      } else if (!isStringArray(keys)) {
+        errors.push(`${label}: fields.${field} must be a list of columns`)
+      }
+    }
+    if (!isStringArray(value.fields.station) || value.fields.station.length === 0) {
+      errors.push(`${label}: fields.station is required`)
+    }
+  }
+
+  if (value.stationAtomic !== 'station' && value.stationAtomic !== 'tooling') {
+    errors.push(`${label}: stationAtomic must be "station" or "tooling"`)
+  }
+
+  if (
+    !isRecord(value.deletion) ||
+    !isStringArray(value.deletion.strikeThroughColumns) ||
+    !isStringArray(value.deletion.shapeRedactionColumns)
+  ) {
+    errors.push(`${label}: deletion needs strikeThroughColumns and shapeRedactionColumns`)
+  }
+
+  const entities = value.entities
+  if (!isRecord(entities)) {
+    errors.push(`${label}: entities are required`)
+  } else {
+    if (!Array.isArray(entities.sides) || entities.sides.length === 0) {
+      errors.push(`${label}: entities.sides needs at least one side`)
+    } else {
+      entities.sides.forEach((side, index) => {
+        if (
+          !isRecord(side) ||
+          !TOOLING_FIELDS.includes(side.tooling as ToolingField) ||
+          !EQUIPMENT_NO_FIELDS.includes(side.equipmentNo as EquipmentNoField)
+        ) {
+          errors.push(`${label}: entities.sides[${index}] has an unknown tooling or equipmentNo`)
+        }
+      })
+    }
+    if (entities.split !== 'perTooling' && entities.split !== 'whenAllPresent') {
+      errors.push(`${label}: entities.split must be "perTooling" or "whenAllPresent"`)
+    }
+    if (entities.fallback !== 'fides' && entities.fallback !== 'location') {
+      errors.push(`${label}: entities.fallback must be "fides" or "location"`)
+    }
+    if (
+      !isStringArray(entities.aliases) ||
+      entities.aliases.some((part) => !ALIAS_PARTS.includes(part as ToolAliasPart))
+    ) {
+      errors.push(`${label}: entities.aliases must use ${ALIAS_PARTS.join(', ')}`)
+    }
+  }
+
+  return errors
+}
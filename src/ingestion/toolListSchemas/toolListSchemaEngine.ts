@@ -0,0 +1,449 @@
+/**
+ * Tool List Schema Engine
+ *
+ * Runs a declarative schema definition over raw tool list rows:
+ * detection, row normalization, entity splitting and validation.
+ * Sheet access (header detection, strike-through) stays in the adapter.
+ */
+
+import {
+  NormalizedToolRow,
+  ToolEntity,
+  ValidationReport,
+  ValidationAnomaly,
+  normalizeStr,
+  normalizeCode,
+  buildFordStyleCanonicalKey,
+  buildLocationCanonicalKey,
+  buildDisplayCode,
+  extractAreaPrefix,
+  deriveAtomicStation,
+  extractLR,
+  checkToolingAreaMismatch,
+  checkToolingStationMismatch,
+} from './normalizeToolListRow'
+import type {
+  EquipmentNoField,
+  ToolListColumnDefinition,
+  ToolListSchemaDefinition,
+  ToolRowField,
+} from './toolListSchemaDefinition'
+import { log } from '../../lib/log'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ToolListRawRow {
+  raw: Record<string, unknown>
+  /** Row index reported on tools and anomalies (see rows.numbering) */
+  rowIndex: number
+}
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+export function getColumnKey(column: ToolListColumnDefinition): string {
+  return typeof column === 'string' ? column : column.key
+}
+
+export function getColumnHeaders(column: ToolListColumnDefinition): string[] {
+  return typeof column === 'string' ? [column] : column.headers
+}
+
+/**
+ * Headers to locate in the header row, in column order, plus strike-through columns
+ */
+export function getSchemaHeaders(schema: ToolListSchemaDefinition): string[] {
+  const headers = schema.columns.flatMap(getColumnHeaders)
+  return Array.from(new Set([...headers, ...schema.deletion.strikeThroughColumns]))
+}
+
+/**
+ * Field value: the first non-empty of the field's raw row keys
+ */
+export function readToolRowField(
+  schema: ToolListSchemaDefinition,
+  raw: Record<string, unknown>,
+  field: ToolRowField,
+): string {
+  for (const key of schema.fields[field] ?? []) {
+    const value = normalizeStr(raw[key])
+    if (value) return value
+  }
+  return ''
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Schema whose highest matching detection rule outranks every other schema's.
+ * Earlier schemas win ties.
+ */
+export function detectToolListSchema(
+  fileName: string,
+  columns: string[],
+  schemas: ToolListSchemaDefinition[],
+): ToolListSchemaDefinition | undefined {
+  const fileNameLower = fileName.toLowerCase()
+  const columnSet = new Set(columns.map((c) => c.toLowerCase()))
+
+  let best: { schema: ToolListSchemaDefinition; priority: number } | undefined
+
+  for (const schema of schemas) {
+    for (const rule of schema.detection) {
+      const fileNameMatches =
+        !rule.fileNameContains?.length ||
+        rule.fileNameContains.some((part) => fileNameLower.includes(part.toLowerCase()))
+      const columnsMatch =
+        !rule.columns?.length || rule.columns.every((col) => columnSet.has(col.toLowerCase()))
+
+      if (fileNameMatches && columnsMatch && (!best || rule.priority > best.priority)) {
+        best = { schema, priority: rule.priority }
+      }
+    }
+  }
+
+  return best?.schema
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Row-by-row normalizer. Rows without a station are dropped; with section
+ * headers enabled, area-only rows set the area for the rows that follow.
+ */
+export function createToolRowNormalizer(
+  schema: ToolListSchemaDefinition,
+  sourceFile: string,
+): (row: ToolListRawRow) => NormalizedToolRow | undefined {
+  let currentArea = ''
+
+  return ({ raw, rowIndex }) => {
+    const areaNameCell = readToolRowField(schema, raw, 'areaName')
+    const station = readToolRowField(schema, raw, 'station')
+
+    if (schema.rows?.sectionHeaders && areaNameCell && !station) {
+      currentArea = areaNameCell
+      return undefined
+    }
+
+    if (!station) {
+      return undefined
+    }
+
+    return normalizeToolRow(schema, raw, sourceFile, rowIndex, {
+      areaName: areaNameCell || (schema.rows?.sectionHeaders ? currentArea : ''),
+      station,
+    })
+  }
+}
+
+export function normalizeToolRows(
+  schema: ToolListSchemaDefinition,
+  rawRows: ToolListRawRow[],
+  sourceFile: string,
+): NormalizedToolRow[] {
+  const normalize = createToolRowNormalizer(schema, sourceFile)
+  return rawRows.map(normalize).filter((row): row is NormalizedToolRow => row !== undefined)
+}
+
+function normalizeToolRow(
+  schema: ToolListSchemaDefinition,
+  raw: Record<string, unknown>,
+  sourceFile: string,
+  rowIndex: number,
+  context: { areaName: string; station: string },
+): NormalizedToolRow {
+  const read = (field: ToolRowField) => readToolRowField(schema, raw, field)
+
+  const toolingRH = read('toolingNumberRH')
+  const toolingLH = read('toolingNumberLH')
+  const toolingOppositeRH = read('toolingNumberOppositeRH')
+  const toolingOppositeLH = read('toolingNumberOppositeLH')
+
+  let stationAtomic = context.station
+  let toolingLR: NormalizedToolRow['toolingLR'] = ''
+  let toolingLROpposite: NormalizedToolRow['toolingLROpposite'] = ''
+
+  if (schema.stationAtomic === 'tooling') {
+    const firstTooling = schema.entities.sides
+      .map((side) => read(side.tooling))
+      .find((tooling) => tooling.length > 0)
+    if (firstTooling) {
+      stationAtomic = deriveAtomicStation(firstTooling, context.station)
+    }
+
+    // Without opposite tooling columns the LH number is the opposite side
+    const hasOppositeTooling = Boolean(
+      schema.fields.toolingNumberOppositeRH || schema.fields.toolingNumberOppositeLH,
+    )
+    toolingLR = extractLR(toolingRH)
+    toolingLROpposite = hasOppositeTooling
+      ? extractLR(toolingOppositeRH) || extractLR(toolingOppositeLH)
+      : extractLR(toolingLH)
+  }
+
+  return {
+    sourceFile,
+    projectHint: schema.id,
+    areaName: context.areaName,
+    stationGroup: context.station,
+    stationAtomic,
+    equipmentType: read('equipmentType'),
+    equipmentNoShown: read('equipmentNoShown'),
+    equipmentNoOpposite: read('equipmentNoOpposite'),
+    toolingNumberRH: toolingRH,
+    toolingNumberLH: toolingLH,
+    toolingNumberOppositeRH: toolingOppositeRH,
+    toolingNumberOppositeLH: toolingOppositeLH,
+    toolingLR,
+    toolingLROpposite,
+    rawRowIndex: rowIndex,
+    isDeleted: false,
+    raw,
+  }
+}
+
+// ============================================================================
+// ENTITIES
+// ============================================================================
+
+/**
+ * Split a normalized row into tool entities following the schema's side rules
+ */
+export function toolRowToEntities(
+  schema: ToolListSchemaDefinition,
+  normalized: NormalizedToolRow,
+  sheetName: string,
+  anomalies: ValidationAnomaly[],
+  debug = false,
+): ToolEntity[] {
+  const { sides, split, fallback, requireEquipmentNo, checkToolingConsistency } = schema.entities
+  const entities: ToolEntity[] = []
+
+  const sideValues = sides.map((side) => ({
+    tooling: normalized[side.tooling],
+    equipmentNo: normalized[side.equipmentNo],
+    equipmentField: side.equipmentNo,
+  }))
+  const withTooling = sideValues.filter((side) => side.tooling.length > 0)
+
+  if (checkToolingConsistency) {
+    for (const { tooling } of withTooling) {
+      checkToolingAnomalies(normalized, tooling, anomalies)
+    }
+  }
+
+  const createEntity = (canonicalKey: string, toolings: string[], equipmentNo: string) =>
+    buildEntity(schema, normalized, sheetName, canonicalKey, toolings, equipmentNo)
+
+  if (withTooling.length === 0 && fallback === 'fides') {
+    const seen = new Set<EquipmentNoField>()
+    for (const side of sideValues) {
+      if (seen.has(side.equipmentField) || !side.equipmentNo) continue
+      seen.add(side.equipmentField)
+
+      const canonicalKey = buildFordStyleCanonicalKey(schema.keyPrefix, '', side.equipmentNo)
+      if (canonicalKey) {
+        entities.push(createEntity(canonicalKey, [], side.equipmentNo))
+      }
+
+      const label = schema.fields[side.equipmentField]?.[0] ?? side.equipmentField
+      anomalies.push({
+        type: 'EQUIPMENT_NO_BUT_NO_TOOLING',
+        row: normalized.rawRowIndex,
+        message: `${label} present but no tooling numbers: equipNo=${side.equipmentNo}`,
+        data: { equipNo: side.equipmentNo },
+      })
+    }
+    return logEntities(schema, normalized, entities, debug)
+  }
+
+  if (requireEquipmentNo && !sideValues.some((side) => side.equipmentNo)) {
+    return entities
+  }
+
+  if (withTooling.length === 0) {
+    const equipmentNo = sideValues[0]?.equipmentNo ?? ''
+    const canonicalKey = buildLocationCanonicalKey(
+      schema.keyPrefix,
+      normalized.areaName,
+      normalized.stationAtomic,
+      equipmentNo,
+      normalized.equipmentType,
+      normalized.rawRowIndex,
+    )
+    entities.push(createEntity(canonicalKey, [], equipmentNo))
+  } else if (split === 'perTooling' || withTooling.length === sideValues.length) {
+    for (const side of withTooling) {
+      const canonicalKey = buildFordStyleCanonicalKey(schema.keyPrefix, side.tooling, '')
+      if (canonicalKey) {
+        entities.push(createEntity(canonicalKey, [side.tooling], side.equipmentNo))
+      }
+    }
+  } else {
+    const primary = withTooling[0]
+    const canonicalKey = buildFordStyleCanonicalKey(schema.keyPrefix, primary.tooling, '')
+    if (canonicalKey) {
+      entities.push(
+        createEntity(
+          canonicalKey,
+          withTooling.map((side) => side.tooling),
+          primary.equipmentNo,
+        ),
+      )
+    }
+  }
+
+  return logEntities(schema, normalized, entities, debug)
+}
+
+function checkToolingAnomalies(
+  normalized: NormalizedToolRow,
+  toolingNumber: string,
+  anomalies: ValidationAnomaly[],
+): void {
+  if (checkToolingAreaMismatch(toolingNumber, normalized.areaName)) {
+    anomalies.push({
+      type: 'TOOLING_PREFIX_MISMATCH',
+      row: normalized.rawRowIndex,
+      message: `Tooling prefix does not match area prefix: tooling=${toolingNumber}, area=${normalized.areaName}`,
+      data: { tooling: toolingNumber, area: normalized.areaName },
+    })
+  }
+
+  if (checkToolingStationMismatch(toolingNumber, normalized.stationGroup)) {
+    anomalies.push({
+      type: 'TOOLING_STATION_MISMATCH',
+      row: normalized.rawRowIndex,
+      message: `Tooling station does not start with station group: tooling=${toolingNumber}, station=${normalized.stationGroup}`,
+      data: { tooling: toolingNumber, station: normalized.stationGroup },
+    })
+  }
+}
+
+function buildEntity(
+  schema: ToolListSchemaDefinition,
+  normalized: NormalizedToolRow,
+  sheetName: string,
+  canonicalKey: string,
+  toolings: string[],
+  equipmentNo: string,
+): ToolEntity {
+  const aliases: string[] = []
+
+  for (const part of schema.entities.aliases) {
+    if (part === 'equipmentNo' && equipmentNo) {
+      aliases.push(normalizeCode(equipmentNo))
+    } else if (part === 'tooling') {
+      aliases.push(...toolings.map((tooling) => normalizeCode(tooling)))
+    } else if (part === 'stationGroup' && normalized.stationGroup) {
+      aliases.push(normalizeCode(normalized.stationGroup))
+    } else if (part === 'stationAtomic' && normalized.stationAtomic) {
+      aliases.push(normalizeCode(normalized.stationAtomic))
+    } else if (part === 'areaStation' && normalized.areaName && normalized.stationAtomic) {
+      aliases.push(
+        `${normalizeCode(normalized.areaName)}|${normalizeCode(normalized.stationAtomic)}`,
+      )
+    } else if (part === 'areaPrefix') {
+      const areaPrefix = extractAreaPrefix(normalized.areaName)
+      if (areaPrefix) aliases.push(areaPrefix)
+    }
+  }
+
+  return {
+    canonicalKey,
+    displayCode: buildDisplayCode(
+      toolings[0] ?? '',
+      equipmentNo,
+      normalized.stationAtomic,
+      normalized.equipmentType,
+    ),
+    stationGroup: normalized.stationGroup,
+    stationAtomic: normalized.stationAtomic,
+    areaName: normalized.areaName,
+    aliases,
+    source: {
+      file: normalized.sourceFile,
+      row: normalized.rawRowIndex,
+      sheet: sheetName,
+    },
+    raw: normalized.raw,
+  }
+}
+
+function logEntities(
+  schema: ToolListSchemaDefinition,
+  normalized: NormalizedToolRow,
+  entities: ToolEntity[],
+  debug: boolean,
+): ToolEntity[] {
+  if (debug && entities.length > 0) {
+    log.debug(`[${schema.id}] Row ${normalized.rawRowIndex} produced ${entities.length} entities`)
+    entities.forEach((e) => {
+      log.debug(`  - canonicalKey: ${e.canonicalKey}`)
+      log.debug(`    displayCode: ${e.displayCode}`)
+    })
+  }
+  return entities
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate tool entities and produce report
+ */
+export function validateToolEntities(
+  entities: ToolEntity[],
+  totalRowsRead: number,
+  anomalies: ValidationAnomaly[],
+): ValidationReport {
+  const canonicalKeys = new Set<string>()
+  let missingStationGroupCount = 0
+  let missingToolingNumbersCount = 0
+  let duplicateCanonicalKeys = 0
+
+  entities.forEach((entity) => {
+    if (!entity.stationGroup) {
+      missingStationGroupCount++
+    }
+
+    if (canonicalKeys.has(entity.canonicalKey)) {
+      duplicateCanonicalKeys++
+      anomalies.push({
+        type: 'DUPLICATE_CANONICAL_KEY',
+        row: entity.source.row,
+        message: `Duplicate canonical key: ${entity.canonicalKey}`,
+        data: { canonicalKey: entity.canonicalKey },
+      })
+    }
+    canonicalKeys.add(entity.canonicalKey)
+
+    // Entities without tooling numbers (FIDES-only)
+    if (entity.canonicalKey.includes('FIDES')) {
+      missingToolingNumbersCount++
+    }
+  })
+
+  const deletedRowsSkipped = anomalies.filter((a) => a.type === 'DELETED_ROW').length
+
+  return {
+    totalRowsRead,
+    totalNormalizedRows: totalRowsRead,
+    totalEntitiesProduced: entities.length,
+    deletedRowsSkipped,
+    missingStationGroupCount,
+    missingToolingNumbersCount,
+    headerRowsSkippedCount: 0,
+    duplicateCanonicalKeys,
+    anomalies,
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Tool List Schema Registry
+ *
+ * Built-in schema definitions plus definitions imported at runtime.
+ * Imported definitions are kept in localStorage; one with the id of a
+ * built-in replaces it.
+ */
+
+import bmwJ10735 from './definitions/bmw_j10735.json'
+import fordV801 from './definitions/ford_v801.json'
+import stlaSZar from './definitions/stla_s_zar.json'
+import {
+  ToolListSchemaDefinition,
+  validateToolListSchemaDefinition,
+} from './toolListSchemaDefinition'
+import { log } from '../../lib/log'
+
+// ============================================================================
+// BUILT-IN SCHEMAS
+// ============================================================================
+
+export const BUILT_IN_TOOL_LIST_SCHEMAS = [
+  bmwJ10735,
+  fordV801,
+  stlaSZar,
+] as ToolListSchemaDefinition[]
+
+const STORAGE_KEY = 'simpilot.toolListSchemas.v1'
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+export function getCustomToolListSchemas(): ToolListSchemaDefinition[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    const parsed: unknown = stored ? JSON.parse(stored) : []
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter(
+      (schema): schema is ToolListSchemaDefinition =>
+        validateToolListSchemaDefinition(schema).length === 0,
+    )
+  } catch {
+    log.warn('[ToolListSchemas] Failed to load custom schemas from localStorage')
+    return []
+  }
+}
+
+function saveCustomToolListSchemas(schemas: ToolListSchemaDefinition[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(schemas))
+  } catch {
+    log.warn('[ToolListSchemas] Failed to save custom schemas to localStorage')
+  }
+}
+
+/**
+ * Schemas used for detection: built-ins (or their imported replacements), then imported ones
+ */
+export function getToolListSchemas(): ToolListSchemaDefinition[] {
+  const custom = getCustomToolListSchemas()
+  const customById = new Map(custom.map((schema) => [schema.id, schema]))
+  const builtInIds = new Set(BUILT_IN_TOOL_LIST_SCHEMAS.map((schema) => schema.id))
+
+  return [
+    ...BUILT_IN_TOOL_LIST_SCHEMAS.map((schema) => customById.get(schema.id) ?? schema),
+    ...custom.filter((schema) => !builtInIds.has(schema.id)),
+  ]
+}
+
+export function isBuiltInToolListSchema(id: string): boolean {
+  return BUILT_IN_TOOL_LIST_SCHEMAS.some((schema) => schema.id === id)
+}
+
+/**
+ * Remove an imported schema; a replaced built-in falls back to its bundled definition
+ */
+export function removeCustomToolListSchema(id: string): void {
+  saveCustomToolListSchemas(getCustomToolListSchemas().filter((schema) => schema.id !== id))
+}
+
+// ============================================================================
+// IMPORT / EXPORT
+// ============================================================================
+
+/**
+ * Import one definition or an array of definitions from JSON.
+ * Nothing is stored unless every definition is valid.
+ */
+export function importToolListSchemas(json: string): {
+  success: boolean
+  errorMessage?: string
+  importedIds: string[]
+} {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch (error) {
+    return { success: false, errorMessage: `Invalid JSON: ${String(error)}`, importedIds: [] }
+  }
+
+  const definitions = Array.isArray(parsed) ? parsed : [parsed]
+  if (definitions.length === 0) {
+    return { success: false, errorMessage: 'No schema definitions found', importedIds: [] }
+  }
+
+  const errors = definitions.flatMap(validateToolListSchemaDefinition)
+  if (errors.length > 0) {
+    return { success: false, errorMessage: errors.join('\n'), importedIds: [] }
+  }
+
+  const imported = definitions as ToolListSchemaDefinition[]
+  const importedIds = imported.map((schema) => schema.id)
+  if (new Set(importedIds).size !== importedIds.length) {
+    return { success: false, errorMessage: 'Schema ids must be unique', importedIds: [] }
+  }
+
+  const kept = getCustomToolListSchemas().filter((schema) => !importedIds.includes(schema.id))
+  saveCustomToolListSchemas([...kept, ...imported])
+  log.info(`[ToolListSchemas] Imported ${importedIds.join(', ')}`)
+
+  return { success: true, importedIds }
+}
+
+/**
+ * Definitions as pretty-printed JSON (all schemas in use when no ids are given)
+ */
+export function exportToolListSchemas(ids?: string[]): string {
+  const schemas = getToolListSchemas().filter((schema) => !ids || ids.includes(schema.id))
+  return JSON.stringify(schemas.length === 1 ? schemas[0] : schemas, null, 2)
+}
+
+export function downloadToolListSchemas(ids?: string[]): void {
+  const blob = new Blob([exportToolListSchemas(ids)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = ids?.length === 1 ? `tool-list-schema-${ids[0]}.json` : 'tool-list-schemas.json'
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
@@ -208,29 +208,30 @@ export function loadWorkbookFromBuffer(buffer: ArrayBuffer, fileName: string): N
   }
 
   // Normalize each sheet
-  const sheets: NormalizedSheet[] = []
+  const sheets = parsedWorkbook.sheets.map((sheet) => normalizeSheet(sheet.name, sheet.rows))
 
-  for (const sheet of parsedWorkbook.sheets) {
-    const rawRows = sheet.rows.map((row) => row.map((value) => (value === '' ? null : value)))
+  return { fileName, sheets }
+}
 
-    // Normalize each row
-    const normalizedRows = rawRows.map((row) => normalizeRow(row as unknown[]))
+/**
+ * Normalize the formatted cell text of one sheet.
+ * Shared with the worker parser, which normalizes sheet by sheet.
+ */
+export function normalizeSheet(sheetName: string, rows: string[][]): NormalizedSheet {
+  const rawRows = rows.map((row) => row.map((value) => (value === '' ? null : value)))
 
-    // Remove completely empty trailing rows
-    while (
-      normalizedRows.length > 0 &&
-      normalizedRows[normalizedRows.length - 1].every((cell) => cell === null)
-    ) {
-      normalizedRows.pop()
-    }
+  // Normalize each row
+  const normalizedRows = rawRows.map((row) => normalizeRow(row as unknown[]))
 
-    sheets.push({
-      sheetName: sheet.name,
-      rows: normalizedRows,
-    })
+  // Remove completely empty trailing rows
+  while (
+    normalizedRows.length > 0 &&
+    normalizedRows[normalizedRows.length - 1].every((cell) => cell === null)
+  ) {
+    normalizedRows.pop()
   }
 
-  return { fileName, sheets }
+  return { sheetName, rows: normalizedRows }
 }
 
 /**
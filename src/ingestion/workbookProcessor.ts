@@ -13,6 +13,7 @@ import { parseRobotList } from './robotListParser'
 import { parseToolList } from './toolListParser'
 import { parseAssembliesList } from './assembliesListParser'
 import { createParserErrorWarning } from './warningUtils'
+import { resolveCategorySemanticLayer, SemanticLayerArtifact } from './semanticLayer'
 
 /**
  * Process a single workbook and extract all detected data types.
@@ -35,10 +36,24 @@ export async function processWorkbook(
         tools: undefined
     }
     const warnings: IngestionWarning[] = []
+    const semanticLayers: SemanticLayerArtifact[] = []
 
     // Get all detected sheets
     const detections = getAllDetectedSheets(workbook, fileName)
 
+    const addSemanticLayer = (detection: SheetDetection, parsed?: SemanticLayerArtifact) => {
+        const semanticLayer = resolveCategorySemanticLayer(
+            workbook,
+            fileName,
+            detection.sheetName,
+            detection.category,
+            parsed
+        )
+        if (semanticLayer) {
+            semanticLayers.push(semanticLayer)
+        }
+    }
+
     // Process SIMULATION_STATUS
     const simDetection = detections.get('SIMULATION_STATUS')
     if (simDetection) {
@@ -50,6 +65,7 @@ export async function processWorkbook(
                 ? await parseSimulationStatus(workbook, fileName) // auto-detect & parse all simulation sheets
                 : await parseSimulationStatus(workbook, fileName, simDetection.sheetName)
             ingestedData.simulation = result
+            addSemanticLayer(simDetection, result.semanticLayer)
             warnings.push(...result.warnings)
         } catch (error) {
             warnings.push(createParserErrorWarning({
@@ -66,6 +82,7 @@ export async function processWorkbook(
         try {
             const result = await parseRobotList(workbook, fileName, robotDetection.sheetName)
             ingestedData.robots = result
+            addSemanticLayer(robotDetection, result.semanticLayer)
             warnings.push(...result.warnings)
         } catch (error) {
             warnings.push(createParserErrorWarning({
@@ -93,6 +110,7 @@ export async function processWorkbook(
 
         try {
             const result = await parseToolList(workbook, fileName, toolDetection.sheetName)
+            addSemanticLayer(toolDetection, result.semanticLayer)
 
             if (!ingestedData.tools) {
                 ingestedData.tools = result
@@ -116,6 +134,7 @@ export async function processWorkbook(
     if (assembliesDetection) {
         try {
             const result = await parseAssembliesList(workbook, fileName, assembliesDetection.sheetName)
+            addSemanticLayer(assembliesDetection, result.semanticLayer)
 
             if (!ingestedData.tools) {
                 ingestedData.tools = result
@@ -134,5 +153,15 @@ export async function processWorkbook(
         }
     }
 
+    // METADATA has no parser yet; its headers are still mapped
+    const metadataDetection = detections.get('METADATA')
+    if (metadataDetection) {
+        addSemanticLayer(metadataDetection)
+    }
+
+    if (semanticLayers.length > 0) {
+        ingestedData.semanticLayers = semanticLayers
+    }
+
     return { ingestedData, warnings, detections }
 }
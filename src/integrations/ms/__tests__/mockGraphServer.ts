@@ -0,0 +1,138 @@
+// Mock Graph Server
+// Minimal local stand-in for the Graph drive endpoints used by folder sync:
+// root:/{path}:/children, items/{id}/children and items/{id}/content
+
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { MsGraphConnection } from '../msGraphClient'
+
+export interface MockDriveFile {
+  id: string
+  name: string
+  content: string
+  eTag: string
+  lastModifiedDateTime: string
+}
+
+export interface MockDriveFolder {
+  id: string
+  name: string
+  children: MockDriveNode[]
+}
+
+export type MockDriveNode = MockDriveFile | MockDriveFolder
+
+const isFolder = (node: MockDriveNode): node is MockDriveFolder => 'children' in node
+
+export interface MockGraphServer {
+  connection: MsGraphConnection
+  /** Replace the drive contents between syncs */
+  setRoot: (children: MockDriveNode[]) => void
+  /** Answer content requests for these item ids with 500 */
+  failDownloads: (ids: string[]) => void
+  /** Request paths served, in order */
+  requests: string[]
+  close: () => Promise<void>
+}
+
+const SITE_ID = 'site-1'
+const DRIVE_ID = 'drive-1'
+const ROOT_PATH = 'Shared Documents/SimPilot'
+const PAGE_SIZE = 2
+
+export async function startMockGraphServer(root: MockDriveNode[]): Promise<MockGraphServer> {
+  let rootChildren = root
+  let failingIds = new Set<string>()
+  const requests: string[] = []
+
+  const findNode = (nodes: MockDriveNode[], id: string): MockDriveNode | undefined => {
+    for (const node of nodes) {
+      if (node.id === id) return node
+      if (isFolder(node)) {
+        const found = findNode(node.children, id)
+        if (found) return found
+      }
+    }
+    return undefined
+  }
+
+  const toGraphItem = (node: MockDriveNode, baseUrl: string) =>
+    isFolder(node)
+      ? { id: node.id, name: node.name, webUrl: `${baseUrl}/web/${node.id}`, folder: {} }
+      : {
+          id: node.id,
+          name: node.name,
+          webUrl: `${baseUrl}/web/${node.id}`,
+          eTag: node.eTag,
+          lastModifiedDateTime: node.lastModifiedDateTime,
+          size: node.content.length,
+          file: {},
+        }
+
+  const server: Server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    requests.push(decodeURIComponent(url.pathname))
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+    const drivePrefix = `/sites/${SITE_ID}/drives/${DRIVE_ID}`
+
+    if (req.headers.authorization !== 'Bearer test-token') {
+      res.writeHead(401).end()
+      return
+    }
+
+    const sendChildren = (children: MockDriveNode[]) => {
+      // Page results so clients must follow @odata.nextLink
+      const skip = Number(url.searchParams.get('skip') ?? 0)
+      const page = children.slice(skip, skip + PAGE_SIZE)
+      const body: Record<string, unknown> = { value: page.map((n) => toGraphItem(n, baseUrl)) }
+      if (skip + PAGE_SIZE < children.length) {
+        body['@odata.nextLink'] = `${baseUrl}${url.pathname}?skip=${skip + PAGE_SIZE}`
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body))
+    }
+
+    const path = decodeURIComponent(url.pathname)
+    if (path === `${drivePrefix}/root:/${ROOT_PATH}:/children`) {
+      sendChildren(rootChildren)
+      return
+    }
+
+    const itemMatch = path.match(new RegExp(`^${drivePrefix}/items/([^/]+)/(children|content)$`))
+    const node = itemMatch ? findNode(rootChildren, itemMatch[1]) : undefined
+    if (node && itemMatch?.[2] === 'children' && isFolder(node)) {
+      sendChildren(node.children)
+      return
+    }
+    if (node && itemMatch?.[2] === 'content' && failingIds.has(node.id)) {
+      res.writeHead(500).end()
+      return
+    }
+    if (node && itemMatch?.[2] === 'content' && !isFolder(node)) {
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(node.content)
+      return
+    }
+
+    res.writeHead(404).end()
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    connection: {
+      baseUrl: `http://127.0.0.1:${port}`,
+      siteId: SITE_ID,
+      driveId: DRIVE_ID,
+      rootPath: `/${ROOT_PATH}/`,
+      token: 'test-token',
+    },
+    setRoot: (children) => {
+      rootChildren = children
+    },
+    failDownloads: (ids) => {
+      failingIds = new Set(ids)
+    },
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,209 @@
+// @vitest-environment node
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createEmptySyncState, runSharePointSync, summarizeSyncReport } from '../sharePointSync'
+import { startMockGraphServer, type MockDriveNode, type MockGraphServer } from './mockGraphServer'
+import type {
+  IngestFilesInputV2,
+  IngestFilesResultV2,
+} from '../../../ingestion/ingestionCoordinatorV2'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const file = (id: string, name: string, content: string, eTag = `"${id}-1"`): MockDriveNode => ({
+  id,
+  name,
+  content,
+  eTag,
+  lastModifiedDateTime: '2026-05-01T08:00:00Z',
+})
+
+const drive = (): MockDriveNode[] => [
+  file('status', 'Simulation Status.xlsx', 'status v1'),
+  file('notes', 'notes.docx', 'not a workbook'),
+  {
+    id: 'front',
+    name: 'Front Unit',
+    children: [
+      file('tools', 'Tool List.xlsx', 'tools v1'),
+      file('robots', 'Robot List.xlsm', 'robots v1'),
+      { id: 'archive', name: 'Archive', children: [file('old', 'Old Status.xlsx', 'old v1')] },
+    ],
+  },
+]
+
+const ingestResult = (): IngestFilesResultV2 => ({
+  runResult: {} as IngestFilesResultV2['runResult'],
+  projectsCount: 1,
+  areasCount: 1,
+  cellsCount: 2,
+  robotsCount: 3,
+  toolsCount: 4,
+  warnings: [],
+})
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('runSharePointSync', () => {
+  let server: MockGraphServer
+  const ingest = vi.fn(async (_input: IngestFilesInputV2) => ingestResult())
+
+  beforeEach(async () => {
+    ingest.mockClear()
+    server = await startMockGraphServer(drive())
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('walks subfolders across pages and ingests every workbook on first sync', async () => {
+    const { report, state } = await runSharePointSync(createEmptySyncState(), {
+      connection: server.connection,
+      ingest,
+    })
+
+    expect(report.ingestedFiles.sort()).toEqual([
+      'Front Unit/Archive/Old Status.xlsx',
+      'Front Unit/Robot List.xlsm',
+      'Front Unit/Tool List.xlsx',
+      'Simulation Status.xlsx',
+    ])
+    expect(ingest).toHaveBeenCalledTimes(1)
+    expect(ingest.mock.calls[0][0].fileSources).toMatchObject({
+      'Front Unit/Tool List.xlsx': 'MS365',
+    })
+    expect(summarizeSyncReport(report)).toMatchObject({ new: 4, failed: 0 })
+    expect(state.entries.tools).toMatchObject({
+      path: 'Front Unit/Tool List.xlsx',
+      eTag: '"tools-1"',
+    })
+    expect(state.entries.tools.sha256).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('only downloads workbooks whose eTag changed and re-ingests the folder when content changed', async () => {
+    const first = await runSharePointSync(createEmptySyncState(), {
+      connection: server.connection,
+      ingest,
+    })
+    ingest.mockClear()
+
+    // Tool list edited, robot list re-saved unchanged, archive removed
+    const next = drive()
+    const front = next[2] as Extract<MockDriveNode, { children: unknown }>
+    front.children = [
+      file('tools', 'Tool List.xlsx', 'tools v2', '"tools-2"'),
+      file('robots', 'Robot List.xlsm', 'robots v1', '"robots-2"'),
+    ]
+    server.setRoot(next)
+    server.requests.length = 0
+
+    const { report, state } = await runSharePointSync(first.state, {
+      connection: server.connection,
+      ingest,
+    })
+
+    expect(ingest).toHaveBeenCalledTimes(1)
+    expect(ingest.mock.calls[0][0].files.map((f) => f.name)).toEqual([
+      'Simulation Status.xlsx',
+      'Front Unit/Tool List.xlsx',
+      'Front Unit/Robot List.xlsm',
+    ])
+    expect(report.ingestedFiles).toEqual(['Front Unit/Tool List.xlsx'])
+    expect(summarizeSyncReport(report)).toMatchObject({
+      modified: 1,
+      'content-unchanged': 1,
+      unchanged: 1,
+    })
+    expect(report.removedPaths).toEqual(['Front Unit/Archive/Old Status.xlsx'])
+    // Tool and robot lists for change detection, the status workbook for re-ingestion
+    expect(server.requests.filter((p) => p.endsWith('/content'))).toHaveLength(3)
+    expect(state.entries.robots.eTag).toBe('"robots-2"')
+    expect(state.entries.old).toBeUndefined()
+  })
+
+  it('keeps the cells of unchanged workbooks when another workbook changes', async () => {
+    // Like ingestFilesV2, each ingestion replaces the whole store
+    let storeCells: string[] = []
+    const replacingIngest = vi.fn(async (input: IngestFilesInputV2) => {
+      const contents = await Promise.all(input.files.map((f) => f.text()))
+      storeCells = contents.flatMap((c) => c.split(','))
+      return ingestResult()
+    })
+    server.setRoot([
+      file('front', 'Front Status.xlsx', 'F010,F020'),
+      file('rear', 'Rear Status.xlsx', 'R010'),
+    ])
+
+    const first = await runSharePointSync(createEmptySyncState(), {
+      connection: server.connection,
+      ingest: replacingIngest,
+    })
+    server.setRoot([
+      file('front', 'Front Status.xlsx', 'F010,F020'),
+      file('rear', 'Rear Status.xlsx', 'R010,R020', '"rear-2"'),
+    ])
+    const { report } = await runSharePointSync(first.state, {
+      connection: server.connection,
+      ingest: replacingIngest,
+    })
+
+    expect(summarizeSyncReport(report)).toMatchObject({ modified: 1, unchanged: 1 })
+    expect(storeCells.sort()).toEqual(['F010', 'F020', 'R010', 'R020'])
+  })
+
+  it('skips ingestion when an unchanged workbook cannot be downloaded', async () => {
+    const first = await runSharePointSync(createEmptySyncState(), {
+      connection: server.connection,
+      ingest,
+    })
+    ingest.mockClear()
+
+    const next = drive()
+    const front = next[2] as Extract<MockDriveNode, { children: unknown }>
+    front.children = [file('tools', 'Tool List.xlsx', 'tools v2', '"tools-2"')]
+    server.setRoot(next)
+    server.failDownloads(['status'])
+
+    const { report, state } = await runSharePointSync(first.state, {
+      connection: server.connection,
+      ingest,
+    })
+
+    expect(ingest).not.toHaveBeenCalled()
+    expect(report.errorMessage).toBe('Download failed: Simulation Status.xlsx')
+    expect(state.entries.tools.eTag).toBe('"tools-1"')
+  })
+
+  it('keeps previous entries when ingestion fails so the next sync retries', async () => {
+    const failing = vi.fn(async () => {
+      throw new Error('Parser exploded')
+    })
+
+    const { report, state } = await runSharePointSync(createEmptySyncState(), {
+      connection: server.connection,
+      ingest: failing,
+    })
+
+    expect(report.errorMessage).toBe('Parser exploded')
+    expect(report.ingestedFiles).toEqual([])
+    expect(summarizeSyncReport(report).failed).toBe(4)
+    expect(state.entries).toEqual({})
+  })
+
+  it('reports a listing failure without touching the sync state', async () => {
+    const previous = { entries: {}, lastSyncAt: '2026-05-01T00:00:00Z' }
+    const { report, state } = await runSharePointSync(previous, {
+      connection: { ...server.connection, token: 'expired' },
+      ingest,
+    })
+
+    expect(report.errorMessage).toMatch(/401/)
+    expect(state).toBe(previous)
+    expect(ingest).not.toHaveBeenCalled()
+  })
+})
@@ -8,8 +8,11 @@ export interface MsConfig {
     sharePointSiteId: string
     sharePointDriveId: string
     sharePointRootPath: string
+    graphBaseUrl: string
 }
 
+export const DEFAULT_GRAPH_BASE_URL = 'https://graph.microsoft.com/v1.0'
+
 export function getMsConfig(): MsConfig {
     const {
         msClientId,
@@ -17,7 +20,8 @@ export function getMsConfig(): MsConfig {
         msRedirectUri,
         msSharePointSiteId,
         msSharePointDriveId,
-        msSharePointRootPath
+        msSharePointRootPath,
+        msGraphBaseUrl
     } = envConfig
 
     if (!msClientId || !msTenantId) {
@@ -29,6 +33,7 @@ export function getMsConfig(): MsConfig {
             sharePointSiteId: '',
             sharePointDriveId: '',
             sharePointRootPath: '',
+            graphBaseUrl: DEFAULT_GRAPH_BASE_URL,
         }
     }
 
@@ -40,5 +45,6 @@ export function getMsConfig(): MsConfig {
         sharePointSiteId: msSharePointSiteId || '',
         sharePointDriveId: msSharePointDriveId || '',
         sharePointRootPath: msSharePointRootPath || '/Shared Documents/',
+        graphBaseUrl: (msGraphBaseUrl || DEFAULT_GRAPH_BASE_URL).replace(/\/+$/, ''),
     }
 }
@@ -8,82 +8,178 @@ export interface MsDriveItem {
   webUrl: string
   isFolder: boolean
   lastModifiedDateTime?: string
+  eTag?: string
+  size?: number
+  /** Path relative to the configured root folder, e.g. "Front Unit/Status.xlsx" */
+  path?: string
 }
 
 export type MsExcelFileItem = MsDriveItem
 
-export async function listExcelFilesInConfiguredFolder(): Promise<MsExcelFileItem[]> {
+/**
+ * Everything needed to talk to the configured drive. Tests pass their own
+ * connection to target a local mock Graph server.
+ */
+export interface MsGraphConnection {
+  baseUrl: string
+  siteId: string
+  driveId: string
+  rootPath: string
+  token: string
+}
+
+interface GraphDriveItem {
+  id: string
+  name: string
+  webUrl: string
+  folder?: unknown
+  lastModifiedDateTime?: string
+  eTag?: string
+  size?: number
+}
+
+/**
+ * Resolve the configured drive and a Graph token, or undefined if MS
+ * integration is disabled or the user is not signed in
+ */
+export async function resolveGraphConnection(): Promise<MsGraphConnection | undefined> {
   const config = getMsConfig()
-  if (!config.enabled) return []
+  if (!config.enabled) return undefined
 
   const token = await acquireMsGraphToken()
-  if (!token) return []
+  if (!token) return undefined
 
-  const { sharePointSiteId, sharePointDriveId, sharePointRootPath } = config
+  return {
+    baseUrl: config.graphBaseUrl,
+    siteId: config.sharePointSiteId,
+    driveId: config.sharePointDriveId,
+    rootPath: config.sharePointRootPath,
+    token,
+  }
+}
+
+function getDriveUrl(connection: MsGraphConnection): string {
+  return `${connection.baseUrl}/sites/${connection.siteId}/drives/${connection.driveId}`
+}
 
-  // Construct path. Ensure it starts/ends correctly if needed.
+function getRootChildrenUrl(connection: MsGraphConnection): string {
   // Graph API format: /drives/{drive-id}/root:/{path-relative-to-root}:/children
-  // If path is just "/", it might be /root/children
+  // If path is just "/", it is /root/children
+  const cleanPath = connection.rootPath.replace(/^\/+|\/+$/g, '')
+  if (!cleanPath) {
+    return `${getDriveUrl(connection)}/root/children`
+  }
+  return `${getDriveUrl(connection)}/root:/${cleanPath}:/children`
+}
 
-  let url = `https://graph.microsoft.com/v1.0/sites/${sharePointSiteId}/drives/${sharePointDriveId}/root/children`
+function isExcelFileName(name: string): boolean {
+  const lower = name.toLowerCase()
+  return lower.endsWith('.xlsx') || lower.endsWith('.xlsm')
+}
 
-  if (sharePointRootPath && sharePointRootPath !== '/') {
-    // Remove leading/trailing slashes for cleaner interpolation if needed,
-    // but Graph expects :/path:/ format.
-    const cleanPath = sharePointRootPath.replace(/^\/+|\/+$/g, '')
-    url = `https://graph.microsoft.com/v1.0/sites/${sharePointSiteId}/drives/${sharePointDriveId}/root:/${cleanPath}:/children`
+function toDriveItem(item: GraphDriveItem, parentPath: string): MsDriveItem {
+  return {
+    id: item.id,
+    name: item.name,
+    webUrl: item.webUrl,
+    isFolder: !!item.folder,
+    lastModifiedDateTime: item.lastModifiedDateTime,
+    eTag: item.eTag,
+    size: item.size,
+    path: parentPath ? `${parentPath}/${item.name}` : item.name,
   }
+}
 
-  try {
-    const response = await fetch(url, {
+/**
+ * Fetch all children of a folder, following @odata.nextLink pages
+ * @throws {Error} If Graph returns a non-OK response
+ */
+async function fetchAllChildren(url: string, token: string): Promise<GraphDriveItem[]> {
+  const items: GraphDriveItem[] = []
+  let nextUrl: string | undefined = url
+
+  while (nextUrl) {
+    const response: Response = await fetch(nextUrl, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
     })
 
     if (!response.ok) {
-      log.error('Graph API error', response.statusText)
-      return []
+      throw new Error(`Graph API error: ${response.status} ${response.statusText}`)
     }
 
-    const data = await response.json()
-    const items: any[] = data.value || []
+    const data: { value?: GraphDriveItem[]; '@odata.nextLink'?: string } = await response.json()
+    items.push(...(data.value || []))
+    nextUrl = data['@odata.nextLink']
+  }
+
+  return items
+}
+
+export async function listExcelFilesInConfiguredFolder(): Promise<MsExcelFileItem[]> {
+  const connection = await resolveGraphConnection()
+  if (!connection) return []
+
+  try {
+    const items = await fetchAllChildren(getRootChildrenUrl(connection), connection.token)
 
     return items
-      .filter((item) => {
-        // Filter out folders
-        if (item.folder) return false
-        // Filter for Excel files
-        const name = item.name.toLowerCase()
-        return name.endsWith('.xlsx') || name.endsWith('.xlsm')
-      })
-      .map((item) => ({
-        id: item.id,
-        name: item.name,
-        webUrl: item.webUrl,
-        isFolder: !!item.folder,
-        lastModifiedDateTime: item.lastModifiedDateTime,
-      }))
+      .filter((item) => !item.folder && isExcelFileName(item.name))
+      .map((item) => toDriveItem(item, ''))
   } catch (error) {
     log.error('Failed to list files', error)
     return []
   }
 }
 
-export async function downloadFileAsBlob(itemId: string): Promise<Blob | undefined> {
-  const config = getMsConfig()
-  if (!config.enabled) return undefined
+/**
+ * List Excel files in the configured folder and all of its subfolders
+ *
+ * @throws {Error} If any folder listing fails, so a sync never mistakes a
+ * failed listing for deleted files
+ */
+export async function listExcelFilesRecursive(
+  connection: MsGraphConnection,
+): Promise<MsExcelFileItem[]> {
+  const files: MsExcelFileItem[] = []
+  const queue: Array<{ url: string; path: string }> = [
+    { url: getRootChildrenUrl(connection), path: '' },
+  ]
+
+  while (queue.length > 0) {
+    const folder = queue.shift()!
+    const children = await fetchAllChildren(folder.url, connection.token)
+
+    for (const child of children) {
+      const item = toDriveItem(child, folder.path)
+      if (item.isFolder) {
+        queue.push({
+          url: `${getDriveUrl(connection)}/items/${child.id}/children`,
+          path: item.path!,
+        })
+      } else if (isExcelFileName(item.name)) {
+        files.push(item)
+      }
+    }
+  }
 
-  const token = await acquireMsGraphToken()
-  if (!token) return undefined
+  return files
+}
 
-  const { sharePointSiteId, sharePointDriveId } = config
-  const url = `https://graph.microsoft.com/v1.0/sites/${sharePointSiteId}/drives/${sharePointDriveId}/items/${itemId}/content`
+export async function downloadFileAsBlob(
+  itemId: string,
+  connection?: MsGraphConnection,
+): Promise<Blob | undefined> {
+  const resolved = connection ?? (await resolveGraphConnection())
+  if (!resolved) return undefined
+
+  const url = `${getDriveUrl(resolved)}/items/${itemId}/content`
 
   try {
     const response = await fetch(url, {
       headers: {
-        Authorization: `Bearer ${token}`,
+        Authorization: `Bearer ${resolved.token}`,
       },
     })
 
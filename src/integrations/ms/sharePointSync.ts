@@ -0,0 +1,318 @@
+// SharePoint Folder Sync
+// Walks the configured SharePoint folder, detects which workbooks changed
+// since the last sync and re-ingests the folder when any of them did. Change
+// detection is two staged: Graph metadata (eTag / lastModifiedDateTime)
+// decides what to download, the fileTracker SHA-256 hash decides whether to
+// ingest, so a re-saved but identical workbook does not trigger ingestion.
+// Ingestion replaces the store, so unchanged workbooks are ingested again
+// alongside the changed ones; the parse cache spares re-parsing them.
+
+import {
+  MsExcelFileItem,
+  MsGraphConnection,
+  blobToFile,
+  downloadFileAsBlob,
+  listExcelFilesRecursive,
+  resolveGraphConnection,
+} from './msGraphClient'
+import { generateFileHash, trackUploadedFile } from '../../ingestion/fileTracker'
+import {
+  ingestFilesV2,
+  IngestFilesInputV2,
+  IngestFilesResultV2,
+} from '../../ingestion/ingestionCoordinatorV2'
+import { log } from '../../lib/log'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What we remember about a drive item after it was last synced
+ */
+export interface SharePointSyncEntry {
+  itemId: string
+  path: string
+  eTag?: string
+  lastModifiedDateTime?: string
+  sha256: string
+  syncedAt: string
+}
+
+export interface SharePointSyncState {
+  entries: Record<string, SharePointSyncEntry> // keyed by drive item id
+  lastSyncAt?: string
+}
+
+export type SyncItemStatus =
+  | 'new'
+  | 'modified'
+  | 'unchanged' // metadata unchanged, not downloaded
+  | 'content-unchanged' // metadata changed but hash identical, not ingested
+  | 'failed'
+
+export interface SyncReportItem {
+  itemId: string
+  path: string
+  status: SyncItemStatus
+  error?: string
+}
+
+export interface SharePointSyncReport {
+  startedAt: string
+  completedAt: string
+  items: SyncReportItem[]
+  /** Previously synced paths no longer in the folder */
+  removedPaths: string[]
+  /** New and modified workbooks; unchanged ones are re-ingested with them */
+  ingestedFiles: string[]
+  ingestResult?: IngestFilesResultV2
+  errorMessage?: string
+}
+
+export interface SharePointSyncOptions {
+  /** Defaults to the configured drive and the signed-in account */
+  connection?: MsGraphConnection
+  /** Defaults to ingestFilesV2 */
+  ingest?: (input: IngestFilesInputV2) => Promise<IngestFilesResultV2>
+  now?: () => Date
+}
+
+// ============================================================================
+// STATE PERSISTENCE
+// ============================================================================
+
+const STORAGE_KEY = 'simpilot.sharePointSync.v1'
+
+export function createEmptySyncState(): SharePointSyncState {
+  return { entries: {} }
+}
+
+export function loadSyncState(): SharePointSyncState {
+  if (typeof window === 'undefined') return createEmptySyncState()
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return createEmptySyncState()
+    const parsed = JSON.parse(raw)
+    if (parsed && typeof parsed.entries === 'object') return parsed
+  } catch {
+    // ignore parse errors
+  }
+  return createEmptySyncState()
+}
+
+export function saveSyncState(state: SharePointSyncState): void {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+}
+
+export function clearSyncState(): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+// ============================================================================
+// CHANGE DETECTION
+// ============================================================================
+
+/**
+ * Whether Graph metadata says the item may have changed since it was synced.
+ * eTag is authoritative when both sides have one.
+ */
+export function hasDriveItemChanged(
+  item: MsExcelFileItem,
+  entry: SharePointSyncEntry | undefined,
+): boolean {
+  if (!entry) return true
+  if (item.eTag && entry.eTag) return item.eTag !== entry.eTag
+  return item.lastModifiedDateTime !== entry.lastModifiedDateTime
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Sync the configured folder against the previous sync state
+ *
+ * Items whose download or ingestion fails keep their previous entry, so
+ * they are retried on the next sync.
+ */
+export async function runSharePointSync(
+  previous: SharePointSyncState,
+  options: SharePointSyncOptions = {},
+): Promise<{ report: SharePointSyncReport; state: SharePointSyncState }> {
+  const now = options.now ?? (() => new Date())
+  const ingest = options.ingest ?? ingestFilesV2
+  const startedAt = now().toISOString()
+
+  const fail = (errorMessage: string) => ({
+    report: {
+      startedAt,
+      completedAt: now().toISOString(),
+      items: [],
+      removedPaths: [],
+      ingestedFiles: [],
+      errorMessage,
+    },
+    state: previous,
+  })
+
+  const connection = options.connection ?? (await resolveGraphConnection())
+  if (!connection) {
+    return fail('Microsoft 365 is not configured or you are not signed in.')
+  }
+
+  let driveItems: MsExcelFileItem[]
+  try {
+    driveItems = await listExcelFilesRecursive(connection)
+  } catch (error) {
+    log.error('[SharePointSync] Failed to list folder', error)
+    return fail(error instanceof Error ? error.message : 'Failed to list SharePoint folder.')
+  }
+
+  const entries: Record<string, SharePointSyncEntry> = {}
+  const items: SyncReportItem[] = []
+  const downloaded = new Map<string, File>() // keyed by drive item id
+  const queued: Array<{
+    item: MsExcelFileItem
+    file: File
+    sha256: string
+    status: SyncItemStatus
+  }> = []
+
+  for (const item of driveItems) {
+    const path = item.path ?? item.name
+    const entry = previous.entries[item.id]
+
+    if (!hasDriveItemChanged(item, entry)) {
+      entries[item.id] = { ...entry!, path }
+      items.push({ itemId: item.id, path, status: 'unchanged' })
+      continue
+    }
+
+    const blob = await downloadFileAsBlob(item.id, connection)
+    if (!blob) {
+      if (entry) entries[item.id] = entry
+      items.push({ itemId: item.id, path, status: 'failed', error: 'Download failed' })
+      continue
+    }
+
+    // Named by path so same-named workbooks in different folders stay apart
+    const file = blobToFile(blob, path)
+    const sha256 = await generateFileHash(file)
+    downloaded.set(item.id, file)
+    const metadata = {
+      itemId: item.id,
+      path,
+      eTag: item.eTag,
+      lastModifiedDateTime: item.lastModifiedDateTime,
+      sha256,
+      syncedAt: startedAt,
+    }
+
+    if (entry && entry.sha256 === sha256) {
+      entries[item.id] = metadata
+      items.push({ itemId: item.id, path, status: 'content-unchanged' })
+      continue
+    }
+
+    if (entry) entries[item.id] = entry
+    queued.push({ item, file, sha256, status: entry ? 'modified' : 'new' })
+  }
+
+  let ingestResult: IngestFilesResultV2 | undefined
+  let ingestError: string | undefined
+
+  if (queued.length > 0) {
+    // Every workbook already in the store is ingested again, or the
+    // replacement would drop its data; skip ingestion if one is unavailable
+    const files: File[] = []
+    const fileSources: IngestFilesInputV2['fileSources'] = {}
+    for (const item of driveItems) {
+      const path = item.path ?? item.name
+      let file = downloaded.get(item.id)
+      if (!file && !previous.entries[item.id]) continue
+      if (!file) {
+        const blob = await downloadFileAsBlob(item.id, connection)
+        file = blob ? blobToFile(blob, path) : undefined
+      }
+      if (!file) {
+        ingestError = `Download failed: ${path}`
+        break
+      }
+      files.push(file)
+      fileSources[path] = 'MS365'
+    }
+
+    if (!ingestError) {
+      try {
+        ingestResult = await ingest({ files, fileSources })
+      } catch (error) {
+        log.error('[SharePointSync] Ingestion failed', error)
+        ingestError = error instanceof Error ? error.message : 'Ingestion failed'
+      }
+    }
+  }
+
+  for (const { item, file, sha256, status } of queued) {
+    const path = item.path ?? item.name
+    if (ingestError) {
+      items.push({ itemId: item.id, path, status: 'failed', error: ingestError })
+      continue
+    }
+
+    entries[item.id] = {
+      itemId: item.id,
+      path,
+      eTag: item.eTag,
+      lastModifiedDateTime: item.lastModifiedDateTime,
+      sha256,
+      syncedAt: startedAt,
+    }
+    items.push({ itemId: item.id, path, status })
+    await trackUploadedFile(file, [])
+  }
+
+  const seen = new Set(driveItems.map((i) => i.id))
+  const removedPaths = Object.values(previous.entries)
+    .filter((e) => !seen.has(e.itemId))
+    .map((e) => e.path)
+
+  const completedAt = now().toISOString()
+  log.info('[SharePointSync] Sync complete', {
+    scanned: driveItems.length,
+    ingested: ingestError ? 0 : queued.length,
+    removed: removedPaths.length,
+  })
+
+  return {
+    report: {
+      startedAt,
+      completedAt,
+      items,
+      removedPaths,
+      ingestedFiles: ingestError ? [] : queued.map((q) => q.item.path ?? q.item.name),
+      ingestResult,
+      errorMessage: ingestError,
+    },
+    state: { entries, lastSyncAt: completedAt },
+  }
+}
+
+/**
+ * Count report items per status, for summaries
+ */
+export function summarizeSyncReport(report: SharePointSyncReport): Record<SyncItemStatus, number> {
+  const counts: Record<SyncItemStatus, number> = {
+    new: 0,
+    modified: 0,
+    unchanged: 0,
+    'content-unchanged': 0,
+    failed: 0,
+  }
+  for (const item of report.items) {
+    counts[item.status]++
+  }
+  return counts
+}
@@ -1,5 +1,6 @@
 import { envConfig } from '../../config/env';
-import { log } from '../../lib/log';
+import type { SimBridgeErrorKind } from './simBridgeTypes';
+import { recordSimBridgeRequest } from './simBridgeDiagnostics';
 
 export interface SimBridgeStatus {
     isConnected: boolean;
@@ -7,20 +8,76 @@ export interface SimBridgeStatus {
     activeStudy?: string;
 }
 
+/**
+ * All methods throw SimBridgeRequestError when the server cannot be
+ * reached, does not answer in time or answers with an error status.
+ */
 export interface SimBridgeClient {
     connect(): Promise<boolean>;
     disconnect(): Promise<void>;
     getStatus(): Promise<SimBridgeStatus>;
     loadStudy(path: string): Promise<boolean>;
+    /** Resolves to null for signals the server does not know */
     getSignal(name: string): Promise<any>;
     setSignal(name: string, value: any): Promise<boolean>;
 }
 
+export interface SimBridgeClientOptions {
+    /** Timeout for ordinary requests */
+    timeoutMs?: number;
+    /** Timeout for loading a study, which can take much longer */
+    loadStudyTimeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_LOAD_STUDY_TIMEOUT_MS = 120_000;
+
+/**
+ * Failed SimBridge request with its error kind already classified
+ */
+export class SimBridgeRequestError extends Error {
+    readonly kind: SimBridgeErrorKind;
+    readonly status?: number;
+    readonly path: string;
+
+    constructor(kind: SimBridgeErrorKind, message: string, path: string, status?: number) {
+        super(message);
+        this.name = 'SimBridgeRequestError';
+        this.kind = kind;
+        this.path = path;
+        this.status = status;
+    }
+}
+
+/**
+ * Map an HTTP error status from SimBridge to an error kind
+ */
+export function mapHttpStatusToErrorKind(status: number): SimBridgeErrorKind {
+    switch (status) {
+        case 404:
+        case 410:
+            return 'study_not_found';
+        case 408:
+        case 504:
+            return 'timeout';
+        case 500:
+        case 502:
+        case 503:
+            return 'gateway_unavailable';
+        default:
+            return status >= 400 && status < 500 ? 'invalid_response' : 'unknown';
+    }
+}
+
 class SimBridgeClientImpl implements SimBridgeClient {
     private baseUrl: string;
+    private timeoutMs: number;
+    private loadStudyTimeoutMs: number;
 
-    constructor(baseUrl: string) {
+    constructor(baseUrl: string, options: SimBridgeClientOptions = {}) {
         this.baseUrl = baseUrl;
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.loadStudyTimeoutMs = options.loadStudyTimeoutMs ?? DEFAULT_LOAD_STUDY_TIMEOUT_MS;
     }
 
     private getUrl(path: string): string {
@@ -30,71 +87,117 @@ class SimBridgeClientImpl implements SimBridgeClient {
         return `${base}/${endpoint}`;
     }
 
-    async connect(): Promise<boolean> {
+    /**
+     * Fetch with a timeout, turning every failure into a SimBridgeRequestError
+     */
+    private async request(
+        path: string,
+        init: RequestInit = {},
+        timeoutMs = this.timeoutMs
+    ): Promise<Response> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        const startedAt = Date.now();
+
         try {
-            const response = await fetch(this.getUrl('/health'));
-            return response.ok;
+            const response = await fetch(this.getUrl(path), { ...init, signal: controller.signal });
+            if (!response.ok) {
+                throw new SimBridgeRequestError(
+                    mapHttpStatusToErrorKind(response.status),
+                    `SimBridge returned ${response.status} for ${path}`,
+                    path,
+                    response.status
+                );
+            }
+            recordSimBridgeRequest({ path, durationMs: Date.now() - startedAt, status: response.status });
+            return response;
         } catch (e) {
-            log.error('SimBridge connection failed', e);
-            return false;
+            const error =
+                e instanceof SimBridgeRequestError
+                    ? e
+                    : controller.signal.aborted
+                        ? new SimBridgeRequestError('timeout', `SimBridge did not respond within ${timeoutMs} ms`, path)
+                        : new SimBridgeRequestError(
+                            'network',
+                            `Could not reach SimBridge: ${e instanceof Error ? e.message : String(e)}`,
+                            path
+                        );
+            recordSimBridgeRequest({
+                path,
+                durationMs: Date.now() - startedAt,
+                status: error.status,
+                errorKind: error.kind
+            });
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private async readJson<T>(response: Response, path: string): Promise<T> {
+        try {
+            return await response.json();
+        } catch (_e) {
+            throw new SimBridgeRequestError('invalid_response', `SimBridge sent invalid JSON for ${path}`, path);
         }
     }
 
+    async connect(): Promise<boolean> {
+        await this.request('/health');
+        return true;
+    }
+
     async disconnect(): Promise<void> {
         // No-op for REST
     }
 
     async getStatus(): Promise<SimBridgeStatus> {
-        try {
-            const response = await fetch(this.getUrl('/status'));
-            if (!response.ok) throw new Error('Failed to get status');
-            return await response.json();
-        } catch (_e) {
-            return { isConnected: false, version: 'unknown' };
-        }
+        const response = await this.request('/status');
+        return this.readJson<SimBridgeStatus>(response, '/status');
     }
 
     async loadStudy(path: string): Promise<boolean> {
-        try {
-            const response = await fetch(this.getUrl('/study/load'), {
+        await this.request(
+            '/study/load',
+            {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ path })
-            });
-            return response.ok;
-        } catch (e) {
-            log.error('Failed to load study', e);
-            return false;
-        }
+            },
+            this.loadStudyTimeoutMs
+        );
+        return true;
     }
 
     async getSignal(name: string): Promise<any> {
+        const path = `/signal/${encodeURIComponent(name)}`;
         try {
-            const response = await fetch(this.getUrl(`/signal/${name}`));
-            if (!response.ok) return null;
-            const data = await response.json();
-            return data.value;
+            const response = await this.request(path);
+            const data = await this.readJson<{ value?: unknown }>(response, path);
+            return data.value ?? null;
         } catch (e) {
-            log.error('Failed to get signal', e);
-            return null;
+            if (e instanceof SimBridgeRequestError && e.status === 404) return null;
+            throw e;
         }
     }
 
     async setSignal(name: string, value: any): Promise<boolean> {
-        try {
-            const response = await fetch(this.getUrl('/signal'), {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ name, value })
-            });
-            return response.ok;
-        } catch (e) {
-            log.error('Failed to set signal', e);
-            return false;
-        }
+        await this.request('/signal', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name, value })
+        });
+        return true;
     }
 }
 
+/**
+ * Create a client for a specific SimBridge server (e.g. a local test server)
+ */
+export function createSimBridgeClient(baseUrl: string, options?: SimBridgeClientOptions): SimBridgeClient {
+    return new SimBridgeClientImpl(baseUrl, options);
+}
+
 // Default to localhost:5000 if not configured
 const url = envConfig.simBridgeUrl || 'http://localhost:5000';
-export const simBridgeClient = new SimBridgeClientImpl(url);
+export const simBridgeClient = createSimBridgeClient(url);
@@ -1,20 +1,65 @@
-import { simBridgeClient } from './SimBridgeClient'
+import { simBridgeClient, SimBridgeClient, SimBridgeRequestError } from './SimBridgeClient'
 import {
     SimBridgeServiceState,
+    SimBridgeStudyState,
     SimBridgeError,
     SimBridgeErrorKind
 } from './simBridgeTypes'
-import { recordSimBridgeEvent } from './simBridgeDiagnostics'
-import { inferProjectFromStudyPath, inferCellFromStudyPath } from './simBridgeDomainAdapter'
+import { recordSimBridgeEvent, updateSimBridgeStats } from './simBridgeDiagnostics'
+import {
+    StudyCellCandidate,
+    createStudyCellLink,
+    resolveStudyContext
+} from './simBridgeDomainAdapter'
+import { coreStore } from '../../domain/coreStore'
+import { recordStudyPathUpdate } from '../../domain/changeLogStore'
+
+export interface SimBridgeReconnectOptions {
+    baseDelayMs: number
+    maxDelayMs: number
+    maxAttempts: number
+}
+
+export interface SimBridgeServiceOptions {
+    client?: SimBridgeClient
+    reconnect?: Partial<SimBridgeReconnectOptions>
+}
+
+const DEFAULT_RECONNECT: SimBridgeReconnectOptions = {
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+    maxAttempts: 8
+}
+
+// Error kinds that mean the server is unreachable rather than unhappy
+const CONNECTION_ERROR_KINDS: SimBridgeErrorKind[] = ['network', 'timeout', 'gateway_unavailable']
 
 /**
  * SimBridge Service
  * Safe adapter around the raw client with state management and error mapping.
+ *
+ * Commands that change the simulation (loading a study, writing signals)
+ * run one at a time through a queue. After the first connect, a lost
+ * connection is retried with exponential backoff until it recovers or the
+ * attempt limit is reached.
  */
 export class SimBridgeService {
     private state: SimBridgeServiceState = {
         status: 'unknown'
     }
+    private client: SimBridgeClient
+    private reconnectOptions: SimBridgeReconnectOptions
+    private reconnectTimer: ReturnType<typeof setTimeout> | undefined
+    private reconnectAttempt = 0
+    private autoReconnect = false
+    private queue: Promise<unknown> = Promise.resolve()
+    private queueDepth = 0
+    private listeners = new Set<(state: SimBridgeServiceState) => void>()
+
+    constructor(options: SimBridgeServiceOptions = {}) {
+        this.client = options.client ?? simBridgeClient
+        this.reconnectOptions = { ...DEFAULT_RECONNECT, ...options.reconnect }
+    }
 
     /**
      * Get current state
@@ -23,11 +68,47 @@ export class SimBridgeService {
         return { ...this.state }
     }
 
+    /**
+     * Listen for state changes, including ones from background reconnects
+     */
+    subscribe(listener: (state: SimBridgeServiceState) => void): () => void {
+        this.listeners.add(listener)
+        return () => this.listeners.delete(listener)
+    }
+
     /**
      * Update internal state
      */
     private setState(updates: Partial<SimBridgeServiceState>) {
         this.state = { ...this.state, ...updates }
+
+        if (updates.status === 'connected') {
+            this.resetReconnect()
+        } else if (updates.status === 'degraded' || updates.status === 'disconnected') {
+            this.scheduleReconnect()
+        }
+
+        const snapshot = this.getState()
+        this.listeners.forEach(listener => listener(snapshot))
+    }
+
+    /**
+     * Build study state, linking the study to a cell from the store unless
+     * the caller already knows the cell
+     */
+    private buildStudyState(
+        studyPath: string,
+        ctx?: { projectId?: string; cellId?: string }
+    ): SimBridgeStudyState {
+        const resolved = resolveStudyContext(studyPath, coreStore.getState())
+
+        return {
+            studyPath,
+            loadedAt: new Date().toISOString(),
+            projectId: ctx?.projectId || resolved.projectId,
+            cellId: ctx?.cellId || resolved.cellId,
+            linkCandidates: resolved.candidates
+        }
     }
 
     /**
@@ -36,35 +117,148 @@ export class SimBridgeService {
     private mapError(error: unknown, context: string): SimBridgeError {
         let kind: SimBridgeErrorKind = 'unknown'
         let message = 'An unknown error occurred'
+        let status: number | undefined
 
-        if (error instanceof Error) {
+        if (error instanceof SimBridgeRequestError) {
+            kind = error.kind
+            message = error.message
+            status = error.status
+        } else if (error instanceof Error) {
             message = error.message
-            if (message.includes('fetch') || message.includes('network')) kind = 'network'
-            else if (message.includes('timeout')) kind = 'timeout'
-            else if (message.includes('404')) kind = 'study_not_found'
-            else if (message.includes('500') || message.includes('502')) kind = 'gateway_unavailable'
         }
 
         const typedError: SimBridgeError = {
             kind,
             message,
-            at: new Date().toISOString()
+            at: new Date().toISOString(),
+            status
         }
 
         recordSimBridgeEvent({
             at: new Date().toISOString(),
             type: 'error',
             message: `Error in ${context}: ${message}`,
-            meta: { kind, details: error }
+            meta: { kind, status }
         })
 
         return typedError
     }
 
+    private isConnectionError(error: SimBridgeError): boolean {
+        return CONNECTION_ERROR_KINDS.includes(error.kind)
+    }
+
+    /**
+     * Record a failed request. Losing the server while connected degrades
+     * the connection, which starts the reconnect loop.
+     */
+    private handleRequestError(e: unknown, context: string): SimBridgeError {
+        const error = this.mapError(e, context)
+        if (this.isConnectionError(error) && this.state.status === 'connected') {
+            this.setState({ status: 'degraded', lastError: error })
+        } else {
+            this.setState({ lastError: error })
+        }
+        return error
+    }
+
+    // ========================================================================
+    // RECONNECT
+    // ========================================================================
+
+    private scheduleReconnect() {
+        if (!this.autoReconnect || this.reconnectTimer) return
+
+        const { baseDelayMs, maxDelayMs, maxAttempts } = this.reconnectOptions
+        if (this.reconnectAttempt >= maxAttempts) {
+            recordSimBridgeEvent({
+                at: new Date().toISOString(),
+                type: 'reconnect',
+                message: `Gave up reconnecting after ${maxAttempts} attempts`
+            })
+            this.autoReconnect = false
+            this.state = { ...this.state, reconnect: undefined }
+            updateSimBridgeStats({ nextReconnectAt: undefined })
+            return
+        }
+
+        const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** this.reconnectAttempt)
+        this.reconnectAttempt++
+        const nextAttemptAt = new Date(Date.now() + delay).toISOString()
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined
+            void this.attemptConnect()
+        }, delay)
+
+        this.state = { ...this.state, reconnect: { attempt: this.reconnectAttempt, nextAttemptAt } }
+        updateSimBridgeStats({ reconnectAttempt: this.reconnectAttempt, nextReconnectAt: nextAttemptAt })
+        recordSimBridgeEvent({
+            at: new Date().toISOString(),
+            type: 'reconnect',
+            message: `Reconnect attempt ${this.reconnectAttempt} in ${delay} ms`,
+            meta: { attempt: this.reconnectAttempt, delayMs: delay }
+        })
+    }
+
+    private resetReconnect() {
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+        this.reconnectTimer = undefined
+        if (this.reconnectAttempt > 0) {
+            recordSimBridgeEvent({
+                at: new Date().toISOString(),
+                type: 'reconnect',
+                message: `Reconnected after ${this.reconnectAttempt} attempt(s)`
+            })
+        }
+        this.reconnectAttempt = 0
+        this.state = { ...this.state, reconnect: undefined }
+        updateSimBridgeStats({ reconnectAttempt: 0, nextReconnectAt: undefined })
+    }
+
+    // ========================================================================
+    // COMMAND QUEUE
+    // ========================================================================
+
     /**
-     * Connect to SimBridge
+     * Run a command after every previously queued command has finished
+     */
+    private enqueue<T>(label: string, command: () => Promise<T>): Promise<T> {
+        this.queueDepth++
+        updateSimBridgeStats({ queueDepth: this.queueDepth })
+        if (this.queueDepth > 1) {
+            recordSimBridgeEvent({
+                at: new Date().toISOString(),
+                type: 'queue',
+                message: `Queued ${label} behind ${this.queueDepth - 1} command(s)`
+            })
+        }
+
+        const run = this.queue.then(command)
+        this.queue = run.catch(() => undefined)
+
+        return run.finally(() => {
+            this.queueDepth--
+            updateSimBridgeStats({ queueDepth: this.queueDepth })
+        })
+    }
+
+    // ========================================================================
+    // ACTIONS
+    // ========================================================================
+
+    /**
+     * Connect to SimBridge. Failing to connect keeps retrying in the
+     * background until disconnect() is called.
      */
     async connect(): Promise<SimBridgeServiceState> {
+        this.autoReconnect = true
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+        this.reconnectTimer = undefined
+        return this.attemptConnect()
+    }
+
+    private async attemptConnect(): Promise<SimBridgeServiceState> {
         this.setState({ status: 'connecting' })
         recordSimBridgeEvent({
             at: new Date().toISOString(),
@@ -73,45 +267,51 @@ export class SimBridgeService {
         })
 
         try {
-            const isConnected = await simBridgeClient.connect()
+            await this.client.connect()
 
-            if (isConnected) {
-                this.setState({ status: 'connected', lastError: undefined })
-                recordSimBridgeEvent({
-                    at: new Date().toISOString(),
-                    type: 'connect',
-                    message: 'Connected successfully'
-                })
+            this.setState({ lastError: undefined })
+            recordSimBridgeEvent({
+                at: new Date().toISOString(),
+                type: 'connect',
+                message: 'Server reachable'
+            })
 
-                // Auto-refresh status to get version/study info
-                await this.refreshStatus()
-            } else {
-                const error: SimBridgeError = {
-                    kind: 'gateway_unavailable',
-                    message: 'Could not connect to SimBridge server',
-                    at: new Date().toISOString()
-                }
-                this.setState({ status: 'disconnected', lastError: error })
-                recordSimBridgeEvent({
-                    at: new Date().toISOString(),
-                    type: 'error',
-                    message: 'Connection failed'
-                })
-            }
+            // The status tells whether the bridge itself is connected and
+            // which study is open
+            await this.refreshStatus()
         } catch (e) {
             const error = this.mapError(e, 'connect')
-            this.setState({ status: 'error', lastError: error })
+            this.setState({
+                status: this.isConnectionError(error) ? 'disconnected' : 'error',
+                lastError: error
+            })
         }
 
         return this.getState()
     }
 
+    /**
+     * Stop using SimBridge and cancel any pending reconnect
+     */
+    async disconnect(): Promise<SimBridgeServiceState> {
+        this.autoReconnect = false
+        this.resetReconnect()
+        await this.client.disconnect()
+        this.setState({ status: 'disconnected' })
+        recordSimBridgeEvent({
+            at: new Date().toISOString(),
+            type: 'connect',
+            message: 'Disconnected'
+        })
+        return this.getState()
+    }
+
     /**
      * Refresh status from server
      */
     async refreshStatus(): Promise<SimBridgeServiceState> {
         try {
-            const status = await simBridgeClient.getStatus()
+            const status = await this.client.getStatus()
 
             if (status.isConnected) {
                 this.setState({ status: 'connected' })
@@ -121,12 +321,7 @@ export class SimBridgeService {
                     // Only update if it changed or we didn't have one
                     if (this.state.currentStudy?.studyPath !== status.activeStudy) {
                         this.setState({
-                            currentStudy: {
-                                studyPath: status.activeStudy,
-                                loadedAt: new Date().toISOString(),
-                                projectId: inferProjectFromStudyPath(status.activeStudy),
-                                cellId: inferCellFromStudyPath(status.activeStudy)
-                            }
+                            currentStudy: this.buildStudyState(status.activeStudy)
                         })
                     }
                 } else {
@@ -145,14 +340,22 @@ export class SimBridgeService {
             }
         } catch (e) {
             const error = this.mapError(e, 'refreshStatus')
-            this.setState({ status: 'error', lastError: error })
+            if (!this.isConnectionError(error)) {
+                this.setState({ status: 'error', lastError: error })
+            } else {
+                this.setState({
+                    status: this.state.status === 'connected' ? 'degraded' : 'disconnected',
+                    lastError: error
+                })
+            }
         }
 
         return this.getState()
     }
 
     /**
-     * Load a study
+     * Load a study. Loads are queued, so the last requested study is the
+     * one that ends up open.
      */
     async loadStudy(path: string, ctx?: { projectId?: string; cellId?: string }): Promise<SimBridgeServiceState> {
         if (!path.trim()) {
@@ -165,25 +368,20 @@ export class SimBridgeService {
             return this.getState()
         }
 
-        recordSimBridgeEvent({
-            at: new Date().toISOString(),
-            type: 'loadStudy',
-            message: `Loading study: ${path}`,
-            meta: { ctx }
-        })
+        return this.enqueue(`loadStudy(${path})`, async () => {
+            recordSimBridgeEvent({
+                at: new Date().toISOString(),
+                type: 'loadStudy',
+                message: `Loading study: ${path}`,
+                meta: { ctx }
+            })
 
-        try {
-            const success = await simBridgeClient.loadStudy(path)
+            try {
+                await this.client.loadStudy(path)
 
-            if (success) {
                 this.setState({
                     status: 'connected',
-                    currentStudy: {
-                        studyPath: path,
-                        loadedAt: new Date().toISOString(),
-                        projectId: ctx?.projectId || inferProjectFromStudyPath(path),
-                        cellId: ctx?.cellId || inferCellFromStudyPath(path)
-                    },
+                    currentStudy: this.buildStudyState(path, ctx),
                     lastError: undefined
                 })
 
@@ -192,23 +390,31 @@ export class SimBridgeService {
                     type: 'loadStudy',
                     message: 'Study loaded successfully'
                 })
-            } else {
-                const error: SimBridgeError = {
-                    kind: 'study_not_found', // Assumption based on simple boolean return
-                    message: 'Failed to load study (server returned false)',
-                    at: new Date().toISOString()
-                }
-                this.setState({ lastError: error })
-                recordSimBridgeEvent({
-                    at: new Date().toISOString(),
-                    type: 'error',
-                    message: 'Load study failed'
-                })
+            } catch (e) {
+                this.handleRequestError(e, 'loadStudy')
             }
-        } catch (e) {
-            const error = this.mapError(e, 'loadStudy')
-            this.setState({ lastError: error })
-        }
+
+            return this.getState()
+        })
+    }
+
+    /**
+     * Confirm which cell the current study belongs to and persist the link
+     */
+    confirmStudyLink(candidate: StudyCellCandidate, confirmedBy?: string): SimBridgeServiceState {
+        const study = this.state.currentStudy
+        if (!study) return this.getState()
+
+        recordStudyPathUpdate(candidate.cellId, study.studyPath, confirmedBy)
+        coreStore.upsertStudyLink(createStudyCellLink(study.studyPath, candidate, confirmedBy))
+        this.setState({ currentStudy: this.buildStudyState(study.studyPath) })
+
+        recordSimBridgeEvent({
+            at: new Date().toISOString(),
+            type: 'loadStudy',
+            message: `Linked study to cell ${candidate.cellLabel}`,
+            meta: { studyPath: study.studyPath, cellId: candidate.cellId, confidence: candidate.confidence }
+        })
 
         return this.getState()
     }
@@ -218,7 +424,7 @@ export class SimBridgeService {
      */
     async getSignal(name: string): Promise<number | string | boolean | null> {
         try {
-            const value = await simBridgeClient.getSignal(name)
+            const value = await this.client.getSignal(name)
             recordSimBridgeEvent({
                 at: new Date().toISOString(),
                 type: 'signalRead',
@@ -227,7 +433,7 @@ export class SimBridgeService {
             })
             return value
         } catch (e) {
-            this.mapError(e, `getSignal(${name})`)
+            this.handleRequestError(e, `getSignal(${name})`)
             return null
         }
     }
@@ -236,17 +442,19 @@ export class SimBridgeService {
      * Set a signal value
      */
     async setSignal(name: string, value: number | string | boolean): Promise<void> {
-        try {
-            await simBridgeClient.setSignal(name, value)
-            recordSimBridgeEvent({
-                at: new Date().toISOString(),
-                type: 'signalWrite',
-                message: `Set signal ${name}`,
-                meta: { value }
-            })
-        } catch (e) {
-            this.mapError(e, `setSignal(${name})`)
-        }
+        await this.enqueue(`setSignal(${name})`, async () => {
+            try {
+                await this.client.setSignal(name, value)
+                recordSimBridgeEvent({
+                    at: new Date().toISOString(),
+                    type: 'signalWrite',
+                    message: `Set signal ${name}`,
+                    meta: { value }
+                })
+            } catch (e) {
+                this.handleRequestError(e, `setSignal(${name})`)
+            }
+        })
     }
 }
 
@@ -0,0 +1,123 @@
+// @vitest-environment node
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createSimBridgeClient, mapHttpStatusToErrorKind } from '../SimBridgeClient'
+import { SimBridgeService } from '../SimBridgeService'
+import {
+  getSimBridgeEvents,
+  getSimBridgeStats,
+  resetSimBridgeDiagnostics,
+} from '../simBridgeDiagnostics'
+import { startFakeSimBridgeServer, type FakeSimBridgeServer } from './fakeSimBridgeServer'
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const start = Date.now()
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition')
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+}
+
+describe('SimBridgeService', () => {
+  let server: FakeSimBridgeServer
+  let service: SimBridgeService
+
+  beforeEach(async () => {
+    resetSimBridgeDiagnostics()
+    server = await startFakeSimBridgeServer({ studies: ['C:/sim/A.psz', 'C:/sim/B.psz'] })
+    service = new SimBridgeService({
+      client: createSimBridgeClient(server.baseUrl, { timeoutMs: 100, loadStudyTimeoutMs: 500 }),
+      reconnect: { baseDelayMs: 10, maxDelayMs: 40, maxAttempts: 4 },
+    })
+  })
+
+  afterEach(async () => {
+    await service.disconnect()
+    await server.close()
+  })
+
+  it('maps HTTP statuses to error kinds', () => {
+    expect([404, 408, 400, 500, 502, 503, 504, 302].map(mapHttpStatusToErrorKind)).toEqual([
+      'study_not_found',
+      'timeout',
+      'invalid_response',
+      'gateway_unavailable',
+      'gateway_unavailable',
+      'gateway_unavailable',
+      'timeout',
+      'unknown',
+    ])
+  })
+
+  it('runs study loads one at a time so the last request wins', async () => {
+    await service.connect()
+    server.setResponseDelay(30)
+
+    const [first, second] = await Promise.all([
+      service.loadStudy('C:/sim/A.psz'),
+      service.loadStudy('C:/sim/B.psz'),
+    ])
+
+    expect(server.maxConcurrentLoads()).toBe(1)
+    expect(server.loadedStudies).toEqual(['C:/sim/A.psz', 'C:/sim/B.psz'])
+    expect(first.currentStudy?.studyPath).toBe('C:/sim/A.psz')
+    expect(second.currentStudy?.studyPath).toBe('C:/sim/B.psz')
+    expect(getSimBridgeStats().queueDepth).toBe(0)
+    expect(getSimBridgeEvents().some((e) => e.type === 'queue')).toBe(true)
+  })
+
+  it('reports a missing study with its HTTP status', async () => {
+    await service.connect()
+    const state = await service.loadStudy('C:/sim/Missing.psz')
+
+    expect(state.status).toBe('connected')
+    expect(state.lastError).toMatchObject({ kind: 'study_not_found', status: 404 })
+  })
+
+  it('times out slow requests and degrades the connection', async () => {
+    await service.connect()
+    server.setResponseDelay(300)
+
+    const value = await service.getSignal('Robot1.Speed')
+
+    expect(value).toBeNull()
+    expect(service.getState().lastError?.kind).toBe('timeout')
+    expect(['degraded', 'connecting']).toContain(service.getState().status)
+    expect(getSimBridgeStats().errorsByKind.timeout).toBe(1)
+  })
+
+  it('reconnects with exponential backoff once the server recovers', async () => {
+    server.setHealthy(false)
+    const states: string[] = []
+    service.subscribe((state) => states.push(state.status))
+
+    const initial = await service.connect()
+    expect(initial.status).toBe('disconnected')
+    expect(initial.lastError).toMatchObject({ kind: 'gateway_unavailable', status: 503 })
+    expect(initial.reconnect?.attempt).toBe(1)
+
+    await waitFor(() => getSimBridgeStats().reconnectAttempt >= 2)
+    server.setHealthy(true)
+    await waitFor(() => service.getState().status === 'connected')
+
+    expect(service.getState().reconnect).toBeUndefined()
+    expect(getSimBridgeStats().reconnectAttempt).toBe(0)
+    const delays = getSimBridgeEvents()
+      .filter((e) => e.type === 'reconnect' && e.meta?.delayMs !== undefined)
+      .map((e) => e.meta?.delayMs)
+      .reverse()
+    expect(delays.slice(0, 2)).toEqual([10, 20])
+    expect(states).toContain('connecting')
+  })
+
+  it('gives up after the attempt limit', async () => {
+    server.setHealthy(false)
+    await service.connect()
+
+    await waitFor(() =>
+      getSimBridgeEvents().some((e) => e.message === 'Gave up reconnecting after 4 attempts'),
+    )
+    expect(service.getState().status).toBe('disconnected')
+    expect(service.getState().reconnect).toBeUndefined()
+  })
+})
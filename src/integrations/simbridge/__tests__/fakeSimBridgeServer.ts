@@ -0,0 +1,127 @@
+// Fake SimBridge Server
+// Minimal local stand-in for the SimBridge REST API used by the client:
+// /health, /status, /study/load and GET/POST /signal
+
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+export type FakeSignalValue = number | string | boolean
+
+export interface FakeSimBridgeServer {
+  baseUrl: string
+  /** Set a signal value as the simulation would */
+  setSignal: (name: string, value: FakeSignalValue) => void
+  /** Delay every response, e.g. to provoke timeouts or overlapping loads */
+  setResponseDelay: (ms: number) => void
+  /** An unhealthy server answers every request with 503 */
+  setHealthy: (healthy: boolean) => void
+  /** Request paths served, in order */
+  requests: string[]
+  /** Study paths in the order their loads finished */
+  loadedStudies: string[]
+  /** Highest number of study loads in progress at the same time */
+  maxConcurrentLoads: () => number
+  close: () => Promise<void>
+}
+
+export interface FakeSimBridgeOptions {
+  signals?: Record<string, FakeSignalValue>
+  /** Studies that exist on the server; any path loads when omitted */
+  studies?: string[]
+}
+
+export async function startFakeSimBridgeServer(
+  options: FakeSimBridgeOptions = {},
+): Promise<FakeSimBridgeServer> {
+  const signals = new Map(Object.entries(options.signals ?? {}))
+  const requests: string[] = []
+  const loadedStudies: string[] = []
+  let activeStudy: string | undefined
+  let responseDelay = 0
+  let healthy = true
+  let activeLoads = 0
+  let maxConcurrentLoads = 0
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+  const readBody = (req: IncomingMessage) =>
+    new Promise<Record<string, unknown>>((resolve) => {
+      let data = ''
+      req.on('data', (chunk) => (data += chunk))
+      req.on('end', () => resolve(data ? JSON.parse(data) : {}))
+    })
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const path = decodeURIComponent(url.pathname)
+    requests.push(path)
+
+    const sendJson = (body: unknown) =>
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body))
+
+    if (path !== '/study/load' && responseDelay > 0) await wait(responseDelay)
+    if (!healthy) {
+      res.writeHead(503).end()
+      return
+    }
+
+    if (path === '/health') {
+      res.writeHead(200).end()
+      return
+    }
+    if (path === '/status') {
+      sendJson({ isConnected: true, version: 'fake-1.0', activeStudy })
+      return
+    }
+    if (path === '/study/load' && req.method === 'POST') {
+      const studyPath = String((await readBody(req)).path)
+      activeLoads++
+      maxConcurrentLoads = Math.max(maxConcurrentLoads, activeLoads)
+      await wait(responseDelay)
+      activeLoads--
+
+      if (options.studies && !options.studies.includes(studyPath)) {
+        res.writeHead(404).end()
+        return
+      }
+      activeStudy = studyPath
+      loadedStudies.push(studyPath)
+      sendJson({ ok: true })
+      return
+    }
+    if (path === '/signal' && req.method === 'POST') {
+      const body = await readBody(req)
+      signals.set(String(body.name), body.value as FakeSignalValue)
+      sendJson({ ok: true })
+      return
+    }
+
+    const signalMatch = path.match(/^\/signal\/(.+)$/)
+    if (signalMatch && signals.has(signalMatch[1])) {
+      sendJson({ name: signalMatch[1], value: signals.get(signalMatch[1]) })
+      return
+    }
+
+    res.writeHead(404).end()
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    setSignal: (name, value) => {
+      signals.set(name, value)
+    },
+    setResponseDelay: (ms) => {
+      responseDelay = ms
+    },
+    setHealthy: (value) => {
+      healthy = value
+    },
+    requests,
+    loadedStudies,
+    maxConcurrentLoads: () => maxConcurrentLoads,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+}
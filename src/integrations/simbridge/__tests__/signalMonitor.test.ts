@@ -0,0 +1,104 @@
+// @vitest-environment node
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createSimBridgeClient } from '../SimBridgeClient'
+import {
+  generateRecordingCsv,
+  parseSignalList,
+  SignalMonitor,
+  toNumericValue,
+} from '../signalMonitor'
+import { startFakeSimBridgeServer, type FakeSimBridgeServer } from './fakeSimBridgeServer'
+
+describe('SignalMonitor', () => {
+  let server: FakeSimBridgeServer
+  let monitor: SignalMonitor
+  let clock: number
+
+  beforeEach(async () => {
+    server = await startFakeSimBridgeServer({ signals: { 'Robot1.Speed': 0, 'Gun/Closed': false } })
+    const client = createSimBridgeClient(server.baseUrl)
+    clock = Date.parse('2026-06-01T08:00:00.000Z')
+    monitor = new SignalMonitor({
+      signals: ['Robot1.Speed', 'Gun/Closed'],
+      intervalMs: 10,
+      read: (name) => client.getSignal(name),
+      maxFrames: 2,
+      now: () => new Date(clock),
+    })
+  })
+
+  afterEach(async () => {
+    monitor.stop()
+    await server.close()
+  })
+
+  it('reads every watched signal from the server on each poll', async () => {
+    const first = await monitor.poll()
+    server.setSignal('Robot1.Speed', 1250.5)
+    server.setSignal('Gun/Closed', true)
+    const second = await monitor.poll()
+
+    expect(first.values).toEqual({ 'Robot1.Speed': 0, 'Gun/Closed': false })
+    expect(second.values).toEqual({ 'Robot1.Speed': 1250.5, 'Gun/Closed': true })
+    expect(server.requests).toContain('/signal/Gun/Closed')
+  })
+
+  it('stores unknown signals as null and keeps a bounded live window', async () => {
+    monitor.setSignals(['Robot1.Speed', 'Missing'])
+    for (let i = 0; i < 3; i++) {
+      server.setSignal('Robot1.Speed', i)
+      await monitor.poll()
+    }
+
+    expect(monitor.getFrames().map((f) => f.values)).toEqual([
+      { 'Robot1.Speed': 1, Missing: null },
+      { 'Robot1.Speed': 2, Missing: null },
+    ])
+  })
+
+  it('records every frame of a session and exports it as CSV', async () => {
+    monitor.startRecording({ name: 'Weld cycle', stationKey: 'UB|010' })
+    for (const speed of [10, 20, 30]) {
+      server.setSignal('Robot1.Speed', speed)
+      await monitor.poll()
+      clock += 500
+    }
+    const recording = monitor.stopRecording()!
+
+    expect(monitor.isRecording()).toBe(false)
+    expect(recording).toMatchObject({ name: 'Weld cycle', stationKey: 'UB|010', intervalMs: 10 })
+    expect(recording.frames).toHaveLength(3)
+    expect(generateRecordingCsv(recording).split('\n')).toEqual([
+      'Timestamp,Elapsed (s),Robot1.Speed,Gun/Closed',
+      '2026-06-01T08:00:00.000Z,0.000,10,false',
+      '2026-06-01T08:00:00.500Z,0.500,20,false',
+      '2026-06-01T08:00:01.000Z,1.000,30,false',
+    ])
+  })
+
+  it('polls continuously until stopped', async () => {
+    monitor.start()
+    await new Promise((resolve) => setTimeout(resolve, 60))
+    monitor.stop()
+    const count = server.requests.length
+    await new Promise((resolve) => setTimeout(resolve, 30))
+
+    expect(count).toBeGreaterThanOrEqual(4)
+    expect(server.requests.length).toBe(count)
+  })
+})
+
+describe('signal helpers', () => {
+  it('parses signal lists and converts values for charting', () => {
+    expect(parseSignalList('A, B\n\nA,C ')).toEqual(['A', 'B', 'C'])
+    expect([true, false, '3.5', 'open', null, 7].map(toNumericValue)).toEqual([
+      1,
+      0,
+      3.5,
+      null,
+      null,
+      7,
+    ])
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import type { Area, Cell, StudyCellLink } from '../../../domain/core'
+import type { StationRecord } from '../../../domain/uidTypes'
+import {
+  createStudyCellLink,
+  rankStudyCellCandidates,
+  resolveStudyContext,
+  StudyLinkSource,
+} from '../simBridgeDomainAdapter'
+
+const areas: Area[] = [
+  { id: 'a-ub', projectId: 'p1', name: 'UNDERBODY' },
+  { id: 'a-fu', projectId: 'p1', name: 'FRONT UNIT' },
+]
+
+function makeCell(id: string, areaId: string, code: string, studyPath?: string): Cell {
+  return {
+    id,
+    projectId: 'p1',
+    areaId,
+    name: `Station ${code}`,
+    code,
+    stationId: `${areaId === 'a-ub' ? 'UNDERBODY' : 'FRONT UNIT'}|${code}`,
+    status: 'InProgress',
+    simulation: studyPath
+      ? {
+          percentComplete: 0,
+          hasIssues: false,
+          metrics: {},
+          sourceFile: 'status.xlsx',
+          sheetName: 'SIMULATION',
+          rowIndex: 1,
+          studyPath,
+        }
+      : undefined,
+  }
+}
+
+function makeSource(overrides: Partial<StudyLinkSource> = {}): StudyLinkSource {
+  return {
+    cells: [
+      makeCell('c-ub-010', 'a-ub', '010', 'C:\\Studies\\Underbody\\UB_ST010.psz'),
+      makeCell('c-ub-020', 'a-ub', '020'),
+      makeCell('c-fu-010', 'a-fu', '010'),
+    ],
+    areas,
+    stationRecords: [],
+    studyLinks: [],
+    ...overrides,
+  }
+}
+
+describe('simBridgeDomainAdapter', () => {
+  it('links an exact study path match reliably', () => {
+    const resolved = resolveStudyContext('c:/studies/underbody/ub_st010.psz', makeSource())
+
+    expect(resolved.cellId).toBe('c-ub-010')
+    expect(resolved.projectId).toBe('p1')
+    expect(resolved.candidates[0]).toMatchObject({ cellId: 'c-ub-010', confidence: 1 })
+  })
+
+  it('ranks station code matches by area and never links them automatically', () => {
+    const source = makeSource({
+      cells: [makeCell('c-ub-020', 'a-ub', '020'), makeCell('c-fu-020', 'a-fu', '020')],
+    })
+    const resolved = resolveStudyContext('D:/Projects/Front Unit/OP20_rev3.psz', source)
+
+    expect(resolved.cellId).toBeUndefined()
+    expect(resolved.candidates.map((c) => [c.cellId, c.confidence])).toEqual([
+      ['c-fu-020', 0.65],
+      ['c-ub-020', 0.5],
+    ])
+    expect(resolved.candidates[0].reasons).toEqual([
+      'Station code 020 in file name',
+      'Area "FRONT UNIT" in path',
+    ])
+  })
+
+  it('prefers registry station labels over bare station codes', () => {
+    const record = {
+      uid: 'st-1',
+      key: 'UNDERBODY|020',
+      plantKey: 'PLANT_A',
+      labels: { fullLabel: 'AL020' },
+      attributes: {},
+      status: 'active',
+      createdAt: '',
+      updatedAt: '',
+    } as StationRecord
+    const candidates = rankStudyCellCandidates(
+      'C:/sim/AL020_weld.psz',
+      makeSource({ stationRecords: [record] }),
+    )
+
+    expect(candidates[0]).toMatchObject({ cellId: 'c-ub-020', confidence: 0.6 })
+    expect(candidates[0].reasons).toEqual(['Station label AL020 in file name'])
+  })
+
+  it('uses a confirmed link over any heuristic', () => {
+    const candidate = rankStudyCellCandidates('C:/sim/ST010.psz', makeSource()).find(
+      (c) => c.cellId === 'c-fu-010',
+    )!
+    const link: StudyCellLink = createStudyCellLink(
+      'C:\\sim\\ST010.psz',
+      candidate,
+      'dale@example.com',
+    )
+
+    const resolved = resolveStudyContext('c:/SIM/st010.psz', makeSource({ studyLinks: [link] }))
+
+    expect(resolved.cellId).toBe('c-fu-010')
+    expect(resolved.candidates[0]).toMatchObject({
+      cellId: 'c-fu-010',
+      isConfirmed: true,
+      reasons: ['Confirmed link by dale@example.com'],
+    })
+  })
+
+  it('returns no candidates for unrelated studies', () => {
+    expect(rankStudyCellCandidates('C:/sim/Layout_Overview.psz', makeSource())).toEqual([])
+    expect(rankStudyCellCandidates('   ', makeSource())).toEqual([])
+  })
+})
@@ -0,0 +1,293 @@
+/**
+ * SimBridge Signal Monitor
+ * Polls a list of signals at a fixed interval, keeps a rolling window of
+ * values for live charts and optionally records every poll into a session
+ * that can be saved and exported.
+ */
+
+import { simBridgeClient } from './SimBridgeClient'
+import { log } from '../../lib/log'
+import { escapeCsvField } from '../../utils/csvExport'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SignalValue = number | string | boolean | null
+
+/**
+ * Values of all watched signals from one poll
+ */
+export interface SignalFrame {
+    at: string // ISO timestamp
+    values: Record<string, SignalValue>
+}
+
+export interface SignalRecording {
+    id: string
+    name: string
+    signals: string[]
+    intervalMs: number
+    startedAt: string
+    endedAt?: string
+    stationKey?: string
+    studyPath?: string
+    frames: SignalFrame[]
+}
+
+export type SignalReader = (name: string) => Promise<SignalValue>
+
+export interface SignalMonitorOptions {
+    signals: string[]
+    intervalMs?: number
+    /** Defaults to the configured SimBridge client */
+    read?: SignalReader
+    /** Size of the live window; recordings keep every frame */
+    maxFrames?: number
+    now?: () => Date
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_POLL_INTERVAL_MS = 1000
+const DEFAULT_MAX_FRAMES = 300
+const SIGNALS_STORAGE_KEY = 'simpilot.simBridgeSignals.v1'
+
+// ============================================================================
+// MONITOR
+// ============================================================================
+
+export class SignalMonitor {
+    private signals: string[]
+    private intervalMs: number
+    private read: SignalReader
+    private maxFrames: number
+    private now: () => Date
+    private frames: SignalFrame[] = []
+    private recording: SignalRecording | undefined
+    private timer: ReturnType<typeof setTimeout> | undefined
+    private running = false
+    private listeners = new Set<() => void>()
+
+    constructor(options: SignalMonitorOptions) {
+        this.signals = options.signals
+        this.intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS
+        this.read = options.read ?? (name => simBridgeClient.getSignal(name))
+        this.maxFrames = options.maxFrames ?? DEFAULT_MAX_FRAMES
+        this.now = options.now ?? (() => new Date())
+    }
+
+    getSignals(): string[] {
+        return [...this.signals]
+    }
+
+    setSignals(signals: string[]): void {
+        this.signals = signals
+        this.notify()
+    }
+
+    setIntervalMs(intervalMs: number): void {
+        this.intervalMs = intervalMs
+    }
+
+    getFrames(): SignalFrame[] {
+        return this.frames
+    }
+
+    isRunning(): boolean {
+        return this.running
+    }
+
+    isRecording(): boolean {
+        return this.recording !== undefined
+    }
+
+    /**
+     * Listen for new frames and state changes
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener)
+        return () => this.listeners.delete(listener)
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener())
+    }
+
+    /**
+     * Read every watched signal once. Failed reads are stored as null.
+     */
+    async poll(): Promise<SignalFrame> {
+        const signals = this.signals
+        const results = await Promise.all(
+            signals.map(async name => {
+                try {
+                    return await this.read(name)
+                } catch (error) {
+                    log.warn(`[SignalMonitor] Failed to read ${name}`, error)
+                    return null
+                }
+            })
+        )
+
+        const values: Record<string, SignalValue> = {}
+        signals.forEach((name, i) => {
+            values[name] = results[i] ?? null
+        })
+
+        const frame: SignalFrame = { at: this.now().toISOString(), values }
+        this.frames = [...this.frames, frame].slice(-this.maxFrames)
+        if (this.recording) {
+            this.recording.frames.push(frame)
+        }
+
+        this.notify()
+        return frame
+    }
+
+    /**
+     * Poll continuously. The next poll is scheduled after the previous one
+     * finishes, so a slow server never gets overlapping requests.
+     */
+    start(): void {
+        if (this.running) return
+        this.running = true
+        this.notify()
+
+        const loop = async () => {
+            if (!this.running) return
+            await this.poll()
+            if (this.running) {
+                this.timer = setTimeout(loop, this.intervalMs)
+            }
+        }
+        void loop()
+    }
+
+    stop(): void {
+        this.running = false
+        if (this.timer) clearTimeout(this.timer)
+        this.timer = undefined
+        this.notify()
+    }
+
+    clearFrames(): void {
+        this.frames = []
+        this.notify()
+    }
+
+    startRecording(meta: { name: string; stationKey?: string; studyPath?: string }): void {
+        this.recording = {
+            id: crypto.randomUUID(),
+            signals: [...this.signals],
+            intervalMs: this.intervalMs,
+            startedAt: this.now().toISOString(),
+            frames: [],
+            ...meta
+        }
+        this.notify()
+    }
+
+    /**
+     * Finish the current recording and return it for saving
+     */
+    stopRecording(): SignalRecording | undefined {
+        const recording = this.recording
+        this.recording = undefined
+        if (recording) {
+            recording.endedAt = this.now().toISOString()
+        }
+        this.notify()
+        return recording
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parse a comma or newline separated signal list, dropping blanks and duplicates
+ */
+export function parseSignalList(text: string): string[] {
+    const names = text
+        .split(/[,\n]/)
+        .map(name => name.trim())
+        .filter(Boolean)
+    return Array.from(new Set(names))
+}
+
+/**
+ * Value to plot for a signal: numbers as-is, booleans as 1/0, numeric
+ * strings parsed; anything else cannot be charted
+ */
+export function toNumericValue(value: SignalValue): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null
+    if (typeof value === 'boolean') return value ? 1 : 0
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value)
+        return Number.isFinite(parsed) ? parsed : null
+    }
+    return null
+}
+
+export function loadWatchedSignals(): string[] {
+    if (typeof window === 'undefined') return []
+    try {
+        const raw = localStorage.getItem(SIGNALS_STORAGE_KEY)
+        const parsed = raw ? JSON.parse(raw) : []
+        return Array.isArray(parsed) ? parsed.filter(s => typeof s === 'string') : []
+    } catch {
+        return []
+    }
+}
+
+export function saveWatchedSignals(signals: string[]): void {
+    if (typeof window === 'undefined') return
+    localStorage.setItem(SIGNALS_STORAGE_KEY, JSON.stringify(signals))
+}
+
+// ============================================================================
+// CSV EXPORT
+// ============================================================================
+
+/**
+ * Recording as CSV: one row per poll, one column per signal
+ */
+export function generateRecordingCsv(recording: SignalRecording): string {
+    const header = ['Timestamp', 'Elapsed (s)', ...recording.signals].map(escapeCsvField).join(',')
+    const start = new Date(recording.startedAt).getTime()
+
+    const rows = recording.frames.map(frame => {
+        const elapsed = ((new Date(frame.at).getTime() - start) / 1000).toFixed(3)
+        const values = recording.signals.map(name => {
+            const value = frame.values[name]
+            return value === null || value === undefined ? '' : String(value)
+        })
+        return [frame.at, elapsed, ...values].map(escapeCsvField).join(',')
+    })
+
+    return [header, ...rows].join('\n')
+}
+
+/**
+ * Trigger browser download of a recording as CSV
+ */
+export function downloadRecordingCsv(recording: SignalRecording): void {
+    const csv = generateRecordingCsv(recording)
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
+    const url = URL.createObjectURL(blob)
+    const safeName = recording.name.replace(/[^\w.-]+/g, '_') || 'recording'
+
+    const link = document.createElement('a')
+    link.setAttribute('href', url)
+    link.setAttribute('download', `simbridge_${safeName}_${recording.startedAt.slice(0, 10)}.csv`)
+    link.style.visibility = 'hidden'
+
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+}
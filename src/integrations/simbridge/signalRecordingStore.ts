@@ -0,0 +1,78 @@
+/**
+ * SimBridge Signal Recording Store
+ * Keeps recorded signal sessions in IndexedDB for later replay and export.
+ * Uses its own database so the snapshot databases never need an upgrade
+ * for it.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb'
+import type { SignalRecording } from './signalMonitor'
+import { log } from '../../lib/log'
+
+interface SignalRecordingDB extends DBSchema {
+    recordings: {
+        key: string
+        value: SignalRecording
+        indexes: { 'by-startedAt': string }
+    }
+}
+
+/**
+ * Recording without its frames, for lists
+ */
+export type SignalRecordingSummary = Omit<SignalRecording, 'frames'> & { frameCount: number }
+
+const DB_NAME = 'SimPilotSignals'
+const DB_VERSION = 1
+const STORE_NAME = 'recordings'
+
+let dbPromise: Promise<IDBPDatabase<SignalRecordingDB>> | null = null
+
+function getDB(): Promise<IDBPDatabase<SignalRecordingDB>> {
+    if (!dbPromise) {
+        dbPromise = openDB<SignalRecordingDB>(DB_NAME, DB_VERSION, {
+            upgrade(db) {
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+                    store.createIndex('by-startedAt', 'startedAt')
+                }
+            }
+        }).catch(error => {
+            dbPromise = null
+            throw error
+        })
+    }
+    return dbPromise
+}
+
+export async function saveSignalRecording(recording: SignalRecording): Promise<void> {
+    const db = await getDB()
+    await db.put(STORE_NAME, recording)
+    log.info('[SignalRecordingStore] Saved recording', {
+        id: recording.id,
+        frames: recording.frames.length
+    })
+}
+
+export async function getSignalRecording(id: string): Promise<SignalRecording | undefined> {
+    const db = await getDB()
+    return db.get(STORE_NAME, id)
+}
+
+/**
+ * List recordings, newest first, optionally for one station only
+ */
+export async function listSignalRecordings(stationKey?: string): Promise<SignalRecordingSummary[]> {
+    const db = await getDB()
+    const recordings = await db.getAllFromIndex(STORE_NAME, 'by-startedAt')
+
+    return recordings
+        .filter(r => !stationKey || r.stationKey === stationKey)
+        .reverse()
+        .map(({ frames, ...summary }) => ({ ...summary, frameCount: frames.length }))
+}
+
+export async function deleteSignalRecording(id: string): Promise<void> {
+    const db = await getDB()
+    await db.delete(STORE_NAME, id)
+}
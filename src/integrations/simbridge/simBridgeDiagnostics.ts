@@ -1,18 +1,56 @@
 /**
  * SimBridge Diagnostics
- * In-memory ring buffer for SimBridge events.
+ * In-memory ring buffer for SimBridge events, plus running request,
+ * queue and reconnect statistics.
  */
 
+import type { SimBridgeErrorKind } from './simBridgeTypes'
+
 export interface SimBridgeEvent {
     at: string
-    type: 'connect' | 'status' | 'loadStudy' | 'signalRead' | 'signalWrite' | 'error'
+    type:
+        | 'connect'
+        | 'status'
+        | 'loadStudy'
+        | 'signalRead'
+        | 'signalWrite'
+        | 'reconnect'
+        | 'queue'
+        | 'error'
     message: string
     meta?: Record<string, unknown>
 }
 
+export interface SimBridgeRequestRecord {
+    path: string
+    durationMs: number
+    status?: number
+    errorKind?: SimBridgeErrorKind
+}
+
+export interface SimBridgeStats {
+    requestCount: number
+    failureCount: number
+    errorsByKind: Partial<Record<SimBridgeErrorKind, number>>
+    lastLatencyMs?: number
+    averageLatencyMs?: number
+    /** Commands waiting in or running through the service queue */
+    queueDepth: number
+    /** Reconnect attempts since the connection was last healthy */
+    reconnectAttempt: number
+    nextReconnectAt?: string
+}
+
 const EVENT_LIMIT = 100
 const events: SimBridgeEvent[] = []
 
+let stats: SimBridgeStats = createEmptyStats()
+let totalLatencyMs = 0
+
+function createEmptyStats(): SimBridgeStats {
+    return { requestCount: 0, failureCount: 0, errorsByKind: {}, queueDepth: 0, reconnectAttempt: 0 }
+}
+
 /**
  * Record a SimBridge event to the in-memory log
  */
@@ -29,3 +67,46 @@ export function recordSimBridgeEvent(event: SimBridgeEvent): void {
 export function getSimBridgeEvents(limit: number = 50): SimBridgeEvent[] {
     return events.slice(0, limit)
 }
+
+/**
+ * Record the outcome of one HTTP request to SimBridge
+ */
+export function recordSimBridgeRequest(record: SimBridgeRequestRecord): void {
+    totalLatencyMs += record.durationMs
+    const requestCount = stats.requestCount + 1
+    const errorsByKind = { ...stats.errorsByKind }
+    if (record.errorKind) {
+        errorsByKind[record.errorKind] = (errorsByKind[record.errorKind] ?? 0) + 1
+    }
+
+    stats = {
+        ...stats,
+        requestCount,
+        failureCount: stats.failureCount + (record.errorKind ? 1 : 0),
+        errorsByKind,
+        lastLatencyMs: record.durationMs,
+        averageLatencyMs: Math.round(totalLatencyMs / requestCount)
+    }
+}
+
+/**
+ * Update queue and reconnect figures reported by the service
+ */
+export function updateSimBridgeStats(
+    updates: Partial<Pick<SimBridgeStats, 'queueDepth' | 'reconnectAttempt' | 'nextReconnectAt'>>
+): void {
+    stats = { ...stats, ...updates }
+}
+
+export function getSimBridgeStats(): SimBridgeStats {
+    return { ...stats, errorsByKind: { ...stats.errorsByKind } }
+}
+
+/**
+ * Clear events and statistics (tests and manual resets)
+ */
+export function resetSimBridgeDiagnostics(): void {
+    events.length = 0
+    stats = createEmptyStats()
+    totalLatencyMs = 0
+}
@@ -1,52 +1,241 @@
 /**
  * SimBridge Domain Adapter
- * Best-effort heuristics to map study paths to SimPilot domain entities.
+ * Links a Process Simulate study path (.psz) to cells in the store.
+ *
+ * Candidates are ranked from what the store actually knows: confirmed links,
+ * the cell's own study path, station codes and registry station labels.
+ * Only a confirmed link or an exact study path match is treated as reliable
+ * enough to set SimBridgeStudyState.cellId; anything weaker is offered to
+ * the user as a candidate to confirm.
  */
 
+import type { Area, Cell, StudyCellLink } from '../../domain/core'
+import type { StationRecord } from '../../domain/uidTypes'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StudyLinkSource {
+    cells: Cell[]
+    areas: Area[]
+    stationRecords: StationRecord[]
+    studyLinks: StudyCellLink[]
+}
+
+export interface StudyCellCandidate {
+    cellId: string
+    projectId: string
+    cellLabel: string
+    confidence: number // 0-1
+    reasons: string[]
+    isConfirmed: boolean
+}
+
+export interface ResolvedStudyContext {
+    projectId?: string
+    cellId?: string
+    candidates: StudyCellCandidate[]
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Confidence at or above which a link is used without asking */
+export const RELIABLE_LINK_CONFIDENCE = 1
+
+const EXACT_PATH_CONFIDENCE = 1
+const SAME_FILE_NAME_CONFIDENCE = 0.85
+const STATION_LABEL_CONFIDENCE = 0.6
+const STATION_CODE_CONFIDENCE = 0.5
+const AREA_BONUS = 0.15
+const LINE_BONUS = 0.1
+// Heuristic matches never reach the confidence of a confirmed link
+const MAX_HEURISTIC_CONFIDENCE = 0.95
+const MIN_CANDIDATE_CONFIDENCE = 0.3
+const DEFAULT_MAX_CANDIDATES = 5
+
+// ============================================================================
+// PATH HELPERS
+// ============================================================================
+
+/**
+ * Normalize a study path for comparison (slashes, case, whitespace)
+ */
+export function normalizeStudyPath(path: string): string {
+    return path.trim().replace(/\\/g, '/').replace(/\/+/g, '/').toLowerCase()
+}
+
+function getFileStem(path: string): string {
+    const fileName = normalizeStudyPath(path).split('/').pop() ?? ''
+    return fileName.replace(/\.psz$/, '')
+}
+
 /**
- * Infer Project ID from a study path
- * Heuristic: Looks for known project codes in the path.
+ * Uppercase tokens of a string, also split at letter/digit boundaries so
+ * "OP010" yields "OP010", "OP" and "010"
  */
-export function inferProjectFromStudyPath(path: string): string | undefined {
-    const normalized = path.toUpperCase().replace(/\\/g, '/')
+function tokenize(value: string): Set<string> {
+    const tokens = new Set<string>()
+    for (const word of value.toUpperCase().split(/[^A-Z0-9]+/)) {
+        if (!word) continue
+        tokens.add(word)
+        for (const part of word.match(/[A-Z]+|\d+/g) ?? []) {
+            tokens.add(part)
+        }
+    }
+    return tokens
+}
+
+function stripLeadingZeros(code: string): string {
+    return code.replace(/^0+(?=\d)/, '')
+}
+
+function hasStationCode(tokens: Set<string>, code: string): boolean {
+    const normalized = code.trim().toUpperCase()
+    if (!normalized) return false
+    if (tokens.has(normalized)) return true
 
-    if (normalized.includes('STLA-S') || normalized.includes('STLA_S')) {
-        if (normalized.includes('REAR') || normalized.includes('Rear')) return 'p-stla-1'
-        if (normalized.includes('UNDERBODY') || normalized.includes('UB')) return 'p-stla-2'
-        return 'p-stla-1' // Default to main project if ambiguous
+    if (!/^\d+$/.test(normalized)) return false
+    const digits = stripLeadingZeros(normalized)
+    for (const token of tokens) {
+        if (/^\d+$/.test(token) && stripLeadingZeros(token) === digits) return true
     }
+    return false
+}
+
+// ============================================================================
+// RANKING
+// ============================================================================
+
+/**
+ * Rank cells that a study path may belong to, most likely first
+ */
+export function rankStudyCellCandidates(
+    studyPath: string,
+    source: StudyLinkSource,
+    maxCandidates = DEFAULT_MAX_CANDIDATES
+): StudyCellCandidate[] {
+    const path = normalizeStudyPath(studyPath)
+    if (!path) return []
+
+    const stem = getFileStem(studyPath)
+    const fileTokens = tokenize(stem)
+    const pathTokens = tokenize(path)
+    const areaNames = new Map(source.areas.map(a => [a.id, a.name]))
+    const recordsByKey = new Map(source.stationRecords.map(r => [r.key, r]))
+    const confirmed = [...source.studyLinks]
+        .sort((a, b) => b.confirmedAt.localeCompare(a.confirmedAt))
+        .find(l => normalizeStudyPath(l.studyPath) === path)
+
+    const candidates: StudyCellCandidate[] = []
+
+    for (const cell of source.cells) {
+        const reasons: string[] = []
+        let confidence = 0
+
+        if (confirmed?.cellId === cell.id) {
+            confidence = 1
+            reasons.push(`Confirmed link${confirmed.confirmedBy ? ` by ${confirmed.confirmedBy}` : ''}`)
+        }
 
-    if (normalized.includes('TINY')) return 'p-tiny-1'
+        const cellStudyPath = cell.simulation?.studyPath
+        if (confidence < 1 && cellStudyPath) {
+            if (normalizeStudyPath(cellStudyPath) === path) {
+                confidence = EXACT_PATH_CONFIDENCE
+                reasons.push("Matches the cell's study path")
+            } else if (getFileStem(cellStudyPath) === stem) {
+                confidence = SAME_FILE_NAME_CONFIDENCE
+                reasons.push('Same study file name as the cell')
+            }
+        }
 
-    return undefined
+        if (confidence < 1) {
+            let heuristic = 0
+            const record = cell.stationId ? recordsByKey.get(cell.stationId) : undefined
+            const fullLabel = record?.labels.fullLabel
+            if (fullLabel && fileTokens.has(fullLabel.toUpperCase())) {
+                heuristic = STATION_LABEL_CONFIDENCE
+                reasons.push(`Station label ${fullLabel} in file name`)
+            } else if (hasStationCode(fileTokens, cell.code)) {
+                heuristic = STATION_CODE_CONFIDENCE
+                reasons.push(`Station code ${cell.code} in file name`)
+            }
+
+            if (heuristic > 0) {
+                const areaName = areaNames.get(cell.areaId) ?? record?.labels.area
+                if (areaName && path.includes(areaName.toLowerCase())) {
+                    heuristic += AREA_BONUS
+                    reasons.push(`Area "${areaName}" in path`)
+                }
+                if (cell.lineCode && pathTokens.has(cell.lineCode.toUpperCase())) {
+                    heuristic += LINE_BONUS
+                    reasons.push(`Line ${cell.lineCode} in path`)
+                }
+            }
+
+            confidence = Math.max(confidence, Math.min(heuristic, MAX_HEURISTIC_CONFIDENCE))
+        }
+
+        if (confidence >= MIN_CANDIDATE_CONFIDENCE) {
+            candidates.push({
+                cellId: cell.id,
+                projectId: cell.projectId,
+                cellLabel: cell.code ? `${cell.code} - ${cell.name}` : cell.name,
+                confidence: Math.round(confidence * 100) / 100,
+                reasons,
+                isConfirmed: confirmed?.cellId === cell.id
+            })
+        }
+    }
+
+    return candidates
+        .sort(
+            (a, b) =>
+                Number(b.isConfirmed) - Number(a.isConfirmed) ||
+                b.confidence - a.confidence ||
+                a.cellLabel.localeCompare(b.cellLabel)
+        )
+        .slice(0, maxCandidates)
 }
 
 /**
- * Infer Cell ID from a study path
- * Heuristic: Looks for cell codes (e.g. OP10, OP20) in the filename.
+ * Resolve the project and cell of a study. cellId is only set for a
+ * confirmed link, or for an exact study path match that no other cell
+ * shares.
  */
-export function inferCellFromStudyPath(path: string): string | undefined {
-    const normalized = path.toUpperCase().replace(/\\/g, '/')
-    const filename = normalized.split('/').pop() || ''
-
-    // Match OPxx or OPxxx pattern
-    const opMatch = filename.match(/OP(\d+)/)
-    if (opMatch) {
-        // Try to construct a likely ID based on known demo data patterns
-        // In a real app, we might search the store, but here we just infer the code
-        // The caller might need to match this code against actual cells
-        return undefined // We can't reliably guess the UUID, only the code. 
-        // For now, let's return undefined unless we want to couple to the store.
-        // The prompt says "No writes into coreStore yet – just keep the mapping inside currentStudy."
-        // But we can try to return a "likely" ID if we know the scheme.
+export function resolveStudyContext(studyPath: string, source: StudyLinkSource): ResolvedStudyContext {
+    const candidates = rankStudyCellCandidates(studyPath, source)
+    const [best, runnerUp] = candidates
+
+    if (
+        best &&
+        (best.isConfirmed ||
+            (best.confidence >= RELIABLE_LINK_CONFIDENCE &&
+                (!runnerUp || runnerUp.confidence < best.confidence)))
+    ) {
+        return { projectId: best.projectId, cellId: best.cellId, candidates }
     }
 
-    // For the specific demo data we know:
-    if (filename.includes('OP10')) return 'c-stla-1-1'
-    if (filename.includes('OP20')) return 'c-stla-1-2'
-    if (filename.includes('OP30')) return 'c-stla-1-3'
-    if (filename.includes('OP40')) return 'c-stla-1-4'
-    if (filename.includes('OP50')) return 'c-stla-1-5'
+    return { candidates }
+}
 
-    return undefined
+/**
+ * Build the link record persisted when a user confirms a candidate
+ */
+export function createStudyCellLink(
+    studyPath: string,
+    candidate: StudyCellCandidate,
+    confirmedBy?: string
+): StudyCellLink {
+    return {
+        id: crypto.randomUUID(),
+        studyPath: studyPath.trim(),
+        cellId: candidate.cellId,
+        projectId: candidate.projectId,
+        confidence: candidate.confidence,
+        confirmedBy,
+        confirmedAt: new Date().toISOString()
+    }
 }
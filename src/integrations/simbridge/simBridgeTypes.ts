@@ -3,6 +3,8 @@
  * Strictly typed definitions for the SimBridge integration layer.
  */
 
+import type { StudyCellCandidate } from './simBridgeDomainAdapter'
+
 export type SimBridgeConnectionStatus =
     | 'unknown'
     | 'connecting'
@@ -23,6 +25,7 @@ export interface SimBridgeError {
     kind: SimBridgeErrorKind
     message: string
     at: string
+    status?: number // HTTP status, when the server answered
     details?: Record<string, unknown>
 }
 
@@ -30,11 +33,18 @@ export interface SimBridgeStudyState {
     studyPath: string
     loadedAt: string
     projectId?: string
-    cellId?: string
+    cellId?: string // only set when the link is confirmed or unambiguous
+    linkCandidates?: StudyCellCandidate[] // ranked, for the user to confirm
+}
+
+export interface SimBridgeReconnectState {
+    attempt: number
+    nextAttemptAt: string
 }
 
 export interface SimBridgeServiceState {
     status: SimBridgeConnectionStatus
     lastError?: SimBridgeError
     currentStudy?: SimBridgeStudyState
+    reconnect?: SimBridgeReconnectState // set while a reconnect is scheduled
 }
@@ -1,12 +1,14 @@
 import { useState, useEffect, useCallback } from 'react'
 import { simBridgeService } from './SimBridgeService'
 import { SimBridgeServiceState } from './simBridgeTypes'
+import { StudyCellCandidate } from './simBridgeDomainAdapter'
 
 export interface UseSimBridgeResult {
     state: SimBridgeServiceState
     connect: () => Promise<void>
     refreshStatus: () => Promise<void>
     loadStudy: (path: string, ctx?: { projectId?: string; cellId?: string }) => Promise<void>
+    confirmStudyLink: (candidate: StudyCellCandidate, confirmedBy?: string) => void
     getSignal: (name: string) => Promise<number | string | boolean | null>
     setSignal: (name: string, value: number | string | boolean) => Promise<void>
 }
@@ -18,26 +20,8 @@ export interface UseSimBridgeResult {
 export function useSimBridge(): UseSimBridgeResult {
     const [state, setState] = useState<SimBridgeServiceState>(simBridgeService.getState())
 
-    // Poll for state changes or use an event emitter in the future
-    // For now, we'll just wrap the actions to update local state
-    // In a real app, we'd subscribe to the service
-
-    // Simple polling to keep UI in sync with the singleton service
-    useEffect(() => {
-        const interval = setInterval(() => {
-            const newState = simBridgeService.getState()
-            // Simple equality check to avoid re-renders if nothing changed
-            // JSON.stringify is cheap enough for this small state object
-            setState(prev => {
-                if (JSON.stringify(prev) !== JSON.stringify(newState)) {
-                    return newState
-                }
-                return prev
-            })
-        }, 1000) // Poll every second
-
-        return () => clearInterval(interval)
-    }, [])
+    // Stay in sync with the singleton service, including background reconnects
+    useEffect(() => simBridgeService.subscribe(setState), [])
 
     const connect = useCallback(async () => {
         if (state.status === 'connecting' || state.status === 'connected') return
@@ -55,6 +39,10 @@ export function useSimBridge(): UseSimBridgeResult {
         setState(newState)
     }, [])
 
+    const confirmStudyLink = useCallback((candidate: StudyCellCandidate, confirmedBy?: string) => {
+        setState(simBridgeService.confirmStudyLink(candidate, confirmedBy))
+    }, [])
+
     const getSignal = useCallback(async (name: string) => {
         return await simBridgeService.getSignal(name)
     }, [])
@@ -68,6 +56,7 @@ export function useSimBridge(): UseSimBridgeResult {
         connect,
         refreshStatus,
         loadStudy,
+        confirmStudyLink,
         getSignal,
         setSignal
     }
@@ -3,7 +3,8 @@ import { coreStore } from '../domain/coreStore'
 import { persistenceService } from './indexedDbService'
 import { useGlobalBusy } from '../ui/GlobalBusyContext'
 import { setCrossRefData, getCrossRefData } from '../hooks/useCrossRefData'
-import { buildCrossRef, SimulationStatusSnapshot, ToolSnapshot, RobotSnapshot, normalizeStationId } from '../domain/crossRef'
+import { applyRulesToCrossRef, buildCrossRef, buildGunForceSnapshots, CrossRefResult, SimulationStatusSnapshot, ToolSnapshot, RobotSnapshot, normalizeStationId } from '../domain/crossRef'
+import { getGunCheckSnapshots } from '../domain/robotGunAssignmentsStore'
 import { syncSimulationStore } from '../features/simulation'
 import { syncSimPilotStoreFromLocalData } from '../domain/simPilotSnapshotBuilder'
 import { log } from '../lib/log'
@@ -13,7 +14,7 @@ const SAVE_DEBOUNCE_MS = 2000
 /**
  * Build CrossRefInput from current coreStore state
  */
-function buildCrossRefFromCoreStore() {
+export function buildCrossRefFromCoreStore() {
     const state = coreStore.getState()
 
     // Build area ID to name mapping
@@ -97,11 +98,36 @@ function buildCrossRefFromCoreStore() {
         toolingRows,
         robotSpecsRows,
         weldGunRows: [],
-        gunForceRows: [],
+        gunForceRows: buildGunForceSnapshots(tools),
         riserRows: []
     }
 }
 
+/**
+ * Rebuild stores derived from coreStore after its state was replaced
+ * outside the regular import flow (snapshot restore, folder sync).
+ * A saved cross-reference result is kept and only has the current rules
+ * re-applied: coreStore cannot rebuild its vacuum rows, panel milestones
+ * or Simulation Status robots.
+ */
+export function syncDerivedStores(savedCrossRef?: CrossRefResult): void {
+    syncSimulationStore()
+
+    const { crossRefRules, flagWaivers } = coreStore.getState()
+    const options = {
+        ruleSet: crossRefRules,
+        waivers: flagWaivers,
+        gunChecks: getGunCheckSnapshots()
+    }
+    setCrossRefData(
+        savedCrossRef
+            ? applyRulesToCrossRef(savedCrossRef, options)
+            : buildCrossRef(buildCrossRefFromCoreStore(), options)
+    )
+
+    syncSimPilotStoreFromLocalData()
+}
+
 export function PersistenceManager() {
     const { pushBusy, popBusy } = useGlobalBusy()
     const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
@@ -120,27 +146,10 @@ export function PersistenceManager() {
                     log.info('Restoring snapshot from', result.snapshot.meta.lastSavedAt)
                     coreStore.loadSnapshot(result.snapshot)
 
-                    // Keep the simulation store in sync with the restored core store data
-                    syncSimulationStore()
-
-                    // Restore CrossRef data if snapshot included it; otherwise rebuild
-                    if (result.snapshot.crossRef) {
-                        log.debug('[PersistenceManager] Restoring CrossRef data from snapshot')
-                        setCrossRefData(result.snapshot.crossRef)
-                    } else {
-                        log.debug('[PersistenceManager] Rebuilding CrossRef data from persisted state')
-                        const crossRefInput = buildCrossRefFromCoreStore()
-                        const crossRefResult = buildCrossRef(crossRefInput)
-                        setCrossRefData(crossRefResult)
-                        log.debug('[PersistenceManager] CrossRef data rebuilt:', {
-                            cells: crossRefResult.cells.length,
-                            areas: crossRefResult.cells.map(c => c.areaKey).filter((v, i, a) => a.indexOf(v) === i)
-                        })
-                    }
-
-                    // Rebuild SimPilot store (including bottleneck data) from persisted coreStore
-                    syncSimPilotStoreFromLocalData()
-                    log.debug('[PersistenceManager] SimPilot store synced from persisted data')
+                    // Rebuild derived stores from the restored data, keeping the
+                    // snapshot's cross-reference result if it has one
+                    syncDerivedStores(result.snapshot.crossRef)
+                    log.debug('[PersistenceManager] Derived stores synced from persisted data')
                 }
             } catch (err) {
                 log.error('Failed to load persistence:', err)
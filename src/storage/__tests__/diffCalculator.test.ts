@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest'
-import { calculateDiff, getTotalChanges, hasChanges } from '../diffCalculator'
+import {
+  calculateDiff,
+  filterDiff,
+  generateDiffReportCsv,
+  getTotalChanges,
+  hasChanges,
+} from '../diffCalculator'
 import type { CoreStoreState } from '../../domain/coreStore'
 import type { Area, Cell, Project, UnifiedAsset } from '../../domain/core'
 
@@ -20,6 +26,16 @@ const makeState = (partial: Partial<CoreStoreState> = {}): CoreStoreState => ({
   importRuns: [],
   diffResults: [],
   auditLog: [],
+  checklistTemplates: [],
+  checklistItemTemplates: [],
+  checklists: [],
+  checklistItems: [],
+  crossRefRules: { rules: [], projectOverrides: {} },
+  flagWaivers: [],
+  studyLinks: [],
+  contextMappingRules: [],
+  gunChecks: [],
+  spotWeldRefs: [],
   ...partial,
 })
 
@@ -165,4 +181,58 @@ describe('diffCalculator', () => {
     expect(getTotalChanges(diff)).toBe(0)
     expect(diff.summary).toBe('No changes detected')
   })
+
+  describe('filters and report', () => {
+    const areaA: Area = { id: 'area-a', projectId: 'proj-1', name: 'Front Unit' }
+    const areaB: Area = { id: 'area-b', projectId: 'proj-1', name: 'Rear Unit' }
+    const cell = (id: string, areaId: string, status: Cell['status']): Cell => ({
+      id,
+      projectId: 'proj-1',
+      areaId,
+      name: id,
+      code: id,
+      status,
+    })
+
+    const oldState = makeState({
+      areas: [areaA, areaB],
+      cells: [cell('010', 'area-a', 'NotStarted'), cell('020', 'area-b', 'NotStarted')],
+      assets: [makeAsset({ id: 'R01', kind: 'ROBOT', areaId: 'area-a' })],
+    })
+    const newState = makeState({
+      areas: [areaA, areaB],
+      cells: [cell('010', 'area-a', 'InProgress'), cell('020', 'area-b', 'Approved')],
+      assets: [makeAsset({ id: 'R02', kind: 'ROBOT', areaId: 'area-b' })],
+    })
+
+    it('tags items with entity type and area, and filters on both', () => {
+      const diff = calculateDiff(oldState, newState, 't1', 't2')
+
+      expect(diff.addedItems).toEqual([
+        expect.objectContaining({ id: 'R02', entityType: 'robots', areaId: 'area-b' }),
+      ])
+
+      const frontCells = filterDiff(diff, { entityTypes: ['cells'], areaIds: ['area-a'] })
+      expect(frontCells.modifiedItems.map((i) => i.id)).toEqual(['010'])
+      expect(getTotalChanges(frontCells)).toBe(1)
+
+      const robots = filterDiff(diff, { entityTypes: ['robots'] })
+      expect(robots.addedItems.map((i) => i.id)).toEqual(['R02'])
+      expect(robots.removedItems.map((i) => i.id)).toEqual(['R01'])
+      expect(robots.modifiedItems).toEqual([])
+    })
+
+    it('writes one report row per added/removed item and per changed field', () => {
+      const diff = filterDiff(calculateDiff(oldState, newState, 't1', 't2'), {
+        areaIds: ['area-a'],
+      })
+      const lines = generateDiffReportCsv(diff, { 'area-a': 'Front Unit' }).split('\n')
+
+      expect(lines[0]).toBe('Change,Entity Type,Kind,ID,Name,Area,Field,Old Value,New Value')
+      expect(lines.slice(1)).toEqual([
+        'Removed,robots,ROBOT,R01,R01,Front Unit,,,',
+        'Modified,cells,CELL,010,010,Front Unit,Status,NotStarted,InProgress',
+      ])
+    })
+  })
 })
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { selectSnapshotsToPrune, type SnapshotSummary } from '../indexedDBStore'
+
+const summary = (timestamp: string, baselineName?: string): SnapshotSummary => ({
+  timestamp,
+  metadata: {
+    fileNames: [],
+    toolCount: 0,
+    robotCount: 0,
+    cellCount: 0,
+    projectCount: 0,
+    areaCount: 0,
+    source: 'Local',
+    baselineName,
+  },
+})
+
+describe('selectSnapshotsToPrune', () => {
+  it('never prunes named baselines and does not count them towards keepCount', () => {
+    // Newest first, as returned by getAllSnapshots
+    const summaries = [
+      summary('2026-05-05'),
+      summary('2026-05-04', 'Gate 3 freeze'),
+      summary('2026-05-03'),
+      summary('2026-05-02'),
+      summary('2026-05-01', 'Gate 2 freeze'),
+    ]
+
+    expect(selectSnapshotsToPrune(summaries, 2)).toEqual(['2026-05-02'])
+    expect(selectSnapshotsToPrune(summaries, 0)).toEqual(['2026-05-05', '2026-05-03', '2026-05-02'])
+    expect(selectSnapshotsToPrune(summaries, 3)).toEqual([])
+  })
+})
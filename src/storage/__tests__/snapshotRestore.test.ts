@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { coreStore, type CoreStoreState } from '../../domain/coreStore'
+import type { Cell } from '../../domain/core'
+import { getSnapshot, saveSnapshot, type SnapshotRecord } from '../indexedDBStore'
+import { previewSnapshotRestore, restoreSnapshot } from '../snapshotRestore'
+
+vi.mock('../indexedDBStore', () => ({
+  getSnapshot: vi.fn(),
+  saveSnapshot: vi.fn(),
+}))
+
+const cell = (id: string): Cell => ({
+  id,
+  projectId: 'proj-1',
+  areaId: 'area-1',
+  name: id,
+  code: id,
+  status: 'InProgress',
+})
+
+const loadCurrent = (cells: Cell[]) =>
+  coreStore.setData(
+    { projects: [], areas: [], cells, robots: [], tools: [], warnings: [] },
+    'Local',
+  )
+
+// Record saved before crossRefRules / flagWaivers existed
+const makeRecord = (cells: Cell[]): SnapshotRecord => ({
+  timestamp: '2026-03-01T10:00:00.000Z',
+  data: {
+    projects: [],
+    areas: [],
+    cells,
+    assets: [],
+    warnings: [],
+    changeLog: [],
+    lastUpdated: null,
+    dataSource: 'Local',
+    referenceData: { employees: [], suppliers: [] },
+  } as unknown as CoreStoreState,
+  metadata: {
+    fileNames: ['status.xlsx'],
+    toolCount: 0,
+    robotCount: 0,
+    cellCount: cells.length,
+    projectCount: 0,
+    areaCount: 0,
+    source: 'Local',
+    baselineName: 'Gate 2 freeze',
+  },
+})
+
+describe('snapshotRestore', () => {
+  beforeEach(() => {
+    coreStore.clear()
+    vi.mocked(saveSnapshot).mockReset()
+    vi.mocked(getSnapshot).mockReset()
+  })
+
+  it('previews the diff from current state to the snapshot', async () => {
+    loadCurrent([cell('010'), cell('020')])
+    vi.mocked(getSnapshot).mockResolvedValue(makeRecord([cell('010')]))
+
+    const preview = await previewSnapshotRestore('2026-03-01T10:00:00.000Z')
+
+    expect(preview?.diff.removedItems.map((i) => i.id)).toEqual(['020'])
+    expect(preview?.diff.addedItems).toEqual([])
+  })
+
+  it('saves the current state as a safety snapshot before replacing the store', async () => {
+    loadCurrent([cell('010'), cell('020')])
+    vi.mocked(saveSnapshot).mockImplementation(async (data) => {
+      // Safety snapshot must capture the state before the restore
+      expect(data.cells.map((c) => c.id)).toEqual(['010', '020'])
+      return '2026-06-01T00:00:00.000Z'
+    })
+
+    const result = await restoreSnapshot(makeRecord([cell('010')]))
+
+    expect(result).toEqual({
+      success: true,
+      restoredTimestamp: '2026-03-01T10:00:00.000Z',
+      safetySnapshotTimestamp: '2026-06-01T00:00:00.000Z',
+    })
+    expect(saveSnapshot).toHaveBeenCalledTimes(1)
+
+    const state = coreStore.getState()
+    expect(state.cells.map((c) => c.id)).toEqual(['010'])
+    expect(state.dataSource).toBe('Local')
+    // Older records are migrated like persisted sessions
+    expect(state.crossRefRules).toEqual({ rules: [], projectOverrides: {} })
+    expect(state.flagWaivers).toEqual([])
+  })
+
+  it('leaves the store untouched when the safety snapshot cannot be saved', async () => {
+    loadCurrent([cell('010'), cell('020')])
+    vi.mocked(saveSnapshot).mockRejectedValue(new Error('Failed to save snapshot'))
+
+    const result = await restoreSnapshot(makeRecord([cell('010')]))
+
+    expect(result.success).toBe(false)
+    expect(coreStore.getState().cells).toHaveLength(2)
+  })
+})
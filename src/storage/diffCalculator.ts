@@ -8,6 +8,7 @@
 import { CoreStoreState } from '../domain/coreStore';
 import { UnifiedAsset, Project, Area, Cell } from '../domain/core';
 import { log } from '../lib/log';
+import { escapeCsvField } from '../utils/csvExport';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -24,6 +25,11 @@ export interface EntityCounts {
   areas: number;
 }
 
+/**
+ * Entity collections covered by a diff
+ */
+export type DiffEntityType = keyof EntityCounts;
+
 /**
  * Item change detail
  */
@@ -32,6 +38,8 @@ export interface ItemChange {
   name: string;
   kind: string;
   displayName: string; // User-friendly name
+  entityType: DiffEntityType;
+  areaId?: string; // Owning area (the area itself for AREA items)
 }
 
 /**
@@ -68,6 +76,14 @@ export interface DiffResult {
   summary: string; // Human-readable summary
 }
 
+/**
+ * Filters applied to a diff before display or export
+ */
+export interface DiffFilter {
+  entityTypes?: DiffEntityType[];
+  areaIds?: string[];
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -143,6 +159,31 @@ function getDisplayName(item: UnifiedAsset | Project | Area | Cell): string {
   return '(unnamed)';
 }
 
+/**
+ * Build the change entry for one entity
+ */
+function toItemChange(
+  item: UnifiedAsset | Project | Area | Cell,
+  entityType: DiffEntityType,
+  kind: string
+): ItemChange {
+  let areaId: string | undefined;
+  if (entityType === 'areas') {
+    areaId = item.id;
+  } else if ('areaId' in item && item.areaId) {
+    areaId = item.areaId;
+  }
+
+  return {
+    id: item.id,
+    name: item.name || item.id,
+    kind,
+    displayName: getDisplayName(item),
+    entityType,
+    areaId
+  };
+}
+
 /**
  * Compare two arrays by ID and find added/removed/modified items
  */
@@ -260,107 +301,36 @@ export function calculateDiff(
 
     // Build item change lists
     const addedItems: ItemChange[] = [
-      ...toolsDiff.added.map(t => ({
-        id: t.id,
-        name: t.name || t.id,
-        kind: t.kind,
-        displayName: getDisplayName(t)
-      })),
-      ...robotsDiff.added.map(r => ({
-        id: r.id,
-        name: r.name || r.id,
-        kind: 'ROBOT',
-        displayName: getDisplayName(r)
-      })),
-      ...cellsDiff.added.map(c => ({
-        id: c.id,
-        name: c.name || c.id,
-        kind: 'CELL',
-        displayName: getDisplayName(c)
-      })),
-      ...projectsDiff.added.map(p => ({
-        id: p.id,
-        name: p.name || p.id,
-        kind: 'PROJECT',
-        displayName: getDisplayName(p)
-      })),
-      ...areasDiff.added.map(a => ({
-        id: a.id,
-        name: a.name || a.id,
-        kind: 'AREA',
-        displayName: getDisplayName(a)
-      }))
+      ...toolsDiff.added.map(t => toItemChange(t, 'tools', t.kind)),
+      ...robotsDiff.added.map(r => toItemChange(r, 'robots', 'ROBOT')),
+      ...cellsDiff.added.map(c => toItemChange(c, 'cells', 'CELL')),
+      ...projectsDiff.added.map(p => toItemChange(p, 'projects', 'PROJECT')),
+      ...areasDiff.added.map(a => toItemChange(a, 'areas', 'AREA'))
     ];
 
     const removedItems: ItemChange[] = [
-      ...toolsDiff.removed.map(t => ({
-        id: t.id,
-        name: t.name || t.id,
-        kind: t.kind,
-        displayName: getDisplayName(t)
-      })),
-      ...robotsDiff.removed.map(r => ({
-        id: r.id,
-        name: r.name || r.id,
-        kind: 'ROBOT',
-        displayName: getDisplayName(r)
-      })),
-      ...cellsDiff.removed.map(c => ({
-        id: c.id,
-        name: c.name || c.id,
-        kind: 'CELL',
-        displayName: getDisplayName(c)
-      })),
-      ...projectsDiff.removed.map(p => ({
-        id: p.id,
-        name: p.name || p.id,
-        kind: 'PROJECT',
-        displayName: getDisplayName(p)
-      })),
-      ...areasDiff.removed.map(a => ({
-        id: a.id,
-        name: a.name || a.id,
-        kind: 'AREA',
-        displayName: getDisplayName(a)
-      }))
+      ...toolsDiff.removed.map(t => toItemChange(t, 'tools', t.kind)),
+      ...robotsDiff.removed.map(r => toItemChange(r, 'robots', 'ROBOT')),
+      ...cellsDiff.removed.map(c => toItemChange(c, 'cells', 'CELL')),
+      ...projectsDiff.removed.map(p => toItemChange(p, 'projects', 'PROJECT')),
+      ...areasDiff.removed.map(a => toItemChange(a, 'areas', 'AREA'))
     ];
 
+    const toModifiedItem = <T extends UnifiedAsset | Project | Area | Cell>(
+      { old, new: newItem }: { old: T; new: T },
+      entityType: DiffEntityType,
+      kind: string
+    ): ModifiedItem => ({
+      ...toItemChange(newItem, entityType, kind),
+      changes: findFieldChanges(old as unknown as Record<string, unknown>, newItem as unknown as Record<string, unknown>)
+    });
+
     const modifiedItems: ModifiedItem[] = [
-      ...toolsDiff.modified.map(({ old, new: newItem }) => ({
-        id: newItem.id,
-        name: newItem.name || newItem.id,
-        kind: newItem.kind,
-        displayName: getDisplayName(newItem),
-        changes: findFieldChanges(old as unknown as Record<string, unknown>, newItem as unknown as Record<string, unknown>)
-      })),
-      ...robotsDiff.modified.map(({ old, new: newItem }) => ({
-        id: newItem.id,
-        name: newItem.name || newItem.id,
-        kind: 'ROBOT',
-        displayName: getDisplayName(newItem),
-        changes: findFieldChanges(old as unknown as Record<string, unknown>, newItem as unknown as Record<string, unknown>)
-      })),
-      ...cellsDiff.modified.map(({ old, new: newItem }) => ({
-        id: newItem.id,
-        name: newItem.name || newItem.id,
-        kind: 'CELL',
-        displayName: getDisplayName(newItem),
-        changes: findFieldChanges(old as unknown as Record<string, unknown>, newItem as unknown as Record<string, unknown>)
-      })),
-      ...projectsDiff.modified.map(({ old, new: newItem }) => ({
-        id: newItem.id,
-        name: newItem.name || newItem.id,
-        kind: 'PROJECT',
-        displayName: getDisplayName(newItem),
-        changes: findFieldChanges(old as unknown as Record<string, unknown>, newItem as unknown as Record<string, unknown>)
-      })),
-      ...areasDiff.modified.map(({ old, new: newItem }) => ({
-        id: newItem.id,
-        name: newItem.name || newItem.id,
-        kind: 'AREA',
-        displayName: getDisplayName(newItem),
-        changes: findFieldChanges(old as unknown as Record<string, unknown>, newItem as unknown as Record<string, unknown>)
-      }))
+      ...toolsDiff.modified.map(m => toModifiedItem(m, 'tools', m.new.kind)),
+      ...robotsDiff.modified.map(m => toModifiedItem(m, 'robots', 'ROBOT')),
+      ...cellsDiff.modified.map(m => toModifiedItem(m, 'cells', 'CELL')),
+      ...projectsDiff.modified.map(m => toModifiedItem(m, 'projects', 'PROJECT')),
+      ...areasDiff.modified.map(m => toModifiedItem(m, 'areas', 'AREA'))
     ];
 
     // Build summary counts
@@ -446,3 +416,91 @@ export function getTotalChanges(diff: DiffResult): number {
     diff.modifiedItems.length
   );
 }
+
+/**
+ * Narrow a diff to the given entity types and areas
+ *
+ * Projects have no area, so an area filter drops them.
+ */
+export function filterDiff(diff: DiffResult, filter: DiffFilter): DiffResult {
+  const entityTypes = filter.entityTypes?.length ? new Set(filter.entityTypes) : null;
+  const areaIds = filter.areaIds?.length ? new Set(filter.areaIds) : null;
+
+  const matches = (item: ItemChange): boolean =>
+    (!entityTypes || entityTypes.has(item.entityType)) &&
+    (!areaIds || (item.areaId !== undefined && areaIds.has(item.areaId)));
+
+  return {
+    ...diff,
+    addedItems: diff.addedItems.filter(matches),
+    removedItems: diff.removedItems.filter(matches),
+    modifiedItems: diff.modifiedItems.filter(matches)
+  };
+}
+
+// ============================================================================
+// REPORT EXPORT
+// ============================================================================
+
+/**
+ * Full (untruncated) value for the report
+ */
+function formatValueForReport(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Convert a diff to a CSV report, one row per added/removed item and
+ * one row per changed field of a modified item
+ */
+export function generateDiffReportCsv(diff: DiffResult, areaNames: Record<string, string> = {}): string {
+  const header = 'Change,Entity Type,Kind,ID,Name,Area,Field,Old Value,New Value\n';
+
+  const itemColumns = (item: ItemChange): string[] => [
+    item.entityType,
+    item.kind,
+    item.id,
+    item.displayName,
+    item.areaId ? areaNames[item.areaId] ?? item.areaId : ''
+  ];
+
+  const rows: string[][] = [
+    ...diff.addedItems.map(item => ['Added', ...itemColumns(item), '', '', '']),
+    ...diff.removedItems.map(item => ['Removed', ...itemColumns(item), '', '', '']),
+    ...diff.modifiedItems.flatMap(item =>
+      item.changes.map(change => [
+        'Modified',
+        ...itemColumns(item),
+        change.fieldLabel,
+        formatValueForReport(change.oldValue),
+        formatValueForReport(change.newValue)
+      ])
+    )
+  ];
+
+  return header + rows.map(row => row.map(escapeCsvField).join(',')).join('\n');
+}
+
+/**
+ * Trigger browser download of a diff report
+ */
+export function downloadDiffReport(diff: DiffResult, areaNames: Record<string, string> = {}): void {
+  const csvContent = generateDiffReportCsv(diff, areaNames);
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  const fromStr = diff.fromTimestamp.slice(0, 10);
+  const toStr = diff.toTimestamp.slice(0, 10);
+  link.setAttribute('download', `simpilot_diff_${fromStr}_${toStr}.csv`);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
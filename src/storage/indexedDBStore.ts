@@ -46,6 +46,7 @@ export interface SnapshotMetadata {
   areaCount: number;
   source: 'Local' | 'MS365' | 'Demo';
   userNotes?: string;
+  baselineName?: string; // Named baseline (e.g. "Gate 2 freeze"), never pruned
 }
 
 /**
@@ -64,6 +65,7 @@ export interface StorageStats {
   oldestSnapshot: string | null;
   newestSnapshot: string | null;
   estimatedSizeMB: number;
+  baselineCount: number;
 }
 
 // ============================================================================
@@ -275,6 +277,41 @@ export async function deleteSnapshot(timestamp: string): Promise<void> {
   }
 }
 
+/**
+ * Tag a snapshot as a named baseline, or clear its baseline name
+ *
+ * @param timestamp - ISO timestamp of the snapshot
+ * @param baselineName - Baseline name, or null to untag
+ */
+export async function setSnapshotBaseline(
+  timestamp: string,
+  baselineName: string | null
+): Promise<void> {
+  try {
+    const db = await getDB();
+    const snapshot = await db.get(STORE_NAME, timestamp);
+
+    if (!snapshot) {
+      throw new Error(`Snapshot not found: ${timestamp}`);
+    }
+
+    const metadata = { ...snapshot.metadata };
+    const name = baselineName?.trim();
+    if (name) {
+      metadata.baselineName = name;
+    } else {
+      delete metadata.baselineName;
+    }
+
+    await db.put(STORE_NAME, { ...snapshot, metadata });
+
+    log.info('IndexedDB: Snapshot baseline updated', { timestamp, baselineName: name ?? null });
+  } catch (error) {
+    log.error('IndexedDB: Failed to update snapshot baseline', error);
+    throw new Error('Failed to update snapshot baseline');
+  }
+}
+
 /**
  * Delete all snapshots
  */
@@ -295,7 +332,26 @@ export async function deleteAllSnapshots(): Promise<void> {
 }
 
 /**
- * Prune old snapshots, keeping only the most recent N
+ * Pick the snapshots a prune would delete
+ *
+ * Named baselines are always kept and do not count towards keepCount.
+ *
+ * @param summaries - Snapshot summaries, newest first
+ * @param keepCount - Number of non-baseline snapshots to keep
+ * @returns Timestamps to delete
+ */
+export function selectSnapshotsToPrune(
+  summaries: SnapshotSummary[],
+  keepCount: number
+): string[] {
+  return summaries
+    .filter(s => !s.metadata.baselineName)
+    .slice(keepCount) // Skip the first N (newest)
+    .map(s => s.timestamp);
+}
+
+/**
+ * Prune old snapshots, keeping only the most recent N plus all baselines
  *
  * @param keepCount - Number of snapshots to keep (default: 50)
  */
@@ -304,15 +360,13 @@ export async function pruneOldSnapshots(keepCount: number = MAX_SNAPSHOTS): Prom
     const db = await getDB();
     const summaries = await getAllSnapshots();
 
-    if (summaries.length <= keepCount) {
+    // Get timestamps to delete (oldest ones, baselines excluded)
+    const toDelete = selectSnapshotsToPrune(summaries, keepCount);
+
+    if (toDelete.length === 0) {
       return 0; // Nothing to prune
     }
 
-    // Get timestamps to delete (oldest ones)
-    const toDelete = summaries
-      .slice(keepCount) // Skip the first N (newest)
-      .map(s => s.timestamp);
-
     // Delete old snapshots
     const tx = db.transaction(STORE_NAME, 'readwrite');
     const store = tx.objectStore(STORE_NAME);
@@ -325,7 +379,7 @@ export async function pruneOldSnapshots(keepCount: number = MAX_SNAPSHOTS): Prom
 
     log.info('IndexedDB: Pruned old snapshots', {
       deleted: toDelete.length,
-      remaining: keepCount
+      remaining: summaries.length - toDelete.length
     });
 
     return toDelete.length;
@@ -351,7 +405,8 @@ export async function getStorageStats(): Promise<StorageStats> {
         snapshotCount: 0,
         oldestSnapshot: null,
         newestSnapshot: null,
-        estimatedSizeMB: 0
+        estimatedSizeMB: 0,
+        baselineCount: 0
       };
     }
 
@@ -367,7 +422,8 @@ export async function getStorageStats(): Promise<StorageStats> {
       snapshotCount: summaries.length,
       oldestSnapshot: sorted[0].timestamp,
       newestSnapshot: sorted[sorted.length - 1].timestamp,
-      estimatedSizeMB: Math.round(estimatedSizeMB * 10) / 10
+      estimatedSizeMB: Math.round(estimatedSizeMB * 10) / 10,
+      baselineCount: summaries.filter(s => s.metadata.baselineName).length
     };
   } catch (error) {
     log.error('IndexedDB: Failed to get storage stats', error);
@@ -0,0 +1,133 @@
+/**
+ * Snapshot Restore
+ *
+ * Rolls the live coreStore back to a historical IndexedDB snapshot.
+ * The current state is always saved as a safety snapshot first, so a
+ * restore can itself be undone from the version history.
+ */
+
+import { coreStore, CoreStoreState } from '../domain/coreStore';
+import { createSnapshotFromState, StoreSnapshotMeta } from '../domain/storeSnapshot';
+import { getSnapshot, saveSnapshot, SnapshotMetadata, SnapshotRecord } from './indexedDBStore';
+import { calculateDiff, DiffResult } from './diffCalculator';
+import { log } from '../lib/log';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What a restore would change, computed before anything is replaced
+ */
+export interface RestorePreview {
+  snapshot: SnapshotRecord;
+  diff: DiffResult; // current state → snapshot state
+}
+
+export type RestoreResult =
+  | { success: true; restoredTimestamp: string; safetySnapshotTimestamp: string }
+  | { success: false; errorMessage: string };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SOURCE_KIND: Record<SnapshotMetadata['source'], StoreSnapshotMeta['sourceKind']> = {
+  Local: 'local',
+  MS365: 'ms365',
+  Demo: 'demo'
+};
+
+/**
+ * Label used for the "from" side of the preview diff
+ */
+export const CURRENT_STATE_LABEL = 'current';
+
+/**
+ * Notes stored on the safety snapshot taken before a restore
+ */
+export function getSafetySnapshotNotes(restoredTimestamp: string): string {
+  return `Auto-saved before restoring snapshot from ${new Date(restoredTimestamp).toLocaleString()}`;
+}
+
+/**
+ * Diff the current store against a snapshot's data
+ */
+export function calculateRestoreDiff(
+  current: CoreStoreState,
+  snapshot: SnapshotRecord
+): DiffResult {
+  return calculateDiff(current, snapshot.data, CURRENT_STATE_LABEL, snapshot.timestamp);
+}
+
+// ============================================================================
+// RESTORE OPERATIONS
+// ============================================================================
+
+/**
+ * Load a snapshot and diff it against the current store
+ *
+ * @param timestamp - ISO timestamp of the snapshot to restore
+ * @returns Preview, or null if the snapshot no longer exists
+ */
+export async function previewSnapshotRestore(timestamp: string): Promise<RestorePreview | null> {
+  const snapshot = await getSnapshot(timestamp);
+  if (!snapshot) {
+    return null;
+  }
+
+  return {
+    snapshot,
+    diff: calculateRestoreDiff(coreStore.getState(), snapshot)
+  };
+}
+
+/**
+ * Replace the store with a snapshot's data, saving the current state first
+ *
+ * Nothing is replaced if the safety snapshot cannot be saved.
+ *
+ * @param snapshot - Snapshot record to restore (usually from the preview)
+ */
+export async function restoreSnapshot(snapshot: SnapshotRecord): Promise<RestoreResult> {
+  let safetySnapshotTimestamp: string;
+
+  try {
+    const current = coreStore.getState();
+    safetySnapshotTimestamp = await saveSnapshot(
+      current,
+      [],
+      getSafetySnapshotNotes(snapshot.timestamp)
+    );
+  } catch (error) {
+    log.error('SnapshotRestore: Failed to save safety snapshot', error);
+    return {
+      success: false,
+      errorMessage: 'Could not save the current state as a safety snapshot; nothing was restored.'
+    };
+  }
+
+  try {
+    // Round-trip through StoreSnapshot so records saved under older schemas
+    // get the same migrations as a persisted session
+    coreStore.loadSnapshot(
+      createSnapshotFromState(snapshot.data, {
+        sourceKind: SOURCE_KIND[snapshot.metadata.source] ?? 'unknown',
+        description: `Restored from snapshot ${snapshot.timestamp}`
+      })
+    );
+
+    log.info('SnapshotRestore: Restored snapshot', {
+      restoredTimestamp: snapshot.timestamp,
+      safetySnapshotTimestamp
+    });
+
+    return { success: true, restoredTimestamp: snapshot.timestamp, safetySnapshotTimestamp };
+  } catch (error) {
+    log.error('SnapshotRestore: Failed to restore snapshot', error);
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Failed to restore snapshot'
+    };
+  }
+}
@@ -4,14 +4,16 @@
 import { AlertTriangle, AlertCircle, Info } from 'lucide-react'
 import { useState } from 'react'
 import { cn } from '../lib/utils'
-import { CrossRefFlag, CrossRefFlagType } from '../../domain/crossRef/CrossRefTypes'
+import { CrossRefFlag, CrossRefFlagType, FlagWaiver } from '../../domain/crossRef/CrossRefTypes'
+import { FlagWaiverInput } from '../../domain/crossRef/FlagWaivers'
 import { DataTable, Column } from './DataTable'
+import { FlagWaiverForm } from './FlagWaiverForm'
 
 // ============================================================================
 // FLAG TYPE LABELS
 // ============================================================================
 
-const FLAG_TYPE_LABELS: Record<CrossRefFlagType, string> = {
+export const FLAG_TYPE_LABELS: Record<CrossRefFlagType, string> = {
   MISSING_GUN_FORCE_FOR_WELD_GUN: 'Missing Gun Force',
   ROBOT_MISSING_DRESS_PACK_INFO: 'Missing Dress Pack Info',
   STATION_WITHOUT_SIMULATION_STATUS: 'No Simulation Status',
@@ -20,6 +22,15 @@ const FLAG_TYPE_LABELS: Record<CrossRefFlagType, string> = {
   AMBIGUOUS_GUN_MATCH: 'Ambiguous Gun Match',
   AMBIGUOUS_ROBOT_MATCH: 'Ambiguous Robot Match',
   DUPLICATE_STATION_DEFINITION: 'Duplicate Station',
+  CUSTOM_RULE: 'Custom Rule',
+}
+
+/**
+ * Label for a flag; custom rule flags show the rule name
+ */
+export function getFlagLabel(flag: CrossRefFlag): string {
+  if (flag.type === 'CUSTOM_RULE' && flag.ruleName) return flag.ruleName
+  return FLAG_TYPE_LABELS[flag.type] ?? flag.type
 }
 
 // ============================================================================
@@ -51,10 +62,17 @@ const severityStyles = {
 // TYPES
 // ============================================================================
 
+type WaiveHandler = (flag: CrossRefFlag, input: Omit<FlagWaiverInput, 'author'>) => void
+
 interface FlagBadgeProps {
   flag: CrossRefFlag
   compact?: boolean
   className?: string
+  /** Shows an Acknowledge / waive action */
+  onWaive?: WaiveHandler
+  /** Waiver covering this flag, shown with a Revoke action */
+  waiver?: FlagWaiver
+  onRevoke?: (waiverId: string) => void
 }
 
 interface FlagBadgeCompactProps {
@@ -77,9 +95,17 @@ const SeverityIcon = ({ severity }: { severity: 'ERROR' | 'WARNING' }) => {
 /**
  * FlagBadge - Full flag display with message
  */
-export function FlagBadge({ flag, compact = false, className }: FlagBadgeProps) {
+export function FlagBadge({
+  flag,
+  compact = false,
+  className,
+  onWaive,
+  waiver,
+  onRevoke,
+}: FlagBadgeProps) {
+  const [showWaiverForm, setShowWaiverForm] = useState(false)
   const style = severityStyles[flag.severity]
-  const label = FLAG_TYPE_LABELS[flag.type] ?? flag.type
+  const label = getFlagLabel(flag)
 
   if (compact) {
     return (
@@ -110,6 +136,38 @@ export function FlagBadge({ flag, compact = false, className }: FlagBadgeProps)
             Station: {flag.stationKey}
           </p>
         )}
+        {waiver && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {waiver.kind === 'WAIVED' ? 'Waived' : 'Acknowledged'} by {waiver.author}
+            {waiver.expiresAt && ` until ${new Date(waiver.expiresAt).toLocaleDateString()}`}:{' '}
+            {waiver.reason}
+            {onRevoke && (
+              <button
+                onClick={() => onRevoke(waiver.id)}
+                className="ml-2 text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Revoke
+              </button>
+            )}
+          </p>
+        )}
+        {onWaive && !showWaiverForm && (
+          <button
+            onClick={() => setShowWaiverForm(true)}
+            className="mt-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Acknowledge / waive
+          </button>
+        )}
+        {onWaive && showWaiverForm && (
+          <FlagWaiverForm
+            onSubmit={(input) => {
+              onWaive(flag, input)
+              setShowWaiverForm(false)
+            }}
+            onCancel={() => setShowWaiverForm(false)}
+          />
+        )}
       </div>
     </div>
   )
@@ -143,9 +201,11 @@ interface FlagsListProps {
   flags: CrossRefFlag[]
   compact?: boolean
   className?: string
+  /** Compact lists only: lets each flag be acknowledged or waived */
+  onWaive?: WaiveHandler
 }
 
-export function FlagsList({ flags, compact = false, className }: FlagsListProps) {
+export function FlagsList({ flags, compact = false, className, onWaive }: FlagsListProps) {
   if (flags.length === 0) {
     return (
       <div className={cn('text-center py-4 text-gray-500 dark:text-gray-400 text-sm', className)}>
@@ -166,7 +226,7 @@ export function FlagsList({ flags, compact = false, className }: FlagsListProps)
     return (
       <div className={cn('space-y-3', className)}>
         {sortedFlags.map((flag, idx) => (
-          <FlagBadge key={idx} flag={flag} />
+          <FlagBadge key={idx} flag={flag} onWaive={onWaive} />
         ))}
       </div>
     )
@@ -179,6 +239,28 @@ export function FlagsList({ flags, compact = false, className }: FlagsListProps)
   )
 }
 
+/**
+ * WaivedFlagsList - Flags hidden by an acknowledgement or waiver
+ */
+interface WaivedFlagsListProps {
+  flags: CrossRefFlag[]
+  getWaiver: (waiverId: string | undefined) => FlagWaiver | undefined
+  onRevoke?: (waiverId: string) => void
+  className?: string
+}
+
+export function WaivedFlagsList({ flags, getWaiver, onRevoke, className }: WaivedFlagsListProps) {
+  if (flags.length === 0) return null
+
+  return (
+    <div className={cn('space-y-3 opacity-75', className)}>
+      {flags.map((flag, idx) => (
+        <FlagBadge key={idx} flag={flag} waiver={getWaiver(flag.waiverId)} onRevoke={onRevoke} />
+      ))}
+    </div>
+  )
+}
+
 interface FlagsTableRow {
   type: string
   severity: string
@@ -210,7 +292,7 @@ const severityChip = (severity: 'ERROR' | 'WARNING') => {
 
 function FlagsTable({ flags }: FlagsTableProps) {
   const initialRows: FlagsTableRow[] = flags.map((flag) => ({
-    type: FLAG_TYPE_LABELS[flag.type] ?? flag.type,
+    type: getFlagLabel(flag),
     severity: flag.severity,
     message: flag.message,
     stationKey: flag.stationKey,
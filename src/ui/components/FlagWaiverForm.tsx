@@ -0,0 +1,77 @@
+// FlagWaiverForm Component
+// Inline form to acknowledge or waive a cross-reference flag
+
+import { useState } from 'react'
+import { FlagWaiverKind } from '../../domain/crossRef/CrossRefTypes'
+import { FlagWaiverInput } from '../../domain/crossRef/FlagWaivers'
+
+interface FlagWaiverFormProps {
+  onSubmit: (input: Omit<FlagWaiverInput, 'author'>) => void
+  onCancel: () => void
+}
+
+const inputClass =
+  'px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+
+export function FlagWaiverForm({ onSubmit, onCancel }: FlagWaiverFormProps) {
+  const [kind, setKind] = useState<FlagWaiverKind>('ACKNOWLEDGED')
+  const [reason, setReason] = useState('')
+  const [expiresOn, setExpiresOn] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit({
+      kind,
+      reason: reason.trim(),
+      // Date inputs give a day; the waiver lasts until the end of it
+      expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 space-y-2" data-testid="flag-waiver-form">
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as FlagWaiverKind)}
+          className={inputClass}
+          aria-label="Waiver kind"
+        >
+          <option value="ACKNOWLEDGED">Acknowledge</option>
+          <option value="WAIVED">Waive</option>
+        </select>
+        <input
+          type="date"
+          value={expiresOn}
+          onChange={(e) => setExpiresOn(e.target.value)}
+          className={inputClass}
+          aria-label="Expires on"
+        />
+      </div>
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (required)"
+        className={`w-full ${inputClass}`}
+        aria-label="Reason"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!reason.trim()}
+          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:underline"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,204 @@
+// GunCheckList Component
+// Robot–weld gun assignments with their geometry / payload / force checks and sign-off
+
+import { useState } from 'react'
+import { Info } from 'lucide-react'
+import { GunCheckSnapshot, GunCheckState } from '../../domain/crossRef/CrossRefTypes'
+import { GunCheckStatus } from '../../domain/types'
+import { GunCheckInput } from '../../domain/robotGunAssignmentsStore'
+import { getUserById } from '../../domain/usersStore'
+import { cn } from '../lib/utils'
+
+const STATE_LABELS: Record<GunCheckState, string> = {
+  NOT_CHECKED: 'Not checked',
+  FAILED: 'Failed',
+  AWAITING_SIGN_OFF: 'Awaiting sign-off',
+  APPROVED: 'Approved',
+}
+
+const STATE_STYLES: Record<GunCheckState, string> = {
+  NOT_CHECKED: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  FAILED: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400',
+  AWAITING_SIGN_OFF: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  APPROVED: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+}
+
+const inputClass =
+  'px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+
+interface GunCheckFormProps {
+  check: GunCheckStatus | undefined
+  canSignOff: boolean
+  onSubmit: (input: GunCheckInput, signOff: boolean) => void
+  onCancel: () => void
+}
+
+function GunCheckForm({ check, canSignOff, onSubmit, onCancel }: GunCheckFormProps) {
+  const [geometryOk, setGeometryOk] = useState(check?.geometryOk ?? false)
+  const [payloadOk, setPayloadOk] = useState(check?.payloadOk ?? false)
+  const [forceOk, setForceOk] = useState(check?.forceOk ?? false)
+  const [comments, setComments] = useState(check?.comments ?? '')
+
+  const allPass = geometryOk && payloadOk && forceOk
+  const submit = (signOff: boolean) =>
+    onSubmit({ geometryOk, payloadOk, forceOk, comments }, signOff)
+
+  const checkboxes: Array<[string, boolean, (value: boolean) => void]> = [
+    ['Geometry', geometryOk, setGeometryOk],
+    ['Payload', payloadOk, setPayloadOk],
+    ['Force', forceOk, setForceOk],
+  ]
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        submit(false)
+      }}
+      className="mt-2 space-y-2"
+      data-testid="gun-check-form"
+    >
+      <div className="flex flex-wrap gap-3">
+        {checkboxes.map(([label, value, setValue]) => (
+          <label
+            key={label}
+            className="flex items-center gap-1 text-xs text-gray-700 dark:text-gray-300"
+          >
+            <input type="checkbox" checked={value} onChange={(e) => setValue(e.target.checked)} />
+            {label} OK
+          </label>
+        ))}
+      </div>
+      <input
+        type="text"
+        value={comments}
+        onChange={(e) => setComments(e.target.value)}
+        placeholder="Comments"
+        className={`w-full ${inputClass}`}
+        aria-label="Comments"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          disabled={!allPass || !canSignOff}
+          onClick={() => submit(true)}
+          title={
+            !canSignOff
+              ? 'Sign-off needs a signed-in user'
+              : allPass
+                ? undefined
+                : 'All checks must pass before sign-off'
+          }
+          className="px-2 py-1 text-xs bg-emerald-600 text-white rounded hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save &amp; sign off
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:underline"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
+
+interface GunCheckListProps {
+  gunChecks: GunCheckSnapshot[]
+  getCheck: (assignmentId: string) => GunCheckStatus | undefined
+  /** False when there is no current user to record as approver */
+  canSignOff: boolean
+  onRecord: (assignmentId: string, input: GunCheckInput, signOff: boolean) => void
+  className?: string
+}
+
+export function GunCheckList({
+  gunChecks,
+  getCheck,
+  canSignOff,
+  onRecord,
+  className,
+}: GunCheckListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  if (gunChecks.length === 0) {
+    return (
+      <div className={cn('text-center py-4 text-gray-500 dark:text-gray-400 text-sm', className)}>
+        <Info className="h-5 w-5 mx-auto mb-1 opacity-50" />
+        No robot–gun assignments for this station
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {gunChecks.map((snapshot) => {
+        const check = getCheck(snapshot.assignmentId)
+        return (
+          <div
+            key={snapshot.assignmentId}
+            className="p-3 rounded-md border border-gray-200 dark:border-gray-700"
+            data-testid="gun-check-row"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                  {snapshot.gunKey} <span className="text-gray-400 font-normal">on</span>{' '}
+                  {snapshot.robotKey}
+                </div>
+                {check?.comments && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                    {check.comments}
+                  </div>
+                )}
+                {check?.approvedAt && (
+                  <div className="text-[10px] text-gray-400 mt-0.5">
+                    Signed off by{' '}
+                    {(check.approvedByUserId && getUserById(check.approvedByUserId)?.name) ??
+                      check.approvedByUserId}{' '}
+                    on {new Date(check.approvedAt).toLocaleDateString()}
+                  </div>
+                )}
+              </div>
+              <span
+                className={cn(
+                  'px-2 py-0.5 text-[10px] font-semibold rounded whitespace-nowrap',
+                  STATE_STYLES[snapshot.state],
+                )}
+              >
+                {STATE_LABELS[snapshot.state]}
+              </span>
+            </div>
+            {editingId === snapshot.assignmentId ? (
+              <GunCheckForm
+                check={check}
+                canSignOff={canSignOff}
+                onSubmit={(input, signOff) => {
+                  onRecord(snapshot.assignmentId, input, signOff)
+                  setEditingId(null)
+                }}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => setEditingId(snapshot.assignmentId)}
+                className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {check ? 'Update checks' : 'Record checks'}
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
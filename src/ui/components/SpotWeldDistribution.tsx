@@ -0,0 +1,139 @@
+// SpotWeldDistribution Component
+// Weld counts per robot and gun for a station, with unassigned / inactive robot flags
+
+import { useRef, useState } from 'react'
+import { AlertTriangle, Info, Upload } from 'lucide-react'
+import { SpotWeldCount, SpotWeldDistribution as Distribution } from '../../domain/spotWeldsStore'
+import { SpotWeldImportResult } from '../../ingestion/spotWeldImport'
+import { cn } from '../lib/utils'
+
+function CountTable({ title, counts }: { title: string; counts: SpotWeldCount[] }) {
+  if (counts.length === 0) return null
+
+  return (
+    <div>
+      <h4 className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-2">{title}</h4>
+      <ul className="space-y-1">
+        {counts.map((c) => (
+          <li
+            key={c.assetId}
+            className="flex items-center justify-between text-sm"
+            data-testid="spot-weld-count"
+          >
+            <span
+              className={cn(
+                'truncate',
+                c.isActive
+                  ? 'text-gray-900 dark:text-gray-100'
+                  : 'text-gray-400 dark:text-gray-500 line-through',
+              )}
+            >
+              {c.name}
+            </span>
+            <span className="font-mono text-xs text-gray-600 dark:text-gray-300">{c.count}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+interface SpotWeldDistributionProps {
+  distribution: Distribution
+  onImport: (file: File) => Promise<SpotWeldImportResult>
+  className?: string
+}
+
+export function SpotWeldDistribution({
+  distribution,
+  onImport,
+  className,
+}: SpotWeldDistributionProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const { stats, warnings } = await onImport(file)
+      const warningText = warnings.length > 0 ? `, ${warnings.length} warnings` : ''
+      setMessage({
+        text: `Imported ${stats.total} welds (${stats.linkedToRobot} linked to robots, ${stats.linkedToGun} to guns)${warningText}`,
+        isError: stats.total === 0,
+      })
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : String(error), isError: true })
+    } finally {
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const robotNames = [...new Set(distribution.onInactiveRobots.map((w) => w.robotId))]
+    .map((id) => distribution.byRobot.find((r) => r.assetId === id)?.name ?? id)
+    .join(', ')
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {distribution.total === 0 ? (
+        <div className="text-center py-4 text-gray-500 dark:text-gray-400 text-sm">
+          <Info className="h-5 w-5 mx-auto mb-1 opacity-50" />
+          No weld points imported for this station
+        </div>
+      ) : (
+        <>
+          {distribution.unassigned.length > 0 && (
+            <div
+              className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400"
+              data-testid="spot-weld-flag"
+            >
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {distribution.unassigned.length} welds not assigned to a robot
+            </div>
+          )}
+          {distribution.onInactiveRobots.length > 0 && (
+            <div
+              className="flex items-start gap-2 text-xs text-rose-700 dark:text-rose-400"
+              data-testid="spot-weld-flag"
+            >
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {`${distribution.onInactiveRobots.length} welds assigned to inactive robots (${robotNames})`}
+            </div>
+          )}
+          <CountTable title="Per robot" counts={distribution.byRobot} />
+          <CountTable title="Per gun" counts={distribution.byGun} />
+        </>
+      )}
+
+      <div className="pt-2 border-t border-gray-100 dark:border-gray-700/50">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.xlsx,.xlsm,.xls"
+          className="hidden"
+          onChange={(e) => void handleFile(e.target.files?.[0])}
+          aria-label="Weld point list"
+        />
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Upload className="h-3 w-3" />
+          Import weld point list
+        </button>
+        {message && (
+          <p
+            className={cn(
+              'mt-1 text-xs',
+              message.isError
+                ? 'text-rose-600 dark:text-rose-400'
+                : 'text-gray-500 dark:text-gray-400',
+            )}
+          >
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,15 @@
-import { ChangeRecord, summarizeChange } from '../domain/changeLog'
+import { ChangeRecord, getChangeValues, summarizeChange } from '../domain/changeLog'
+import { GunForceVerification } from '../domain/crossRef/GunForceVerification'
+
+/**
+ * Quote a CSV field when it contains separators, quotes or line breaks
+ */
+export function escapeCsvField(value: string): string {
+    if (/[",\r\n]/.test(value)) {
+        return `"${value.replace(/"/g, '""')}"`
+    }
+    return value
+}
 
 /**
  * Convert change log to CSV string
@@ -6,17 +17,21 @@ import { ChangeRecord, summarizeChange } from '../domain/changeLog'
 export function generateChangesCsv(changes: ChangeRecord[]): string {
     if (changes.length === 0) return ''
 
-    const header = 'Date,Change ID,Kind,Cell ID,Previous Engineer,New Engineer,Summary\n'
+    const header = 'Date,Change ID,Kind,Cell ID,Author,Previous Value,New Value,Summary\n'
 
     const rows = changes.map(change => {
-        const date = new Date(change.createdAt).toLocaleString()
-        const summary = summarizeChange(change).replace(/,/g, ';') // Escape commas in summary
+        const { previous, next } = getChangeValues(change)
 
-        // Specific fields for cell assignment
-        const prevEng = change.previousEngineer || ''
-        const newEng = change.newEngineer || ''
-
-        return `${date},${change.id},${change.kind},${change.cellId},${prevEng},${newEng},${summary}`
+        return [
+            new Date(change.createdAt).toISOString(),
+            change.id,
+            change.kind,
+            change.cellId,
+            change.createdBy || '',
+            previous,
+            next,
+            summarizeChange(change)
+        ].map(escapeCsvField).join(',')
     })
 
     return header + rows.join('\n')
@@ -41,3 +56,48 @@ export function downloadChangesAsCsv(changes: ChangeRecord[]): void {
     link.click()
     document.body.removeChild(link)
 }
+
+/**
+ * Convert gun force verification results to CSV string
+ */
+export function generateGunForceReportCsv(results: GunForceVerification[]): string {
+    if (results.length === 0) return ''
+
+    const header = 'Station,Robot,Gun,Required Force (kN),Gun Max Force (kN),Force Check,Robot Payload,Gun Payload,Payload Check,Result,Notes\n'
+
+    const rows = results.map(result => [
+        result.stationKey,
+        result.robotKey,
+        result.gunKey,
+        result.requiredForce?.toString() ?? '',
+        result.maxForce?.toString() ?? '',
+        result.forceResult,
+        result.robotPayload ?? '',
+        result.gunPayload ?? '',
+        result.payloadResult,
+        result.result,
+        result.reasons.join('; ')
+    ].map(escapeCsvField).join(','))
+
+    return header + rows.join('\n')
+}
+
+/**
+ * Trigger browser download of the gun force verification report
+ */
+export function downloadGunForceReportAsCsv(results: GunForceVerification[]): void {
+    if (results.length === 0) return
+
+    const csvContent = generateGunForceReportCsv(results)
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement('a')
+    link.setAttribute('href', url)
+    link.setAttribute('download', `simpilot_gun_force_${new Date().toISOString().slice(0, 10)}.csv`)
+    link.style.visibility = 'hidden'
+
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+}
@@ -0,0 +1,45 @@
+/**
+ * Field Matcher Evaluation
+ *
+ * Matches every expected header in the golden ingestion fixtures with the
+ * pattern matcher and with the local n-gram embedding provider, and prints
+ * the accuracy of each plus the headers where they disagree.
+ *
+ * Usage (from the repo root):
+ *   npm run dev:evaluate-field-matchers
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  buildGoldenEvaluationCases,
+  evaluateFieldMatchers,
+  formatMatcherEvaluationReport,
+  LocalEmbeddingProvider,
+  type GoldenExpectations,
+} from '../../src/ingestion/fieldMatcher'
+
+const EXPECTATIONS_PATH = path.resolve(
+  process.cwd(),
+  'src/ingestion/__fixtures__/golden/expectations.json',
+)
+
+async function main(): Promise<void> {
+  const expectations = JSON.parse(
+    fs.readFileSync(EXPECTATIONS_PATH, 'utf-8'),
+  ) as GoldenExpectations
+  const { cases, skippedFieldIds } = buildGoldenEvaluationCases(expectations)
+
+  const report = await evaluateFieldMatchers(
+    cases,
+    new LocalEmbeddingProvider(),
+    undefined,
+    skippedFieldIds,
+  )
+  console.log(formatMatcherEvaluationReport(report))
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})